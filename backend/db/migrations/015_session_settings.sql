@@ -0,0 +1,17 @@
+-- Host-configurable game settings chosen at session creation.
+-- Replaces the compile-time BREAK_SCHEDULE / TOTAL_INGAME_MS constants in the game loop:
+-- each session now carries its own break durations, summary breaks and in-game span.
+ALTER TABLE game_sessions
+    ADD COLUMN IF NOT EXISTS break_schedule JSONB NOT NULL DEFAULT '[3, 5, 3]',
+    ADD COLUMN IF NOT EXISTS summary_rounds JSONB NOT NULL DEFAULT '[2]',
+    ADD COLUMN IF NOT EXISTS start_year INT NULL,
+    ADD COLUMN IF NOT EXISTS total_years DOUBLE PRECISION NOT NULL DEFAULT 20;
+
+COMMENT ON COLUMN game_sessions.break_schedule IS
+    'Break durations in minutes, indexed by the round just completed: [after r1, after r2, ...]';
+COMMENT ON COLUMN game_sessions.summary_rounds IS
+    'Rounds whose following break generates a summary, covering every round since the previous summary break';
+COMMENT ON COLUMN game_sessions.start_year IS
+    'In-game year the timeline starts at (1 January). NULL means the real date the first round begins';
+COMMENT ON COLUMN game_sessions.total_years IS
+    'In-game years the timeline spans across all rounds';
@@ -0,0 +1,19 @@
+-- Host pause/resume/extend/skip controls for the game loop.
+-- While paused_at is set the phase timer is frozen and the in-game clock stops;
+-- on resume the phase window is shifted forward by the paused duration.
+ALTER TABLE game_sessions
+    ADD COLUMN IF NOT EXISTS paused_at TIMESTAMPTZ NULL;
+
+COMMENT ON COLUMN game_sessions.paused_at IS
+    'When the host paused the current phase; NULL while the game clock is running';
+
+-- Host actions are recorded alongside ordinary phase transitions. Timer-driven
+-- transitions leave action NULL; pause/resume/extend rows have from_phase = to_phase.
+ALTER TABLE game_session_state_transitions
+    ADD COLUMN IF NOT EXISTS action VARCHAR(16) NULL,
+    ADD COLUMN IF NOT EXISTS details JSONB NULL;
+
+COMMENT ON COLUMN game_session_state_transitions.action IS
+    'Host control that caused this row: PAUSE, RESUME, EXTEND or SKIP. NULL for scheduled transitions';
+COMMENT ON COLUMN game_session_state_transitions.details IS
+    'Action details, e.g. { "playerId": "...", "extendMs": 60000 } or { "pausedMs": 45000 }';
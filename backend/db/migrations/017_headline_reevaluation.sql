@@ -0,0 +1,20 @@
+-- Fallback for juror outages: when evaluation fails after retries and repair, the
+-- submission is stored with llm_status = 'failed' and re-evaluated in the background
+-- until the juror recovers, at which point it is scored like any other headline.
+ALTER TABLE game_session_headlines
+    ADD COLUMN IF NOT EXISTS llm_attempts INT NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS llm_error TEXT NULL,
+    ADD COLUMN IF NOT EXISTS next_evaluation_at TIMESTAMPTZ NULL;
+
+CREATE INDEX IF NOT EXISTS idx_headlines_reevaluation_due
+    ON game_session_headlines(next_evaluation_at)
+    WHERE llm_status = 'failed';
+
+COMMENT ON COLUMN game_session_headlines.llm_status IS
+    'Status of LLM evaluation: evaluated, failed (queued for re-evaluation) or seed (Archive headline)';
+COMMENT ON COLUMN game_session_headlines.llm_attempts IS
+    'Juror evaluations attempted for a failed headline, including the original submission';
+COMMENT ON COLUMN game_session_headlines.llm_error IS
+    'Last juror error for a failed headline';
+COMMENT ON COLUMN game_session_headlines.next_evaluation_at IS
+    'When the background queue next retries a failed headline';
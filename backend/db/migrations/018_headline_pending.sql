@@ -0,0 +1,15 @@
+-- Asynchronous headline pipeline: submissions are stored as llm_status = 'pending'
+-- and evaluated in the background. next_evaluation_at doubles as a lease on pending
+-- rows so the re-evaluation queue can recover submissions orphaned by a restart.
+DROP INDEX IF EXISTS idx_headlines_reevaluation_due;
+
+CREATE INDEX IF NOT EXISTS idx_headlines_evaluation_due
+    ON game_session_headlines(next_evaluation_at)
+    WHERE llm_status IN ('pending', 'failed');
+
+COMMENT ON COLUMN game_session_headlines.llm_status IS
+    'Status of LLM evaluation: pending (awaiting the juror), evaluated, failed (queued for re-evaluation) or seed (Archive headline)';
+COMMENT ON COLUMN game_session_headlines.llm_attempts IS
+    'Juror evaluations attempted, including the first one after submission';
+COMMENT ON COLUMN game_session_headlines.next_evaluation_at IS
+    'When the background queue next retries a failed headline, or recovers a pending one';
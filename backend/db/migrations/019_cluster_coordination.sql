@@ -0,0 +1,21 @@
+-- Coordination between backend instances (CLUSTER_MODE=postgres).
+-- Headline cooldowns move from process memory to the player row so every instance
+-- enforces the same one, and Socket.IO events too large for a NOTIFY payload are
+-- passed between instances through a short-lived attachments table.
+ALTER TABLE session_players
+    ADD COLUMN IF NOT EXISTS last_headline_at TIMESTAMPTZ NULL;
+
+COMMENT ON COLUMN session_players.last_headline_at IS
+    'When the player last submitted a headline; drives the submission cooldown';
+
+CREATE TABLE IF NOT EXISTS socket_io_attachments (
+    id BIGSERIAL PRIMARY KEY,
+    payload TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_socket_io_attachments_created
+    ON socket_io_attachments(created_at);
+
+COMMENT ON TABLE socket_io_attachments IS
+    'Socket.IO adapter messages over the 8000-byte NOTIFY limit; deleted after 30 seconds';
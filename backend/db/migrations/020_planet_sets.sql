@@ -0,0 +1,9 @@
+-- Per-session planet sets for themed games.
+-- Holds the pack the host chose (or 'custom') and its 3-12 planets with the
+-- descriptions the juror classifies against and the tags/colours players see.
+-- NULL (sessions created before this migration) means the classic nine planets.
+ALTER TABLE game_sessions
+    ADD COLUMN IF NOT EXISTS planet_set JSONB NULL;
+
+COMMENT ON COLUMN game_sessions.planet_set IS
+    'Planet set for the session: {pack, planets: [{id, description, tags, color}]}. NULL = classic planets';
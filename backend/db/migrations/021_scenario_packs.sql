@@ -0,0 +1,19 @@
+-- Scenario packs: what a game is about beyond AI.
+-- A pack bundles the topic the juror and summaries are told about, the Archive's
+-- seed headlines, a planet set and an in-game start year. Built-in packs live in
+-- code; uploaded packs are stored here. Each session keeps a copy of the pack it
+-- was created with, so later uploads never change a running game.
+CREATE TABLE IF NOT EXISTS scenario_packs (
+    id TEXT PRIMARY KEY,
+    definition JSONB NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE scenario_packs IS
+    'Uploaded scenario packs: {id, name, description, topic, seedHeadlines, planetSet, startYear}';
+
+ALTER TABLE game_sessions
+    ADD COLUMN IF NOT EXISTS scenario JSONB NULL;
+
+COMMENT ON COLUMN game_sessions.scenario IS
+    'Scenario pack the session plays (a copy). NULL = the built-in AI scenario';
@@ -0,0 +1,11 @@
+-- Imported sessions: finished games recreated from an export archive.
+-- They are stored as FINISHED, so nobody can join, play or re-evaluate them;
+-- they exist to be replayed and analysed.
+ALTER TABLE game_sessions
+    ADD COLUMN IF NOT EXISTS imported_at TIMESTAMPTZ NULL,
+    ADD COLUMN IF NOT EXISTS imported_from VARCHAR(8) NULL;
+
+COMMENT ON COLUMN game_sessions.imported_at IS
+    'When the session was recreated from an export archive. NULL for sessions played here';
+COMMENT ON COLUMN game_sessions.imported_from IS
+    'Join code of the session the archive was exported from';
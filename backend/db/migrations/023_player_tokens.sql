@@ -0,0 +1,12 @@
+-- Signed player session tokens.
+-- Players authenticate sockets with an HMAC-signed token instead of a bare
+-- player id. Tokens carry the player's token_version; bumping it revokes them.
+-- A recovery code (stored hashed) replaces nickname-only rejoin.
+ALTER TABLE session_players
+    ADD COLUMN IF NOT EXISTS token_version INT NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS recovery_code_hash TEXT NULL;
+
+COMMENT ON COLUMN session_players.token_version IS
+    'Incremented when the host revokes the player''s tokens; older tokens stop working';
+COMMENT ON COLUMN session_players.recovery_code_hash IS
+    'SHA-256 of the player''s recovery code, used to rejoin from another device. NULL = no recovery';
@@ -0,0 +1,18 @@
+-- Host moderation: kick (optionally banning the player from rejoining), mute
+-- and rename. Kicked players keep their row so their headlines and scores stay
+-- attributable; they just drop out of the roster and leaderboard.
+ALTER TABLE session_players
+    ADD COLUMN IF NOT EXISTS removed_at TIMESTAMPTZ NULL,
+    ADD COLUMN IF NOT EXISTS banned BOOLEAN NOT NULL DEFAULT FALSE,
+    ADD COLUMN IF NOT EXISTS muted_until TIMESTAMPTZ NULL;
+
+COMMENT ON COLUMN session_players.removed_at IS
+    'When the host kicked the player; NULL while they are in the session';
+COMMENT ON COLUMN session_players.banned IS
+    'Kicked players with banned = TRUE cannot rejoin with their recovery code';
+COMMENT ON COLUMN session_players.muted_until IS
+    'The player cannot submit headlines until this time. NULL = not muted';
+
+-- moderation is logged with the other host actions
+COMMENT ON COLUMN game_session_state_transitions.action IS
+    'Host action that caused this row: PAUSE, RESUME, EXTEND, SKIP, or a moderation action (KICK, BAN, RENAME, MUTE, UNMUTE, TRANSFER_HOST). NULL for scheduled transitions';
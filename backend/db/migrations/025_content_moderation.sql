@@ -0,0 +1,51 @@
+-- Content moderation for story directions and generated headlines.
+-- Each session picks how strict the check is. Submissions the check rejects are
+-- kept in headline_rejections with the reason; headlines it flags wait in the
+-- host's review queue, hidden from other players and from summaries until approved.
+ALTER TABLE game_sessions
+    ADD COLUMN IF NOT EXISTS moderation_strictness VARCHAR(16) NOT NULL DEFAULT 'standard';
+
+COMMENT ON COLUMN game_sessions.moderation_strictness IS
+    'Content moderation level: off, relaxed, standard or strict';
+
+ALTER TABLE game_session_headlines
+    ADD COLUMN IF NOT EXISTS moderation_status VARCHAR(16) NOT NULL DEFAULT 'approved',
+    ADD COLUMN IF NOT EXISTS moderation_reason TEXT NULL,
+    ADD COLUMN IF NOT EXISTS moderated_at TIMESTAMPTZ NULL;
+
+ALTER TABLE game_session_headlines
+    ADD CONSTRAINT valid_moderation_status
+    CHECK (moderation_status IN ('approved', 'flagged', 'hidden'));
+
+COMMENT ON COLUMN game_session_headlines.moderation_status IS
+    'approved (shown to everyone), flagged (waiting for host review) or hidden (host hid it)';
+COMMENT ON COLUMN game_session_headlines.moderation_reason IS
+    'Why the moderation check flagged the story direction or generated headlines';
+COMMENT ON COLUMN game_session_headlines.moderated_at IS
+    'When the host last approved or hid the headline';
+
+CREATE INDEX IF NOT EXISTS idx_headlines_flagged
+    ON game_session_headlines(session_id) WHERE moderation_status = 'flagged';
+
+-- Story directions the check rejected outright. They never reach the juror.
+CREATE TABLE IF NOT EXISTS headline_rejections (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    session_id UUID NOT NULL REFERENCES game_sessions(id) ON DELETE CASCADE,
+    player_id UUID NOT NULL REFERENCES session_players(id) ON DELETE CASCADE,
+    round_no INT NOT NULL,
+    story_direction TEXT NOT NULL,
+    reason TEXT NOT NULL,
+    categories JSONB NOT NULL DEFAULT '[]',
+    provider VARCHAR(16) NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_headline_rejections_session
+    ON headline_rejections(session_id, created_at);
+
+COMMENT ON TABLE headline_rejections IS
+    'Story directions refused by content moderation, with the reason shown to the host';
+
+-- approving and hiding are logged with the other host actions
+COMMENT ON COLUMN game_session_state_transitions.action IS
+    'Host action that caused this row: PAUSE, RESUME, EXTEND, SKIP, a moderation action (KICK, BAN, RENAME, MUTE, UNMUTE, TRANSFER_HOST) or a headline review (APPROVE, HIDE). NULL for scheduled transitions';
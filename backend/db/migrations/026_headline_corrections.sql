@@ -0,0 +1,5 @@
+-- Host score corrections: overriding a scored headline's plausibility level or
+-- primary planet is logged with the other host actions, the details carrying the
+-- old and new values and the change to the author's score.
+COMMENT ON COLUMN game_session_state_transitions.action IS
+    'Host action that caused this row: PAUSE, RESUME, EXTEND, SKIP, a moderation action (KICK, BAN, RENAME, MUTE, UNMUTE, TRANSFER_HOST), a headline review (APPROVE, HIDE) or a score correction (OVERRIDE). NULL for scheduled transitions';
@@ -0,0 +1,10 @@
+-- Spectator codes.
+-- A second, read-only code per session for projectors and observers. A spectator
+-- joins the session room without a session_players row, so it never shows up in
+-- the roster or the leaderboard. Sessions created before this migration get a
+-- code the first time the host asks for one.
+ALTER TABLE game_sessions
+    ADD COLUMN IF NOT EXISTS spectator_code VARCHAR(8) NULL UNIQUE;
+
+COMMENT ON COLUMN game_sessions.spectator_code IS
+    'Read-only code for watching the session (projector view). The host can reset it to cut off old spectators';
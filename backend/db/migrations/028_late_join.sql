@@ -0,0 +1,29 @@
+-- Late joins.
+-- A session can let players join after the game has started. Late joiners can
+-- start with a catch-up score so they aren't stuck at the bottom of the
+-- leaderboard, and the host can lock the session against any further joins
+-- (recovering an existing player with a recovery code still works).
+ALTER TABLE game_sessions
+    ADD COLUMN IF NOT EXISTS late_join_allowed BOOLEAN NOT NULL DEFAULT FALSE,
+    ADD COLUMN IF NOT EXISTS late_join_catch_up VARCHAR(16) NOT NULL DEFAULT 'none',
+    ADD COLUMN IF NOT EXISTS join_locked BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN game_sessions.late_join_allowed IS
+    'Whether new players may join once the game has started (never once it is finished)';
+COMMENT ON COLUMN game_sessions.late_join_catch_up IS
+    'Starting score for late joiners: none (0), lowest (the lowest current score) or average (the mean, rounded down)';
+COMMENT ON COLUMN game_sessions.join_locked IS
+    'Set by the host to refuse new players, in any phase';
+
+ALTER TABLE session_players
+    ADD COLUMN IF NOT EXISTS joined_round INT NULL,
+    ADD COLUMN IF NOT EXISTS catch_up_score INT NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN session_players.joined_round IS
+    'Round the player joined in; NULL if they joined before the game started';
+COMMENT ON COLUMN session_players.catch_up_score IS
+    'Points the player started with as a late joiner (already included in total_score)';
+
+-- locking and unlocking are logged with the other host actions
+COMMENT ON COLUMN game_session_state_transitions.action IS
+    'Host action that caused this row: PAUSE, RESUME, EXTEND, SKIP, a moderation action (KICK, BAN, RENAME, MUTE, UNMUTE, TRANSFER_HOST, LOCK, UNLOCK), a headline review (APPROVE, HIDE) or a score correction (OVERRIDE). NULL for scheduled transitions';
@@ -0,0 +1,19 @@
+-- Team mode.
+-- The host names the teams when creating the session (NULL means everyone plays
+-- for themselves). Each player belongs to one team; a team's score is the sum of
+-- its members' scores, and connection points only count links to other teams.
+ALTER TABLE game_sessions
+    ADD COLUMN IF NOT EXISTS teams JSONB NULL;
+
+COMMENT ON COLUMN game_sessions.teams IS
+    'Team names in display order, e.g. ["Red", "Blue"]; NULL for a game without teams';
+
+ALTER TABLE session_players
+    ADD COLUMN IF NOT EXISTS team VARCHAR(24) NULL;
+
+COMMENT ON COLUMN session_players.team IS
+    'The player''s team, one of game_sessions.teams; NULL in a game without teams';
+
+-- moving players between teams is logged with the other host actions
+COMMENT ON COLUMN game_session_state_transitions.action IS
+    'Host action that caused this row: PAUSE, RESUME, EXTEND, SKIP, a moderation action (KICK, BAN, RENAME, MUTE, UNMUTE, TRANSFER_HOST, LOCK, UNLOCK, SET_TEAM, BALANCE_TEAMS), a headline review (APPROVE, HIDE) or a score correction (OVERRIDE). NULL for scheduled transitions';
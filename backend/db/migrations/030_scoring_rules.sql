@@ -0,0 +1,8 @@
+-- Per-session scoring rules.
+-- The host picks a preset at session creation and may tune its points; the
+-- resolved rules are stored so scoring and corrections use them all game.
+ALTER TABLE game_sessions
+    ADD COLUMN IF NOT EXISTS scoring_rules JSONB NULL;
+
+COMMENT ON COLUMN game_sessions.scoring_rules IS
+    'Scoring preset and resolved points ({preset, tuned, rules}); NULL for the classic rules';
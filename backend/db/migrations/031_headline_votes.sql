@@ -0,0 +1,29 @@
+-- Player voting.
+-- During a break players upvote, or award a limited number of "front page"
+-- stars to, other players' headlines from the round just played. Each vote's
+-- points go to the headline's author (the "people's choice" part of their score).
+ALTER TABLE game_sessions
+    ADD COLUMN IF NOT EXISTS voting JSONB NULL;
+
+COMMENT ON COLUMN game_sessions.voting IS
+    'Voting policy ({enabled, upvotePoints, starPoints, upvotesPerBreak, starsPerBreak}); NULL for the defaults';
+
+CREATE TABLE IF NOT EXISTS headline_votes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    session_id UUID NOT NULL REFERENCES game_sessions(id) ON DELETE CASCADE,
+    headline_id UUID NOT NULL REFERENCES game_session_headlines(id) ON DELETE CASCADE,
+    voter_id UUID NOT NULL REFERENCES session_players(id) ON DELETE CASCADE,
+    author_id UUID NOT NULL REFERENCES session_players(id) ON DELETE CASCADE,
+    round_no INT NOT NULL,
+    kind VARCHAR(8) NOT NULL CHECK (kind IN ('up', 'star')),
+    -- the points at the time of the vote, already added to the author's total_score
+    points INT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (headline_id, voter_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_headline_votes_voter
+    ON headline_votes(session_id, voter_id, round_no);
+
+CREATE INDEX IF NOT EXISTS idx_headline_votes_author
+    ON headline_votes(session_id, author_id);
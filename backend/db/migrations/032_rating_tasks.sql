@@ -0,0 +1,46 @@
+-- Human rater calibration.
+-- An operator samples headlines from finished sessions into a rating task;
+-- human raters rate each story direction's plausibility (1-5) without seeing
+-- the juror's level, and the report compares them with each other and the juror.
+CREATE TABLE IF NOT EXISTS rating_tasks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(80) NOT NULL,
+    -- how the items were picked ({sampleSize | perLevel, joinCodes, since})
+    sample JSONB NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- The sampled headlines. The text and the juror's level are copied in, so the
+-- task stays comparable if the headline is re-scored or its session deleted.
+CREATE TABLE IF NOT EXISTS rating_task_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    task_id UUID NOT NULL REFERENCES rating_tasks(id) ON DELETE CASCADE,
+    headline_id UUID NULL REFERENCES game_session_headlines(id) ON DELETE SET NULL,
+    position INT NOT NULL,
+    story_direction TEXT NOT NULL,
+    selected_headline TEXT NULL,
+    juror_level INT NOT NULL CHECK (juror_level BETWEEN 1 AND 5),
+    UNIQUE (task_id, position)
+);
+
+CREATE TABLE IF NOT EXISTS rating_task_raters (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    task_id UUID NOT NULL REFERENCES rating_tasks(id) ON DELETE CASCADE,
+    name VARCHAR(40) NOT NULL,
+    -- the rater's link: /rate/<code>
+    code VARCHAR(10) NOT NULL UNIQUE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (task_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS headline_ratings (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    item_id UUID NOT NULL REFERENCES rating_task_items(id) ON DELETE CASCADE,
+    rater_id UUID NOT NULL REFERENCES rating_task_raters(id) ON DELETE CASCADE,
+    level INT NOT NULL CHECK (level BETWEEN 1 AND 5),
+    rated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (item_id, rater_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_headline_ratings_rater
+    ON headline_ratings(rater_id);
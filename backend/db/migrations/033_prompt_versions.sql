@@ -0,0 +1,21 @@
+-- Prompt versioning.
+-- Every juror evaluation and summary records the prompt variant it was built
+-- with (llm/promptRegistry.ts), and a session can move a prompt kind to another
+-- variant for all or a fraction of its calls, for an A/B comparison.
+ALTER TABLE game_sessions
+    ADD COLUMN IF NOT EXISTS prompt_experiment JSONB NULL;
+
+COMMENT ON COLUMN game_sessions.prompt_experiment IS
+    'Prompt variant per kind ({juror|summary|narrative: {variant, fraction}}); NULL for the default prompts';
+
+ALTER TABLE game_session_headlines
+    ADD COLUMN IF NOT EXISTS prompt_version VARCHAR(40) NULL;
+
+COMMENT ON COLUMN game_session_headlines.prompt_version IS
+    'Juror prompt variant of the latest evaluation (e.g. juror.v1); NULL before evaluation or before prompts were versioned';
+
+ALTER TABLE round_summaries
+    ADD COLUMN IF NOT EXISTS prompt_version VARCHAR(40) NULL;
+
+COMMENT ON COLUMN round_summaries.prompt_version IS
+    'Summary or narrative prompt variant the row was generated with; NULL before prompts were versioned';
@@ -0,0 +1,46 @@
+-- LLM usage and cost accounting.
+-- Every LLM call (juror, summaries, moderation) is logged with its tokens,
+-- latency and outcome; costs come from the per-model prices at report time.
+CREATE TABLE IF NOT EXISTS llm_calls (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- NULL for calls outside a game (moderation, the juror api, prompt comparisons);
+    -- kept when the session is deleted so daily totals stay whole
+    session_id UUID NULL REFERENCES game_sessions(id) ON DELETE SET NULL,
+    headline_id UUID NULL REFERENCES game_session_headlines(id) ON DELETE SET NULL,
+    purpose VARCHAR(20) NOT NULL,
+    provider VARCHAR(20) NOT NULL,
+    model VARCHAR(64) NOT NULL,
+    input_tokens INT NOT NULL DEFAULT 0,
+    output_tokens INT NOT NULL DEFAULT 0,
+    latency_ms INT NOT NULL,
+    status VARCHAR(8) NOT NULL CHECK (status IN ('ok', 'error')),
+    -- transient failures retried within the call
+    retries INT NOT NULL DEFAULT 0,
+    error TEXT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_calls_session
+    ON llm_calls(session_id);
+
+CREATE INDEX IF NOT EXISTS idx_llm_calls_created
+    ON llm_calls(created_at);
+
+-- USD per million tokens; models without a row are reported as unpriced.
+CREATE TABLE IF NOT EXISTS llm_model_prices (
+    model VARCHAR(64) PRIMARY KEY,
+    input_per_million NUMERIC(10, 4) NOT NULL CHECK (input_per_million >= 0),
+    output_per_million NUMERIC(10, 4) NOT NULL CHECK (output_per_million >= 0),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- the offline provider is free
+INSERT INTO llm_model_prices (model, input_per_million, output_per_million)
+VALUES ('offline-rules', 0, 0)
+ON CONFLICT (model) DO NOTHING;
+
+ALTER TABLE game_sessions
+    ADD COLUMN IF NOT EXISTS llm_token_budget INT NULL;
+
+COMMENT ON COLUMN game_sessions.llm_token_budget IS
+    'Input plus output tokens the session may spend; once used up, round summaries and the narrative are skipped. NULL for no limit';
@@ -0,0 +1,21 @@
+-- Seeded, verifiable dice rolls.
+-- Each session gets a secret seed whose SHA-256 is published when the game
+-- starts and the seed itself when it finishes. A headline's roll is derived
+-- from the seed and the headline's sequence number, so anyone can check it.
+ALTER TABLE game_sessions
+    ADD COLUMN IF NOT EXISTS dice_seed VARCHAR(64) NULL,
+    ADD COLUMN IF NOT EXISTS dice_seed_hash VARCHAR(64) NULL,
+    ADD COLUMN IF NOT EXISTS dice_rolls INT NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN game_sessions.dice_seed IS
+    'Secret hex seed the dice rolls are derived from; revealed once the game is FINISHED. NULL for sessions from before seeding';
+COMMENT ON COLUMN game_sessions.dice_seed_hash IS
+    'SHA-256 of dice_seed, published from the start of the game';
+COMMENT ON COLUMN game_sessions.dice_rolls IS
+    'The last dice sequence number handed out to a submission';
+
+-- The derivation inputs: the headline's sequence number within its session and
+-- the algorithm the roll was derived with (NULL for unseeded rolls).
+ALTER TABLE game_session_headlines
+    ADD COLUMN IF NOT EXISTS dice_sequence INT NULL,
+    ADD COLUMN IF NOT EXISTS dice_algorithm VARCHAR(20) NULL;
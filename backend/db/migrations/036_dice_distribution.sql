@@ -0,0 +1,16 @@
+-- Host-tunable dice distribution and the "player chooses risk" mode.
+-- dice_settings holds the session's preset, band weights (percent, band 1
+-- first) and whether risk mode is on; NULL means the standard 10/35/40/12/3
+-- without risk mode.
+ALTER TABLE game_sessions
+    ADD COLUMN IF NOT EXISTS dice_settings JSONB NULL;
+
+COMMENT ON COLUMN game_sessions.dice_settings IS
+    'Dice preset, band weights and risk mode ({preset, tuned, weights, riskMode}); NULL means standard';
+
+-- In risk mode a player may declare the band they are aiming for. Their roll
+-- is biased towards it, and a bet that lands earns risk_bonus_score.
+ALTER TABLE game_session_headlines
+    ADD COLUMN IF NOT EXISTS dice_target_band SMALLINT NULL
+        CHECK (dice_target_band BETWEEN 1 AND 5),
+    ADD COLUMN IF NOT EXISTS risk_bonus_score INT NULL;
@@ -0,0 +1,141 @@
+/**
+ * player credentials in the database: issuing tokens and recovery codes,
+ * checking a token hasn't been revoked, recovering a player on a new device,
+ * and host revocation.
+ */
+
+import type { Pool, PoolClient } from 'pg';
+import pool from '../db/pool.js';
+import {
+  PlayerTokenClaims,
+  SessionTokenError,
+  signPlayerToken,
+  verifyPlayerToken,
+  generateRecoveryCode,
+  hashRecoveryCode,
+  recoveryCodeMatches,
+} from './sessionTokens.js';
+
+export interface PlayerCredentials {
+  token: string;
+  /** shown to the player once; only its hash is stored */
+  recoveryCode: string;
+}
+
+interface PlayerRef {
+  sessionId: string;
+  joinCode: string;
+  playerId: string;
+}
+
+/**
+ * give a player a fresh recovery code (replacing any previous one) and a token.
+ * runs on the caller's client so it can share the create/join transaction.
+ */
+export async function issuePlayerCredentials(
+  db: Pool | PoolClient,
+  player: PlayerRef
+): Promise<PlayerCredentials> {
+  const recoveryCode = generateRecoveryCode();
+  const result = await db.query(
+    `UPDATE session_players SET recovery_code_hash = $1
+     WHERE id = $2 AND session_id = $3
+     RETURNING token_version`,
+    [hashRecoveryCode(recoveryCode), player.playerId, player.sessionId]
+  );
+  return {
+    token: signPlayerToken({ ...player, version: result.rows[0].token_version }),
+    recoveryCode,
+  };
+}
+
+/**
+ * verify a token and check it is still current for its player.
+ *
+ * @throws {SessionTokenError} INVALID_TOKEN, UNKNOWN_PLAYER or REVOKED_TOKEN
+ */
+export async function authenticatePlayerToken(token: string): Promise<PlayerTokenClaims> {
+  const claims = verifyPlayerToken(token);
+  const result = await pool.query(
+    `SELECT token_version FROM session_players WHERE id = $1 AND session_id = $2`,
+    [claims.playerId, claims.sessionId]
+  );
+  if (result.rows.length === 0) {
+    throw new SessionTokenError('Player no longer exists', 'UNKNOWN_PLAYER');
+  }
+  if (result.rows[0].token_version !== claims.version) {
+    throw new SessionTokenError('Session token has been revoked', 'REVOKED_TOKEN');
+  }
+  return claims;
+}
+
+/**
+ * swap a nickname and recovery code for a new token, e.g. on another device.
+ * the recovery code stays valid. a kicked player is put back in the session
+ * unless the host banned them.
+ *
+ * @throws {SessionTokenError} INVALID_RECOVERY_CODE if the player or code doesn't match,
+ *   BANNED if the host kicked the player with a ban
+ */
+export async function recoverPlayer(
+  joinCode: string,
+  nickname: string,
+  recoveryCode: string
+): Promise<{ token: string; player: { id: string; nickname: string; isHost: boolean } }> {
+  const result = await pool.query(
+    `SELECT sp.id, sp.session_id, sp.nickname, sp.is_host, sp.token_version, sp.recovery_code_hash,
+            sp.removed_at, sp.banned
+     FROM session_players sp
+     JOIN game_sessions gs ON gs.id = sp.session_id
+     WHERE gs.join_code = $1 AND LOWER(sp.nickname) = LOWER($2) AND sp.is_system = FALSE`,
+    [joinCode, nickname]
+  );
+  // nicknames that differ only in case may predate the join check; the code tells them apart
+  const row = result.rows.find((candidate) =>
+    recoveryCodeMatches(recoveryCode, candidate.recovery_code_hash)
+  );
+  // same answer whether the nickname or the code was wrong
+  if (!row) {
+    throw new SessionTokenError('Nickname or recovery code is incorrect', 'INVALID_RECOVERY_CODE');
+  }
+  if (row.banned) {
+    throw new SessionTokenError('The host has removed you from this session', 'BANNED');
+  }
+  if (row.removed_at) {
+    await pool.query(`UPDATE session_players SET removed_at = NULL WHERE id = $1`, [row.id]);
+  }
+
+  return {
+    token: signPlayerToken({
+      sessionId: row.session_id,
+      joinCode,
+      playerId: row.id,
+      version: row.token_version,
+    }),
+    player: { id: row.id, nickname: row.nickname, isHost: row.is_host },
+  };
+}
+
+/**
+ * revoke every token a player holds and replace their recovery code. the new
+ * code goes back to the host, who can pass it to the right person.
+ *
+ * @throws {SessionTokenError} UNKNOWN_PLAYER if the player isn't in the session
+ */
+export async function revokePlayerCredentials(
+  sessionId: string,
+  playerId: string
+): Promise<{ recoveryCode: string }> {
+  const recoveryCode = generateRecoveryCode();
+  const result = await pool.query(
+    `UPDATE session_players
+     SET token_version = token_version + 1, recovery_code_hash = $1
+     WHERE id = $2 AND session_id = $3 AND is_system = FALSE
+     RETURNING id`,
+    [hashRecoveryCode(recoveryCode), playerId, sessionId]
+  );
+  if (result.rows.length === 0) {
+    throw new SessionTokenError('Player not in this session', 'UNKNOWN_PLAYER');
+  }
+  return { recoveryCode };
+}
@@ -0,0 +1,119 @@
+/**
+ * signed player session tokens and recovery codes.
+ *
+ * a token names a session and a player and is signed with HMAC-SHA256 under
+ * SESSION_TOKEN_SECRET: `<base64url claims>.<base64url signature>`. sockets
+ * present it in the handshake, so the server never has to take a player id on
+ * the client's word. each token carries the player's token_version; bumping the
+ * version revokes every token issued before it.
+ *
+ * recovery codes let a player get a fresh token on another device. only their
+ * sha-256 hash is stored.
+ */
+
+import { createHash, createHmac, randomBytes, randomInt, timingSafeEqual } from 'crypto';
+
+export interface PlayerTokenClaims {
+  sessionId: string;
+  joinCode: string;
+  playerId: string;
+  /** session_players.token_version when the token was issued */
+  version: number;
+  /** unix seconds */
+  issuedAt: number;
+}
+
+export class SessionTokenError extends Error {
+  constructor(
+    message: string,
+    public code: string
+  ) {
+    super(message);
+    this.name = 'SessionTokenError';
+  }
+}
+
+let secret: string | null = null;
+
+/**
+ * the signing secret. without SESSION_TOKEN_SECRET a random one is made per
+ * process, which signs everyone out on restart and breaks multi-instance setups
+ * (server.ts warns about this at startup).
+ */
+function getSecret(): string {
+  if (secret === null) {
+    secret = process.env.SESSION_TOKEN_SECRET || randomBytes(32).toString('hex');
+  }
+  return secret;
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', getSecret()).update(payload).digest('base64url');
+}
+
+export function signPlayerToken(claims: Omit<PlayerTokenClaims, 'issuedAt'>): string {
+  const payload = Buffer.from(
+    JSON.stringify({ ...claims, issuedAt: Math.floor(Date.now() / 1000) })
+  ).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * check a token's signature and shape. whether it has been revoked is up to the
+ * caller (see playerCredentials.ts).
+ *
+ * @throws {SessionTokenError} INVALID_TOKEN
+ */
+export function verifyPlayerToken(token: string): PlayerTokenClaims {
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) {
+    throw new SessionTokenError('Malformed session token', 'INVALID_TOKEN');
+  }
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new SessionTokenError('Session token signature does not match', 'INVALID_TOKEN');
+  }
+
+  let claims: Partial<PlayerTokenClaims>;
+  try {
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    throw new SessionTokenError('Malformed session token', 'INVALID_TOKEN');
+  }
+  if (
+    typeof claims.sessionId !== 'string' ||
+    typeof claims.joinCode !== 'string' ||
+    typeof claims.playerId !== 'string' ||
+    typeof claims.version !== 'number' ||
+    typeof claims.issuedAt !== 'number'
+  ) {
+    throw new SessionTokenError('Malformed session token', 'INVALID_TOKEN');
+  }
+  return claims as PlayerTokenClaims;
+}
+
+// no 0/O or 1/I, so codes survive being read aloud or written down
+const RECOVERY_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+/** a new recovery code, formatted XXXX-XXXX */
+export function generateRecoveryCode(): string {
+  const chars = Array.from({ length: 8 }, () => RECOVERY_ALPHABET[randomInt(RECOVERY_ALPHABET.length)]);
+  return `${chars.slice(0, 4).join('')}-${chars.slice(4).join('')}`;
+}
+
+/** hash of a recovery code, ignoring case, spaces and dashes */
+export function hashRecoveryCode(code: string): string {
+  const normalized = code.toUpperCase().replace(/[\s-]/g, '');
+  return createHash('sha256').update(normalized).digest('hex');
+}
+
+export function recoveryCodeMatches(code: string, storedHash: string | null): boolean {
+  if (!storedHash) {
+    return false;
+  }
+  const actual = Buffer.from(hashRecoveryCode(code), 'hex');
+  const expected = Buffer.from(storedHash, 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
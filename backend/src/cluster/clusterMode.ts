@@ -0,0 +1,21 @@
+/**
+ * how backend instances coordinate, from CLUSTER_MODE.
+ *
+ *   single    (default) one instance: rooms, game loops and evaluation queues live in process
+ *   postgres  several instances behind a load balancer: socket.io events travel over
+ *             LISTEN/NOTIFY and each session's game loop is owned by whichever instance
+ *             holds its advisory lock
+ */
+
+export type ClusterMode = 'single' | 'postgres';
+
+export function resolveClusterMode(env: NodeJS.ProcessEnv = process.env): ClusterMode {
+  const mode = (env.CLUSTER_MODE ?? 'single').trim().toLowerCase();
+  if (mode === 'single' || mode === '') {
+    return 'single';
+  }
+  if (mode === 'postgres') {
+    return 'postgres';
+  }
+  throw new Error(`Unknown CLUSTER_MODE "${env.CLUSTER_MODE}" (expected single or postgres)`);
+}
@@ -0,0 +1,261 @@
+/**
+ * socket.io adapter that relays events between backend instances over postgres
+ * LISTEN/NOTIFY, so a broadcast to `session:ABC123` reaches players connected to
+ * any instance.
+ *
+ * each process keeps one LISTEN connection shared by all namespaces. NOTIFY payloads
+ * are capped at 8000 bytes, so larger messages (e.g. a full game:state) are stored in
+ * socket_io_attachments and only their id is notified. packets are sent as json, so
+ * binary payloads are not supported.
+ */
+
+import type { Notification, Pool, PoolClient } from 'pg';
+import type { Namespace } from 'socket.io';
+import {
+  ClusterAdapterWithHeartbeat,
+  ClusterAdapterOptions,
+  ClusterMessage,
+  ClusterResponse,
+  Offset,
+  ServerId,
+} from 'socket.io-adapter';
+
+const DEFAULT_CHANNEL = 'socket_io';
+/** stay clear of postgres' 8000-byte NOTIFY payload limit */
+const MAX_NOTIFY_PAYLOAD_BYTES = 7_500;
+/** attachments only need to outlive delivery to the other instances */
+const ATTACHMENT_TTL_SECS = 30;
+const ATTACHMENT_CLEANUP_INTERVAL_MS = 30_000;
+const RECONNECT_DELAY_MS = 2_000;
+
+export interface PostgresAdapterOptions extends ClusterAdapterOptions {
+  /** NOTIFY channel shared by every instance (default socket_io) */
+  channel?: string;
+}
+
+type Envelope =
+  | { kind: 'message'; body: ClusterMessage }
+  | { kind: 'response'; to: ServerId; body: ClusterResponse };
+
+type WireMessage = Envelope | { kind: 'attachment'; id: string };
+
+/**
+ * the process-wide LISTEN connection and publisher behind every namespace's adapter.
+ */
+class PostgresBus {
+  private client: PoolClient | null = null;
+  /** set while the LISTEN connection is being opened */
+  private connecting = false;
+  private adapters: Map<string, PostgresAdapter> = new Map();
+  /** notifications are handled one at a time so attachment lookups can't reorder them */
+  private inbox: Promise<void> = Promise.resolve();
+  private cleanupTimer: NodeJS.Timeout | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private closed = false;
+
+  constructor(
+    private pool: Pool,
+    private channel: string
+  ) {
+    if (!/^[a-z_][a-z0-9_]*$/.test(channel)) {
+      throw new Error(`Invalid NOTIFY channel name "${channel}"`);
+    }
+  }
+
+  register(adapter: PostgresAdapter): void {
+    this.adapters.set(adapter.nsp.name, adapter);
+    this.closed = false;
+    if (!this.client && !this.connecting && !this.reconnectTimer) {
+      this.listen().catch((err) => this.scheduleReconnect(err));
+    }
+    if (!this.cleanupTimer) {
+      this.cleanupTimer = setInterval(() => {
+        this.deleteExpiredAttachments().catch((err) => {
+          console.error('[pg-adapter] Attachment cleanup failed:', err.message);
+        });
+      }, ATTACHMENT_CLEANUP_INTERVAL_MS);
+      this.cleanupTimer.unref();
+    }
+  }
+
+  unregister(adapter: PostgresAdapter): void {
+    if (this.adapters.get(adapter.nsp.name) === adapter) {
+      this.adapters.delete(adapter.nsp.name);
+    }
+    if (this.adapters.size === 0) {
+      this.close();
+    }
+  }
+
+  async publish(envelope: Envelope): Promise<void> {
+    const payload = JSON.stringify(envelope);
+
+    if (Buffer.byteLength(payload) <= MAX_NOTIFY_PAYLOAD_BYTES) {
+      await this.pool.query('SELECT pg_notify($1, $2)', [this.channel, payload]);
+      return;
+    }
+
+    const result = await this.pool.query(
+      'INSERT INTO socket_io_attachments (payload) VALUES ($1) RETURNING id',
+      [payload]
+    );
+    const pointer: WireMessage = { kind: 'attachment', id: String(result.rows[0].id) };
+    await this.pool.query('SELECT pg_notify($1, $2)', [this.channel, JSON.stringify(pointer)]);
+  }
+
+  /**
+   * hand a notification to the adapter of its namespace.
+   */
+  async handleNotification(notification: Notification): Promise<void> {
+    if (notification.channel !== this.channel || !notification.payload) {
+      return;
+    }
+
+    let message = JSON.parse(notification.payload) as WireMessage;
+    if (message.kind === 'attachment') {
+      const result = await this.pool.query(
+        'SELECT payload FROM socket_io_attachments WHERE id = $1',
+        [message.id]
+      );
+      if (result.rows.length === 0) {
+        console.warn(`[pg-adapter] Attachment ${message.id} expired before it was read`);
+        return;
+      }
+      message = JSON.parse(result.rows[0].payload) as Envelope;
+    }
+
+    const adapter = this.adapters.get(message.body.nsp);
+    if (!adapter) {
+      return;
+    }
+
+    if (message.kind === 'message') {
+      adapter.onMessage(message.body);
+    } else if (message.to === adapter.serverId) {
+      adapter.onResponse(message.body);
+    }
+  }
+
+  private async listen(): Promise<void> {
+    this.connecting = true;
+    try {
+      const client = await this.connectAndListen();
+      if (this.closed) {
+        // every namespace closed while we were connecting
+        await client.query(`UNLISTEN ${this.channel}`).catch(() => undefined);
+        client.release();
+        return;
+      }
+      this.client = client;
+      console.log(`[pg-adapter] Listening on channel ${this.channel}`);
+    } finally {
+      this.connecting = false;
+    }
+  }
+
+  private async connectAndListen(): Promise<PoolClient> {
+    const client = await this.pool.connect();
+
+    client.on('notification', (notification) => {
+      this.inbox = this.inbox
+        .then(() => this.handleNotification(notification))
+        .catch((err) => {
+          console.error('[pg-adapter] Failed to handle notification:', err);
+        });
+    });
+    client.on('error', (err) => {
+      if (this.client !== client) return;
+      this.client = null;
+      client.release(err);
+      this.scheduleReconnect(err);
+    });
+
+    try {
+      await client.query(`LISTEN ${this.channel}`);
+    } catch (err) {
+      client.release(err as Error);
+      throw err;
+    }
+    return client;
+  }
+
+  private scheduleReconnect(err: Error): void {
+    if (this.closed || this.reconnectTimer) return;
+    console.error(
+      `[pg-adapter] LISTEN connection lost, reconnecting in ${RECONNECT_DELAY_MS}ms:`,
+      err.message
+    );
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.listen().catch((retryErr) => this.scheduleReconnect(retryErr));
+    }, RECONNECT_DELAY_MS);
+    this.reconnectTimer.unref();
+  }
+
+  private async deleteExpiredAttachments(): Promise<void> {
+    await this.pool.query(
+      `DELETE FROM socket_io_attachments
+       WHERE created_at < NOW() - make_interval(secs => $1)`,
+      [ATTACHMENT_TTL_SECS]
+    );
+  }
+
+  private close(): void {
+    this.closed = true;
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.client) {
+      const client = this.client;
+      this.client = null;
+      client
+        .query(`UNLISTEN ${this.channel}`)
+        .catch(() => undefined)
+        .finally(() => client.release());
+    }
+  }
+}
+
+export class PostgresAdapter extends ClusterAdapterWithHeartbeat {
+  constructor(
+    nsp: Namespace,
+    private bus: PostgresBus,
+    opts: ClusterAdapterOptions
+  ) {
+    super(nsp, opts);
+    bus.register(this);
+  }
+
+  get serverId(): ServerId {
+    return this.uid;
+  }
+
+  protected async doPublish(message: ClusterMessage): Promise<Offset> {
+    await this.bus.publish({ kind: 'message', body: message });
+    // offsets are only needed for connection state recovery, which we don't enable
+    return '';
+  }
+
+  protected async doPublishResponse(requesterUid: ServerId, response: ClusterResponse): Promise<void> {
+    await this.bus.publish({ kind: 'response', to: requesterUid, body: response });
+  }
+
+  close(): void {
+    super.close();
+    this.bus.unregister(this);
+  }
+}
+
+/**
+ * adapter factory for `io.adapter(...)`.
+ */
+export function createPostgresAdapter(pool: Pool, options: PostgresAdapterOptions = {}) {
+  const { channel = DEFAULT_CHANNEL, ...clusterOptions } = options;
+  const bus = new PostgresBus(pool, channel);
+  return (nsp: Namespace) => new PostgresAdapter(nsp, bus, clusterOptions);
+}
@@ -0,0 +1,21 @@
+/**
+ * request/reply between backend instances over the socket.io adapter.
+ */
+
+import { Server } from 'socket.io';
+
+/**
+ * emit `event` to every other instance and collect their replies.
+ * the adapter gives up on silent instances after 5s; their replies are left
+ * out rather than failing the request.
+ */
+export function requestFromOtherServers<T>(io: Server, event: string, payload: unknown): Promise<T[]> {
+  return new Promise((resolve) => {
+    io.serverSideEmit(event, payload, (err: Error | null, responses: T[]) => {
+      if (err) {
+        console.warn(`[cluster] Not every instance answered ${event}: ${err.message}`);
+      }
+      resolve(responses ?? []);
+    });
+  });
+}
@@ -0,0 +1,147 @@
+/**
+ * which instance drives each session's game loop.
+ *
+ * with one instance it always leads. with several, leadership is a postgres
+ * advisory lock per session held on a dedicated connection: exactly one instance
+ * holds it, and if that instance dies the connection closes, the lock is
+ * released and another instance picks the session up.
+ */
+
+import type { Pool, PoolClient } from 'pg';
+
+export interface SessionLeadership {
+  /** become the leader of a session, unless another instance already is */
+  tryAcquire(sessionId: string): Promise<boolean>;
+  /** give up leadership of a session */
+  release(sessionId: string): Promise<void>;
+  isLeader(sessionId: string): boolean;
+  /** called with the sessions whose leadership was lost without releasing them */
+  onLost(listener: (sessionIds: string[]) => void): void;
+}
+
+/**
+ * single-instance leadership: this process leads every session.
+ */
+export const localLeadership: SessionLeadership = {
+  async tryAcquire() {
+    return true;
+  },
+  async release() {},
+  isLeader() {
+    return true;
+  },
+  onLost() {},
+};
+
+/** first key of the two-key advisory lock, so game loop locks can't collide with other lock users */
+const GAME_LOOP_LOCK_NAMESPACE = 0x46484c; // "FHL"
+/** keep the lock connection from being closed as idle */
+const LOCK_KEEPALIVE_MS = 60_000;
+
+class PostgresLeadership implements SessionLeadership {
+  private client: PoolClient | null = null;
+  private connecting: Promise<PoolClient> | null = null;
+  private held: Set<string> = new Set();
+  /** in-flight acquisitions, so concurrent callers don't take the (re-entrant) lock twice */
+  private acquiring: Map<string, Promise<boolean>> = new Map();
+  private listeners: Array<(sessionIds: string[]) => void> = [];
+  private keepAliveTimer: NodeJS.Timeout | null = null;
+
+  constructor(private pool: Pool) {}
+
+  async tryAcquire(sessionId: string): Promise<boolean> {
+    if (this.held.has(sessionId)) {
+      return true;
+    }
+
+    let pending = this.acquiring.get(sessionId);
+    if (!pending) {
+      pending = this.lock(sessionId).finally(() => this.acquiring.delete(sessionId));
+      this.acquiring.set(sessionId, pending);
+    }
+    return pending;
+  }
+
+  private async lock(sessionId: string): Promise<boolean> {
+    const client = await this.getClient();
+    const result = await client.query(
+      'SELECT pg_try_advisory_lock($1, hashtext($2)) AS acquired',
+      [GAME_LOOP_LOCK_NAMESPACE, sessionId]
+    );
+
+    if (result.rows[0]?.acquired) {
+      this.held.add(sessionId);
+      return true;
+    }
+    return false;
+  }
+
+  async release(sessionId: string): Promise<void> {
+    if (!this.held.delete(sessionId) || !this.client) {
+      return;
+    }
+    await this.client.query('SELECT pg_advisory_unlock($1, hashtext($2))', [
+      GAME_LOOP_LOCK_NAMESPACE,
+      sessionId,
+    ]);
+  }
+
+  isLeader(sessionId: string): boolean {
+    return this.held.has(sessionId);
+  }
+
+  onLost(listener: (sessionIds: string[]) => void): void {
+    this.listeners.push(listener);
+  }
+
+  private getClient(): Promise<PoolClient> {
+    if (this.client) {
+      return Promise.resolve(this.client);
+    }
+    if (!this.connecting) {
+      this.connecting = this.pool
+        .connect()
+        .then((client) => {
+          client.on('error', (err) => this.handleConnectionLost(client, err));
+          this.client = client;
+          this.startKeepAlive();
+          return client;
+        })
+        .finally(() => {
+          this.connecting = null;
+        });
+    }
+    return this.connecting;
+  }
+
+  private startKeepAlive(): void {
+    if (this.keepAliveTimer) return;
+    this.keepAliveTimer = setInterval(() => {
+      this.client?.query('SELECT 1').catch((err) => {
+        console.error('[leadership] Lock connection keepalive failed:', err.message);
+      });
+    }, LOCK_KEEPALIVE_MS);
+    this.keepAliveTimer.unref();
+  }
+
+  /**
+   * the lock connection dropped, so postgres has already released every lock it held.
+   */
+  private handleConnectionLost(client: PoolClient, err: Error): void {
+    if (this.client !== client) return;
+    console.error('[leadership] Lost the advisory lock connection:', err.message);
+
+    this.client = null;
+    client.release(err);
+
+    const lost = [...this.held];
+    this.held.clear();
+    for (const listener of this.listeners) {
+      listener(lost);
+    }
+  }
+}
+
+export function createPostgresLeadership(pool: Pool): SessionLeadership {
+  return new PostgresLeadership(pool);
+}
@@ -0,0 +1,396 @@
+/**
+ * content moderation in the headline pipeline.
+ *
+ * headline:submit checks the story direction before it reaches the juror, and the
+ * evaluation queue checks the five generated bands once the juror has run. the
+ * session's strictness turns the provider's verdict into a decision: approved
+ * headlines go to everyone; flagged ones are shown only to their author and the
+ * host until the host approves or hides them; rejected story directions are never
+ * stored as headlines, only in headline_rejections with the reason. generated
+ * bands are never rejected (the player didn't write them), just flagged.
+ *
+ * the host can also correct a scored headline. hiding one takes its points, its
+ * break-time votes and planet use back out; approving it again restores them; an override replaces
+ * the juror's plausibility level or primary planet and rescores it. each is a
+ * logged host action followed by a corrected leaderboard:update.
+ */
+
+import { Server } from 'socket.io';
+import type { PoolClient, QueryResultRow } from 'pg';
+import pool from '../db/pool.js';
+import {
+  getModerationProvider,
+  decideModeration,
+  ModerationDecision,
+  ModerationStrictness,
+} from '../moderation/moderationProvider.js';
+import { ModerationError, ModeratedSession } from './playerModeration.js';
+import { fetchFeedHeadlines, FeedHeadline, HeadlineModerationStatus } from './headlineFeed.js';
+import {
+  correctHeadlineScore,
+  HeadlineScoreCorrection,
+  HeadlineScoreCorrectionResult,
+  ScoringError,
+} from './scoringService.js';
+import { PlanetId, PlausibilityLevel } from './scoringTypes.js';
+import { emitLeaderboardUpdate } from './headlineEvaluationService.js';
+
+export type ReviewDecision = 'approve' | 'hide';
+
+/** host actions on a headline, as logged in game_session_state_transitions */
+export type HeadlineAction = 'APPROVE' | 'HIDE' | 'OVERRIDE';
+
+/** a host override of the juror's verdict on a scored headline */
+export interface HeadlineOverride {
+  plausibilityLevel?: PlausibilityLevel;
+  primaryPlanet?: PlanetId;
+}
+
+/** a refused story direction, as listed in the host's review queue */
+export interface HeadlineRejection {
+  id: string;
+  playerId: string;
+  playerNickname: string;
+  roundNo: number;
+  storyDirection: string;
+  reason: string;
+  categories: string[];
+  createdAt: string;
+}
+
+export interface ReviewQueue {
+  flagged: FeedHeadline[];
+  rejections: HeadlineRejection[];
+}
+
+/** how many recent rejections the review queue lists */
+const REVIEW_QUEUE_REJECTIONS = 50;
+
+function toRejection(row: QueryResultRow): HeadlineRejection {
+  return {
+    id: row.id,
+    playerId: row.player_id,
+    playerNickname: row.player_nickname,
+    roundNo: row.round_no,
+    storyDirection: row.story_direction,
+    reason: row.reason,
+    categories: row.categories ?? [],
+    createdAt: new Date(row.created_at).toISOString(),
+  };
+}
+
+/** whether a hide or approve changed any score: a scored headline, or votes on an unscored one */
+function movesScore(correction: HeadlineScoreCorrectionResult): boolean {
+  return correction.breakdown !== null || correction.scoreDelta !== 0;
+}
+
+class ContentModeration {
+  private io: Server | null = null;
+
+  setSocketIO(io: Server): void {
+    this.io = io;
+  }
+
+  /**
+   * check a story direction before it is stored. a rejection is recorded and
+   * the host told about it straight away.
+   */
+  async checkStoryDirection(params: {
+    sessionId: string;
+    hostPlayerId: string | null;
+    playerId: string;
+    playerNickname: string;
+    roundNo: number;
+    storyDirection: string;
+    strictness: ModerationStrictness;
+  }): Promise<{ decision: ModerationDecision; reason: string | null }> {
+    if (params.strictness === 'off') {
+      return { decision: 'approved', reason: null };
+    }
+
+    const verdict = await getModerationProvider().check(params.storyDirection);
+    const decision = decideModeration(verdict.severity, params.strictness);
+
+    if (decision === 'rejected') {
+      const result = await pool.query(
+        `INSERT INTO headline_rejections
+         (session_id, player_id, round_no, story_direction, reason, categories, provider)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         RETURNING id, created_at`,
+        [
+          params.sessionId,
+          params.playerId,
+          params.roundNo,
+          params.storyDirection,
+          verdict.reason,
+          JSON.stringify(verdict.categories),
+          verdict.provider,
+        ]
+      );
+      if (params.hostPlayerId) {
+        const rejection = toRejection({
+          ...result.rows[0],
+          player_id: params.playerId,
+          player_nickname: params.playerNickname,
+          round_no: params.roundNo,
+          story_direction: params.storyDirection,
+          reason: verdict.reason,
+          categories: verdict.categories,
+        });
+        this.io?.to(`player:${params.hostPlayerId}`).emit('moderation:rejected', { rejection });
+      }
+    }
+
+    return { decision, reason: verdict.reason };
+  }
+
+  /**
+   * check the generated bands of an evaluated headline, flagging it if any of
+   * them fails.
+   *
+   * @returns the headline's moderation status afterwards
+   */
+  async checkGeneratedHeadlines(
+    headlineId: string,
+    bands: string[],
+    strictness: ModerationStrictness
+  ): Promise<HeadlineModerationStatus> {
+    let decision: ModerationDecision = 'approved';
+    let reason: string | null = null;
+    if (strictness !== 'off') {
+      const verdict = await getModerationProvider().check(bands.join('\n'));
+      decision = decideModeration(verdict.severity, strictness);
+      reason = verdict.reason;
+    }
+
+    // a host decision made while the juror ran stands, unless the bands fail the check
+    const result =
+      decision === 'approved'
+        ? await pool.query(
+            `SELECT moderation_status FROM game_session_headlines WHERE id = $1`,
+            [headlineId]
+          )
+        : await pool.query(
+            `UPDATE game_session_headlines
+             SET moderation_status = CASE WHEN moderation_status = 'hidden' THEN 'hidden' ELSE 'flagged' END,
+                 moderation_reason = CONCAT_WS('; ', moderation_reason, $2::text)
+             WHERE id = $1
+             RETURNING moderation_status`,
+            [headlineId, `generated headline ${reason}`]
+          );
+    return result.rows[0]?.moderation_status ?? 'approved';
+  }
+
+  /**
+   * who hears about a headline: the session room once it is approved, otherwise
+   * only its author and the host
+   */
+  async headlineAudience(
+    session: { id: string; joinCode: string },
+    authorId: string,
+    status: HeadlineModerationStatus
+  ): Promise<string | string[]> {
+    if (status === 'approved') {
+      return `session:${session.joinCode}`;
+    }
+    const result = await pool.query(`SELECT host_player_id FROM game_sessions WHERE id = $1`, [
+      session.id,
+    ]);
+    const hostId: string | null = result.rows[0]?.host_player_id ?? null;
+    return [...new Set([authorId, hostId].filter((id): id is string => !!id))].map(
+      (id) => `player:${id}`
+    );
+  }
+
+  /** flagged headlines waiting for the host, and the latest rejections */
+  async getReviewQueue(sessionId: string): Promise<ReviewQueue> {
+    const flagged = await fetchFeedHeadlines(sessionId, { moderationStatus: 'flagged' });
+    const rejections = await pool.query(
+      `SELECT r.id, r.player_id, p.nickname AS player_nickname, r.round_no,
+              r.story_direction, r.reason, r.categories, r.created_at
+       FROM headline_rejections r
+       JOIN session_players p ON r.player_id = p.id
+       WHERE r.session_id = $1
+       ORDER BY r.created_at DESC
+       LIMIT $2`,
+      [sessionId, REVIEW_QUEUE_REJECTIONS]
+    );
+    return { flagged, rejections: rejections.rows.map(toRejection) };
+  }
+
+  /**
+   * approve a headline for everyone, or hide it from the feed, the juror's
+   * context and summaries. works on any headline, so the host can also hide one
+   * nobody flagged. hiding a headline takes its points back, its votes' included;
+   * approving a hidden one restores them.
+   */
+  async review(
+    session: ModeratedSession,
+    headlineId: string,
+    decision: ReviewDecision
+  ): Promise<FeedHeadline> {
+    const status: HeadlineModerationStatus = decision === 'approve' ? 'approved' : 'hidden';
+
+    const { authorId, correction } = await this.inTransaction(async (client) => {
+      const result = await client.query(
+        `UPDATE game_session_headlines h
+         SET moderation_status = $1, moderated_at = NOW()
+         FROM (SELECT id, moderation_status FROM game_session_headlines
+               WHERE id = $2 AND session_id = $3 FOR UPDATE) previous
+         WHERE h.id = previous.id
+         RETURNING h.player_id, previous.moderation_status AS previous_status`,
+        [status, headlineId, session.id]
+      );
+      if (result.rows.length === 0) {
+        throw new ModerationError('Headline not in this session', 'UNKNOWN_HEADLINE');
+      }
+      const authorId: string = result.rows[0].player_id;
+
+      // only a change between hidden and shown moves the score
+      const wasCounted = result.rows[0].previous_status !== 'hidden';
+      const counted = status !== 'hidden';
+      const correction =
+        wasCounted === counted
+          ? null
+          : await this.correct(client, { sessionId: session.id, headlineId, wasCounted, counted });
+
+      await this.logAction(client, session, decision === 'approve' ? 'APPROVE' : 'HIDE', {
+        headlineId,
+        targetPlayerId: authorId,
+        ...(correction && movesScore(correction) && { scoreDelta: correction.scoreDelta }),
+      });
+      return { authorId, correction };
+    });
+
+    const [headline] = await fetchFeedHeadlines(session.id, { headlineId });
+    const room = `session:${session.joinCode}`;
+    if (decision === 'approve') {
+      this.io?.to(room).emit('headline:approved', { headline });
+    } else {
+      this.io?.to(room).emit('headline:hidden', { headlineId, playerId: authorId });
+    }
+    if (correction && movesScore(correction) && this.io) {
+      await emitLeaderboardUpdate(this.io, room, session.id, correction.leaderboard);
+    }
+    return headline;
+  }
+
+  /**
+   * replace the juror's plausibility level and/or primary planet on a scored
+   * headline and rescore it.
+   *
+   * @throws {ModerationError} UNKNOWN_HEADLINE, HEADLINE_NOT_SCORED, INVALID_PLANET
+   */
+  async override(
+    session: ModeratedSession,
+    headlineId: string,
+    changes: HeadlineOverride
+  ): Promise<FeedHeadline> {
+    const { status, correction } = await this.inTransaction(async (client) => {
+      const result = await client.query(
+        `SELECT moderation_status FROM game_session_headlines
+         WHERE id = $1 AND session_id = $2
+         FOR UPDATE`,
+        [headlineId, session.id]
+      );
+      if (result.rows.length === 0) {
+        throw new ModerationError('Headline not in this session', 'UNKNOWN_HEADLINE');
+      }
+      const status: HeadlineModerationStatus = result.rows[0].moderation_status;
+      const counted = status !== 'hidden';
+
+      const correction = await this.correct(client, {
+        sessionId: session.id,
+        headlineId,
+        wasCounted: counted,
+        counted,
+        ...changes,
+      });
+
+      // who changed what: the juror's values next to the host's
+      await this.logAction(client, session, 'OVERRIDE', {
+        headlineId,
+        targetPlayerId: correction.playerId,
+        changes: {
+          ...(changes.plausibilityLevel !== undefined && {
+            plausibilityLevel: { from: correction.previous.plausibilityLevel, to: changes.plausibilityLevel },
+          }),
+          ...(changes.primaryPlanet !== undefined && {
+            primaryPlanet: { from: correction.previous.primaryPlanet, to: changes.primaryPlanet },
+          }),
+        },
+        scoreDelta: correction.scoreDelta,
+      });
+      return { status, correction };
+    });
+
+    const [headline] = await fetchFeedHeadlines(session.id, { headlineId });
+    const audience = await this.headlineAudience(session, correction.playerId, status);
+    this.io?.to(audience).emit('headline:corrected', { headline });
+    if (correction.breakdown && this.io) {
+      await emitLeaderboardUpdate(this.io, `session:${session.joinCode}`, session.id, correction.leaderboard, {
+        headlineId,
+        playerId: correction.playerId,
+        breakdown: correction.breakdown,
+        newTotalScore: correction.newTotalScore,
+      });
+    }
+    return headline;
+  }
+
+  /** rescore inside the review transaction, reporting scoring problems as moderation errors */
+  private async correct(
+    client: PoolClient,
+    correction: HeadlineScoreCorrection
+  ): Promise<HeadlineScoreCorrectionResult> {
+    try {
+      return await correctHeadlineScore(client, correction);
+    } catch (err) {
+      if (err instanceof ScoringError) {
+        throw new ModerationError(
+          err.code === 'HEADLINE_NOT_SCORED' ? 'The juror has not scored this headline yet' : err.message,
+          err.code === 'HEADLINE_NOT_FOUND' ? 'UNKNOWN_HEADLINE' : err.code
+        );
+      }
+      throw err;
+    }
+  }
+
+  /** logged with the other host actions: from_phase = to_phase, like pause/resume */
+  private async logAction(
+    client: PoolClient,
+    session: ModeratedSession,
+    action: HeadlineAction,
+    details: Record<string, unknown>
+  ): Promise<void> {
+    await client.query(
+      `INSERT INTO game_session_state_transitions
+       (session_id, from_phase, to_phase, round_no, action, details)
+       VALUES ($1, $2, $2, $3, $4, $5)`,
+      [
+        session.id,
+        session.phase,
+        session.currentRound,
+        action,
+        JSON.stringify({ playerId: session.hostPlayerId, ...details }),
+      ]
+    );
+  }
+
+  private async inTransaction<T>(work: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await work(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+}
+
+export const contentModeration = new ContentModeration();
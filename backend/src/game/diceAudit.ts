@@ -0,0 +1,308 @@
+/**
+ * dice fairness audit: seeded rolls, their commit-reveal, and how the
+ * observed bands compare with the target distribution.
+ *
+ * a session created with a seed (game_sessions.dice_seed) publishes its
+ * sha-256 in game:state and reveals the seed once FINISHED. every submission
+ * takes the next sequence number when it is stored (insertPendingHeadline), and
+ * its roll is derived from the seed and that number (rollFromSeed), so
+ * re-evaluations keep their roll and anyone can recompute them after the game.
+ * sessions from before seeding, and their headlines, roll at random.
+ * a roll maps to a band through the session's weights, biased towards a
+ * risk-mode bet (diceDistribution.ts), so the expected band frequencies are
+ * those weights averaged over the rolls.
+ */
+
+import pool from '../db/pool.js';
+import { PlausibilityBand } from '../llm/jurorPrompt.js';
+import { ExactAgreement, wilsonInterval } from '../rating/agreement.js';
+import { diceSettingsFromRow, headlineBandWeights } from './diceDistribution.js';
+import {
+  BandWeights,
+  DICE_ALGORITHM,
+  DiceRollResult,
+  TARGET_BAND_SHARES,
+  bandShares,
+  hashDiceSeed,
+  mapRollToBand,
+  rollDice,
+  rollFromSeed,
+} from './diceRoll.js';
+
+export const DICE_BANDS: PlausibilityBand[] = [1, 2, 3, 4, 5];
+
+/** the chi-square test is only trusted when every band expects at least this many rolls */
+export const MIN_EXPECTED_ROLLS = 5;
+
+export class DiceAuditError extends Error {
+  constructor(
+    message: string,
+    public code: string
+  ) {
+    super(message);
+    this.name = 'DiceAuditError';
+  }
+}
+
+/** what a session has published about its seed */
+export interface DiceCommitment {
+  algorithm: string;
+  seedHash: string;
+  /** null until the game is FINISHED */
+  seed: string | null;
+}
+
+/** a session's commitment from its game_sessions row; null for unseeded sessions */
+export function diceCommitmentFromRow(row: {
+  status: string;
+  dice_seed?: string | null;
+  dice_seed_hash?: string | null;
+}): DiceCommitment | null {
+  if (!row.dice_seed_hash) {
+    return null;
+  }
+  return {
+    algorithm: DICE_ALGORITHM,
+    seedHash: row.dice_seed_hash,
+    seed: row.status === 'FINISHED' ? (row.dice_seed ?? null) : null,
+  };
+}
+
+/**
+ * the roll for a headline: derived from its session's seed and its sequence
+ * number, or random for headlines without them. it maps to a band through the
+ * session's weights, biased towards the player's bet in risk mode.
+ */
+export async function sessionDiceRoll(sessionId: string, headlineId: string): Promise<DiceRollResult> {
+  const result = await pool.query(
+    `SELECT s.dice_seed, s.dice_settings, h.dice_sequence, h.dice_algorithm, h.dice_target_band
+     FROM game_session_headlines h
+     JOIN game_sessions s ON s.id = h.session_id
+     WHERE h.id = $1 AND h.session_id = $2`,
+    [headlineId, sessionId]
+  );
+  const row = result.rows[0];
+  const weights = headlineBandWeights(diceSettingsFromRow(row?.dice_settings), row?.dice_target_band ?? null);
+  if (row?.dice_seed && row.dice_sequence !== null && row.dice_algorithm === DICE_ALGORITHM) {
+    return rollFromSeed(row.dice_seed, row.dice_sequence, weights);
+  }
+  return rollDice(weights);
+}
+
+export interface BandFrequency {
+  band: PlausibilityBand;
+  observed: number;
+  /** observed share with its wilson 95% interval */
+  share: ExactAgreement;
+  targetShare: number;
+  expected: number;
+}
+
+export interface BandFrequencyReport {
+  rolls: number;
+  bands: BandFrequency[];
+  /** pearson's chi-square against the target shares; null without rolls */
+  chiSquare: number | null;
+  degreesOfFreedom: number;
+  /** chance of a deviation at least this large from fair dice */
+  pValue: number | null;
+  /** false while some band expects fewer than MIN_EXPECTED_ROLLS rolls */
+  reliable: boolean;
+}
+
+/** band -> rolls that landed on it */
+export type BandCounts = Record<PlausibilityBand, number>;
+
+/** band -> expected share of the rolls */
+export type BandShares = Record<PlausibilityBand, number>;
+
+/** the expected shares of rolls made with these weights: each roll's shares, averaged */
+export function averageBandShares(rollWeights: { weights: BandWeights; rolls: number }[]): BandShares {
+  const total = rollWeights.reduce((sum, { rolls }) => sum + rolls, 0);
+  if (total === 0) {
+    return TARGET_BAND_SHARES;
+  }
+  const shares: BandShares = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  for (const { weights, rolls } of rollWeights) {
+    const rollShares = bandShares(weights);
+    for (const band of DICE_BANDS) {
+      shares[band] += (rollShares[band] * rolls) / total;
+    }
+  }
+  return shares;
+}
+
+export function countBands(bands: Iterable<PlausibilityBand>): BandCounts {
+  const counts: BandCounts = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  for (const band of bands) {
+    counts[band]++;
+  }
+  return counts;
+}
+
+/** upper tail of the chi-square distribution with 4 degrees of freedom */
+function chiSquareSurvival4(x: number): number {
+  if (x === Infinity) {
+    return 0;
+  }
+  return Math.exp(-x / 2) * (1 + x / 2);
+}
+
+/**
+ * observed band frequencies against the target shares (the standard
+ * 10/35/40/12/3 unless given), with a goodness-of-fit test. a band the target
+ * rules out adds nothing unless a roll landed on it, which fails the test outright.
+ */
+export function bandFrequencyReport(
+  counts: BandCounts,
+  targetShares: BandShares = TARGET_BAND_SHARES
+): BandFrequencyReport {
+  const rolls = DICE_BANDS.reduce((sum, band) => sum + counts[band], 0);
+  const bands = DICE_BANDS.map((band) => ({
+    band,
+    observed: counts[band],
+    share: wilsonInterval(counts[band], rolls),
+    targetShare: targetShares[band],
+    expected: rolls * targetShares[band],
+  }));
+  const chiSquare =
+    rolls === 0
+      ? null
+      : bands.reduce(
+          (sum, { observed, expected }) =>
+            observed === 0 && expected === 0 ? sum : sum + (observed - expected) ** 2 / expected,
+          0
+        );
+  return {
+    rolls,
+    bands,
+    chiSquare,
+    degreesOfFreedom: DICE_BANDS.length - 1,
+    pValue: chiSquare === null ? null : chiSquareSurvival4(chiSquare),
+    reliable: bands.every(({ targetShare, expected }) => targetShare === 0 || expected >= MIN_EXPECTED_ROLLS),
+  };
+}
+
+/** one stored roll and, once the seed is out, whether it matches its derivation */
+export interface RollCheck {
+  headlineId: string;
+  roundNo: number;
+  sequence: number | null;
+  algorithm: string | null;
+  roll: number;
+  band: PlausibilityBand;
+  /** the band the player bet on in risk mode */
+  targetBand: PlausibilityBand | null;
+  /** null for unseeded rolls and before the reveal */
+  expectedRoll: number | null;
+  /** the band the expected roll maps to under the session's weights */
+  expectedBand: PlausibilityBand | null;
+  verified: boolean | null;
+}
+
+export interface SessionDiceAudit {
+  joinCode: string;
+  commitment: DiceCommitment | null;
+  /** whether the revealed seed hashes to the published commitment; null before the reveal */
+  seedMatchesCommitment: boolean | null;
+  rolls: RollCheck[];
+  /** seeded rolls that don't match their derivation; null before the reveal */
+  mismatches: number | null;
+  report: BandFrequencyReport;
+}
+
+/**
+ * a session's rolls, checked against the seed once it is revealed, and their
+ * band frequencies. before the game is FINISHED only the commitment is shown.
+ *
+ * @throws {DiceAuditError} SESSION_NOT_FOUND
+ */
+export async function auditSessionDice(joinCode: string): Promise<SessionDiceAudit> {
+  const sessionResult = await pool.query(
+    `SELECT id, join_code, status, dice_seed, dice_seed_hash, dice_settings FROM game_sessions WHERE join_code = $1`,
+    [joinCode]
+  );
+  if (sessionResult.rows.length === 0) {
+    throw new DiceAuditError('Session not found', 'SESSION_NOT_FOUND');
+  }
+  const session = sessionResult.rows[0];
+  const commitment = diceCommitmentFromRow(session);
+  const seed = commitment?.seed ?? null;
+  const settings = diceSettingsFromRow(session.dice_settings);
+
+  const rollResult = await pool.query(
+    `SELECT id, round_no, dice_roll, selected_band, dice_sequence, dice_algorithm, dice_target_band
+     FROM game_session_headlines
+     WHERE session_id = $1 AND dice_roll IS NOT NULL
+     ORDER BY dice_sequence ASC NULLS LAST, created_at ASC`,
+    [session.id]
+  );
+
+  const rollWeights: { weights: BandWeights; rolls: number }[] = [];
+  const rolls: RollCheck[] = rollResult.rows.map((row) => {
+    const targetBand = row.dice_target_band ?? null;
+    const weights = headlineBandWeights(settings, targetBand);
+    rollWeights.push({ weights, rolls: 1 });
+    const derivable = seed !== null && row.dice_sequence !== null && row.dice_algorithm === DICE_ALGORITHM;
+    const expectedRoll = derivable ? rollFromSeed(seed, row.dice_sequence).roll : null;
+    const expectedBand = expectedRoll === null ? null : mapRollToBand(expectedRoll, weights);
+    return {
+      headlineId: row.id,
+      roundNo: row.round_no,
+      sequence: row.dice_sequence,
+      algorithm: row.dice_algorithm,
+      roll: row.dice_roll,
+      band: row.selected_band,
+      targetBand,
+      expectedRoll,
+      expectedBand,
+      verified: expectedRoll === null ? null : expectedRoll === row.dice_roll && expectedBand === row.selected_band,
+    };
+  });
+
+  return {
+    joinCode: session.join_code,
+    commitment,
+    seedMatchesCommitment: commitment && seed !== null ? hashDiceSeed(seed) === commitment.seedHash : null,
+    rolls,
+    mismatches: seed === null ? null : rolls.filter((check) => check.verified === false).length,
+    report: bandFrequencyReport(countBands(rolls.map((check) => check.band)), averageBandShares(rollWeights)),
+  };
+}
+
+export interface DiceReport {
+  /** null for all time */
+  days: number | null;
+  /** how many of the rolls were seeded */
+  seededRolls: number;
+  report: BandFrequencyReport;
+}
+
+/**
+ * band frequencies over every game's rolls, optionally of the last `days` days,
+ * against the weights each roll was made with
+ */
+export async function getDiceReport(days: number | null = null): Promise<DiceReport> {
+  const result = await pool.query(
+    `SELECT s.dice_settings, h.dice_target_band, h.selected_band, COUNT(*)::int AS rolls,
+            COUNT(*) FILTER (WHERE h.dice_algorithm IS NOT NULL)::int AS seeded
+     FROM game_session_headlines h
+     JOIN game_sessions s ON s.id = h.session_id
+     WHERE h.dice_roll IS NOT NULL
+       AND ($1::int IS NULL OR h.created_at >= NOW() - $1::int * INTERVAL '1 day')
+     GROUP BY s.dice_settings, h.dice_target_band, h.selected_band`,
+    [days]
+  );
+  const counts = countBands([]);
+  const rollWeights: { weights: BandWeights; rolls: number }[] = [];
+  let seededRolls = 0;
+  for (const row of result.rows) {
+    counts[row.selected_band as PlausibilityBand] += row.rolls;
+    rollWeights.push({
+      weights: headlineBandWeights(diceSettingsFromRow(row.dice_settings), row.dice_target_band ?? null),
+      rolls: row.rolls,
+    });
+    seededRolls += row.seeded;
+  }
+  return { days, seededRolls, report: bandFrequencyReport(counts, averageBandShares(rollWeights)) };
+}
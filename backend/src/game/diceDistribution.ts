@@ -0,0 +1,150 @@
+/**
+ * host-tunable dice distribution and the "player chooses risk" mode.
+ *
+ * the host picks a preset of band weights at session creation and may tune
+ * them; the resolved settings are stored on the session (dice_settings) and
+ * sent with the game state. in risk mode a player can declare the band they
+ * are aiming for with a submission (dice_target_band): that band's chance is
+ * multiplied by RISK_BIAS for their roll, and a bet that lands scores the
+ * scoring rules' riskBetPoints for the band.
+ */
+
+import { PlausibilityBand } from '../llm/jurorPrompt.js';
+import { BandWeights, STANDARD_BAND_WEIGHTS } from './diceRoll.js';
+
+export type DicePresetId = 'standard' | 'chaos' | 'grounded' | 'even';
+
+export const DICE_PRESET_IDS: DicePresetId[] = ['standard', 'chaos', 'grounded', 'even'];
+
+export interface DicePreset {
+  id: DicePresetId;
+  name: string;
+  description: string;
+  weights: BandWeights;
+}
+
+export const DICE_PRESETS: Record<DicePresetId, DicePreset> = {
+  standard: {
+    id: 'standard',
+    name: 'Standard',
+    description: 'Mostly probable or plausible headlines; a preposterous one is rare.',
+    weights: STANDARD_BAND_WEIGHTS,
+  },
+  chaos: {
+    id: 'chaos',
+    name: 'Chaos',
+    description: 'Possible and preposterous headlines come up far more often.',
+    weights: [5, 15, 30, 25, 25],
+  },
+  grounded: {
+    id: 'grounded',
+    name: 'Grounded',
+    description: 'A sober newsroom: mostly inevitable and probable headlines.',
+    weights: [25, 45, 25, 4, 1],
+  },
+  even: {
+    id: 'even',
+    name: 'Even odds',
+    description: 'Every band is equally likely.',
+    weights: [20, 20, 20, 20, 20],
+  },
+};
+
+export const DEFAULT_DICE_PRESET: DicePresetId = 'standard';
+
+/** a declared band's chance is multiplied by this for the player's roll */
+export const RISK_BIAS = 2;
+
+/** what the host asked for: a preset, weights if they changed them, and risk mode */
+export interface DiceSettingsRequest {
+  preset?: DicePresetId;
+  weights?: BandWeights;
+  riskMode?: boolean;
+}
+
+/** the session's dice as stored and sent to clients */
+export interface DiceSettings {
+  preset: DicePresetId;
+  /** set when the host changed the preset's weights */
+  tuned: boolean;
+  weights: BandWeights;
+  /** whether players may declare a target band with a submission */
+  riskMode: boolean;
+}
+
+export function resolveDiceSettings(request: DiceSettingsRequest = {}): DiceSettings {
+  const preset = request.preset ?? DEFAULT_DICE_PRESET;
+  const base = DICE_PRESETS[preset].weights;
+  const weights: BandWeights = request.weights ? [...request.weights] : [...base];
+  return {
+    preset,
+    // weights that repeat the preset's own are not tuned
+    tuned: weights.some((weight, index) => weight !== base[index]),
+    weights,
+    riskMode: request.riskMode ?? false,
+  };
+}
+
+/** read the dice settings back from a game_sessions row; NULL (older sessions) means standard */
+export function diceSettingsFromRow(raw: unknown): DiceSettings {
+  if (!raw || typeof raw !== 'object') {
+    return resolveDiceSettings();
+  }
+  const stored = raw as Partial<DiceSettings>;
+  const preset = DICE_PRESET_IDS.includes(stored.preset as DicePresetId)
+    ? (stored.preset as DicePresetId)
+    : DEFAULT_DICE_PRESET;
+  return {
+    preset,
+    tuned: stored.tuned ?? false,
+    weights: Array.isArray(stored.weights) && stored.weights.length === 5
+      ? (stored.weights as BandWeights)
+      : [...DICE_PRESETS[preset].weights],
+    riskMode: stored.riskMode ?? false,
+  };
+}
+
+/**
+ * whole percents proportional to `shares`, summing to `total`: each gets its
+ * floor, and what is left goes to the largest remainders (earlier bands first
+ * on ties)
+ */
+function apportion(shares: number[], total: number): number[] {
+  const sum = shares.reduce((acc, share) => acc + share, 0);
+  if (sum === 0) {
+    return shares.map(() => 0);
+  }
+  const exact = shares.map((share) => (share * total) / sum);
+  const result = exact.map(Math.floor);
+  let left = total - result.reduce((acc, value) => acc + value, 0);
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+  for (const { index } of byRemainder) {
+    if (left <= 0) break;
+    result[index]++;
+    left--;
+  }
+  return result;
+}
+
+/**
+ * the weights with `band`'s chance multiplied by RISK_BIAS (at most 100%), the
+ * difference taken from the other bands in proportion to their weights. a band
+ * weighted 0 stays impossible.
+ */
+export function biasTowards(weights: BandWeights, band: PlausibilityBand): BandWeights {
+  const index = band - 1;
+  const boosted = Math.min(100, weights[index] * RISK_BIAS);
+  const others = apportion(
+    weights.map((weight, i) => (i === index ? 0 : weight)),
+    100 - boosted
+  );
+  others[index] = boosted;
+  return others as BandWeights;
+}
+
+/** the weights a headline's roll maps through: the session's, biased in risk mode towards a declared band */
+export function headlineBandWeights(settings: DiceSettings, targetBand: PlausibilityBand | null): BandWeights {
+  return settings.riskMode && targetBand ? biasTowards(settings.weights, targetBand) : settings.weights;
+}
@@ -1,8 +1,13 @@
 /**
  * dice roll module for headline band selection.
  * handles random roll generation and mapping to plausibility bands.
+ *
+ * a seeded session derives each roll from its secret seed and the headline's
+ * sequence number instead (rollFromSeed), so rolls can be checked once the
+ * seed is revealed; see diceAudit.ts.
  */
 
+import { createHash, createHmac, randomBytes } from 'crypto';
 import { HeadlineBands, PlausibilityBand } from '../llm/jurorPrompt.js';
 
 export interface DiceRollResult {
@@ -12,9 +17,11 @@ export interface DiceRollResult {
   band: PlausibilityBand;
 }
 
+/** each band's share of the 1-100 roll in whole percent, band 1 first; they sum to 100 */
+export type BandWeights = [number, number, number, number, number];
+
 /**
- * band boundaries for mapping roll to band.
- * target distribution: 10% / 35% / 40% / 12% / 3%
+ * the standard distribution: 10% / 35% / 40% / 12% / 3%
  *
  * roll range is 1-100 (100 values total) so each percent maps cleanly:
  * band 1: 1-10   (10 values, 10%) - inevitable
@@ -22,28 +29,51 @@ export interface DiceRollResult {
  * band 3: 46-85  (40 values, 40%) - plausible
  * band 4: 86-97  (12 values, 12%) - possible
  * band 5: 98-100 (3 values,  3%)  - preposterous
+ *
+ * sessions can play with other weights (see diceDistribution.ts).
  */
-const BAND_BOUNDARIES: { min: number; max: number; band: PlausibilityBand }[] = [
-  { min: 1, max: 10, band: 1 },
-  { min: 11, max: 45, band: 2 },
-  { min: 46, max: 85, band: 3 },
-  { min: 86, max: 97, band: 4 },
-  { min: 98, max: 100, band: 5 },
-];
+export const STANDARD_BAND_WEIGHTS: BandWeights = [10, 35, 40, 12, 3];
+
+/** band boundaries for mapping a roll to a band; bands weighted 0 get none */
+function bandBoundaries(weights: BandWeights): { min: number; max: number; band: PlausibilityBand }[] {
+  const boundaries: { min: number; max: number; band: PlausibilityBand }[] = [];
+  let max = 0;
+  weights.forEach((weight, index) => {
+    if (weight > 0) {
+      boundaries.push({ min: max + 1, max: max + weight, band: (index + 1) as PlausibilityBand });
+      max += weight;
+    }
+  });
+  return boundaries;
+}
+
+const BAND_BOUNDARIES = bandBoundaries(STANDARD_BAND_WEIGHTS);
+
+/** each band's share of rolls (0-1) under these weights */
+export function bandShares(weights: BandWeights): Record<PlausibilityBand, number> {
+  return { 1: weights[0] / 100, 2: weights[1] / 100, 3: weights[2] / 100, 4: weights[3] / 100, 5: weights[4] / 100 };
+}
+
+/** each band's share of rolls (0-1) under the standard distribution */
+export const TARGET_BAND_SHARES: Record<PlausibilityBand, number> = bandShares(STANDARD_BAND_WEIGHTS);
+
+/** how a seeded roll is derived, stored with it as dice_algorithm */
+export const DICE_ALGORITHM = 'hmac-sha256.v1';
 
 /**
  * map a roll value (1-100) to a plausibility band (1-5).
  *
  * @param roll - roll value between 1 and 100 inclusive
+ * @param weights - the band weights to map through (default: standard)
  * @returns the corresponding plausibility band 1-5
  * @throws error if roll is outside valid range
  */
-export function mapRollToBand(roll: number): PlausibilityBand {
+export function mapRollToBand(roll: number, weights?: BandWeights): PlausibilityBand {
   if (roll < 1 || roll > 100) {
     throw new Error(`Roll must be between 1 and 100, got ${roll}`);
   }
 
-  for (const boundary of BAND_BOUNDARIES) {
+  for (const boundary of weights ? bandBoundaries(weights) : BAND_BOUNDARIES) {
     if (roll >= boundary.min && roll <= boundary.max) {
       return boundary.band;
     }
@@ -56,16 +86,39 @@ export function mapRollToBand(roll: number): PlausibilityBand {
 /**
  * generate a random dice roll and map it to a band.
  *
+ * @param weights - the band weights to map through (default: standard)
  * @returns DiceRollResult with raw roll (1-100) and mapped band (1-5)
  */
-export function rollDice(): DiceRollResult {
+export function rollDice(weights?: BandWeights): DiceRollResult {
   // random integer 1-100 inclusive
   const roll = Math.floor(Math.random() * 100) + 1;
-  const band = mapRollToBand(roll);
+  const band = mapRollToBand(roll, weights);
 
   return { roll, band };
 }
 
+/** a new secret session seed, 32 random bytes as hex */
+export function createDiceSeed(): string {
+  return randomBytes(32).toString('hex');
+}
+
+/** the published commitment to a seed: sha-256 of its hex string */
+export function hashDiceSeed(seed: string): string {
+  return createHash('sha256').update(seed).digest('hex');
+}
+
+/**
+ * the roll for a session's nth submission: HMAC-SHA256 keyed with the seed
+ * over the decimal sequence number, the first six bytes read as a big-endian
+ * integer, mod 100, plus 1. (2^48 is not a multiple of 100, but the bias is
+ * below 1e-12.) the weights only decide the band the roll maps to.
+ */
+export function rollFromSeed(seed: string, sequence: number, weights?: BandWeights): DiceRollResult {
+  const digest = createHmac('sha256', seed).update(String(sequence)).digest();
+  const roll = (digest.readUIntBE(0, 6) % 100) + 1;
+  return { roll, band: mapRollToBand(roll, weights) };
+}
+
 /**
  * select a headline from the bands based on the given band number.
  *
@@ -82,14 +135,15 @@ export function selectHeadline(bands: HeadlineBands, band: PlausibilityBand): st
  * perform a complete dice roll and headline selection.
  *
  * @param bands - the headline bands from llm evaluation
+ * @param weights - the band weights to roll with (default: standard)
  * @returns object with roll details and selected headline
  */
-export function rollAndSelectHeadline(bands: HeadlineBands): {
+export function rollAndSelectHeadline(bands: HeadlineBands, weights?: BandWeights): {
   roll: number;
   band: PlausibilityBand;
   selectedHeadline: string;
 } {
-  const { roll, band } = rollDice();
+  const { roll, band } = rollDice(weights);
   const selectedHeadline = selectHeadline(bands, band);
 
   return {
@@ -3,14 +3,24 @@ import {
   GamePhase,
   GameSessionConfig,
   GameSessionRuntimeState,
+  HostControlAction,
 } from './types.js';
 import { Server } from 'socket.io';
-import { migrateGlobalUsage, migratePlayerOrdinals, computePlanetPanel } from './planetUsage.js';
-import { computeInGameNow } from './inGameTime.js';
-import { DEFAULT_PLANETS } from './scoringTypes.js';
-import { generateRoundSummary, generateFinalNarrativeSummary } from './summaryService.js';
-import { getPlayerScoreBreakdowns } from './scoringService.js';
-import { SEED_HEADLINES } from './seedHeadlines.js';
+import {
+  generateRoundSummary,
+  generateFinalNarrativeSummary,
+  getRoundSummary,
+} from './summaryService.js';
+import { ScenarioPack, scenarioFromRow } from './scenarios.js';
+import {
+  DEFAULT_GAME_SETTINGS,
+  FALLBACK_BREAK_MINUTES,
+  GameSettings,
+  settingsFromRow,
+} from './gameSettings.js';
+import { SessionLeadership, localLeadership } from '../cluster/sessionLeadership.js';
+import { requestFromOtherServers } from '../cluster/serverRequests.js';
+import { fetchSessionState } from './sessionState.js';
 
 /**
  * test mode: when GAME_TEST_MODE=true, all time-based durations
@@ -25,17 +35,30 @@ if (TEST_MODE) {
   console.log('[GameLoop] ⚡ GAME_TEST_MODE active — all durations scaled by 1/16');
 }
 
-const ROUND_SPEED_WEIGHTS = [2, 4, 6, 8];
-const TOTAL_INGAME_MS = 20 * 365.25 * 24 * 60 * 60 * 1000;
+const MS_PER_INGAME_YEAR = 365.25 * 24 * 60 * 60 * 1000;
 const TUTORIAL_DURATION_MS = Math.round(3 * 60 * 1000 * TIME_SCALE); // 3 min normally, ~11s in test mode
 
+// sessions untouched for longer than this are treated as abandoned and not
+// resumed on boot (avoids replaying LLM summaries for long-dead games)
+const RESUME_MAX_IDLE_HOURS = 24;
+
+// with several instances, how often each one looks for running sessions that
+// no instance leads (e.g. because the previous leader died)
+const LEADERSHIP_SWEEP_MS = 15_000;
+
+/** server-side event carrying a host control to the instance that leads the session */
+const GAME_COMMAND_EVENT = 'game:command';
+
+const RUNNING_PHASES: GamePhase[] = ['TUTORIAL', 'PLAYING', 'BREAK'];
+
 /**
  * per-break configuration indexed by round number just completed.
- * after round 1 → BREAK_SCHEDULE[0], after round 2 → BREAK_SCHEDULE[1], etc.
+ * after round 1 → breakSchedule[0], after round 2 → breakSchedule[1], etc.
  *
- * selective summary generation: only break 2 (after round 2) has a summary,
- * and it covers rounds 1-2. the final summary (covering all 4 rounds) is
- * generated on the FINISHED transition instead.
+ * selective summary generation: only breaks listed in the session's
+ * summaryRounds get a summary, covering every round since the previous
+ * summary break. the final summary (covering all rounds) is generated on
+ * the FINISHED transition instead.
  */
 interface BreakConfig {
   durationMin: number;
@@ -43,29 +66,46 @@ interface BreakConfig {
   summaryFromRound: number | null; // inclusive; null means no summary
 }
 
-const BREAK_SCHEDULE: BreakConfig[] = [
-  { durationMin: 3 * TIME_SCALE, generateSummary: false, summaryFromRound: null },  // after r1
-  { durationMin: 5 * TIME_SCALE, generateSummary: true, summaryFromRound: 1 },      // after r2: covers r1-r2
-  { durationMin: 3 * TIME_SCALE, generateSummary: false, summaryFromRound: null },  // after r3
-];
-
 /** exported for testing */
-export function getBreakConfig(roundNo: number): BreakConfig {
+export function getBreakConfig(
+  roundNo: number,
+  settings: Pick<GameSettings, 'breakSchedule' | 'summaryRounds'> = DEFAULT_GAME_SETTINGS
+): BreakConfig {
   const idx = roundNo - 1;
-  if (idx < 0 || idx >= BREAK_SCHEDULE.length) {
+  if (idx < 0 || idx >= settings.breakSchedule.length) {
     // fallback for rounds outside the schedule
-    return { durationMin: 3, generateSummary: false, summaryFromRound: null };
+    return { durationMin: FALLBACK_BREAK_MINUTES, generateSummary: false, summaryFromRound: null };
   }
-  return BREAK_SCHEDULE[idx];
+
+  const generateSummary = settings.summaryRounds.includes(roundNo);
+  const earlierSummaryRounds = settings.summaryRounds.filter((r) => r < roundNo);
+  const summaryFromRound = generateSummary
+    ? earlierSummaryRounds.length > 0
+      ? Math.max(...earlierSummaryRounds) + 1
+      : 1
+    : null;
+
+  return {
+    durationMin: settings.breakSchedule[idx] * TIME_SCALE,
+    generateSummary,
+    summaryFromRound,
+  };
 }
 
-/** exported for testing */
-export function computeRoundSpeedRatio(roundNo: number, playMinutes: number): number {
-  const totalWeight = ROUND_SPEED_WEIGHTS.reduce((a, b) => a + b, 0);
-  const roundWeight =
-    ROUND_SPEED_WEIGHTS[roundNo - 1] ??
-    ROUND_SPEED_WEIGHTS[ROUND_SPEED_WEIGHTS.length - 1];
-  const roundInGameMs = (roundWeight / totalWeight) * TOTAL_INGAME_MS;
+/**
+ * later rounds cover more in-game time: round n is weighted 2n, so a
+ * 4-round game splits the span 2/4/6/8. rounds past maxRounds clamp to
+ * the last weight. exported for testing.
+ */
+export function computeRoundSpeedRatio(
+  roundNo: number,
+  playMinutes: number,
+  maxRounds: number = DEFAULT_GAME_SETTINGS.maxRounds,
+  totalYears: number = DEFAULT_GAME_SETTINGS.totalYears
+): number {
+  const totalWeight = maxRounds * (maxRounds + 1); // sum of 2n for n = 1..maxRounds
+  const roundWeight = 2 * Math.min(Math.max(roundNo, 1), maxRounds);
+  const roundInGameMs = (roundWeight / totalWeight) * totalYears * MS_PER_INGAME_YEAR;
   return roundInGameMs / (playMinutes * 60_000);
 }
 
@@ -101,13 +141,30 @@ export function computeNextPhase(
   }
 }
 
+/**
+ * thrown when a host control (pause/resume/extend/skip) is not valid in the
+ * loop's current state; the message is safe to show to the host.
+ */
+export class GameControlError extends Error {
+  constructor(
+    message: string,
+    public code: string
+  ) {
+    super(message);
+    this.name = 'GameControlError';
+  }
+}
+
 /**
  * in-memory representation of a running game loop for a single session
  */
 class GameLoopInstance {
   private timerHandle: NodeJS.Timeout | null = null;
   private seedDripHandle: NodeJS.Timeout | null = null;
+  private seedDripIndex = 0;
   private archivePlayerId: string | null = null;
+  /** the session's scenario: its seed headlines and the topic summaries are told about */
+  private scenario: ScenarioPack = scenarioFromRow(null);
   private state: GameSessionRuntimeState;
   private io: Server;
 
@@ -119,6 +176,7 @@ class GameLoopInstance {
       phaseStartedAt: null,
       phaseEndsAt: null,
       inGameStartAt: null,
+      pausedAt: null,
     };
     this.io = io;
   }
@@ -131,7 +189,8 @@ class GameLoopInstance {
     const result = await pool.query(
       `SELECT phase, current_round, phase_started_at, phase_ends_at, 
               in_game_start_at, play_minutes, break_minutes, max_rounds,
-              timeline_speed_ratio
+              timeline_speed_ratio, break_schedule, summary_rounds,
+              start_year, total_years, paused_at, scenario
        FROM game_sessions 
        WHERE id = $1`,
       [this.state.sessionId]
@@ -150,10 +209,18 @@ class GameLoopInstance {
       this.state.inGameStartAt = row.in_game_start_at
         ? new Date(row.in_game_start_at)
         : null;
+      this.state.pausedAt = row.paused_at ? new Date(row.paused_at) : null;
       this.state.playMinutes = row.play_minutes;
       this.state.breakMinutes = row.break_minutes;
       this.state.maxRounds = row.max_rounds;
       this.state.timelineSpeedRatio = row.timeline_speed_ratio;
+
+      const settings = settingsFromRow(row);
+      this.state.breakSchedule = settings.breakSchedule;
+      this.state.summaryRounds = settings.summaryRounds;
+      this.state.startYear = settings.startYear;
+      this.state.totalYears = settings.totalYears;
+      this.scenario = scenarioFromRow(row.scenario);
     }
   }
 
@@ -173,7 +240,9 @@ class GameLoopInstance {
 
   async transitionToPhase(
     toPhase: GamePhase,
-    newRound?: number
+    newRound?: number,
+    action: HostControlAction | null = null,
+    at: Date = new Date()
   ): Promise<void> {
     const fromPhase = this.state.phase;
     const roundNo = newRound !== undefined ? newRound : this.state.currentRound;
@@ -187,15 +256,18 @@ class GameLoopInstance {
       this.timerHandle = null;
     }
 
-    // calculate timing for new phase
-    const now = new Date();
+    // calculate timing for new phase. `at` is the real time the transition
+    // takes effect — normally now, but earlier when catching up after a restart.
+    const now = at;
     let phaseStartedAt = now;
     let phaseEndsAt: Date | null = null;
     let inGameStartAt = this.state.inGameStartAt;
 
-    // accumulate in-game time from the outgoing phase before resetting phaseStartedAt
+    // accumulate in-game time from the outgoing phase before resetting phaseStartedAt.
+    // a paused phase stopped accruing when it was paused.
+    const accruedUntil = this.state.pausedAt ?? now;
     if (inGameStartAt && this.state.phaseStartedAt) {
-      const realElapsed = now.getTime() - this.state.phaseStartedAt.getTime();
+      const realElapsed = accruedUntil.getTime() - this.state.phaseStartedAt.getTime();
       const inGameElapsed = realElapsed * this.state.timelineSpeedRatio;
       inGameStartAt = new Date(inGameStartAt.getTime() + inGameElapsed);
     }
@@ -205,17 +277,23 @@ class GameLoopInstance {
       phaseEndsAt = new Date(now.getTime() + TUTORIAL_DURATION_MS);
     } else if (toPhase === 'PLAYING') {
       if (!inGameStartAt) {
-        inGameStartAt = now;
+        inGameStartAt =
+          this.state.startYear !== null ? new Date(this.state.startYear, 0, 1) : now;
       }
       // in test mode, scale round duration and speed ratio by the same factor
-      // so the in-game timeline still spans the full 20 years across the
-      // compressed real-time round.
+      // so the in-game timeline still spans the full configured years across
+      // the compressed real-time round.
       const effectivePlayMinutes = this.state.playMinutes * TIME_SCALE;
-      this.state.timelineSpeedRatio = computeRoundSpeedRatio(roundNo, effectivePlayMinutes);
+      this.state.timelineSpeedRatio = computeRoundSpeedRatio(
+        roundNo,
+        effectivePlayMinutes,
+        this.state.maxRounds,
+        this.state.totalYears
+      );
       phaseEndsAt = new Date(now.getTime() + effectivePlayMinutes * 60 * 1000);
     } else if (toPhase === 'BREAK') {
       this.state.timelineSpeedRatio = 0;
-      const breakCfg = getBreakConfig(roundNo);
+      const breakCfg = getBreakConfig(roundNo, this.state);
       phaseEndsAt = new Date(now.getTime() + breakCfg.durationMin * 60 * 1000);
     } else if (toPhase === 'FINISHED') {
       phaseStartedAt = now;
@@ -227,8 +305,9 @@ class GameLoopInstance {
     this.state.phaseStartedAt = phaseStartedAt;
     this.state.phaseEndsAt = phaseEndsAt;
     this.state.inGameStartAt = inGameStartAt;
+    this.state.pausedAt = null;
 
-    await this.persistStateTransition(fromPhase, toPhase, roundNo);
+    await this.persistStateTransition(fromPhase, toPhase, roundNo, action);
 
     await this.broadcastGameState();
 
@@ -237,15 +316,16 @@ class GameLoopInstance {
       this.startSeedDrip();
     }
 
-    // stop seed drip when leaving tutorial
-    if (fromPhase === 'TUTORIAL' && this.seedDripHandle) {
-      clearInterval(this.seedDripHandle);
-      this.seedDripHandle = null;
+    // stop seed drip when leaving tutorial; if the host skipped ahead, post
+    // whatever seeds had not dripped yet so the timeline is still complete
+    if (fromPhase === 'TUTORIAL' && toPhase !== 'TUTORIAL') {
+      this.stopSeedDrip();
+      await this.flushSeedDrip();
     }
 
     // generate round summary on break transition (only if this break has one)
     if (toPhase === 'BREAK') {
-      const breakCfg = getBreakConfig(roundNo);
+      const breakCfg = getBreakConfig(roundNo, this.state);
       if (breakCfg.generateSummary && breakCfg.summaryFromRound !== null) {
         this.generateAndBroadcastSummary(roundNo, breakCfg.summaryFromRound).catch((err) => {
           console.error(
@@ -267,23 +347,222 @@ class GameLoopInstance {
     }
 
     // schedule next transition if not finished
-    if (toPhase !== 'FINISHED' && phaseEndsAt) {
-      const nextPhase = this.computeNextPhase(toPhase, roundNo);
-      const delay = phaseEndsAt.getTime() - now.getTime();
+    this.scheduleNextTransition();
+  }
 
-      this.timerHandle = setTimeout(() => {
-        this.transitionToPhase(nextPhase.phase, nextPhase.round).catch((err) =>
-          console.error(
-            `[GameLoop ${this.state.joinCode}] Auto-transition failed:`,
-            err
-          )
-        );
-      }, delay);
+  /**
+   * arm the timer for the current phase's end. no-op when the game is
+   * finished, has no phase end, or is paused.
+   */
+  private scheduleNextTransition(): void {
+    if (this.timerHandle) {
+      clearTimeout(this.timerHandle);
+      this.timerHandle = null;
+    }
 
-      console.log(
-        `[GameLoop ${this.state.joinCode}] Scheduled transition to ${nextPhase.phase} in ${Math.round(delay / 1000)}s`
+    const { phase, currentRound, phaseEndsAt, pausedAt } = this.state;
+    if (phase === 'FINISHED' || !phaseEndsAt || pausedAt) {
+      return;
+    }
+
+    const nextPhase = this.computeNextPhase(phase, currentRound);
+    const delay = Math.max(0, phaseEndsAt.getTime() - Date.now());
+
+    this.timerHandle = setTimeout(() => {
+      this.transitionToPhase(nextPhase.phase, nextPhase.round).catch((err) =>
+        console.error(
+          `[GameLoop ${this.state.joinCode}] Auto-transition failed:`,
+          err
+        )
       );
+    }, delay);
+
+    console.log(
+      `[GameLoop ${this.state.joinCode}] Scheduled transition to ${nextPhase.phase} in ${Math.round(delay / 1000)}s`
+    );
+  }
+
+  private assertRunning(): void {
+    const { phase } = this.state;
+    if (phase !== 'TUTORIAL' && phase !== 'PLAYING' && phase !== 'BREAK') {
+      throw new GameControlError(`Game is not running (phase: ${phase})`, 'NOT_RUNNING');
+    }
+  }
+
+  /**
+   * host control: freeze the phase timer and the in-game clock.
+   */
+  async pause(playerId?: string): Promise<void> {
+    this.assertRunning();
+    if (this.state.pausedAt) {
+      throw new GameControlError('Game is already paused', 'ALREADY_PAUSED');
+    }
+
+    if (this.timerHandle) {
+      clearTimeout(this.timerHandle);
+      this.timerHandle = null;
+    }
+    this.stopSeedDrip();
+
+    this.state.pausedAt = new Date();
+
+    await this.persistStateTransition(this.state.phase, this.state.phase, this.state.currentRound, 'PAUSE', {
+      playerId: playerId ?? null,
+    });
+    await this.broadcastGameState();
+
+    console.log(`[GameLoop ${this.state.joinCode}] Paused during ${this.state.phase}`);
+  }
+
+  /**
+   * host control: resume a paused phase. the phase window is shifted forward
+   * by the paused duration, so the remaining time and in-game clock pick up
+   * exactly where they stopped.
+   */
+  async resume(playerId?: string): Promise<void> {
+    this.assertRunning();
+    if (!this.state.pausedAt) {
+      throw new GameControlError('Game is not paused', 'NOT_PAUSED');
+    }
+
+    const pausedMs = Math.max(0, Date.now() - this.state.pausedAt.getTime());
+    if (this.state.phaseStartedAt) {
+      this.state.phaseStartedAt = new Date(this.state.phaseStartedAt.getTime() + pausedMs);
+    }
+    if (this.state.phaseEndsAt) {
+      this.state.phaseEndsAt = new Date(this.state.phaseEndsAt.getTime() + pausedMs);
+    }
+    this.state.pausedAt = null;
+
+    await this.persistStateTransition(this.state.phase, this.state.phase, this.state.currentRound, 'RESUME', {
+      playerId: playerId ?? null,
+      pausedMs,
+    });
+    await this.broadcastGameState();
+
+    if (this.state.phase === 'TUTORIAL' && this.archivePlayerId) {
+      this.startSeedDrip();
+    }
+    this.scheduleNextTransition();
+
+    console.log(
+      `[GameLoop ${this.state.joinCode}] Resumed ${this.state.phase} after ${Math.round(pausedMs / 1000)}s`
+    );
+  }
+
+  /**
+   * host control: push the current phase's end back by extendMs.
+   * a PLAYING round keeps its speed ratio, so the extra time also advances
+   * the in-game clock further.
+   */
+  async extendPhase(extendMs: number, playerId?: string): Promise<void> {
+    this.assertRunning();
+    if (!Number.isFinite(extendMs) || extendMs <= 0) {
+      throw new GameControlError('Extension must be a positive duration', 'INVALID_EXTENSION');
+    }
+    if (!this.state.phaseEndsAt) {
+      throw new GameControlError('Current phase has no end time to extend', 'NOT_RUNNING');
+    }
+
+    this.state.phaseEndsAt = new Date(this.state.phaseEndsAt.getTime() + extendMs);
+
+    await this.persistStateTransition(this.state.phase, this.state.phase, this.state.currentRound, 'EXTEND', {
+      playerId: playerId ?? null,
+      extendMs,
+    });
+    await this.broadcastGameState();
+    this.scheduleNextTransition();
+
+    console.log(
+      `[GameLoop ${this.state.joinCode}] Extended ${this.state.phase} by ${Math.round(extendMs / 1000)}s`
+    );
+  }
+
+  /**
+   * host control: end the current phase now and move to the next one.
+   * skipping while paused also resumes.
+   */
+  async skipPhase(): Promise<void> {
+    this.assertRunning();
+    const nextPhase = this.computeNextPhase(this.state.phase, this.state.currentRound);
+    await this.transitionToPhase(nextPhase.phase, nextPhase.round, 'SKIP');
+  }
+
+  /**
+   * pick up a session that was mid-game when the server stopped.
+   * replays every phase whose end has already passed (at its scheduled end
+   * time, so summaries and the final narrative still fire), then re-arms the
+   * timer and the seed drip for the phase that is still running.
+   */
+  async recover(): Promise<void> {
+    const archiveResult = await pool.query(
+      `SELECT id FROM session_players
+       WHERE session_id = $1 AND is_system = TRUE
+       LIMIT 1`,
+      [this.state.sessionId]
+    );
+    this.archivePlayerId = archiveResult.rows[0]?.id ?? null;
+
+    const seedResult = await pool.query(
+      `SELECT COUNT(*)::int AS count FROM game_session_headlines
+       WHERE session_id = $1 AND llm_status = 'seed'`,
+      [this.state.sessionId]
+    );
+    this.seedDripIndex = seedResult.rows[0]?.count ?? 0;
+
+    if (this.state.pausedAt) {
+      console.log(`[GameLoop ${this.state.joinCode}] Recovered paused ${this.state.phase}; waiting for host`);
+      return;
+    }
+
+    let caughtUp = 0;
+    while (
+      this.state.phase !== 'FINISHED' &&
+      this.state.phaseEndsAt &&
+      this.state.phaseEndsAt.getTime() <= Date.now()
+    ) {
+      const nextPhase = this.computeNextPhase(this.state.phase, this.state.currentRound);
+      await this.transitionToPhase(nextPhase.phase, nextPhase.round, null, this.state.phaseEndsAt);
+      caughtUp++;
+    }
+
+    if (caughtUp === 0) {
+      // the interrupted phase is still running: re-arm what the old process owned
+      if (this.state.phase === 'TUTORIAL' && this.archivePlayerId) {
+        this.startSeedDrip();
+      }
+      if (this.state.phase === 'BREAK') {
+        await this.regenerateInterruptedSummary();
+      }
+      this.scheduleNextTransition();
+    }
+
+    console.log(
+      `[GameLoop ${this.state.joinCode}] Recovered in ${this.state.phase} (round ${this.state.currentRound}), caught up ${caughtUp} phase(s)`
+    );
+  }
+
+  /**
+   * a break's summary may have been mid-generation when the server stopped,
+   * leaving it stuck in 'generating'. restart it unless it already completed.
+   */
+  private async regenerateInterruptedSummary(): Promise<void> {
+    const breakCfg = getBreakConfig(this.state.currentRound, this.state);
+    if (!breakCfg.generateSummary || breakCfg.summaryFromRound === null) {
+      return;
     }
+
+    const existing = await getRoundSummary(this.state.sessionId, this.state.currentRound);
+    if (existing?.status === 'completed') {
+      return;
+    }
+
+    this.generateAndBroadcastSummary(this.state.currentRound, breakCfg.summaryFromRound).catch((err) => {
+      console.error(
+        `[GameLoop ${this.state.joinCode}] Summary generation failed:`,
+        err
+      );
+    });
   }
 
   private computeNextPhase(
@@ -296,7 +575,9 @@ class GameLoopInstance {
   private async persistStateTransition(
     fromPhase: GamePhase,
     toPhase: GamePhase,
-    roundNo: number
+    roundNo: number,
+    action: HostControlAction | null = null,
+    details: Record<string, unknown> | null = null
   ): Promise<void> {
     const client = await pool.connect();
 
@@ -312,8 +593,9 @@ class GameLoopInstance {
              in_game_start_at = $5,
              timeline_speed_ratio = $6,
              status = $7,
+             paused_at = $8,
              updated_at = CURRENT_TIMESTAMP
-         WHERE id = $8`,
+         WHERE id = $9`,
         [
           toPhase,
           roundNo,
@@ -322,15 +604,23 @@ class GameLoopInstance {
           this.state.inGameStartAt,
           this.state.timelineSpeedRatio,
           toPhase, // keep status in sync with phase for now
+          this.state.pausedAt,
           this.state.sessionId,
         ]
       );
 
       await client.query(
         `INSERT INTO game_session_state_transitions 
-         (session_id, from_phase, to_phase, round_no)
-         VALUES ($1, $2, $3, $4)`,
-        [this.state.sessionId, fromPhase, toPhase, roundNo]
+         (session_id, from_phase, to_phase, round_no, action, details)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          this.state.sessionId,
+          fromPhase,
+          toPhase,
+          roundNo,
+          action,
+          details ? JSON.stringify(details) : null,
+        ]
       );
 
       await client.query('COMMIT');
@@ -344,104 +634,14 @@ class GameLoopInstance {
 
   private async broadcastGameState(): Promise<void> {
     // get full session state from database (includes players)
-    const result = await pool.query(
-      `SELECT
-        s.id,
-        s.join_code,
-        s.status,
-        s.host_player_id,
-        s.phase,
-        s.current_round,
-        s.play_minutes,
-        s.break_minutes,
-        s.max_rounds,
-        s.phase_started_at,
-        s.phase_ends_at,
-        s.in_game_start_at,
-        s.timeline_speed_ratio,
-        s.planet_usage_global,
-        CURRENT_TIMESTAMP as server_now,
-        json_agg(
-          json_build_object(
-            'id', p.id,
-            'nickname', p.nickname,
-            'isHost', p.is_host,
-            'joinedAt', p.joined_at,
-            'totalScore', p.total_score,
-            'planetUsageState', p.planet_usage_state
-          ) ORDER BY p.joined_at
-        ) as players
-      FROM game_sessions s
-      LEFT JOIN session_players p ON s.id = p.session_id AND p.is_system = FALSE
-      WHERE s.id = $1
-      GROUP BY s.id`,
-      [this.state.sessionId]
-    );
-
-    if (result.rows.length === 0) {
+    const gameState = await fetchSessionState({ sessionId: this.state.sessionId });
+    if (!gameState) {
       console.error(
         `[GameLoop ${this.state.joinCode}] Session not found in database`
       );
       return;
     }
 
-    const session = result.rows[0];
-    const serverNow = new Date(session.server_now);
-
-    // compute in-game time
-    const inGameNow = computeInGameNow(
-      session.in_game_start_at,
-      session.phase_started_at,
-      session.phase_ends_at,
-      serverNow,
-      session.timeline_speed_ratio
-    );
-
-    const breakdowns = await getPlayerScoreBreakdowns(this.state.sessionId);
-    const globalUsage = migrateGlobalUsage(session.planet_usage_global, DEFAULT_PLANETS);
-
-    // build each player's usage-ranked planet panel
-    const processedPlayers = session.players
-      .filter((p: any) => p.id !== null)
-      .map((p: any) => {
-        const bd = breakdowns.get(p.id);
-        return {
-          id: p.id,
-          nickname: p.nickname,
-          isHost: p.isHost,
-          joinedAt: p.joinedAt,
-          totalScore: p.totalScore ?? 0,
-          planetPanel: computePlanetPanel(
-            globalUsage,
-            migratePlayerOrdinals(p.planetUsageState, DEFAULT_PLANETS),
-            DEFAULT_PLANETS
-          ),
-          scoreBreakdown: bd ?? { baseline: 0, plausibility: 0, connection: 0, planetBonus: 0 },
-        };
-      });
-
-    const gameState = {
-      id: session.id,
-      joinCode: session.join_code,
-      status: session.status,
-      hostPlayerId: session.host_player_id,
-      phase: session.phase,
-      currentRound: session.current_round,
-      playMinutes: session.play_minutes,
-      breakMinutes: session.break_minutes,
-      maxRounds: session.max_rounds,
-      phaseStartedAt: session.phase_started_at
-        ? new Date(session.phase_started_at).toISOString()
-        : null,
-      phaseEndsAt: session.phase_ends_at
-        ? new Date(session.phase_ends_at).toISOString()
-        : null,
-      serverNow: serverNow.toISOString(),
-      inGameNow: inGameNow ? inGameNow.toISOString() : null,
-      timelineSpeedRatio: session.timeline_speed_ratio,
-      players: processedPlayers,
-    };
-
     // broadcast to all players in the session room
     const roomName = `session:${this.state.joinCode}`;
     this.io.to(roomName).emit('game:state', gameState);
@@ -474,6 +674,7 @@ class GameLoopInstance {
         fromRound,
         toRound,
         maxRounds: this.state.maxRounds,
+        topic: this.scenario.topic,
       });
 
       this.io.to(roomName).emit('round:summary', {
@@ -524,6 +725,7 @@ class GameLoopInstance {
       const result = await generateFinalNarrativeSummary({
         sessionId: this.state.sessionId,
         maxRounds: this.state.maxRounds,
+        topic: this.scenario.topic,
       });
 
       this.io.to(roomName).emit('game:final_summary', {
@@ -552,64 +754,80 @@ class GameLoopInstance {
   }
 
   private startSeedDrip(): void {
-    const seeds = [...SEED_HEADLINES];
+    const seeds = this.scenario.seedHeadlines;
+    if (this.seedDripHandle || this.seedDripIndex >= seeds.length) {
+      return;
+    }
+
     const intervalMs = Math.floor(TUTORIAL_DURATION_MS / (seeds.length + 1));
-    let index = 0;
 
     console.log(
-      `[GameLoop ${this.state.joinCode}] Starting seed drip: ${seeds.length} headlines over ${TUTORIAL_DURATION_MS / 1000}s (every ${Math.round(intervalMs / 1000)}s)`
+      `[GameLoop ${this.state.joinCode}] Starting seed drip: ${seeds.length - this.seedDripIndex} headlines over ${TUTORIAL_DURATION_MS / 1000}s (every ${Math.round(intervalMs / 1000)}s)`
     );
 
     this.seedDripHandle = setInterval(async () => {
-      if (index >= seeds.length) {
-        if (this.seedDripHandle) {
-          clearInterval(this.seedDripHandle);
-          this.seedDripHandle = null;
-        }
+      if (this.seedDripIndex >= seeds.length) {
+        this.stopSeedDrip();
         return;
       }
+      await this.insertSeedHeadline(this.seedDripIndex++);
+    }, intervalMs);
+  }
+
+  private stopSeedDrip(): void {
+    if (this.seedDripHandle) {
+      clearInterval(this.seedDripHandle);
+      this.seedDripHandle = null;
+    }
+  }
 
-      const seed = seeds[index];
-      const inGameSubmittedAt = new Date(seed.inGameYear, seed.inGameMonth - 1, 1).toISOString();
+  /** post any seeds the drip has not reached yet (e.g. the tutorial was skipped) */
+  private async flushSeedDrip(): Promise<void> {
+    if (!this.archivePlayerId) return;
+    while (this.seedDripIndex < this.scenario.seedHeadlines.length) {
+      await this.insertSeedHeadline(this.seedDripIndex++);
+    }
+  }
 
-      try {
-        const result = await pool.query(
-          `INSERT INTO game_session_headlines
-            (session_id, player_id, round_no, headline_text, plausibility_level, llm_status, in_game_submitted_at)
-           VALUES ($1, $2, 1, $3, 3, 'seed', $4)
-           RETURNING id, created_at`,
-          [this.state.sessionId, this.archivePlayerId, seed.text, inGameSubmittedAt]
-        );
+  private async insertSeedHeadline(index: number): Promise<void> {
+    const seed = this.scenario.seedHeadlines[index];
+    const inGameSubmittedAt = new Date(seed.inGameYear, seed.inGameMonth - 1, 1).toISOString();
 
-        const row = result.rows[0];
-        const roomName = `session:${this.state.joinCode}`;
-
-        this.io.to(roomName).emit('headline:new', {
-          id: row.id,
-          sessionId: this.state.sessionId,
-          playerId: this.archivePlayerId,
-          playerNickname: 'Archive',
-          roundNo: 1,
-          storyDirection: seed.text,
-          text: seed.text,
-          diceRoll: null,
-          selectedBand: null,
-          plausibilityBand: 3,
-          plausibilityLabel: 'plausible',
-          planets: [],
-          allBands: null,
-          createdAt: new Date(row.created_at).toISOString(),
-          inGameSubmittedAt,
-        });
-      } catch (error) {
-        console.error(
-          `[GameLoop ${this.state.joinCode}] Failed to insert seed headline ${index}:`,
-          error
-        );
-      }
+    try {
+      const result = await pool.query(
+        `INSERT INTO game_session_headlines
+          (session_id, player_id, round_no, headline_text, plausibility_level, llm_status, in_game_submitted_at)
+         VALUES ($1, $2, 1, $3, 3, 'seed', $4)
+         RETURNING id, created_at`,
+        [this.state.sessionId, this.archivePlayerId, seed.text, inGameSubmittedAt]
+      );
 
-      index++;
-    }, intervalMs);
+      const row = result.rows[0];
+      const roomName = `session:${this.state.joinCode}`;
+
+      this.io.to(roomName).emit('headline:new', {
+        id: row.id,
+        sessionId: this.state.sessionId,
+        playerId: this.archivePlayerId,
+        playerNickname: 'Archive',
+        roundNo: 1,
+        storyDirection: seed.text,
+        text: seed.text,
+        diceRoll: null,
+        selectedBand: null,
+        plausibilityBand: 3,
+        plausibilityLabel: 'plausible',
+        planets: [],
+        allBands: null,
+        createdAt: new Date(row.created_at).toISOString(),
+        inGameSubmittedAt,
+      });
+    } catch (error) {
+      console.error(
+        `[GameLoop ${this.state.joinCode}] Failed to insert seed headline ${index}:`,
+        error
+      );
+    }
   }
 
   stop(): void {
@@ -617,25 +835,90 @@ class GameLoopInstance {
       clearTimeout(this.timerHandle);
       this.timerHandle = null;
     }
-    if (this.seedDripHandle) {
-      clearInterval(this.seedDripHandle);
-      this.seedDripHandle = null;
-    }
+    this.stopSeedDrip();
     console.log(`[GameLoop ${this.state.joinCode}] Stopped`);
   }
 }
 
+/** a game loop operation, runnable locally or on the leader instance */
+type GameLoopCommand =
+  | { type: 'start'; archivePlayerId?: string }
+  | { type: 'pause'; playerId?: string }
+  | { type: 'resume'; playerId?: string }
+  | { type: 'extend'; extendMs: number; playerId?: string }
+  | { type: 'skip' };
+
+interface GameCommandRequest {
+  sessionId: string;
+  command: GameLoopCommand;
+}
+
+/** a leader's reply to a forwarded command; other instances answer `handled: false` */
+interface GameCommandReply {
+  handled: boolean;
+  error?: { message: string; code?: string };
+}
+
 /**
- * singleton manager for all active game loops
+ * singleton manager for all active game loops.
+ *
+ * a loop only runs on the instance that leads its session. host controls that
+ * arrive elsewhere are forwarded to the leader over the socket.io adapter.
  */
 class GameLoopManager {
   private loops: Map<string, GameLoopInstance> = new Map();
   private io: Server | null = null;
+  private leadership: SessionLeadership = localLeadership;
+  private sweepTimer: NodeJS.Timeout | null = null;
 
   setSocketIO(io: Server): void {
     this.io = io;
   }
 
+  /**
+   * coordinate with other instances: take session leadership through `leadership`,
+   * answer commands forwarded by other instances, and periodically pick up running
+   * sessions that have no leader.
+   */
+  enableClustering(leadership: SessionLeadership): void {
+    if (!this.io) {
+      throw new Error('Socket.IO server not initialized in GameLoopManager');
+    }
+
+    this.leadership = leadership;
+    leadership.onLost((sessionIds) => {
+      for (const sessionId of sessionIds) {
+        const loop = this.loops.get(sessionId);
+        if (loop) {
+          loop.stop();
+          this.loops.delete(sessionId);
+          console.warn(`[GameLoopManager] Lost leadership of session ${loop.getState().joinCode}`);
+        }
+      }
+    });
+
+    this.io.on(GAME_COMMAND_EVENT, (request: GameCommandRequest, ack: (reply: GameCommandReply) => void) => {
+      this.handleForwardedCommand(request).then(ack);
+    });
+
+    this.sweepTimer = setInterval(() => {
+      this.sweepSessions().catch((err) => {
+        console.error('[GameLoopManager] Leadership sweep failed:', err);
+      });
+    }, LEADERSHIP_SWEEP_MS);
+    this.sweepTimer.unref();
+  }
+
+  /** whether this instance runs the session's game loop */
+  leadsSession(sessionId: string): boolean {
+    return this.loops.has(sessionId) && this.leadership.isLeader(sessionId);
+  }
+
+  /** ids of the sessions whose game loops run on this instance */
+  ledSessionIds(): string[] {
+    return [...this.loops.keys()].filter((sessionId) => this.leadership.isLeader(sessionId));
+  }
+
   async ensureLoopForSession(
     sessionId: string,
     joinCode: string
@@ -650,7 +933,8 @@ class GameLoopManager {
 
     // load config from database
     const result = await pool.query(
-      `SELECT id, join_code, play_minutes, break_minutes, max_rounds, timeline_speed_ratio
+      `SELECT id, join_code, play_minutes, break_minutes, max_rounds, timeline_speed_ratio,
+              break_schedule, summary_rounds, start_year, total_years
        FROM game_sessions
        WHERE id = $1`,
       [sessionId]
@@ -661,6 +945,7 @@ class GameLoopManager {
     }
 
     const row = result.rows[0];
+    const settings = settingsFromRow(row);
     const config: GameSessionConfig = {
       sessionId: row.id,
       joinCode: row.join_code,
@@ -668,6 +953,10 @@ class GameLoopManager {
       breakMinutes: row.break_minutes,
       maxRounds: row.max_rounds,
       timelineSpeedRatio: row.timeline_speed_ratio,
+      breakSchedule: settings.breakSchedule,
+      summaryRounds: settings.summaryRounds,
+      startYear: settings.startYear,
+      totalYears: settings.totalYears,
     };
 
     const loop = new GameLoopInstance(config, this.io);
@@ -679,9 +968,141 @@ class GameLoopManager {
     return loop;
   }
 
+  /**
+   * on boot, rebuild loops for sessions a previous process left mid-game
+   * and fast-forward them to where they should be now. sessions another
+   * instance already leads are left to it.
+   */
+  async resumeActiveSessions(): Promise<void> {
+    const result = await pool.query(
+      `SELECT id, join_code
+       FROM game_sessions
+       WHERE phase IN ('TUTORIAL', 'PLAYING', 'BREAK')
+         AND updated_at > NOW() - make_interval(hours => $1)`,
+      [RESUME_MAX_IDLE_HOURS]
+    );
+
+    let resumed = 0;
+    for (const row of result.rows) {
+      if (this.loops.has(row.id)) continue;
+      try {
+        if (!(await this.leadership.tryAcquire(row.id))) continue;
+        const loop = await this.ensureLoopForSession(row.id, row.join_code);
+        await loop.recover();
+        resumed++;
+      } catch (error) {
+        console.error(`[GameLoopManager] Failed to resume session ${row.join_code}:`, error);
+      }
+    }
+
+    // the leadership sweep calls this every 15s; only log when it took something over
+    if (resumed > 0) {
+      console.log(`[GameLoopManager] Resumed ${resumed} active session(s)`);
+    }
+  }
+
   async handleHostStartGame(sessionId: string, joinCode: string, archivePlayerId?: string): Promise<void> {
-    const loop = await this.ensureLoopForSession(sessionId, joinCode);
-    await loop.startGame(archivePlayerId);
+    await this.runCommand(sessionId, joinCode, { type: 'start', archivePlayerId });
+  }
+
+  async pauseGame(sessionId: string, joinCode: string, playerId?: string): Promise<void> {
+    await this.runCommand(sessionId, joinCode, { type: 'pause', playerId });
+  }
+
+  async resumeGame(sessionId: string, joinCode: string, playerId?: string): Promise<void> {
+    await this.runCommand(sessionId, joinCode, { type: 'resume', playerId });
+  }
+
+  async extendPhase(sessionId: string, joinCode: string, extendMs: number, playerId?: string): Promise<void> {
+    await this.runCommand(sessionId, joinCode, { type: 'extend', extendMs, playerId });
+  }
+
+  async skipPhase(sessionId: string, joinCode: string): Promise<void> {
+    await this.runCommand(sessionId, joinCode, { type: 'skip' });
+  }
+
+  /**
+   * run a command on this instance if it leads (or can take over) the session,
+   * otherwise on the instance that does.
+   */
+  private async runCommand(sessionId: string, joinCode: string, command: GameLoopCommand): Promise<void> {
+    const loop = await this.acquireLoop(sessionId, joinCode);
+    if (loop) {
+      await applyCommand(loop, command);
+      return;
+    }
+
+    const replies = await requestFromOtherServers<GameCommandReply>(this.io!, GAME_COMMAND_EVENT, {
+      sessionId,
+      command,
+    });
+    const reply = replies.find((r) => r?.handled);
+    if (!reply) {
+      throw new GameControlError(
+        'The server running this game is not responding, try again shortly',
+        'LEADER_UNAVAILABLE'
+      );
+    }
+    if (reply.error) {
+      throw reply.error.code
+        ? new GameControlError(reply.error.message, reply.error.code)
+        : new Error(reply.error.message);
+    }
+  }
+
+  /**
+   * the session's loop, if this instance leads the session or can become its
+   * leader. a loop taken over mid-game is first caught up like after a restart.
+   */
+  private async acquireLoop(sessionId: string, joinCode: string): Promise<GameLoopInstance | null> {
+    const existing = this.loops.get(sessionId);
+    if (existing) {
+      return existing;
+    }
+
+    if (!(await this.leadership.tryAcquire(sessionId))) {
+      return null;
+    }
+
+    try {
+      const loop = await this.ensureLoopForSession(sessionId, joinCode);
+      if (RUNNING_PHASES.includes(loop.getState().phase)) {
+        await loop.recover();
+      }
+      return loop;
+    } catch (error) {
+      this.loops.delete(sessionId);
+      await this.leadership.release(sessionId);
+      throw error;
+    }
+  }
+
+  private async handleForwardedCommand(request: GameCommandRequest): Promise<GameCommandReply> {
+    const loop = this.loops.get(request.sessionId);
+    if (!loop) {
+      return { handled: false };
+    }
+
+    try {
+      await applyCommand(loop, request.command);
+      return { handled: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const code = error instanceof GameControlError ? error.code : undefined;
+      return { handled: true, error: { message, code } };
+    }
+  }
+
+  /**
+   * hand back finished sessions and take over running sessions nobody leads.
+   */
+  private async sweepSessions(): Promise<void> {
+    for (const [sessionId, loop] of this.loops) {
+      if (loop.getState().phase === 'FINISHED') {
+        this.stopLoop(sessionId);
+      }
+    }
+    await this.resumeActiveSessions();
   }
 
   stopLoop(sessionId: string): void {
@@ -689,16 +1110,43 @@ class GameLoopManager {
     if (loop) {
       loop.stop();
       this.loops.delete(sessionId);
+      this.releaseLeadership(sessionId);
     }
   }
 
   stopAll(): void {
-    for (const loop of this.loops.values()) {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+    for (const [sessionId, loop] of this.loops) {
       loop.stop();
+      this.releaseLeadership(sessionId);
     }
     this.loops.clear();
     console.log('[GameLoopManager] Stopped all loops');
   }
+
+  private releaseLeadership(sessionId: string): void {
+    this.leadership.release(sessionId).catch((err) => {
+      console.error(`[GameLoopManager] Failed to release leadership of ${sessionId}:`, err);
+    });
+  }
+}
+
+async function applyCommand(loop: GameLoopInstance, command: GameLoopCommand): Promise<void> {
+  switch (command.type) {
+    case 'start':
+      return loop.startGame(command.archivePlayerId);
+    case 'pause':
+      return loop.pause(command.playerId);
+    case 'resume':
+      return loop.resume(command.playerId);
+    case 'extend':
+      return loop.extendPhase(command.extendMs, command.playerId);
+    case 'skip':
+      return loop.skipPhase();
+  }
 }
 
 export const gameLoopManager = new GameLoopManager();
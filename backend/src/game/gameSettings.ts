@@ -0,0 +1,83 @@
+/**
+ * host-configurable game settings chosen at session creation.
+ * defaults reproduce the classic format: 4 rounds of 8 minutes, breaks of
+ * 3/5/3 minutes with a single summary after round 2, spanning 20 in-game years.
+ */
+export interface GameSettings {
+  maxRounds: number;
+  playMinutes: number;
+  /** break durations in minutes, indexed by the round just completed (length maxRounds - 1) */
+  breakSchedule: number[];
+  /** rounds whose following break generates a summary */
+  summaryRounds: number[];
+  /** in-game year the timeline starts at; null means the real date the first round begins */
+  startYear: number | null;
+  totalYears: number;
+}
+
+export const DEFAULT_GAME_SETTINGS: GameSettings = {
+  maxRounds: 4,
+  playMinutes: 8,
+  breakSchedule: [3, 5, 3],
+  summaryRounds: [2],
+  startYear: null,
+  totalYears: 20,
+};
+
+/** break length used when a session has more breaks than configured durations */
+export const FALLBACK_BREAK_MINUTES = 3;
+
+/**
+ * fill in defaults for any settings the host left out.
+ * the default break schedule and summary rounds are trimmed or padded to fit
+ * the chosen round count, so a 6-round game still gets a break after every
+ * non-final round.
+ */
+export function resolveGameSettings(partial: Partial<GameSettings> = {}): GameSettings {
+  const maxRounds = partial.maxRounds ?? DEFAULT_GAME_SETTINGS.maxRounds;
+  const breakCount = Math.max(0, maxRounds - 1);
+
+  const breakSchedule =
+    partial.breakSchedule ??
+    Array.from(
+      { length: breakCount },
+      (_, i) => DEFAULT_GAME_SETTINGS.breakSchedule[i] ?? FALLBACK_BREAK_MINUTES
+    );
+
+  const summaryRounds = [
+    ...new Set(partial.summaryRounds ?? DEFAULT_GAME_SETTINGS.summaryRounds),
+  ]
+    .filter((r) => r >= 1 && r <= breakCount)
+    .sort((a, b) => a - b);
+
+  return {
+    maxRounds,
+    playMinutes: partial.playMinutes ?? DEFAULT_GAME_SETTINGS.playMinutes,
+    breakSchedule,
+    summaryRounds,
+    startYear: partial.startYear !== undefined ? partial.startYear : DEFAULT_GAME_SETTINGS.startYear,
+    totalYears: partial.totalYears ?? DEFAULT_GAME_SETTINGS.totalYears,
+  };
+}
+
+/**
+ * read settings back from a game_sessions row, tolerating rows created
+ * before the settings columns existed.
+ */
+export function settingsFromRow(row: {
+  max_rounds: number;
+  play_minutes: number;
+  break_schedule?: number[] | null;
+  summary_rounds?: number[] | null;
+  start_year?: number | null;
+  total_years?: number | null;
+}): GameSettings {
+  return resolveGameSettings({
+    maxRounds: row.max_rounds,
+    playMinutes: row.play_minutes,
+    breakSchedule: row.break_schedule ?? undefined,
+    summaryRounds: row.summary_rounds ?? undefined,
+    startYear: row.start_year ?? null,
+    totalYears: row.total_years ?? undefined,
+  });
+}
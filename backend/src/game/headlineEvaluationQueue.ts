@@ -0,0 +1,280 @@
+/**
+ * background juror evaluation of submitted headlines.
+ *
+ * headline:submit stores a pending row and hands it here, so the submitter is not
+ * kept waiting on the llm round-trip. evaluations run one at a time per session,
+ * in submission order, so each headline is judged against a timeline that already
+ * contains everything submitted before it. sessions are independent of each other.
+ * with several instances, a session's headlines are evaluated on the instance that
+ * leads it, so they still share one queue.
+ */
+
+import { Server } from 'socket.io';
+import { transformHeadline, TransformationResult } from './headlineTransformationService.js';
+import { PlanetEntry } from '../llm/jurorPrompt.js';
+import { ScenarioTopic } from '../llm/scenarioTopic.js';
+import {
+  fetchJurorContext,
+  storeEvaluation,
+  recordFailedEvaluation,
+  buildHeadlineEvent,
+  scoreHeadline,
+} from './headlineEvaluationService.js';
+import { requestFromOtherServers } from '../cluster/serverRequests.js';
+import { ModerationStrictness } from '../moderation/moderationProvider.js';
+import { contentModeration } from './contentModeration.js';
+import { HeadlineModerationStatus } from './headlineFeed.js';
+import { sessionPromptVariant } from './promptExperiments.js';
+import { sessionDiceRoll } from './diceAudit.js';
+import { PlausibilityLevel } from './scoringTypes.js';
+
+/** server-side event handing a submission to the instance that evaluates its session */
+const EVALUATE_EVENT = 'headline:evaluate';
+
+export interface QueuedHeadline {
+  id: string;
+  sessionId: string;
+  joinCode: string;
+  playerId: string;
+  playerNickname: string;
+  roundNo: number;
+  storyDirection: string;
+  /** the session's planets, as the juror sees them */
+  planetList: PlanetEntry[];
+  /** what the session's game is about */
+  topic: ScenarioTopic;
+  /** how strictly the generated bands are checked */
+  moderationStrictness: ModerationStrictness;
+  /** moderation status of the story direction when it was queued */
+  moderationStatus: HeadlineModerationStatus;
+  /** the band bet on in risk mode */
+  targetBand?: PlausibilityLevel | null;
+  /** evaluations already attempted (0 for a fresh submission) */
+  llmAttempts: number;
+  createdAt: Date;
+  inGameSubmittedAt: Date | null;
+}
+
+class HeadlineEvaluationQueue {
+  private io: Server | null = null;
+  /** last evaluation queued per session; the next one chains onto it */
+  private tails: Map<string, Promise<boolean>> = new Map();
+  /** headline ids queued or in flight, so a headline is never evaluated twice at once */
+  private queued: Set<string> = new Set();
+  /** set when clustered: whether this instance evaluates a session's headlines */
+  private ownsSession: ((sessionId: string) => boolean) | null = null;
+  /** set when clustered: the sessions this instance evaluates */
+  private ownedSessions: (() => string[]) | null = null;
+
+  setSocketIO(io: Server): void {
+    this.io = io;
+  }
+
+  /**
+   * evaluate only the sessions `ownsSession` accepts, and take submissions
+   * for them from other instances. `ownedSessions` lists the same sessions,
+   * for the re-evaluation queue to poll.
+   */
+  enableClustering(
+    ownsSession: (sessionId: string) => boolean,
+    ownedSessions: () => string[]
+  ): void {
+    if (!this.io) {
+      throw new Error('Socket.IO server not initialized in HeadlineEvaluationQueue');
+    }
+
+    this.ownsSession = ownsSession;
+    this.ownedSessions = ownedSessions;
+    this.io.on(EVALUATE_EVENT, (headline: QueuedHeadline, ack: (accepted: boolean) => void) => {
+      if (!ownsSession(headline.sessionId)) {
+        ack(false);
+        return;
+      }
+      // dates arrive as strings after the trip between instances
+      this.enqueue({
+        ...headline,
+        createdAt: new Date(headline.createdAt),
+        inGameSubmittedAt: headline.inGameSubmittedAt ? new Date(headline.inGameSubmittedAt) : null,
+      });
+      ack(true);
+    });
+  }
+
+  /** whether this instance evaluates the session's headlines */
+  evaluatesSession(sessionId: string): boolean {
+    return !this.ownsSession || this.ownsSession(sessionId);
+  }
+
+  /** ids of the sessions this instance evaluates, or null for every session */
+  evaluatedSessions(): string[] | null {
+    return this.ownedSessions ? this.ownedSessions() : null;
+  }
+
+  /**
+   * queue a new submission on the instance that evaluates its session.
+   */
+  async submit(headline: QueuedHeadline): Promise<void> {
+    if (this.evaluatesSession(headline.sessionId)) {
+      this.enqueue(headline);
+      return;
+    }
+
+    const replies = await requestFromOtherServers<boolean>(this.io!, EVALUATE_EVENT, headline);
+    if (!replies.some(Boolean)) {
+      // no instance leads the session right now: evaluate here rather than wait
+      this.enqueue(headline);
+    }
+  }
+
+  isQueued(headlineId: string): boolean {
+    return this.queued.has(headlineId);
+  }
+
+  /**
+   * queue a headline behind earlier ones from the same session.
+   *
+   * @returns resolves once the headline has been processed: true if it was
+   *   evaluated, false if the juror failed (or it was already queued)
+   */
+  enqueue(headline: QueuedHeadline): Promise<boolean> {
+    if (this.queued.has(headline.id)) {
+      return Promise.resolve(false);
+    }
+    this.queued.add(headline.id);
+
+    const previous = this.tails.get(headline.sessionId) ?? Promise.resolve(true);
+    const run = previous
+      .then(() => this.evaluate(headline))
+      .catch((err) => {
+        console.error(`Error evaluating headline ${headline.id}:`, err);
+        return false;
+      })
+      .finally(() => {
+        this.queued.delete(headline.id);
+        if (this.tails.get(headline.sessionId) === run) {
+          this.tails.delete(headline.sessionId);
+        }
+      });
+
+    this.tails.set(headline.sessionId, run);
+    return run;
+  }
+
+  /**
+   * wait until every evaluation queued so far for a session has finished.
+   */
+  async drain(sessionId: string): Promise<void> {
+    let tail = this.tails.get(sessionId);
+    while (tail) {
+      await tail;
+      tail = this.tails.get(sessionId);
+    }
+  }
+
+  private async evaluate(headline: QueuedHeadline): Promise<boolean> {
+    if (!this.io) {
+      throw new Error('Socket.IO server not initialized in HeadlineEvaluationQueue');
+    }
+    const io = this.io;
+
+    const row = {
+      id: headline.id,
+      created_at: headline.createdAt,
+      in_game_submitted_at: headline.inGameSubmittedAt,
+    };
+    const submission = {
+      sessionId: headline.sessionId,
+      playerId: headline.playerId,
+      playerNickname: headline.playerNickname,
+      roundNo: headline.roundNo,
+      storyDirection: headline.storyDirection,
+      inGameNow: null,
+      targetBand: headline.targetBand ?? null,
+    };
+    const roomName = `session:${headline.joinCode}`;
+    const session = { id: headline.sessionId, joinCode: headline.joinCode };
+
+    // the juror already retries transient failures and repairs invalid output,
+    // so an error here means it is down: keep the headline and retry later
+    let transformResult: TransformationResult;
+    try {
+      const headlinesList = await fetchJurorContext(headline.sessionId, headline.createdAt);
+      transformResult = await transformHeadline({
+        storyDirection: headline.storyDirection,
+        headlinesList,
+        planetList: headline.planetList,
+        topic: headline.topic,
+        promptVariant: await sessionPromptVariant(headline.sessionId, 'juror', headline.id),
+        sessionId: headline.sessionId,
+        headlineId: headline.id,
+        diceRoll: await sessionDiceRoll(headline.sessionId, headline.id),
+      });
+    } catch (err) {
+      const attempts = headline.llmAttempts + 1;
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      console.warn(`Evaluation ${attempts} of headline ${headline.id} failed: ${errorMessage}`);
+      const recorded = await recordFailedEvaluation(headline.id, attempts, errorMessage);
+
+      // tell clients the first attempt failed; later failures change nothing they show
+      if (recorded && headline.llmAttempts === 0) {
+        const audience = await contentModeration.headlineAudience(
+          session,
+          headline.playerId,
+          headline.moderationStatus
+        );
+        io.to(audience).emit(
+          'headline:evaluated',
+          buildHeadlineEvent(row, submission, null, 'failed', headline.moderationStatus)
+        );
+      }
+      return false;
+    }
+
+    if (!(await storeEvaluation(headline.id, transformResult))) {
+      // an earlier evaluation of this headline finished first and has been scored
+      console.warn(`Headline ${headline.id} was already evaluated; discarding the later evaluation`);
+      return false;
+    }
+
+    // the juror's five bands are published too, so all of them are checked
+    const moderationStatus = await contentModeration.checkGeneratedHeadlines(
+      headline.id,
+      Object.values(transformResult.allBands),
+      headline.moderationStrictness
+    );
+    const audience = await contentModeration.headlineAudience(
+      session,
+      headline.playerId,
+      moderationStatus
+    );
+    io.to(audience).emit(
+      'headline:evaluated',
+      buildHeadlineEvent(row, submission, transformResult, 'evaluated', moderationStatus)
+    );
+
+    console.log(
+      `Headline evaluated for ${headline.playerNickname} in session ${headline.joinCode} ` +
+      `(round ${headline.roundNo}, dice: ${transformResult.diceRoll}, selected band: ${transformResult.selectedBand}, ` +
+      `plausibility: ${transformResult.plausibility.band} (${transformResult.plausibility.label}))\n` +
+      `  Band 1 (inevitable): ${transformResult.allBands.band1}\n` +
+      `  Band 2 (probable):   ${transformResult.allBands.band2}\n` +
+      `  Band 3 (plausible):  ${transformResult.allBands.band3}\n` +
+      `  Band 4 (possible):   ${transformResult.allBands.band4}\n` +
+      `  Band 5 (prepost.):   ${transformResult.allBands.band5}\n` +
+      `  >> Selected:         ${transformResult.selectedHeadline}`
+    );
+
+    await scoreHeadline(io, roomName, {
+      sessionId: headline.sessionId,
+      playerId: headline.playerId,
+      playerNickname: headline.playerNickname,
+      headlineId: headline.id,
+      roundNo: headline.roundNo,
+      result: transformResult,
+    });
+
+    return true;
+  }
+}
+
+export const headlineEvaluationQueue = new HeadlineEvaluationQueue();
@@ -0,0 +1,420 @@
+/**
+ * headline evaluation persistence and scoring.
+ * shared by the headline:submit handler and the background evaluation queues:
+ * builds juror context, stores pending headlines and transformation results,
+ * scores a headline and broadcasts the updated leaderboard.
+ */
+
+import { Server } from 'socket.io';
+import pool from '../db/pool.js';
+import { HeadlineEntry, LinkedHeadline } from '../llm/jurorPrompt.js';
+import { TransformationResult } from './headlineTransformationService.js';
+import { DICE_ALGORITHM } from './diceRoll.js';
+import { applyHeadlineEvaluation, getPlayerScoreBreakdowns } from './scoringService.js';
+import { HeadlineScoreBreakdown, PlausibilityLevel, PlayerScoreEntry } from './scoringTypes.js';
+import { SEED_HEADLINES } from './seedHeadlines.js';
+import { HeadlineModerationStatus } from './headlineFeed.js';
+import { computeTeamLeaderboard, EMPTY_SCORE_BREAKDOWN } from './teams.js';
+
+// the juror only sees the most recent N headlines (rolling window) when judging
+// plausibility, linking connections, and drafting variations. N = the number of
+// archive/seed headlines in the session's scenario, so old context drops off as
+// the timeline grows. sessions from before scenario packs play the built-in AI
+// seeds, so they get the default.
+export const DEFAULT_JUROR_HISTORY_WINDOW = SEED_HEADLINES.length;
+
+/** juror evaluation state of a player headline */
+export type HeadlineLLMStatus = 'pending' | 'evaluated' | 'failed';
+
+/**
+ * how long a pending headline may wait before the re-evaluation queue treats it
+ * as orphaned (e.g. by a restart) and evaluates it itself
+ */
+const PENDING_LEASE_MS = 2 * 60_000;
+
+/** delay before the first background re-evaluation of a failed headline */
+const REEVALUATION_BASE_DELAY_MS = 30_000;
+/** upper bound on the re-evaluation backoff */
+const REEVALUATION_MAX_DELAY_MS = 5 * 60_000;
+
+/**
+ * backoff before the next re-evaluation, given how many attempts have failed so far.
+ */
+export function reevaluationDelayMs(failedAttempts: number): number {
+  return Math.min(
+    REEVALUATION_BASE_DELAY_MS * 2 ** Math.max(0, failedAttempts - 1),
+    REEVALUATION_MAX_DELAY_MS
+  );
+}
+
+/**
+ * fetch the most recent N headlines for juror context (rolling window),
+ * then restore chronological order so the prompt reads oldest -> newest.
+ * `before` limits the window to headlines created earlier, for re-evaluating
+ * a headline against the timeline it was submitted into. only approved headlines
+ * count: the juror never sees (or echoes) what the host hid or hasn't reviewed.
+ */
+export async function fetchJurorContext(
+  sessionId: string,
+  before?: Date
+): Promise<HeadlineEntry[]> {
+  const sessionResult = await pool.query(
+    `SELECT CASE WHEN jsonb_typeof(scenario->'seedHeadlines') = 'array'
+                 THEN jsonb_array_length(scenario->'seedHeadlines') END AS seed_count
+     FROM game_sessions
+     WHERE id = $1`,
+    [sessionId]
+  );
+  const window = sessionResult.rows[0]?.seed_count ?? DEFAULT_JUROR_HISTORY_WINDOW;
+
+  const params: unknown[] = [sessionId, window];
+  if (before) {
+    params.push(before);
+  }
+
+  const result = await pool.query(
+    `SELECT id, text FROM (
+       SELECT id, COALESCE(selected_headline, headline_text) AS text, created_at
+       FROM game_session_headlines
+       WHERE session_id = $1 AND moderation_status = 'approved'${before ? ' AND created_at < $3' : ''}
+       ORDER BY created_at DESC
+       LIMIT $2
+     ) recent
+     ORDER BY created_at ASC`,
+    params
+  );
+
+  return result.rows.map((row) => ({
+    id: row.id,
+    text: row.text,
+  }));
+}
+
+/** the other authors a headline's strong connections reach */
+export interface ConnectionAuthors {
+  /** distinct other authors that score, capped at 3 */
+  uniqueOtherAuthors: number;
+  /** distinct teammates linked to, which don't score in a team game */
+  teammates: number;
+}
+
+/**
+ * count unique other authors from STRONG linked headlines using db lookup.
+ *
+ * looks at only strong connections, finds who wrote each linked headline,
+ * and counts how many distinct other players (not the submitter) are represented.
+ * in a team game only authors on another team count: linking your own table's
+ * headlines is easy, reaching across tables is what connection points reward.
+ *
+ * @param linkedHeadlines - array of linked headlines from llm
+ * @param sessionId - session id to query db for headline owners
+ * @param currentPlayerId - the player who submitted the headline
+ * @returns unique scoring authors (0-3) and the teammates left out
+ */
+export async function deriveUniqueOtherAuthorCount(
+  linkedHeadlines: LinkedHeadline[],
+  sessionId: string,
+  currentPlayerId: string
+): Promise<ConnectionAuthors> {
+  // filter to STRONG connections only
+  const strongConnections = linkedHeadlines.filter((h) => h.strength === 'STRONG');
+
+  if (strongConnections.length === 0) {
+    return { uniqueOtherAuthors: 0, teammates: 0 };
+  }
+
+  const headlineTexts = strongConnections.map((h) => h.headline);
+
+  try {
+    // query db to find the player_id (and their team) for each linked headline
+    const result = await pool.query(
+      `SELECT h.player_id, COALESCE(h.selected_headline, h.headline_text) as text, p.team,
+              (SELECT team FROM session_players WHERE id = $3) as own_team
+       FROM game_session_headlines h
+       LEFT JOIN session_players p ON p.id = h.player_id
+       WHERE h.session_id = $1
+         AND COALESCE(h.selected_headline, h.headline_text) = ANY($2)`,
+      [sessionId, headlineTexts, currentPlayerId]
+    );
+
+    // collect unique other player ids, setting teammates aside
+    const otherAuthors = new Set<string>();
+    const teammates = new Set<string>();
+    for (const row of result.rows) {
+      if (row.player_id === currentPlayerId) continue;
+      if (row.own_team && row.team === row.own_team) {
+        teammates.add(row.player_id);
+      } else {
+        otherAuthors.add(row.player_id);
+      }
+    }
+
+    return { uniqueOtherAuthors: Math.min(otherAuthors.size, 3), teammates: teammates.size };
+  } catch (error) {
+    console.error('Error querying headline owners for connection scoring:', error);
+    return { uniqueOtherAuthors: 0, teammates: 0 };
+  }
+}
+
+export interface HeadlineSubmission {
+  sessionId: string;
+  playerId: string;
+  roundNo: number;
+  storyDirection: string;
+  inGameNow: string | null;
+  /** the band bet on in risk mode */
+  targetBand?: PlausibilityLevel | null;
+}
+
+/** the transformation columns, in update parameter order */
+function transformationParams(result: TransformationResult): unknown[] {
+  return [
+    result.diceRoll,
+    result.selectedBand,
+    result.selectedHeadline,
+    result.allBands.band1,
+    result.allBands.band2,
+    result.allBands.band3,
+    result.allBands.band4,
+    result.allBands.band5,
+    result.plausibility.band,
+    result.plausibility.rationale,
+    result.planets.top3[0]?.id,
+    result.planets.top3[1]?.id,
+    result.planets.top3[2]?.id,
+    JSON.stringify(result.linked),
+    JSON.stringify(result.planets.top3),
+    result.model,
+    result.usage?.inputTokens,
+    result.usage?.outputTokens,
+    JSON.stringify(result.llmRequest),
+    result.llmResponse,
+    result.promptVersion,
+  ];
+}
+
+/**
+ * store a submission ahead of its evaluation. the row is leased to the
+ * evaluation queue until next_evaluation_at. it takes the session's next dice
+ * sequence number, which its roll is derived from in a seeded session.
+ */
+export async function insertPendingHeadline(
+  submission: HeadlineSubmission,
+  moderation: { status: HeadlineModerationStatus; reason: string | null } = {
+    status: 'approved',
+    reason: null,
+  }
+): Promise<{ id: string; created_at: Date; in_game_submitted_at: Date | null }> {
+  const insertResult = await pool.query(
+    `WITH dice AS (
+      UPDATE game_sessions SET dice_rolls = dice_rolls + 1
+      WHERE id = $1
+      RETURNING dice_rolls, dice_seed IS NOT NULL AS seeded
+    )
+    INSERT INTO game_session_headlines (
+      session_id, player_id, round_no, headline_text,
+      llm_status, next_evaluation_at, in_game_submitted_at,
+      moderation_status, moderation_reason, dice_sequence, dice_algorithm, dice_target_band
+    ) VALUES (
+      $1, $2, $3, $4,
+      'pending', NOW() + make_interval(secs => $5), $6,
+      $7, $8,
+      (SELECT dice_rolls FROM dice),
+      (SELECT CASE WHEN seeded THEN $9::varchar END FROM dice),
+      $10
+    )
+    RETURNING id, created_at, in_game_submitted_at`,
+    [
+      submission.sessionId,
+      submission.playerId,
+      submission.roundNo,
+      submission.storyDirection,
+      PENDING_LEASE_MS / 1000,
+      submission.inGameNow,
+      moderation.status,
+      moderation.reason,
+      DICE_ALGORITHM,
+      submission.targetBand ?? null,
+    ]
+  );
+
+  return insertResult.rows[0];
+}
+
+/**
+ * store a successful evaluation on a pending or previously failed headline.
+ * a headline that is already evaluated is left as it is: a stale evaluation
+ * (e.g. one picked up again after its lease ran out) must not replace the dice
+ * roll and bands that were broadcast and scored.
+ *
+ * @returns false if the headline was already evaluated
+ */
+export async function storeEvaluation(
+  headlineId: string,
+  result: TransformationResult
+): Promise<boolean> {
+  const updateResult = await pool.query(
+    `UPDATE game_session_headlines
+     SET dice_roll = $1, selected_band = $2, selected_headline = $3,
+         band1_headline = $4, band2_headline = $5, band3_headline = $6,
+         band4_headline = $7, band5_headline = $8,
+         plausibility_level = $9, plausibility_rationale = $10,
+         planet_1 = $11, planet_2 = $12, planet_3 = $13,
+         linked_headlines = $14, planet_rationales = $15,
+         llm_model = $16, llm_input_tokens = $17, llm_output_tokens = $18,
+         llm_request = $19, llm_response = $20, prompt_version = $21,
+         llm_status = 'evaluated', llm_attempts = llm_attempts + 1,
+         llm_error = NULL, next_evaluation_at = NULL
+     WHERE id = $22 AND llm_status <> 'evaluated'`,
+    [...transformationParams(result), headlineId]
+  );
+
+  return (updateResult.rowCount ?? 0) > 0;
+}
+
+/**
+ * record a failed evaluation and schedule the next attempt.
+ * an evaluated headline stays evaluated.
+ *
+ * @returns false if the headline was already evaluated
+ */
+export async function recordFailedEvaluation(
+  headlineId: string,
+  failedAttempts: number,
+  errorMessage: string
+): Promise<boolean> {
+  const updateResult = await pool.query(
+    `UPDATE game_session_headlines
+     SET llm_status = 'failed', llm_attempts = $1, llm_error = $2,
+         next_evaluation_at = NOW() + make_interval(secs => $3)
+     WHERE id = $4 AND llm_status <> 'evaluated'`,
+    [failedAttempts, errorMessage, reevaluationDelayMs(failedAttempts) / 1000, headlineId]
+  );
+
+  return (updateResult.rowCount ?? 0) > 0;
+}
+
+/**
+ * headline payload broadcast on headline:pending / headline:evaluated.
+ * pending and failed headlines carry the story direction as their text until evaluated.
+ * flagged headlines only go to their author and the host.
+ */
+export function buildHeadlineEvent(
+  row: { id: string; created_at: Date; in_game_submitted_at: Date | null },
+  submission: HeadlineSubmission & { playerNickname: string },
+  result: TransformationResult | null,
+  llmStatus: HeadlineLLMStatus = result ? 'evaluated' : 'failed',
+  moderationStatus: HeadlineModerationStatus = 'approved'
+) {
+  return {
+    id: row.id,
+    sessionId: submission.sessionId,
+    playerId: submission.playerId,
+    playerNickname: submission.playerNickname,
+    roundNo: submission.roundNo,
+    storyDirection: submission.storyDirection,
+    text: result ? result.selectedHeadline : submission.storyDirection,
+    diceRoll: result?.diceRoll ?? null,
+    selectedBand: result?.selectedBand ?? null,
+    targetBand: submission.targetBand ?? null,
+    plausibilityBand: result?.plausibility.band ?? null,
+    plausibilityLabel: result?.plausibility.label ?? null,
+    planets: result ? result.planets.top3.map((p) => p.id) : [],
+    allBands: result?.allBands ?? null,
+    llmStatus,
+    moderationStatus,
+    createdAt: new Date(row.created_at).toISOString(),
+    inGameSubmittedAt: row.in_game_submitted_at
+      ? new Date(row.in_game_submitted_at).toISOString()
+      : null,
+  };
+}
+
+/**
+ * broadcast leaderboard:update with each player's score breakdown, and in a
+ * team game the team totals. lastScoredHeadline lets clients patch that
+ * headline's score in the feed.
+ */
+export async function emitLeaderboardUpdate(
+  io: Server,
+  roomName: string,
+  sessionId: string,
+  leaderboard: PlayerScoreEntry[],
+  lastScoredHeadline?: {
+    headlineId: string;
+    playerId: string;
+    breakdown: HeadlineScoreBreakdown;
+    newTotalScore: number;
+  }
+): Promise<void> {
+  const updatedBreakdowns = await getPlayerScoreBreakdowns(sessionId);
+  const teams = computeTeamLeaderboard(leaderboard, updatedBreakdowns);
+
+  io.to(roomName).emit('leaderboard:update', {
+    leaderboard: leaderboard.map((entry) => ({
+      ...entry,
+      scoreBreakdown: updatedBreakdowns.get(entry.playerId) ?? EMPTY_SCORE_BREAKDOWN,
+    })),
+    ...(teams.length > 0 && { teams }),
+    ...(lastScoredHeadline && { lastScoredHeadline }),
+  });
+}
+
+/**
+ * score an evaluated headline and broadcast the updated leaderboard.
+ * scoring failures are logged, never thrown: the headline itself is already stored.
+ */
+export async function scoreHeadline(
+  io: Server,
+  roomName: string,
+  params: {
+    sessionId: string;
+    playerId: string;
+    playerNickname: string;
+    headlineId: string;
+    roundNo: number;
+    result: TransformationResult;
+  }
+): Promise<void> {
+  const { sessionId, playerId, playerNickname, headlineId, roundNo, result } = params;
+
+  try {
+    const { uniqueOtherAuthors, teammates } = await deriveUniqueOtherAuthorCount(
+      result.linked,
+      sessionId,
+      playerId
+    );
+
+    const scoringResult = await applyHeadlineEvaluation({
+      sessionId,
+      playerId,
+      headlineId,
+      plausibilityLevel: result.plausibility.band as PlausibilityLevel,
+      selectedBand: result.selectedBand as PlausibilityLevel,
+      uniqueOtherAuthors,
+      aiPlanetRankings: result.planets.top3.map((p) => p.id),
+      roundNo,
+    });
+
+    await emitLeaderboardUpdate(io, roomName, sessionId, scoringResult.leaderboard, {
+      headlineId,
+      playerId,
+      breakdown: scoringResult.breakdown,
+      newTotalScore: scoringResult.newTotalScore,
+    });
+
+    console.log(
+      `Scoring for ${playerNickname}: ` +
+      `baseline=${scoringResult.breakdown.baseline} + ` +
+      `plausibility=${scoringResult.breakdown.plausibility} (band ${result.plausibility.band}) + ` +
+      `connection=${scoringResult.breakdown.connectionScore} (${uniqueOtherAuthors} unique others` +
+      `${teammates > 0 ? `, ${teammates} teammates not counted` : ''}) + ` +
+      `planet=${scoringResult.breakdown.planetBonus} + ` +
+      `risk=${scoringResult.breakdown.riskBonus} ` +
+      `= +${scoringResult.breakdown.total} pts (total: ${scoringResult.newTotalScore})`
+    );
+  } catch (scoringError) {
+    console.error('Error applying scoring:', scoringError);
+    // don't fail the headline submission if scoring fails
+  }
+}
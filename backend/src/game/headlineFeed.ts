@@ -0,0 +1,183 @@
+/**
+ * headline feed rows as clients see them, shared by headline:get_feed,
+ * the host's review queue and the headline:approved broadcast.
+ */
+
+import type { QueryResultRow } from 'pg';
+import pool from '../db/pool.js';
+import { toVoteTally, VoteKind, VoteTally } from './headlineVoting.js';
+
+/** a headline approved for everyone, waiting for host review, or hidden by the host */
+export type HeadlineModerationStatus = 'approved' | 'flagged' | 'hidden';
+
+export interface FeedHeadline {
+  id: string;
+  sessionId: string;
+  playerId: string;
+  playerNickname: string;
+  roundNo: number;
+  storyDirection: string;
+  text: string;
+  diceRoll: number | null;
+  selectedBand: number | null;
+  /** the band bet on in risk mode */
+  targetBand: number | null;
+  plausibilityBand: number | null;
+  planets: string[];
+  allBands: { band1: string; band2: string; band3: string; band4: string; band5: string } | null;
+  baselineScore: number | null;
+  plausibilityScore: number | null;
+  connectionScore: number | null;
+  planetBonusScore: number | null;
+  riskBonusScore: number | null;
+  totalScore: number | null;
+  llmStatus: string | null;
+  moderationStatus: HeadlineModerationStatus;
+  moderationReason: string | null;
+  createdAt: string;
+  inGameSubmittedAt: string | null;
+  /** other players' votes from the break after its round */
+  votes: VoteTally;
+  /** the viewer's own vote on it, null when not voted or not asked for a viewer */
+  myVote: VoteKind | null;
+}
+
+export interface FeedQuery {
+  roundNo?: number;
+  headlineId?: string;
+  moderationStatus?: HeadlineModerationStatus;
+  /**
+   * only what this player may see: approved headlines plus their own.
+   * the host sees everything. omit for server-side callers.
+   */
+  visibleTo?: { playerId: string | null; isHost: boolean };
+}
+
+function toFeedHeadline(row: QueryResultRow): FeedHeadline {
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    playerId: row.player_id,
+    playerNickname: row.player_nickname,
+    roundNo: row.round_no,
+    storyDirection: row.story_direction,
+    text: row.text,
+    diceRoll: row.dice_roll,
+    selectedBand: row.selected_band,
+    targetBand: row.dice_target_band ?? null,
+    plausibilityBand: row.plausibility_level,
+    planets: [row.planet_1, row.planet_2, row.planet_3].filter(Boolean),
+    allBands: row.band1_headline ? {
+      band1: row.band1_headline,
+      band2: row.band2_headline,
+      band3: row.band3_headline,
+      band4: row.band4_headline,
+      band5: row.band5_headline,
+    } : null,
+    baselineScore: row.baseline_score ?? null,
+    plausibilityScore: row.plausibility_score ?? null,
+    connectionScore: row.others_story_score ?? null,
+    planetBonusScore: row.planet_bonus_score ?? null,
+    riskBonusScore: row.risk_bonus_score ?? null,
+    totalScore: row.total_headline_score ?? null,
+    llmStatus: row.llm_status ?? null,
+    moderationStatus: row.moderation_status ?? 'approved',
+    moderationReason: row.moderation_reason ?? null,
+    createdAt: new Date(row.created_at).toISOString(),
+    inGameSubmittedAt: row.in_game_submitted_at
+      ? new Date(row.in_game_submitted_at).toISOString()
+      : null,
+    votes: toVoteTally(row),
+    myVote: row.my_vote ?? null,
+  };
+}
+
+/**
+ * a session's headlines in submission order.
+ */
+export async function fetchFeedHeadlines(
+  sessionId: string,
+  options: FeedQuery = {}
+): Promise<FeedHeadline[]> {
+  let conditions = `WHERE h.session_id = $1`;
+  const params: unknown[] = [sessionId];
+
+  if (options.roundNo !== undefined) {
+    params.push(options.roundNo);
+    conditions += ` AND h.round_no = $${params.length}`;
+  }
+  if (options.headlineId !== undefined) {
+    params.push(options.headlineId);
+    conditions += ` AND h.id = $${params.length}`;
+  }
+  if (options.moderationStatus !== undefined) {
+    params.push(options.moderationStatus);
+    conditions += ` AND h.moderation_status = $${params.length}`;
+  }
+  let myVote = 'NULL';
+  if (options.visibleTo?.playerId) {
+    params.push(options.visibleTo.playerId);
+    myVote = `(SELECT mv.kind FROM headline_votes mv WHERE mv.headline_id = h.id AND mv.voter_id = $${params.length})`;
+  }
+  if (options.visibleTo && !options.visibleTo.isHost) {
+    if (options.visibleTo.playerId) {
+      conditions += ` AND (h.moderation_status = 'approved' OR h.player_id = $${params.length})`;
+    } else {
+      conditions += ` AND h.moderation_status = 'approved'`;
+    }
+  }
+
+  const query = `
+    SELECT
+      h.id,
+      h.session_id,
+      h.player_id,
+      p.nickname as player_nickname,
+      h.round_no,
+      h.headline_text as story_direction,
+      COALESCE(h.selected_headline, h.headline_text) as text,
+      h.dice_roll,
+      h.selected_band,
+      h.dice_target_band,
+      h.plausibility_level,
+      h.planet_1,
+      h.planet_2,
+      h.planet_3,
+      h.band1_headline,
+      h.band2_headline,
+      h.band3_headline,
+      h.band4_headline,
+      h.band5_headline,
+      h.baseline_score,
+      h.plausibility_score,
+      h.others_story_score,
+      h.planet_bonus_score,
+      h.risk_bonus_score,
+      h.total_headline_score,
+      h.llm_status,
+      h.moderation_status,
+      h.moderation_reason,
+      h.created_at,
+      h.in_game_submitted_at,
+      v.upvotes,
+      v.stars,
+      v.vote_points,
+      ${myVote} as my_vote
+    FROM game_session_headlines h
+    JOIN session_players p ON h.player_id = p.id
+    LEFT JOIN (
+      SELECT headline_id,
+        COUNT(*) FILTER (WHERE kind = 'up')::int AS upvotes,
+        COUNT(*) FILTER (WHERE kind = 'star')::int AS stars,
+        SUM(points)::int AS vote_points
+      FROM headline_votes
+      WHERE session_id = $1
+      GROUP BY headline_id
+    ) v ON v.headline_id = h.id
+    ${conditions}
+    ORDER BY h.created_at ASC
+  `;
+
+  const result = await pool.query(query, params);
+  return result.rows.map(toFeedHeadline);
+}
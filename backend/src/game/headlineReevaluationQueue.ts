@@ -0,0 +1,135 @@
+/**
+ * background re-evaluation of headlines the juror has not ruled on.
+ *
+ * failed headlines live in game_session_headlines with llm_status = 'failed' and a
+ * next_evaluation_at; pending headlines carry a lease in the same column. the queue
+ * polls for due rows and hands them to the per-session evaluation queue, which
+ * re-runs the juror against the timeline as it stood when the headline was
+ * submitted, then stores, broadcasts (headline:evaluated) and scores it. because
+ * the queue is the table itself, pending work survives a server restart.
+ */
+
+import pool from '../db/pool.js';
+import { headlineEvaluationQueue } from './headlineEvaluationQueue.js';
+import { planetSetFromRow, toJurorPlanets } from './planets.js';
+import { scenarioFromRow } from './scenarios.js';
+import { HeadlineModerationStatus } from './headlineFeed.js';
+import { PlausibilityLevel } from './scoringTypes.js';
+import { strictnessFromRow } from '../moderation/moderationProvider.js';
+
+const TEST_MODE = process.env.GAME_TEST_MODE === 'true';
+const POLL_INTERVAL_MS = TEST_MODE ? 2_000 : 10_000;
+/** due headlines handled per poll, oldest first */
+const BATCH_SIZE = 5;
+
+interface DueHeadlineRow {
+  id: string;
+  session_id: string;
+  join_code: string;
+  player_id: string;
+  nickname: string;
+  round_no: number;
+  headline_text: string;
+  llm_attempts: number;
+  created_at: Date;
+  in_game_submitted_at: Date | null;
+  moderation_status: HeadlineModerationStatus;
+  dice_target_band: PlausibilityLevel | null;
+  planet_set: unknown;
+  scenario: unknown;
+  moderation_strictness: string;
+}
+
+class HeadlineReevaluationQueue {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  /**
+   * start polling for due re-evaluations.
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.processDue().catch((err) => {
+        console.error('Error processing headline re-evaluations:', err);
+      });
+    }, POLL_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * re-evaluate every failed headline whose retry time has come, and every
+   * pending headline whose lease has run out. sessions that have already
+   * finished are left alone.
+   *
+   * @returns number of headlines successfully evaluated
+   */
+  async processDue(): Promise<number> {
+    if (this.running) return 0;
+
+    // when clustered, only this instance's sessions count towards the batch, so
+    // due headlines of sessions led elsewhere cannot crowd them out
+    const sessionIds = headlineEvaluationQueue.evaluatedSessions();
+    if (sessionIds && sessionIds.length === 0) return 0;
+
+    this.running = true;
+    try {
+      const params: unknown[] = [BATCH_SIZE];
+      if (sessionIds) {
+        params.push(sessionIds);
+      }
+
+      const result = await pool.query(
+        `SELECT h.id, h.session_id, s.join_code, h.player_id, p.nickname, h.round_no,
+                h.headline_text, h.llm_attempts, h.created_at, h.in_game_submitted_at,
+                h.moderation_status, h.dice_target_band, s.planet_set, s.scenario, s.moderation_strictness
+         FROM game_session_headlines h
+         JOIN game_sessions s ON s.id = h.session_id
+         JOIN session_players p ON p.id = h.player_id
+         WHERE h.llm_status IN ('pending', 'failed')
+           AND h.next_evaluation_at <= NOW()
+           AND s.phase <> 'FINISHED'${sessionIds ? ' AND h.session_id = ANY($2)' : ''}
+         ORDER BY h.created_at ASC
+         LIMIT $1`,
+        params
+      );
+
+      const due = (result.rows as DueHeadlineRow[]).filter(
+        (row) => !headlineEvaluationQueue.isQueued(row.id)
+      );
+      const outcomes = await Promise.all(
+        due.map((row) =>
+          headlineEvaluationQueue.enqueue({
+            id: row.id,
+            sessionId: row.session_id,
+            joinCode: row.join_code,
+            playerId: row.player_id,
+            playerNickname: row.nickname,
+            roundNo: row.round_no,
+            storyDirection: row.headline_text,
+            planetList: toJurorPlanets(planetSetFromRow(row.planet_set).planets),
+            topic: scenarioFromRow(row.scenario).topic,
+            moderationStrictness: strictnessFromRow(row.moderation_strictness),
+            moderationStatus: row.moderation_status,
+            targetBand: row.dice_target_band,
+            llmAttempts: row.llm_attempts,
+            createdAt: row.created_at,
+            inGameSubmittedAt: row.in_game_submitted_at,
+          })
+        )
+      );
+      return outcomes.filter(Boolean).length;
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+export const headlineReevaluationQueue = new HeadlineReevaluationQueue();
@@ -12,8 +12,9 @@ import {
   LinkedHeadline,
   HeadlineBands,
 } from '../llm/jurorPrompt.js';
+import { ScenarioTopic } from '../llm/scenarioTopic.js';
 import { evaluateJuror, JurorEvaluationResult } from './jurorService.js';
-import { rollDice, selectHeadline } from './diceRoll.js';
+import { DiceRollResult, rollDice, selectHeadline } from './diceRoll.js';
 
 export interface TransformationInput {
   /** the player's story direction / headline concept */
@@ -22,6 +23,15 @@ export interface TransformationInput {
   headlinesList: HeadlineEntry[] | string[];
   /** available planets for classification */
   planetList: PlanetEntry[];
+  /** what the game is about (default: AI) */
+  topic?: ScenarioTopic;
+  /** juror prompt variant id; the default when unset */
+  promptVariant?: string;
+  /** the session and headline the juror calls are charged to in the usage ledger */
+  sessionId?: string | null;
+  headlineId?: string | null;
+  /** the roll to publish by (the session's seeded roll); a random roll when unset */
+  diceRoll?: DiceRollResult;
 }
 
 export interface TransformationResult {
@@ -46,6 +56,8 @@ export interface TransformationResult {
   // metadata
   /** model used for llm evaluation */
   model: string;
+  /** juror prompt variant used, stored as prompt_version */
+  promptVersion: string;
   /** token usage from llm call */
   usage?: {
     inputTokens: number;
@@ -79,11 +91,15 @@ export async function transformHeadline(
     storyDirection: input.storyDirection,
     headlinesList: input.headlinesList,
     planetList: input.planetList,
+    topic: input.topic,
+    promptVariant: input.promptVariant,
+    sessionId: input.sessionId,
+    headlineId: input.headlineId,
   });
 
   const evaluation = jurorResult.evaluation;
 
-  const { roll, band } = rollDice();
+  const { roll, band } = input.diceRoll ?? rollDice();
 
   const selectedHeadline = selectHeadline(evaluation.HEADLINES.bands, band);
 
@@ -98,6 +114,7 @@ export async function transformHeadline(
     selectedHeadline,
 
     model: jurorResult.model,
+    promptVersion: jurorResult.promptVersion,
     usage: jurorResult.usage,
 
     llmRequest: jurorResult.rawRequest,
@@ -127,6 +144,10 @@ export async function transformHeadlineWithRoll(
     storyDirection: input.storyDirection,
     headlinesList: input.headlinesList,
     planetList: input.planetList,
+    topic: input.topic,
+    promptVariant: input.promptVariant,
+    sessionId: input.sessionId,
+    headlineId: input.headlineId,
   });
 
   const evaluation = jurorResult.evaluation;
@@ -146,6 +167,7 @@ export async function transformHeadlineWithRoll(
     selectedHeadline,
 
     model: jurorResult.model,
+    promptVersion: jurorResult.promptVersion,
     usage: jurorResult.usage,
 
     llmRequest: jurorResult.rawRequest,
@@ -0,0 +1,249 @@
+/**
+ * player voting: the "people's choice" part of the score.
+ *
+ * during a break players can upvote other players' headlines from the round
+ * just played, or give a few of them a "front page" star. each vote is worth
+ * the session's points for its kind, added straight to the author's
+ * total_score; the points are stored with the vote so changing or taking it
+ * back moves the score by the difference. nobody can vote for their own
+ * headlines, or their own team's in a team game.
+ *
+ * votes come in as headline:vote; the new tally goes to the room as
+ * headline:votes and the scores as leaderboard:update.
+ */
+
+import { Server } from 'socket.io';
+import type { PoolClient, QueryResultRow } from 'pg';
+import pool from '../db/pool.js';
+import { getLeaderboard } from './scoringService.js';
+import { emitLeaderboardUpdate } from './headlineEvaluationService.js';
+
+export type VoteKind = 'up' | 'star';
+
+export interface VotingPolicy {
+  enabled: boolean;
+  upvotePoints: number;
+  starPoints: number;
+  /** votes of each kind a player can hand out per break */
+  upvotesPerBreak: number;
+  starsPerBreak: number;
+}
+
+export const DEFAULT_VOTING_POLICY: VotingPolicy = {
+  enabled: true,
+  upvotePoints: 1,
+  starPoints: 3,
+  upvotesPerBreak: 3,
+  starsPerBreak: 1,
+};
+
+export const MAX_VOTE_POINTS = 10;
+export const MAX_VOTES_PER_BREAK = 10;
+
+/** votes on one headline */
+export interface VoteTally {
+  upvotes: number;
+  stars: number;
+  points: number;
+}
+
+export class VotingError extends Error {
+  constructor(
+    message: string,
+    public code: string
+  ) {
+    super(message);
+    this.name = 'VotingError';
+  }
+}
+
+/** the session the vote is cast in, as the caller already loaded it */
+export interface VotingSession {
+  id: string;
+  joinCode: string;
+  phase: string;
+  currentRound: number;
+  pausedAt: string | null;
+  voting: VotingPolicy;
+}
+
+export interface VoteResult {
+  headlineId: string;
+  authorId: string;
+  /** the voter's vote on the headline now, null once taken back */
+  vote: VoteKind | null;
+  tally: VoteTally;
+  /** votes the voter has left this break */
+  remaining: { upvotes: number; stars: number };
+}
+
+/** read the policy back from a game_sessions row; NULL (older sessions) means the defaults */
+export function votingPolicyFromRow(raw: unknown): VotingPolicy {
+  const stored = raw && typeof raw === 'object' ? (raw as Partial<VotingPolicy>) : {};
+  return { ...DEFAULT_VOTING_POLICY, ...stored };
+}
+
+export function toVoteTally(row: QueryResultRow | undefined): VoteTally {
+  return {
+    upvotes: row?.upvotes ?? 0,
+    stars: row?.stars ?? 0,
+    points: row?.vote_points ?? 0,
+  };
+}
+
+class HeadlineVoting {
+  private io: Server | null = null;
+
+  setSocketIO(io: Server): void {
+    this.io = io;
+  }
+
+  /**
+   * cast, change or (with `vote` null) take back a vote on a headline.
+   *
+   * @throws {VotingError} VOTING_DISABLED, NOT_BREAK, GAME_PAUSED, UNKNOWN_PLAYER,
+   *   UNKNOWN_HEADLINE, NOT_VOTABLE (another round, not approved, or the Archive's),
+   *   SELF_VOTE, NO_VOTES_LEFT
+   */
+  async vote(
+    session: VotingSession,
+    voterId: string,
+    headlineId: string,
+    vote: VoteKind | null
+  ): Promise<VoteResult> {
+    const policy = session.voting;
+    if (!policy.enabled) {
+      throw new VotingError('Voting is turned off in this game', 'VOTING_DISABLED');
+    }
+    if (session.phase !== 'BREAK') {
+      throw new VotingError('Votes can only be cast during a break', 'NOT_BREAK');
+    }
+    if (session.pausedAt) {
+      throw new VotingError('The game is paused', 'GAME_PAUSED');
+    }
+
+    const { result, scoreDelta } = await this.inTransaction(async (client) => {
+      // locking the voter's row serializes their votes, so the limits hold
+      const voterResult = await client.query(
+        `SELECT id, team FROM session_players
+         WHERE id = $1 AND session_id = $2 AND removed_at IS NULL
+         FOR UPDATE`,
+        [voterId, session.id]
+      );
+      if (voterResult.rows.length === 0) {
+        throw new VotingError('Player not in this session', 'UNKNOWN_PLAYER');
+      }
+      const voterTeam: string | null = voterResult.rows[0].team;
+
+      const headlineResult = await client.query(
+        `SELECT h.player_id, h.round_no, h.moderation_status, p.is_system, p.team
+         FROM game_session_headlines h
+         JOIN session_players p ON p.id = h.player_id
+         WHERE h.id = $1 AND h.session_id = $2`,
+        [headlineId, session.id]
+      );
+      if (headlineResult.rows.length === 0) {
+        throw new VotingError('Headline not in this session', 'UNKNOWN_HEADLINE');
+      }
+      const headline = headlineResult.rows[0];
+      if (headline.is_system || headline.round_no !== session.currentRound) {
+        throw new VotingError(
+          `Only headlines from round ${session.currentRound} can be voted on`,
+          'NOT_VOTABLE'
+        );
+      }
+      if (headline.moderation_status !== 'approved') {
+        throw new VotingError('This headline is not open for votes', 'NOT_VOTABLE');
+      }
+      if (headline.player_id === voterId) {
+        throw new VotingError("You can't vote for your own headline", 'SELF_VOTE');
+      }
+      if (voterTeam && headline.team === voterTeam) {
+        throw new VotingError("You can't vote for your own team's headline", 'SELF_VOTE');
+      }
+
+      const castResult = await client.query<{ headline_id: string; kind: VoteKind; points: number }>(
+        `SELECT headline_id, kind, points FROM headline_votes
+         WHERE session_id = $1 AND voter_id = $2 AND round_no = $3`,
+        [session.id, voterId, session.currentRound]
+      );
+      const previous = castResult.rows.find((row) => row.headline_id === headlineId);
+      const others = castResult.rows.filter((row) => row.headline_id !== headlineId);
+      const used = (kind: VoteKind) => others.filter((row) => row.kind === kind).length + (vote === kind ? 1 : 0);
+      if (vote === 'up' && used('up') > policy.upvotesPerBreak) {
+        throw new VotingError('You have no upvotes left this break', 'NO_VOTES_LEFT');
+      }
+      if (vote === 'star' && used('star') > policy.starsPerBreak) {
+        throw new VotingError('You have no stars left this break', 'NO_VOTES_LEFT');
+      }
+
+      const points = vote === 'star' ? policy.starPoints : vote === 'up' ? policy.upvotePoints : 0;
+      if (vote === null) {
+        await client.query(`DELETE FROM headline_votes WHERE headline_id = $1 AND voter_id = $2`, [
+          headlineId,
+          voterId,
+        ]);
+      } else {
+        await client.query(
+          `INSERT INTO headline_votes (session_id, headline_id, voter_id, author_id, round_no, kind, points)
+           VALUES ($1, $2, $3, $4, $5, $6, $7)
+           ON CONFLICT (headline_id, voter_id)
+           DO UPDATE SET kind = EXCLUDED.kind, points = EXCLUDED.points, created_at = NOW()`,
+          [session.id, headlineId, voterId, headline.player_id, session.currentRound, vote, points]
+        );
+      }
+
+      const scoreDelta = points - (previous?.points ?? 0);
+      if (scoreDelta !== 0) {
+        await client.query(`UPDATE session_players SET total_score = total_score + $1 WHERE id = $2`, [
+          scoreDelta,
+          headline.player_id,
+        ]);
+      }
+
+      const tallyResult = await client.query(
+        `SELECT COUNT(*) FILTER (WHERE kind = 'up')::int AS upvotes,
+                COUNT(*) FILTER (WHERE kind = 'star')::int AS stars,
+                COALESCE(SUM(points), 0)::int AS vote_points
+         FROM headline_votes WHERE headline_id = $1`,
+        [headlineId]
+      );
+
+      const result: VoteResult = {
+        headlineId,
+        authorId: headline.player_id,
+        vote,
+        tally: toVoteTally(tallyResult.rows[0]),
+        remaining: {
+          upvotes: policy.upvotesPerBreak - used('up'),
+          stars: policy.starsPerBreak - used('star'),
+        },
+      };
+      return { result, scoreDelta };
+    });
+
+    const room = `session:${session.joinCode}`;
+    this.io?.to(room).emit('headline:votes', { headlineId, votes: result.tally });
+    if (scoreDelta !== 0 && this.io) {
+      await emitLeaderboardUpdate(this.io, room, session.id, await getLeaderboard(session.id));
+    }
+    return result;
+  }
+
+  private async inTransaction<T>(work: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await work(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+}
+
+export const headlineVoting = new HeadlineVoting();
@@ -7,13 +7,17 @@
  * (e.g. a session left in PLAYING after a server restart, with a long-past
  * phase_started_at) cannot overflow the JS Date range and produce an Invalid
  * Date — which previously threw `RangeError: Invalid time value` on toISOString().
+ *
+ * while the host has the game paused, the clock is read at `pausedAt` instead
+ * of `serverNow`, so in-game time stands still until the phase is resumed.
  */
 export function computeInGameNow(
   inGameStartAt: Date | string | null,
   phaseStartedAt: Date | string | null,
   phaseEndsAt: Date | string | null,
   serverNow: Date,
-  timelineSpeedRatio: number
+  timelineSpeedRatio: number,
+  pausedAt: Date | string | null = null
 ): Date | null {
   if (!inGameStartAt || !phaseStartedAt) {
     return null;
@@ -25,7 +29,9 @@ export function computeInGameNow(
     return null;
   }
 
-  let realElapsed = serverNow.getTime() - phaseStart.getTime();
+  const pausedTime = pausedAt ? new Date(pausedAt).getTime() : NaN;
+  const effectiveNow = isNaN(pausedTime) ? serverNow.getTime() : pausedTime;
+  let realElapsed = effectiveNow - phaseStart.getTime();
 
   // clamp to [0, phase duration]: in-game time should not advance past the
   // phase's scheduled end, and a long-stale phase must not overflow the range.
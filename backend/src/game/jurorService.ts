@@ -1,25 +1,26 @@
 /**
- * juror service for evaluating headlines via openai.
- * this module orchestrates the openai call and validates the response.
+ * juror service for evaluating headlines via the configured llm provider.
+ * this module orchestrates the llm call and validates the response.
  */
 
 import {
-  createOpenAIClient,
-  OpenAIClient,
-  OpenAIError,
-} from '../llm/openaiResponsesClient.js';
-import {
-  buildJurorPrompt,
-  buildJurorInstructions,
+  buildJurorRepairPrompt,
   jurorJsonSchema,
   JurorPromptInput,
   JurorEvaluationOutput,
   PlausibilityBand,
   BAND_LABELS,
 } from '../llm/jurorPrompt.js';
+import { getPromptVariant } from '../llm/promptRegistry.js';
+import { generateRecorded, LLMCallContext } from '../llm/usageLedger.js';
 
 export interface JurorEvaluationRequest extends JurorPromptInput {
   // inherits storyDirection, headlinesList, planetList
+  /** juror prompt variant id (see promptRegistry.ts); the default when unset */
+  promptVariant?: string;
+  /** the session and headline the calls are charged to in the usage ledger */
+  sessionId?: string | null;
+  headlineId?: string | null;
 }
 
 export interface JurorEvaluationResult {
@@ -27,6 +28,8 @@ export interface JurorEvaluationResult {
   evaluation: JurorEvaluationOutput;
   /** model used for the evaluation */
   model: string;
+  /** the prompt variant used, stored as prompt_version */
+  promptVersion: string;
   /** token usage */
   usage?: {
     inputTokens: number;
@@ -57,7 +60,7 @@ export class JurorValidationError extends Error {
 /**
  * validate that the evaluation output meets all invariants.
  */
-function validateEvaluationOutput(output: JurorEvaluationOutput): void {
+function validateEvaluationOutput(output: JurorEvaluationOutput, planetIds: string[]): void {
   // validate LINKED has exactly 3 entries
   if (!Array.isArray(output.LINKED) || output.LINKED.length !== 3) {
     throw new JurorValidationError(
@@ -101,8 +104,21 @@ function validateEvaluationOutput(output: JurorEvaluationOutput): void {
     );
   }
 
+  // validate planets come from the session's planet list
+  const unknownPlanets = output.PLANETS.top3.map((p) => p.id).filter((id) => !planetIds.includes(id));
+  if (unknownPlanets.length > 0) {
+    throw new JurorValidationError(
+      `PLANETS.top3 must use ids from the planet list, got ${unknownPlanets.join(', ')}`,
+      'UNKNOWN_PLANET',
+      { unknownPlanets }
+    );
+  }
+
   // validate all bands have non-empty headlines
-  const bands = output.HEADLINES.bands;
+  const bands = output.HEADLINES?.bands;
+  if (!bands || typeof bands !== 'object') {
+    throw new JurorValidationError('HEADLINES.bands is missing', 'MISSING_HEADLINE_BANDS');
+  }
   for (let i = 1; i <= 5; i++) {
     const key = `band${i}` as keyof typeof bands;
     if (!bands[key] || typeof bands[key] !== 'string' || bands[key].trim() === '') {
@@ -115,75 +131,78 @@ function validateEvaluationOutput(output: JurorEvaluationOutput): void {
   }
 }
 
-/** singleton client instance */
-let clientInstance: OpenAIClient | null = null;
-
-/**
- * get or create the openai client.
- * uses environment variables for configuration.
- */
-function getClient(): OpenAIClient {
-  if (!clientInstance) {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new OpenAIError(
-        'OPENAI_API_KEY environment variable is not set',
-        'MISSING_API_KEY'
-      );
-    }
-
-    clientInstance = createOpenAIClient({
-      apiKey,
-      model: process.env.OPENAI_MODEL || 'gpt-5.2',
-      baseUrl: process.env.OPENAI_BASE_URL || 'https://api.openai.com',
-    });
-  }
-
-  return clientInstance;
-}
+/** times the juror is re-asked with the validation error before giving up */
+const JUROR_REPAIR_ATTEMPTS = 1;
 
-/**
- * reset the client instance (for testing).
- */
-export function resetJurorClient(): void {
-  clientInstance = null;
-}
-
-/**
- * set a custom client instance (for testing).
- */
-export function setJurorClient(client: OpenAIClient): void {
-  clientInstance = client;
+function addUsage(
+  a: JurorEvaluationResult['usage'],
+  b: JurorEvaluationResult['usage']
+): JurorEvaluationResult['usage'] {
+  if (!a) return b;
+  if (!b) return a;
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+  };
 }
 
 /**
- * evaluate a story direction using the openai juror.
+ * evaluate a story direction using the llm juror.
+ * transient api failures are retried by the provider; output that breaks the
+ * invariants gets one repair pass that shows the model its answer and the error.
  *
  * @param request - the evaluation request containing story direction, headlines, and planets
  * @returns the validated evaluation result
  * @throws {OpenAIError} if the api call fails
  * @throws {JurorValidationError} if the response fails invariant validation
+ * @throws {PromptRegistryError} if the prompt variant is unknown
  */
 export async function evaluateJuror(
   request: JurorEvaluationRequest
 ): Promise<JurorEvaluationResult> {
-  const client = getClient();
+  const variant = getPromptVariant('juror', request.promptVariant);
+  const context: LLMCallContext = {
+    purpose: 'juror',
+    sessionId: request.sessionId,
+    headlineId: request.headlineId,
+  };
 
-  const prompt = buildJurorPrompt(request);
-  const instructions = buildJurorInstructions();
+  const prompt = variant.buildPrompt(request);
+  const instructions = variant.buildInstructions(request.topic);
+  const planetIds = request.planetList.map((p) => p.id);
 
-  const result = await client.callResponsesApi<JurorEvaluationOutput>({
-    input: prompt,
+  let result = await generateRecorded<JurorEvaluationOutput>(
+    context,
+    jurorJsonSchema,
     instructions,
-    jsonSchema: jurorJsonSchema,
-  });
-
-  validateEvaluationOutput(result.output);
+    prompt
+  );
+  let usage = result.usage;
+
+  for (let repair = 0; ; repair++) {
+    try {
+      validateEvaluationOutput(result.output, planetIds);
+      break;
+    } catch (err) {
+      if (!(err instanceof JurorValidationError) || repair >= JUROR_REPAIR_ATTEMPTS) {
+        throw err;
+      }
+      console.warn(`Juror output failed validation (${err.code}), asking for a repair`);
+      result = await generateRecorded<JurorEvaluationOutput>(
+        context,
+        jurorJsonSchema,
+        instructions,
+        buildJurorRepairPrompt(prompt, result.rawText, err.message)
+      );
+      usage = addUsage(usage, result.usage);
+    }
+  }
 
   return {
     evaluation: result.output,
     model: result.model,
-    usage: result.usage,
+    promptVersion: variant.id,
+    usage,
     rawRequest: {
       storyDirection: request.storyDirection,
       headlinesList: request.headlinesList,
@@ -0,0 +1,76 @@
+/**
+ * late joins: whether new players may join a game that has already started,
+ * and what score they start with.
+ *
+ * a late joiner gets planet ordinals straight away (the players who were there
+ * at the start got theirs in lobby:start_game) and, depending on the session's
+ * catch-up mode, the lowest or the average of the current scores. the host can
+ * lock the session against new players in any phase (playerModeration.setJoinLocked).
+ */
+
+/** starting score for a late joiner: 0, the lowest current score, or the average */
+export type CatchUpMode = 'none' | 'lowest' | 'average';
+
+export const CATCH_UP_MODES: CatchUpMode[] = ['none', 'lowest', 'average'];
+
+export interface LateJoinPolicy {
+  allowed: boolean;
+  catchUp: CatchUpMode;
+}
+
+export const DEFAULT_LATE_JOIN_POLICY: LateJoinPolicy = {
+  allowed: false,
+  catchUp: 'none',
+};
+
+/** phases a late joiner can still come in during */
+const LATE_JOIN_PHASES = ['TUTORIAL', 'PLAYING', 'BREAK'];
+
+/** read the policy back from a game_sessions row, tolerating older rows */
+export function lateJoinPolicyFromRow(row: {
+  late_join_allowed?: boolean | null;
+  late_join_catch_up?: string | null;
+}): LateJoinPolicy {
+  return {
+    allowed: row.late_join_allowed ?? DEFAULT_LATE_JOIN_POLICY.allowed,
+    catchUp: CATCH_UP_MODES.includes(row.late_join_catch_up as CatchUpMode)
+      ? (row.late_join_catch_up as CatchUpMode)
+      : DEFAULT_LATE_JOIN_POLICY.catchUp,
+  };
+}
+
+/**
+ * why a new player can't join right now, or null if they can.
+ * WAITING sessions take anyone unless locked; FINISHED sessions take no one.
+ */
+export function lateJoinRefusal(
+  phase: string,
+  policy: LateJoinPolicy,
+  joinLocked: boolean
+): { code: 'JOIN_LOCKED' | 'ALREADY_STARTED'; message: string } | null {
+  if (joinLocked) {
+    return { code: 'JOIN_LOCKED', message: 'The host has locked this game' };
+  }
+  if (phase === 'WAITING') {
+    return null;
+  }
+  if (!policy.allowed || !LATE_JOIN_PHASES.includes(phase)) {
+    return { code: 'ALREADY_STARTED', message: 'Session has already started or finished' };
+  }
+  return null;
+}
+
+/**
+ * a late joiner's starting score from the current players' scores.
+ * the average is rounded down; with no one else scored yet it is 0.
+ */
+export function computeCatchUpScore(mode: CatchUpMode, scores: number[]): number {
+  if (mode === 'none' || scores.length === 0) {
+    return 0;
+  }
+  if (mode === 'lowest') {
+    return Math.max(0, Math.min(...scores));
+  }
+  const average = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+  return Math.max(0, Math.floor(average));
+}
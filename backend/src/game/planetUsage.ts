@@ -11,7 +11,8 @@
  *   every player a different list so they don't all rush the same planet.
  * - a player's displayed order = sort planets by (globalUsage asc, playerOrdinal asc).
  *   the least-used planets are at the top.
- * - the order is split into three bands: top 3 -> +2, middle 3 -> +1, bottom 3 -> +0.
+ * - the order is split into three bands: top third -> +2, middle third -> +1, bottom
+ *   third -> +0 (3/3/3 for the classic nine planets; see bandSizes for other sets).
  * - a submitted headline earns the band its primary planet sits in (in that player's
  *   own order), and increments that planet's global usage by 1.
  */
@@ -113,13 +114,25 @@ export function migratePlayerOrdinals(
 }
 
 /**
- * map a position in the global ranking to its band: 0-2 -> +2, 3-5 -> +1, 6+ -> +0.
+ * planets per band [+2, +1, +0] for a set of `count` planets: an even split,
+ * with any remainder going to the higher bands (9 -> 3/3/3, 4 -> 2/1/1, 11 -> 4/4/3).
  */
-export function bandForIndex(index: number): PlanetBand {
-  if (index < 3) {
+export function bandSizes(count: number): [number, number, number] {
+  const top = Math.ceil(count / 3);
+  const middle = Math.ceil((count - top) / 2);
+  return [top, middle, count - top - middle];
+}
+
+/**
+ * map a position in the global ranking to its band. for the classic nine planets
+ * that is 0-2 -> +2, 3-5 -> +1, 6+ -> +0.
+ */
+export function bandForIndex(index: number, count: number = DEFAULT_PLANETS.length): PlanetBand {
+  const [top, middle] = bandSizes(count);
+  if (index < top) {
     return 2;
   }
-  if (index < 6) {
+  if (index < top + middle) {
     return 1;
   }
   return 0;
@@ -129,7 +142,7 @@ export function bandForIndex(index: number): PlanetBand {
  * global band membership for all planets — identical for every player in the
  * session. planets are ranked by global usage (least-used first); ties are
  * broken by a fixed canonical order so the band assignment is shared by all
- * players. the least-used three are band +2, the next three +1, the rest +0.
+ * players. the least-used third are band +2, the next third +1, the rest +0.
  */
 export function computeBandMembership(
   usage: GlobalUsage,
@@ -146,7 +159,7 @@ export function computeBandMembership(
   });
   const bands: Record<PlanetId, PlanetBand> = {};
   order.forEach((id, index) => {
-    bands[id] = bandForIndex(index);
+    bands[id] = bandForIndex(index, planets.length);
   });
   return bands;
 }
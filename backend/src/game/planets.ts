@@ -1,79 +1,408 @@
 /**
  * planet definitions for the future headlines game.
- * planets represent thematic categories for headlines, themed around greek/roman gods.
+ * planets represent thematic categories for headlines. the classic set is themed
+ * around greek/roman gods; hosts can pick another built-in pack or bring their own
+ * set of 3-12 planets when creating a session.
  */
 
 import { PlanetEntry } from '../llm/jurorPrompt.js';
 
+/**
+ * colours a planet can be drawn in. the frontend maps each name to its tailwind
+ * classes, so only these names are accepted.
+ */
+export const PLANET_COLORS = [
+  'green',
+  'red',
+  'cyan',
+  'pink',
+  'orange',
+  'yellow',
+  'blue',
+  'teal',
+  'purple',
+  'lime',
+  'indigo',
+  'rose',
+  'amber',
+  'emerald',
+  'sky',
+  'violet',
+  'fuchsia',
+  'slate',
+] as const;
+
+export type PlanetColor = (typeof PLANET_COLORS)[number];
+
+/**
+ * a planet as played in a session: the id and description the juror classifies
+ * against, plus the keyword tags and colour players see.
+ */
+export interface PlanetDefinition extends PlanetEntry {
+  tags: string[];
+  color: PlanetColor;
+}
+
+/** the juror ranks a top 3, so a set needs at least that many planets */
+export const MIN_PLANETS = 3;
+export const MAX_PLANETS = 12;
+
 /**
  * default planet list for the game.
  * each planet represents a different aspect or domain of ai development and impact.
+ * the order is the canonical tie-break for planet usage bands.
  */
-export const DEFAULT_PLANETS: PlanetEntry[] = [
+export const DEFAULT_PLANETS: PlanetDefinition[] = [
   {
-    id: 'EARTH',
+    id: 'MERCURY',
     description:
-      'Nature, environment, climate, humanity, justice, agriculture, and natural resources. Headlines about AI impact on the natural world and humane/just outcomes for people.',
+      'Communication, information, media, journalism, social networks, and messaging. Headlines about AI in information and communication.',
+    tags: ['Communication', 'Media', 'Journalism', 'Networks', 'Information'],
+    color: 'cyan',
   },
   {
-    id: 'MARS',
+    id: 'VENUS',
     description:
-      'War, conflict, military, defense, security, weapons, and geopolitical tensions. Headlines about AI in warfare and defense.',
+      'Art, beauty, culture, entertainment, creativity, music, and aesthetics. Headlines about AI in creative and cultural domains.',
+    tags: ['Art', 'Beauty', 'Culture', 'Entertainment', 'Creativity'],
+    color: 'pink',
   },
   {
-    id: 'MERCURY',
+    id: 'EARTH',
     description:
-      'Communication, information, media, journalism, social networks, and messaging. Headlines about AI in information and communication.',
+      'Nature, environment, climate, humanity, justice, agriculture, and natural resources. Headlines about AI impact on the natural world and humane/just outcomes for people.',
+    tags: ['Nature', 'Environment', 'Climate', 'Humanity', 'Justice'],
+    color: 'green',
   },
   {
-    id: 'VENUS',
+    id: 'MARS',
     description:
-      'Art, beauty, culture, entertainment, creativity, music, and aesthetics. Headlines about AI in creative and cultural domains.',
+      'War, conflict, military, defense, security, weapons, and geopolitical tensions. Headlines about AI in warfare and defense.',
+    tags: ['War', 'Conflict', 'Military', 'Defense', 'Security'],
+    color: 'red',
   },
   {
     id: 'JUPITER',
     description:
       'Power, governance, law, politics, leadership, authority, and institutions. Headlines about AI in government and institutional power.',
+    tags: ['Power', 'Governance', 'Politics', 'Leadership', 'Institutions'],
+    color: 'orange',
   },
   {
     id: 'SATURN',
     description:
       'Time, aging, history, legacy, tradition, and long-term consequences. Headlines about AI effects on society over time.',
+    tags: ['Time', 'Aging', 'Legacy', 'Tradition', 'History'],
+    color: 'yellow',
   },
   {
-    id: 'NEPTUNE',
+    id: 'URANUS',
     description:
-      'Dreams, illusion, spirituality, religion, consciousness, and the subconscious. Headlines about AI and human consciousness or spirituality.',
+      'Innovation, revolution, disruption, technology breakthroughs, and radical change. Headlines about revolutionary AI developments.',
+    tags: ['Innovation', 'Revolution', 'Disruption', 'Technology', 'Breakthroughs'],
+    color: 'teal',
   },
   {
-    id: 'URANUS',
+    id: 'NEPTUNE',
     description:
-      'Innovation, revolution, disruption, technology breakthroughs, and radical change. Headlines about revolutionary AI developments.',
+      'Dreams, illusion, spirituality, religion, consciousness, and the subconscious. Headlines about AI and human consciousness or spirituality.',
+    tags: ['Dreams', 'Spirituality', 'Consciousness', 'Illusion', 'Religion'],
+    color: 'blue',
   },
   {
     id: 'PLUTO',
     description:
       'Transformation, death and rebirth, hidden forces, secrets, and fundamental change. Headlines about AI causing profound societal transformation.',
+    tags: ['Transformation', 'Hidden forces', 'Secrets', 'Rebirth', 'Upheaval'],
+    color: 'purple',
   },
 ];
 
+export interface PlanetPack {
+  id: string;
+  name: string;
+  planets: PlanetDefinition[];
+}
+
+/**
+ * built-in planet packs for themed games.
+ */
+export const PLANET_PACKS: PlanetPack[] = [
+  {
+    id: 'classic',
+    name: 'Classic (planets of the solar system)',
+    planets: DEFAULT_PLANETS,
+  },
+  {
+    id: 'health',
+    name: 'Health and care',
+    planets: [
+      {
+        id: 'PREVENTION',
+        description:
+          'Screening, early detection, vaccination, lifestyle and wellbeing. Headlines about AI keeping people from getting ill.',
+        tags: ['Screening', 'Early detection', 'Vaccines', 'Wellbeing'],
+        color: 'green',
+      },
+      {
+        id: 'TREATMENT',
+        description:
+          'Diagnosis, surgery, drugs, therapies and hospitals. Headlines about AI in the treatment of disease.',
+        tags: ['Diagnosis', 'Surgery', 'Drugs', 'Hospitals'],
+        color: 'red',
+      },
+      {
+        id: 'MIND',
+        description:
+          'Mental health, loneliness, addiction, therapy and emotional support. Headlines about AI and the mind.',
+        tags: ['Mental health', 'Therapy', 'Loneliness', 'Addiction'],
+        color: 'violet',
+      },
+      {
+        id: 'ACCESS',
+        description:
+          'Who gets care: costs, waiting lists, rural and global health, insurance and inequality. Headlines about AI changing access to care.',
+        tags: ['Costs', 'Waiting lists', 'Inequality', 'Insurance'],
+        color: 'orange',
+      },
+      {
+        id: 'DISCOVERY',
+        description:
+          'Medical research, genomics, clinical trials and new cures. Headlines about AI accelerating medical science.',
+        tags: ['Research', 'Genomics', 'Trials', 'Cures'],
+        color: 'cyan',
+      },
+      {
+        id: 'PUBLIC_HEALTH',
+        description:
+          'Epidemics, surveillance, population health, environment and health policy. Headlines about AI and the health of whole populations.',
+        tags: ['Epidemics', 'Surveillance', 'Policy', 'Populations'],
+        color: 'blue',
+      },
+      {
+        id: 'CARE',
+        description:
+          'Nursing, ageing, disability, carers and care homes. Headlines about AI in looking after people day to day.',
+        tags: ['Nursing', 'Ageing', 'Disability', 'Carers'],
+        color: 'pink',
+      },
+      {
+        id: 'TRUST',
+        description:
+          'Privacy, consent, medical errors, liability and misinformation. Headlines about whether people can trust AI with their health.',
+        tags: ['Privacy', 'Consent', 'Errors', 'Misinformation'],
+        color: 'slate',
+      },
+    ],
+  },
+  {
+    id: 'education',
+    name: 'Education',
+    planets: [
+      {
+        id: 'CLASSROOM',
+        description:
+          'Teaching, lessons, tutoring and the everyday school or lecture experience. Headlines about AI in how people are taught.',
+        tags: ['Teaching', 'Tutoring', 'Lessons', 'Schools'],
+        color: 'sky',
+      },
+      {
+        id: 'ASSESSMENT',
+        description:
+          'Exams, grading, cheating, credentials and qualifications. Headlines about AI changing how learning is measured.',
+        tags: ['Exams', 'Grading', 'Cheating', 'Credentials'],
+        color: 'amber',
+      },
+      {
+        id: 'ACCESS',
+        description:
+          'Who gets to learn: cost, the digital divide, special needs, languages and remote learning. Headlines about AI widening or narrowing access to education.',
+        tags: ['Cost', 'Digital divide', 'Inclusion', 'Remote'],
+        color: 'orange',
+      },
+      {
+        id: 'EDUCATORS',
+        description:
+          'Teachers, lecturers, their workload, training, jobs and authority. Headlines about AI and the people who teach.',
+        tags: ['Teachers', 'Workload', 'Training', 'Jobs'],
+        color: 'rose',
+      },
+      {
+        id: 'SKILLS',
+        description:
+          'Careers, workforce training, lifelong learning and what is worth learning. Headlines about AI and the skills people need.',
+        tags: ['Careers', 'Workforce', 'Lifelong learning', 'Curriculum'],
+        color: 'emerald',
+      },
+      {
+        id: 'INSTITUTIONS',
+        description:
+          'Schools, universities, regulators, funding and education policy. Headlines about AI and the education system itself.',
+        tags: ['Universities', 'Policy', 'Funding', 'Regulation'],
+        color: 'indigo',
+      },
+    ],
+  },
+  {
+    id: 'climate',
+    name: 'Climate',
+    planets: [
+      {
+        id: 'ENERGY',
+        description:
+          'Power generation, renewables, grids, storage and fossil fuels. Headlines about AI in how the world is powered.',
+        tags: ['Renewables', 'Grids', 'Storage', 'Fossil fuels'],
+        color: 'yellow',
+      },
+      {
+        id: 'OCEANS',
+        description:
+          'Seas, fisheries, sea level, coasts and marine life. Headlines about AI and the oceans.',
+        tags: ['Sea level', 'Fisheries', 'Coasts', 'Marine life'],
+        color: 'blue',
+      },
+      {
+        id: 'LAND',
+        description:
+          'Forests, biodiversity, soil, wildfires and conservation. Headlines about AI and the living landscape.',
+        tags: ['Forests', 'Biodiversity', 'Wildfires', 'Conservation'],
+        color: 'green',
+      },
+      {
+        id: 'CITIES',
+        description:
+          'Buildings, transport, heat, housing and urban planning. Headlines about AI reshaping where most people live.',
+        tags: ['Transport', 'Buildings', 'Housing', 'Planning'],
+        color: 'slate',
+      },
+      {
+        id: 'FOOD',
+        description:
+          'Agriculture, water, diets, supply chains and famine. Headlines about AI and feeding a warming world.',
+        tags: ['Agriculture', 'Water', 'Diets', 'Supply chains'],
+        color: 'lime',
+      },
+      {
+        id: 'POLICY',
+        description:
+          'Treaties, regulation, carbon pricing, activism and climate justice. Headlines about AI in climate politics.',
+        tags: ['Treaties', 'Carbon pricing', 'Activism', 'Justice'],
+        color: 'purple',
+      },
+      {
+        id: 'ADAPTATION',
+        description:
+          'Extreme weather, disaster response, migration and resilience. Headlines about AI helping people live with a changed climate.',
+        tags: ['Extreme weather', 'Disasters', 'Migration', 'Resilience'],
+        color: 'red',
+      },
+      {
+        id: 'INDUSTRY',
+        description:
+          'Heavy industry, materials, carbon capture, the footprint of AI itself and green business. Headlines about AI and decarbonising the economy.',
+        tags: ['Materials', 'Carbon capture', 'Data centres', 'Business'],
+        color: 'teal',
+      },
+    ],
+  },
+];
+
+export const DEFAULT_PLANET_PACK = 'classic';
+
+/**
+ * the planets a session plays with: a built-in pack, or the host's own list
+ * (pack 'custom').
+ */
+export interface PlanetSet {
+  pack: string;
+  planets: PlanetDefinition[];
+}
+
+/** a planet as the host may supply it; missing tags and colours are filled in */
+export interface PlanetDefinitionInput extends PlanetEntry {
+  tags?: string[];
+  color?: PlanetColor;
+}
+
+export interface PlanetSetInput {
+  /** id of a built-in pack (default classic) */
+  pack?: string;
+  /** a custom set; takes the place of a pack */
+  planets?: PlanetDefinitionInput[];
+}
+
+export function getPlanetPack(id: string): PlanetPack | undefined {
+  return PLANET_PACKS.find((p) => p.id === id);
+}
+
+/**
+ * turn the host's choice into the set stored on the session.
+ * custom planets without a colour take the next unused one from the palette.
+ */
+export function resolvePlanetSet(input: PlanetSetInput = {}): PlanetSet {
+  if (input.planets) {
+    const used = new Set(input.planets.map((p) => p.color).filter(Boolean));
+    const spare = PLANET_COLORS.filter((c) => !used.has(c));
+    let next = 0;
+    return {
+      pack: 'custom',
+      planets: input.planets.map((p) => ({
+        id: p.id,
+        description: p.description,
+        tags: p.tags ?? [],
+        color: p.color ?? spare[next++ % spare.length] ?? PLANET_COLORS[0],
+      })),
+    };
+  }
+
+  const pack = getPlanetPack(input.pack ?? DEFAULT_PLANET_PACK);
+  if (!pack) {
+    throw new Error(`Unknown planet pack "${input.pack}"`);
+  }
+  return { pack: pack.id, planets: pack.planets };
+}
+
+/**
+ * read a session's planet set back from game_sessions.planet_set. sessions
+ * created before planet sets existed (null) play the classic planets.
+ */
+export function planetSetFromRow(raw: unknown): PlanetSet {
+  if (raw && typeof raw === 'object') {
+    const set = raw as Partial<PlanetSet>;
+    if (typeof set.pack === 'string' && Array.isArray(set.planets) && set.planets.length >= MIN_PLANETS) {
+      return { pack: set.pack, planets: set.planets };
+    }
+  }
+  return { pack: DEFAULT_PLANET_PACK, planets: DEFAULT_PLANETS };
+}
+
 /**
  * get the default planet list.
  */
-export function getDefaultPlanets(): PlanetEntry[] {
+export function getDefaultPlanets(): PlanetDefinition[] {
   return DEFAULT_PLANETS;
 }
 
 /**
  * get a planet by id.
  */
-export function getPlanetById(id: string): PlanetEntry | undefined {
-  return DEFAULT_PLANETS.find((p) => p.id === id);
+export function getPlanetById(
+  id: string,
+  planets: PlanetDefinition[] = DEFAULT_PLANETS
+): PlanetDefinition | undefined {
+  return planets.find((p) => p.id === id);
 }
 
 /**
  * get planet ids only.
  */
-export function getPlanetIds(): string[] {
-  return DEFAULT_PLANETS.map((p) => p.id);
+export function getPlanetIds(planets: PlanetDefinition[] = DEFAULT_PLANETS): string[] {
+  return planets.map((p) => p.id);
+}
+
+/**
+ * strip a planet down to what the juror needs.
+ */
+export function toJurorPlanets(planets: PlanetDefinition[]): PlanetEntry[] {
+  return planets.map(({ id, description }) => ({ id, description }));
 }
@@ -0,0 +1,367 @@
+/**
+ * host moderation: kick (optionally banning the player from rejoining), rename,
+ * mute/unmute, host transfer, locking the session against new players and, in a
+ * team game, moving players between teams.
+ *
+ * shared by the socket handlers and the REST routes, which check the caller is
+ * the host first. each action updates the roster, is logged with the other host
+ * actions in game_session_state_transitions, and is broadcast to the session
+ * room as lobby:player_removed, lobby:player_updated or lobby:host_changed.
+ * kicked players keep their row (their headlines stay attributed) but drop out
+ * of the roster, and their tokens are revoked.
+ */
+
+import { Server } from 'socket.io';
+import type { PoolClient } from 'pg';
+import pool from '../db/pool.js';
+import { teamsFromRow, balanceTeams } from './teams.js';
+
+export type ModerationAction =
+  | 'KICK'
+  | 'BAN'
+  | 'RENAME'
+  | 'MUTE'
+  | 'UNMUTE'
+  | 'TRANSFER_HOST'
+  | 'LOCK'
+  | 'UNLOCK'
+  | 'SET_TEAM'
+  | 'BALANCE_TEAMS';
+
+export class ModerationError extends Error {
+  constructor(
+    message: string,
+    public code: string
+  ) {
+    super(message);
+    this.name = 'ModerationError';
+  }
+}
+
+/** the session being moderated, as the caller already loaded it */
+export interface ModeratedSession {
+  id: string;
+  joinCode: string;
+  phase: string;
+  currentRound: number;
+  hostPlayerId: string | null;
+}
+
+/** the fields of a player that moderation changes, as sent in lobby:player_updated */
+export interface ModeratedPlayer {
+  id: string;
+  nickname: string;
+  isHost: boolean;
+  mutedUntil: string | null;
+  team: string | null;
+}
+
+function toModeratedPlayer(row: {
+  id: string;
+  nickname: string;
+  is_host: boolean;
+  muted_until: Date | null;
+  team?: string | null;
+}): ModeratedPlayer {
+  return {
+    id: row.id,
+    nickname: row.nickname,
+    isHost: row.is_host,
+    mutedUntil: row.muted_until ? new Date(row.muted_until).toISOString() : null,
+    team: row.team ?? null,
+  };
+}
+
+const PLAYER_COLUMNS = 'id, nickname, is_host, muted_until, team';
+
+class PlayerModeration {
+  private io: Server | null = null;
+
+  setSocketIO(io: Server): void {
+    this.io = io;
+  }
+
+  /**
+   * remove a player from the session and revoke their tokens. a banned player
+   * can't come back with their recovery code; otherwise rejoining restores them.
+   */
+  async kick(session: ModeratedSession, targetId: string, ban: boolean): Promise<void> {
+    this.assertNotHost(session, targetId, 'The host cannot kick themselves; transfer host first');
+
+    await this.inTransaction(async (client) => {
+      const result = await client.query(
+        `UPDATE session_players
+         SET removed_at = NOW(), banned = $1, token_version = token_version + 1
+         WHERE id = $2 AND session_id = $3 AND is_system = FALSE AND removed_at IS NULL
+         RETURNING id`,
+        [ban, targetId, session.id]
+      );
+      if (result.rows.length === 0) {
+        throw new ModerationError('Player not in this session', 'UNKNOWN_PLAYER');
+      }
+      await this.logAction(client, session, ban ? 'BAN' : 'KICK', { targetPlayerId: targetId });
+    });
+
+    // the kicked player is still in the room, so they hear this too
+    this.io?.to(`session:${session.joinCode}`).emit('lobby:player_removed', {
+      playerId: targetId,
+      banned: ban,
+    });
+    this.io?.in(`player:${targetId}`).disconnectSockets(true);
+  }
+
+  /**
+   * force a new nickname. the player rejoins under the new name from then on.
+   */
+  async rename(session: ModeratedSession, targetId: string, nickname: string): Promise<ModeratedPlayer> {
+    const player = await this.inTransaction(async (client) => {
+      const taken = await client.query(
+        `SELECT 1 FROM session_players
+         WHERE session_id = $1 AND LOWER(nickname) = LOWER($2) AND id <> $3`,
+        [session.id, nickname, targetId]
+      );
+      if (taken.rows.length > 0) {
+        throw new ModerationError('Nickname already taken', 'NICKNAME_TAKEN');
+      }
+
+      const result = await client.query(
+        `UPDATE session_players SET nickname = $1
+         WHERE id = $2 AND session_id = $3 AND is_system = FALSE AND removed_at IS NULL
+         RETURNING ${PLAYER_COLUMNS}`,
+        [nickname, targetId, session.id]
+      );
+      if (result.rows.length === 0) {
+        throw new ModerationError('Player not in this session', 'UNKNOWN_PLAYER');
+      }
+      await this.logAction(client, session, 'RENAME', { targetPlayerId: targetId, nickname });
+      return toModeratedPlayer(result.rows[0]);
+    });
+
+    this.broadcastPlayer(session, player);
+    return player;
+  }
+
+  /** stop a player submitting headlines for a while */
+  async mute(session: ModeratedSession, targetId: string, minutes: number): Promise<ModeratedPlayer> {
+    this.assertNotHost(session, targetId, 'The host cannot mute themselves');
+    return this.updateMute(session, targetId, minutes);
+  }
+
+  async unmute(session: ModeratedSession, targetId: string): Promise<ModeratedPlayer> {
+    return this.updateMute(session, targetId, null);
+  }
+
+  /** hand the host role to another player */
+  async transferHost(session: ModeratedSession, targetId: string): Promise<void> {
+    this.assertNotHost(session, targetId, 'You are already the host');
+
+    const players = await this.inTransaction(async (client) => {
+      const target = await client.query(
+        `UPDATE session_players SET is_host = TRUE
+         WHERE id = $1 AND session_id = $2 AND is_system = FALSE AND removed_at IS NULL
+         RETURNING ${PLAYER_COLUMNS}`,
+        [targetId, session.id]
+      );
+      if (target.rows.length === 0) {
+        throw new ModerationError('Player not in this session', 'UNKNOWN_PLAYER');
+      }
+      const previous = await client.query(
+        `UPDATE session_players SET is_host = FALSE
+         WHERE session_id = $1 AND id <> $2 AND is_host = TRUE
+         RETURNING ${PLAYER_COLUMNS}`,
+        [session.id, targetId]
+      );
+      await client.query(`UPDATE game_sessions SET host_player_id = $1 WHERE id = $2`, [
+        targetId,
+        session.id,
+      ]);
+      await this.logAction(client, session, 'TRANSFER_HOST', { targetPlayerId: targetId });
+      return [...previous.rows, ...target.rows].map(toModeratedPlayer);
+    });
+
+    for (const player of players) {
+      this.broadcastPlayer(session, player);
+    }
+    this.io?.to(`session:${session.joinCode}`).emit('lobby:host_changed', {
+      hostPlayerId: targetId,
+      previousHostId: session.hostPlayerId,
+    });
+  }
+
+  /**
+   * stop (or allow again) new players joining, in any phase. players already in
+   * the session can still reconnect and rejoin with their recovery code.
+   */
+  async setJoinLocked(session: ModeratedSession, locked: boolean): Promise<void> {
+    await this.inTransaction(async (client) => {
+      await client.query(`UPDATE game_sessions SET join_locked = $1 WHERE id = $2`, [
+        locked,
+        session.id,
+      ]);
+      await this.logAction(client, session, locked ? 'LOCK' : 'UNLOCK', {});
+    });
+
+    this.io?.to(`session:${session.joinCode}`).emit('lobby:join_locked', { locked });
+  }
+
+  /** move a player to another team; only in the lobby, so scores stay put */
+  async setTeam(session: ModeratedSession, targetId: string, team: string): Promise<ModeratedPlayer> {
+    this.assertTeamsOpen(session);
+
+    const player = await this.inTransaction(async (client) => {
+      const teams = await this.loadTeams(client, session);
+      if (!teams.includes(team)) {
+        throw new ModerationError(`No team called ${team}`, 'UNKNOWN_TEAM');
+      }
+
+      const result = await client.query(
+        `UPDATE session_players SET team = $1
+         WHERE id = $2 AND session_id = $3 AND is_system = FALSE AND removed_at IS NULL
+         RETURNING ${PLAYER_COLUMNS}`,
+        [team, targetId, session.id]
+      );
+      if (result.rows.length === 0) {
+        throw new ModerationError('Player not in this session', 'UNKNOWN_PLAYER');
+      }
+      await this.logAction(client, session, 'SET_TEAM', { targetPlayerId: targetId, team });
+      return toModeratedPlayer(result.rows[0]);
+    });
+
+    this.broadcastPlayer(session, player);
+    return player;
+  }
+
+  /** shuffle everyone in the lobby into evenly sized teams */
+  async balanceTeams(session: ModeratedSession): Promise<ModeratedPlayer[]> {
+    this.assertTeamsOpen(session);
+
+    const players = await this.inTransaction(async (client) => {
+      const teams = await this.loadTeams(client, session);
+      const roster = await client.query(
+        `SELECT id FROM session_players
+         WHERE session_id = $1 AND is_system = FALSE AND removed_at IS NULL
+         ORDER BY random()`,
+        [session.id]
+      );
+      const assignments = balanceTeams(
+        roster.rows.map((row: { id: string }) => row.id),
+        teams
+      );
+
+      const updated: ModeratedPlayer[] = [];
+      for (const [playerId, team] of assignments) {
+        const result = await client.query(
+          `UPDATE session_players SET team = $1 WHERE id = $2 RETURNING ${PLAYER_COLUMNS}`,
+          [team, playerId]
+        );
+        updated.push(toModeratedPlayer(result.rows[0]));
+      }
+      await this.logAction(client, session, 'BALANCE_TEAMS', {
+        assignments: Object.fromEntries(assignments),
+      });
+      return updated;
+    });
+
+    for (const player of players) {
+      this.broadcastPlayer(session, player);
+    }
+    return players;
+  }
+
+  /** mute for `minutes`, or unmute when null */
+  private async updateMute(
+    session: ModeratedSession,
+    targetId: string,
+    minutes: number | null
+  ): Promise<ModeratedPlayer> {
+    const player = await this.inTransaction(async (client) => {
+      const result = await client.query(
+        `UPDATE session_players
+         SET muted_until = CASE WHEN $1::int IS NULL THEN NULL ELSE NOW() + make_interval(mins => $1::int) END
+         WHERE id = $2 AND session_id = $3 AND is_system = FALSE AND removed_at IS NULL
+         RETURNING ${PLAYER_COLUMNS}`,
+        [minutes, targetId, session.id]
+      );
+      if (result.rows.length === 0) {
+        throw new ModerationError('Player not in this session', 'UNKNOWN_PLAYER');
+      }
+      await this.logAction(
+        client,
+        session,
+        minutes === null ? 'UNMUTE' : 'MUTE',
+        minutes === null ? { targetPlayerId: targetId } : { targetPlayerId: targetId, minutes }
+      );
+      return toModeratedPlayer(result.rows[0]);
+    });
+
+    this.broadcastPlayer(session, player);
+    return player;
+  }
+
+  private assertNotHost(session: ModeratedSession, targetId: string, message: string): void {
+    if (targetId === session.hostPlayerId) {
+      throw new ModerationError(message, 'INVALID_TARGET');
+    }
+  }
+
+  /** teams are fixed once the game starts, so team totals stay comparable */
+  private assertTeamsOpen(session: ModeratedSession): void {
+    if (session.phase !== 'WAITING') {
+      throw new ModerationError('Teams can only be changed in the lobby', 'TEAMS_LOCKED');
+    }
+  }
+
+  private async loadTeams(client: PoolClient, session: ModeratedSession): Promise<string[]> {
+    const result = await client.query(`SELECT teams FROM game_sessions WHERE id = $1`, [session.id]);
+    const teams = teamsFromRow(result.rows[0]?.teams);
+    if (teams.length === 0) {
+      throw new ModerationError('This game is not played in teams', 'NO_TEAMS');
+    }
+    return teams;
+  }
+
+  private broadcastPlayer(session: ModeratedSession, player: ModeratedPlayer): void {
+    this.io?.to(`session:${session.joinCode}`).emit('lobby:player_updated', {
+      playerId: player.id,
+      player,
+    });
+  }
+
+  /** moderation rows don't change the phase: from_phase = to_phase, like pause/resume */
+  private async logAction(
+    client: PoolClient,
+    session: ModeratedSession,
+    action: ModerationAction,
+    details: Record<string, unknown>
+  ): Promise<void> {
+    await client.query(
+      `INSERT INTO game_session_state_transitions
+       (session_id, from_phase, to_phase, round_no, action, details)
+       VALUES ($1, $2, $2, $3, $4, $5)`,
+      [
+        session.id,
+        session.phase,
+        session.currentRound,
+        action,
+        JSON.stringify({ playerId: session.hostPlayerId, ...details }),
+      ]
+    );
+  }
+
+  private async inTransaction<T>(work: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await work(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+}
+
+export const playerModeration = new PlayerModeration();
@@ -0,0 +1,264 @@
+/**
+ * prompt comparison: replay a session's stored story directions through two
+ * juror prompt variants and put the verdicts side by side.
+ *
+ * a sample of the session's evaluated headlines is re-judged under each
+ * variant with the same context the headline was submitted into (the headlines
+ * before it, the session's planets and topic). the levels of the two variants
+ * are compared like two raters (rating/agreement.ts). comparing a variant with
+ * itself measures how much the juror varies between runs.
+ *
+ * nothing is written back. used by `npm run compare-prompts`.
+ */
+
+import pool from '../db/pool.js';
+import { HeadlineBands, JurorEvaluationOutput } from '../llm/jurorPrompt.js';
+import { getPromptVariant } from '../llm/promptRegistry.js';
+import { PairAgreement, RatingDistribution, compareRaters, ratingDistribution } from '../rating/agreement.js';
+import { PlausibilityLevel } from './scoringTypes.js';
+import { evaluateJuror } from './jurorService.js';
+import { fetchJurorContext } from './headlineEvaluationService.js';
+import { planetSetFromRow, toJurorPlanets } from './planets.js';
+import { scenarioFromRow } from './scenarios.js';
+
+export const DEFAULT_COMPARISON_SAMPLE = 20;
+export const MAX_COMPARISON_SAMPLE = 100;
+
+export class PromptComparisonError extends Error {
+  constructor(
+    message: string,
+    public code: string
+  ) {
+    super(message);
+    this.name = 'PromptComparisonError';
+  }
+}
+
+export interface PromptComparisonRequest {
+  joinCode: string;
+  /** two juror variant ids; the same one twice measures run-to-run noise */
+  variants: [string, string];
+  /** headlines to replay, picked at random */
+  sampleSize?: number;
+}
+
+/** one variant's verdict on a headline */
+export interface ComparisonVerdict {
+  variant: string;
+  /** null when the call failed */
+  level: PlausibilityLevel | null;
+  rationale: string | null;
+  /** the variant's headline at the band the dice picked in the game */
+  headline: string | null;
+  planets: string[];
+  error: string | null;
+}
+
+export interface ComparisonItem {
+  headlineId: string;
+  roundNo: number;
+  storyDirection: string;
+  /** the stored verdict and the prompt that produced it */
+  storedLevel: PlausibilityLevel | null;
+  storedPromptVersion: string | null;
+  verdicts: [ComparisonVerdict, ComparisonVerdict];
+}
+
+export interface VariantSummary {
+  variant: string;
+  evaluated: number;
+  failed: number;
+  meanLevel: number | null;
+  distribution: RatingDistribution;
+}
+
+export interface PromptComparison {
+  joinCode: string;
+  variants: [string, string];
+  comparedAt: string;
+  items: ComparisonItem[];
+  summaries: [VariantSummary, VariantSummary];
+  /** the second variant's levels against the first's, on items both evaluated */
+  agreement: PairAgreement;
+}
+
+function toVerdict(variant: string, output: JurorEvaluationOutput, band: number | null): ComparisonVerdict {
+  const level = output.PLAUSIBILITY.band as PlausibilityLevel;
+  const bands: HeadlineBands = output.HEADLINES.bands;
+  return {
+    variant,
+    level,
+    rationale: output.PLAUSIBILITY.rationale,
+    headline: bands[`band${band ?? level}` as keyof HeadlineBands] ?? null,
+    planets: output.PLANETS.top3.map((planet) => planet.id),
+    error: null,
+  };
+}
+
+function summarizeVariant(variant: string, verdicts: ComparisonVerdict[]): VariantSummary {
+  const levels = verdicts.map((v) => v.level).filter((level): level is PlausibilityLevel => level !== null);
+  return {
+    variant,
+    evaluated: levels.length,
+    failed: verdicts.length - levels.length,
+    meanLevel: levels.length === 0 ? null : levels.reduce((sum, level) => sum + level, 0) / levels.length,
+    distribution: ratingDistribution(levels),
+  };
+}
+
+/** per-variant summaries and the agreement between the two */
+export function summarizeComparison(
+  variants: [string, string],
+  items: ComparisonItem[]
+): Pick<PromptComparison, 'summaries' | 'agreement'> {
+  const levelsOf = (arm: 0 | 1) =>
+    new Map(
+      items
+        .filter((item) => item.verdicts[arm].level !== null)
+        .map((item) => [item.headlineId, item.verdicts[arm].level as PlausibilityLevel])
+    );
+  return {
+    summaries: [
+      summarizeVariant(variants[0], items.map((item) => item.verdicts[0])),
+      summarizeVariant(variants[1], items.map((item) => item.verdicts[1])),
+    ],
+    agreement: compareRaters({ rater: variants[0], ratings: levelsOf(0) }, { rater: variants[1], ratings: levelsOf(1) }),
+  };
+}
+
+/**
+ * run the comparison. the variants are called one after the other for each
+ * headline; a failed call is recorded on its verdict and the run goes on.
+ *
+ * @throws {PromptRegistryError} when a variant is not a juror prompt
+ * @throws {PromptComparisonError} SESSION_NOT_FOUND, NO_HEADLINES
+ */
+export async function comparePromptVariants(request: PromptComparisonRequest): Promise<PromptComparison> {
+  const { joinCode, variants } = request;
+  variants.forEach((id) => getPromptVariant('juror', id));
+  const sampleSize = Math.min(request.sampleSize ?? DEFAULT_COMPARISON_SAMPLE, MAX_COMPARISON_SAMPLE);
+
+  const sessionResult = await pool.query(
+    `SELECT id, join_code, planet_set, scenario FROM game_sessions WHERE join_code = $1`,
+    [joinCode]
+  );
+  if (sessionResult.rows.length === 0) {
+    throw new PromptComparisonError('Session not found', 'SESSION_NOT_FOUND');
+  }
+  const session = sessionResult.rows[0];
+  const planetList = toJurorPlanets(planetSetFromRow(session.planet_set).planets);
+  const topic = scenarioFromRow(session.scenario).topic;
+
+  const headlineResult = await pool.query(
+    `SELECT * FROM (
+       SELECT h.id, h.round_no, h.headline_text, h.created_at, h.plausibility_level,
+              h.selected_band, h.prompt_version
+       FROM game_session_headlines h
+       JOIN session_players p ON p.id = h.player_id
+       WHERE h.session_id = $1 AND p.is_system = FALSE AND h.llm_status = 'evaluated'
+       ORDER BY random()
+       LIMIT $2
+     ) sample
+     ORDER BY created_at ASC`,
+    [session.id, sampleSize]
+  );
+  if (headlineResult.rows.length === 0) {
+    throw new PromptComparisonError('The session has no evaluated headlines', 'NO_HEADLINES');
+  }
+
+  const items: ComparisonItem[] = [];
+  for (const row of headlineResult.rows) {
+    const headlinesList = await fetchJurorContext(session.id, row.created_at);
+    const verdicts: ComparisonVerdict[] = [];
+    for (const variant of variants) {
+      try {
+        const result = await evaluateJuror({
+          storyDirection: row.headline_text,
+          headlinesList,
+          planetList,
+          topic,
+          promptVariant: variant,
+        });
+        verdicts.push(toVerdict(variant, result.evaluation, row.selected_band));
+      } catch (err) {
+        verdicts.push({
+          variant,
+          level: null,
+          rationale: null,
+          headline: null,
+          planets: [],
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+    items.push({
+      headlineId: row.id,
+      roundNo: row.round_no,
+      storyDirection: row.headline_text,
+      storedLevel: row.plausibility_level,
+      storedPromptVersion: row.prompt_version ?? null,
+      verdicts: verdicts as [ComparisonVerdict, ComparisonVerdict],
+    });
+  }
+
+  return {
+    joinCode: session.join_code,
+    variants,
+    comparedAt: new Date().toISOString(),
+    items,
+    ...summarizeComparison(variants, items),
+  };
+}
+
+function markdownCell(value: string | number | null): string {
+  return value === null ? '-' : String(value).replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function formatNumber(value: number | null, digits = 2): string {
+  return value === null ? '-' : value.toFixed(digits);
+}
+
+/** the comparison as a markdown report: the summary, then one row per headline */
+export function comparisonToMarkdown(comparison: PromptComparison): string {
+  const [a, b] = comparison.variants;
+  const { agreement } = comparison;
+  const lines = [
+    `# Prompt comparison: ${a} vs ${b}`,
+    '',
+    `Session ${comparison.joinCode}, ${comparison.items.length} headlines, compared ${comparison.comparedAt}`,
+    '',
+    '| Variant | Evaluated | Failed | Mean level | 1 | 2 | 3 | 4 | 5 |',
+    '| --- | --- | --- | --- | --- | --- | --- | --- | --- |',
+    ...comparison.summaries.map(
+      (s) =>
+        `| ${s.variant} | ${s.evaluated} | ${s.failed} | ${formatNumber(s.meanLevel)} | ` +
+        `${[1, 2, 3, 4, 5].map((level) => s.distribution[level as PlausibilityLevel]).join(' | ')} |`
+    ),
+    '',
+    `Same level on ${formatNumber(agreement.exact.rate * 100, 0)}% of ${agreement.n} headlines ` +
+      `(95% CI ${formatNumber(agreement.exact.low * 100, 0)}-${formatNumber(agreement.exact.high * 100, 0)}%), ` +
+      `kappa ${formatNumber(agreement.kappa)}, weighted kappa ${formatNumber(agreement.weightedKappa)}, ` +
+      `mean difference ${formatNumber(agreement.meanDifference)}`,
+    '',
+    `| Round | Story direction | Stored | ${a} | ${b} | ${a} headline | ${b} headline |`,
+    '| --- | --- | --- | --- | --- | --- | --- |',
+    ...comparison.items.map((item) => {
+      const [first, second] = item.verdicts;
+      return [
+        '',
+        item.roundNo,
+        markdownCell(item.storyDirection),
+        item.storedLevel === null ? '-' : `${item.storedLevel} (${item.storedPromptVersion ?? 'unversioned'})`,
+        first.error ? 'error' : markdownCell(first.level),
+        second.error ? 'error' : markdownCell(second.level),
+        markdownCell(first.headline),
+        markdownCell(second.headline),
+        '',
+      ]
+        .join(' | ')
+        .trim();
+    }),
+    '',
+  ];
+  return lines.join('\n');
+}
@@ -0,0 +1,18 @@
+/**
+ * a session's prompt assignments (game_sessions.prompt_experiment), read at
+ * each llm call so the juror queues and the summaries need not carry them.
+ * which variant a call gets is decided in llm/promptRegistry.ts.
+ */
+
+import pool from '../db/pool.js';
+import { PromptKind, pickPromptVariant, promptExperimentFromRow } from '../llm/promptRegistry.js';
+
+/**
+ * the prompt variant id for one llm call of a session.
+ *
+ * @param unitId - what the call is for (a headline id, a summary's round), so the split is stable
+ */
+export async function sessionPromptVariant(sessionId: string, kind: PromptKind, unitId: string): Promise<string> {
+  const result = await pool.query(`SELECT prompt_experiment FROM game_sessions WHERE id = $1`, [sessionId]);
+  return pickPromptVariant(kind, promptExperimentFromRow(result.rows[0]?.prompt_experiment), unitId);
+}
@@ -0,0 +1,174 @@
+/**
+ * scenario packs: what a game is about.
+ *
+ * a pack bundles the topic the juror and summaries are told about, the seed
+ * headlines the Archive posts during the tutorial, the planet set and the
+ * in-game start year. built-in packs live here; hosts can upload more as json
+ * or yaml, which are stored in scenario_packs. a session keeps a copy of its
+ * pack in game_sessions.scenario.
+ */
+
+import { parse as parseYaml } from 'yaml';
+import { ZodError } from 'zod';
+import pool from '../db/pool.js';
+import { ScenarioTopic, DEFAULT_SCENARIO_TOPIC } from '../llm/scenarioTopic.js';
+import { SeedHeadline, SEED_HEADLINES, CLIMATE_SEED_HEADLINES } from './seedHeadlines.js';
+import { PlanetSetInput } from './planets.js';
+import { scenarioPackSchema } from '../utils/validation.js';
+
+export interface ScenarioPack {
+  id: string;
+  name: string;
+  /** one line for the scenario picker */
+  description: string;
+  topic: ScenarioTopic;
+  /** posted by the Archive during the tutorial, oldest first */
+  seedHeadlines: SeedHeadline[];
+  /** planets used unless the host picks others */
+  planetSet: PlanetSetInput;
+  /** first in-game year unless the host sets one; null starts at the real date */
+  startYear: number | null;
+}
+
+export class ScenarioPackError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'ScenarioPackError';
+  }
+}
+
+export const BUILT_IN_SCENARIOS: ScenarioPack[] = [
+  {
+    id: 'ai',
+    name: 'AI futures',
+    description: 'The next decades of artificial intelligence, seeded with real AI news from 2022-2025.',
+    topic: DEFAULT_SCENARIO_TOPIC,
+    seedHeadlines: SEED_HEADLINES,
+    planetSet: { pack: 'classic' },
+    startYear: null,
+  },
+  {
+    id: 'climate',
+    name: 'Climate futures',
+    description: 'How a warming world adapts, seeded with real climate news from 2022-2025.',
+    topic: {
+      subject: 'climate change',
+      framing: 'the near future of climate change and how the world responds to it',
+    },
+    seedHeadlines: CLIMATE_SEED_HEADLINES,
+    planetSet: { pack: 'climate' },
+    startYear: null,
+  },
+];
+
+export const DEFAULT_SCENARIO = 'ai';
+
+function getBuiltInScenario(id: string): ScenarioPack | undefined {
+  return BUILT_IN_SCENARIOS.find((s) => s.id === id);
+}
+
+/**
+ * validate a scenario pack given as an object (e.g. a json request body).
+ *
+ * @throws {ScenarioPackError} INVALID_PACK with the validation issues
+ */
+export function validateScenarioPack(definition: unknown): ScenarioPack {
+  try {
+    return scenarioPackSchema.parse(definition);
+  } catch (err) {
+    if (err instanceof ZodError) {
+      throw new ScenarioPackError('Invalid scenario pack', 'INVALID_PACK', { issues: err.errors });
+    }
+    throw err;
+  }
+}
+
+/**
+ * parse and validate a scenario pack file. yaml is a superset of json, so
+ * both formats go through the yaml parser.
+ *
+ * @throws {ScenarioPackError} INVALID_FORMAT if the text does not parse, INVALID_PACK
+ *   if it is not a valid pack
+ */
+export function parseScenarioPack(source: string): ScenarioPack {
+  let definition: unknown;
+  try {
+    definition = parseYaml(source);
+  } catch (err) {
+    throw new ScenarioPackError(
+      `Scenario pack is not valid JSON or YAML: ${err instanceof Error ? err.message : String(err)}`,
+      'INVALID_FORMAT'
+    );
+  }
+  return validateScenarioPack(definition);
+}
+
+/**
+ * every available pack: built-ins first, then uploads oldest first.
+ */
+export async function listScenarioPacks(): Promise<ScenarioPack[]> {
+  const result = await pool.query(
+    'SELECT definition FROM scenario_packs ORDER BY created_at ASC'
+  );
+  return [...BUILT_IN_SCENARIOS, ...result.rows.map((row) => row.definition as ScenarioPack)];
+}
+
+export async function getScenarioPack(id: string): Promise<ScenarioPack | null> {
+  const builtIn = getBuiltInScenario(id);
+  if (builtIn) {
+    return builtIn;
+  }
+  const result = await pool.query('SELECT definition FROM scenario_packs WHERE id = $1', [id]);
+  return result.rows.length > 0 ? (result.rows[0].definition as ScenarioPack) : null;
+}
+
+/**
+ * store an uploaded pack. ids are never reused, so a session's copy always
+ * matches the pack it names.
+ *
+ * @throws {ScenarioPackError} DUPLICATE_ID if a pack with the id already exists
+ */
+export async function saveScenarioPack(pack: ScenarioPack): Promise<void> {
+  if (getBuiltInScenario(pack.id)) {
+    throw new ScenarioPackError(`Scenario "${pack.id}" already exists`, 'DUPLICATE_ID');
+  }
+  const result = await pool.query(
+    `INSERT INTO scenario_packs (id, definition)
+     VALUES ($1, $2)
+     ON CONFLICT (id) DO NOTHING
+     RETURNING id`,
+    [pack.id, JSON.stringify(pack)]
+  );
+  if (result.rows.length === 0) {
+    throw new ScenarioPackError(`Scenario "${pack.id}" already exists`, 'DUPLICATE_ID');
+  }
+}
+
+/** what players are told about their session's scenario */
+export interface ScenarioSummary {
+  id: string;
+  name: string;
+  topic: ScenarioTopic;
+}
+
+export function scenarioSummary(pack: ScenarioPack): ScenarioSummary {
+  return { id: pack.id, name: pack.name, topic: pack.topic };
+}
+
+/**
+ * read a session's scenario back from game_sessions.scenario. sessions created
+ * before scenario packs existed (null) play the built-in AI scenario.
+ */
+export function scenarioFromRow(raw: unknown): ScenarioPack {
+  if (raw && typeof raw === 'object') {
+    const pack = raw as Partial<ScenarioPack>;
+    if (typeof pack.id === 'string' && pack.topic && Array.isArray(pack.seedHeadlines)) {
+      return pack as ScenarioPack;
+    }
+  }
+  return getBuiltInScenario(DEFAULT_SCENARIO)!;
+}
@@ -0,0 +1,263 @@
+/**
+ * score replay: recompute a session's headline scores under any scoring config.
+ *
+ * the headlines are replayed in created_at order through the pure functions in
+ * scoring.ts and planetUsage.ts, starting from zero planet usage, with the
+ * juror's stored verdicts (plausibility level, connection count, planet picks)
+ * and the dice (selected band, and a risk-mode bet's target band).
+ * each headline's replayed score is compared to its stored total_headline_score,
+ * so games played under older rules can be put side by side with new ones.
+ *
+ * nothing is written back. used by `npm run replay-scores` and the admin route.
+ */
+
+import pool from '../db/pool.js';
+import {
+  HeadlineScoreBreakdown,
+  PlanetId,
+  PlausibilityLevel,
+  ScoringConfig,
+} from './scoringTypes.js';
+import { computeHeadlineScore, computePlanetBandScore } from './scoring.js';
+import { GlobalUsage, applyGlobalPlanetScoring, initialGlobalUsage, migrateGlobalUsage } from './planetUsage.js';
+import { getPlanetIds, planetSetFromRow } from './planets.js';
+import {
+  ScoringRulesRequest,
+  SessionScoring,
+  resolveSessionScoring,
+  sessionScoringFromRow,
+  toScoringConfig,
+} from './scoringRules.js';
+
+export class ScoreReplayError extends Error {
+  constructor(
+    message: string,
+    public code: string
+  ) {
+    super(message);
+    this.name = 'ScoreReplayError';
+  }
+}
+
+/** a stored headline, as the replay needs it */
+export interface ReplayHeadline {
+  id: string;
+  playerId: string;
+  nickname: string;
+  roundNo: number;
+  createdAt: string;
+  /** the juror's level; null if the headline was never scored */
+  plausibilityLevel: PlausibilityLevel | null;
+  uniqueOtherAuthors: number;
+  /** set when the connection count was read from a pre-count row (see connectionCountFromRow) */
+  legacyConnection: boolean;
+  /** the juror's planet picks, primary first */
+  planets: PlanetId[];
+  /** the band the dice landed on */
+  selectedBand?: PlausibilityLevel | null;
+  /** the band bet on in risk mode */
+  targetBand?: PlausibilityLevel | null;
+  /** false for headlines the host hid: scored, but left out of totals and planet usage */
+  counted: boolean;
+  storedTotal: number | null;
+}
+
+export interface ReplayedHeadline {
+  id: string;
+  playerId: string;
+  nickname: string;
+  roundNo: number;
+  createdAt: string;
+  counted: boolean;
+  legacyConnection: boolean;
+  storedTotal: number | null;
+  /** null for headlines that were never scored */
+  replayed: HeadlineScoreBreakdown | null;
+  /** replayed minus stored total, null when either is missing */
+  delta: number | null;
+}
+
+export interface ReplayPlayerTotal {
+  playerId: string;
+  nickname: string;
+  /** sum of the stored scores of the player's counted headlines (catch-up points aside) */
+  stored: number;
+  replayed: number;
+  delta: number;
+}
+
+export interface ScoreReplay {
+  headlines: ReplayedHeadline[];
+  /** highest replayed total first */
+  players: ReplayPlayerTotal[];
+  /** planet usage at the end of the replay */
+  usage: GlobalUsage;
+  /** how many headlines score differently */
+  changed: number;
+}
+
+export interface SessionScoreReplay extends ScoreReplay {
+  joinCode: string;
+  /** the rules the headlines were replayed under */
+  scoring: SessionScoring;
+  /** the session's planet usage as stored, to compare with `usage` */
+  storedUsage: GlobalUsage;
+}
+
+/**
+ * the unique-other-author count from others_story_connection_level. current
+ * rows hold the count itself; rows from before it held LOW/MEDIUM/HIGH or
+ * OTHERS/SELF/NONE, which only say whether another player's headline was
+ * linked, so they replay as 1 or 0 and are marked legacy.
+ */
+export function connectionCountFromRow(level: string | null): { count: number; legacy: boolean } {
+  if (level === null || level === '') {
+    return { count: 0, legacy: false };
+  }
+  const count = Number(level);
+  if (Number.isInteger(count)) {
+    return { count: Math.min(Math.max(count, 0), 3), legacy: false };
+  }
+  return { count: ['OTHERS', 'LOW', 'MEDIUM', 'HIGH'].includes(level) ? 1 : 0, legacy: true };
+}
+
+/**
+ * replay headlines under `config`. headlines are taken in created_at order
+ * (ties keep the given order); unscored ones are listed but skip scoring.
+ */
+export function replayScores(
+  headlines: ReplayHeadline[],
+  planetIds: PlanetId[],
+  config: ScoringConfig
+): ScoreReplay {
+  const ordered = headlines
+    .map((headline, index) => ({ headline, index }))
+    .sort(
+      (a, b) =>
+        new Date(a.headline.createdAt).getTime() - new Date(b.headline.createdAt).getTime() ||
+        a.index - b.index
+    )
+    .map(({ headline }) => headline);
+
+  let usage = initialGlobalUsage(planetIds);
+  const totals = new Map<string, ReplayPlayerTotal>();
+  const replayedHeadlines: ReplayedHeadline[] = [];
+
+  for (const headline of ordered) {
+    let replayed: HeadlineScoreBreakdown | null = null;
+    if (headline.plausibilityLevel !== null && headline.storedTotal !== null) {
+      const planetResult = applyGlobalPlanetScoring(usage, headline.planets, planetIds);
+      replayed = computeHeadlineScore(
+        {
+          plausibilityLevel: headline.plausibilityLevel,
+          selectedBand: headline.selectedBand ?? headline.plausibilityLevel,
+          targetBand: headline.selectedBand ? (headline.targetBand ?? null) : null,
+          uniqueOtherAuthors: headline.uniqueOtherAuthors,
+          aiPlanetRankings: headline.planets,
+          roundNo: headline.roundNo,
+        },
+        computePlanetBandScore(planetResult.bonus, config),
+        config
+      );
+      if (headline.counted) {
+        usage = planetResult.updatedUsage;
+      }
+    }
+
+    const total = totals.get(headline.playerId) ?? {
+      playerId: headline.playerId,
+      nickname: headline.nickname,
+      stored: 0,
+      replayed: 0,
+      delta: 0,
+    };
+    if (headline.counted) {
+      total.stored += headline.storedTotal ?? 0;
+      total.replayed += replayed?.total ?? 0;
+      total.delta = total.replayed - total.stored;
+    }
+    totals.set(headline.playerId, total);
+
+    replayedHeadlines.push({
+      id: headline.id,
+      playerId: headline.playerId,
+      nickname: headline.nickname,
+      roundNo: headline.roundNo,
+      createdAt: headline.createdAt,
+      counted: headline.counted,
+      legacyConnection: headline.legacyConnection,
+      storedTotal: headline.storedTotal,
+      replayed,
+      delta: replayed && headline.storedTotal !== null ? replayed.total - headline.storedTotal : null,
+    });
+  }
+
+  return {
+    headlines: replayedHeadlines,
+    players: Array.from(totals.values()).sort((a, b) => b.replayed - a.replayed),
+    usage,
+    changed: replayedHeadlines.filter((h) => h.delta !== null && h.delta !== 0).length,
+  };
+}
+
+/**
+ * replay a stored session. without `rules` the session's own scoring rules are
+ * used, which shows what the stored scores drifted from (corrections, code
+ * changes); with them, a preset and/or tuned points to compare against.
+ *
+ * @throws {ScoreReplayError} SESSION_NOT_FOUND
+ */
+export async function replaySessionScores(
+  joinCode: string,
+  rules?: ScoringRulesRequest
+): Promise<SessionScoreReplay> {
+  const sessionResult = await pool.query(
+    `SELECT id, join_code, planet_set, scoring_rules, planet_usage_global
+     FROM game_sessions WHERE join_code = $1`,
+    [joinCode]
+  );
+  if (sessionResult.rows.length === 0) {
+    throw new ScoreReplayError('Session not found', 'SESSION_NOT_FOUND');
+  }
+  const session = sessionResult.rows[0];
+  const planetIds = getPlanetIds(planetSetFromRow(session.planet_set).planets);
+  const scoring = rules ? resolveSessionScoring(rules) : sessionScoringFromRow(session.scoring_rules);
+
+  // the Archive's seed headlines are never scored, so they are left out
+  const headlineResult = await pool.query(
+    `SELECT h.id, h.player_id, p.nickname, h.round_no, h.created_at, h.plausibility_level,
+            h.others_story_connection_level, h.planet_1, h.planet_2, h.planet_3,
+            h.selected_band, h.dice_target_band, h.total_headline_score, h.moderation_status
+     FROM game_session_headlines h
+     JOIN session_players p ON p.id = h.player_id
+     WHERE h.session_id = $1 AND p.is_system = FALSE
+     ORDER BY h.created_at ASC, h.id ASC`,
+    [session.id]
+  );
+
+  const headlines: ReplayHeadline[] = headlineResult.rows.map((row) => {
+    const connection = connectionCountFromRow(row.others_story_connection_level);
+    return {
+      id: row.id,
+      playerId: row.player_id,
+      nickname: row.nickname,
+      roundNo: row.round_no,
+      createdAt: new Date(row.created_at).toISOString(),
+      plausibilityLevel: row.plausibility_level,
+      uniqueOtherAuthors: connection.count,
+      legacyConnection: connection.legacy,
+      planets: [row.planet_1, row.planet_2, row.planet_3].filter((p): p is string => !!p),
+      selectedBand: row.selected_band,
+      targetBand: row.dice_target_band,
+      counted: row.moderation_status !== 'hidden',
+      storedTotal: row.total_headline_score,
+    };
+  });
+
+  return {
+    joinCode: session.join_code,
+    scoring,
+    storedUsage: migrateGlobalUsage(session.planet_usage_global, planetIds),
+    ...replayScores(headlines, planetIds, toScoringConfig(scoring.rules)),
+  };
+}
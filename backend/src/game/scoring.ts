@@ -5,6 +5,7 @@
 
 import {
   PlausibilityLevel,
+  PlanetBand,
   StoryConnectionLevel,
   ScoringConfig,
   HeadlineScoringInput,
@@ -95,6 +96,38 @@ export function computeConnectionScore(
   return config.connectionPoints.scale[idx] ?? 0;
 }
 
+/**
+ * compute planet points from the band the primary planet sits in
+ * (default +0 / +1 / +2 for the most / middle / least used band).
+ *
+ * @param band - the primary planet's band (planetUsage.ts)
+ * @param config - scoring configuration
+ * @returns planet bonus points
+ */
+export function computePlanetBandScore(band: PlanetBand, config: ScoringConfig): number {
+  return config.planetBandPoints.points[band] ?? 0;
+}
+
+/**
+ * compute the points for a risk-mode bet: the declared band's riskBetPoints
+ * when the dice landed on it, otherwise (and without a bet) 0.
+ *
+ * @param targetBand - the band the player bet on, or null
+ * @param selectedBand - the band the dice landed on
+ * @param config - scoring configuration
+ * @returns risk bonus points
+ */
+export function computeRiskBonus(
+  targetBand: PlausibilityLevel | null,
+  selectedBand: PlausibilityLevel,
+  config: ScoringConfig
+): number {
+  if (targetBand === null || targetBand !== selectedBand) {
+    return 0;
+  }
+  return config.riskBetPoints.points[targetBand - 1] ?? 0;
+}
+
 /**
  * compute the complete score breakdown for a headline.
  * this is a pure function that takes all inputs and returns the breakdown.
@@ -105,7 +138,8 @@ export function computeConnectionScore(
  *
  * important: plausibility scoring uses the ai's plausibilityLevel assessment,
  * which reflects how plausible the player's story direction is. the dice roll
- * (selectedBand) only determines which headline variant is displayed, not scoring.
+ * (selectedBand) determines which headline variant is displayed, and only
+ * scores when it lands on a risk-mode bet (targetBand).
  *
  * connection scoring uses the simplified mutually exclusive model:
  * - OTHERS: +3 pts (connected to another player's headline)
@@ -134,7 +168,9 @@ export function computeHeadlineScore(
   // connection scoring based on unique other author count
   const connectionScore = computeConnectionScore(input.uniqueOtherAuthors, config);
 
-  const total = baseline + plausibility + connectionScore + planetBonus;
+  const riskBonus = computeRiskBonus(input.targetBand ?? null, input.selectedBand, config);
+
+  const total = baseline + plausibility + connectionScore + planetBonus + riskBonus;
 
   return {
     baseline,
@@ -144,6 +180,7 @@ export function computeHeadlineScore(
     selfStory: 0,
     othersStory: 0,
     planetBonus,
+    riskBonus,
     total,
   };
 }
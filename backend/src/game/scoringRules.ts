@@ -0,0 +1,167 @@
+/**
+ * host-configurable scoring rules chosen at session creation.
+ *
+ * the host picks a preset and may tune its points: the baseline, which
+ * plausibility level is the sweet spot (and which are near it), the connection
+ * scale by unique other authors, the points per planet band, and the points for
+ * a risk-mode bet that lands (diceDistribution.ts). the resolved
+ * rules are stored on the session and turned into a ScoringConfig for
+ * applyHeadlineEvaluation and correctHeadlineScore. the classic preset
+ * reproduces DEFAULT_SCORING_CONFIG.
+ */
+
+import { DEFAULT_SCORING_CONFIG, PlausibilityLevel, ScoringConfig } from './scoringTypes.js';
+
+export interface PlausibilityRules {
+  /** the sweet-spot level */
+  targetLevel: PlausibilityLevel;
+  /** levels next to the sweet spot */
+  nearLevels: PlausibilityLevel[];
+  exactTarget: number;
+  nearTarget: number;
+  other: number;
+}
+
+export interface ScoringRules {
+  baseline: number;
+  plausibility: PlausibilityRules;
+  /** points by unique other authors: index = count (0-3) */
+  connectionScale: [number, number, number, number];
+  /** points by planet band: index = band (0 most used, 1 middle, 2 least used) */
+  planetBandPoints: [number, number, number];
+  /** points for a risk-mode bet that lands, by declared band: index = band - 1 */
+  riskBetPoints: [number, number, number, number, number];
+}
+
+export type ScoringPresetId = 'classic' | 'weavers' | 'explorers' | 'bold';
+
+export const SCORING_PRESET_IDS: ScoringPresetId[] = ['classic', 'weavers', 'explorers', 'bold'];
+
+export interface ScoringPreset {
+  id: ScoringPresetId;
+  name: string;
+  description: string;
+  rules: ScoringRules;
+}
+
+const CLASSIC_RULES: ScoringRules = {
+  baseline: DEFAULT_SCORING_CONFIG.baselineB,
+  plausibility: {
+    targetLevel: DEFAULT_SCORING_CONFIG.plausibilityPoints.targetLevel,
+    nearLevels: [...DEFAULT_SCORING_CONFIG.plausibilityPoints.nearLevels],
+    exactTarget: DEFAULT_SCORING_CONFIG.plausibilityPoints.exactTarget,
+    nearTarget: DEFAULT_SCORING_CONFIG.plausibilityPoints.nearTarget,
+    other: DEFAULT_SCORING_CONFIG.plausibilityPoints.other,
+  },
+  connectionScale: [...DEFAULT_SCORING_CONFIG.connectionPoints.scale],
+  planetBandPoints: [...DEFAULT_SCORING_CONFIG.planetBandPoints.points],
+  riskBetPoints: [...DEFAULT_SCORING_CONFIG.riskBetPoints.points],
+};
+
+export const SCORING_PRESETS: Record<ScoringPresetId, ScoringPreset> = {
+  classic: {
+    id: 'classic',
+    name: 'Classic',
+    description: 'The standard rules: a plausible-but-creative sweet spot, connections and rarely used planets.',
+    rules: CLASSIC_RULES,
+  },
+  weavers: {
+    id: 'weavers',
+    name: 'Story weavers',
+    description: "Building on other players' headlines is worth much more.",
+    rules: { ...CLASSIC_RULES, connectionScale: [0, 3, 8, 15] },
+  },
+  explorers: {
+    id: 'explorers',
+    name: 'Explorers',
+    description: 'Rarely used planets pay double; connections count for less.',
+    rules: { ...CLASSIC_RULES, connectionScale: [0, 1, 3, 6], planetBandPoints: [0, 2, 4] },
+  },
+  bold: {
+    id: 'bold',
+    name: 'Bold forecasts',
+    description: 'The sweet spot moves to level 4: surprising but still possible. Risky bets pay more.',
+    rules: {
+      ...CLASSIC_RULES,
+      plausibility: { targetLevel: 4, nearLevels: [3, 5], exactTarget: 3, nearTarget: 1, other: 0 },
+      riskBetPoints: [0, 0, 1, 5, 12],
+    },
+  },
+};
+
+export const DEFAULT_SCORING_PRESET: ScoringPresetId = 'classic';
+
+/** what the host asked for: a preset, and any points they changed */
+export interface ScoringRulesRequest {
+  preset?: ScoringPresetId;
+  baseline?: number;
+  plausibility?: Partial<PlausibilityRules>;
+  connectionScale?: [number, number, number, number];
+  planetBandPoints?: [number, number, number];
+  riskBetPoints?: [number, number, number, number, number];
+}
+
+/** the session's scoring as stored and sent to clients */
+export interface SessionScoring {
+  preset: ScoringPresetId;
+  /** set when the host changed any of the preset's points */
+  tuned: boolean;
+  rules: ScoringRules;
+}
+
+/**
+ * the preset's rules with the host's changes on top. a near level equal to the
+ * target is dropped, since the target already scores.
+ */
+export function resolveSessionScoring(request: ScoringRulesRequest = {}): SessionScoring {
+  const preset = request.preset ?? DEFAULT_SCORING_PRESET;
+  const base = SCORING_PRESETS[preset].rules;
+  const plausibility = { ...base.plausibility, ...request.plausibility };
+
+  const rules: ScoringRules = {
+    baseline: request.baseline ?? base.baseline,
+    plausibility: {
+      ...plausibility,
+      nearLevels: plausibility.nearLevels.filter((level) => level !== plausibility.targetLevel),
+    },
+    connectionScale: request.connectionScale ?? base.connectionScale,
+    planetBandPoints: request.planetBandPoints ?? base.planetBandPoints,
+    riskBetPoints: request.riskBetPoints ?? base.riskBetPoints,
+  };
+
+  // a request that repeats the preset's own points is not tuned
+  return { preset, tuned: JSON.stringify(rules) !== JSON.stringify(base), rules };
+}
+
+/** read the scoring back from a game_sessions row; NULL (older sessions) means classic */
+export function sessionScoringFromRow(raw: unknown): SessionScoring {
+  if (!raw || typeof raw !== 'object') {
+    return resolveSessionScoring();
+  }
+  const stored = raw as Partial<SessionScoring>;
+  const preset = SCORING_PRESET_IDS.includes(stored.preset as ScoringPresetId)
+    ? (stored.preset as ScoringPresetId)
+    : DEFAULT_SCORING_PRESET;
+  const base = SCORING_PRESETS[preset].rules;
+  return {
+    preset,
+    tuned: stored.tuned ?? false,
+    rules: {
+      ...base,
+      ...stored.rules,
+      plausibility: { ...base.plausibility, ...stored.rules?.plausibility },
+    },
+  };
+}
+
+/** the ScoringConfig the scoring functions take, for these rules */
+export function toScoringConfig(rules: ScoringRules): ScoringConfig {
+  return {
+    ...DEFAULT_SCORING_CONFIG,
+    baselineB: rules.baseline,
+    plausibilityPoints: { ...rules.plausibility },
+    connectionPoints: { scale: rules.connectionScale },
+    planetBandPoints: { points: rules.planetBandPoints },
+    riskBetPoints: { points: rules.riskBetPoints },
+  };
+}
@@ -4,23 +4,29 @@
  * the main api for llm/heuristic integration.
  */
 
+import type { PoolClient } from 'pg';
 import pool from '../db/pool.js';
 import {
   HeadlineEvaluationPayload,
   HeadlineEvaluationResult,
   HeadlineScoreBreakdown,
+  PlanetId,
+  PlausibilityLevel,
   PlayerScoreEntry,
   ScoringConfig,
-  DEFAULT_SCORING_CONFIG,
-  DEFAULT_PLANETS,
 } from './scoringTypes.js';
+import { sessionScoringFromRow, toScoringConfig } from './scoringRules.js';
+import { planetSetFromRow, getPlanetIds } from './planets.js';
 import {
+  GlobalUsage,
   migrateGlobalUsage,
   migratePlayerOrdinals,
   applyGlobalPlanetScoring,
+  computeBandMembership,
   computePlanetPanel,
 } from './planetUsage.js';
-import { computeHeadlineScore } from './scoring.js';
+import { computeHeadlineScore, computePlanetBandScore, computePlausibilityScore } from './scoring.js';
+import type { TeamScoreBreakdown } from './teams.js';
 
 /**
  * raw player row from database.
@@ -44,6 +50,8 @@ interface HeadlineRow {
   player_id: string;
   round_no: number;
   total_headline_score: number | null;
+  moderation_status?: string;
+  dice_target_band?: number | null;
 }
 
 export class ScoringError extends Error {
@@ -68,12 +76,12 @@ export class ScoringError extends Error {
  * 6. returns the breakdown, new total, and full leaderboard
  *
  * @param payload - evaluation payload from ai/llm
- * @param config - scoring configuration (defaults to DEFAULT_SCORING_CONFIG)
+ * @param config - scoring configuration (defaults to the session's scoring rules)
  * @returns score breakdown, new total, and leaderboard
  */
 export async function applyHeadlineEvaluation(
   payload: HeadlineEvaluationPayload,
-  config: ScoringConfig = DEFAULT_SCORING_CONFIG
+  config?: ScoringConfig
 ): Promise<HeadlineEvaluationResult> {
   const {
     sessionId,
@@ -110,7 +118,7 @@ export async function applyHeadlineEvaluation(
 
     // load and validate headline
     const headlineResult = await client.query<HeadlineRow>(
-      `SELECT id, session_id, player_id, round_no, total_headline_score
+      `SELECT id, session_id, player_id, round_no, total_headline_score, moderation_status, dice_target_band
        FROM game_session_headlines
        WHERE id = $1`,
       [headlineId]
@@ -148,31 +156,39 @@ export async function applyHeadlineEvaluation(
     }
 
     // load global planet usage; lock the session row to serialize concurrent submissions
-    const usageResult = await client.query<{ planet_usage_global: unknown }>(
-      `SELECT planet_usage_global FROM game_sessions WHERE id = $1 FOR UPDATE`,
+    const usageResult = await client.query<{
+      planet_usage_global: unknown;
+      planet_set: unknown;
+      scoring_rules?: unknown;
+    }>(
+      `SELECT planet_usage_global, planet_set, scoring_rules FROM game_sessions WHERE id = $1 FOR UPDATE`,
       [sessionId]
     );
+    const scoringConfig =
+      config ?? toScoringConfig(sessionScoringFromRow(usageResult.rows[0]?.scoring_rules).rules);
+    const planetIds = getPlanetIds(planetSetFromRow(usageResult.rows[0]?.planet_set).planets);
     const globalUsage = migrateGlobalUsage(
       usageResult.rows[0]?.planet_usage_global,
-      DEFAULT_PLANETS
+      planetIds
     );
 
     // band-based planet scoring: bonus from the primary planet's global band, +1 to its usage.
     // band membership is global (shared across players), so it does not use this player's ordinals.
-    const planetResult = applyGlobalPlanetScoring(globalUsage, aiPlanetRankings, DEFAULT_PLANETS);
+    const planetResult = applyGlobalPlanetScoring(globalUsage, aiPlanetRankings, planetIds);
 
     // calculate complete headline score.
-    // selectedBand (dice roll result) is used for plausibility scoring
+    // selectedBand (dice roll result) only scores against a risk-mode bet
     const breakdown: HeadlineScoreBreakdown = computeHeadlineScore(
       {
         plausibilityLevel,
         selectedBand,
+        targetBand: (headline.dice_target_band ?? null) as PlausibilityLevel | null,
         uniqueOtherAuthors,
         aiPlanetRankings,
         roundNo,
       },
-      planetResult.bonus,
-      config
+      computePlanetBandScore(planetResult.bonus, scoringConfig),
+      scoringConfig
     );
 
     // update headline with scoring breakdown.
@@ -195,8 +211,9 @@ export async function applyHeadlineEvaluation(
            planet_3 = $9,
            planet_bonus_score = $10,
            total_headline_score = $11,
+           risk_bonus_score = $12,
            llm_status = 'evaluated'
-       WHERE id = $12`,
+       WHERE id = $13`,
       [
         breakdown.baseline,
         plausibilityLevel,
@@ -209,56 +226,36 @@ export async function applyHeadlineEvaluation(
         planet3 ?? null,
         breakdown.planetBonus,
         breakdown.total,
+        breakdown.riskBonus,
         headlineId,
       ]
     );
 
-    // update player's total score (ordinals are immutable, so not rewritten here)
-    const newTotalScore = player.total_score + breakdown.total;
-
-    await client.query(
-      `UPDATE session_players
-       SET total_score = $1
-       WHERE id = $2`,
-      [newTotalScore, playerId]
-    );
+    // a headline the host hid while the juror ran keeps its breakdown but doesn't count
+    const hidden = headline.moderation_status === 'hidden';
+    const usage = hidden ? globalUsage : planetResult.updatedUsage;
 
-    // persist the updated global planet usage
-    await client.query(
-      `UPDATE game_sessions
-       SET planet_usage_global = $1
-       WHERE id = $2`,
-      [JSON.stringify(planetResult.updatedUsage), sessionId]
-    );
+    // update player's total score (ordinals are immutable, so not rewritten here)
+    const newTotalScore = player.total_score + (hidden ? 0 : breakdown.total);
+
+    if (!hidden) {
+      await client.query(
+        `UPDATE session_players
+         SET total_score = $1
+         WHERE id = $2`,
+        [newTotalScore, playerId]
+      );
 
-    // get updated leaderboard, including each player's ordinals so we can
-    // recompute their planet panel against the new global usage
-    const leaderboardResult = await client.query<{
-      id: string;
-      nickname: string;
-      total_score: number;
-      planet_usage_state: unknown;
-    }>(
-      `SELECT id, nickname, total_score, planet_usage_state
-       FROM session_players
-       WHERE session_id = $1 AND is_system = FALSE
-       ORDER BY total_score DESC, joined_at ASC`,
-      [sessionId]
-    );
+      // persist the updated global planet usage
+      await client.query(
+        `UPDATE game_sessions
+         SET planet_usage_global = $1
+         WHERE id = $2`,
+        [JSON.stringify(planetResult.updatedUsage), sessionId]
+      );
+    }
 
-    const leaderboard: PlayerScoreEntry[] = leaderboardResult.rows.map(
-      (row, index) => ({
-        playerId: row.id,
-        nickname: row.nickname,
-        totalScore: row.total_score,
-        rank: index + 1,
-        planetPanel: computePlanetPanel(
-          planetResult.updatedUsage,
-          migratePlayerOrdinals(row.planet_usage_state, DEFAULT_PLANETS),
-          DEFAULT_PLANETS
-        ),
-      })
-    );
+    const leaderboard = await loadLeaderboard(client, sessionId, usage, planetIds);
 
     await client.query('COMMIT');
 
@@ -275,6 +272,261 @@ export async function applyHeadlineEvaluation(
   }
 }
 
+/**
+ * the leaderboard inside a scoring transaction, including each player's ordinals
+ * so we can recompute their planet panel against the new global usage
+ */
+async function loadLeaderboard(
+  client: PoolClient,
+  sessionId: string,
+  usage: GlobalUsage,
+  planetIds: PlanetId[]
+): Promise<PlayerScoreEntry[]> {
+  const leaderboardResult = await client.query<{
+    id: string;
+    nickname: string;
+    total_score: number;
+    team: string | null;
+    planet_usage_state: unknown;
+  }>(
+    `SELECT id, nickname, total_score, team, planet_usage_state
+     FROM session_players
+     WHERE session_id = $1 AND is_system = FALSE AND removed_at IS NULL
+     ORDER BY total_score DESC, joined_at ASC`,
+    [sessionId]
+  );
+
+  return leaderboardResult.rows.map((row, index) => ({
+    playerId: row.id,
+    nickname: row.nickname,
+    totalScore: row.total_score,
+    rank: index + 1,
+    team: row.team,
+    planetPanel: computePlanetPanel(
+      usage,
+      migratePlayerOrdinals(row.planet_usage_state, planetIds),
+      planetIds
+    ),
+  }));
+}
+
+/**
+ * a host correction to a headline: hiding or restoring it, and/or overriding
+ * the juror's plausibility level or primary planet
+ */
+export interface HeadlineScoreCorrection {
+  sessionId: string;
+  headlineId: string;
+  /** whether the headline counted toward scores before this change (it wasn't hidden) */
+  wasCounted: boolean;
+  /** whether it counts afterwards */
+  counted: boolean;
+  plausibilityLevel?: PlausibilityLevel;
+  primaryPlanet?: PlanetId;
+}
+
+export interface HeadlineScoreCorrectionResult {
+  playerId: string;
+  previous: {
+    plausibilityLevel: PlausibilityLevel | null;
+    primaryPlanet: PlanetId | null;
+    total: number | null;
+  };
+  /** the corrected breakdown, or null if the headline hasn't been scored yet */
+  breakdown: HeadlineScoreBreakdown | null;
+  /** change to the author's total score */
+  scoreDelta: number;
+  newTotalScore: number;
+  leaderboard: PlayerScoreEntry[];
+}
+
+/**
+ * correct a headline's score inside the caller's transaction.
+ *
+ * the headline's planet usage is taken back out of the global counts (if it
+ * counted) and put in again for the corrected primary planet (if it still
+ * counts). a new primary planet earns the band it sits in once the old
+ * planet's use is removed, like a fresh submission would; the other
+ * components (baseline, connection, risk bonus) are kept as scored. later headlines keep
+ * the bonuses they earned at the time. the author's total_score moves by the
+ * difference. hiding or restoring a headline also takes back or restores the
+ * points its break-time votes gave the author, scored or not.
+ *
+ * @throws {ScoringError} HEADLINE_NOT_FOUND, HEADLINE_NOT_SCORED (an override on
+ *   a headline the juror hasn't scored yet), INVALID_PLANET
+ */
+export async function correctHeadlineScore(
+  client: PoolClient,
+  correction: HeadlineScoreCorrection,
+  config?: ScoringConfig
+): Promise<HeadlineScoreCorrectionResult> {
+  const { sessionId, headlineId, wasCounted, counted } = correction;
+
+  // lock the session row first, like applyHeadlineEvaluation
+  const sessionResult = await client.query<{
+    planet_usage_global: unknown;
+    planet_set: unknown;
+    scoring_rules?: unknown;
+  }>(
+    `SELECT planet_usage_global, planet_set, scoring_rules FROM game_sessions WHERE id = $1 FOR UPDATE`,
+    [sessionId]
+  );
+  const scoringConfig =
+    config ?? toScoringConfig(sessionScoringFromRow(sessionResult.rows[0]?.scoring_rules).rules);
+  const planetIds = getPlanetIds(planetSetFromRow(sessionResult.rows[0]?.planet_set).planets);
+  const usage = migrateGlobalUsage(sessionResult.rows[0]?.planet_usage_global, planetIds);
+
+  const headlineResult = await client.query<{
+    player_id: string;
+    plausibility_level: number | null;
+    plausibility_score: number | null;
+    planet_1: string | null;
+    planet_2: string | null;
+    planet_3: string | null;
+    baseline_score: number | null;
+    others_story_score: number | null;
+    planet_bonus_score: number | null;
+    risk_bonus_score: number | null;
+    total_headline_score: number | null;
+  }>(
+    `SELECT player_id, plausibility_level, plausibility_score, planet_1, planet_2, planet_3,
+            baseline_score, others_story_score, planet_bonus_score, risk_bonus_score, total_headline_score
+     FROM game_session_headlines
+     WHERE id = $1 AND session_id = $2`,
+    [headlineId, sessionId]
+  );
+  if (headlineResult.rows.length === 0) {
+    throw new ScoringError(`Headline ${headlineId} not found`, 'HEADLINE_NOT_FOUND');
+  }
+  const row = headlineResult.rows[0];
+
+  // votes counted toward total_score when they were cast, so they move with the headline
+  let voteDelta = 0;
+  if (wasCounted !== counted) {
+    const voteResult = await client.query<{ points: number }>(
+      `SELECT COALESCE(SUM(points), 0)::int AS points FROM headline_votes WHERE headline_id = $1`,
+      [headlineId]
+    );
+    const votePoints = voteResult.rows[0]?.points ?? 0;
+    voteDelta = counted ? votePoints : -votePoints;
+  }
+
+  const previous = {
+    plausibilityLevel: row.plausibility_level as PlausibilityLevel | null,
+    primaryPlanet: row.planet_1,
+    total: row.total_headline_score,
+  };
+
+  const overriding = correction.plausibilityLevel !== undefined || correction.primaryPlanet !== undefined;
+  if (row.total_headline_score === null) {
+    if (overriding) {
+      throw new ScoringError(`Headline ${headlineId} has not been scored yet`, 'HEADLINE_NOT_SCORED');
+    }
+    // only votes counted yet; applyHeadlineEvaluation checks the status when the juror finishes
+    const totalResult = await client.query<{ total_score: number }>(
+      `UPDATE session_players
+       SET total_score = total_score + $1
+       WHERE id = $2
+       RETURNING total_score`,
+      [voteDelta, row.player_id]
+    );
+    return {
+      playerId: row.player_id,
+      previous,
+      breakdown: null,
+      scoreDelta: voteDelta,
+      newTotalScore: totalResult.rows[0]?.total_score ?? 0,
+      leaderboard: await loadLeaderboard(client, sessionId, usage, planetIds),
+    };
+  }
+
+  if (correction.primaryPlanet !== undefined && !planetIds.includes(correction.primaryPlanet)) {
+    throw new ScoringError(`Unknown planet ${correction.primaryPlanet}`, 'INVALID_PLANET');
+  }
+
+  const oldPrimary = row.planet_1;
+  const primary = correction.primaryPlanet ?? oldPrimary;
+  const level = correction.plausibilityLevel ?? previous.plausibilityLevel;
+
+  if (wasCounted && oldPrimary && usage[oldPrimary] !== undefined) {
+    usage[oldPrimary] = Math.max(0, usage[oldPrimary] - 1);
+  }
+  const planetBonus =
+    primary !== oldPrimary && primary
+      ? computePlanetBandScore(computeBandMembership(usage, planetIds)[primary] ?? 0, scoringConfig)
+      : row.planet_bonus_score ?? 0;
+  if (counted && primary && usage[primary] !== undefined) {
+    usage[primary] += 1;
+  }
+
+  const baseline = row.baseline_score ?? 0;
+  const plausibility =
+    correction.plausibilityLevel !== undefined && level !== null
+      ? computePlausibilityScore(level, scoringConfig)
+      : row.plausibility_score ?? 0;
+  const connectionScore = row.others_story_score ?? 0;
+  const riskBonus = row.risk_bonus_score ?? 0;
+  const breakdown: HeadlineScoreBreakdown = {
+    baseline,
+    plausibility,
+    connectionScore,
+    selfStory: 0,
+    othersStory: 0,
+    planetBonus,
+    riskBonus,
+    total: baseline + plausibility + connectionScore + planetBonus + riskBonus,
+  };
+
+  // the corrected planet moves to the front; the juror's other picks keep their order
+  const planets = [primary, row.planet_1, row.planet_2, row.planet_3]
+    .filter((p, i, all): p is string => !!p && all.indexOf(p) === i)
+    .slice(0, 3);
+
+  await client.query(
+    `UPDATE game_session_headlines
+     SET plausibility_level = $1, plausibility_score = $2,
+         planet_1 = $3, planet_2 = $4, planet_3 = $5,
+         planet_bonus_score = $6, total_headline_score = $7
+     WHERE id = $8`,
+    [
+      level,
+      plausibility,
+      planets[0] ?? null,
+      planets[1] ?? null,
+      planets[2] ?? null,
+      planetBonus,
+      breakdown.total,
+      headlineId,
+    ]
+  );
+
+  const scoreDelta =
+    (counted ? breakdown.total : 0) - (wasCounted ? row.total_headline_score : 0) + voteDelta;
+  const playerResult = await client.query<{ total_score: number }>(
+    `UPDATE session_players
+     SET total_score = total_score + $1
+     WHERE id = $2
+     RETURNING total_score`,
+    [scoreDelta, row.player_id]
+  );
+
+  await client.query(
+    `UPDATE game_sessions
+     SET planet_usage_global = $1
+     WHERE id = $2`,
+    [JSON.stringify(usage), sessionId]
+  );
+
+  return {
+    playerId: row.player_id,
+    previous,
+    breakdown,
+    scoreDelta,
+    newTotalScore: playerResult.rows[0]?.total_score ?? 0,
+    leaderboard: await loadLeaderboard(client, sessionId, usage, planetIds),
+  };
+}
+
 /**
  * get the current leaderboard for a session.
  *
@@ -288,10 +540,11 @@ export async function getLeaderboard(
     id: string;
     nickname: string;
     total_score: number;
+    team: string | null;
   }>(
-    `SELECT id, nickname, total_score
+    `SELECT id, nickname, total_score, team
      FROM session_players
-     WHERE session_id = $1 AND is_system = FALSE
+     WHERE session_id = $1 AND is_system = FALSE AND removed_at IS NULL
      ORDER BY total_score DESC, joined_at ASC`,
     [sessionId]
   );
@@ -301,6 +554,7 @@ export async function getLeaderboard(
     nickname: row.nickname,
     totalScore: row.total_score,
     rank: index + 1,
+    team: row.team,
   }));
 }
 
@@ -319,10 +573,11 @@ export async function getHeadlineScoreBreakdown(
     self_story_score: number | null;
     others_story_score: number | null;
     planet_bonus_score: number | null;
+    risk_bonus_score: number | null;
     total_headline_score: number | null;
   }>(
     `SELECT baseline_score, plausibility_score, self_story_score,
-            others_story_score, planet_bonus_score, total_headline_score
+            others_story_score, planet_bonus_score, risk_bonus_score, total_headline_score
      FROM game_session_headlines
      WHERE id = $1`,
     [headlineId]
@@ -347,41 +602,50 @@ export async function getHeadlineScoreBreakdown(
     selfStory: 0, // deprecated, always 0
     othersStory: 0, // deprecated, always 0
     planetBonus: row.planet_bonus_score ?? 0,
+    riskBonus: row.risk_bonus_score ?? 0,
     total: row.total_headline_score,
   };
 }
 
 /**
  * get aggregated score breakdowns for all players in a session.
- * sums each score component across all headlines per player.
+ * sums each score component across all headlines per player, except hidden ones,
+ * plus the points from other players' votes on them (peoplesChoice).
  *
  * @param sessionId - session id
  * @returns map of playerId to score breakdown
  */
 export async function getPlayerScoreBreakdowns(
   sessionId: string
-): Promise<Map<string, { baseline: number; plausibility: number; connection: number; planetBonus: number }>> {
+): Promise<Map<string, TeamScoreBreakdown>> {
   const result = await pool.query(
     `SELECT
       sp.id AS player_id,
       COALESCE(SUM(h.baseline_score), 0)::int AS baseline,
       COALESCE(SUM(h.plausibility_score), 0)::int AS plausibility,
       COALESCE(SUM(h.others_story_score), 0)::int AS connection,
-      COALESCE(SUM(h.planet_bonus_score), 0)::int AS planet_bonus
+      COALESCE(SUM(h.planet_bonus_score), 0)::int AS planet_bonus,
+      COALESCE(SUM(h.risk_bonus_score), 0)::int AS risk_bonus,
+      COALESCE((SELECT SUM(v.points)
+                FROM headline_votes v
+                JOIN game_session_headlines vh ON vh.id = v.headline_id
+                WHERE v.author_id = sp.id AND vh.moderation_status <> 'hidden'), 0)::int AS peoples_choice
     FROM session_players sp
-    LEFT JOIN game_session_headlines h ON h.player_id = sp.id
+    LEFT JOIN game_session_headlines h ON h.player_id = sp.id AND h.moderation_status <> 'hidden'
     WHERE sp.session_id = $1 AND sp.is_system = FALSE
     GROUP BY sp.id`,
     [sessionId]
   );
 
-  const map = new Map<string, { baseline: number; plausibility: number; connection: number; planetBonus: number }>();
+  const map = new Map<string, TeamScoreBreakdown>();
   for (const row of result.rows) {
     map.set(row.player_id, {
       baseline: row.baseline,
       plausibility: row.plausibility,
       connection: row.connection,
       planetBonus: row.planet_bonus,
+      riskBonus: row.risk_bonus ?? 0,
+      peoplesChoice: row.peoples_choice ?? 0,
     });
   }
   return map;
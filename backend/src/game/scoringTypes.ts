@@ -3,6 +3,8 @@
  * this module defines all types and default configuration for headline scoring.
  */
 
+import { DEFAULT_PLANETS as DEFAULT_PLANET_DEFINITIONS } from './planets.js';
+
 /**
  * plausibility level assessed by ai (1-5 scale).
  * level 3 is the "sweet spot" for maximum points.
@@ -46,20 +48,10 @@ export interface PlanetPanelEntry {
 }
 
 /**
- * default list of planets in the game.
- * can be extended or customized per game session.
+ * ids of the classic planets, in their canonical order.
+ * sessions can play with another set (see planets.ts).
  */
-export const DEFAULT_PLANETS: PlanetId[] = [
-  'MERCURY',
-  'VENUS',
-  'EARTH',
-  'MARS',
-  'JUPITER',
-  'SATURN',
-  'URANUS',
-  'NEPTUNE',
-  'PLUTO',
-];
+export const DEFAULT_PLANETS: PlanetId[] = DEFAULT_PLANET_DEFINITIONS.map((p) => p.id);
 
 /**
  * configuration for plausibility scoring.
@@ -96,6 +88,24 @@ export interface ConnectionPointsConfig {
   scale: [number, number, number, number];
 }
 
+/**
+ * configuration for band-based planet scoring (planetUsage.ts).
+ * points by the band the primary planet sits in.
+ */
+export interface PlanetBandPointsConfig {
+  /** points by planet band: index = band (0 most used, 1 middle, 2 least used) */
+  points: [number, number, number];
+}
+
+/**
+ * configuration for risk-mode bets (diceDistribution.ts).
+ * points when the dice land on the band the player declared.
+ */
+export interface RiskBetPointsConfig {
+  /** points by declared band: index = band - 1 */
+  points: [number, number, number, number, number];
+}
+
 /**
  * configuration for planet bonus scoring.
  * @deprecated use PlanetBonusConfigV2 for the new tally-based system.
@@ -164,6 +174,10 @@ export interface ScoringConfig {
   planetBonusPoints: PlanetBonusConfig;
   /** planet bonus configuration (flat bonus for tally-based system) */
   planetBonus: PlanetBonusConfigV2;
+  /** band-based planet scoring (the live system) */
+  planetBandPoints: PlanetBandPointsConfig;
+  /** points for a risk-mode bet that lands */
+  riskBetPoints: RiskBetPointsConfig;
   /** @deprecated no longer used in tally-based system */
   updatePlanetUsageOnNoMatch: boolean;
 }
@@ -216,6 +230,16 @@ export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
     match: 2, // flat +2 when priority planet is anywhere in ai's top-3
   },
 
+  // band-based planet scoring: +0 / +1 / +2 for the most / middle / least used band
+  planetBandPoints: {
+    points: [0, 1, 2],
+  },
+
+  // risk mode: a bet that lands pays only on the unlikely bands 4 and 5
+  riskBetPoints: {
+    points: [0, 0, 0, 3, 8],
+  },
+
   // @deprecated - no longer used in tally-based system
   updatePlanetUsageOnNoMatch: true,
 };
@@ -227,8 +251,10 @@ export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
 export interface HeadlineScoringInput {
   /** ai-assessed plausibility level (1-5) - stored for reference */
   plausibilityLevel: PlausibilityLevel;
-  /** selected band from dice roll (1-5) - used for scoring */
+  /** selected band from dice roll (1-5) - only scores as a risk-mode bet */
   selectedBand: PlausibilityLevel;
+  /** the band the player bet on in risk mode, null or absent without a bet */
+  targetBand?: PlausibilityLevel | null;
   /** number of unique other authors from STRONG linked headlines (0-3) */
   uniqueOtherAuthors: number;
   /** @deprecated use uniqueOtherAuthors instead */
@@ -259,6 +285,8 @@ export interface HeadlineScoreBreakdown {
   othersStory: number;
   /** planet bonus points (P1/P2/P3) */
   planetBonus: number;
+  /** points for a risk-mode bet that landed */
+  riskBonus: number;
   /** total headline score */
   total: number;
 }
@@ -271,6 +299,8 @@ export interface PlayerScoreEntry {
   nickname: string;
   totalScore: number;
   rank: number;
+  /** the player's team in a team game */
+  team?: string | null;
   /** this player's ordered planet usage panel (when computed during scoring) */
   planetPanel?: PlanetPanelEntry[];
 }
@@ -49,3 +49,31 @@ export const SEED_HEADLINES: SeedHeadline[] = [
   { text: "Exclusive: US Army to buy 1 million drones, in major acquisition ramp-up", inGameYear: 2025, inGameMonth: 8 },
   { text: "Meta removes AI videos spreading Irish election misinformation", inGameYear: 2025, inGameMonth: 9 },
 ];
+
+/** seeds for the built-in climate scenario */
+export const CLIMATE_SEED_HEADLINES: SeedHeadline[] = [
+  // 2022
+  { text: "IPCC report: window to keep warming below 1.5C is closing fast", inGameYear: 2022, inGameMonth: 4 },
+  { text: "Record heatwave pushes UK temperatures above 40C for the first time", inGameYear: 2022, inGameMonth: 7 },
+  { text: "US passes Inflation Reduction Act with $369 billion for climate and clean energy", inGameYear: 2022, inGameMonth: 8 },
+  { text: "Floods submerge a third of Pakistan, displacing millions", inGameYear: 2022, inGameMonth: 9 },
+  { text: "COP27 agrees a loss and damage fund for vulnerable countries", inGameYear: 2022, inGameMonth: 11 },
+  { text: "US scientists achieve net energy gain in a fusion reaction", inGameYear: 2022, inGameMonth: 12 },
+
+  // 2023
+  { text: "IPCC synthesis report: deep emissions cuts needed this decade", inGameYear: 2023, inGameMonth: 3 },
+  { text: "Canadian wildfire smoke turns New York skies orange", inGameYear: 2023, inGameMonth: 6 },
+  { text: "July 2023 confirmed as the hottest month on record", inGameYear: 2023, inGameMonth: 8 },
+  { text: "COP28 deal calls for transitioning away from fossil fuels", inGameYear: 2023, inGameMonth: 12 },
+
+  // 2024
+  { text: "2023 confirmed as the hottest year on record", inGameYear: 2024, inGameMonth: 1 },
+  { text: "Fourth global coral bleaching event declared", inGameYear: 2024, inGameMonth: 4 },
+  { text: "Hurricane Milton slams Florida days after Helene", inGameYear: 2024, inGameMonth: 10 },
+  { text: "Floods in Valencia kill more than 200 people", inGameYear: 2024, inGameMonth: 11 },
+
+  // 2025
+  { text: "2024 is the first calendar year above 1.5C of warming", inGameYear: 2025, inGameMonth: 1 },
+  { text: "Los Angeles wildfires destroy thousands of homes", inGameYear: 2025, inGameMonth: 1 },
+  { text: "US announces withdrawal from the Paris Agreement", inGameYear: 2025, inGameMonth: 1 },
+];
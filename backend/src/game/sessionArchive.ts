@@ -0,0 +1,696 @@
+/**
+ * session archives: the full record of a game as versioned json.
+ *
+ * an archive holds the session config, players, every headline (all five band
+ * variants, dice roll, juror rationales, links and score breakdown), the votes
+ * on them, the phase transitions and the summaries. anyone with the join code can export a
+ * finished game's approved headlines; admins can export running games and
+ * moderated headlines too. finished games can be imported back as read-only
+ * sessions under a new join code, for replay and analysis.
+ */
+
+import { ZodError } from 'zod';
+import pool from '../db/pool.js';
+import { generateUniqueJoinCode } from '../utils/joinCode.js';
+import { sessionArchiveSchema, SessionArchiveBody } from '../utils/validation.js';
+import { settingsFromRow } from './gameSettings.js';
+import { planetSetFromRow } from './planets.js';
+import { scenarioFromRow } from './scenarios.js';
+import { diceCommitmentFromRow } from './diceAudit.js';
+import { diceSettingsFromRow } from './diceDistribution.js';
+import { teamsFromRow } from './teams.js';
+import { sessionScoringFromRow } from './scoringRules.js';
+import { votingPolicyFromRow } from './headlineVoting.js';
+import { generateRecoveryCode, hashRecoveryCode } from '../auth/sessionTokens.js';
+
+export const ARCHIVE_FORMAT = 'future-headlines-session';
+/**
+ * bumped whenever archives gain fields; older versions still import, with
+ * defaults for what they lack.
+ * 2: late joins (a player's joinedRound and catchUpScore)
+ * 3: team mode (the session's teams, a player's team)
+ * 4: the session's scoring rules
+ * 5: the voting policy and the break-time votes
+ */
+export const ARCHIVE_VERSION = 5;
+
+export type SessionArchive = SessionArchiveBody;
+export type ArchivedHeadline = SessionArchive['headlines'][number];
+export type ArchivedVote = SessionArchive['votes'][number];
+
+export class SessionArchiveError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'SessionArchiveError';
+  }
+}
+
+function toIso(value: Date | string | null | undefined): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+export interface ArchiveAccess {
+  /**
+   * admins may export a game that is still running, and get the headlines the
+   * host hid or has not reviewed yet; everyone else gets finished games, approved
+   * headlines only
+   */
+  admin?: boolean;
+}
+
+/**
+ * build the archive of a session, or null if there is no such session.
+ *
+ * @throws {SessionArchiveError} NOT_FINISHED if the game is still running and
+ *   the caller is not an admin
+ */
+export async function buildSessionArchive(
+  joinCode: string,
+  { admin = false }: ArchiveAccess = {}
+): Promise<SessionArchive | null> {
+  const sessionResult = await pool.query(
+    `SELECT id, join_code, status, phase, current_round, created_at,
+            max_rounds, play_minutes, break_schedule, summary_rounds, start_year, total_years,
+            timeline_speed_ratio, in_game_start_at, planet_set, scenario, planet_usage_global,
+            dice_seed, dice_seed_hash, dice_settings, teams, scoring_rules, voting
+     FROM game_sessions
+     WHERE join_code = $1`,
+    [joinCode]
+  );
+  if (sessionResult.rows.length === 0) {
+    return null;
+  }
+  const session = sessionResult.rows[0];
+  if (!admin && session.phase !== 'FINISHED') {
+    throw new SessionArchiveError('The game can be exported once it is finished', 'NOT_FINISHED');
+  }
+
+  const [players, headlines, votes, transitions, summaries] = await Promise.all([
+    pool.query(
+      `SELECT id, nickname, is_host, is_system, joined_at, total_score, planet_usage_state,
+              joined_round, catch_up_score, team
+       FROM session_players
+       WHERE session_id = $1
+       ORDER BY joined_at ASC`,
+      [session.id]
+    ),
+    pool.query(
+      `SELECT id, player_id, round_no, headline_text, created_at, in_game_submitted_at,
+              llm_status, dice_roll, selected_band, selected_headline,
+              band1_headline, band2_headline, band3_headline, band4_headline, band5_headline,
+              plausibility_level, plausibility_rationale, planet_1, planet_2, planet_3,
+              planet_rationales, linked_headlines,
+              baseline_score, plausibility_score, self_story_connection_level, self_story_score,
+              others_story_connection_level, others_story_score, planet_bonus_score, risk_bonus_score,
+              total_headline_score,
+              llm_model, llm_input_tokens, llm_output_tokens, llm_attempts, llm_error, llm_request, llm_response,
+              prompt_version, moderation_status, moderation_reason, dice_sequence, dice_algorithm,
+              dice_target_band
+       FROM game_session_headlines
+       WHERE session_id = $1 AND ($2 OR moderation_status = 'approved')
+       ORDER BY created_at ASC`,
+      [session.id, admin]
+    ),
+    pool.query(
+      `SELECT headline_id, voter_id, author_id, round_no, kind, points, created_at
+       FROM headline_votes
+       WHERE session_id = $1
+       ORDER BY created_at ASC`,
+      [session.id]
+    ),
+    pool.query(
+      `SELECT from_phase, to_phase, round_no, occurred_at, action, details
+       FROM game_session_state_transitions
+       WHERE session_id = $1
+       ORDER BY occurred_at ASC`,
+      [session.id]
+    ),
+    pool.query(
+      `SELECT round_no, summary_type, status, summary_data, error_message,
+              llm_model, llm_input_tokens, llm_output_tokens, llm_request, llm_response, prompt_version,
+              created_at, completed_at
+       FROM round_summaries
+       WHERE session_id = $1
+       ORDER BY round_no ASC`,
+      [session.id]
+    ),
+  ]);
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    session: {
+      joinCode: session.join_code,
+      phase: session.phase,
+      currentRound: session.current_round,
+      createdAt: toIso(session.created_at)!,
+      settings: settingsFromRow(session),
+      timelineSpeedRatio: session.timeline_speed_ratio,
+      inGameStartAt: toIso(session.in_game_start_at),
+      planetSet: planetSetFromRow(session.planet_set),
+      scenario: scenarioFromRow(session.scenario),
+      planetUsageGlobal: session.planet_usage_global ?? {},
+      // the seed is left out until the game is over
+      dice: diceCommitmentFromRow(session),
+      diceSettings: session.dice_settings ? diceSettingsFromRow(session.dice_settings) : null,
+      teams: teamsFromRow(session.teams),
+      scoring: sessionScoringFromRow(session.scoring_rules),
+      voting: votingPolicyFromRow(session.voting),
+    },
+    players: players.rows.map((p) => ({
+      id: p.id,
+      nickname: p.nickname,
+      isHost: p.is_host,
+      isSystem: p.is_system,
+      joinedAt: toIso(p.joined_at)!,
+      totalScore: p.total_score,
+      planetUsageState: p.planet_usage_state,
+      joinedRound: p.joined_round,
+      catchUpScore: p.catch_up_score,
+      team: p.team,
+    })),
+    headlines: headlines.rows.map((h) => ({
+      id: h.id,
+      playerId: h.player_id,
+      roundNo: h.round_no,
+      storyDirection: h.headline_text,
+      createdAt: toIso(h.created_at)!,
+      inGameSubmittedAt: toIso(h.in_game_submitted_at),
+      llmStatus: h.llm_status,
+      diceRoll: h.dice_roll,
+      selectedBand: h.selected_band,
+      selectedHeadline: h.selected_headline,
+      bandHeadlines: [h.band1_headline, h.band2_headline, h.band3_headline, h.band4_headline, h.band5_headline],
+      plausibilityLevel: h.plausibility_level,
+      plausibilityRationale: h.plausibility_rationale,
+      planets: [h.planet_1, h.planet_2, h.planet_3].filter(Boolean),
+      planetRationales: h.planet_rationales ?? [],
+      linkedHeadlines: h.linked_headlines ?? [],
+      scores: {
+        baseline: h.baseline_score,
+        plausibility: h.plausibility_score,
+        selfStoryConnection: h.self_story_connection_level,
+        selfStory: h.self_story_score,
+        othersStoryConnection: h.others_story_connection_level,
+        othersStory: h.others_story_score,
+        planetBonus: h.planet_bonus_score,
+        riskBonus: h.risk_bonus_score ?? null,
+        total: h.total_headline_score,
+      },
+      llm: {
+        model: h.llm_model,
+        inputTokens: h.llm_input_tokens,
+        outputTokens: h.llm_output_tokens,
+        attempts: h.llm_attempts ?? 0,
+        error: h.llm_error ?? null,
+        request: h.llm_request,
+        response: h.llm_response,
+        promptVersion: h.prompt_version ?? null,
+      },
+      moderation: {
+        status: h.moderation_status ?? 'approved',
+        reason: h.moderation_reason ?? null,
+      },
+      dice: {
+        sequence: h.dice_sequence ?? null,
+        algorithm: h.dice_algorithm ?? null,
+        targetBand: h.dice_target_band ?? null,
+      },
+    })),
+    // only votes on the headlines in the archive
+    votes: votes.rows
+      .filter((v) => headlines.rows.some((h) => h.id === v.headline_id))
+      .map((v) => ({
+        headlineId: v.headline_id,
+        voterId: v.voter_id,
+        authorId: v.author_id,
+        roundNo: v.round_no,
+        kind: v.kind,
+        points: v.points,
+        createdAt: toIso(v.created_at)!,
+      })),
+    transitions: transitions.rows.map((t) => ({
+      fromPhase: t.from_phase,
+      toPhase: t.to_phase,
+      roundNo: t.round_no,
+      occurredAt: toIso(t.occurred_at)!,
+      action: t.action,
+      details: t.details,
+    })),
+    summaries: summaries.rows.map((s) => ({
+      roundNo: s.round_no,
+      summaryType: s.summary_type,
+      status: s.status,
+      summary: s.summary_data,
+      error: s.error_message,
+      llm: {
+        model: s.llm_model,
+        inputTokens: s.llm_input_tokens,
+        outputTokens: s.llm_output_tokens,
+        request: s.llm_request,
+        response: s.llm_response,
+        promptVersion: s.prompt_version ?? null,
+      },
+      createdAt: toIso(s.created_at)!,
+      completedAt: toIso(s.completed_at),
+    })),
+  };
+}
+
+const CSV_COLUMNS = [
+  'headline_id',
+  'round',
+  'player',
+  'created_at',
+  'in_game_submitted_at',
+  'llm_status',
+  'moderation_status',
+  'story_direction',
+  'dice_roll',
+  'selected_band',
+  'selected_headline',
+  'band1_headline',
+  'band2_headline',
+  'band3_headline',
+  'band4_headline',
+  'band5_headline',
+  'plausibility_level',
+  'plausibility_rationale',
+  'planet_1',
+  'planet_2',
+  'planet_3',
+  'linked_headlines',
+  'baseline_score',
+  'plausibility_score',
+  'connection_level',
+  'connection_score',
+  'planet_bonus_score',
+  'risk_bonus_score',
+  'total_score',
+  'prompt_version',
+  'dice_sequence',
+  'target_band',
+];
+
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * the headlines of an archive as csv, one row per headline. linked headlines
+ * are flattened to "STRENGTH: headline" joined with " | ".
+ */
+export function headlinesToCsv(archive: SessionArchive): string {
+  const nicknames = new Map(archive.players.map((p) => [p.id, p.nickname]));
+
+  const rows = archive.headlines.map((h) => {
+    const linked = (h.linkedHeadlines as Array<{ strength?: string; headline?: string }>)
+      .map((l) => `${l.strength ?? ''}: ${l.headline ?? ''}`)
+      .join(' | ');
+    return [
+      h.id,
+      h.roundNo,
+      nicknames.get(h.playerId) ?? h.playerId,
+      h.createdAt,
+      h.inGameSubmittedAt,
+      h.llmStatus,
+      h.moderation.status,
+      h.storyDirection,
+      h.diceRoll,
+      h.selectedBand,
+      h.selectedHeadline,
+      ...h.bandHeadlines,
+      h.plausibilityLevel,
+      h.plausibilityRationale,
+      h.planets[0],
+      h.planets[1],
+      h.planets[2],
+      linked,
+      h.scores.baseline,
+      h.scores.plausibility,
+      h.scores.othersStoryConnection,
+      h.scores.othersStory,
+      h.scores.planetBonus,
+      h.scores.riskBonus,
+      h.scores.total,
+      h.llm.promptVersion,
+      h.dice.sequence,
+      h.dice.targetBand,
+    ]
+      .map(csvField)
+      .join(',');
+  });
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+/**
+ * check an uploaded archive: its format and version, its shape, and that every
+ * headline belongs to one of its players.
+ *
+ * @throws {SessionArchiveError} INVALID_FORMAT, UNSUPPORTED_VERSION, INVALID_ARCHIVE,
+ *   NOT_FINISHED, UNKNOWN_TEAM, UNKNOWN_PLAYER or UNKNOWN_HEADLINE
+ */
+export function validateSessionArchive(raw: unknown): SessionArchive {
+  const header = (raw ?? {}) as { format?: unknown; version?: unknown };
+  if (header.format !== ARCHIVE_FORMAT) {
+    throw new SessionArchiveError(`Not a ${ARCHIVE_FORMAT} archive`, 'INVALID_FORMAT');
+  }
+  if (
+    typeof header.version !== 'number' ||
+    !Number.isInteger(header.version) ||
+    header.version < 1 ||
+    header.version > ARCHIVE_VERSION
+  ) {
+    throw new SessionArchiveError(
+      `Unsupported archive version ${String(header.version)} (expected 1-${ARCHIVE_VERSION})`,
+      'UNSUPPORTED_VERSION'
+    );
+  }
+
+  let archive: SessionArchive;
+  try {
+    archive = sessionArchiveSchema.parse(raw);
+  } catch (err) {
+    if (err instanceof ZodError) {
+      throw new SessionArchiveError('Invalid session archive', 'INVALID_ARCHIVE', { issues: err.errors });
+    }
+    throw err;
+  }
+
+  if (archive.session.phase !== 'FINISHED') {
+    throw new SessionArchiveError('Only finished games can be imported', 'NOT_FINISHED');
+  }
+
+  const teams = new Set(archive.session.teams);
+  const stray = archive.players.find((p) => p.team !== null && !teams.has(p.team));
+  if (stray) {
+    throw new SessionArchiveError(
+      `Player ${stray.id} is on a team missing from the archive`,
+      'UNKNOWN_TEAM',
+      { playerId: stray.id, team: stray.team }
+    );
+  }
+
+  const playerIds = new Set(archive.players.map((p) => p.id));
+  const orphan = archive.headlines.find((h) => !playerIds.has(h.playerId));
+  if (orphan) {
+    throw new SessionArchiveError(
+      `Headline ${orphan.id} belongs to a player missing from the archive`,
+      'UNKNOWN_PLAYER',
+      { headlineId: orphan.id, playerId: orphan.playerId }
+    );
+  }
+
+  const headlineIds = new Set(archive.headlines.map((h) => h.id));
+  for (const vote of archive.votes) {
+    if (!playerIds.has(vote.voterId) || !playerIds.has(vote.authorId)) {
+      throw new SessionArchiveError(
+        `A vote on headline ${vote.headlineId} names a player missing from the archive`,
+        'UNKNOWN_PLAYER',
+        { headlineId: vote.headlineId, voterId: vote.voterId, authorId: vote.authorId }
+      );
+    }
+    if (!headlineIds.has(vote.headlineId)) {
+      throw new SessionArchiveError(
+        `A vote is on headline ${vote.headlineId}, which is missing from the archive`,
+        'UNKNOWN_HEADLINE',
+        { headlineId: vote.headlineId }
+      );
+    }
+  }
+
+  return archive;
+}
+
+/** the player id fields host actions carry in their transition details */
+const DETAIL_PLAYER_FIELDS = ['playerId', 'targetPlayerId'] as const;
+
+function remapDetailIds(
+  details: unknown,
+  playerIds: Map<string, string>,
+  headlineIds: Map<string, string>
+): unknown {
+  if (typeof details !== 'object' || details === null) {
+    return details;
+  }
+  const mapped: Record<string, unknown> = { ...details };
+  for (const field of DETAIL_PLAYER_FIELDS) {
+    const id = mapped[field];
+    if (typeof id === 'string' && playerIds.has(id)) {
+      mapped[field] = playerIds.get(id);
+    }
+  }
+  // headline reviews name the headline
+  if (typeof mapped.headlineId === 'string' && headlineIds.has(mapped.headlineId)) {
+    mapped.headlineId = headlineIds.get(mapped.headlineId);
+  }
+  return mapped;
+}
+
+/**
+ * recreate a finished game from a validated archive, in one transaction. rows
+ * get fresh ids and the session a fresh join code; it is stored as FINISHED,
+ * so it can be viewed and exported but never played. every player gets a new
+ * recovery code (returned by nickname) so the importer can open the game as them.
+ */
+export async function importSessionArchive(
+  archive: SessionArchive
+): Promise<{ sessionId: string; joinCode: string; recoveryCodes: Record<string, string> }> {
+  const joinCode = await generateUniqueJoinCode();
+  const { session } = archive;
+  const { settings } = session;
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const sessionResult = await client.query(
+      `INSERT INTO game_sessions (
+        join_code, status, phase, current_round,
+        play_minutes, break_minutes, max_rounds, timeline_speed_ratio, in_game_start_at,
+        break_schedule, summary_rounds, start_year, total_years,
+        planet_set, scenario, planet_usage_global,
+        created_at, imported_at, imported_from, dice_seed, dice_seed_hash, dice_settings, teams,
+        scoring_rules, voting
+      )
+      VALUES ($1, 'FINISHED', 'FINISHED', $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, NOW(), $16, $17, $18, $19, $20, $21, $22)
+      RETURNING id`,
+      [
+        joinCode,
+        session.currentRound,
+        settings.playMinutes,
+        settings.breakSchedule[0] ?? 0, // legacy column, superseded by break_schedule
+        settings.maxRounds,
+        session.timelineSpeedRatio,
+        session.inGameStartAt,
+        JSON.stringify(settings.breakSchedule),
+        JSON.stringify(settings.summaryRounds),
+        settings.startYear,
+        settings.totalYears,
+        JSON.stringify(session.planetSet),
+        JSON.stringify(session.scenario ?? null),
+        JSON.stringify(session.planetUsageGlobal),
+        session.createdAt,
+        session.joinCode,
+        session.dice?.seed ?? null,
+        session.dice?.seedHash ?? null,
+        session.diceSettings && JSON.stringify(session.diceSettings),
+        session.teams.length > 0 ? JSON.stringify(session.teams) : null,
+        session.scoring && JSON.stringify(session.scoring),
+        session.voting && JSON.stringify(session.voting),
+      ]
+    );
+    const sessionId: string = sessionResult.rows[0].id;
+
+    // archive player id -> new player id
+    const playerIds = new Map<string, string>();
+    const recoveryCodes: Record<string, string> = {};
+    for (const player of archive.players) {
+      const recoveryCode = player.isSystem ? null : generateRecoveryCode();
+      const result = await client.query(
+        `INSERT INTO session_players (
+          session_id, nickname, is_host, is_system, joined_at, total_score, planet_usage_state,
+          recovery_code_hash, joined_round, catch_up_score, team
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+        RETURNING id`,
+        [
+          sessionId,
+          player.nickname,
+          player.isHost,
+          player.isSystem,
+          player.joinedAt,
+          player.totalScore,
+          JSON.stringify(player.planetUsageState ?? {}),
+          recoveryCode && hashRecoveryCode(recoveryCode),
+          player.joinedRound,
+          player.catchUpScore,
+          player.team,
+        ]
+      );
+      playerIds.set(player.id, result.rows[0].id);
+      if (recoveryCode) {
+        recoveryCodes[player.nickname] = recoveryCode;
+      }
+    }
+
+    const host = archive.players.find((p) => p.isHost);
+    if (host) {
+      await client.query('UPDATE game_sessions SET host_player_id = $1 WHERE id = $2', [
+        playerIds.get(host.id),
+        sessionId,
+      ]);
+    }
+
+    const headlineIds = new Map<string, string>();
+    for (const h of archive.headlines) {
+      const inserted = await client.query(
+        `INSERT INTO game_session_headlines (
+          session_id, player_id, round_no, headline_text, created_at, in_game_submitted_at,
+          llm_status, dice_roll, selected_band, selected_headline,
+          band1_headline, band2_headline, band3_headline, band4_headline, band5_headline,
+          plausibility_level, plausibility_rationale, planet_1, planet_2, planet_3,
+          planet_rationales, linked_headlines,
+          baseline_score, plausibility_score, self_story_connection_level, self_story_score,
+          others_story_connection_level, others_story_score, planet_bonus_score, total_headline_score,
+          llm_model, llm_input_tokens, llm_output_tokens, llm_attempts, llm_error, llm_request, llm_response,
+          prompt_version, moderation_status, moderation_reason, dice_sequence, dice_algorithm,
+          dice_target_band, risk_bonus_score
+        )
+        VALUES (
+          $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19,
+          $20, $21, $22, $23, $24, $25, $26, $27, $28, $29, $30, $31, $32, $33, $34, $35, $36, $37,
+          $38, $39, $40, $41, $42, $43, $44
+        )
+        RETURNING id`,
+        [
+          sessionId,
+          playerIds.get(h.playerId),
+          h.roundNo,
+          h.storyDirection,
+          h.createdAt,
+          h.inGameSubmittedAt,
+          h.llmStatus,
+          h.diceRoll,
+          h.selectedBand,
+          h.selectedHeadline,
+          ...h.bandHeadlines,
+          h.plausibilityLevel,
+          h.plausibilityRationale,
+          h.planets[0] ?? null,
+          h.planets[1] ?? null,
+          h.planets[2] ?? null,
+          JSON.stringify(h.planetRationales),
+          JSON.stringify(h.linkedHeadlines),
+          h.scores.baseline,
+          h.scores.plausibility,
+          h.scores.selfStoryConnection,
+          h.scores.selfStory,
+          h.scores.othersStoryConnection,
+          h.scores.othersStory,
+          h.scores.planetBonus,
+          h.scores.total,
+          h.llm.model,
+          h.llm.inputTokens,
+          h.llm.outputTokens,
+          h.llm.attempts,
+          h.llm.error,
+          JSON.stringify(h.llm.request ?? null),
+          JSON.stringify(h.llm.response ?? null),
+          h.llm.promptVersion,
+          h.moderation.status,
+          h.moderation.reason,
+          h.dice.sequence,
+          h.dice.algorithm,
+          h.dice.targetBand,
+          h.scores.riskBonus,
+        ]
+      );
+      headlineIds.set(h.id, inserted.rows[0].id);
+    }
+
+    for (const v of archive.votes) {
+      await client.query(
+        `INSERT INTO headline_votes (
+          session_id, headline_id, voter_id, author_id, round_no, kind, points, created_at
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+        [
+          sessionId,
+          headlineIds.get(v.headlineId),
+          playerIds.get(v.voterId),
+          playerIds.get(v.authorId),
+          v.roundNo,
+          v.kind,
+          v.points,
+          v.createdAt,
+        ]
+      );
+    }
+
+    for (const t of archive.transitions) {
+      // host actions name the acting player, moderation also the target
+      const mappedDetails = remapDetailIds(t.details, playerIds, headlineIds);
+      await client.query(
+        `INSERT INTO game_session_state_transitions (
+          session_id, from_phase, to_phase, round_no, occurred_at, action, details
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [
+          sessionId,
+          t.fromPhase,
+          t.toPhase,
+          t.roundNo,
+          t.occurredAt,
+          t.action,
+          mappedDetails === undefined ? null : JSON.stringify(mappedDetails),
+        ]
+      );
+    }
+
+    for (const s of archive.summaries) {
+      await client.query(
+        `INSERT INTO round_summaries (
+          session_id, round_no, summary_type, status, summary_data, error_message,
+          llm_model, llm_input_tokens, llm_output_tokens, llm_request, llm_response, prompt_version,
+          created_at, completed_at
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)`,
+        [
+          sessionId,
+          s.roundNo,
+          s.summaryType,
+          s.status,
+          JSON.stringify(s.summary ?? {}),
+          s.error,
+          s.llm.model,
+          s.llm.inputTokens,
+          s.llm.outputTokens,
+          JSON.stringify(s.llm.request ?? null),
+          s.llm.response,
+          s.llm.promptVersion,
+          s.createdAt,
+          s.completedAt,
+        ]
+      );
+    }
+
+    await client.query('COMMIT');
+    return { sessionId, joinCode, recoveryCodes };
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
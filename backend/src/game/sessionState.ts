@@ -0,0 +1,228 @@
+/**
+ * the session state clients get as game:state and in lobby replies: one
+ * builder for the lobby handlers and the game loop's broadcasts, so the two
+ * payloads can't drift apart.
+ */
+
+import pool from '../db/pool.js';
+import { getPlayerScoreBreakdowns } from './scoringService.js';
+import { PlanetPanelEntry } from './scoringTypes.js';
+import { planetSetFromRow, getPlanetIds, PlanetDefinition } from './planets.js';
+import { migrateGlobalUsage, migratePlayerOrdinals, computePlanetPanel } from './planetUsage.js';
+import { computeInGameNow } from './inGameTime.js';
+import { settingsFromRow } from './gameSettings.js';
+import { scenarioFromRow, scenarioSummary, ScenarioSummary } from './scenarios.js';
+import { strictnessFromRow, ModerationStrictness } from '../moderation/moderationProvider.js';
+import { lateJoinPolicyFromRow, LateJoinPolicy } from './lateJoin.js';
+import { teamsFromRow, EMPTY_SCORE_BREAKDOWN, TeamScoreBreakdown } from './teams.js';
+import { sessionScoringFromRow, SessionScoring } from './scoringRules.js';
+import { votingPolicyFromRow, VotingPolicy } from './headlineVoting.js';
+import { DiceCommitment, diceCommitmentFromRow } from './diceAudit.js';
+import { DiceSettings, diceSettingsFromRow } from './diceDistribution.js';
+
+/** a session as clients see it */
+export interface SessionState {
+  id: string;
+  joinCode: string;
+  status: string;
+  hostPlayerId: string | null;
+  phase: string;
+  currentRound: number;
+  playMinutes: number;
+  breakMinutes: number;
+  maxRounds: number;
+  phaseStartedAt: string | null;
+  phaseEndsAt: string | null;
+  pausedAt: string | null;
+  serverNow: string;
+  inGameNow: string | null;
+  timelineSpeedRatio: number;
+  breakSchedule: number[];
+  summaryRounds: number[];
+  startYear: number | null;
+  totalYears: number;
+  /** built-in pack id, or 'custom' */
+  planetPack: string;
+  planets: PlanetDefinition[];
+  scenario: ScenarioSummary;
+  moderationStrictness: ModerationStrictness;
+  lateJoin: LateJoinPolicy;
+  /** set while the host has locked the session against new players */
+  joinLocked: boolean;
+  /** team names in a team game, [] when everyone plays for themselves */
+  teams: string[];
+  /** the scoring preset and points this session plays with */
+  scoring: SessionScoring;
+  /** whether players vote on headlines in the breaks, and what votes are worth */
+  voting: VotingPolicy;
+  /** the dice seed's hash; the seed itself once the game is over */
+  dice: DiceCommitment | null;
+  /** the band weights rolls map through, and whether risk mode is on */
+  diceSettings: DiceSettings;
+  players: Array<{
+    id: string;
+    nickname: string;
+    isHost: boolean;
+    joinedAt: string;
+    /** set while the host has muted the player */
+    mutedUntil: string | null;
+    totalScore?: number;
+    /** the round a late joiner came in during, null for everyone else */
+    joinedRound: number | null;
+    /** the handicap a late joiner started with, already part of totalScore */
+    catchUpScore: number;
+    /** the player's team in a team game */
+    team: string | null;
+    planetPanel?: PlanetPanelEntry[];
+    scoreBreakdown?: TeamScoreBreakdown;
+  }>;
+}
+
+/**
+ * fetch a session's state from the database, including game timing, players
+ * and their planet panels and score breakdowns. null if there's no such session.
+ */
+export async function fetchSessionState(
+  lookup: { joinCode: string } | { sessionId: string }
+): Promise<SessionState | null> {
+  const result = await pool.query(
+    `SELECT
+      s.id,
+      s.join_code,
+      s.status,
+      s.host_player_id,
+      s.phase,
+      s.current_round,
+      s.play_minutes,
+      s.break_minutes,
+      s.max_rounds,
+      s.phase_started_at,
+      s.phase_ends_at,
+      s.paused_at,
+      s.in_game_start_at,
+      s.timeline_speed_ratio,
+      s.break_schedule,
+      s.summary_rounds,
+      s.start_year,
+      s.total_years,
+      s.planet_usage_global,
+      s.planet_set,
+      s.scenario,
+      s.moderation_strictness,
+      s.late_join_allowed,
+      s.late_join_catch_up,
+      s.join_locked,
+      s.teams,
+      s.scoring_rules,
+      s.voting,
+      s.dice_seed,
+      s.dice_seed_hash,
+      s.dice_settings,
+      CURRENT_TIMESTAMP as server_now,
+      json_agg(
+        json_build_object(
+          'id', p.id,
+          'nickname', p.nickname,
+          'isHost', p.is_host,
+          'joinedAt', p.joined_at,
+          'mutedUntil', p.muted_until,
+          'totalScore', p.total_score,
+          'joinedRound', p.joined_round,
+          'catchUpScore', p.catch_up_score,
+          'team', p.team,
+          'planetUsageState', p.planet_usage_state
+        ) ORDER BY p.joined_at
+      ) as players
+    FROM game_sessions s
+    LEFT JOIN session_players p
+      ON s.id = p.session_id AND p.is_system = FALSE AND p.removed_at IS NULL
+    WHERE ${'joinCode' in lookup ? 's.join_code' : 's.id'} = $1
+    GROUP BY s.id`,
+    ['joinCode' in lookup ? lookup.joinCode : lookup.sessionId]
+  );
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  const session = result.rows[0];
+  const serverNow = new Date(session.server_now);
+  const settings = settingsFromRow(session);
+
+  // compute in-game time
+  const inGameNow = computeInGameNow(
+    session.in_game_start_at,
+    session.phase_started_at,
+    session.phase_ends_at,
+    serverNow,
+    session.timeline_speed_ratio,
+    session.paused_at
+  );
+
+  const breakdowns = await getPlayerScoreBreakdowns(session.id);
+  const planetSet = planetSetFromRow(session.planet_set);
+  const planetIds = getPlanetIds(planetSet.planets);
+  const globalUsage = migrateGlobalUsage(session.planet_usage_global, planetIds);
+
+  // build each player's usage-ranked planet panel
+  const processedPlayers = session.players
+    .filter((p: any) => p.id !== null)
+    .map((p: any) => {
+      const bd = breakdowns.get(p.id);
+      return {
+        id: p.id,
+        nickname: p.nickname,
+        isHost: p.isHost,
+        joinedAt: p.joinedAt,
+        mutedUntil: p.mutedUntil ?? null,
+        totalScore: p.totalScore ?? 0,
+        joinedRound: p.joinedRound ?? null,
+        catchUpScore: p.catchUpScore ?? 0,
+        team: p.team ?? null,
+        planetPanel: computePlanetPanel(
+          globalUsage,
+          migratePlayerOrdinals(p.planetUsageState, planetIds),
+          planetIds
+        ),
+        scoreBreakdown: bd ?? EMPTY_SCORE_BREAKDOWN,
+      };
+    });
+
+  return {
+    id: session.id,
+    joinCode: session.join_code,
+    status: session.status,
+    hostPlayerId: session.host_player_id,
+    phase: session.phase,
+    currentRound: session.current_round,
+    playMinutes: session.play_minutes,
+    breakMinutes: session.break_minutes,
+    maxRounds: session.max_rounds,
+    phaseStartedAt: session.phase_started_at
+      ? new Date(session.phase_started_at).toISOString()
+      : null,
+    phaseEndsAt: session.phase_ends_at
+      ? new Date(session.phase_ends_at).toISOString()
+      : null,
+    pausedAt: session.paused_at ? new Date(session.paused_at).toISOString() : null,
+    serverNow: serverNow.toISOString(),
+    inGameNow: inGameNow ? inGameNow.toISOString() : null,
+    timelineSpeedRatio: session.timeline_speed_ratio,
+    breakSchedule: settings.breakSchedule,
+    summaryRounds: settings.summaryRounds,
+    startYear: settings.startYear,
+    totalYears: settings.totalYears,
+    planetPack: planetSet.pack,
+    planets: planetSet.planets,
+    scenario: scenarioSummary(scenarioFromRow(session.scenario)),
+    moderationStrictness: strictnessFromRow(session.moderation_strictness),
+    lateJoin: lateJoinPolicyFromRow(session),
+    joinLocked: session.join_locked ?? false,
+    teams: teamsFromRow(session.teams),
+    scoring: sessionScoringFromRow(session.scoring_rules),
+    voting: votingPolicyFromRow(session.voting),
+    dice: diceCommitmentFromRow(session),
+    diceSettings: diceSettingsFromRow(session.dice_settings),
+    players: processedPlayers,
+  };
+}
@@ -0,0 +1,60 @@
+/**
+ * spectator access: a second, read-only code per session for projectors and
+ * observers.
+ *
+ * a spectator socket joins the session room without a session_players row, so
+ * it receives what every player sees (approved headlines, game:state, scores,
+ * summaries) but never shows up in the roster or the leaderboard, and can't
+ * submit or use host controls. the host can reset the code, which disconnects
+ * everyone watching with the old one.
+ */
+
+import pool from '../db/pool.js';
+import { generateUniqueSpectatorCode } from '../utils/joinCode.js';
+
+/** the spectators of one session, so a code reset can reach them */
+export function getSpectatorRoomName(joinCode: string): string {
+  return `spectators:${joinCode}`;
+}
+
+/** the join code of the session a spectator code opens, or null */
+export async function findJoinCodeBySpectatorCode(spectatorCode: string): Promise<string | null> {
+  const result = await pool.query(
+    `SELECT join_code FROM game_sessions WHERE spectator_code = $1`,
+    [spectatorCode]
+  );
+  return result.rows[0]?.join_code ?? null;
+}
+
+/**
+ * the session's spectator code. sessions from before spectator codes (and
+ * imported ones) get theirs here, the first time the host asks.
+ */
+export async function getSpectatorCode(sessionId: string): Promise<string> {
+  const existing = await pool.query(
+    `SELECT spectator_code FROM game_sessions WHERE id = $1`,
+    [sessionId]
+  );
+  if (existing.rows[0]?.spectator_code) {
+    return existing.rows[0].spectator_code;
+  }
+
+  // a concurrent request may have set one meanwhile; keep whichever landed first
+  const created = await pool.query(
+    `UPDATE game_sessions
+     SET spectator_code = COALESCE(spectator_code, $1)
+     WHERE id = $2
+     RETURNING spectator_code`,
+    [await generateUniqueSpectatorCode(), sessionId]
+  );
+  return created.rows[0].spectator_code;
+}
+
+/** replace the session's spectator code; the old one stops working */
+export async function resetSpectatorCode(sessionId: string): Promise<string> {
+  const result = await pool.query(
+    `UPDATE game_sessions SET spectator_code = $1 WHERE id = $2 RETURNING spectator_code`,
+    [await generateUniqueSpectatorCode(), sessionId]
+  );
+  return result.rows[0].spectator_code;
+}
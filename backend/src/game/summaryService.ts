@@ -4,21 +4,11 @@
  */
 
 import pool from '../db/pool.js';
-import {
-  createOpenAIClient,
-  OpenAIClient,
-  OpenAIError,
-} from '../llm/openaiResponsesClient.js';
-import {
-  buildSummaryPrompt,
-  buildSummaryInstructions,
-  summaryJsonSchema,
-} from '../llm/summaryPrompt.js';
-import {
-  buildNarrativePrompt,
-  buildNarrativeInstructions,
-  narrativeJsonSchema,
-} from '../llm/narrativePrompt.js';
+import { summaryJsonSchema } from '../llm/summaryPrompt.js';
+import { narrativeJsonSchema } from '../llm/narrativePrompt.js';
+import { getPromptVariant } from '../llm/promptRegistry.js';
+import { assertWithinTokenBudget, generateRecorded } from '../llm/usageLedger.js';
+import { sessionPromptVariant } from './promptExperiments.js';
 import {
   GenerateSummaryParams,
   GenerateNarrativeParams,
@@ -38,49 +28,9 @@ const PLAUSIBILITY_LABELS: Record<number, string> = {
   5: 'preposterous',
 };
 
-/** singleton client instance */
-let clientInstance: OpenAIClient | null = null;
-
-/**
- * get or create the openai client.
- * uses environment variables for configuration.
- */
-function getClient(): OpenAIClient {
-  if (!clientInstance) {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new OpenAIError(
-        'OPENAI_API_KEY environment variable is not set',
-        'MISSING_API_KEY'
-      );
-    }
-
-    clientInstance = createOpenAIClient({
-      apiKey,
-      model: process.env.OPENAI_MODEL || 'gpt-5.2',
-      baseUrl: process.env.OPENAI_BASE_URL || 'https://api.openai.com',
-    });
-  }
-
-  return clientInstance;
-}
-
-/**
- * reset the client instance (for testing).
- */
-export function resetSummaryClient(): void {
-  clientInstance = null;
-}
-
-/**
- * set a custom client instance (for testing).
- */
-export function setSummaryClient(client: OpenAIClient): void {
-  clientInstance = client;
-}
-
 /**
  * fetch all headlines for a range of rounds (inclusive).
+ * flagged and hidden headlines are left out.
  */
 async function fetchHeadlinesInRange(
   sessionId: string,
@@ -100,7 +50,7 @@ async function fetchHeadlinesInRange(
     FROM game_session_headlines h
     JOIN session_players p ON h.player_id = p.id
     WHERE h.session_id = $1 AND h.round_no BETWEEN $2 AND $3
-      AND p.is_system = FALSE
+      AND p.is_system = FALSE AND h.moderation_status = 'approved'
     ORDER BY h.created_at ASC`,
     [sessionId, fromRound, toRound]
   );
@@ -144,7 +94,8 @@ async function markSummaryCompleted(
   inputTokens: number | undefined,
   outputTokens: number | undefined,
   llmRequest: Record<string, unknown>,
-  llmResponse: string
+  llmResponse: string,
+  promptVersion: string
 ): Promise<void> {
   await pool.query(
     `UPDATE round_summaries
@@ -155,6 +106,7 @@ async function markSummaryCompleted(
          llm_output_tokens = $5,
          llm_request = $6,
          llm_response = $7,
+         prompt_version = $8,
          completed_at = CURRENT_TIMESTAMP
      WHERE id = $1`,
     [
@@ -165,6 +117,7 @@ async function markSummaryCompleted(
       outputTokens ?? null,
       JSON.stringify(llmRequest),
       llmResponse,
+      promptVersion,
     ]
   );
 }
@@ -189,32 +142,39 @@ async function markSummaryError(summaryId: string, errorMessage: string): Promis
  * @param params - session id, round number, and max rounds
  * @returns the generated summary with metadata
  * @throws {OpenAIError} if the api call fails
+ * @throws {LLMUsageError} TOKEN_BUDGET_EXCEEDED, stored as the summary's error
  */
 export async function generateRoundSummary(
   params: GenerateSummaryParams
 ): Promise<SummaryResult> {
-  const { sessionId, fromRound, toRound, maxRounds } = params;
+  const { sessionId, fromRound, toRound, maxRounds, topic } = params;
 
   // store the summary keyed by toRound (the most recent round in the range)
   const summaryId = await markSummaryGenerating(sessionId, toRound);
 
   try {
+    await assertWithinTokenBudget(sessionId);
     const headlines = await fetchHeadlinesInRange(sessionId, fromRound, toRound);
+    const variant = getPromptVariant(
+      'summary',
+      await sessionPromptVariant(sessionId, 'summary', `${sessionId}:${toRound}`)
+    );
 
-    const prompt = buildSummaryPrompt({
+    const prompt = variant.buildPrompt({
       fromRound,
       toRound,
       totalRounds: maxRounds,
       headlines,
+      topic,
     });
-    const instructions = buildSummaryInstructions();
+    const instructions = variant.buildInstructions(topic);
 
-    const client = getClient();
-    const result = await client.callResponsesApi<RoundSummaryOutput>({
-      input: prompt,
+    const result = await generateRecorded<RoundSummaryOutput>(
+      { purpose: 'summary', sessionId },
+      summaryJsonSchema,
       instructions,
-      jsonSchema: summaryJsonSchema,
-    });
+      prompt
+    );
 
     await markSummaryCompleted(
       summaryId,
@@ -223,7 +183,8 @@ export async function generateRoundSummary(
       result.usage?.inputTokens,
       result.usage?.outputTokens,
       { prompt, instructions },
-      result.rawText
+      result.rawText,
+      variant.id
     );
 
     return {
@@ -252,7 +213,7 @@ async function fetchAllHeadlinesForNarrative(
     FROM game_session_headlines h
     JOIN session_players p ON h.player_id = p.id
     WHERE h.session_id = $1 AND h.in_game_submitted_at IS NOT NULL
-      AND p.is_system = FALSE
+      AND p.is_system = FALSE AND h.moderation_status = 'approved'
     ORDER BY h.in_game_submitted_at ASC`,
     [sessionId]
   );
@@ -275,23 +236,26 @@ async function fetchAllHeadlinesForNarrative(
 export async function generateFinalNarrativeSummary(
   params: GenerateNarrativeParams
 ): Promise<NarrativeResult> {
-  const { sessionId, maxRounds } = params;
+  const { sessionId, maxRounds, topic } = params;
 
   // store keyed by maxRounds with summary_type = 'narrative'
   const summaryId = await markSummaryGenerating(sessionId, maxRounds, 'narrative');
 
   try {
+    await assertWithinTokenBudget(sessionId);
     const headlines = await fetchAllHeadlinesForNarrative(sessionId);
 
-    const prompt = buildNarrativePrompt({ headlines });
-    const instructions = buildNarrativeInstructions();
+    const variant = getPromptVariant('narrative', await sessionPromptVariant(sessionId, 'narrative', sessionId));
+
+    const prompt = variant.buildPrompt({ headlines });
+    const instructions = variant.buildInstructions(topic);
 
-    const client = getClient();
-    const result = await client.callResponsesApi<NarrativeSummaryOutput>({
-      input: prompt,
+    const result = await generateRecorded<NarrativeSummaryOutput>(
+      { purpose: 'narrative', sessionId },
+      narrativeJsonSchema,
       instructions,
-      jsonSchema: narrativeJsonSchema,
-    });
+      prompt
+    );
 
     await markSummaryCompleted(
       summaryId,
@@ -300,7 +264,8 @@ export async function generateFinalNarrativeSummary(
       result.usage?.inputTokens,
       result.usage?.outputTokens,
       { prompt, instructions },
-      result.rawText
+      result.rawText,
+      variant.id
     );
 
     return {
@@ -351,6 +316,32 @@ export async function getRoundSummary(
   };
 }
 
+/**
+ * the most recent completed round recap, for players who join mid-game and
+ * missed the break it was shown in.
+ *
+ * @param sessionId - the session id
+ * @returns the round number and summary, or null if no recap is ready yet
+ */
+export async function getLatestRoundSummary(
+  sessionId: string
+): Promise<{ roundNo: number; summary: RoundSummaryOutput } | null> {
+  const result = await pool.query(
+    `SELECT round_no, summary_data
+     FROM round_summaries
+     WHERE session_id = $1 AND summary_type = 'historical' AND status = 'completed'
+     ORDER BY round_no DESC
+     LIMIT 1`,
+    [sessionId]
+  );
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  return { roundNo: result.rows[0].round_no, summary: result.rows[0].summary_data };
+}
+
 /**
  * get session id from join code.
  *
@@ -0,0 +1,117 @@
+/**
+ * team mode: players grouped into host-named teams (e.g. table groups) that
+ * share a score.
+ *
+ * the host names the teams when creating the session. everyone who joins goes
+ * to the smallest team; in the lobby the host can move players or re-balance.
+ * a team's score is the sum of its members' scores, and a connection only earns
+ * points for links to another team's headlines (deriveUniqueOtherAuthorCount).
+ */
+
+import { PlayerScoreEntry } from './scoringTypes.js';
+
+export const MIN_TEAMS = 2;
+export const MAX_TEAMS = 8;
+export const MAX_TEAM_NAME_LENGTH = 24;
+
+/** a score breakdown, per player or summed per team */
+export interface TeamScoreBreakdown {
+  baseline: number;
+  plausibility: number;
+  connection: number;
+  planetBonus: number;
+  /** points for risk-mode bets that landed */
+  riskBonus: number;
+  /** points from other players' votes in the breaks */
+  peoplesChoice: number;
+}
+
+export const EMPTY_SCORE_BREAKDOWN: TeamScoreBreakdown = {
+  baseline: 0,
+  plausibility: 0,
+  connection: 0,
+  planetBonus: 0,
+  riskBonus: 0,
+  peoplesChoice: 0,
+};
+
+export interface TeamScoreEntry {
+  team: string;
+  totalScore: number;
+  rank: number;
+  playerIds: string[];
+  scoreBreakdown: TeamScoreBreakdown;
+}
+
+/** the session's team names, or [] for a game without teams */
+export function teamsFromRow(raw: unknown): string[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  return raw.filter((team): team is string => typeof team === 'string');
+}
+
+/** the team with the fewest members; ties go to the team listed first */
+export function smallestTeam(teams: string[], memberTeams: (string | null)[]): string | null {
+  let smallest: string | null = null;
+  let fewest = Infinity;
+  for (const team of teams) {
+    const size = memberTeams.filter((member) => member === team).length;
+    if (size < fewest) {
+      smallest = team;
+      fewest = size;
+    }
+  }
+  return smallest;
+}
+
+/**
+ * spread players over the teams as evenly as possible, dealing them out in the
+ * given order (the lobby passes them shuffled)
+ */
+export function balanceTeams(playerIds: string[], teams: string[]): Map<string, string> {
+  const assignments = new Map<string, string>();
+  if (teams.length === 0) {
+    return assignments;
+  }
+  playerIds.forEach((playerId, i) => {
+    assignments.set(playerId, teams[i % teams.length]);
+  });
+  return assignments;
+}
+
+/**
+ * team totals and summed breakdowns from the player leaderboard, highest first.
+ * players without a team are left out; a game without teams gives [].
+ */
+export function computeTeamLeaderboard(
+  leaderboard: PlayerScoreEntry[],
+  breakdowns: Map<string, TeamScoreBreakdown>
+): TeamScoreEntry[] {
+  const byTeam = new Map<string, Omit<TeamScoreEntry, 'rank'>>();
+  for (const entry of leaderboard) {
+    if (!entry.team) continue;
+    const team = byTeam.get(entry.team) ?? {
+      team: entry.team,
+      totalScore: 0,
+      playerIds: [],
+      scoreBreakdown: { ...EMPTY_SCORE_BREAKDOWN },
+    };
+    const breakdown = breakdowns.get(entry.playerId);
+    team.totalScore += entry.totalScore;
+    team.playerIds.push(entry.playerId);
+    if (breakdown) {
+      team.scoreBreakdown.baseline += breakdown.baseline;
+      team.scoreBreakdown.plausibility += breakdown.plausibility;
+      team.scoreBreakdown.connection += breakdown.connection;
+      team.scoreBreakdown.planetBonus += breakdown.planetBonus;
+      team.scoreBreakdown.riskBonus += breakdown.riskBonus ?? 0;
+      team.scoreBreakdown.peoplesChoice += breakdown.peoplesChoice ?? 0;
+    }
+    byTeam.set(entry.team, team);
+  }
+
+  return Array.from(byTeam.values())
+    .sort((a, b) => b.totalScore - a.totalScore)
+    .map((team, index) => ({ ...team, rank: index + 1 }));
+}
@@ -14,6 +14,10 @@ export interface GameSessionConfig {
   breakMinutes: number;
   maxRounds: number;
   timelineSpeedRatio: number;
+  breakSchedule: number[];
+  summaryRounds: number[];
+  startYear: number | null;
+  totalYears: number;
 }
 
 /**
@@ -25,8 +29,14 @@ export interface GameSessionRuntimeState extends GameSessionConfig {
   phaseStartedAt: Date | null;
   phaseEndsAt: Date | null;
   inGameStartAt: Date | null;
+  pausedAt: Date | null;
 }
 
+/**
+ * host control recorded alongside a state transition (null for timer-driven transitions)
+ */
+export type HostControlAction = 'PAUSE' | 'RESUME' | 'EXTEND' | 'SKIP';
+
 /**
  * phase transition event data
  */
@@ -35,6 +45,7 @@ export interface PhaseTransition {
   fromPhase: GamePhase;
   toPhase: GamePhase;
   roundNo: number;
+  action?: HostControlAction | null;
 }
 
 /**
@@ -48,7 +59,12 @@ export interface GameStateSnapshot {
   maxRounds: number;
   phaseStartedAt: string | null;
   phaseEndsAt: string | null;
+  pausedAt: string | null;
   serverNow: string;
   inGameNow: string | null;
   timelineSpeedRatio: number;
+  breakSchedule: number[];
+  summaryRounds: number[];
+  startYear: number | null;
+  totalYears: number;
 }
@@ -0,0 +1,186 @@
+/**
+ * llm provider for openai-compatible chat completions endpoints.
+ * targets self-hosted servers (llama.cpp, vllm, ollama) that accept
+ * response_format json_schema on /v1/chat/completions.
+ */
+
+import { JsonSchemaDefinition, OpenAIError } from './openaiResponsesClient.js';
+import type { LLMProvider, StructuredResult } from './llmProvider.js';
+import {
+  withRetries,
+  fetchWithTimeout,
+  DEFAULT_TIMEOUT_MS,
+  DEFAULT_MAX_RETRIES,
+  DEFAULT_RETRY_BASE_DELAY_MS,
+} from './retry.js';
+
+export interface ChatCompletionsProviderConfig {
+  /** server root, without the /v1 suffix */
+  baseUrl: string;
+  model: string;
+  /** most local servers ignore this; sent as a bearer token when set */
+  apiKey?: string;
+  /** inject a custom fetch for testing */
+  fetchFn?: typeof fetch;
+  /** per-attempt timeout in ms (default 60s) */
+  timeoutMs?: number;
+  /** retries after the first attempt for transient failures (default 2) */
+  maxRetries?: number;
+  /** delay before the first retry in ms, doubled per retry (default 500) */
+  retryBaseDelayMs?: number;
+  /** inject a custom sleep for testing */
+  sleepFn?: (ms: number) => Promise<void>;
+}
+
+/** the parts of a chat completions response we read */
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+/**
+ * pull the json object out of a completion.
+ * servers without grammar support sometimes wrap the json in prose or a code fence,
+ * so fall back to the outermost braces.
+ */
+export function extractJsonText(content: string): string {
+  const trimmed = content.trim();
+  if (trimmed.startsWith('{')) {
+    return trimmed;
+  }
+  const start = trimmed.indexOf('{');
+  const end = trimmed.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    return trimmed;
+  }
+  return trimmed.slice(start, end + 1);
+}
+
+export function createChatCompletionsProvider(
+  config: ChatCompletionsProviderConfig
+): LLMProvider {
+  const {
+    baseUrl,
+    model,
+    apiKey,
+    fetchFn = fetch,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    maxRetries = DEFAULT_MAX_RETRIES,
+    retryBaseDelayMs = DEFAULT_RETRY_BASE_DELAY_MS,
+    sleepFn,
+  } = config;
+
+  /**
+   * turn a chat completions http response into a parsed result.
+   */
+  async function parseResponse<T>(response: Response): Promise<StructuredResult<T>> {
+    if (!response.ok) {
+      let errorMessage = `Chat completions endpoint returned ${response.status}`;
+      try {
+        const errorBody = (await response.json()) as {
+          error?: { message?: string } | string;
+        };
+        if (typeof errorBody?.error === 'string') {
+          errorMessage = errorBody.error;
+        } else if (errorBody?.error?.message) {
+          errorMessage = errorBody.error.message;
+        }
+      } catch {
+        // ignore json parse errors for error response
+      }
+      throw new OpenAIError(errorMessage, 'API_ERROR', response.status);
+    }
+
+    let responseData: ChatCompletionResponse;
+    try {
+      responseData = (await response.json()) as ChatCompletionResponse;
+    } catch {
+      throw new OpenAIError(
+        'Failed to parse chat completions response as JSON',
+        'INVALID_RESPONSE'
+      );
+    }
+
+    const content = responseData?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string' || content.trim() === '') {
+      throw new OpenAIError(
+        'Unexpected chat completions structure: no message content',
+        'INVALID_RESPONSE_STRUCTURE'
+      );
+    }
+
+    const rawText = extractJsonText(content);
+    let parsedOutput: T;
+    try {
+      parsedOutput = JSON.parse(rawText);
+    } catch {
+      throw new OpenAIError(
+        `Failed to parse model output as JSON: ${content.substring(0, 200)}...`,
+        'INVALID_JSON_OUTPUT'
+      );
+    }
+
+    let usage: { inputTokens: number; outputTokens: number } | undefined;
+    if (responseData.usage) {
+      usage = {
+        inputTokens: responseData.usage.prompt_tokens ?? 0,
+        outputTokens: responseData.usage.completion_tokens ?? 0,
+      };
+    }
+
+    return {
+      output: parsedOutput,
+      rawText,
+      model: responseData.model ?? model,
+      usage,
+    };
+  }
+
+  return {
+    kind: 'openai-compatible',
+
+    async generateStructured<T>(
+      jsonSchema: JsonSchemaDefinition,
+      instructions: string,
+      input: string
+    ): Promise<StructuredResult<T>> {
+      const url = `${baseUrl.replace(/\/+$/, '')}/v1/chat/completions`;
+
+      const body = {
+        model,
+        messages: [
+          { role: 'system', content: instructions },
+          { role: 'user', content: input },
+        ],
+        response_format: {
+          type: 'json_schema',
+          json_schema: {
+            name: jsonSchema.name,
+            strict: jsonSchema.strict ?? true,
+            schema: jsonSchema.schema,
+          },
+        },
+      };
+
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (apiKey) {
+        headers.Authorization = `Bearer ${apiKey}`;
+      }
+
+      let retries = 0;
+      const result = await withRetries(
+        () =>
+          fetchWithTimeout(
+            fetchFn,
+            url,
+            { method: 'POST', headers, body: JSON.stringify(body) },
+            { timeoutMs, serviceName: baseUrl },
+            (response) => parseResponse<T>(response)
+          ),
+        { maxRetries, baseDelayMs: retryBaseDelayMs, sleepFn, onRetry: () => retries++ }
+      );
+      return { ...result, retries };
+    },
+  };
+}
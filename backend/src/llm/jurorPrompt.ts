@@ -4,6 +4,7 @@
  */
 
 import { JsonSchemaDefinition } from './openaiResponsesClient.js';
+import { ScenarioTopic, DEFAULT_SCENARIO_TOPIC } from './scenarioTopic.js';
 
 export interface HeadlineEntry {
   id?: string;
@@ -19,6 +20,8 @@ export interface JurorPromptInput {
   storyDirection: string;
   headlinesList: HeadlineEntry[] | string[];
   planetList: PlanetEntry[];
+  /** what the game is about (default: AI) */
+  topic?: ScenarioTopic;
 }
 
 export type PlausibilityBand = 1 | 2 | 3 | 4 | 5;
@@ -175,11 +178,65 @@ export const jurorJsonSchema: JsonSchemaDefinition = {
   },
 };
 
+/** task 4 of the juror prompt as first written: five variants loosely inspired by the story direction */
+export const JUROR_HEADLINE_TASK_V1 = `Generate five newspaper-style headline variations inspired by the provided story_direction:
+- one headline for P1
+- one headline for P2
+- one headline for P3
+- one headline for P4
+- one headline for P5
+
+These five headlines must represent different realizations of the same core story direction, varying in:
+- pace of progress
+- scale of impact
+- degree of verification
+- degree of institutional acceptance
+- novelty of capability or use
+- how surprising the development is
+
+Important headline rules:
+- Write in newspaper-headline style. If necessary use a second sentence for clarity.
+- Keep them vivid, specific, and readable
+- They should feel like plausible headlines from the relevant future date
+- Do not make all five headlines simple paraphrases
+- The five headlines should become progressively more surprising from P1 to P5
+- You do not need to stick too tightly to the exact wording of the story direction; use it as inspiration, especially for P4 and P5
+- However, all five headlines should still clearly relate to the same underlying story direction
+- Avoid quotation marks unless they add real value
+- Do not include explanatory text inside the headline strings`;
+
+/**
+ * task 4 as tuned in experiments/prompt-tweak-test: the variants keep the
+ * player's voice and escalate in clearly separate steps.
+ */
+export const JUROR_HEADLINE_TASK_V2 = `Generate five newspaper-style headline variations inspired by the provided story_direction, one for each plausibility level (P1 inevitable through P5 preposterous).
+
+VOICE — preserve the player's tone:
+- Keep the player's core phrasing, vocabulary, and level of detail where it fits naturally.
+- Do not add specifics (numbers, named institutions, demographic subgroups, monetary figures) that the player didn't imply.
+- Write simply, not in dense journalistic style. Avoid information-packed constructions.
+- Use plain everyday words over elaborate ones when both would work.
+
+ESCALATION — the 5 bands must clearly differ in drama and stakes:
+- P1 (inevitable): a modest, restrained version of the player's idea — the mildest realistic form
+- P2 (probable): the player's idea happening at normal scale, roughly as stated
+- P3 (plausible): the player's idea with some additional complication, reaction, or surprise
+- P4 (possible): a bolder, more dramatic realization that stretches the player's idea
+- P5 (preposterous): an extreme, destabilising version that still connects to the player's idea
+- Each band must meaningfully differ from the others in scale, stakes, or drama — NOT just by adding a clause to the same base sentence
+- Do not make all five headlines near-identical variants of the same sentence. If all 5 could be paraphrases of each other, the escalation is too weak.
+
+Other rules:
+- Write in concise newspaper-headline style
+- Avoid quotation marks unless they add real value
+- Do not include explanatory text inside the headline strings`;
+
 /**
- * build the juror prompt from the input data.
+ * build the juror prompt from the input data. `headlineTask` is the body of
+ * task 4, which the prompt variants differ in (see promptRegistry.ts).
  */
-export function buildJurorPrompt(input: JurorPromptInput): string {
-  const { storyDirection, headlinesList, planetList } = input;
+export function buildJurorPrompt(input: JurorPromptInput, headlineTask: string = JUROR_HEADLINE_TASK_V1): string {
+  const { storyDirection, headlinesList, planetList, topic = DEFAULT_SCENARIO_TOPIC } = input;
 
   // format headlines list
   const formattedHeadlines = headlinesList
@@ -195,7 +252,7 @@ export function buildJurorPrompt(input: JurorPromptInput): string {
     .map((p) => `- ${p.id}: ${p.description}`)
     .join('\n');
 
-  return `You are an assistant for a collaborative story-telling game about the near future of AI developments and their impacts, told through a sequence of dated headlines.
+  return `You are an assistant for a collaborative story-telling game about ${topic.framing}, told through a sequence of dated headlines.
 
 You will be provided with:
 1. a story_direction containing a dated proposed development
@@ -207,7 +264,7 @@ Your job is to analyze the story direction and return a JSON object that the gam
 There are two important concepts:
 
 1. Plausibility levels
-We consider five levels of plausibility of future developments, taking into account the date of the story direction, what has already happened in the timeline, and the likely pace of AI progress, scientific development, deployment, regulation, and social change. The levels are:
+We consider five levels of plausibility of future developments, taking into account the date of the story direction, what has already happened in the timeline, and the likely pace of ${topic.subject} progress, scientific development, deployment, regulation, and social change. The levels are:
 - P1 = inevitable
 - P2 = probable
 - P3 = plausible
@@ -239,7 +296,7 @@ Use a strict, objective epistemic scale:
 
 When choosing the plausibility level, explicitly take into account:
 - the date in the story direction
-- the likely timeline of AI development
+- the likely timeline of ${topic.subject} development
 - the likely pace of adoption, regulation, and social response
 - whether the claim is about capability, deployment, impact, or public interpretation
 - the previously accepted headlines in headlines_list
@@ -255,40 +312,36 @@ For each linked headline, state:
 - a brief rationale for the connection
 
 Task 4 — Generate five headline variations
-Generate five newspaper-style headline variations inspired by the provided story_direction:
-- one headline for P1
-- one headline for P2
-- one headline for P3
-- one headline for P4
-- one headline for P5
+${headlineTask}
 
-These five headlines must represent different realizations of the same core story direction, varying in:
-- pace of progress
-- scale of impact
-- degree of verification
-- degree of institutional acceptance
-- novelty of capability or use
-- how surprising the development is
+If helpful to you, please discuss your reasoning before you complete these tasks, but end your output with a JSON structure with all the required elements using these keys: PLAUSIBILITY, PLANETS, LINKED, HEADLINES.`;
+}
 
-Important headline rules:
-- Write in newspaper-headline style. If necessary use a second sentence for clarity.
-- Keep them vivid, specific, and readable
-- They should feel like plausible headlines from the relevant future date
-- Do not make all five headlines simple paraphrases
-- The five headlines should become progressively more surprising from P1 to P5
-- You do not need to stick too tightly to the exact wording of the story direction; use it as inspiration, especially for P4 and P5
-- However, all five headlines should still clearly relate to the same underlying story direction
-- Avoid quotation marks unless they add real value
-- Do not include explanatory text inside the headline strings
+/**
+ * build a follow-up prompt asking the juror to fix an answer that broke the
+ * output invariants (e.g. two LINKED entries instead of three).
+ */
+export function buildJurorRepairPrompt(
+  originalPrompt: string,
+  previousOutput: string,
+  problem: string
+): string {
+  return `${originalPrompt}
 
-If helpful to you, please discuss your reasoning before you complete these tasks, but end your output with a JSON structure with all the required elements using these keys: PLAUSIBILITY, PLANETS, LINKED, HEADLINES.`;
+=== YOUR PREVIOUS ANSWER ===
+${previousOutput}
+
+=== PROBLEM WITH THE PREVIOUS ANSWER ===
+${problem}
+
+Return a corrected JSON object that fixes this problem and follows every rule above. Keep the parts that were already valid.`;
 }
 
 /**
  * build the system instructions for the juror.
  */
-export function buildJurorInstructions(): string {
-  return `You are a game juror evaluating story directions for a collaborative AI futures game. You must:
+export function buildJurorInstructions(topic: ScenarioTopic = DEFAULT_SCENARIO_TOPIC): string {
+  return `You are a game juror evaluating story directions for a collaborative ${topic.subject} futures game. You must:
 1. Be objective and consistent in plausibility assessments, accounting for the date and existing timeline context
 2. Rank planet alignments based on thematic fit with the story direction
 3. Generate five headline variations that become progressively more surprising from P1 to P5
@@ -0,0 +1,202 @@
+/**
+ * pluggable llm provider used by the juror and summary services.
+ * the backend is selected with LLM_PROVIDER:
+ * - `openai` (default): the openai responses api (OPENAI_API_KEY, OPENAI_MODEL, OPENAI_BASE_URL)
+ * - `openai-compatible`: any chat completions endpoint such as llama.cpp, vllm or ollama
+ *   (LLM_BASE_URL, LLM_MODEL, optional LLM_API_KEY)
+ * - `offline`: deterministic rule-based outputs, no network at all
+ * the network providers honour LLM_TIMEOUT_MS and LLM_MAX_RETRIES.
+ */
+
+import {
+  JsonSchemaDefinition,
+  OpenAIError,
+  ResponsesApiResult,
+} from './openaiResponsesClient.js';
+import { createOpenAIResponsesProvider } from './openaiResponsesProvider.js';
+import { createChatCompletionsProvider } from './chatCompletionsProvider.js';
+import { createOfflineProvider, OFFLINE_MODEL } from './offlineProvider.js';
+
+export type LLMProviderKind = 'openai' | 'openai-compatible' | 'offline';
+
+/**
+ * parsed structured output from a provider.
+ * same shape as the responses api result so callers can log raw text, model and usage.
+ */
+export type StructuredResult<T> = ResponsesApiResult<T>;
+
+export interface LLMProvider {
+  kind: LLMProviderKind;
+  /**
+   * generate json matching the given schema.
+   *
+   * @param jsonSchema - schema the output must satisfy
+   * @param instructions - system instructions
+   * @param input - the user prompt
+   */
+  generateStructured<T>(
+    jsonSchema: JsonSchemaDefinition,
+    instructions: string,
+    input: string
+  ): Promise<StructuredResult<T>>;
+}
+
+/**
+ * resolved provider configuration.
+ */
+export interface LLMProviderConfig {
+  kind: LLMProviderKind;
+  model: string;
+  baseUrl?: string;
+  apiKey?: string;
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+const PROVIDER_KINDS: LLMProviderKind[] = ['openai', 'openai-compatible', 'offline'];
+
+const DEFAULT_OPENAI_MODEL = 'gpt-5.2';
+const DEFAULT_COMPATIBLE_MODEL = 'local-model';
+
+/** undefined for unset or non-numeric values so client defaults apply */
+function parseOptionalInt(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+  const n = parseInt(value, 10);
+  return Number.isNaN(n) || n < 0 ? undefined : n;
+}
+
+/**
+ * read the provider configuration from environment variables.
+ */
+export function resolveLLMProviderConfig(
+  env: NodeJS.ProcessEnv = process.env
+): LLMProviderConfig {
+  const kind = (env.LLM_PROVIDER || 'openai').trim().toLowerCase() as LLMProviderKind;
+
+  if (!PROVIDER_KINDS.includes(kind)) {
+    throw new OpenAIError(
+      `Unknown LLM_PROVIDER "${env.LLM_PROVIDER}" (expected one of ${PROVIDER_KINDS.join(', ')})`,
+      'UNKNOWN_PROVIDER'
+    );
+  }
+
+  const limits = {
+    timeoutMs: parseOptionalInt(env.LLM_TIMEOUT_MS),
+    maxRetries: parseOptionalInt(env.LLM_MAX_RETRIES),
+  };
+
+  switch (kind) {
+    case 'openai-compatible':
+      return {
+        kind,
+        model: env.LLM_MODEL || DEFAULT_COMPATIBLE_MODEL,
+        baseUrl: env.LLM_BASE_URL,
+        apiKey: env.LLM_API_KEY,
+        ...limits,
+      };
+    case 'offline':
+      return { kind, model: OFFLINE_MODEL };
+    default:
+      return {
+        kind,
+        model: env.OPENAI_MODEL || DEFAULT_OPENAI_MODEL,
+        baseUrl: env.OPENAI_BASE_URL || 'https://api.openai.com',
+        apiKey: env.OPENAI_API_KEY,
+        ...limits,
+      };
+  }
+}
+
+/**
+ * create a provider from environment variables.
+ *
+ * @throws {OpenAIError} if the selected provider is missing required configuration
+ */
+export function createLLMProvider(env: NodeJS.ProcessEnv = process.env): LLMProvider {
+  const config = resolveLLMProviderConfig(env);
+
+  switch (config.kind) {
+    case 'openai-compatible':
+      if (!config.baseUrl) {
+        throw new OpenAIError(
+          'LLM_BASE_URL environment variable is not set',
+          'MISSING_BASE_URL'
+        );
+      }
+      return createChatCompletionsProvider({
+        baseUrl: config.baseUrl,
+        model: config.model,
+        apiKey: config.apiKey,
+        timeoutMs: config.timeoutMs,
+        maxRetries: config.maxRetries,
+      });
+    case 'offline':
+      return createOfflineProvider();
+    default:
+      if (!config.apiKey) {
+        throw new OpenAIError(
+          'OPENAI_API_KEY environment variable is not set',
+          'MISSING_API_KEY'
+        );
+      }
+      return createOpenAIResponsesProvider({
+        apiKey: config.apiKey,
+        model: config.model,
+        baseUrl: config.baseUrl,
+        timeoutMs: config.timeoutMs,
+        maxRetries: config.maxRetries,
+      });
+  }
+}
+
+/**
+ * health summary for the configured provider, without creating it.
+ */
+export function describeLLMProvider(env: NodeJS.ProcessEnv = process.env): {
+  provider: string;
+  model: string | null;
+  status: 'ok' | 'missing_api_key' | 'missing_base_url' | 'unknown_provider';
+} {
+  let config: LLMProviderConfig;
+  try {
+    config = resolveLLMProviderConfig(env);
+  } catch {
+    return { provider: env.LLM_PROVIDER ?? '', model: null, status: 'unknown_provider' };
+  }
+
+  let status: 'ok' | 'missing_api_key' | 'missing_base_url' = 'ok';
+  if (config.kind === 'openai' && !config.apiKey) {
+    status = 'missing_api_key';
+  } else if (config.kind === 'openai-compatible' && !config.baseUrl) {
+    status = 'missing_base_url';
+  }
+
+  return { provider: config.kind, model: config.model, status };
+}
+
+/** shared provider instance */
+let providerInstance: LLMProvider | null = null;
+
+/**
+ * get or create the shared provider.
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!providerInstance) {
+    providerInstance = createLLMProvider();
+  }
+  return providerInstance;
+}
+
+/**
+ * set a custom provider instance (for testing).
+ */
+export function setLLMProvider(provider: LLMProvider): void {
+  providerInstance = provider;
+}
+
+/**
+ * reset the provider instance so the next call re-reads the environment.
+ */
+export function resetLLMProvider(): void {
+  providerInstance = null;
+}
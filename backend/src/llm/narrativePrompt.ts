@@ -8,6 +8,7 @@
 
 import { JsonSchemaDefinition } from './openaiResponsesClient.js';
 import { NarrativePromptInput } from './summaryTypes.js';
+import { ScenarioTopic, DEFAULT_SCENARIO_TOPIC } from './scenarioTopic.js';
 
 export const narrativeJsonSchema: JsonSchemaDefinition = {
   name: 'narrative_summary',
@@ -51,14 +52,14 @@ export const narrativeJsonSchema: JsonSchemaDefinition = {
   },
 };
 
-export function buildNarrativeInstructions(): string {
-  return `You are a literary fiction writer crafting a set of short personal accounts set against years of real and imagined AI history. You are given a chronological list of news headlines from this timeline. Your task is NOT to summarise them, report them, or recap them — your task is to write multiple short first-person "experience reports" that together illustrate different facets of what happened in this period.
+export function buildNarrativeInstructions(topic: ScenarioTopic = DEFAULT_SCENARIO_TOPIC): string {
+  return `You are a literary fiction writer crafting a set of short personal accounts set against years of real and imagined ${topic.subject} history. You are given a chronological list of news headlines from this timeline. Your task is NOT to summarise them, report them, or recap them — your task is to write multiple short first-person "experience reports" that together illustrate different facets of what happened in this period.
 
 Each experience report should:
 - Be written in first person, past tense
 - Follow ONE fictional character (invent them — name, job, era) living through a slice of this period
 - Reference specific events from the headlines as background or personal moments in their life
-- Show how AI reshaped their life, work, relationships, or beliefs
+- Show how ${topic.subject} reshaped their life, work, relationships, or beliefs
 - Feel grounded and human, not grand or speeches-y
 - Avoid game language: never mention headlines, rounds, players, scores, planets, or submissions
 
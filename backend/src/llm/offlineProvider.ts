@@ -0,0 +1,343 @@
+/**
+ * deterministic rule-based llm provider.
+ * produces schema-valid juror, round summary, narrative and moderation outputs from the
+ * prompt text alone, so a full game can run without any network access.
+ * the same input always yields the same output.
+ */
+
+import { JsonSchemaDefinition, OpenAIError } from './openaiResponsesClient.js';
+import type { LLMProvider, StructuredResult } from './llmProvider.js';
+import {
+  BAND_LABELS,
+  JurorEvaluationOutput,
+  LinkedHeadline,
+  PlausibilityBand,
+} from './jurorPrompt.js';
+import {
+  NarrativeSummaryOutput,
+  RoundSummaryOutput,
+} from './summaryTypes.js';
+
+/** model name reported for offline outputs */
+export const OFFLINE_MODEL = 'offline-rules';
+
+const STOPWORDS = new Set([
+  'a', 'about', 'after', 'ai', 'all', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for',
+  'from', 'has', 'have', 'in', 'into', 'is', 'it', 'its', 'new', 'of', 'on', 'or', 'over',
+  'than', 'that', 'the', 'their', 'this', 'to', 'was', 'were', 'will', 'with', 'headline',
+]);
+
+/** words that push a story towards the preposterous end */
+const EXTREME_TERMS = [
+  'immortal', 'teleport', 'time travel', 'alien', 'sentient', 'superintelligen',
+  'overthrow', 'every human', 'all humans', 'entire world', 'abolish', 'extinct',
+];
+
+/** sweeping or absolute claims */
+const BOLD_TERMS = [
+  'first', 'every', 'entire', 'global', 'worldwide', 'completely', 'fully',
+  'replaces', 'bans', 'breakthrough', 'unanimous', 'permanent',
+];
+
+/** incremental, tentative developments */
+const HEDGE_TERMS = [
+  'pilot', 'trial', 'study', 'proposes', 'considers', 'plans', 'small', 'some',
+  'begins', 'tests', 'survey', 'report', 'debate', 'guidance',
+];
+
+/** lowercase content words, with a crude plural strip so "weapons" matches "weapon" */
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z][a-z'-]+/g) ?? [])
+    .map((w) => w.replace(/'s$/, '').replace(/(?<=[a-z]{3})s$/, ''))
+    .filter((w) => !STOPWORDS.has(w) && w.length > 2);
+}
+
+function overlap(a: string[], b: Set<string>): number {
+  return a.filter((w) => b.has(w)).length;
+}
+
+/** stable 32-bit string hash used to break ties */
+function hashString(text: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+function countTerms(text: string, terms: string[]): number {
+  const lower = text.toLowerCase();
+  return terms.filter((t) => lower.includes(t)).length;
+}
+
+/** text between a section header line and the next `===` header */
+function section(prompt: string, header: string): string {
+  const start = prompt.indexOf(`=== ${header}`);
+  if (start === -1) return '';
+  const bodyStart = prompt.indexOf('\n', start) + 1;
+  const end = prompt.indexOf('\n===', bodyStart);
+  return prompt.slice(bodyStart, end === -1 ? undefined : end).trim();
+}
+
+function stripTrailingPunctuation(text: string): string {
+  return text.trim().replace(/[.!?]+$/, '');
+}
+
+function titleCase(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+/** most frequent content words across texts, ties broken alphabetically */
+function topKeywords(texts: string[], limit: number): string[] {
+  const counts = new Map<string, number>();
+  for (const text of texts) {
+    for (const word of new Set(tokenize(text))) {
+      if (word.length < 4) continue;
+      counts.set(word, (counts.get(word) ?? 0) + 1);
+    }
+  }
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([word]) => word);
+}
+
+/**
+ * rule-based plausibility: start at plausible, move towards preposterous for
+ * sweeping or extreme claims and towards inevitable for incremental ones.
+ */
+export function ruleBasedBand(storyDirection: string): PlausibilityBand {
+  const score =
+    3 +
+    2 * Math.min(1, countTerms(storyDirection, EXTREME_TERMS)) +
+    Math.min(2, countTerms(storyDirection, BOLD_TERMS)) -
+    Math.min(2, countTerms(storyDirection, HEDGE_TERMS));
+  return Math.min(5, Math.max(1, score)) as PlausibilityBand;
+}
+
+function buildJurorOutput(prompt: string): JurorEvaluationOutput {
+  const storyDirection = section(prompt, 'STORY DIRECTION');
+  const storyWords = tokenize(storyDirection);
+  const storySet = new Set(storyWords);
+  const seed = hashString(storyDirection);
+
+  const planets = section(prompt, 'PLANET LIST')
+    .split('\n')
+    .map((line) => line.match(/^- ([^:]+): (.*)$/))
+    .filter((m): m is RegExpMatchArray => m !== null)
+    .map(([, id, description]) => ({
+      id: id.trim(),
+      score: overlap(tokenize(description), storySet),
+      tiebreak: hashString(`${seed}:${id}`),
+    }))
+    .sort((a, b) => b.score - a.score || a.tiebreak - b.tiebreak);
+
+  if (planets.length < 3) {
+    throw new OpenAIError(
+      'Offline juror needs at least 3 planets in the prompt',
+      'INVALID_PROMPT'
+    );
+  }
+
+  const headlines = section(prompt, 'HEADLINES LIST')
+    .split('\n')
+    .map((line) => line.match(/^- \[[^\]]*\] (.*)$/)?.[1]?.trim())
+    .filter((text): text is string => !!text)
+    .map((text, index) => ({
+      text,
+      score: overlap([...new Set(tokenize(text))], storySet),
+      index,
+    }))
+    // prefer shared vocabulary, then the most recent headline
+    .sort((a, b) => b.score - a.score || b.index - a.index);
+
+  const linked: LinkedHeadline[] = headlines.slice(0, 3).map((h) => ({
+    headline: h.text,
+    strength: h.score >= 2 ? 'STRONG' : 'WEAK',
+    rationale:
+      h.score > 0
+        ? `Shares ${h.score} key term${h.score === 1 ? '' : 's'} with the story direction`
+        : 'Recent context on the timeline',
+  }));
+  while (linked.length < 3) {
+    linked.push({
+      headline: 'No earlier headline',
+      strength: 'WEAK',
+      rationale: 'The timeline has fewer than three earlier headlines',
+    });
+  }
+
+  const band = ruleBasedBand(storyDirection);
+  const core = stripTrailingPunctuation(storyDirection) || 'An unexpected development';
+
+  return {
+    PLAUSIBILITY: {
+      band,
+      label: BAND_LABELS[band],
+      rationale: `Rule-based estimate from the scope of the claim (${BAND_LABELS[band]})`,
+    },
+    PLANETS: {
+      top3: planets.slice(0, 3).map((p, i) => ({
+        id: p.id,
+        rank: (i + 1) as 1 | 2 | 3,
+        rationale:
+          p.score > 0
+            ? `Matches ${p.score} theme${p.score === 1 ? '' : 's'} in the planet description`
+            : 'Closest remaining thematic fit',
+      })),
+    },
+    LINKED: linked,
+    HEADLINES: {
+      bands: {
+        band1: `As Expected, ${core}`,
+        band2: `${core}, Analysts Say the Trend Is Now Clear`,
+        band3: `Reports Emerge: ${core}`,
+        band4: `In a Surprise Move, ${core}`,
+        band5: `World Stunned Overnight as ${core}`,
+      },
+    },
+  };
+}
+
+/** dominantPlanets is not part of the round_summary schema, so it is left out */
+function buildRoundSummaryOutput(prompt: string): Omit<RoundSummaryOutput, 'dominantPlanets'> {
+  const lines = section(prompt, 'HEADLINES FROM THIS PERIOD').split('\n');
+  const headlines: Array<{ headline: string; player: string; level: number }> = [];
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(/^\d+\. "(.*)" by (.+)$/);
+    if (!match) continue;
+    const level = Number(lines[i + 1]?.match(/\((\d)\/5\)/)?.[1] ?? 3);
+    headlines.push({ headline: match[1], player: match[2].trim(), level });
+  }
+
+  const playerCount = new Set(headlines.map((h) => h.player)).size;
+  const themes = topKeywords(headlines.map((h) => h.headline), 3).map(titleCase);
+
+  if (headlines.length === 0) {
+    return {
+      narrative:
+        'This period passed quietly, with no major developments reported.\n\nObservers waited for the next wave of change.',
+      themes: ['A Quiet Period'],
+      highlightedHeadlines: [
+        {
+          headline: 'No developments reported',
+          source: 'The Archive',
+          significance: 'A pause before what came next',
+        },
+      ],
+      roundStats: { headlineCount: 0, playerCount: 0 },
+    };
+  }
+
+  // the most surprising developments make the highlights
+  const highlighted = [...headlines]
+    .map((h, index) => ({ ...h, index }))
+    .sort((a, b) => b.level - a.level || a.index - b.index)
+    .slice(0, 2);
+
+  const first = headlines[0].headline;
+  const last = headlines[headlines.length - 1].headline;
+  const themeText = themes.length > 0 ? themes.join(', ').toLowerCase() : 'rapid change';
+
+  const narrative =
+    `This period saw ${headlines.length} major development${headlines.length === 1 ? '' : 's'}, ` +
+    `beginning with "${stripTrailingPunctuation(first)}".` +
+    `\n\nBy its close the world had witnessed "${stripTrailingPunctuation(last)}", ` +
+    `and debate centred on ${themeText}.`;
+
+  return {
+    narrative,
+    themes: themes.length > 0 ? themes : ['Rapid Change'],
+    highlightedHeadlines: highlighted.map((h) => ({
+      headline: h.headline,
+      source: h.player,
+      significance:
+        h.level >= 4
+          ? 'Few saw it coming, and it reshaped expectations for what followed'
+          : 'It confirmed the direction the period was already heading',
+    })),
+    roundStats: { headlineCount: headlines.length, playerCount },
+  };
+}
+
+const NARRATORS = [
+  { name: 'Ada Okafor', role: 'night-shift nurse', era: 'early years' },
+  { name: 'Tomas Lindqvist', role: 'secondary school teacher', era: 'middle years' },
+  { name: 'Mei Tanaka', role: 'retired logistics manager', era: 'later years' },
+];
+
+function buildNarrativeOutput(prompt: string): NarrativeSummaryOutput {
+  const events = section(prompt, 'TIMELINE')
+    .split('\n')
+    .map((line) => line.match(/^\[([^\]]*)\] (.*)$/))
+    .filter((m): m is RegExpMatchArray => m !== null)
+    .map(([, date, headline]) => ({ date, headline: stripTrailingPunctuation(headline) }));
+
+  const sliceSize = Math.max(1, Math.ceil(events.length / NARRATORS.length));
+
+  return {
+    reports: NARRATORS.map((character, i) => {
+      const slice = events.slice(i * sliceSize, (i + 1) * sliceSize);
+      const moments = slice.map(
+        (e) => `In ${e.date || 'those months'} I remember hearing that ${e.headline.toLowerCase()}.`
+      );
+      const story = [
+        `I was working as a ${character.role} when things began to shift.`,
+        ...(moments.length > 0
+          ? moments
+          : ['Nothing dramatic happened to me, but I could feel the ground moving.']),
+        'Looking back, I did not notice the world changing so much as notice that I had changed with it.',
+      ].join(' ');
+      const themes = topKeywords(slice.map((e) => e.headline), 3);
+
+      return {
+        character,
+        story,
+        themes_touched: themes.length > 0 ? themes : ['everyday life', 'uncertainty', 'adaptation'],
+      };
+    }),
+  };
+}
+
+/**
+ * llm moderation only runs after the local word-list rules, which already cover
+ * everything rule-based, so offline it has nothing to add
+ */
+function buildModerationOutput(): unknown {
+  return { severity: 'none', categories: [], reason: '' };
+}
+
+const BUILDERS: Record<string, (prompt: string) => unknown> = {
+  juror_evaluation: buildJurorOutput,
+  round_summary: buildRoundSummaryOutput,
+  narrative_summary: buildNarrativeOutput,
+  content_moderation: buildModerationOutput,
+};
+
+export function createOfflineProvider(): LLMProvider {
+  return {
+    kind: 'offline',
+
+    async generateStructured<T>(
+      jsonSchema: JsonSchemaDefinition,
+      _instructions: string,
+      input: string
+    ): Promise<StructuredResult<T>> {
+      const build = BUILDERS[jsonSchema.name];
+      if (!build) {
+        throw new OpenAIError(
+          `Offline provider has no rules for schema "${jsonSchema.name}"`,
+          'UNSUPPORTED_SCHEMA'
+        );
+      }
+
+      const output = build(input) as T;
+      return {
+        output,
+        rawText: JSON.stringify(output),
+        model: OFFLINE_MODEL,
+      };
+    },
+  };
+}
@@ -1,8 +1,17 @@
 /**
  * openai responses api client wrapper.
  * uses fetch (injectable for testing) to call the responses api with json schema enforcement.
+ * transient failures (network, timeout, 429, 5xx) are retried with exponential backoff.
  */
 
+import {
+  withRetries,
+  fetchWithTimeout,
+  DEFAULT_TIMEOUT_MS,
+  DEFAULT_MAX_RETRIES,
+  DEFAULT_RETRY_BASE_DELAY_MS,
+} from './retry.js';
+
 /**
  * configuration for the openai client.
  */
@@ -12,6 +21,14 @@ export interface OpenAIClientConfig {
   baseUrl?: string;
   /** inject a custom fetch for testing */
   fetchFn?: typeof fetch;
+  /** per-attempt timeout in ms (default 60s) */
+  timeoutMs?: number;
+  /** retries after the first attempt for transient failures (default 2) */
+  maxRetries?: number;
+  /** delay before the first retry in ms, doubled per retry (default 500) */
+  retryBaseDelayMs?: number;
+  /** inject a custom sleep for testing */
+  sleepFn?: (ms: number) => Promise<void>;
 }
 
 /**
@@ -50,9 +67,14 @@ export interface ResponsesApiResult<T> {
     inputTokens: number;
     outputTokens: number;
   };
+  /** transient failures retried before this result (http providers only) */
+  retries?: number;
 }
 
 export class OpenAIError extends Error {
+  /** transient failures retried before giving up */
+  retries = 0;
+
   constructor(
     message: string,
     public code: string,
@@ -75,6 +97,10 @@ export function createOpenAIClient(config: OpenAIClientConfig) {
     model = DEFAULT_MODEL,
     baseUrl = DEFAULT_BASE_URL,
     fetchFn = fetch,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    maxRetries = DEFAULT_MAX_RETRIES,
+    retryBaseDelayMs = DEFAULT_RETRY_BASE_DELAY_MS,
+    sleepFn,
   } = config;
 
   if (!apiKey) {
@@ -109,23 +135,32 @@ export function createOpenAIClient(config: OpenAIClientConfig) {
       };
     }
 
-    let response: Response;
-    try {
-      response = await fetchFn(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify(body),
-      });
-    } catch (err) {
-      throw new OpenAIError(
-        `Network error calling OpenAI: ${err instanceof Error ? err.message : String(err)}`,
-        'NETWORK_ERROR'
-      );
-    }
+    let retries = 0;
+    const result = await withRetries(
+      () =>
+        fetchWithTimeout(
+          fetchFn,
+          url,
+          {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              Authorization: `Bearer ${apiKey}`,
+            },
+            body: JSON.stringify(body),
+          },
+          { timeoutMs, serviceName: 'OpenAI' },
+          (response) => parseResponse<T>(response)
+        ),
+      { maxRetries, baseDelayMs: retryBaseDelayMs, sleepFn, onRetry: () => retries++ }
+    );
+    return { ...result, retries };
+  }
 
+  /**
+   * turn a responses api http response into a parsed result.
+   */
+  async function parseResponse<T>(response: Response): Promise<ResponsesApiResult<T>> {
     if (!response.ok) {
       let errorMessage = `OpenAI API returned ${response.status}`;
       try {
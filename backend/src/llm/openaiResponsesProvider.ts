@@ -0,0 +1,19 @@
+/**
+ * llm provider backed by the openai responses api.
+ */
+
+import {
+  createOpenAIClient,
+  OpenAIClientConfig,
+} from './openaiResponsesClient.js';
+import type { LLMProvider } from './llmProvider.js';
+
+export function createOpenAIResponsesProvider(config: OpenAIClientConfig): LLMProvider {
+  const client = createOpenAIClient(config);
+
+  return {
+    kind: 'openai',
+    generateStructured: (jsonSchema, instructions, input) =>
+      client.callResponsesApi({ input, instructions, jsonSchema }),
+  };
+}
@@ -0,0 +1,170 @@
+/**
+ * prompt registry: named, versioned variants of the juror, summary and
+ * narrative prompts.
+ *
+ * every llm call picks a variant here and records its id (`juror.v1`, ...)
+ * as the row's prompt_version, so results can be told apart after a prompt
+ * change. a session can move a kind to another variant, for all of its calls
+ * or a fraction of them (an a/b split, see pickPromptVariant); the rest use
+ * the kind's default. existing variants are never edited: a changed prompt
+ * is a new version.
+ */
+
+import { createHash } from 'crypto';
+import { ScenarioTopic } from './scenarioTopic.js';
+import {
+  JurorPromptInput,
+  buildJurorPrompt,
+  buildJurorInstructions,
+  JUROR_HEADLINE_TASK_V1,
+  JUROR_HEADLINE_TASK_V2,
+} from './jurorPrompt.js';
+import { buildSummaryPrompt, buildSummaryInstructions } from './summaryPrompt.js';
+import { buildNarrativePrompt, buildNarrativeInstructions } from './narrativePrompt.js';
+import { SummaryPromptInput, NarrativePromptInput } from './summaryTypes.js';
+
+export type PromptKind = 'juror' | 'summary' | 'narrative';
+
+export const PROMPT_KINDS: PromptKind[] = ['juror', 'summary', 'narrative'];
+
+interface PromptVariantBase<K extends PromptKind, Input> {
+  /** `<kind>.v<version>`, stored as prompt_version */
+  id: string;
+  kind: K;
+  version: number;
+  description: string;
+  buildInstructions: (topic?: ScenarioTopic) => string;
+  buildPrompt: (input: Input) => string;
+}
+
+export type JurorPromptVariant = PromptVariantBase<'juror', JurorPromptInput>;
+export type SummaryPromptVariant = PromptVariantBase<'summary', SummaryPromptInput>;
+export type NarrativePromptVariant = PromptVariantBase<'narrative', NarrativePromptInput>;
+export type PromptVariant = JurorPromptVariant | SummaryPromptVariant | NarrativePromptVariant;
+export type PromptVariantFor<K extends PromptKind> = Extract<PromptVariant, { kind: K }>;
+
+export const PROMPT_VARIANTS: PromptVariant[] = [
+  {
+    id: 'juror.v1',
+    kind: 'juror',
+    version: 1,
+    description: 'Original juror prompt: five variants loosely inspired by the story direction',
+    buildInstructions: buildJurorInstructions,
+    buildPrompt: (input) => buildJurorPrompt(input, JUROR_HEADLINE_TASK_V1),
+  },
+  {
+    id: 'juror.v2',
+    kind: 'juror',
+    version: 2,
+    description: "Keeps the player's voice and escalates the five variants in clear steps",
+    buildInstructions: buildJurorInstructions,
+    buildPrompt: (input) => buildJurorPrompt(input, JUROR_HEADLINE_TASK_V2),
+  },
+  {
+    id: 'summary.v1',
+    kind: 'summary',
+    version: 1,
+    description: 'Historian recap of the period, in two short paragraphs',
+    buildInstructions: buildSummaryInstructions,
+    buildPrompt: buildSummaryPrompt,
+  },
+  {
+    id: 'narrative.v1',
+    kind: 'narrative',
+    version: 1,
+    description: 'Three first-person experience reports',
+    buildInstructions: buildNarrativeInstructions,
+    buildPrompt: buildNarrativePrompt,
+  },
+];
+
+/** the variant each kind uses unless a session says otherwise */
+export const DEFAULT_PROMPT_VARIANTS: Record<PromptKind, string> = {
+  juror: 'juror.v1',
+  summary: 'summary.v1',
+  narrative: 'narrative.v1',
+};
+
+/** a session's choice of variant for one kind */
+export interface PromptAssignment {
+  variant: string;
+  /** share of the calls (0-1) that use the variant, the rest using the default; all when unset */
+  fraction?: number;
+}
+
+/** a session's prompt assignments; kinds left out use their defaults */
+export type PromptExperiment = Partial<Record<PromptKind, PromptAssignment>>;
+
+export class PromptRegistryError extends Error {
+  constructor(
+    message: string,
+    public code: string
+  ) {
+    super(message);
+    this.name = 'PromptRegistryError';
+  }
+}
+
+export function findPromptVariant(id: string): PromptVariant | undefined {
+  return PROMPT_VARIANTS.find((variant) => variant.id === id);
+}
+
+/**
+ * a variant of the given kind, the kind's default without an id.
+ *
+ * @throws {PromptRegistryError} UNKNOWN_PROMPT_VARIANT, or WRONG_PROMPT_KIND
+ *   for a variant of another kind
+ */
+export function getPromptVariant<K extends PromptKind>(kind: K, id?: string): PromptVariantFor<K> {
+  const variantId = id ?? DEFAULT_PROMPT_VARIANTS[kind];
+  const variant = findPromptVariant(variantId);
+  if (!variant) {
+    throw new PromptRegistryError(`Unknown prompt variant "${variantId}"`, 'UNKNOWN_PROMPT_VARIANT');
+  }
+  if (variant.kind !== kind) {
+    throw new PromptRegistryError(`Prompt variant "${variantId}" is not a ${kind} prompt`, 'WRONG_PROMPT_KIND');
+  }
+  return variant as PromptVariantFor<K>;
+}
+
+/** read a session's assignments back from a game_sessions row; NULL means the defaults */
+export function promptExperimentFromRow(raw: unknown): PromptExperiment {
+  return raw && typeof raw === 'object' ? (raw as PromptExperiment) : {};
+}
+
+/** stable position of a call in [0, 1), so a headline re-evaluated later stays on its arm */
+function splitPosition(kind: PromptKind, unitId: string): number {
+  return createHash('sha256').update(`${kind}:${unitId}`).digest().readUInt32BE(0) / 2 ** 32;
+}
+
+/**
+ * the variant id one call uses: the session's variant for the kind if the
+ * call (a headline id, say) falls in its fraction, otherwise the default.
+ * variants that have since left the registry fall back to the default.
+ */
+export function pickPromptVariant(kind: PromptKind, experiment: PromptExperiment, unitId: string): string {
+  const assignment = experiment[kind];
+  const variant = assignment && findPromptVariant(assignment.variant);
+  if (!variant || variant.kind !== kind) {
+    return DEFAULT_PROMPT_VARIANTS[kind];
+  }
+  const fraction = assignment.fraction ?? 1;
+  return splitPosition(kind, unitId) < fraction ? variant.id : DEFAULT_PROMPT_VARIANTS[kind];
+}
+
+/** the registry as listed to clients */
+export function describePromptVariants(): Array<{
+  id: string;
+  kind: PromptKind;
+  version: number;
+  description: string;
+  isDefault: boolean;
+}> {
+  return PROMPT_VARIANTS.map(({ id, kind, version, description }) => ({
+    id,
+    kind,
+    version,
+    description,
+    isDefault: DEFAULT_PROMPT_VARIANTS[kind] === id,
+  }));
+}
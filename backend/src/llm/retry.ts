@@ -0,0 +1,113 @@
+/**
+ * retry and timeout helpers shared by the http llm clients.
+ */
+
+import { OpenAIError } from './openaiResponsesClient.js';
+
+export interface RetryOptions {
+  /** retries after the first attempt */
+  maxRetries: number;
+  /** delay before the first retry; doubles on each subsequent retry */
+  baseDelayMs: number;
+  /** inject a custom sleep for testing */
+  sleepFn?: (ms: number) => Promise<void>;
+  /** called before each retry, so callers can count them */
+  onRetry?: (error: unknown) => void;
+}
+
+export const DEFAULT_TIMEOUT_MS = 60_000;
+export const DEFAULT_MAX_RETRIES = 2;
+export const DEFAULT_RETRY_BASE_DELAY_MS = 500;
+
+/** upper bound on a single backoff delay */
+const MAX_RETRY_DELAY_MS = 8_000;
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * transient failures worth retrying: network errors, timeouts, rate limits and
+ * server-side errors. malformed output is left to the caller's repair pass.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!(error instanceof OpenAIError)) return false;
+  if (error.code === 'NETWORK_ERROR' || error.code === 'TIMEOUT') return true;
+  if (error.code === 'API_ERROR' && error.statusCode !== undefined) {
+    return error.statusCode === 408 || error.statusCode === 429 || error.statusCode >= 500;
+  }
+  return false;
+}
+
+/**
+ * run `attempt` until it succeeds, a non-retryable error is thrown, or the
+ * retry budget is spent. backoff is exponential: base, 2x base, 4x base, ...
+ * the error that ends the run carries the retries spent on it (`retries`).
+ */
+export async function withRetries<T>(
+  attempt: () => Promise<T>,
+  options: RetryOptions
+): Promise<T> {
+  const sleepFn = options.sleepFn ?? sleep;
+
+  for (let retry = 0; ; retry++) {
+    try {
+      return await attempt();
+    } catch (err) {
+      if (retry >= options.maxRetries || !isRetryableError(err)) {
+        if (err instanceof OpenAIError) {
+          err.retries = retry;
+        }
+        throw err;
+      }
+      options.onRetry?.(err);
+      const delay = Math.min(options.baseDelayMs * 2 ** retry, MAX_RETRY_DELAY_MS);
+      console.warn(
+        `LLM call failed (${(err as OpenAIError).code}), retrying in ${delay}ms ` +
+        `(${retry + 1}/${options.maxRetries})`
+      );
+      await sleepFn(delay);
+    }
+  }
+}
+
+/**
+ * fetch with an abort-based timeout covering the request and the body read.
+ * `read` consumes the response while the timer is still armed.
+ */
+export async function fetchWithTimeout<T>(
+  fetchFn: typeof fetch,
+  url: string,
+  init: RequestInit,
+  options: { timeoutMs: number; serviceName: string },
+  read: (response: Response) => Promise<T>
+): Promise<T> {
+  const { timeoutMs, serviceName } = options;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    let response: Response;
+    try {
+      response = await fetchFn(url, { ...init, signal: controller.signal });
+    } catch (err) {
+      if (controller.signal.aborted) {
+        throw new OpenAIError(`${serviceName} timed out after ${timeoutMs}ms`, 'TIMEOUT');
+      }
+      throw new OpenAIError(
+        `Network error calling ${serviceName}: ${err instanceof Error ? err.message : String(err)}`,
+        'NETWORK_ERROR'
+      );
+    }
+
+    try {
+      return await read(response);
+    } catch (err) {
+      // an abort mid-body surfaces as a parse failure; report it as the timeout it is
+      if (controller.signal.aborted) {
+        throw new OpenAIError(`${serviceName} timed out after ${timeoutMs}ms`, 'TIMEOUT');
+      }
+      throw err;
+    }
+  } finally {
+    clearTimeout(timer);
+  }
+}
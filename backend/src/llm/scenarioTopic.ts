@@ -0,0 +1,16 @@
+/**
+ * what a game is about, as the juror, summary and narrative prompts describe it.
+ * scenario packs set their own; the default is the original AI game.
+ */
+
+export interface ScenarioTopic {
+  /** short subject, as in "a timeline where AI has transformed society" */
+  subject: string;
+  /** what the story is about, as in "a story-telling game about ..." */
+  framing: string;
+}
+
+export const DEFAULT_SCENARIO_TOPIC: ScenarioTopic = {
+  subject: 'AI',
+  framing: 'the near future of AI developments and their impacts',
+};
@@ -5,6 +5,7 @@
 
 import { JsonSchemaDefinition } from './openaiResponsesClient.js';
 import { SummaryPromptInput, RoundHeadlineInput } from './summaryTypes.js';
+import { ScenarioTopic, DEFAULT_SCENARIO_TOPIC } from './scenarioTopic.js';
 
 /**
  * json schema that enforces the structure of the round summary output.
@@ -86,7 +87,7 @@ function formatHeadline(headline: RoundHeadlineInput, index: number): string {
  * build the summary prompt from the input data.
  */
 export function buildSummaryPrompt(input: SummaryPromptInput): string {
-  const { fromRound, toRound, totalRounds, headlines } = input;
+  const { fromRound, toRound, totalRounds, headlines, topic = DEFAULT_SCENARIO_TOPIC } = input;
 
   const formattedHeadlines = headlines.length > 0
     ? headlines.map((h, i) => formatHeadline(h, i)).join('\n\n')
@@ -103,7 +104,7 @@ export function buildSummaryPrompt(input: SummaryPromptInput): string {
       ? `The entire timeline (all ${totalRounds} rounds)`
       : `Rounds ${fromRound}-${toRound} of ${totalRounds}`);
 
-  return `You are a future historian summarizing events from a timeline where AI has transformed society. ${periodLabel} has just ended.
+  return `You are a future historian summarizing events from a timeline where ${topic.subject} has transformed society. ${periodLabel} has just ended.
 
 === HEADLINES FROM THIS PERIOD ===
 ${formattedHeadlines}
@@ -131,8 +132,8 @@ Write in a journalistic or documentary style. The tone should be informative and
 /**
  * build the system instructions for the summary generator.
  */
-export function buildSummaryInstructions(): string {
-  return `You are a future historian documenting events from an alternate timeline where AI has transformed society.
+export function buildSummaryInstructions(topic: ScenarioTopic = DEFAULT_SCENARIO_TOPIC): string {
+  return `You are a future historian documenting events from an alternate timeline where ${topic.subject} has transformed society.
 
 Your role is to create immersive narrative summaries that:
 - Treat the headlines as REAL events that actually happened
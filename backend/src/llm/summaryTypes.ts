@@ -3,6 +3,8 @@
  * defines the structure for ai-generated narrative summaries displayed during break phase.
  */
 
+import type { ScenarioTopic } from './scenarioTopic.js';
+
 /**
  * a highlighted headline from the round with context about its significance.
  */
@@ -57,6 +59,8 @@ export interface SummaryPromptInput {
   toRound: number;
   totalRounds: number;
   headlines: RoundHeadlineInput[];
+  /** what the game is about (default: AI) */
+  topic?: ScenarioTopic;
 }
 
 /**
@@ -68,6 +72,7 @@ export interface GenerateSummaryParams {
   fromRound: number;
   toRound: number;
   maxRounds: number;
+  topic?: ScenarioTopic;
 }
 
 /**
@@ -121,6 +126,7 @@ export interface NarrativePromptInput {
 export interface GenerateNarrativeParams {
   sessionId: string;
   maxRounds: number;
+  topic?: ScenarioTopic;
 }
 
 /**
@@ -148,6 +154,7 @@ export interface RoundSummaryRow {
   llm_model: string | null;
   llm_input_tokens: number | null;
   llm_output_tokens: number | null;
+  prompt_version: string | null;
   created_at: Date;
   completed_at: Date | null;
 }
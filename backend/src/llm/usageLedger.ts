@@ -0,0 +1,329 @@
+/**
+ * llm usage ledger: every llm call in llm_calls, with its purpose, model,
+ * tokens, latency, outcome and retries, and the totals and token budgets
+ * built on it.
+ *
+ * callers go through generateRecorded rather than the provider. recording
+ * never fails the call: a write error is logged and the result returned.
+ * costs are worked out when reporting, from llm_model_prices (usd per million
+ * tokens), so a price change applies to past calls too; calls to a model
+ * without a price are counted as unpriced.
+ */
+
+import pool from '../db/pool.js';
+import { JsonSchemaDefinition, OpenAIError } from './openaiResponsesClient.js';
+import { StructuredResult, describeLLMProvider, getLLMProvider } from './llmProvider.js';
+
+export type LLMCallPurpose = 'juror' | 'summary' | 'narrative' | 'moderation';
+
+/** what a call is for, and which game it is charged to */
+export interface LLMCallContext {
+  purpose: LLMCallPurpose;
+  /** null for calls outside a game, which count in the daily totals only */
+  sessionId?: string | null;
+  headlineId?: string | null;
+}
+
+export const MIN_TOKEN_BUDGET = 1_000;
+export const MAX_TOKEN_BUDGET = 100_000_000;
+export const DEFAULT_USAGE_DAYS = 30;
+export const MAX_USAGE_DAYS = 366;
+
+export class LLMUsageError extends Error {
+  constructor(
+    message: string,
+    public code: string
+  ) {
+    super(message);
+    this.name = 'LLMUsageError';
+  }
+}
+
+interface LLMCallRecord extends LLMCallContext {
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  status: 'ok' | 'error';
+  retries: number;
+  error: string | null;
+}
+
+async function recordCall(record: LLMCallRecord): Promise<void> {
+  try {
+    await pool.query(
+      `INSERT INTO llm_calls (
+        session_id, headline_id, purpose, provider, model, input_tokens, output_tokens,
+        latency_ms, status, retries, error
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+      [
+        record.sessionId ?? null,
+        record.headlineId ?? null,
+        record.purpose,
+        record.provider,
+        record.model,
+        record.inputTokens,
+        record.outputTokens,
+        record.latencyMs,
+        record.status,
+        record.retries,
+        record.error,
+      ]
+    );
+  } catch (err) {
+    console.warn(`Failed to record an LLM call: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+/**
+ * `generateStructured` on the shared provider, recorded in the ledger whether
+ * it succeeds or fails. errors are rethrown as they are.
+ */
+export async function generateRecorded<T>(
+  context: LLMCallContext,
+  jsonSchema: JsonSchemaDefinition,
+  instructions: string,
+  input: string
+): Promise<StructuredResult<T>> {
+  const provider = getLLMProvider();
+  const startedAt = Date.now();
+  try {
+    const result = await provider.generateStructured<T>(jsonSchema, instructions, input);
+    await recordCall({
+      ...context,
+      provider: provider.kind,
+      model: result.model,
+      inputTokens: result.usage?.inputTokens ?? 0,
+      outputTokens: result.usage?.outputTokens ?? 0,
+      latencyMs: Date.now() - startedAt,
+      status: 'ok',
+      retries: result.retries ?? 0,
+      error: null,
+    });
+    return result;
+  } catch (err) {
+    await recordCall({
+      ...context,
+      provider: provider.kind,
+      // no result to read the model from: use the configured one
+      model: describeLLMProvider().model ?? provider.kind,
+      inputTokens: 0,
+      outputTokens: 0,
+      latencyMs: Date.now() - startedAt,
+      status: 'error',
+      retries: err instanceof OpenAIError ? err.retries : 0,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    throw err;
+  }
+}
+
+export interface TokenBudgetStatus {
+  /** null for no limit */
+  budget: number | null;
+  /** input plus output tokens the session's calls have used */
+  used: number;
+  remaining: number | null;
+  exceeded: boolean;
+}
+
+function toBudgetStatus(budget: number | null, used: number): TokenBudgetStatus {
+  return {
+    budget,
+    used,
+    remaining: budget === null ? null : Math.max(0, budget - used),
+    exceeded: budget !== null && used >= budget,
+  };
+}
+
+/** a session's token budget and what it has used; no limit for unknown sessions */
+export async function getTokenBudgetStatus(sessionId: string): Promise<TokenBudgetStatus> {
+  const result = await pool.query(
+    `SELECT s.llm_token_budget,
+            (SELECT COALESCE(SUM(c.input_tokens + c.output_tokens), 0)
+             FROM llm_calls c WHERE c.session_id = s.id) AS used
+     FROM game_sessions s
+     WHERE s.id = $1`,
+    [sessionId]
+  );
+  const row = result.rows[0];
+  return toBudgetStatus(row?.llm_token_budget ?? null, Number(row?.used ?? 0));
+}
+
+/**
+ * for the optional llm work of a session (round summaries, the narrative):
+ * the juror always runs, since scoring needs it.
+ *
+ * @throws {LLMUsageError} TOKEN_BUDGET_EXCEEDED once the session's budget is used up
+ */
+export async function assertWithinTokenBudget(sessionId: string): Promise<void> {
+  const status = await getTokenBudgetStatus(sessionId);
+  if (status.exceeded) {
+    throw new LLMUsageError(
+      `Skipped: this game has used its ${status.budget} token budget`,
+      'TOKEN_BUDGET_EXCEEDED'
+    );
+  }
+}
+
+export interface UsageTotals {
+  calls: number;
+  failed: number;
+  retries: number;
+  inputTokens: number;
+  outputTokens: number;
+  meanLatencyMs: number | null;
+  /** usd for the priced calls; null when none are priced */
+  costUsd: number | null;
+  /** calls to models without a price, left out of costUsd */
+  unpricedCalls: number;
+}
+
+const TOTALS_COLUMNS = `COUNT(*)::int AS calls,
+  COUNT(*) FILTER (WHERE c.status = 'error')::int AS failed,
+  COALESCE(SUM(c.retries), 0)::int AS retries,
+  COALESCE(SUM(c.input_tokens), 0) AS input_tokens,
+  COALESCE(SUM(c.output_tokens), 0) AS output_tokens,
+  ROUND(AVG(c.latency_ms))::int AS mean_latency_ms,
+  SUM((c.input_tokens * p.input_per_million + c.output_tokens * p.output_per_million) / 1000000) AS cost_usd,
+  COUNT(*) FILTER (WHERE p.model IS NULL)::int AS unpriced_calls`;
+
+function toTotals(row: Record<string, unknown> | undefined): UsageTotals {
+  return {
+    calls: Number(row?.calls ?? 0),
+    failed: Number(row?.failed ?? 0),
+    retries: Number(row?.retries ?? 0),
+    inputTokens: Number(row?.input_tokens ?? 0),
+    outputTokens: Number(row?.output_tokens ?? 0),
+    meanLatencyMs: row?.mean_latency_ms == null ? null : Number(row.mean_latency_ms),
+    costUsd: row?.cost_usd == null ? null : Number(row.cost_usd),
+    unpricedCalls: Number(row?.unpriced_calls ?? 0),
+  };
+}
+
+/** totals over the calls matching `where`, overall or per value of `groupBy` */
+async function usageTotals(where: string, params: unknown[], groupBy?: string): Promise<Array<UsageTotals & { key?: string }>> {
+  const result = await pool.query(
+    `SELECT ${groupBy ? `${groupBy} AS key, ` : ''}${TOTALS_COLUMNS}
+     FROM llm_calls c
+     LEFT JOIN llm_model_prices p ON p.model = c.model
+     WHERE ${where}
+     ${groupBy ? `GROUP BY 1 ORDER BY 1 DESC` : ''}`,
+    params
+  );
+  return result.rows.map((row) => ({ ...(groupBy && { key: row.key }), ...toTotals(row) }));
+}
+
+export interface SessionLLMUsage {
+  joinCode: string;
+  totals: UsageTotals;
+  byPurpose: Array<UsageTotals & { purpose: string }>;
+  byModel: Array<UsageTotals & { model: string }>;
+  budget: TokenBudgetStatus;
+}
+
+async function findSession(joinCode: string): Promise<{ id: string; join_code: string; llm_token_budget: number | null }> {
+  const result = await pool.query(`SELECT id, join_code, llm_token_budget FROM game_sessions WHERE join_code = $1`, [
+    joinCode,
+  ]);
+  if (result.rows.length === 0) {
+    throw new LLMUsageError('Session not found', 'SESSION_NOT_FOUND');
+  }
+  return result.rows[0];
+}
+
+/**
+ * a session's llm calls: totals, per purpose, per model, and its budget.
+ *
+ * @throws {LLMUsageError} SESSION_NOT_FOUND
+ */
+export async function getSessionLLMUsage(joinCode: string): Promise<SessionLLMUsage> {
+  const session = await findSession(joinCode);
+  const where = 'c.session_id = $1';
+  const [[totals], byPurpose, byModel] = await Promise.all([
+    usageTotals(where, [session.id]),
+    usageTotals(where, [session.id], 'c.purpose'),
+    usageTotals(where, [session.id], 'c.model'),
+  ]);
+  const used = totals.inputTokens + totals.outputTokens;
+  return {
+    joinCode: session.join_code,
+    totals,
+    byPurpose: byPurpose.map(({ key, ...rest }) => ({ purpose: key!, ...rest })),
+    byModel: byModel.map(({ key, ...rest }) => ({ model: key!, ...rest })),
+    budget: toBudgetStatus(session.llm_token_budget, used),
+  };
+}
+
+export interface DailyLLMUsage {
+  days: number;
+  totals: UsageTotals;
+  /** newest first; days without calls are left out */
+  byDay: Array<UsageTotals & { day: string }>;
+}
+
+/** every llm call of the last `days` days (utc, today included), games or not */
+export async function getDailyLLMUsage(days: number = DEFAULT_USAGE_DAYS): Promise<DailyLLMUsage> {
+  const where = `c.created_at >= (CURRENT_DATE AT TIME ZONE 'UTC') - ($1::int - 1) * INTERVAL '1 day'`;
+  const [[totals], byDay] = await Promise.all([
+    usageTotals(where, [days]),
+    usageTotals(where, [days], `to_char(c.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD')`),
+  ]);
+  return {
+    days,
+    totals,
+    byDay: byDay.map(({ key, ...rest }) => ({ day: key!, ...rest })),
+  };
+}
+
+export interface ModelPrice {
+  model: string;
+  /** usd per million tokens */
+  inputPerMillion: number;
+  outputPerMillion: number;
+  updatedAt: string;
+}
+
+function toPrice(row: { model: string; input_per_million: string; output_per_million: string; updated_at: Date }): ModelPrice {
+  return {
+    model: row.model,
+    inputPerMillion: Number(row.input_per_million),
+    outputPerMillion: Number(row.output_per_million),
+    updatedAt: new Date(row.updated_at).toISOString(),
+  };
+}
+
+export async function listModelPrices(): Promise<ModelPrice[]> {
+  const result = await pool.query(
+    `SELECT model, input_per_million, output_per_million, updated_at FROM llm_model_prices ORDER BY model`
+  );
+  return result.rows.map(toPrice);
+}
+
+/** add or replace a model's price */
+export async function setModelPrice(model: string, inputPerMillion: number, outputPerMillion: number): Promise<ModelPrice> {
+  const result = await pool.query(
+    `INSERT INTO llm_model_prices (model, input_per_million, output_per_million)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (model) DO UPDATE
+       SET input_per_million = EXCLUDED.input_per_million,
+           output_per_million = EXCLUDED.output_per_million,
+           updated_at = NOW()
+     RETURNING model, input_per_million, output_per_million, updated_at`,
+    [model, inputPerMillion, outputPerMillion]
+  );
+  return toPrice(result.rows[0]);
+}
+
+/**
+ * set or clear (null) a session's token budget, e.g. to lift it mid-game.
+ *
+ * @throws {LLMUsageError} SESSION_NOT_FOUND
+ */
+export async function setSessionTokenBudget(joinCode: string, budget: number | null): Promise<TokenBudgetStatus> {
+  const session = await findSession(joinCode);
+  await pool.query(`UPDATE game_sessions SET llm_token_budget = $1 WHERE id = $2`, [budget, session.id]);
+  return getTokenBudgetStatus(session.id);
+}
@@ -0,0 +1,92 @@
+/**
+ * llm-backed moderation. the local rules run first and settle anything they
+ * find severe; the llm judges what they let through, which catches the
+ * harassment and hateful framing a word list can't. if the llm call fails the
+ * local verdict stands, so an outage never blocks submissions.
+ */
+
+import { JsonSchemaDefinition } from '../llm/openaiResponsesClient.js';
+import { generateRecorded } from '../llm/usageLedger.js';
+import type { ModerationProvider, ModerationSeverity, ModerationVerdict } from './moderationProvider.js';
+import { worstVerdict } from './moderationProvider.js';
+
+export const moderationJsonSchema: JsonSchemaDefinition = {
+  name: 'content_moderation',
+  strict: true,
+  schema: {
+    type: 'object',
+    properties: {
+      severity: {
+        type: 'string',
+        enum: ['none', 'mild', 'severe'],
+        description: 'none = fine for a classroom, mild = crude or personal, severe = hateful, threatening or sexual',
+      },
+      categories: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Short snake_case labels such as profanity, harassment, hate, sexual, violence, personal_info',
+      },
+      reason: {
+        type: 'string',
+        description: 'One short sentence a player could read; empty when severity is none',
+      },
+    },
+    required: ['severity', 'categories', 'reason'],
+    additionalProperties: false,
+  },
+};
+
+export const MODERATION_INSTRUCTIONS = `You moderate text typed into a classroom game where players write fictional future news headlines.
+Dark, satirical or alarming futures are fine: wars, pandemics, collapse, crime and controversy are all legitimate headlines.
+Flag only how the text is written or who it targets:
+- mild: profanity, crude sexual jokes, insults aimed at a person, personal contact details
+- severe: slurs, hate against a protected group, threats, encouragement of self-harm, sexual content involving minors or graphic sexual content
+Reply with the JSON schema only.`;
+
+interface ModerationOutput {
+  severity: ModerationSeverity;
+  categories: string[];
+  reason: string;
+}
+
+const SEVERITIES: ModerationSeverity[] = ['none', 'mild', 'severe'];
+
+export function createLLMModerationProvider(local: ModerationProvider): ModerationProvider {
+  return {
+    kind: 'llm',
+
+    async check(text: string): Promise<ModerationVerdict> {
+      const localVerdict = await local.check(text);
+      if (localVerdict.severity === 'severe') {
+        return { ...localVerdict, provider: 'llm' };
+      }
+
+      try {
+        const { output } = await generateRecorded<ModerationOutput>(
+          { purpose: 'moderation' },
+          moderationJsonSchema,
+          MODERATION_INSTRUCTIONS,
+          text
+        );
+        const severity = SEVERITIES.includes(output.severity) ? output.severity : 'none';
+        return worstVerdict(
+          [
+            localVerdict,
+            {
+              severity,
+              categories: Array.isArray(output.categories) ? output.categories : [],
+              reason: output.reason || null,
+              provider: 'llm',
+            },
+          ],
+          'llm'
+        );
+      } catch (err) {
+        console.warn(
+          `LLM moderation failed, using the local rules: ${err instanceof Error ? err.message : err}`
+        );
+        return { ...localVerdict, provider: 'llm' };
+      }
+    },
+  };
+}
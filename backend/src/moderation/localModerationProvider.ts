@@ -0,0 +1,114 @@
+/**
+ * built-in word-list and regex moderation. cheap and deterministic, so it runs
+ * on every submission, and first when the llm provider is configured.
+ * the lists are deliberately short: they catch the obvious cases and a
+ * deployment adds its own terms with MODERATION_BLOCKLIST.
+ */
+
+import type { ModerationProvider, ModerationSeverity, ModerationVerdict } from './moderationProvider.js';
+import { worstVerdict } from './moderationProvider.js';
+
+export interface ModerationRule {
+  pattern: RegExp;
+  category: string;
+  severity: Exclude<ModerationSeverity, 'none'>;
+  reason: string;
+  /** match against the raw text instead of the normalised one (contact details, links) */
+  raw?: boolean;
+}
+
+export const DEFAULT_MODERATION_RULES: ModerationRule[] = [
+  {
+    pattern: /\b(kill|hang|shoot)\s+(yo)?ur\s*self\b|\bkys\b/,
+    category: 'self_harm',
+    severity: 'severe',
+    reason: 'encourages self-harm',
+  },
+  {
+    pattern: /\bi\s*('?ll|will|'?m going to|'?m gonna|am going to|am gonna)\s+(kill|murder|hurt|rape)\s+(you|u)\b/,
+    category: 'threat',
+    severity: 'severe',
+    reason: 'contains a threat',
+  },
+  {
+    pattern: /\bn+i+g+(e+r+|a+h?)s?\b|\bf+a+g+(o+t+)?s?\b|\bc+u+n+t+s?\b/,
+    category: 'slur',
+    severity: 'severe',
+    reason: 'contains a slur',
+  },
+  {
+    pattern: /\bf+u+c+k+\w*|\bs+h+i+t+(s|ty|ting)?\b|\bbitch(es|y)?\b|\bbastards?\b|\basshole\w*|\bdickheads?\b|\bwank(er|ers|ing)?\b|\bbollocks\b|\bpiss(ed|ing)?\b/,
+    category: 'profanity',
+    severity: 'mild',
+    reason: 'contains profanity',
+  },
+  {
+    pattern: /[\w.+-]+@[\w-]+\.[\w.]+|(\+|\b)\d[\d\s().-]{8,}\d\b/,
+    category: 'personal_info',
+    severity: 'mild',
+    reason: 'contains personal contact details',
+    raw: true,
+  },
+  {
+    pattern: /\bhttps?:\/\/|\bwww\.\w/i,
+    category: 'link',
+    severity: 'mild',
+    reason: 'contains a link',
+    raw: true,
+  },
+];
+
+/** digits and symbols commonly swapped for letters to dodge word lists */
+const LOOKALIKES: Record<string, string> = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's',
+};
+
+/** lowercase, with lookalike characters mapped back to letters */
+export function normalizeForModeration(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[013457@$]/g, (c) => LOOKALIKES[c]);
+}
+
+/** split MODERATION_BLOCKLIST into terms */
+export function parseBlocklist(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((t) => t.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function blocklistRule(terms: string[]): ModerationRule | null {
+  if (terms.length === 0) return null;
+  const escaped = terms.map((t) => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return {
+    pattern: new RegExp(`\\b(${escaped.join('|')})\\b`),
+    category: 'blocklist',
+    severity: 'severe',
+    reason: 'contains a blocked term',
+  };
+}
+
+export function createLocalModerationProvider(
+  options: { rules?: ModerationRule[]; blocklist?: string[] } = {}
+): ModerationProvider {
+  const extra = blocklistRule(options.blocklist ?? []);
+  const rules = [...(options.rules ?? DEFAULT_MODERATION_RULES), ...(extra ? [extra] : [])];
+
+  return {
+    kind: 'local',
+
+    async check(text: string): Promise<ModerationVerdict> {
+      const normalized = normalizeForModeration(text);
+      const verdicts = rules
+        .filter((rule) => rule.pattern.test(rule.raw ? text : normalized))
+        .map((rule): ModerationVerdict => ({
+          severity: rule.severity,
+          categories: [rule.category],
+          reason: rule.reason,
+          provider: 'local',
+        }));
+      return worstVerdict(verdicts, 'local');
+    },
+  };
+}
@@ -0,0 +1,142 @@
+/**
+ * pluggable content moderation for story directions and generated headlines.
+ * the backend is selected with MODERATION_PROVIDER:
+ * - `local` (default): built-in word-list and regex rules, no network at all
+ * - `llm`: the local rules first, then the configured llm provider for
+ *   anything they let through
+ * MODERATION_BLOCKLIST adds comma-separated terms the local rules treat as severe.
+ */
+
+import { createLocalModerationProvider, parseBlocklist } from './localModerationProvider.js';
+import { createLLMModerationProvider } from './llmModerationProvider.js';
+
+export type ModerationProviderKind = 'local' | 'llm';
+
+/** how bad a piece of text is, independent of any session's strictness */
+export type ModerationSeverity = 'none' | 'mild' | 'severe';
+
+export interface ModerationVerdict {
+  severity: ModerationSeverity;
+  /** e.g. profanity, harassment, personal_info */
+  categories: string[];
+  /** short explanation for the player and the host; null when severity is none */
+  reason: string | null;
+  provider: ModerationProviderKind;
+}
+
+export interface ModerationProvider {
+  kind: ModerationProviderKind;
+  check(text: string): Promise<ModerationVerdict>;
+}
+
+/** per-session strictness chosen by the host */
+export type ModerationStrictness = 'off' | 'relaxed' | 'standard' | 'strict';
+
+export const MODERATION_STRICTNESS_LEVELS: ModerationStrictness[] = [
+  'off',
+  'relaxed',
+  'standard',
+  'strict',
+];
+
+export const DEFAULT_MODERATION_STRICTNESS: ModerationStrictness = 'standard';
+
+/**
+ * what happens to a submission: shown to everyone, held for the host's review,
+ * or refused outright
+ */
+export type ModerationDecision = 'approved' | 'flagged' | 'rejected';
+
+/** decision per severity, for each strictness */
+const DECISIONS: Record<ModerationStrictness, Record<ModerationSeverity, ModerationDecision>> = {
+  off: { none: 'approved', mild: 'approved', severe: 'approved' },
+  relaxed: { none: 'approved', mild: 'approved', severe: 'flagged' },
+  standard: { none: 'approved', mild: 'flagged', severe: 'rejected' },
+  strict: { none: 'approved', mild: 'rejected', severe: 'rejected' },
+};
+
+export function decideModeration(
+  severity: ModerationSeverity,
+  strictness: ModerationStrictness
+): ModerationDecision {
+  return DECISIONS[strictness][severity];
+}
+
+/** the stored strictness, tolerating rows created before the column existed */
+export function strictnessFromRow(value: unknown): ModerationStrictness {
+  return MODERATION_STRICTNESS_LEVELS.includes(value as ModerationStrictness)
+    ? (value as ModerationStrictness)
+    : DEFAULT_MODERATION_STRICTNESS;
+}
+
+const SEVERITY_RANK: Record<ModerationSeverity, number> = { none: 0, mild: 1, severe: 2 };
+
+/**
+ * the worst of several verdicts, with the categories and reasons of every
+ * verdict at that severity
+ */
+export function worstVerdict(
+  verdicts: ModerationVerdict[],
+  provider: ModerationProviderKind
+): ModerationVerdict {
+  const severity = verdicts.reduce<ModerationSeverity>(
+    (worst, v) => (SEVERITY_RANK[v.severity] > SEVERITY_RANK[worst] ? v.severity : worst),
+    'none'
+  );
+  if (severity === 'none') {
+    return { severity, categories: [], reason: null, provider };
+  }
+  const matching = verdicts.filter((v) => v.severity === severity);
+  return {
+    severity,
+    categories: [...new Set(matching.flatMap((v) => v.categories))],
+    reason: [...new Set(matching.map((v) => v.reason).filter(Boolean))].join('; '),
+    provider,
+  };
+}
+
+/**
+ * create a provider from environment variables.
+ *
+ * @throws {Error} on an unknown MODERATION_PROVIDER
+ */
+export function createModerationProvider(env: NodeJS.ProcessEnv = process.env): ModerationProvider {
+  const kind = (env.MODERATION_PROVIDER || 'local').trim().toLowerCase();
+  const local = createLocalModerationProvider({ blocklist: parseBlocklist(env.MODERATION_BLOCKLIST) });
+
+  switch (kind) {
+    case 'local':
+      return local;
+    case 'llm':
+      return createLLMModerationProvider(local);
+    default:
+      throw new Error(`Unknown MODERATION_PROVIDER "${env.MODERATION_PROVIDER}" (expected local or llm)`);
+  }
+}
+
+/** shared provider instance */
+let providerInstance: ModerationProvider | null = null;
+
+/**
+ * get or create the shared provider.
+ */
+export function getModerationProvider(): ModerationProvider {
+  if (!providerInstance) {
+    providerInstance = createModerationProvider();
+  }
+  return providerInstance;
+}
+
+/**
+ * set a custom provider instance (for testing).
+ */
+export function setModerationProvider(provider: ModerationProvider): void {
+  providerInstance = provider;
+}
+
+/**
+ * reset the provider instance so the next call re-reads the environment.
+ */
+export function resetModerationProvider(): void {
+  providerInstance = null;
+}
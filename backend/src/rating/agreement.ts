@@ -0,0 +1,131 @@
+/**
+ * agreement statistics between raters of plausibility levels (1-5).
+ *
+ * a port of the numbers experiments/inter-rater-analysis/run.py computed
+ * offline: exact agreement with a wilson 95% interval, cohen's kappa and
+ * linear-weighted kappa (weights 1 - |i-j|/4). each pair of raters is compared
+ * on the items both of them rated. pure functions, no database.
+ */
+
+import { PlausibilityLevel } from '../game/scoringTypes.js';
+
+export const RATING_LEVELS: PlausibilityLevel[] = [1, 2, 3, 4, 5];
+
+/** one rater's levels, by item id */
+export interface RaterRatings {
+  rater: string;
+  ratings: Map<string, PlausibilityLevel>;
+}
+
+export interface ExactAgreement {
+  /** share of items rated the same, 0-1 */
+  rate: number;
+  /** wilson 95% interval around the rate */
+  low: number;
+  high: number;
+}
+
+export interface PairAgreement {
+  raters: [string, string];
+  /** items both raters rated */
+  n: number;
+  exact: ExactAgreement;
+  /** null when there are no shared items or chance agreement is already total */
+  kappa: number | null;
+  weightedKappa: number | null;
+  /** mean of the second rater's level minus the first's; positive when the second rates less plausible */
+  meanDifference: number | null;
+}
+
+/** level -> count */
+export type RatingDistribution = Record<PlausibilityLevel, number>;
+
+/** wilson score interval for k successes out of n */
+export function wilsonInterval(k: number, n: number, z = 1.96): ExactAgreement {
+  if (n === 0) {
+    return { rate: 0, low: 0, high: 0 };
+  }
+  const p = k / n;
+  const denom = 1 + (z * z) / n;
+  const centre = (p + (z * z) / (2 * n)) / denom;
+  const half = (z * Math.sqrt((p * (1 - p)) / n + (z * z) / (4 * n * n))) / denom;
+  return { rate: p, low: Math.max(0, centre - half), high: Math.min(1, centre + half) };
+}
+
+export function exactAgreement(a: PlausibilityLevel[], b: PlausibilityLevel[]): ExactAgreement {
+  const same = a.filter((level, i) => level === b[i]).length;
+  return wilsonInterval(same, a.length);
+}
+
+/**
+ * cohen's kappa over levels 1-5 for paired ratings; linear-weighted when
+ * `weighted`, so a 2 against a 3 counts as partial agreement.
+ */
+export function cohenKappa(a: PlausibilityLevel[], b: PlausibilityLevel[], weighted = false): number | null {
+  const n = a.length;
+  if (n === 0) {
+    return null;
+  }
+  const k = RATING_LEVELS.length;
+  const observed = RATING_LEVELS.map(() => RATING_LEVELS.map(() => 0));
+  a.forEach((level, i) => {
+    observed[level - 1][b[i] - 1] += 1 / n;
+  });
+  const rowTotals = observed.map((row) => row.reduce((sum, p) => sum + p, 0));
+  const colTotals = RATING_LEVELS.map((_, j) => observed.reduce((sum, row) => sum + row[j], 0));
+
+  let po = 0;
+  let pe = 0;
+  for (let i = 0; i < k; i++) {
+    for (let j = 0; j < k; j++) {
+      const weight = weighted ? 1 - Math.abs(i - j) / (k - 1) : i === j ? 1 : 0;
+      po += weight * observed[i][j];
+      pe += weight * rowTotals[i] * colTotals[j];
+    }
+  }
+  if (pe >= 1) {
+    return null;
+  }
+  return (po - pe) / (1 - pe);
+}
+
+export function ratingDistribution(levels: Iterable<PlausibilityLevel>): RatingDistribution {
+  const counts: RatingDistribution = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  for (const level of levels) {
+    counts[level] += 1;
+  }
+  return counts;
+}
+
+/** compare two raters on the items both rated */
+export function compareRaters(first: RaterRatings, second: RaterRatings): PairAgreement {
+  const a: PlausibilityLevel[] = [];
+  const b: PlausibilityLevel[] = [];
+  for (const [itemId, level] of first.ratings) {
+    const other = second.ratings.get(itemId);
+    if (other !== undefined) {
+      a.push(level);
+      b.push(other);
+    }
+  }
+  const n = a.length;
+  return {
+    raters: [first.rater, second.rater],
+    n,
+    exact: exactAgreement(a, b),
+    kappa: cohenKappa(a, b),
+    weightedKappa: cohenKappa(a, b, true),
+    meanDifference: n === 0 ? null : b.reduce((sum, level, i) => sum + level - a[i], 0) / n,
+  };
+}
+
+/** every pair of raters, in the order given */
+export function pairwiseAgreement(raters: RaterRatings[]): PairAgreement[] {
+  const pairs: PairAgreement[] = [];
+  for (let i = 0; i < raters.length; i++) {
+    for (let j = i + 1; j < raters.length; j++) {
+      pairs.push(compareRaters(raters[i], raters[j]));
+    }
+  }
+  return pairs;
+}
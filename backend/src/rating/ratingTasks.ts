@@ -0,0 +1,352 @@
+/**
+ * rating tasks: human calibration of the juror's plausibility levels.
+ *
+ * an operator samples scored headlines from finished sessions into a task,
+ * either at random or stratified by the juror's level, and names the human
+ * raters. each rater gets a code for the blind rating page (/rate/<code>),
+ * which shows the story direction and the headline but never the juror's
+ * level, the author or anyone else's ratings. the report puts every pair of
+ * raters side by side, with the juror counted as one more rater, so a prompt
+ * change can be checked against fresh games with a new task.
+ */
+
+import { randomInt } from 'crypto';
+import pool from '../db/pool.js';
+import { PlausibilityLevel } from '../game/scoringTypes.js';
+import {
+  PairAgreement,
+  RaterRatings,
+  RatingDistribution,
+  pairwiseAgreement,
+  ratingDistribution,
+} from './agreement.js';
+
+/** the juror's name among the raters in a report */
+export const JUROR_RATER = 'Juror';
+
+export const MAX_TASK_ITEMS = 200;
+export const MAX_TASK_RATERS = 10;
+export const RATER_CODE_LENGTH = 10;
+
+// no 0/O or 1/I, so a code read off a screen still works
+const RATER_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export class RatingTaskError extends Error {
+  constructor(
+    message: string,
+    public code: string
+  ) {
+    super(message);
+    this.name = 'RatingTaskError';
+  }
+}
+
+/** which headlines go into a task; at least one of sampleSize and perLevel */
+export interface RatingSample {
+  /** headlines in total, picked at random */
+  sampleSize?: number;
+  /** headlines per juror level, so rare levels are rated too */
+  perLevel?: number;
+  /** only these sessions */
+  joinCodes?: string[];
+  /** only sessions created at or after this time (ISO 8601), e.g. the last prompt change */
+  since?: string;
+}
+
+export interface CreateRatingTaskRequest {
+  name: string;
+  raters: string[];
+  sample: RatingSample;
+}
+
+export interface RatingTaskRater {
+  id: string;
+  name: string;
+  code: string;
+  /** items the rater has rated */
+  rated: number;
+}
+
+export interface RatingTaskSummary {
+  id: string;
+  name: string;
+  sample: RatingSample;
+  createdAt: string;
+  itemCount: number;
+  raters: RatingTaskRater[];
+}
+
+/** an item as a rater sees it: no juror level, no author */
+export interface BlindRatingItem {
+  id: string;
+  position: number;
+  storyDirection: string;
+  headline: string | null;
+  /** the rater's own level, null until they rate it */
+  level: PlausibilityLevel | null;
+}
+
+export interface RaterAssignment {
+  taskName: string;
+  raterName: string;
+  items: BlindRatingItem[];
+}
+
+export interface RatingReport {
+  task: RatingTaskSummary;
+  /** every rater with at least one rating, and the juror, last */
+  distributions: { rater: string; rated: number; distribution: RatingDistribution }[];
+  pairs: PairAgreement[];
+}
+
+export function generateRaterCode(): string {
+  const chars = Array.from({ length: RATER_CODE_LENGTH }, () => RATER_CODE_ALPHABET[randomInt(RATER_CODE_ALPHABET.length)]);
+  return chars.join('');
+}
+
+function toRater(row: { id: string; name: string; code: string; rated?: number }): RatingTaskRater {
+  return { id: row.id, name: row.name, code: row.code, rated: row.rated ?? 0 };
+}
+
+/**
+ * sample headlines into a new task and create its raters. only approved
+ * headlines by real players that the juror scored are eligible.
+ *
+ * @throws {RatingTaskError} NO_HEADLINES when nothing matches the sample
+ */
+export async function createRatingTask(request: CreateRatingTaskRequest): Promise<RatingTaskSummary> {
+  const { sample } = request;
+  const conditions = [
+    `s.phase = 'FINISHED'`,
+    'p.is_system = FALSE',
+    'h.plausibility_level IS NOT NULL',
+    `h.moderation_status = 'approved'`,
+  ];
+  const params: unknown[] = [];
+  if (sample.joinCodes?.length) {
+    params.push(sample.joinCodes);
+    conditions.push(`s.join_code = ANY($${params.length})`);
+  }
+  if (sample.since) {
+    params.push(sample.since);
+    conditions.push(`s.created_at >= $${params.length}`);
+  }
+  params.push(sample.perLevel ?? null);
+  const perLevelParam = params.length;
+  params.push(Math.min(sample.sampleSize ?? MAX_TASK_ITEMS, MAX_TASK_ITEMS));
+  const limitParam = params.length;
+
+  const candidates = await pool.query(
+    `SELECT id, story_direction, selected_headline, plausibility_level
+     FROM (
+       SELECT h.id, h.headline_text AS story_direction, h.selected_headline, h.plausibility_level,
+              ROW_NUMBER() OVER (PARTITION BY h.plausibility_level ORDER BY random()) AS level_rank
+       FROM game_session_headlines h
+       JOIN session_players p ON p.id = h.player_id
+       JOIN game_sessions s ON s.id = h.session_id
+       WHERE ${conditions.join(' AND ')}
+     ) ranked
+     WHERE $${perLevelParam}::int IS NULL OR level_rank <= $${perLevelParam}::int
+     ORDER BY random()
+     LIMIT $${limitParam}`,
+    params
+  );
+  if (candidates.rows.length === 0) {
+    throw new RatingTaskError('No scored headlines from finished sessions match the sample', 'NO_HEADLINES');
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const taskResult = await client.query(
+      `INSERT INTO rating_tasks (name, sample) VALUES ($1, $2) RETURNING id, created_at`,
+      [request.name, JSON.stringify(sample)]
+    );
+    const task = taskResult.rows[0];
+
+    for (const [index, row] of candidates.rows.entries()) {
+      await client.query(
+        `INSERT INTO rating_task_items (task_id, headline_id, position, story_direction, selected_headline, juror_level)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [task.id, row.id, index + 1, row.story_direction, row.selected_headline, row.plausibility_level]
+      );
+    }
+
+    const raters: RatingTaskRater[] = [];
+    for (const name of request.raters) {
+      const result = await client.query(
+        `INSERT INTO rating_task_raters (task_id, name, code) VALUES ($1, $2, $3) RETURNING id, name, code`,
+        [task.id, name, generateRaterCode()]
+      );
+      raters.push(toRater(result.rows[0]));
+    }
+
+    await client.query('COMMIT');
+    return {
+      id: task.id,
+      name: request.name,
+      sample,
+      createdAt: new Date(task.created_at).toISOString(),
+      itemCount: candidates.rows.length,
+      raters,
+    };
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+async function loadTasks(taskId?: string): Promise<RatingTaskSummary[]> {
+  const params = taskId ? [taskId] : [];
+  const tasks = await pool.query(
+    `SELECT t.id, t.name, t.sample, t.created_at,
+            (SELECT COUNT(*)::int FROM rating_task_items i WHERE i.task_id = t.id) AS item_count
+     FROM rating_tasks t
+     ${taskId ? 'WHERE t.id = $1' : ''}
+     ORDER BY t.created_at DESC`,
+    params
+  );
+  const raters = await pool.query(
+    `SELECT r.task_id, r.id, r.name, r.code, COUNT(hr.id)::int AS rated
+     FROM rating_task_raters r
+     LEFT JOIN headline_ratings hr ON hr.rater_id = r.id
+     ${taskId ? 'WHERE r.task_id = $1' : ''}
+     GROUP BY r.id
+     ORDER BY r.created_at, r.name`,
+    params
+  );
+  return tasks.rows.map((row) => ({
+    id: row.id,
+    name: row.name,
+    sample: row.sample,
+    createdAt: new Date(row.created_at).toISOString(),
+    itemCount: row.item_count,
+    raters: raters.rows.filter((r) => r.task_id === row.id).map(toRater),
+  }));
+}
+
+/** every task, newest first, with each rater's progress */
+export async function listRatingTasks(): Promise<RatingTaskSummary[]> {
+  return loadTasks();
+}
+
+async function findRater(code: string): Promise<{ id: string; name: string; task_id: string; task_name: string }> {
+  const result = await pool.query(
+    `SELECT r.id, r.name, r.task_id, t.name AS task_name
+     FROM rating_task_raters r
+     JOIN rating_tasks t ON t.id = r.task_id
+     WHERE r.code = $1`,
+    [code]
+  );
+  if (result.rows.length === 0) {
+    throw new RatingTaskError('Rating link not found', 'RATER_NOT_FOUND');
+  }
+  return result.rows[0];
+}
+
+/**
+ * the task as the rater with this code sees it.
+ *
+ * @throws {RatingTaskError} RATER_NOT_FOUND
+ */
+export async function getRaterAssignment(code: string): Promise<RaterAssignment> {
+  const rater = await findRater(code);
+  const items = await pool.query(
+    `SELECT i.id, i.position, i.story_direction, i.selected_headline, hr.level
+     FROM rating_task_items i
+     LEFT JOIN headline_ratings hr ON hr.item_id = i.id AND hr.rater_id = $2
+     WHERE i.task_id = $1
+     ORDER BY i.position`,
+    [rater.task_id, rater.id]
+  );
+  return {
+    taskName: rater.task_name,
+    raterName: rater.name,
+    items: items.rows.map((row) => ({
+      id: row.id,
+      position: row.position,
+      storyDirection: row.story_direction,
+      headline: row.selected_headline,
+      level: row.level ?? null,
+    })),
+  };
+}
+
+/**
+ * record (or change) a rater's level for an item of their task.
+ *
+ * @throws {RatingTaskError} RATER_NOT_FOUND, ITEM_NOT_FOUND
+ */
+export async function saveRating(
+  code: string,
+  itemId: string,
+  level: PlausibilityLevel
+): Promise<{ itemId: string; level: PlausibilityLevel; rated: number }> {
+  const rater = await findRater(code);
+  const item = await pool.query(`SELECT id FROM rating_task_items WHERE id = $1 AND task_id = $2`, [
+    itemId,
+    rater.task_id,
+  ]);
+  if (item.rows.length === 0) {
+    throw new RatingTaskError('Item not in this rating task', 'ITEM_NOT_FOUND');
+  }
+
+  await pool.query(
+    `INSERT INTO headline_ratings (item_id, rater_id, level)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (item_id, rater_id) DO UPDATE SET level = EXCLUDED.level, rated_at = NOW()`,
+    [itemId, rater.id, level]
+  );
+  const progress = await pool.query(`SELECT COUNT(*)::int AS rated FROM headline_ratings WHERE rater_id = $1`, [
+    rater.id,
+  ]);
+  return { itemId, level, rated: progress.rows[0].rated };
+}
+
+/**
+ * agreement between every pair of raters, the juror included, on the items
+ * both rated.
+ *
+ * @throws {RatingTaskError} TASK_NOT_FOUND
+ */
+export async function getRatingReport(taskId: string): Promise<RatingReport> {
+  const [task] = await loadTasks(taskId);
+  if (!task) {
+    throw new RatingTaskError('Rating task not found', 'TASK_NOT_FOUND');
+  }
+
+  const items = await pool.query(`SELECT id, juror_level FROM rating_task_items WHERE task_id = $1`, [taskId]);
+  const ratings = await pool.query(
+    `SELECT hr.item_id, hr.rater_id, hr.level
+     FROM headline_ratings hr
+     JOIN rating_task_raters r ON r.id = hr.rater_id
+     WHERE r.task_id = $1`,
+    [taskId]
+  );
+
+  const raters: RaterRatings[] = task.raters
+    .map((rater) => ({
+      rater: rater.name,
+      ratings: new Map<string, PlausibilityLevel>(
+        ratings.rows.filter((row) => row.rater_id === rater.id).map((row) => [row.item_id, row.level])
+      ),
+    }))
+    .filter((rater) => rater.ratings.size > 0);
+  raters.push({
+    rater: JUROR_RATER,
+    ratings: new Map(items.rows.map((row) => [row.id, row.juror_level])),
+  });
+
+  return {
+    task,
+    distributions: raters.map((rater) => ({
+      rater: rater.rater,
+      rated: rater.ratings.size,
+      distribution: ratingDistribution(rater.ratings.values()),
+    })),
+    pairs: pairwiseAgreement(raters),
+  };
+}
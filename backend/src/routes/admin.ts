@@ -0,0 +1,259 @@
+/**
+ * http routes for operators, outside any game: score replays, rater
+ * calibration tasks, llm usage, prices and token budgets, and the dice report. they are off unless ADMIN_TOKEN is set, and then need
+ * `Authorization: Bearer <ADMIN_TOKEN>`.
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { ZodError } from 'zod';
+import { createHash, timingSafeEqual } from 'crypto';
+import {
+  replayScoresSchema,
+  createRatingTaskSchema,
+  ratingTaskIdSchema,
+  joinCodeSchema,
+  modelNameSchema,
+  modelPriceSchema,
+  setTokenBudgetSchema,
+  usageDaysSchema,
+} from '../utils/validation.js';
+import { replaySessionScores, ScoreReplayError } from '../game/scoreReplay.js';
+import { createRatingTask, listRatingTasks, getRatingReport, RatingTaskError } from '../rating/ratingTasks.js';
+import { getDiceReport } from '../game/diceAudit.js';
+import {
+  DEFAULT_USAGE_DAYS,
+  LLMUsageError,
+  getDailyLLMUsage,
+  getSessionLLMUsage,
+  listModelPrices,
+  setModelPrice,
+  setSessionTokenBudget,
+} from '../llm/usageLedger.js';
+
+const router = Router();
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/** whether the request carries the admin token */
+export function isAdminRequest(req: Request, adminToken: string | undefined = process.env.ADMIN_TOKEN): boolean {
+  const [scheme, token] = (req.headers.authorization ?? '').split(' ');
+  if (!adminToken || scheme !== 'Bearer' || !token) {
+    return false;
+  }
+  // compare digests so the lengths always match
+  return timingSafeEqual(digest(token), digest(adminToken));
+}
+
+router.use((req: Request, res: Response, next: NextFunction): void => {
+  if (!process.env.ADMIN_TOKEN) {
+    res.status(404).json({ error: 'Admin routes are disabled', code: 'ADMIN_DISABLED' });
+    return;
+  }
+  if (!isAdminRequest(req)) {
+    res.status(401).json({ error: 'Missing or invalid admin token', code: 'INVALID_ADMIN_TOKEN' });
+    return;
+  }
+  next();
+});
+
+/**
+ * POST /api/admin/sessions/:joinCode/replay
+ * recompute every headline's score, under the session's rules or `{ scoring }`,
+ * and diff it against the stored score. read-only.
+ */
+router.post('/sessions/:joinCode/replay', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const body = replayScoresSchema.parse({ ...req.body, joinCode: req.params.joinCode.toUpperCase() });
+    res.json(await replaySessionScores(body.joinCode, body.scoring));
+  } catch (error) {
+    if (error instanceof ZodError) {
+      res.status(400).json({ error: 'Validation failed', details: error.errors });
+      return;
+    }
+    if (error instanceof ScoreReplayError) {
+      res.status(error.code === 'SESSION_NOT_FOUND' ? 404 : 400).json({ error: error.message, code: error.code });
+      return;
+    }
+    console.error('Error replaying scores:', error);
+    res.status(500).json({ error: 'Failed to replay scores' });
+  }
+});
+
+/**
+ * POST /api/admin/rating-tasks
+ * sample headlines from finished sessions into a blind rating task; the
+ * response carries each rater's code for /rate/<code>
+ */
+router.post('/rating-tasks', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const body = createRatingTaskSchema.parse(req.body);
+    res.status(201).json({ task: await createRatingTask(body) });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      res.status(400).json({ error: 'Validation failed', details: error.errors });
+      return;
+    }
+    if (error instanceof RatingTaskError) {
+      res.status(400).json({ error: error.message, code: error.code });
+      return;
+    }
+    console.error('Error creating rating task:', error);
+    res.status(500).json({ error: 'Failed to create rating task' });
+  }
+});
+
+/**
+ * GET /api/admin/rating-tasks
+ * every rating task, with each rater's progress
+ */
+router.get('/rating-tasks', async (_req: Request, res: Response): Promise<void> => {
+  try {
+    res.json({ tasks: await listRatingTasks() });
+  } catch (error) {
+    console.error('Error listing rating tasks:', error);
+    res.status(500).json({ error: 'Failed to list rating tasks' });
+  }
+});
+
+/**
+ * GET /api/admin/rating-tasks/:taskId/report
+ * exact agreement, cohen's kappa and linear-weighted kappa for every pair of
+ * raters, the juror included
+ */
+router.get('/rating-tasks/:taskId/report', async (req: Request, res: Response): Promise<void> => {
+  const taskId = ratingTaskIdSchema.safeParse(req.params.taskId);
+  if (!taskId.success) {
+    res.status(404).json({ error: 'Rating task not found', code: 'TASK_NOT_FOUND' });
+    return;
+  }
+
+  try {
+    res.json(await getRatingReport(taskId.data));
+  } catch (error) {
+    if (error instanceof RatingTaskError) {
+      res.status(404).json({ error: error.message, code: error.code });
+      return;
+    }
+    console.error('Error building rating report:', error);
+    res.status(500).json({ error: 'Failed to build rating report' });
+  }
+});
+
+/**
+ * GET /api/admin/llm-usage?days=30
+ * every llm call of the last `days` utc days: totals and one row per day
+ */
+router.get('/llm-usage', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const days = req.query.days === undefined ? DEFAULT_USAGE_DAYS : usageDaysSchema.parse(req.query.days);
+    res.json(await getDailyLLMUsage(days));
+  } catch (error) {
+    if (error instanceof ZodError) {
+      res.status(400).json({ error: 'Validation failed', details: error.errors });
+      return;
+    }
+    console.error('Error building llm usage:', error);
+    res.status(500).json({ error: 'Failed to build llm usage' });
+  }
+});
+
+/**
+ * GET /api/admin/sessions/:joinCode/llm-usage
+ * a session's llm calls by purpose and model, with their cost and its token budget
+ */
+router.get('/sessions/:joinCode/llm-usage', async (req: Request, res: Response): Promise<void> => {
+  const joinCode = joinCodeSchema.safeParse(req.params.joinCode.toUpperCase());
+  if (!joinCode.success) {
+    res.status(404).json({ error: 'Session not found', code: 'SESSION_NOT_FOUND' });
+    return;
+  }
+
+  try {
+    res.json(await getSessionLLMUsage(joinCode.data));
+  } catch (error) {
+    if (error instanceof LLMUsageError) {
+      res.status(404).json({ error: error.message, code: error.code });
+      return;
+    }
+    console.error('Error building session llm usage:', error);
+    res.status(500).json({ error: 'Failed to build session llm usage' });
+  }
+});
+
+/**
+ * PUT /api/admin/sessions/:joinCode/token-budget
+ * set a session's token budget, or lift it with `{ budget: null }`
+ */
+router.put('/sessions/:joinCode/token-budget', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const joinCode = joinCodeSchema.parse(req.params.joinCode.toUpperCase());
+    const { budget } = setTokenBudgetSchema.parse(req.body);
+    res.json({ budget: await setSessionTokenBudget(joinCode, budget) });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      res.status(400).json({ error: 'Validation failed', details: error.errors });
+      return;
+    }
+    if (error instanceof LLMUsageError) {
+      res.status(404).json({ error: error.message, code: error.code });
+      return;
+    }
+    console.error('Error setting token budget:', error);
+    res.status(500).json({ error: 'Failed to set token budget' });
+  }
+});
+
+/**
+ * GET /api/admin/llm-prices
+ * the per-model prices costs are worked out with, in usd per million tokens
+ */
+router.get('/llm-prices', async (_req: Request, res: Response): Promise<void> => {
+  try {
+    res.json({ prices: await listModelPrices() });
+  } catch (error) {
+    console.error('Error listing llm prices:', error);
+    res.status(500).json({ error: 'Failed to list llm prices' });
+  }
+});
+
+/**
+ * PUT /api/admin/llm-prices/:model
+ * add or replace a model's price; reports use it for past calls too
+ */
+router.put('/llm-prices/:model', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const model = modelNameSchema.parse(req.params.model);
+    const { inputPerMillion, outputPerMillion } = modelPriceSchema.parse(req.body);
+    res.json({ price: await setModelPrice(model, inputPerMillion, outputPerMillion) });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      res.status(400).json({ error: 'Validation failed', details: error.errors });
+      return;
+    }
+    console.error('Error setting llm price:', error);
+    res.status(500).json({ error: 'Failed to set llm price' });
+  }
+});
+
+/**
+ * GET /api/admin/dice-report?days=30
+ * band frequencies of every game's rolls (all time without `days`) against
+ * the target distribution, with a chi-square test
+ */
+router.get('/dice-report', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const days = req.query.days === undefined ? null : usageDaysSchema.parse(req.query.days);
+    res.json(await getDiceReport(days));
+  } catch (error) {
+    if (error instanceof ZodError) {
+      res.status(400).json({ error: 'Validation failed', details: error.errors });
+      return;
+    }
+    console.error('Error building dice report:', error);
+    res.status(500).json({ error: 'Failed to build dice report' });
+  }
+});
+
+export default router;
@@ -10,6 +10,8 @@ import {
   JurorValidationError,
 } from '../game/jurorService.js';
 import { OpenAIError } from '../llm/openaiResponsesClient.js';
+import { describeLLMProvider } from '../llm/llmProvider.js';
+import { findPromptVariant } from '../llm/promptRegistry.js';
 
 const router = Router();
 
@@ -39,6 +41,10 @@ const evaluateRequestSchema = z.object({
     .array(planetEntrySchema)
     .min(1, 'planetList must have at least 1 planet')
     .max(20, 'planetList cannot exceed 20 planets'),
+  promptVariant: z
+    .string()
+    .refine((id) => findPromptVariant(id)?.kind === 'juror', 'promptVariant must be a juror prompt variant')
+    .optional(),
 });
 
 type EvaluateRequest = z.infer<typeof evaluateRequestSchema>;
@@ -75,12 +81,14 @@ router.post('/evaluate', async (req: Request, res: Response): Promise<void> => {
       storyDirection: validatedBody.storyDirection,
       headlinesList,
       planetList: validatedBody.planetList,
+      promptVariant: validatedBody.promptVariant,
     });
 
     res.json({
       success: true,
       evaluation: result.evaluation,
       model: result.model,
+      promptVersion: result.promptVersion,
       usage: result.usage,
     });
   } catch (error) {
@@ -119,11 +127,7 @@ router.post('/evaluate', async (req: Request, res: Response): Promise<void> => {
  * health check for the juror service.
  */
 router.get('/health', (_req: Request, res: Response): void => {
-  const hasApiKey = !!process.env.OPENAI_API_KEY;
-  res.json({
-    status: hasApiKey ? 'ok' : 'missing_api_key',
-    model: process.env.OPENAI_MODEL || 'gpt-5.2',
-  });
+  res.json(describeLLMProvider());
 });
 
 export default router;
@@ -0,0 +1,241 @@
+/**
+ * http routes for host moderation, the REST twin of the player:kick,
+ * player:rename, player:mute/unmute, host:transfer, lobby:lock, player:set_team,
+ * lobby:balance_teams, moderation:get_queue,
+ * moderation:review and moderation:override socket events. the host authenticates with their player
+ * token as `Authorization: Bearer <token>`.
+ */
+
+import { Router, Request, Response } from 'express';
+import { ZodError, ZodTypeAny, z } from 'zod';
+import pool from '../db/pool.js';
+import {
+  joinCodeSchema,
+  kickPlayerSchema,
+  renamePlayerSchema,
+  mutePlayerSchema,
+  moderatePlayerSchema,
+  setTeamSchema,
+  reviewHeadlineSchema,
+  overrideHeadlineSchema,
+} from '../utils/validation.js';
+import { authenticatePlayerToken } from '../auth/playerCredentials.js';
+import { SessionTokenError } from '../auth/sessionTokens.js';
+import { playerModeration, ModerationError, ModeratedSession } from '../game/playerModeration.js';
+import { contentModeration } from '../game/contentModeration.js';
+import { PlausibilityLevel } from '../game/scoringTypes.js';
+
+const router = Router();
+
+/**
+ * the session, if the request carries the host's token for it.
+ *
+ * @throws {SessionTokenError} missing, invalid or revoked token, or one for another session
+ * @throws {ModerationError} SESSION_NOT_FOUND, NOT_HOST
+ */
+async function authorizeHost(req: Request, joinCode: string): Promise<ModeratedSession> {
+  const [scheme, token] = (req.headers.authorization ?? '').split(' ');
+  if (scheme !== 'Bearer' || !token) {
+    throw new SessionTokenError('Missing session token', 'INVALID_TOKEN');
+  }
+  const claims = await authenticatePlayerToken(token);
+  if (claims.joinCode !== joinCode) {
+    throw new SessionTokenError('Session token is for another session', 'INVALID_TOKEN');
+  }
+
+  const result = await pool.query(
+    `SELECT id, join_code, phase, current_round, host_player_id
+     FROM game_sessions WHERE join_code = $1`,
+    [joinCode]
+  );
+  if (result.rows.length === 0) {
+    throw new ModerationError('Session not found', 'SESSION_NOT_FOUND');
+  }
+  const row = result.rows[0];
+  if (row.host_player_id !== claims.playerId) {
+    throw new ModerationError('Only the host can moderate players', 'NOT_HOST');
+  }
+  return {
+    id: row.id,
+    joinCode: row.join_code,
+    phase: row.phase,
+    currentRound: row.current_round,
+    hostPlayerId: row.host_player_id,
+  };
+}
+
+const MODERATION_STATUS: Record<string, number> = {
+  SESSION_NOT_FOUND: 404,
+  UNKNOWN_PLAYER: 404,
+  UNKNOWN_HEADLINE: 404,
+  NOT_HOST: 403,
+  NICKNAME_TAKEN: 409,
+  HEADLINE_NOT_SCORED: 409,
+  TEAMS_LOCKED: 409,
+};
+
+/**
+ * shared flow: validate the params and body, check the caller is the host,
+ * then run the action and send its result
+ */
+function moderationRoute<S extends ZodTypeAny>(
+  schema: S,
+  run: (session: ModeratedSession, body: z.infer<S>) => Promise<Record<string, unknown> | void>
+) {
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      const joinCode = joinCodeSchema.parse(req.params.joinCode.toUpperCase());
+      // the url names the target player or headline, except for host transfer where the body does
+      const body = schema.parse({
+        ...req.body,
+        joinCode,
+        ...(req.params.playerId && { playerId: req.params.playerId }),
+        ...(req.params.headlineId && { headlineId: req.params.headlineId }),
+      });
+      const session = await authorizeHost(req, joinCode);
+
+      const result = await run(session, body);
+      res.json({ success: true, ...result });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: 'Validation failed', details: error.errors });
+        return;
+      }
+      if (error instanceof SessionTokenError) {
+        res.status(401).json({ error: error.message, code: error.code });
+        return;
+      }
+      if (error instanceof ModerationError) {
+        res.status(MODERATION_STATUS[error.code] ?? 400).json({ error: error.message, code: error.code });
+        return;
+      }
+      console.error('Error moderating player:', error);
+      res.status(500).json({ error: 'Failed to moderate player' });
+    }
+  };
+}
+
+/**
+ * POST /api/sessions/:joinCode/players/:playerId/kick
+ * remove a player; `{ ban: true }` also stops them rejoining
+ */
+router.post(
+  '/:joinCode/players/:playerId/kick',
+  moderationRoute(kickPlayerSchema, (session, body) => playerModeration.kick(session, body.playerId, body.ban))
+);
+
+/**
+ * PATCH /api/sessions/:joinCode/players/:playerId
+ * force-rename a player: `{ nickname }`
+ */
+router.patch(
+  '/:joinCode/players/:playerId',
+  moderationRoute(renamePlayerSchema, async (session, body) => ({
+    player: await playerModeration.rename(session, body.playerId, body.nickname),
+  }))
+);
+
+/**
+ * POST /api/sessions/:joinCode/players/:playerId/mute
+ * stop a player submitting for `{ minutes }`
+ */
+router.post(
+  '/:joinCode/players/:playerId/mute',
+  moderationRoute(mutePlayerSchema, async (session, body) => ({
+    player: await playerModeration.mute(session, body.playerId, body.minutes),
+  }))
+);
+
+/**
+ * DELETE /api/sessions/:joinCode/players/:playerId/mute
+ */
+router.delete(
+  '/:joinCode/players/:playerId/mute',
+  moderationRoute(moderatePlayerSchema, async (session, body) => ({
+    player: await playerModeration.unmute(session, body.playerId),
+  }))
+);
+
+/**
+ * POST /api/sessions/:joinCode/host
+ * hand the host role to `{ playerId }`
+ */
+router.post(
+  '/:joinCode/host',
+  moderationRoute(moderatePlayerSchema, (session, body) => playerModeration.transferHost(session, body.playerId))
+);
+
+/**
+ * POST /api/sessions/:joinCode/lock
+ * refuse new players, late or not; DELETE lets them join again
+ */
+router.post(
+  '/:joinCode/lock',
+  moderationRoute(z.object({ joinCode: z.string() }), (session) => playerModeration.setJoinLocked(session, true))
+);
+
+router.delete(
+  '/:joinCode/lock',
+  moderationRoute(z.object({ joinCode: z.string() }), (session) => playerModeration.setJoinLocked(session, false))
+);
+
+/**
+ * PUT /api/sessions/:joinCode/players/:playerId/team
+ * move a player to `{ team }`, in the lobby of a team game
+ */
+router.put(
+  '/:joinCode/players/:playerId/team',
+  moderationRoute(setTeamSchema, async (session, body) => ({
+    player: await playerModeration.setTeam(session, body.playerId, body.team),
+  }))
+);
+
+/**
+ * POST /api/sessions/:joinCode/teams/balance
+ * shuffle the lobby into evenly sized teams
+ */
+router.post(
+  '/:joinCode/teams/balance',
+  moderationRoute(z.object({ joinCode: z.string() }), async (session) => ({
+    players: await playerModeration.balanceTeams(session),
+  }))
+);
+
+/**
+ * GET /api/sessions/:joinCode/moderation/queue
+ * flagged headlines waiting for review, and recent rejected story directions
+ */
+router.get(
+  '/:joinCode/moderation/queue',
+  moderationRoute(z.object({ joinCode: z.string() }), async (session) => ({
+    queue: await contentModeration.getReviewQueue(session.id),
+  }))
+);
+
+/**
+ * POST /api/sessions/:joinCode/headlines/:headlineId/review
+ * `{ decision: 'approve' }` shows the headline to everyone; 'hide' takes it out
+ * of the feed and summaries
+ */
+router.post(
+  '/:joinCode/headlines/:headlineId/review',
+  moderationRoute(reviewHeadlineSchema, async (session, body) => ({
+    headline: await contentModeration.review(session, body.headlineId, body.decision),
+  }))
+);
+
+/**
+ * PATCH /api/sessions/:joinCode/headlines/:headlineId
+ * override the juror: `{ plausibilityLevel?, primaryPlanet? }`, then rescore
+ */
+router.patch(
+  '/:joinCode/headlines/:headlineId',
+  moderationRoute(overrideHeadlineSchema, async (session, body) => ({
+    headline: await contentModeration.override(session, body.headlineId, {
+      plausibilityLevel: body.plausibilityLevel as PlausibilityLevel | undefined,
+      primaryPlanet: body.primaryPlanet,
+    }),
+  }))
+);
+
+export default router;
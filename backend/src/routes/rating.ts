@@ -0,0 +1,62 @@
+/**
+ * http routes for human raters. the rater's code is their only credential:
+ * it opens one task, blind (see rating/ratingTasks.ts).
+ */
+
+import { Router, Request, Response } from 'express';
+import { ZodError } from 'zod';
+import { raterCodeSchema, saveRatingSchema } from '../utils/validation.js';
+import { getRaterAssignment, saveRating, RatingTaskError } from '../rating/ratingTasks.js';
+
+const router = Router();
+
+/**
+ * GET /api/rating/:raterCode
+ * the rater's items, with the levels they have given so far
+ */
+router.get('/:raterCode', async (req: Request, res: Response): Promise<void> => {
+  const code = raterCodeSchema.safeParse(req.params.raterCode.toUpperCase());
+  if (!code.success) {
+    res.status(404).json({ error: 'Rating link not found', code: 'RATER_NOT_FOUND' });
+    return;
+  }
+
+  try {
+    res.json(await getRaterAssignment(code.data));
+  } catch (error) {
+    if (error instanceof RatingTaskError) {
+      res.status(404).json({ error: error.message, code: error.code });
+      return;
+    }
+    console.error('Error fetching rating task:', error);
+    res.status(500).json({ error: 'Failed to fetch rating task' });
+  }
+});
+
+/**
+ * PUT /api/rating/:raterCode/items/:itemId
+ * rate an item `{ level }` (1-5); rating it again replaces the level
+ */
+router.put('/:raterCode/items/:itemId', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const body = saveRatingSchema.parse({
+      raterCode: req.params.raterCode.toUpperCase(),
+      itemId: req.params.itemId,
+      level: req.body?.level,
+    });
+    res.json(await saveRating(body.raterCode, body.itemId, body.level));
+  } catch (error) {
+    if (error instanceof ZodError) {
+      res.status(400).json({ error: 'Validation failed', details: error.errors });
+      return;
+    }
+    if (error instanceof RatingTaskError) {
+      res.status(404).json({ error: error.message, code: error.code });
+      return;
+    }
+    console.error('Error saving rating:', error);
+    res.status(500).json({ error: 'Failed to save rating' });
+  }
+});
+
+export default router;
@@ -0,0 +1,101 @@
+/**
+ * http routes for scenario packs: list the available packs and upload new ones.
+ */
+
+import express, { Router, Request, Response } from 'express';
+import {
+  ScenarioPack,
+  ScenarioPackError,
+  BUILT_IN_SCENARIOS,
+  listScenarioPacks,
+  getScenarioPack,
+  parseScenarioPack,
+  validateScenarioPack,
+  saveScenarioPack,
+} from '../game/scenarios.js';
+import { scenarioIdSchema } from '../utils/validation.js';
+
+const router = Router();
+
+/** yaml (and json sent as text) arrives as a raw string */
+const packText = express.text({
+  type: ['text/*', 'application/yaml', 'application/x-yaml'],
+  limit: '256kb',
+});
+
+function toListing(pack: ScenarioPack) {
+  return {
+    id: pack.id,
+    name: pack.name,
+    description: pack.description,
+    topic: pack.topic,
+    seedCount: pack.seedHeadlines.length,
+    planetPack: pack.planetSet.planets ? 'custom' : pack.planetSet.pack ?? 'classic',
+    startYear: pack.startYear,
+    builtIn: BUILT_IN_SCENARIOS.some((s) => s.id === pack.id),
+  };
+}
+
+/**
+ * GET /api/scenarios
+ * every scenario a session can be created with
+ */
+router.get('/', async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const packs = await listScenarioPacks();
+    res.json({ scenarios: packs.map(toListing) });
+  } catch (error) {
+    console.error('Error listing scenarios:', error);
+    res.status(500).json({ error: 'Failed to list scenarios' });
+  }
+});
+
+/**
+ * GET /api/scenarios/:id
+ * a full pack, including its seed headlines
+ */
+router.get('/:id', async (req: Request, res: Response): Promise<void> => {
+  const id = scenarioIdSchema.safeParse(req.params.id);
+  if (!id.success) {
+    res.status(404).json({ error: 'Scenario not found' });
+    return;
+  }
+
+  try {
+    const pack = await getScenarioPack(id.data);
+    if (!pack) {
+      res.status(404).json({ error: 'Scenario not found' });
+      return;
+    }
+    res.json({ scenario: pack });
+  } catch (error) {
+    console.error('Error fetching scenario:', error);
+    res.status(500).json({ error: 'Failed to fetch scenario' });
+  }
+});
+
+/**
+ * POST /api/scenarios
+ * upload a pack, as a json body or as yaml/json text
+ */
+router.post('/', packText, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const pack =
+      typeof req.body === 'string' ? parseScenarioPack(req.body) : validateScenarioPack(req.body);
+    await saveScenarioPack(pack);
+    res.status(201).json({ scenario: toListing(pack) });
+  } catch (error) {
+    if (error instanceof ScenarioPackError) {
+      res.status(error.code === 'DUPLICATE_ID' ? 409 : 400).json({
+        error: error.message,
+        code: error.code,
+        details: error.details?.issues,
+      });
+      return;
+    }
+    console.error('Error uploading scenario:', error);
+    res.status(500).json({ error: 'Failed to upload scenario' });
+  }
+});
+
+export default router;
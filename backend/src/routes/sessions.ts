@@ -1,12 +1,41 @@
 import { Router, Request, Response } from 'express';
 import pool from '../db/pool.js';
-import { generateUniqueJoinCode } from '../utils/joinCode.js';
+import { generateUniqueJoinCode, generateUniqueSpectatorCode } from '../utils/joinCode.js';
 import {
   createSessionSchema,
   joinSessionSchema,
   joinCodeSchema,
+  rejoinSessionSchema,
 } from '../utils/validation.js';
 import { ZodError } from 'zod';
+import { resolveGameSettings } from '../game/gameSettings.js';
+import { resolvePlanetSet, PLANET_PACKS, planetSetFromRow, getPlanetIds } from '../game/planets.js';
+import { randomOrdinals } from '../game/planetUsage.js';
+import {
+  DEFAULT_LATE_JOIN_POLICY,
+  computeCatchUpScore,
+  lateJoinPolicyFromRow,
+  lateJoinRefusal,
+} from '../game/lateJoin.js';
+import { smallestTeam, teamsFromRow } from '../game/teams.js';
+import { SCORING_PRESETS, resolveSessionScoring } from '../game/scoringRules.js';
+import { DEFAULT_VOTING_POLICY } from '../game/headlineVoting.js';
+import { describePromptVariants } from '../llm/promptRegistry.js';
+import { createDiceSeed, hashDiceSeed } from '../game/diceRoll.js';
+import { auditSessionDice, DiceAuditError } from '../game/diceAudit.js';
+import { DICE_PRESETS, resolveDiceSettings } from '../game/diceDistribution.js';
+import { getScenarioPack, DEFAULT_SCENARIO } from '../game/scenarios.js';
+import { DEFAULT_MODERATION_STRICTNESS } from '../moderation/moderationProvider.js';
+import { issuePlayerCredentials, recoverPlayer } from '../auth/playerCredentials.js';
+import { SessionTokenError } from '../auth/sessionTokens.js';
+import {
+  SessionArchiveError,
+  buildSessionArchive,
+  headlinesToCsv,
+  importSessionArchive,
+  validateSessionArchive,
+} from '../game/sessionArchive.js';
+import { isAdminRequest } from './admin.js';
 
 const router = Router();
 
@@ -16,9 +45,38 @@ const router = Router();
  */
 router.post('/sessions', async (req: Request, res: Response): Promise<void> => {
   try {
-    const { hostNickname } = createSessionSchema.parse(req.body);
+    const {
+      hostNickname,
+      settings: requestedSettings,
+      planetSet: requestedPlanetSet,
+      scenario: scenarioId = DEFAULT_SCENARIO,
+      moderationStrictness = DEFAULT_MODERATION_STRICTNESS,
+      lateJoin: requestedLateJoin,
+      teams = [],
+      scoring: requestedScoring,
+      dice: requestedDice,
+      voting: requestedVoting,
+      prompts = {},
+      tokenBudget = null,
+    } = createSessionSchema.parse(req.body);
+    const lateJoin = { ...DEFAULT_LATE_JOIN_POLICY, ...requestedLateJoin };
+    const scoring = resolveSessionScoring(requestedScoring);
+    const dice = resolveDiceSettings(requestedDice);
+    const voting = { ...DEFAULT_VOTING_POLICY, ...requestedVoting };
+
+    const scenario = await getScenarioPack(scenarioId);
+    if (!scenario) {
+      res.status(400).json({ error: 'Unknown scenario' });
+      return;
+    }
+    // the scenario supplies the start year and planets unless the host picked their own
+    const settings = resolveGameSettings({ startYear: scenario.startYear, ...requestedSettings });
+    const planetSet = resolvePlanetSet(requestedPlanetSet ?? scenario.planetSet);
 
     const joinCode = await generateUniqueJoinCode();
+    const spectatorCode = await generateUniqueSpectatorCode();
+    // kept secret until the game is over; its hash is published at the start
+    const diceSeed = createDiceSeed();
 
     const client = await pool.connect();
     try {
@@ -32,19 +90,61 @@ router.post('/sessions', async (req: Request, res: Response): Promise<void> => {
           play_minutes,
           break_minutes,
           max_rounds,
-          timeline_speed_ratio
+          timeline_speed_ratio,
+          break_schedule,
+          summary_rounds,
+          start_year,
+          total_years,
+          planet_set,
+          scenario,
+          moderation_strictness,
+          spectator_code,
+          late_join_allowed,
+          late_join_catch_up,
+          teams,
+          scoring_rules,
+          voting,
+          prompt_experiment,
+          llm_token_budget,
+          dice_seed,
+          dice_seed_hash,
+          dice_settings
         )
-         VALUES ($1, 'WAITING', $2, $3, $4, $5)
-         RETURNING id, join_code, status, created_at, updated_at`,
-        [joinCode, 8, 3, 4, 60.0]
+         VALUES ($1, 'WAITING', $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23)
+         RETURNING id, join_code, spectator_code, status, created_at, updated_at`,
+        [
+          joinCode,
+          settings.playMinutes,
+          settings.breakSchedule[0] ?? 0, // legacy column, superseded by break_schedule
+          settings.maxRounds,
+          60.0,
+          JSON.stringify(settings.breakSchedule),
+          JSON.stringify(settings.summaryRounds),
+          settings.startYear,
+          settings.totalYears,
+          JSON.stringify(planetSet),
+          JSON.stringify(scenario),
+          moderationStrictness,
+          spectatorCode,
+          lateJoin.allowed,
+          lateJoin.catchUp,
+          teams.length > 0 ? JSON.stringify(teams) : null,
+          JSON.stringify(scoring),
+          JSON.stringify(voting),
+          Object.keys(prompts).length > 0 ? JSON.stringify(prompts) : null,
+          tokenBudget,
+          diceSeed,
+          hashDiceSeed(diceSeed),
+          JSON.stringify(dice),
+        ]
       );
       const session = sessionResult.rows[0];
 
       const playerResult = await client.query(
-        `INSERT INTO session_players (session_id, nickname, is_host)
-         VALUES ($1, $2, true)
-         RETURNING id, nickname, is_host, joined_at`,
-        [session.id, hostNickname]
+        `INSERT INTO session_players (session_id, nickname, is_host, team)
+         VALUES ($1, $2, true, $3)
+         RETURNING id, nickname, is_host, joined_at, team`,
+        [session.id, hostNickname, teams[0] ?? null]
       );
       const hostPlayer = playerResult.rows[0];
 
@@ -54,21 +154,42 @@ router.post('/sessions', async (req: Request, res: Response): Promise<void> => {
         [hostPlayer.id, session.id]
       );
 
+      const credentials = await issuePlayerCredentials(client, {
+        sessionId: session.id,
+        joinCode,
+        playerId: hostPlayer.id,
+      });
+
       await client.query('COMMIT');
 
       res.status(201).json({
         session: {
           id: session.id,
           joinCode: session.join_code,
+          // only the host gets this; it opens the read-only projector view
+          spectatorCode: session.spectator_code,
           status: session.status,
           createdAt: session.created_at,
+          settings,
+          planetSet,
+          scenario: { id: scenario.id, name: scenario.name },
+          moderationStrictness,
+          lateJoin,
+          teams,
+          scoring,
+          dice,
+          voting,
+          prompts,
+          tokenBudget,
         },
         player: {
           id: hostPlayer.id,
           nickname: hostPlayer.nickname,
           isHost: hostPlayer.is_host,
           joinedAt: hostPlayer.joined_at,
+          team: hostPlayer.team,
         },
+        ...credentials,
       });
     } catch (err) {
       await client.query('ROLLBACK');
@@ -91,7 +212,10 @@ router.post('/sessions', async (req: Request, res: Response): Promise<void> => {
 
 /**
  * POST /api/sessions/:joinCode/join
- * join an existing session as a player
+ * join an existing session as a player. once the game has started this needs
+ * the session to allow late joins; a late joiner gets their planet ordinals and
+ * catch-up score here. a locked session refuses everyone (403 JOIN_LOCKED).
+ * in a team game the new player goes to the team with the fewest members.
  */
 router.post('/sessions/:joinCode/join', async (req: Request, res: Response): Promise<void> => {
   try {
@@ -103,9 +227,12 @@ router.post('/sessions/:joinCode/join', async (req: Request, res: Response): Pro
     try {
       await client.query('BEGIN');
 
-      // check if session exists
+      // check if session exists; locked so concurrent late joiners see the same scores
       const sessionResult = await client.query(
-        `SELECT id, join_code, status FROM game_sessions WHERE join_code = $1`,
+        `SELECT id, join_code, status, current_round, planet_set,
+                late_join_allowed, late_join_catch_up, join_locked, teams
+         FROM game_sessions WHERE join_code = $1
+         FOR UPDATE`,
         [joinCode]
       );
 
@@ -117,20 +244,23 @@ router.post('/sessions/:joinCode/join', async (req: Request, res: Response): Pro
 
       const session = sessionResult.rows[0];
 
-      // check if session is in WAITING state
-      if (session.status !== 'WAITING') {
+      const policy = lateJoinPolicyFromRow(session);
+      const refusal = lateJoinRefusal(session.status, policy, session.join_locked);
+      if (refusal) {
         await client.query('ROLLBACK');
-        res.status(400).json({
+        res.status(refusal.code === 'JOIN_LOCKED' ? 403 : 400).json({
           error: 'Cannot join session',
-          message: 'Session has already started or finished',
+          message: refusal.message,
+          code: refusal.code,
         });
         return;
       }
 
-      // check if nickname is already taken in this session
+      // check if nickname is already taken in this session; rejoin matches nicknames
+      // regardless of case, so "alex" can't join next to "Alex"
       const nicknameCheck = await client.query(
         `SELECT 1 FROM session_players
-         WHERE session_id = $1 AND nickname = $2`,
+         WHERE session_id = $1 AND LOWER(nickname) = LOWER($2)`,
         [session.id, nickname]
       );
 
@@ -143,14 +273,53 @@ router.post('/sessions/:joinCode/join', async (req: Request, res: Response): Pro
         return;
       }
 
+      // players who were there at the start got their ordinals in lobby:start_game
+      const lateJoin = session.status !== 'WAITING';
+      const teams = teamsFromRow(session.teams);
+      let catchUpScore = 0;
+      let ordinals = {};
+      let team: string | null = null;
+      if (lateJoin || teams.length > 0) {
+        const others = await client.query(
+          `SELECT total_score, team FROM session_players
+           WHERE session_id = $1 AND is_system = FALSE AND removed_at IS NULL`,
+          [session.id]
+        );
+        team = smallestTeam(
+          teams,
+          others.rows.map((row) => row.team ?? null)
+        );
+        if (lateJoin) {
+          catchUpScore = computeCatchUpScore(
+            policy.catchUp,
+            others.rows.map((row) => row.total_score ?? 0)
+          );
+          ordinals = randomOrdinals(getPlanetIds(planetSetFromRow(session.planet_set).planets));
+        }
+      }
+
       const playerResult = await client.query(
-        `INSERT INTO session_players (session_id, nickname, is_host)
-         VALUES ($1, $2, false)
-         RETURNING id, nickname, is_host, joined_at`,
-        [session.id, nickname]
+        `INSERT INTO session_players
+          (session_id, nickname, is_host, total_score, catch_up_score, joined_round, planet_usage_state, team)
+         VALUES ($1, $2, false, $3, $3, $4, $5, $6)
+         RETURNING id, nickname, is_host, joined_at, team`,
+        [
+          session.id,
+          nickname,
+          catchUpScore,
+          lateJoin ? session.current_round : null,
+          JSON.stringify(ordinals),
+          team,
+        ]
       );
       const player = playerResult.rows[0];
 
+      const credentials = await issuePlayerCredentials(client, {
+        sessionId: session.id,
+        joinCode: session.join_code,
+        playerId: player.id,
+      });
+
       await client.query('COMMIT');
 
       res.status(201).json({
@@ -164,7 +333,10 @@ router.post('/sessions/:joinCode/join', async (req: Request, res: Response): Pro
           nickname: player.nickname,
           isHost: player.is_host,
           joinedAt: player.joined_at,
+          team: player.team ?? null,
+          ...(lateJoin && { joinedRound: session.current_round, catchUpScore }),
         },
+        ...credentials,
       });
     } catch (err) {
       await client.query('ROLLBACK');
@@ -187,41 +359,27 @@ router.post('/sessions/:joinCode/join', async (req: Request, res: Response): Pro
 
 /**
  * POST /api/sessions/:joinCode/rejoin
- * recover an existing player's identity by nickname, regardless of game phase.
- * used when a player loses localStorage (new device/browser).
+ * recover an existing player on a new device or browser, regardless of game
+ * phase. needs the recovery code the player was given when they joined.
  */
 router.post('/sessions/:joinCode/rejoin', async (req: Request, res: Response): Promise<void> => {
   try {
     const joinCode = joinCodeSchema.parse(req.params.joinCode.toUpperCase());
-    const { nickname } = joinSessionSchema.parse(req.body);
+    const { nickname, recoveryCode } = rejoinSessionSchema.parse(req.body);
 
-    const client = await pool.connect();
-    try {
-      const result = await client.query(
-        `SELECT sp.id, sp.nickname, sp.is_host
-         FROM session_players sp
-         JOIN game_sessions gs ON gs.id = sp.session_id
-         WHERE gs.join_code = $1 AND LOWER(sp.nickname) = LOWER($2)`,
-        [joinCode, nickname]
-      );
-
-      if (result.rows.length === 0) {
-        res.status(404).json({ error: 'Player not found', message: 'No player with that nickname in this session' });
-        return;
-      }
-
-      const player = result.rows[0];
-      res.json({
-        player: { id: player.id, nickname: player.nickname, isHost: player.is_host },
-      });
-    } finally {
-      client.release();
-    }
+    const { token, player } = await recoverPlayer(joinCode, nickname, recoveryCode);
+    res.json({ player, token });
   } catch (error) {
     if (error instanceof ZodError) {
       res.status(400).json({ error: 'Validation failed', details: (error as ZodError).errors });
       return;
     }
+    if (error instanceof SessionTokenError) {
+      res
+        .status(error.code === 'BANNED' ? 403 : 401)
+        .json({ error: 'Cannot rejoin', message: error.message, code: error.code });
+      return;
+    }
     console.error('Error rejoining session:', error);
     res.status(500).json({ error: 'Failed to rejoin session' });
   }
@@ -288,5 +446,140 @@ router.get('/sessions/:joinCode', async (req: Request, res: Response): Promise<v
   }
 });
 
+/**
+ * GET /api/sessions/:joinCode/export
+ * the record of a finished game as a versioned json archive, or ?format=csv for just
+ * the headlines. with the admin token: games still running, and every headline
+ * including hidden and flagged ones
+ */
+router.get('/sessions/:joinCode/export', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const joinCode = joinCodeSchema.parse(req.params.joinCode.toUpperCase());
+    const format = req.query.format ?? 'json';
+    if (format !== 'json' && format !== 'csv') {
+      res.status(400).json({ error: 'Unknown export format', message: 'Use format=json or format=csv' });
+      return;
+    }
+
+    const archive = await buildSessionArchive(joinCode, { admin: isAdminRequest(req) });
+    if (!archive) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+
+    if (format === 'csv') {
+      res.attachment(`future-headlines-${joinCode}-headlines.csv`);
+      res.type('text/csv').send(headlinesToCsv(archive));
+      return;
+    }
+    res.attachment(`future-headlines-${joinCode}.json`);
+    res.json(archive);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      res.status(400).json({
+        error: 'Invalid join code format',
+        details: error.errors,
+      });
+      return;
+    }
+    if (error instanceof SessionArchiveError) {
+      res.status(409).json({ error: error.message, code: error.code });
+      return;
+    }
+    console.error('Error exporting session:', error);
+    res.status(500).json({ error: 'Failed to export session' });
+  }
+});
+
+/**
+ * GET /api/sessions/:joinCode/dice
+ * the session's seed commitment, its rolls and their band frequencies; once the
+ * game is FINISHED, the revealed seed and whether every roll matches it
+ */
+router.get('/sessions/:joinCode/dice', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const joinCode = joinCodeSchema.parse(req.params.joinCode.toUpperCase());
+    res.json(await auditSessionDice(joinCode));
+  } catch (error) {
+    if (error instanceof ZodError) {
+      res.status(400).json({
+        error: 'Invalid join code format',
+        details: error.errors,
+      });
+      return;
+    }
+    if (error instanceof DiceAuditError) {
+      res.status(404).json({ error: error.message, code: error.code });
+      return;
+    }
+    console.error('Error auditing dice:', error);
+    res.status(500).json({ error: 'Failed to audit dice' });
+  }
+});
+
+/**
+ * POST /api/sessions/import
+ * recreate a finished game from an export archive, read-only, under a new join code
+ */
+router.post('/sessions/import', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const archive = validateSessionArchive(req.body);
+    const { joinCode, recoveryCodes } = await importSessionArchive(archive);
+
+    res.status(201).json({
+      session: {
+        joinCode,
+        importedFrom: archive.session.joinCode,
+        headlineCount: archive.headlines.length,
+      },
+      // nickname -> recovery code, for opening the game as that player via /rejoin
+      recoveryCodes,
+    });
+  } catch (error) {
+    if (error instanceof SessionArchiveError) {
+      res.status(400).json({
+        error: error.message,
+        code: error.code,
+        details: error.details?.issues ?? error.details,
+      });
+      return;
+    }
+    console.error('Error importing session:', error);
+    res.status(500).json({ error: 'Failed to import session' });
+  }
+});
+
+/**
+ * GET /api/planet-packs
+ * built-in planet packs a host can choose from at session creation
+ */
+router.get('/planet-packs', (_req: Request, res: Response): void => {
+  res.json({ packs: PLANET_PACKS });
+});
+
+/**
+ * GET /api/scoring-presets
+ * scoring presets a host can start from at session creation
+ */
+router.get('/scoring-presets', (_req: Request, res: Response): void => {
+  res.json({ presets: Object.values(SCORING_PRESETS) });
+});
+
+/**
+ * GET /api/dice-presets
+ * dice distributions a host can start from at session creation
+ */
+router.get('/dice-presets', (_req: Request, res: Response): void => {
+  res.json({ presets: Object.values(DICE_PRESETS) });
+});
+
+/**
+ * GET /api/prompt-variants
+ * juror, summary and narrative prompt variants a host can assign at session creation
+ */
+router.get('/prompt-variants', (_req: Request, res: Response): void => {
+  res.json({ variants: describePromptVariants() });
+});
+
 export default router;
 
@@ -0,0 +1,59 @@
+/**
+ * compare two juror prompt variants on a session's stored story directions:
+ *
+ *   npm run compare-prompts -- <joinCode> --a <variant> --b <variant> [--sample <n>] [--out <path>]
+ *
+ * writes <path>.json (every verdict) and <path>.md (the side-by-side report),
+ * by default prompt-comparison-<joinCode>-<a>-vs-<b>. this calls the llm twice
+ * per sampled headline; see promptComparison.ts.
+ */
+
+import fs from 'fs';
+import { parseArgs } from 'util';
+import pool from '../db/pool.js';
+import { comparePromptVariants, comparisonToMarkdown } from '../game/promptComparison.js';
+
+const USAGE =
+  'Usage: npm run compare-prompts -- <joinCode> --a <variant> --b <variant> [--sample <n>] [--out <path>]';
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      a: { type: 'string' },
+      b: { type: 'string' },
+      sample: { type: 'string' },
+      out: { type: 'string' },
+    },
+  });
+
+  const joinCode = positionals[0]?.toUpperCase();
+  const sampleSize = values.sample === undefined ? undefined : Number(values.sample);
+  if (!joinCode || !values.a || !values.b || (sampleSize !== undefined && !(sampleSize > 0))) {
+    throw new Error(USAGE);
+  }
+
+  const comparison = await comparePromptVariants({
+    joinCode,
+    variants: [values.a, values.b],
+    sampleSize,
+  });
+
+  const out = values.out ?? `prompt-comparison-${joinCode}-${values.a}-vs-${values.b}`;
+  fs.writeFileSync(`${out}.json`, JSON.stringify(comparison, null, 2));
+  fs.writeFileSync(`${out}.md`, comparisonToMarkdown(comparison));
+
+  const [first, second] = comparison.summaries;
+  console.log(`Compared ${comparison.items.length} headlines from ${comparison.joinCode}`);
+  console.log(`${first.variant}: mean level ${first.meanLevel?.toFixed(2) ?? '-'} (${first.failed} failed)`);
+  console.log(`${second.variant}: mean level ${second.meanLevel?.toFixed(2) ?? '-'} (${second.failed} failed)`);
+  console.log(`Same level on ${Math.round(comparison.agreement.exact.rate * 100)}% of ${comparison.agreement.n}`);
+  console.log(`Wrote ${out}.json and ${out}.md`);
+}
+
+main()
+  .catch((err) => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,87 @@
+/**
+ * replay a session's scores from the command line:
+ *
+ *   npm run replay-scores -- <joinCode> [--preset <id>] [--rules <file.json>] [--all] [--json]
+ *
+ * --preset and --rules (a ScoringRulesRequest, the create-session `scoring`
+ * body) pick the rules to replay under; without them the session's own are
+ * used. only headlines whose score changes are listed unless --all is given.
+ */
+
+import fs from 'fs';
+import { parseArgs } from 'util';
+import { ZodError } from 'zod';
+import pool from '../db/pool.js';
+import { scoringRulesSchema } from '../utils/validation.js';
+import { replaySessionScores, SessionScoreReplay } from '../game/scoreReplay.js';
+
+function signed(value: number): string {
+  return value > 0 ? `+${value}` : String(value);
+}
+
+function printReplay(replay: SessionScoreReplay, all: boolean): void {
+  const { scoring } = replay;
+  console.log(`Session ${replay.joinCode}, replayed under ${scoring.preset}${scoring.tuned ? ' (tuned)' : ''}`);
+  console.log(`${replay.changed} of ${replay.headlines.length} headlines score differently\n`);
+
+  const shown = replay.headlines.filter((h) => all || (h.delta !== null && h.delta !== 0));
+  if (shown.length > 0) {
+    console.table(
+      shown.map((h) => ({
+        round: h.roundNo,
+        player: h.nickname,
+        headline: h.id,
+        stored: h.storedTotal ?? '-',
+        replayed: h.replayed?.total ?? '-',
+        delta: h.delta === null ? '-' : signed(h.delta),
+        notes: [!h.counted && 'hidden', h.legacyConnection && 'legacy connection'].filter(Boolean).join(', '),
+      }))
+    );
+  }
+
+  console.table(
+    replay.players.map((p) => ({
+      player: p.nickname,
+      stored: p.stored,
+      replayed: p.replayed,
+      delta: signed(p.delta),
+    }))
+  );
+}
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      preset: { type: 'string' },
+      rules: { type: 'string' },
+      all: { type: 'boolean', default: false },
+      json: { type: 'boolean', default: false },
+    },
+  });
+
+  const joinCode = positionals[0]?.toUpperCase();
+  if (!joinCode) {
+    throw new Error('Usage: npm run replay-scores -- <joinCode> [--preset <id>] [--rules <file.json>] [--all] [--json]');
+  }
+
+  const fromFile = values.rules ? JSON.parse(fs.readFileSync(values.rules, 'utf-8')) : undefined;
+  const rules =
+    fromFile || values.preset
+      ? scoringRulesSchema.parse({ ...fromFile, ...(values.preset && { preset: values.preset }) })
+      : undefined;
+
+  const replay = await replaySessionScores(joinCode, rules);
+  if (values.json) {
+    console.log(JSON.stringify(replay, null, 2));
+  } else {
+    printReplay(replay, values.all ?? false);
+  }
+}
+
+main()
+  .catch((err) => {
+    console.error(err instanceof ZodError ? err.errors : err instanceof Error ? err.message : err);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
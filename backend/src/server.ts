@@ -5,8 +5,22 @@ import cors from 'cors';
 import dotenv from 'dotenv';
 import sessionsRouter from './routes/sessions.js';
 import jurorRouter from './routes/juror.js';
+import scenariosRouter from './routes/scenarios.js';
+import moderationRouter from './routes/moderation.js';
+import adminRouter from './routes/admin.js';
+import ratingRouter from './routes/rating.js';
 import { setupLobbyHandlers } from './socket/lobbyHandlers.js';
+import { authenticateSocket } from './socket/socketAuth.js';
 import { gameLoopManager } from './game/gameLoop.js';
+import { playerModeration } from './game/playerModeration.js';
+import { contentModeration } from './game/contentModeration.js';
+import { headlineVoting } from './game/headlineVoting.js';
+import { headlineReevaluationQueue } from './game/headlineReevaluationQueue.js';
+import { headlineEvaluationQueue } from './game/headlineEvaluationQueue.js';
+import pool from './db/pool.js';
+import { resolveClusterMode } from './cluster/clusterMode.js';
+import { createPostgresAdapter } from './cluster/postgresAdapter.js';
+import { createPostgresLeadership } from './cluster/sessionLeadership.js';
 
 dotenv.config();
 
@@ -20,12 +34,20 @@ const io = new Server(httpServer, {
   },
 });
 
+// with several instances behind a load balancer, relay broadcasts between them
+const clusterMode = resolveClusterMode();
+if (clusterMode === 'postgres') {
+  io.adapter(createPostgresAdapter(pool));
+}
+
 const PORT = process.env.PORT || 3001;
 
 app.use(cors({
   origin: process.env.FRONTEND_URL || 'http://localhost:5173',
   credentials: true,
 }));
+// game archives are far larger than any other request body
+app.use('/api/sessions/import', express.json({ limit: '20mb' }));
 app.use(express.json());
 
 // health check endpoint
@@ -35,10 +57,28 @@ app.get('/health', (_req, res) => {
 
 // api routes
 app.use('/api', sessionsRouter);
+app.use('/api/sessions', moderationRouter);
 app.use('/api/juror', jurorRouter);
+app.use('/api/scenarios', scenariosRouter);
+app.use('/api/admin', adminRouter);
+app.use('/api/rating', ratingRouter);
 
 gameLoopManager.setSocketIO(io);
+headlineEvaluationQueue.setSocketIO(io);
+playerModeration.setSocketIO(io);
+contentModeration.setSocketIO(io);
+headlineVoting.setSocketIO(io);
+
+if (clusterMode === 'postgres') {
+  gameLoopManager.enableClustering(createPostgresLeadership(pool));
+  headlineEvaluationQueue.enableClustering(
+    (sessionId) => gameLoopManager.leadsSession(sessionId),
+    () => gameLoopManager.ledSessionIds()
+  );
+}
 
+// sockets carrying a player token get socket.data.auth before any handler runs
+io.use(authenticateSocket);
 setupLobbyHandlers(io);
 
 // error handling middleware
@@ -51,12 +91,25 @@ httpServer.listen(PORT, () => {
   console.log(`🚀 Server running on port ${PORT}`);
   console.log(`📡 Socket.IO server ready`);
   console.log(`🌍 Environment: ${process.env.NODE_ENV || 'development'}`);
+  console.log(`🔗 Cluster mode: ${clusterMode}`);
+  if (!process.env.SESSION_TOKEN_SECRET) {
+    console.warn('⚠️  SESSION_TOKEN_SECRET is not set: player tokens will not survive a restart or work across instances');
+  }
+
+  // pick up any games a previous process was running when it stopped
+  gameLoopManager.resumeActiveSessions().catch((err) => {
+    console.error('Failed to resume active sessions:', err);
+  });
+
+  // score headlines that were submitted while the juror was unavailable
+  headlineReevaluationQueue.start();
 });
 
 // graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM signal received: closing HTTP server');
   gameLoopManager.stopAll();
+  headlineReevaluationQueue.stop();
   httpServer.close(() => {
     console.log('HTTP server closed');
     process.exit(0);
@@ -66,6 +119,7 @@ process.on('SIGTERM', () => {
 process.on('SIGINT', () => {
   console.log('SIGINT signal received: closing HTTP server');
   gameLoopManager.stopAll();
+  headlineReevaluationQueue.stop();
   httpServer.close(() => {
     console.log('HTTP server closed');
     process.exit(0);
@@ -1,33 +1,50 @@
 import { Server, Socket } from 'socket.io';
 import pool from '../db/pool.js';
-import { gameLoopManager } from '../game/gameLoop.js';
-import { submitHeadlineSchema } from '../utils/validation.js';
+import { gameLoopManager, GameControlError } from '../game/gameLoop.js';
+import {
+  submitHeadlineSchema,
+  extendPhaseSchema,
+  kickPlayerSchema,
+  renamePlayerSchema,
+  mutePlayerSchema,
+  moderatePlayerSchema,
+  reviewHeadlineSchema,
+  overrideHeadlineSchema,
+  spectatorCodeSchema,
+  lockSessionSchema,
+  setTeamSchema,
+  balanceTeamsSchema,
+  voteHeadlineSchema,
+} from '../utils/validation.js';
 import { ZodError } from 'zod';
-import { transformHeadline, LinkedHeadline } from '../game/headlineTransformationService.js';
-import { getDefaultPlanets } from '../game/planets.js';
-import { HeadlineEntry } from '../llm/jurorPrompt.js';
-import { applyHeadlineEvaluation, getPlayerScoreBreakdowns } from '../game/scoringService.js';
-import { PlausibilityLevel, DEFAULT_PLANETS, PlanetPanelEntry } from '../game/scoringTypes.js';
+import { insertPendingHeadline, buildHeadlineEvent } from '../game/headlineEvaluationService.js';
+import { headlineEvaluationQueue } from '../game/headlineEvaluationQueue.js';
+import { PlausibilityLevel } from '../game/scoringTypes.js';
+import { getPlanetIds, toJurorPlanets } from '../game/planets.js';
+import { randomOrdinals, initialGlobalUsage } from '../game/planetUsage.js';
+import {
+  getRoundSummary,
+  getLatestRoundSummary,
+  getSessionIdFromJoinCode,
+} from '../game/summaryService.js';
+import { PlayerTokenClaims, SessionTokenError } from '../auth/sessionTokens.js';
+import { revokePlayerCredentials } from '../auth/playerCredentials.js';
+import { getPlayerRoomName } from './socketAuth.js';
+import { playerModeration, ModerationError } from '../game/playerModeration.js';
+import { contentModeration } from '../game/contentModeration.js';
+import { fetchFeedHeadlines } from '../game/headlineFeed.js';
 import {
-  migrateGlobalUsage,
-  migratePlayerOrdinals,
-  computePlanetPanel,
-  randomOrdinals,
-  initialGlobalUsage,
-} from '../game/planetUsage.js';
-import { getRoundSummary, getSessionIdFromJoinCode } from '../game/summaryService.js';
-import { computeInGameNow } from '../game/inGameTime.js';
-import { SEED_HEADLINES } from '../game/seedHeadlines.js';
-
-
-// rate limiting: track last submission time per player.
-// key: `${sessionId}:${playerId}`, value: timestamp in ms
-const lastHeadlineSubmission: Map<string, number> = new Map();
-
-// the juror only sees the most recent N headlines (rolling window) when judging
-// plausibility, linking connections, and drafting variations. N = the number of
-// archive/seed headlines, so old context drops off as the timeline grows.
-const JUROR_HISTORY_WINDOW = SEED_HEADLINES.length;
+  findJoinCodeBySpectatorCode,
+  getSpectatorCode,
+  getSpectatorRoomName,
+  resetSpectatorCode,
+} from '../game/spectators.js';
+import { headlineVoting, VotingError } from '../game/headlineVoting.js';
+import { fetchSessionState, SessionState } from '../game/sessionState.js';
+
+
+// rate limiting: session_players.last_headline_at holds each player's last
+// submission, so the cooldown holds whichever instance the player is connected to.
 
 // in test mode (GAME_TEST_MODE=true), the cooldown is scaled to ~6s
 // to match the compressed game timing in gameLoop.ts.
@@ -35,242 +52,148 @@ const TEST_MODE = process.env.GAME_TEST_MODE === 'true';
 const HEADLINE_COOLDOWN_MS = TEST_MODE ? Math.round(90_000 / 16) : 90_000; // ~6s test, 90s normal
 
 /**
- * count unique other authors from STRONG linked headlines using db lookup.
- *
- * looks at only strong connections, finds who wrote each linked headline,
- * and counts how many distinct other players (not the submitter) are represented.
- *
- * @param linkedHeadlines - array of linked headlines from llm
- * @param sessionId - session id to query db for headline owners
- * @param currentPlayerId - the player who submitted the headline
- * @returns number of unique other authors (0-3)
+ * start a player's headline cooldown, unless the previous one is still running.
+ * the check and the update are one statement, so two quick submissions can't both pass.
  */
-async function deriveUniqueOtherAuthorCount(
-  linkedHeadlines: LinkedHeadline[],
+async function claimHeadlineSlot(
   sessionId: string,
-  currentPlayerId: string
-): Promise<number> {
-  // filter to STRONG connections only
-  const strongConnections = linkedHeadlines.filter((h) => h.strength === 'STRONG');
-
-  if (strongConnections.length === 0) {
-    return 0;
+  playerId: string
+): Promise<{ allowed: boolean; remainingMs: number }> {
+  const claimed = await pool.query(
+    `UPDATE session_players
+     SET last_headline_at = NOW()
+     WHERE id = $1 AND session_id = $2
+       AND (last_headline_at IS NULL OR last_headline_at <= NOW() - make_interval(secs => $3))
+     RETURNING last_headline_at`,
+    [playerId, sessionId, HEADLINE_COOLDOWN_MS / 1000]
+  );
+  if (claimed.rows.length > 0) {
+    return { allowed: true, remainingMs: 0 };
   }
 
-  const headlineTexts = strongConnections.map((h) => h.headline);
-
-  try {
-    // query db to find the player_id for each linked headline
-    const result = await pool.query(
-      `SELECT player_id, COALESCE(selected_headline, headline_text) as text
-       FROM game_session_headlines
-       WHERE session_id = $1
-         AND COALESCE(selected_headline, headline_text) = ANY($2)`,
-      [sessionId, headlineTexts]
-    );
-
-    // collect unique other player ids
-    const otherAuthors = new Set<string>();
-    for (const row of result.rows) {
-      if (row.player_id !== currentPlayerId) {
-        otherAuthors.add(row.player_id);
-      }
-    }
+  const result = await pool.query(
+    `SELECT GREATEST(0, EXTRACT(EPOCH FROM (last_headline_at + make_interval(secs => $3) - NOW())) * 1000)
+       AS remaining_ms
+     FROM session_players
+     WHERE id = $1 AND session_id = $2`,
+    [playerId, sessionId, HEADLINE_COOLDOWN_MS / 1000]
+  );
+  return { allowed: false, remainingMs: Math.ceil(Number(result.rows[0]?.remaining_ms ?? 0)) };
+}
 
-    return Math.min(otherAuthors.size, 3);
-  } catch (error) {
-    console.error('Error querying headline owners for connection scoring:', error);
-    return 0;
-  }
+/** the player comes from the socket's handshake token, not from the payload */
+interface JoinLobbyData {
+  joinCode: string;
 }
 
 /**
- * check if a player can submit a headline (rate limiting)
+ * fetch current session state from database including game timing
  */
-function canSubmitHeadline(sessionId: string, playerId: string): { allowed: boolean; remainingMs: number } {
-  const key = `${sessionId}:${playerId}`;
-  const lastSubmission = lastHeadlineSubmission.get(key);
-  const now = Date.now();
-
-  if (!lastSubmission) {
-    return { allowed: true, remainingMs: 0 };
-  }
-
-  const elapsed = now - lastSubmission;
-  if (elapsed >= HEADLINE_COOLDOWN_MS) {
-    return { allowed: true, remainingMs: 0 };
+async function getSessionState(joinCode: string): Promise<SessionState | null> {
+  try {
+    return await fetchSessionState({ joinCode });
+  } catch (error) {
+    console.error('Error fetching session state:', error);
+    return null;
   }
-
-  return { allowed: false, remainingMs: HEADLINE_COOLDOWN_MS - elapsed };
 }
 
 /**
- * record a headline submission for rate limiting
+ * get room name for a session
  */
-function recordHeadlineSubmission(sessionId: string, playerId: string): void {
-  const key = `${sessionId}:${playerId}`;
-  lastHeadlineSubmission.set(key, Date.now());
+function getRoomName(joinCode: string): string {
+  return `session:${joinCode}`;
 }
 
 /**
- * clear rate limit data for a session (call on session cleanup)
+ * take a socket out of the session it is in, as a player or a spectator, so it
+ * stops getting that session's broadcasts (host-only ones included). called
+ * before it joins a session and on lobby:leave.
+ *
+ * @returns the join code of the session it left, if any
  */
-export function clearSessionRateLimits(sessionId: string): void {
-  for (const key of lastHeadlineSubmission.keys()) {
-    if (key.startsWith(`${sessionId}:`)) {
-      lastHeadlineSubmission.delete(key);
-    }
+async function leaveCurrentSession(socket: Socket): Promise<string | undefined> {
+  const { joinCode, playerId, spectator } = socket.data;
+  if (!joinCode) {
+    return undefined;
   }
-}
 
-interface JoinLobbyData {
-  joinCode: string;
-  playerId: string;
-}
-
-interface SessionState {
-  id: string;
-  joinCode: string;
-  status: string;
-  hostPlayerId: string | null;
-  phase: string;
-  currentRound: number;
-  playMinutes: number;
-  breakMinutes: number;
-  maxRounds: number;
-  phaseStartedAt: string | null;
-  phaseEndsAt: string | null;
-  serverNow: string;
-  inGameNow: string | null;
-  timelineSpeedRatio: number;
-  players: Array<{
-    id: string;
-    nickname: string;
-    isHost: boolean;
-    joinedAt: string;
-    totalScore?: number;
-    planetPanel?: PlanetPanelEntry[];
-    scoreBreakdown?: {
-      baseline: number;
-      plausibility: number;
-      connection: number;
-      planetBonus: number;
-    };
-  }>;
+  await socket.leave(getRoomName(joinCode));
+  if (playerId) {
+    await socket.leave(getPlayerRoomName(playerId));
+  }
+  if (spectator) {
+    await socket.leave(getSpectatorRoomName(joinCode));
+  }
+  socket.data.joinCode = undefined;
+  socket.data.playerId = undefined;
+  socket.data.spectator = undefined;
+  return joinCode;
 }
 
 /**
- * fetch current session state from database including game timing
+ * shared flow for the host-only game loop controls (pause/resume/extend/skip):
+ * verify the caller is the session host, then run the control. the loop
+ * broadcasts the updated game:state to the room itself.
  */
-async function getSessionState(joinCode: string): Promise<SessionState | null> {
+async function handleHostGameControl(
+  socket: Socket,
+  eventName: string,
+  joinCode: string | undefined,
+  callback: ((response: Record<string, unknown>) => void) | undefined,
+  run: (sessionState: SessionState, playerId: string) => Promise<void | Record<string, unknown>>
+): Promise<void> {
   try {
-    const result = await pool.query(
-      `SELECT
-        s.id,
-        s.join_code,
-        s.status,
-        s.host_player_id,
-        s.phase,
-        s.current_round,
-        s.play_minutes,
-        s.break_minutes,
-        s.max_rounds,
-        s.phase_started_at,
-        s.phase_ends_at,
-        s.in_game_start_at,
-        s.timeline_speed_ratio,
-        s.planet_usage_global,
-        CURRENT_TIMESTAMP as server_now,
-        json_agg(
-          json_build_object(
-            'id', p.id,
-            'nickname', p.nickname,
-            'isHost', p.is_host,
-            'joinedAt', p.joined_at,
-            'totalScore', p.total_score,
-            'planetUsageState', p.planet_usage_state
-          ) ORDER BY p.joined_at
-        ) as players
-      FROM game_sessions s
-      LEFT JOIN session_players p ON s.id = p.session_id AND p.is_system = FALSE
-      WHERE s.join_code = $1
-      GROUP BY s.id`,
-      [joinCode]
-    );
+    const { playerId } = socket.data;
 
-    if (result.rows.length === 0) {
-      return null;
+    if (!joinCode || !playerId) {
+      callback?.({
+        success: false,
+        error: 'Missing required data',
+      });
+      return;
     }
 
-    const session = result.rows[0];
-    const serverNow = new Date(session.server_now);
-
-    // compute in-game time
-    const inGameNow = computeInGameNow(
-      session.in_game_start_at,
-      session.phase_started_at,
-      session.phase_ends_at,
-      serverNow,
-      session.timeline_speed_ratio
-    );
+    const sessionState = await getSessionState(joinCode);
+    if (!sessionState) {
+      callback?.({
+        success: false,
+        error: 'Session not found',
+      });
+      return;
+    }
 
-    const breakdowns = await getPlayerScoreBreakdowns(session.id);
-    const globalUsage = migrateGlobalUsage(session.planet_usage_global, DEFAULT_PLANETS);
-
-    // build each player's usage-ranked planet panel
-    const processedPlayers = session.players
-      .filter((p: any) => p.id !== null)
-      .map((p: any) => {
-        const bd = breakdowns.get(p.id);
-        return {
-          id: p.id,
-          nickname: p.nickname,
-          isHost: p.isHost,
-          joinedAt: p.joinedAt,
-          totalScore: p.totalScore ?? 0,
-          planetPanel: computePlanetPanel(
-            globalUsage,
-            migratePlayerOrdinals(p.planetUsageState, DEFAULT_PLANETS),
-            DEFAULT_PLANETS
-          ),
-          scoreBreakdown: bd ?? { baseline: 0, plausibility: 0, connection: 0, planetBonus: 0 },
-        };
+    if (sessionState.hostPlayerId !== playerId) {
+      callback?.({
+        success: false,
+        error: 'Only the host can control the game',
       });
+      return;
+    }
 
-    return {
-      id: session.id,
-      joinCode: session.join_code,
-      status: session.status,
-      hostPlayerId: session.host_player_id,
-      phase: session.phase,
-      currentRound: session.current_round,
-      playMinutes: session.play_minutes,
-      breakMinutes: session.break_minutes,
-      maxRounds: session.max_rounds,
-      phaseStartedAt: session.phase_started_at
-        ? new Date(session.phase_started_at).toISOString()
-        : null,
-      phaseEndsAt: session.phase_ends_at
-        ? new Date(session.phase_ends_at).toISOString()
-        : null,
-      serverNow: serverNow.toISOString(),
-      inGameNow: inGameNow ? inGameNow.toISOString() : null,
-      timelineSpeedRatio: session.timeline_speed_ratio,
-      players: processedPlayers,
-    };
+    const result = await run(sessionState, playerId);
+
+    callback?.({ success: true, ...result });
   } catch (error) {
-    console.error('Error fetching session state:', error);
-    return null;
+    if (
+      error instanceof GameControlError ||
+      error instanceof SessionTokenError ||
+      error instanceof ModerationError
+    ) {
+      callback?.({
+        success: false,
+        error: error.message,
+      });
+      return;
+    }
+    console.error(`Error in ${eventName}:`, error);
+    callback?.({
+      success: false,
+      error: 'Failed to update game',
+    });
   }
 }
 
-/**
- * get room name for a session
- */
-function getRoomName(joinCode: string): string {
-  return `session:${joinCode}`;
-}
-
 /**
  * setup socket.io event handlers for lobby functionality
  */
@@ -284,15 +207,25 @@ export function setupLobbyHandlers(io: Server): void {
      */
     socket.on('lobby:join', async (data: JoinLobbyData, callback) => {
       try {
-        const { joinCode, playerId } = data;
+        const joinCode = data?.joinCode?.toUpperCase();
+        const auth = socket.data.auth as PlayerTokenClaims | undefined;
 
-        if (!joinCode || !playerId) {
+        if (!joinCode) {
+          callback?.({
+            success: false,
+            error: 'Missing joinCode',
+          });
+          return;
+        }
+
+        if (!auth || auth.joinCode !== joinCode) {
           callback?.({
             success: false,
-            error: 'Missing joinCode or playerId',
+            error: 'Not signed in to this session',
           });
           return;
         }
+        const { playerId } = auth;
 
         const sessionState = await getSessionState(joinCode);
         if (!sessionState) {
@@ -316,25 +249,40 @@ export function setupLobbyHandlers(io: Server): void {
         }
 
         const roomName = getRoomName(joinCode);
-        await socket.join(roomName);
+        await leaveCurrentSession(socket);
+        await socket.join([roomName, getPlayerRoomName(playerId)]);
 
         // store session info in socket data for later use
         socket.data.joinCode = joinCode;
         socket.data.playerId = playerId;
+        socket.data.spectator = undefined;
 
         console.log(
           `Player ${playerId} joined lobby ${joinCode} (socket: ${socket.id})`
         );
 
+        // a late joiner gets what they missed: the feed so far and the last recap
+        const player = sessionState.players.find((p) => p.id === playerId);
+        const catchUp =
+          player?.joinedRound != null && sessionState.phase !== 'FINISHED'
+            ? {
+                headlines: await fetchFeedHeadlines(sessionState.id, {
+                  visibleTo: { playerId, isHost: playerId === sessionState.hostPlayerId },
+                }),
+                roundSummary: await getLatestRoundSummary(sessionState.id),
+              }
+            : undefined;
+
         callback?.({
           success: true,
           state: sessionState,
+          ...(catchUp && { catchUp }),
         });
 
         // broadcast to others in the room that someone joined
         socket.to(roomName).emit('lobby:player_joined', {
           playerId,
-          player: sessionState.players.find((p) => p.id === playerId),
+          player,
         });
       } catch (error) {
         console.error('Error in lobby:join:', error);
@@ -345,6 +293,56 @@ export function setupLobbyHandlers(io: Server): void {
       }
     });
 
+    /**
+     * watch a session read-only with its spectator code (the projector view).
+     * the socket joins the session room, so it gets the same broadcasts as the
+     * players, but it has no player id: it can't submit or use host controls,
+     * and the feed only shows it approved headlines.
+     */
+    socket.on('spectator:join', async (data: { spectatorCode: string }, callback) => {
+      try {
+        const parsed = spectatorCodeSchema.safeParse(data?.spectatorCode?.toUpperCase());
+        if (!parsed.success) {
+          callback?.({
+            success: false,
+            error: parsed.error.errors[0]?.message || 'Invalid spectator code',
+          });
+          return;
+        }
+
+        const joinCode = await findJoinCodeBySpectatorCode(parsed.data);
+        const sessionState = joinCode ? await getSessionState(joinCode) : null;
+        if (!joinCode || !sessionState) {
+          callback?.({
+            success: false,
+            error: 'Session not found',
+          });
+          return;
+        }
+
+        // a socket is either a player or a spectator, of one session at a time
+        await leaveCurrentSession(socket);
+        await socket.join([getRoomName(joinCode), getSpectatorRoomName(joinCode)]);
+
+        socket.data.joinCode = joinCode;
+        socket.data.playerId = undefined;
+        socket.data.spectator = true;
+
+        console.log(`Spectator joined session ${joinCode} (socket: ${socket.id})`);
+
+        callback?.({
+          success: true,
+          state: sessionState,
+        });
+      } catch (error) {
+        console.error('Error in spectator:join:', error);
+        callback?.({
+          success: false,
+          error: 'Failed to join as spectator',
+        });
+      }
+    });
+
     /**
      * request current session state
      */
@@ -429,7 +427,7 @@ export function setupLobbyHandlers(io: Server): void {
           `UPDATE game_sessions
            SET planet_usage_global = $1
            WHERE id = $2 AND (planet_usage_global = '{}' OR planet_usage_global IS NULL)`,
-          [JSON.stringify(initialGlobalUsage(DEFAULT_PLANETS)), sessionState.id]
+          [JSON.stringify(initialGlobalUsage(getPlanetIds(sessionState.planets))), sessionState.id]
         );
 
         // give each player their own stable random planet ordering (tie-break for the usage panel)
@@ -438,7 +436,7 @@ export function setupLobbyHandlers(io: Server): void {
             `UPDATE session_players
              SET planet_usage_state = $1
              WHERE id = $2 AND (planet_usage_state = '{}' OR planet_usage_state IS NULL)`,
-            [JSON.stringify(randomOrdinals(DEFAULT_PLANETS)), player.id]
+            [JSON.stringify(randomOrdinals(getPlanetIds(sessionState.planets))), player.id]
           );
         }
 
@@ -471,13 +469,244 @@ export function setupLobbyHandlers(io: Server): void {
       }
     });
 
+    /**
+     * host controls: pause/resume the phase timer and in-game clock
+     */
+    socket.on('game:pause', async (data: { joinCode: string }, callback) => {
+      await handleHostGameControl(socket, 'game:pause', data?.joinCode, callback, (state, playerId) =>
+        gameLoopManager.pauseGame(state.id, state.joinCode, playerId)
+      );
+    });
+
+    socket.on('game:resume', async (data: { joinCode: string }, callback) => {
+      await handleHostGameControl(socket, 'game:resume', data?.joinCode, callback, (state, playerId) =>
+        gameLoopManager.resumeGame(state.id, state.joinCode, playerId)
+      );
+    });
+
+    /**
+     * host controls: add time to the current phase, or end it now
+     */
+    socket.on('game:extend_phase', async (data: { joinCode: string; minutes: number }, callback) => {
+      const parsed = extendPhaseSchema.safeParse(data);
+      if (!parsed.success) {
+        callback?.({
+          success: false,
+          error: parsed.error.errors[0]?.message || 'Invalid input',
+        });
+        return;
+      }
+
+      await handleHostGameControl(socket, 'game:extend_phase', parsed.data.joinCode, callback, (state, playerId) =>
+        gameLoopManager.extendPhase(state.id, state.joinCode, parsed.data.minutes * 60_000, playerId)
+      );
+    });
+
+    socket.on('game:skip_phase', async (data: { joinCode: string }, callback) => {
+      await handleHostGameControl(socket, 'game:skip_phase', data?.joinCode, callback, (state) =>
+        gameLoopManager.skipPhase(state.id, state.joinCode)
+      );
+    });
+
+    /**
+     * host revokes a player's tokens, e.g. when someone else got hold of one.
+     * the player's open sockets are told and disconnected; the callback carries
+     * a new recovery code for the host to hand to the right person.
+     */
+    socket.on('player:revoke_token', async (data: { joinCode: string; playerId: string }, callback) => {
+      await handleHostGameControl(socket, 'player:revoke_token', data?.joinCode, callback, async (state, hostId) => {
+        if (!data.playerId || data.playerId === hostId) {
+          throw new SessionTokenError('Pick another player to sign out', 'INVALID_TARGET');
+        }
+        const { recoveryCode } = await revokePlayerCredentials(state.id, data.playerId);
+
+        const playerRoom = getPlayerRoomName(data.playerId);
+        io.to(playerRoom).emit('session:revoked', { joinCode: state.joinCode });
+        io.in(playerRoom).disconnectSockets(true);
+
+        return { recoveryCode };
+      });
+    });
+
+    /**
+     * host moderation: kick (optionally banning), rename, mute/unmute and host
+     * transfer. playerModeration broadcasts the roster change to the room.
+     */
+    socket.on('player:kick', async (data: { joinCode: string; playerId: string; ban?: boolean }, callback) => {
+      const parsed = kickPlayerSchema.safeParse(data);
+      if (!parsed.success) {
+        callback?.({ success: false, error: parsed.error.errors[0]?.message || 'Invalid input' });
+        return;
+      }
+      await handleHostGameControl(socket, 'player:kick', parsed.data.joinCode, callback, (state) =>
+        playerModeration.kick(state, parsed.data.playerId, parsed.data.ban)
+      );
+    });
+
+    socket.on('player:rename', async (data: { joinCode: string; playerId: string; nickname: string }, callback) => {
+      const parsed = renamePlayerSchema.safeParse(data);
+      if (!parsed.success) {
+        callback?.({ success: false, error: parsed.error.errors[0]?.message || 'Invalid input' });
+        return;
+      }
+      await handleHostGameControl(socket, 'player:rename', parsed.data.joinCode, callback, async (state) => ({
+        player: await playerModeration.rename(state, parsed.data.playerId, parsed.data.nickname),
+      }));
+    });
+
+    socket.on('player:mute', async (data: { joinCode: string; playerId: string; minutes: number }, callback) => {
+      const parsed = mutePlayerSchema.safeParse(data);
+      if (!parsed.success) {
+        callback?.({ success: false, error: parsed.error.errors[0]?.message || 'Invalid input' });
+        return;
+      }
+      await handleHostGameControl(socket, 'player:mute', parsed.data.joinCode, callback, async (state) => ({
+        player: await playerModeration.mute(state, parsed.data.playerId, parsed.data.minutes),
+      }));
+    });
+
+    socket.on('player:unmute', async (data: { joinCode: string; playerId: string }, callback) => {
+      const parsed = moderatePlayerSchema.safeParse(data);
+      if (!parsed.success) {
+        callback?.({ success: false, error: parsed.error.errors[0]?.message || 'Invalid input' });
+        return;
+      }
+      await handleHostGameControl(socket, 'player:unmute', parsed.data.joinCode, callback, async (state) => ({
+        player: await playerModeration.unmute(state, parsed.data.playerId),
+      }));
+    });
+
+    socket.on('host:transfer', async (data: { joinCode: string; playerId: string }, callback) => {
+      const parsed = moderatePlayerSchema.safeParse(data);
+      if (!parsed.success) {
+        callback?.({ success: false, error: parsed.error.errors[0]?.message || 'Invalid input' });
+        return;
+      }
+      await handleHostGameControl(socket, 'host:transfer', parsed.data.joinCode, callback, (state) =>
+        playerModeration.transferHost(state, parsed.data.playerId)
+      );
+    });
+
+    /**
+     * host-only: lock the session against new players (or unlock it); players
+     * already in it can still reconnect. broadcast as lobby:join_locked
+     */
+    socket.on('lobby:lock', async (data: { joinCode: string; locked: boolean }, callback) => {
+      const parsed = lockSessionSchema.safeParse(data);
+      if (!parsed.success) {
+        callback?.({ success: false, error: parsed.error.errors[0]?.message || 'Invalid input' });
+        return;
+      }
+      await handleHostGameControl(socket, 'lobby:lock', parsed.data.joinCode, callback, (state) =>
+        playerModeration.setJoinLocked(state, parsed.data.locked)
+      );
+    });
+
+    /**
+     * host-only, in the lobby of a team game: move a player to another team, or
+     * shuffle everyone into even teams. each change goes out as lobby:player_updated
+     */
+    socket.on('player:set_team', async (data: { joinCode: string; playerId: string; team: string }, callback) => {
+      const parsed = setTeamSchema.safeParse(data);
+      if (!parsed.success) {
+        callback?.({ success: false, error: parsed.error.errors[0]?.message || 'Invalid input' });
+        return;
+      }
+      await handleHostGameControl(socket, 'player:set_team', parsed.data.joinCode, callback, async (state) => ({
+        player: await playerModeration.setTeam(state, parsed.data.playerId, parsed.data.team),
+      }));
+    });
+
+    socket.on('lobby:balance_teams', async (data: { joinCode: string }, callback) => {
+      const parsed = balanceTeamsSchema.safeParse(data);
+      if (!parsed.success) {
+        callback?.({ success: false, error: parsed.error.errors[0]?.message || 'Invalid input' });
+        return;
+      }
+      await handleHostGameControl(socket, 'lobby:balance_teams', parsed.data.joinCode, callback, async (state) => ({
+        players: await playerModeration.balanceTeams(state),
+      }));
+    });
+
+    /**
+     * host review queue: flagged headlines and recent rejections, and approving
+     * a headline for everyone or hiding it from the feed and summaries
+     */
+    socket.on('moderation:get_queue', async (data: { joinCode: string }, callback) => {
+      await handleHostGameControl(socket, 'moderation:get_queue', data?.joinCode, callback, async (state) => ({
+        queue: await contentModeration.getReviewQueue(state.id),
+      }));
+    });
+
+    socket.on(
+      'moderation:review',
+      async (data: { joinCode: string; headlineId: string; decision: 'approve' | 'hide' }, callback) => {
+        const parsed = reviewHeadlineSchema.safeParse(data);
+        if (!parsed.success) {
+          callback?.({ success: false, error: parsed.error.errors[0]?.message || 'Invalid input' });
+          return;
+        }
+        await handleHostGameControl(socket, 'moderation:review', parsed.data.joinCode, callback, async (state) => ({
+          headline: await contentModeration.review(state, parsed.data.headlineId, parsed.data.decision),
+        }));
+      }
+    );
+
+    /**
+     * host-only: override the juror's plausibility level or primary planet on a
+     * scored headline; the corrected scores follow as leaderboard:update
+     */
+    socket.on(
+      'moderation:override',
+      async (
+        data: { joinCode: string; headlineId: string; plausibilityLevel?: number; primaryPlanet?: string },
+        callback
+      ) => {
+        const parsed = overrideHeadlineSchema.safeParse(data);
+        if (!parsed.success) {
+          callback?.({ success: false, error: parsed.error.errors[0]?.message || 'Invalid input' });
+          return;
+        }
+        const { joinCode, headlineId, plausibilityLevel, primaryPlanet } = parsed.data;
+        await handleHostGameControl(socket, 'moderation:override', joinCode, callback, async (state) => ({
+          headline: await contentModeration.override(state, headlineId, {
+            plausibilityLevel: plausibilityLevel as PlausibilityLevel | undefined,
+            primaryPlanet,
+          }),
+        }));
+      }
+    );
+
+    /**
+     * host-only: the spectator code for the projector link, and resetting it,
+     * which disconnects everyone watching with the old code
+     */
+    socket.on('spectator:get_code', async (data: { joinCode: string }, callback) => {
+      await handleHostGameControl(socket, 'spectator:get_code', data?.joinCode, callback, async (state) => ({
+        spectatorCode: await getSpectatorCode(state.id),
+      }));
+    });
+
+    socket.on('spectator:reset_code', async (data: { joinCode: string }, callback) => {
+      await handleHostGameControl(socket, 'spectator:reset_code', data?.joinCode, callback, async (state) => {
+        const spectatorCode = await resetSpectatorCode(state.id);
+
+        const spectatorRoom = getSpectatorRoomName(state.joinCode);
+        io.to(spectatorRoom).emit('spectator:revoked', { joinCode: state.joinCode });
+        io.in(spectatorRoom).disconnectSockets(true);
+
+        return { spectatorCode };
+      });
+    });
+
     /**
      * handle disconnection
      */
     socket.on('disconnect', () => {
-      const { joinCode, playerId } = socket.data;
+      const { joinCode, playerId, spectator } = socket.data;
+      const viewer = spectator ? 'spectator' : `player: ${playerId}`;
       console.log(
-        `Client disconnected: ${socket.id}${joinCode ? ` (session: ${joinCode}, player: ${playerId})` : ''}`
+        `Client disconnected: ${socket.id}${joinCode ? ` (session: ${joinCode}, ${viewer})` : ''}`
       );
 
       // note: we don't remove players from the database on disconnect.
@@ -489,21 +718,17 @@ export function setupLobbyHandlers(io: Server): void {
      * handle explicit leave
      */
     socket.on('lobby:leave', async () => {
-      const { joinCode } = socket.data;
+      const joinCode = await leaveCurrentSession(socket);
       if (joinCode) {
-        const roomName = getRoomName(joinCode);
-        await socket.leave(roomName);
-        socket.data.joinCode = undefined;
-        socket.data.playerId = undefined;
         console.log(`Socket ${socket.id} left lobby ${joinCode}`);
       }
     });
 
     /**
      * submit a headline (story direction).
-     * flow: validate -> fetch context -> llm evaluation -> dice roll -> store -> broadcast
+     * flow: validate -> store pending -> broadcast -> queue llm evaluation, dice roll and scoring
      */
-    socket.on('headline:submit', async (data: { joinCode: string; headline: string }, callback) => {
+    socket.on('headline:submit', async (data: { joinCode: string; headline: string; targetBand?: number }, callback) => {
       try {
         const { playerId } = socket.data;
 
@@ -529,7 +754,7 @@ export function setupLobbyHandlers(io: Server): void {
           throw err;
         }
 
-        const { joinCode, headline: storyDirection } = validatedData;
+        const { joinCode, headline: storyDirection, targetBand = null } = validatedData;
 
         const sessionState = await getSessionState(joinCode);
         if (!sessionState) {
@@ -559,194 +784,128 @@ export function setupLobbyHandlers(io: Server): void {
           return;
         }
 
-        // check rate limit
-        const rateLimitCheck = canSubmitHeadline(sessionState.id, playerId);
-        if (!rateLimitCheck.allowed) {
-          const remainingSecs = Math.ceil(rateLimitCheck.remainingMs / 1000);
+        if (sessionState.pausedAt) {
           callback?.({
             success: false,
-            error: `Please wait ${remainingSecs} seconds before submitting another headline`,
-            cooldownMs: rateLimitCheck.remainingMs,
+            error: 'The game is paused',
           });
           return;
         }
 
-        // fetch the most recent N headlines for juror context (rolling window),
-        // then restore chronological order so the prompt reads oldest -> newest
-        const existingHeadlinesResult = await pool.query(
-          `SELECT id, text FROM (
-             SELECT id, COALESCE(selected_headline, headline_text) AS text, created_at
-             FROM game_session_headlines
-             WHERE session_id = $1
-             ORDER BY created_at DESC
-             LIMIT $2
-           ) recent
-           ORDER BY created_at ASC`,
-          [sessionState.id, JUROR_HISTORY_WINDOW]
-        );
-        const headlinesList: HeadlineEntry[] = existingHeadlinesResult.rows.map((row) => ({
-          id: row.id,
-          text: row.text,
-        }));
+        if (player.mutedUntil && new Date(player.mutedUntil) > new Date(sessionState.serverNow)) {
+          callback?.({
+            success: false,
+            error: 'The host has muted you for now',
+            mutedUntil: player.mutedUntil,
+          });
+          return;
+        }
 
-        const planetList = getDefaultPlanets();
+        if (targetBand !== null && !sessionState.diceSettings.riskMode) {
+          callback?.({
+            success: false,
+            error: 'This game is not in risk mode',
+          });
+          return;
+        }
 
-        // call transformation service (llm evaluation + dice roll)
-        const transformResult = await transformHeadline({
+        // checked before the cooldown starts, so a refused player can rephrase straight away
+        const moderation = await contentModeration.checkStoryDirection({
+          sessionId: sessionState.id,
+          hostPlayerId: sessionState.hostPlayerId,
+          playerId,
+          playerNickname: player.nickname,
+          roundNo: sessionState.currentRound,
           storyDirection,
-          headlinesList,
-          planetList,
+          strictness: sessionState.moderationStrictness,
         });
+        if (moderation.decision === 'rejected') {
+          callback?.({
+            success: false,
+            error: `Your story direction was not accepted: it ${moderation.reason}`,
+            moderation: { status: 'rejected', reason: moderation.reason },
+          });
+          return;
+        }
+        const moderationStatus = moderation.decision === 'flagged' ? 'flagged' : 'approved';
 
-        // insert headline with all transformation data
-        const insertResult = await pool.query(
-          `INSERT INTO game_session_headlines (
-            session_id, player_id, round_no, headline_text,
-            dice_roll, selected_band, selected_headline,
-            band1_headline, band2_headline, band3_headline, band4_headline, band5_headline,
-            plausibility_level, plausibility_rationale,
-            planet_1, planet_2, planet_3,
-            linked_headlines, planet_rationales,
-            llm_model, llm_input_tokens, llm_output_tokens,
-            llm_request, llm_response,
-            llm_status, in_game_submitted_at
-          ) VALUES (
-            $1, $2, $3, $4,
-            $5, $6, $7,
-            $8, $9, $10, $11, $12,
-            $13, $14,
-            $15, $16, $17,
-            $18, $19,
-            $20, $21, $22,
-            $23, $24,
-            'evaluated', $25
-          )
-          RETURNING id, created_at, in_game_submitted_at`,
-          [
-            sessionState.id,
-            playerId,
-            sessionState.currentRound,
-            storyDirection,
-            transformResult.diceRoll,
-            transformResult.selectedBand,
-            transformResult.selectedHeadline,
-            transformResult.allBands.band1,
-            transformResult.allBands.band2,
-            transformResult.allBands.band3,
-            transformResult.allBands.band4,
-            transformResult.allBands.band5,
-            transformResult.plausibility.band,
-            transformResult.plausibility.rationale,
-            transformResult.planets.top3[0]?.id,
-            transformResult.planets.top3[1]?.id,
-            transformResult.planets.top3[2]?.id,
-            JSON.stringify(transformResult.linked),
-            JSON.stringify(transformResult.planets.top3),
-            transformResult.model,
-            transformResult.usage?.inputTokens,
-            transformResult.usage?.outputTokens,
-            JSON.stringify(transformResult.llmRequest),
-            transformResult.llmResponse,
-            sessionState.inGameNow,
-          ]
-        );
-
-        const insertedRow = insertResult.rows[0];
-
-        recordHeadlineSubmission(sessionState.id, playerId);
+        // check rate limit
+        const rateLimitCheck = await claimHeadlineSlot(sessionState.id, playerId);
+        if (!rateLimitCheck.allowed) {
+          const remainingSecs = Math.ceil(rateLimitCheck.remainingMs / 1000);
+          callback?.({
+            success: false,
+            error: `Please wait ${remainingSecs} seconds before submitting another headline`,
+            cooldownMs: rateLimitCheck.remainingMs,
+          });
+          return;
+        }
 
-        // build headline event payload
-        const headlineEvent = {
-          id: insertedRow.id,
+        const submission = {
           sessionId: sessionState.id,
           playerId,
           playerNickname: player.nickname,
           roundNo: sessionState.currentRound,
           storyDirection,
-          text: transformResult.selectedHeadline,
-          diceRoll: transformResult.diceRoll,
-          selectedBand: transformResult.selectedBand,
-          plausibilityBand: transformResult.plausibility.band,
-          plausibilityLabel: transformResult.plausibility.label,
-          planets: transformResult.planets.top3.map((p) => p.id),
-          allBands: transformResult.allBands,
-          createdAt: new Date(insertedRow.created_at).toISOString(),
-          inGameSubmittedAt: insertedRow.in_game_submitted_at
-            ? new Date(insertedRow.in_game_submitted_at).toISOString()
-            : null,
+          inGameNow: sessionState.inGameNow,
+          targetBand,
         };
 
-        // broadcast to all players in the session
-        const roomName = getRoomName(joinCode);
-        io.to(roomName).emit('headline:new', headlineEvent);
+        // accept now, evaluate in the background: the juror round-trip can take
+        // several seconds, so the story direction shows up greyed out until then
+        const insertedRow = await insertPendingHeadline(submission, {
+          status: moderationStatus,
+          reason: moderationStatus === 'flagged' ? moderation.reason : null,
+        });
+
+        const headlineEvent = buildHeadlineEvent(
+          insertedRow,
+          submission,
+          null,
+          'pending',
+          moderationStatus
+        );
+
+        // broadcast to all players in the session, or only to the author and host while flagged
+        const audience = moderationStatus === 'approved'
+          ? getRoomName(joinCode)
+          : await contentModeration.headlineAudience(sessionState, playerId, moderationStatus);
+        io.to(audience).emit('headline:pending', headlineEvent);
 
         callback?.({
           success: true,
           headline: headlineEvent,
           cooldownMs: HEADLINE_COOLDOWN_MS,
+          ...(moderationStatus === 'flagged' && {
+            moderation: { status: 'flagged', reason: moderation.reason },
+          }),
         });
 
         console.log(
           `Headline submitted by ${player.nickname} in session ${joinCode} ` +
-          `(round ${sessionState.currentRound}, dice: ${transformResult.diceRoll}, selected band: ${transformResult.selectedBand}, ` +
-          `plausibility: ${transformResult.plausibility.band} (${transformResult.plausibility.label}))\n` +
-          `  Band 1 (inevitable): ${transformResult.allBands.band1}\n` +
-          `  Band 2 (probable):   ${transformResult.allBands.band2}\n` +
-          `  Band 3 (plausible):  ${transformResult.allBands.band3}\n` +
-          `  Band 4 (possible):   ${transformResult.allBands.band4}\n` +
-          `  Band 5 (prepost.):   ${transformResult.allBands.band5}\n` +
-          `  >> Selected:         ${transformResult.selectedHeadline}`
+          `(round ${sessionState.currentRound}${moderationStatus === 'flagged' ? ', flagged for review' : ''}), ` +
+          `queued for evaluation`
         );
 
-        // apply scoring asynchronously (don't block the response)
-        try {
-          const uniqueOtherAuthors = await deriveUniqueOtherAuthorCount(
-            transformResult.linked,
-            sessionState.id,
-            playerId
-          );
-
-          const scoringResult = await applyHeadlineEvaluation({
-            sessionId: sessionState.id,
-            playerId,
-            headlineId: insertedRow.id,
-            plausibilityLevel: transformResult.plausibility.band as PlausibilityLevel,
-            selectedBand: transformResult.selectedBand as PlausibilityLevel,
-            uniqueOtherAuthors,
-            aiPlanetRankings: transformResult.planets.top3.map((p) => p.id),
-            roundNo: sessionState.currentRound,
-          });
-
-          const updatedBreakdowns = await getPlayerScoreBreakdowns(sessionState.id);
-
-          // broadcast updated leaderboard with breakdowns
-          io.to(roomName).emit('leaderboard:update', {
-            leaderboard: scoringResult.leaderboard.map((entry) => ({
-              ...entry,
-              scoreBreakdown: updatedBreakdowns.get(entry.playerId) ?? {
-                baseline: 0, plausibility: 0, connection: 0, planetBonus: 0,
-              },
-            })),
-            lastScoredHeadline: {
-              headlineId: insertedRow.id,
-              playerId,
-              breakdown: scoringResult.breakdown,
-              newTotalScore: scoringResult.newTotalScore,
-            },
-          });
-
-          console.log(
-            `Scoring for ${player.nickname}: ` +
-            `baseline=${scoringResult.breakdown.baseline} + ` +
-            `plausibility=${scoringResult.breakdown.plausibility} (band ${transformResult.plausibility.band}) + ` +
-            `connection=${scoringResult.breakdown.connectionScore} (${uniqueOtherAuthors} unique others) + ` +
-            `planet=${scoringResult.breakdown.planetBonus} ` +
-            `= +${scoringResult.breakdown.total} pts (total: ${scoringResult.newTotalScore})`
-          );
-        } catch (scoringError) {
-          console.error('Error applying scoring:', scoringError);
-          // don't fail the headline submission if scoring fails
-        }
+        headlineEvaluationQueue.submit({
+          id: insertedRow.id,
+          sessionId: sessionState.id,
+          joinCode,
+          playerId,
+          playerNickname: player.nickname,
+          roundNo: sessionState.currentRound,
+          storyDirection,
+          planetList: toJurorPlanets(sessionState.planets),
+          topic: sessionState.scenario.topic,
+          moderationStrictness: sessionState.moderationStrictness,
+          moderationStatus,
+          targetBand,
+          llmAttempts: 0,
+          createdAt: insertedRow.created_at,
+          inGameSubmittedAt: insertedRow.in_game_submitted_at,
+        }).catch((err) => {
+          console.error(`Failed to queue evaluation of headline ${insertedRow.id}:`, err);
+        });
       } catch (error) {
         console.error('Error in headline:submit:', error);
         callback?.({
@@ -781,78 +940,15 @@ export function setupLobbyHandlers(io: Server): void {
           return;
         }
 
-        // build query - optionally filter by round
-        let query = `
-          SELECT
-            h.id,
-            h.session_id,
-            h.player_id,
-            p.nickname as player_nickname,
-            h.round_no,
-            h.headline_text as story_direction,
-            COALESCE(h.selected_headline, h.headline_text) as text,
-            h.dice_roll,
-            h.selected_band,
-            h.plausibility_level,
-            h.planet_1,
-            h.planet_2,
-            h.planet_3,
-            h.band1_headline,
-            h.band2_headline,
-            h.band3_headline,
-            h.band4_headline,
-            h.band5_headline,
-            h.baseline_score,
-            h.plausibility_score,
-            h.others_story_score,
-            h.planet_bonus_score,
-            h.total_headline_score,
-            h.created_at,
-            h.in_game_submitted_at
-          FROM game_session_headlines h
-          JOIN session_players p ON h.player_id = p.id
-          WHERE h.session_id = $1
-        `;
-        const params: any[] = [sessionState.id];
-
-        if (roundNo !== undefined) {
-          query += ` AND h.round_no = $2`;
-          params.push(roundNo);
-        }
-
-        query += ` ORDER BY h.created_at ASC`;
-
-        const result = await pool.query(query, params);
-
-        const headlines = result.rows.map((row) => ({
-          id: row.id,
-          sessionId: row.session_id,
-          playerId: row.player_id,
-          playerNickname: row.player_nickname,
-          roundNo: row.round_no,
-          storyDirection: row.story_direction,
-          text: row.text,
-          diceRoll: row.dice_roll,
-          selectedBand: row.selected_band,
-          plausibilityBand: row.plausibility_level,
-          planets: [row.planet_1, row.planet_2, row.planet_3].filter(Boolean),
-          allBands: row.band1_headline ? {
-            band1: row.band1_headline,
-            band2: row.band2_headline,
-            band3: row.band3_headline,
-            band4: row.band4_headline,
-            band5: row.band5_headline,
-          } : null,
-          baselineScore: row.baseline_score ?? null,
-          plausibilityScore: row.plausibility_score ?? null,
-          connectionScore: row.others_story_score ?? null,
-          planetBonusScore: row.planet_bonus_score ?? null,
-          totalScore: row.total_headline_score ?? null,
-          createdAt: new Date(row.created_at).toISOString(),
-          inGameSubmittedAt: row.in_game_submitted_at
-            ? new Date(row.in_game_submitted_at).toISOString()
-            : null,
-        }));
+        // flagged and hidden headlines are only shown to their author and the host
+        const viewerId = socket.data.playerId;
+        const headlines = await fetchFeedHeadlines(sessionState.id, {
+          roundNo,
+          visibleTo: {
+            playerId: viewerId ?? null,
+            isHost: !!viewerId && viewerId === sessionState.hostPlayerId,
+          },
+        });
 
         callback?.({
           success: true,
@@ -867,6 +963,70 @@ export function setupLobbyHandlers(io: Server): void {
       }
     });
 
+    /**
+     * vote on another player's headline from the round just played (break only).
+     * the room gets headline:votes and, when scores move, leaderboard:update.
+     */
+    socket.on(
+      'headline:vote',
+      async (data: { joinCode: string; headlineId: string; vote: 'up' | 'star' | null }, callback) => {
+        try {
+          const { playerId } = socket.data;
+
+          if (!playerId) {
+            callback?.({
+              success: false,
+              error: 'Not authenticated - please join a lobby first',
+            });
+            return;
+          }
+
+          let validatedData;
+          try {
+            validatedData = voteHeadlineSchema.parse(data);
+          } catch (err) {
+            if (err instanceof ZodError) {
+              callback?.({
+                success: false,
+                error: err.errors[0]?.message || 'Invalid input',
+              });
+              return;
+            }
+            throw err;
+          }
+
+          const { joinCode, headlineId, vote } = validatedData;
+
+          const sessionState = await getSessionState(joinCode);
+          if (!sessionState) {
+            callback?.({
+              success: false,
+              error: 'Session not found',
+            });
+            return;
+          }
+
+          const result = await headlineVoting.vote(sessionState, playerId, headlineId, vote);
+
+          callback?.({ success: true, ...result });
+        } catch (error) {
+          if (error instanceof VotingError) {
+            callback?.({
+              success: false,
+              error: error.message,
+              code: error.code,
+            });
+            return;
+          }
+          console.error('Error in headline:vote:', error);
+          callback?.({
+            success: false,
+            error: 'Failed to record vote',
+          });
+        }
+      }
+    );
+
     /**
      * get round summary (for reconnecting clients)
      */
@@ -0,0 +1,46 @@
+/**
+ * socket.io handshake authentication.
+ *
+ * clients pass their player token as `auth: { token }`. a valid token puts its
+ * claims on socket.data.auth; lobby:join then takes the player id from there.
+ * sockets without a token still connect (the landing pages need one) but can't
+ * join a lobby. a bad or revoked token fails the handshake with a connect_error
+ * whose data.code says why.
+ */
+
+import type { ExtendedError, Socket } from 'socket.io';
+import { authenticatePlayerToken } from '../auth/playerCredentials.js';
+import { SessionTokenError } from '../auth/sessionTokens.js';
+
+/** per-player room, so revocation can reach every socket a player has open */
+export function getPlayerRoomName(playerId: string): string {
+  return `player:${playerId}`;
+}
+
+export async function authenticateSocket(
+  socket: Socket,
+  next: (err?: ExtendedError) => void
+): Promise<void> {
+  const token: unknown = socket.handshake.auth?.token;
+  if (token === undefined || token === null || token === '') {
+    next();
+    return;
+  }
+
+  try {
+    if (typeof token !== 'string') {
+      throw new SessionTokenError('Malformed session token', 'INVALID_TOKEN');
+    }
+    socket.data.auth = await authenticatePlayerToken(token);
+    next();
+  } catch (error) {
+    if (error instanceof SessionTokenError) {
+      const err: ExtendedError = new Error(error.message);
+      err.data = { code: error.code };
+      next(err);
+      return;
+    }
+    console.error('Error authenticating socket:', error);
+    next(new Error('Authentication failed'));
+  }
+}
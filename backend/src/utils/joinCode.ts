@@ -2,14 +2,16 @@ import pool from '../db/pool.js';
 
 const CHARACTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
 const CODE_LENGTH = 6;
+// longer than a join code, so one can't be mistaken for the other
+const SPECTATOR_CODE_LENGTH = 8;
 const MAX_RETRIES = 3;
 
 /**
  * generates a random alphanumeric code
  */
-function generateRandomCode(): string {
+function generateRandomCode(length: number = CODE_LENGTH): string {
   let code = '';
-  for (let i = 0; i < CODE_LENGTH; i++) {
+  for (let i = 0; i < length; i++) {
     const randomIndex = Math.floor(Math.random() * CHARACTERS.length);
     code += CHARACTERS[randomIndex];
   }
@@ -17,11 +19,11 @@ function generateRandomCode(): string {
 }
 
 /**
- * checks if a join code already exists in the database
+ * checks if a join (or spectator) code already exists in the database
  */
-async function isCodeUnique(code: string): Promise<boolean> {
+async function isCodeUnique(code: string, column: 'join_code' | 'spectator_code' = 'join_code'): Promise<boolean> {
   const result = await pool.query(
-    'SELECT 1 FROM game_sessions WHERE join_code = $1',
+    `SELECT 1 FROM game_sessions WHERE ${column} = $1`,
     [code]
   );
   return result.rows.length === 0;
@@ -45,3 +47,22 @@ export async function generateUniqueJoinCode(): Promise<string> {
   throw new Error('Failed to generate unique join code after max retries');
 }
 
+
+
+/**
+ * generates a unique spectator code, retrying if necessary
+ */
+export async function generateUniqueSpectatorCode(): Promise<string> {
+  for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
+    const code = generateRandomCode(SPECTATOR_CODE_LENGTH);
+    const unique = await isCodeUnique(code, 'spectator_code');
+
+    if (unique) {
+      return code;
+    }
+
+    console.warn(`Spectator code collision detected: ${code}, retrying...`);
+  }
+
+  throw new Error('Failed to generate unique spectator code after max retries');
+}
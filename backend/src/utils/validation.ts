@@ -1,4 +1,15 @@
 import { z } from 'zod';
+import { DEFAULT_GAME_SETTINGS } from '../game/gameSettings.js';
+import { PLANET_COLORS, PLANET_PACKS, MIN_PLANETS, MAX_PLANETS } from '../game/planets.js';
+import { MODERATION_STRICTNESS_LEVELS, ModerationStrictness } from '../moderation/moderationProvider.js';
+import { CATCH_UP_MODES, CatchUpMode } from '../game/lateJoin.js';
+import { MIN_TEAMS, MAX_TEAMS, MAX_TEAM_NAME_LENGTH } from '../game/teams.js';
+import { SCORING_PRESET_IDS, ScoringPresetId } from '../game/scoringRules.js';
+import { DICE_PRESET_IDS, DicePresetId } from '../game/diceDistribution.js';
+import { MAX_VOTE_POINTS, MAX_VOTES_PER_BREAK } from '../game/headlineVoting.js';
+import { PromptKind, findPromptVariant } from '../llm/promptRegistry.js';
+import { MIN_TOKEN_BUDGET, MAX_TOKEN_BUDGET, MAX_USAGE_DAYS } from '../llm/usageLedger.js';
+import { JUROR_RATER, MAX_TASK_ITEMS, MAX_TASK_RATERS, RATER_CODE_LENGTH } from '../rating/ratingTasks.js';
 
 // nickname validation schema
 export const nicknameSchema = z
@@ -17,15 +28,460 @@ export const joinCodeSchema = z
   .length(6, 'Join code must be exactly 6 characters')
   .regex(/^[A-Z0-9]+$/, 'Join code must contain only uppercase letters and numbers');
 
+// read-only code for spectators (the projector view); longer than a join code
+export const spectatorCodeSchema = z
+  .string()
+  .length(8, 'Spectator code must be exactly 8 characters')
+  .regex(/^[A-Z0-9]+$/, 'Spectator code must contain only uppercase letters and numbers');
+
+// host-configurable game settings; anything left out falls back to DEFAULT_GAME_SETTINGS
+export const gameSettingsSchema = z
+  .object({
+    maxRounds: z.number().int().min(1, 'At least 1 round').max(10, 'At most 10 rounds').optional(),
+    playMinutes: z.number().int().min(1, 'Rounds must be at least 1 minute').max(60, 'Rounds must be at most 60 minutes').optional(),
+    breakSchedule: z.array(z.number().int().min(1, 'Breaks must be at least 1 minute').max(30, 'Breaks must be at most 30 minutes')).optional(),
+    summaryRounds: z.array(z.number().int().min(1)).optional(),
+    startYear: z.number().int().min(1900).max(2500).nullable().optional(),
+    totalYears: z.number().min(1, 'Timeline must span at least 1 year').max(200, 'Timeline must span at most 200 years').optional(),
+  })
+  .superRefine((val, ctx) => {
+    const breakCount = (val.maxRounds ?? DEFAULT_GAME_SETTINGS.maxRounds) - 1;
+    if (val.breakSchedule && val.breakSchedule.length !== breakCount) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['breakSchedule'],
+        message: `Break schedule must have ${breakCount} entries (one per break between rounds)`,
+      });
+    }
+    if (val.summaryRounds?.some((r) => r > breakCount)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['summaryRounds'],
+        message: 'Summaries can only follow a round that has a break after it',
+      });
+    }
+  });
+
+// one planet of a host's custom set
+export const planetDefinitionSchema = z.object({
+  id: z
+    .string()
+    .trim()
+    .min(1, 'Planet id cannot be empty')
+    .max(24, 'Planet id must be at most 24 characters')
+    .regex(/^[A-Za-z0-9_]+$/, 'Planet id can only contain letters, numbers and underscores')
+    .transform((val) => val.toUpperCase()),
+  description: z
+    .string()
+    .trim()
+    .min(1, 'Planet description cannot be empty')
+    .max(400, 'Planet description must be at most 400 characters'),
+  tags: z
+    .array(z.string().trim().min(1).max(30, 'Tags must be at most 30 characters'))
+    .max(6, 'At most 6 tags per planet')
+    .optional(),
+  color: z.enum(PLANET_COLORS).optional(),
+});
+
+// the planets a session plays with: a built-in pack, or a custom set; defaults to classic
+export const planetSetSchema = z
+  .object({
+    pack: z
+      .string()
+      .refine((id) => PLANET_PACKS.some((p) => p.id === id), 'Unknown planet pack')
+      .optional(),
+    planets: z
+      .array(planetDefinitionSchema)
+      .min(MIN_PLANETS, `A planet set needs at least ${MIN_PLANETS} planets`)
+      .max(MAX_PLANETS, `A planet set can have at most ${MAX_PLANETS} planets`)
+      .optional(),
+  })
+  .superRefine((val, ctx) => {
+    if (val.pack && val.planets) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['planets'],
+        message: 'Choose a planet pack or custom planets, not both',
+      });
+    }
+    const ids = val.planets?.map((p) => p.id) ?? [];
+    if (new Set(ids).size !== ids.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['planets'],
+        message: 'Planet ids must be unique',
+      });
+    }
+  });
+
+// scenario pack ids are url-safe slugs
+export const scenarioIdSchema = z
+  .string()
+  .regex(
+    /^[a-z0-9][a-z0-9-]{1,39}$/,
+    'Scenario id must be 2-40 lowercase letters, numbers and hyphens'
+  );
+
+// one dated seed headline of a scenario pack; dates are YYYY-MM
+const seedHeadlineSchema = z
+  .object({
+    text: z.string().trim().min(1, 'Seed headline cannot be empty').max(280, 'Seed headlines must be at most 280 characters'),
+    date: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Seed headline dates must be YYYY-MM'),
+  })
+  .transform(({ text, date }) => ({
+    text,
+    inGameYear: parseInt(date.slice(0, 4), 10),
+    inGameMonth: parseInt(date.slice(5, 7), 10),
+  }));
+
+// a scenario pack file (json or yaml); seeds are sorted oldest first
+export const scenarioPackSchema = z.object({
+  id: scenarioIdSchema,
+  name: z.string().trim().min(1, 'Scenario name cannot be empty').max(60, 'Scenario name must be at most 60 characters'),
+  description: z.string().trim().max(280, 'Scenario description must be at most 280 characters').default(''),
+  topic: z.object({
+    subject: z.string().trim().min(1, 'Topic subject cannot be empty').max(40, 'Topic subject must be at most 40 characters'),
+    framing: z.string().trim().min(1, 'Topic framing cannot be empty').max(200, 'Topic framing must be at most 200 characters'),
+  }),
+  seedHeadlines: z
+    .array(seedHeadlineSchema)
+    .min(1, 'A scenario needs at least 1 seed headline')
+    .max(60, 'A scenario can have at most 60 seed headlines')
+    .transform((seeds) =>
+      [...seeds].sort((a, b) => a.inGameYear - b.inGameYear || a.inGameMonth - b.inGameMonth)
+    ),
+  planetSet: planetSetSchema.default({}),
+  startYear: z.number().int().min(1900).max(2500).nullable().default(null),
+});
+
+// dice band weights: whole percents, band 1 first, summing to 100
+const diceWeightSchema = z
+  .number()
+  .int('Dice weights must be whole percents')
+  .min(0, 'Dice weights cannot be negative')
+  .max(100, 'Dice weights must be at most 100');
+
+const diceWeightsSchema = z
+  .tuple([diceWeightSchema, diceWeightSchema, diceWeightSchema, diceWeightSchema, diceWeightSchema])
+  .refine((weights) => weights.reduce((sum, weight) => sum + weight, 0) === 100, 'Dice weights must add up to 100');
+
+const dicePresetIdSchema = z.enum(DICE_PRESET_IDS as [DicePresetId, ...DicePresetId[]]);
+
+// the session's dice: a preset, weights if the host tuned them, and risk mode
+export const diceSettingsSchema = z.object({
+  preset: dicePresetIdSchema.optional(),
+  weights: diceWeightsSchema.optional(),
+  riskMode: z.boolean().optional(),
+});
+
+// how strictly story directions and generated headlines are moderated
+export const moderationStrictnessSchema = z.enum(
+  MODERATION_STRICTNESS_LEVELS as [ModerationStrictness, ...ModerationStrictness[]]
+);
+
+// team names for a team game: 2-8, unique ignoring case
+export const teamNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Team name cannot be empty')
+  .max(MAX_TEAM_NAME_LENGTH, `Team name must be at most ${MAX_TEAM_NAME_LENGTH} characters`);
+
+export const teamsSchema = z
+  .array(teamNameSchema)
+  .min(MIN_TEAMS, `A team game needs at least ${MIN_TEAMS} teams`)
+  .max(MAX_TEAMS, `At most ${MAX_TEAMS} teams`)
+  .refine(
+    (teams) => new Set(teams.map((team) => team.toLowerCase())).size === teams.length,
+    'Team names must be unique'
+  );
+
+// scoring rules: a preset, and any points the host tuned
+const scoringPointsSchema = z
+  .number()
+  .int('Points must be whole numbers')
+  .min(0, 'Points cannot be negative')
+  .max(50, 'Points must be at most 50');
+
+const plausibilityLevelSchema = z.number().int().min(1).max(5) as z.ZodType<1 | 2 | 3 | 4 | 5>;
+
+export const scoringRulesSchema = z.object({
+  preset: z.enum(SCORING_PRESET_IDS as [ScoringPresetId, ...ScoringPresetId[]]).optional(),
+  baseline: scoringPointsSchema.optional(),
+  plausibility: z
+    .object({
+      targetLevel: plausibilityLevelSchema.optional(),
+      nearLevels: z.array(plausibilityLevelSchema).max(4).optional(),
+      exactTarget: scoringPointsSchema.optional(),
+      nearTarget: scoringPointsSchema.optional(),
+      other: scoringPointsSchema.optional(),
+    })
+    .optional(),
+  connectionScale: z
+    .tuple([scoringPointsSchema, scoringPointsSchema, scoringPointsSchema, scoringPointsSchema])
+    .optional(),
+  planetBandPoints: z.tuple([scoringPointsSchema, scoringPointsSchema, scoringPointsSchema]).optional(),
+  riskBetPoints: z
+    .tuple([scoringPointsSchema, scoringPointsSchema, scoringPointsSchema, scoringPointsSchema, scoringPointsSchema])
+    .optional(),
+});
+
+// player voting in the breaks; anything left out keeps its default
+const votePointsSchema = z
+  .number()
+  .int('Points must be whole numbers')
+  .min(0, 'Points cannot be negative')
+  .max(MAX_VOTE_POINTS, `Points must be at most ${MAX_VOTE_POINTS}`);
+
+const votesPerBreakSchema = z
+  .number()
+  .int('Votes must be whole numbers')
+  .min(0, 'Votes cannot be negative')
+  .max(MAX_VOTES_PER_BREAK, `At most ${MAX_VOTES_PER_BREAK} votes per break`);
+
+export const votingSchema = z.object({
+  enabled: z.boolean().optional(),
+  upvotePoints: votePointsSchema.optional(),
+  starPoints: votePointsSchema.optional(),
+  upvotesPerBreak: votesPerBreakSchema.optional(),
+  starsPerBreak: votesPerBreakSchema.optional(),
+});
+
+// prompt a/b: a registered variant per prompt kind, for all or a fraction of the calls
+function promptAssignmentSchema(kind: PromptKind) {
+  return z.object({
+    variant: z
+      .string()
+      .refine((id) => findPromptVariant(id)?.kind === kind, `Not a ${kind} prompt variant`),
+    fraction: z.number().min(0, 'Fraction must be between 0 and 1').max(1, 'Fraction must be between 0 and 1').optional(),
+  });
+}
+
+export const promptExperimentSchema = z.object({
+  juror: promptAssignmentSchema('juror').optional(),
+  summary: promptAssignmentSchema('summary').optional(),
+  narrative: promptAssignmentSchema('narrative').optional(),
+});
+
+// a session's llm token budget (input plus output tokens)
+export const tokenBudgetSchema = z
+  .number()
+  .int()
+  .min(MIN_TOKEN_BUDGET, `Token budget must be at least ${MIN_TOKEN_BUDGET}`)
+  .max(MAX_TOKEN_BUDGET, `Token budget must be at most ${MAX_TOKEN_BUDGET}`);
+
+// an exported session (see game/sessionArchive.ts); format and version are checked before this
+const archiveTimestamp = z.string().datetime({ offset: true });
+const archiveScore = z.number().int().nullable();
+
+const archivePlayerSchema = z.object({
+  id: z.string().uuid(),
+  nickname: z.string().min(1).max(20),
+  isHost: z.boolean(),
+  isSystem: z.boolean(),
+  joinedAt: archiveTimestamp,
+  totalScore: z.number().int(),
+  planetUsageState: z.unknown(),
+  // late joins; version 1 archives have none
+  joinedRound: z.number().int().min(0).nullable().default(null),
+  catchUpScore: z.number().int().default(0),
+  // team mode; archives before version 3 have none
+  team: teamNameSchema.nullable().default(null),
+});
+
+const archiveHeadlineSchema = z.object({
+  id: z.string().uuid(),
+  playerId: z.string().uuid(),
+  roundNo: z.number().int().min(0),
+  storyDirection: z.string(),
+  createdAt: archiveTimestamp,
+  inGameSubmittedAt: archiveTimestamp.nullable(),
+  llmStatus: z.string().max(20).nullable(),
+  diceRoll: z.number().int().min(0).max(100).nullable(),
+  selectedBand: z.number().int().min(1).max(5).nullable(),
+  selectedHeadline: z.string().nullable(),
+  bandHeadlines: z.array(z.string().nullable()).length(5),
+  plausibilityLevel: z.number().int().min(1).max(5).nullable(),
+  plausibilityRationale: z.string().nullable(),
+  planets: z.array(z.string().max(32)).max(3),
+  planetRationales: z.array(z.unknown()),
+  linkedHeadlines: z.array(z.unknown()),
+  scores: z.object({
+    baseline: archiveScore,
+    plausibility: archiveScore,
+    selfStoryConnection: z.string().max(8).nullable(),
+    selfStory: archiveScore,
+    othersStoryConnection: z.string().max(8).nullable(),
+    othersStory: archiveScore,
+    planetBonus: archiveScore,
+    // archives exported before risk mode have none
+    riskBonus: archiveScore.default(null),
+    total: archiveScore,
+  }),
+  llm: z.object({
+    model: z.string().max(64).nullable(),
+    inputTokens: archiveScore,
+    outputTokens: archiveScore,
+    attempts: z.number().int().min(0),
+    error: z.string().nullable(),
+    request: z.unknown(),
+    response: z.unknown(),
+    // archives exported before prompt versioning have none
+    promptVersion: z.string().max(40).nullable().default(null),
+  }),
+  // archives exported before content moderation have none
+  moderation: z
+    .object({
+      status: z.enum(['approved', 'flagged', 'hidden']),
+      reason: z.string().nullable(),
+    })
+    .default({ status: 'approved', reason: null }),
+  // the roll's derivation inputs and risk-mode bet; none for unseeded rolls and older archives
+  dice: z
+    .object({
+      sequence: z.number().int().min(1).nullable(),
+      algorithm: z.string().max(20).nullable(),
+      targetBand: z.number().int().min(1).max(5).nullable().default(null),
+    })
+    .default({ sequence: null, algorithm: null, targetBand: null }),
+});
+
+const archiveTransitionSchema = z.object({
+  fromPhase: z.string().max(16),
+  toPhase: z.string().max(16),
+  roundNo: z.number().int(),
+  occurredAt: archiveTimestamp,
+  action: z.string().max(16).nullable(),
+  details: z.unknown(),
+});
+
+const archiveSummarySchema = z.object({
+  roundNo: z.number().int(),
+  summaryType: z.string().max(20),
+  status: z.enum(['pending', 'generating', 'completed', 'error']),
+  summary: z.unknown(),
+  error: z.string().nullable(),
+  llm: z.object({
+    model: z.string().max(64).nullable(),
+    inputTokens: archiveScore,
+    outputTokens: archiveScore,
+    request: z.unknown(),
+    response: z.string().nullable(),
+    promptVersion: z.string().max(40).nullable().default(null),
+  }),
+  createdAt: archiveTimestamp,
+  completedAt: archiveTimestamp.nullable(),
+});
+
+// a break-time vote, its points as they were added to the author's score
+const archiveVoteSchema = z.object({
+  headlineId: z.string().uuid(),
+  voterId: z.string().uuid(),
+  authorId: z.string().uuid(),
+  roundNo: z.number().int().min(0),
+  kind: z.enum(['up', 'star']),
+  points: z.number().int(),
+  createdAt: archiveTimestamp,
+});
+
+export const sessionArchiveSchema = z.object({
+  format: z.string(),
+  version: z.number().int(),
+  exportedAt: archiveTimestamp,
+  session: z.object({
+    joinCode: joinCodeSchema,
+    phase: z.string().max(16),
+    currentRound: z.number().int().min(0),
+    createdAt: archiveTimestamp,
+    settings: z.object({
+      maxRounds: z.number().int().min(1),
+      playMinutes: z.number().int().min(1),
+      breakSchedule: z.array(z.number().int()),
+      summaryRounds: z.array(z.number().int()),
+      startYear: z.number().int().nullable(),
+      totalYears: z.number().positive(),
+    }),
+    timelineSpeedRatio: z.number(),
+    inGameStartAt: archiveTimestamp.nullable(),
+    planetSet: z.object({
+      pack: z.string(),
+      planets: z.array(
+        z.object({ id: z.string(), description: z.string(), tags: z.array(z.string()), color: z.string() })
+      ),
+    }),
+    scenario: z.unknown(),
+    planetUsageGlobal: z.record(z.number()),
+    // the dice seed commitment, and the seed once the game is over
+    dice: z
+      .object({
+        algorithm: z.string().max(20),
+        seedHash: z.string().regex(/^[0-9a-f]{64}$/),
+        seed: z.string().max(64).nullable(),
+      })
+      .nullable()
+      .default(null),
+    // the dice distribution; archives exported before it have none (standard)
+    diceSettings: z
+      .object({
+        preset: dicePresetIdSchema,
+        tuned: z.boolean(),
+        weights: diceWeightsSchema,
+        riskMode: z.boolean(),
+      })
+      .nullable()
+      .default(null),
+    // team names, [] for a game without teams (and archives before version 3)
+    teams: z.array(teamNameSchema).max(MAX_TEAMS).default([]),
+    // the session's scoring; archives before version 4 have none (classic)
+    scoring: z
+      .object({
+        preset: z.enum(SCORING_PRESET_IDS as [ScoringPresetId, ...ScoringPresetId[]]),
+        tuned: z.boolean(),
+        rules: scoringRulesSchema.omit({ preset: true }),
+      })
+      .nullable()
+      .default(null),
+    // the voting policy; archives before version 5 have none (the defaults)
+    voting: votingSchema.required().nullable().default(null),
+  }),
+  players: z.array(archivePlayerSchema).min(1),
+  headlines: z.array(archiveHeadlineSchema),
+  // archives before version 5 have none
+  votes: z.array(archiveVoteSchema).default([]),
+  transitions: z.array(archiveTransitionSchema),
+  summaries: z.array(archiveSummarySchema),
+});
+
 // request body schemas
+// whether players may join after the start, and the score they start with
+export const lateJoinSchema = z.object({
+  allowed: z.boolean().optional(),
+  catchUp: z.enum(CATCH_UP_MODES as [CatchUpMode, ...CatchUpMode[]]).optional(),
+});
+
 export const createSessionSchema = z.object({
   hostNickname: nicknameSchema,
+  settings: gameSettingsSchema.optional(),
+  planetSet: planetSetSchema.optional(),
+  scenario: scenarioIdSchema.optional(),
+  moderationStrictness: moderationStrictnessSchema.optional(),
+  lateJoin: lateJoinSchema.optional(),
+  teams: teamsSchema.optional(),
+  scoring: scoringRulesSchema.optional(),
+  dice: diceSettingsSchema.optional(),
+  voting: votingSchema.optional(),
+  prompts: promptExperimentSchema.optional(),
+  tokenBudget: tokenBudgetSchema.optional(),
 });
 
 export const joinSessionSchema = z.object({
   nickname: nicknameSchema,
 });
 
+export const rejoinSessionSchema = z.object({
+  nickname: nicknameSchema,
+  recoveryCode: z.string().trim().min(1, 'Recovery code is required').max(20),
+});
+
 // headline validation schema
 export const headlineSchema = z
   .string()
@@ -36,9 +492,155 @@ export const headlineSchema = z
 export const submitHeadlineSchema = z.object({
   joinCode: joinCodeSchema,
   headline: headlineSchema,
+  // the band bet on in risk mode
+  targetBand: plausibilityLevelSchema.optional(),
+});
+
+// a player's vote on another player's headline during a break; null takes it back
+export const voteHeadlineSchema = z.object({
+  joinCode: joinCodeSchema,
+  headlineId: z.string().min(1, 'Missing headlineId'),
+  vote: z.enum(['up', 'star']).nullable(),
+});
+
+// host control: add time to the current phase
+export const extendPhaseSchema = z.object({
+  joinCode: joinCodeSchema,
+  minutes: z
+    .number()
+    .positive('Extension must be a positive number of minutes')
+    .max(30, 'Extension must be at most 30 minutes'),
+});
+
+// host moderation of another player
+export const moderatePlayerSchema = z.object({
+  joinCode: joinCodeSchema,
+  playerId: z.string().min(1, 'Missing playerId'),
 });
 
+export const kickPlayerSchema = moderatePlayerSchema.extend({
+  ban: z.boolean().default(false),
+});
+
+export const renamePlayerSchema = moderatePlayerSchema.extend({
+  nickname: nicknameSchema,
+});
+
+// host control: refuse (or again accept) new players
+export const lockSessionSchema = z.object({
+  joinCode: joinCodeSchema,
+  locked: z.boolean(),
+});
+
+export const setTeamSchema = moderatePlayerSchema.extend({
+  team: teamNameSchema,
+});
+
+export const balanceTeamsSchema = z.object({
+  joinCode: joinCodeSchema,
+});
+
+export const mutePlayerSchema = moderatePlayerSchema.extend({
+  minutes: z
+    .number()
+    .int('Mute for a whole number of minutes')
+    .min(1, 'Mute for at least 1 minute')
+    .max(120, 'Mute for at most 120 minutes'),
+});
+
+// host review of a flagged (or any) headline
+export const reviewHeadlineSchema = z.object({
+  joinCode: joinCodeSchema,
+  headlineId: z.string().min(1, 'Missing headlineId'),
+  decision: z.enum(['approve', 'hide']),
+});
+
+// host correction of the juror's verdict on a scored headline
+export const overrideHeadlineSchema = z
+  .object({
+    joinCode: joinCodeSchema,
+    headlineId: z.string().min(1, 'Missing headlineId'),
+    plausibilityLevel: z.number().int().min(1).max(5).optional(),
+    primaryPlanet: z.string().min(1).max(40).optional(),
+  })
+  .refine((body) => body.plausibilityLevel !== undefined || body.primaryPlanet !== undefined, {
+    message: 'Give a plausibilityLevel or a primaryPlanet',
+  });
+
+// admin score replay: the session's own rules unless a preset or points are given
+export const replayScoresSchema = z.object({
+  joinCode: joinCodeSchema,
+  scoring: scoringRulesSchema.optional(),
+});
+
+// admin rating task: which headlines to sample and who rates them
+export const createRatingTaskSchema = z.object({
+  name: z.string().trim().min(1, 'Name the task').max(80),
+  raters: z
+    .array(z.string().trim().min(1).max(40))
+    .min(1, 'Name at least one rater')
+    .max(MAX_TASK_RATERS, `At most ${MAX_TASK_RATERS} raters`)
+    .refine((names) => new Set(names.map((n) => n.toLowerCase())).size === names.length, {
+      message: 'Rater names must be unique',
+    })
+    .refine((names) => !names.some((n) => n.toLowerCase() === JUROR_RATER.toLowerCase()), {
+      message: `"${JUROR_RATER}" is reserved for the juror`,
+    }),
+  sample: z
+    .object({
+      sampleSize: z.number().int().min(1).max(MAX_TASK_ITEMS).optional(),
+      perLevel: z.number().int().min(1).max(Math.floor(MAX_TASK_ITEMS / 5)).optional(),
+      joinCodes: z.array(joinCodeSchema).max(50).optional(),
+      since: z.string().datetime({ offset: true }).optional(),
+    })
+    .refine((sample) => sample.sampleSize !== undefined || sample.perLevel !== undefined, {
+      message: 'Give a sampleSize or a perLevel',
+    }),
+});
+
+export const ratingTaskIdSchema = z.string().uuid('Unknown rating task');
+
+// a rater's link code (see rating/ratingTasks.ts)
+export const raterCodeSchema = z
+  .string()
+  .length(RATER_CODE_LENGTH, 'Unknown rating link')
+  .regex(/^[A-Z0-9]+$/, 'Unknown rating link');
+
+export const saveRatingSchema = z.object({
+  raterCode: raterCodeSchema,
+  itemId: z.string().uuid('Unknown item'),
+  level: plausibilityLevelSchema,
+});
+
+// admin llm usage: model prices in usd per million tokens, budgets, report window
+export const modelPriceSchema = z.object({
+  inputPerMillion: z.number().min(0).max(10_000),
+  outputPerMillion: z.number().min(0).max(10_000),
+});
+
+export const modelNameSchema = z.string().trim().min(1, 'Name the model').max(64);
+
+export const setTokenBudgetSchema = z.object({
+  budget: tokenBudgetSchema.nullable(),
+});
+
+export const usageDaysSchema = z.coerce.number().int().min(1).max(MAX_USAGE_DAYS);
+
+export type GameSettingsBody = z.infer<typeof gameSettingsSchema>;
+export type PlanetSetBody = z.infer<typeof planetSetSchema>;
+export type ScenarioPackBody = z.infer<typeof scenarioPackSchema>;
+export type SessionArchiveBody = z.infer<typeof sessionArchiveSchema>;
 export type CreateSessionBody = z.infer<typeof createSessionSchema>;
 export type JoinSessionBody = z.infer<typeof joinSessionSchema>;
+export type RejoinSessionBody = z.infer<typeof rejoinSessionSchema>;
 export type SubmitHeadlineBody = z.infer<typeof submitHeadlineSchema>;
+export type VoteHeadlineBody = z.infer<typeof voteHeadlineSchema>;
+export type KickPlayerBody = z.infer<typeof kickPlayerSchema>;
+export type RenamePlayerBody = z.infer<typeof renamePlayerSchema>;
+export type MutePlayerBody = z.infer<typeof mutePlayerSchema>;
+export type LockSessionBody = z.infer<typeof lockSessionSchema>;
+export type ReviewHeadlineBody = z.infer<typeof reviewHeadlineSchema>;
+export type OverrideHeadlineBody = z.infer<typeof overrideHeadlineSchema>;
+export type ReplayScoresBody = z.infer<typeof replayScoresSchema>;
+export type CreateRatingTaskBody = z.infer<typeof createRatingTaskSchema>;
 
@@ -0,0 +1,204 @@
+import {
+  signPlayerToken,
+  verifyPlayerToken,
+  generateRecoveryCode,
+  hashRecoveryCode,
+  recoveryCodeMatches,
+  SessionTokenError,
+} from '../../src/auth/sessionTokens';
+import {
+  issuePlayerCredentials,
+  authenticatePlayerToken,
+  recoverPlayer,
+  revokePlayerCredentials,
+} from '../../src/auth/playerCredentials';
+import { authenticateSocket } from '../../src/socket/socketAuth';
+import pool from '../../src/db/pool';
+
+jest.mock('../../src/db/pool', () => ({
+  __esModule: true,
+  default: {
+    query: jest.fn(),
+  },
+}));
+
+const PLAYER = { sessionId: 'session-1', joinCode: 'ABC123', playerId: 'player-1' };
+
+describe('player tokens', () => {
+  it('round-trips the claims', () => {
+    const claims = verifyPlayerToken(signPlayerToken({ ...PLAYER, version: 2 }));
+
+    expect(claims).toMatchObject({ ...PLAYER, version: 2 });
+    expect(typeof claims.issuedAt).toBe('number');
+  });
+
+  it('rejects a token whose claims were edited', () => {
+    const [, signature] = signPlayerToken({ ...PLAYER, version: 0 }).split('.');
+    const forged = Buffer.from(JSON.stringify({ ...PLAYER, playerId: 'player-2', version: 0, issuedAt: 0 }))
+      .toString('base64url');
+
+    expect(() => verifyPlayerToken(`${forged}.${signature}`)).toThrow(
+      expect.objectContaining({ code: 'INVALID_TOKEN' })
+    );
+  });
+
+  it.each(['', 'nodot', 'a.b.c', 'a.b'])('rejects malformed token %p', (token) => {
+    expect(() => verifyPlayerToken(token)).toThrow(SessionTokenError);
+  });
+});
+
+describe('recovery codes', () => {
+  it('are formatted XXXX-XXXX without lookalike characters', () => {
+    for (let i = 0; i < 20; i++) {
+      expect(generateRecoveryCode()).toMatch(/^[A-HJ-NP-Z2-9]{4}-[A-HJ-NP-Z2-9]{4}$/);
+    }
+  });
+
+  it('match regardless of case, spaces and dashes', () => {
+    const hash = hashRecoveryCode('ABCD-EFGH');
+
+    expect(recoveryCodeMatches('abcd efgh', hash)).toBe(true);
+    expect(recoveryCodeMatches('ABCDEFGH', hash)).toBe(true);
+    expect(recoveryCodeMatches('ABCD-EFGJ', hash)).toBe(false);
+    expect(recoveryCodeMatches('ABCD-EFGH', null)).toBe(false);
+  });
+});
+
+describe('player credentials', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('issues a token at the current version and stores only the code hash', async () => {
+    const db = { query: jest.fn().mockResolvedValue({ rows: [{ token_version: 3 }] }) };
+
+    const { token, recoveryCode } = await issuePlayerCredentials(db as never, PLAYER);
+
+    expect(verifyPlayerToken(token).version).toBe(3);
+    expect(db.query.mock.calls[0][1]).toEqual([hashRecoveryCode(recoveryCode), 'player-1', 'session-1']);
+  });
+
+  it('accepts a current token', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [{ token_version: 1 }] });
+
+    const claims = await authenticatePlayerToken(signPlayerToken({ ...PLAYER, version: 1 }));
+
+    expect(claims.playerId).toBe('player-1');
+  });
+
+  it('rejects a token from before a revocation', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [{ token_version: 2 }] });
+
+    await expect(authenticatePlayerToken(signPlayerToken({ ...PLAYER, version: 1 }))).rejects.toMatchObject({
+      code: 'REVOKED_TOKEN',
+    });
+  });
+
+  it('rejects a token for a player that no longer exists', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+    await expect(authenticatePlayerToken(signPlayerToken({ ...PLAYER, version: 0 }))).rejects.toMatchObject({
+      code: 'UNKNOWN_PLAYER',
+    });
+  });
+
+  it('recovers a player with the right code', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({
+      rows: [
+        {
+          id: 'player-1',
+          session_id: 'session-1',
+          nickname: 'Alice',
+          is_host: false,
+          token_version: 4,
+          recovery_code_hash: hashRecoveryCode('ABCD-EFGH'),
+        },
+      ],
+    });
+
+    const { token, player } = await recoverPlayer('ABC123', 'alice', 'abcd-efgh');
+
+    expect(player).toEqual({ id: 'player-1', nickname: 'Alice', isHost: false });
+    expect(verifyPlayerToken(token)).toMatchObject({ ...PLAYER, version: 4 });
+  });
+
+  it('gives the same error for a wrong code and an unknown nickname', async () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({
+        rows: [{ id: 'player-1', session_id: 'session-1', recovery_code_hash: hashRecoveryCode('ABCD-EFGH') }],
+      })
+      .mockResolvedValueOnce({ rows: [] });
+
+    await expect(recoverPlayer('ABC123', 'Alice', 'WXYZ-2345')).rejects.toMatchObject({
+      code: 'INVALID_RECOVERY_CODE',
+    });
+    await expect(recoverPlayer('ABC123', 'Nobody', 'ABCD-EFGH')).rejects.toMatchObject({
+      code: 'INVALID_RECOVERY_CODE',
+    });
+  });
+
+  it('revokes by bumping the token version', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [{ id: 'player-1' }] });
+
+    const { recoveryCode } = await revokePlayerCredentials('session-1', 'player-1');
+
+    const [sql, params] = (pool.query as jest.Mock).mock.calls[0];
+    expect(sql).toContain('token_version = token_version + 1');
+    expect(params).toEqual([hashRecoveryCode(recoveryCode), 'player-1', 'session-1']);
+  });
+
+  it('refuses to revoke a player outside the session', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+    await expect(revokePlayerCredentials('session-1', 'player-9')).rejects.toMatchObject({
+      code: 'UNKNOWN_PLAYER',
+    });
+  });
+});
+
+describe('authenticateSocket', () => {
+  const connect = async (auth: Record<string, unknown>) => {
+    const socket = { handshake: { auth }, data: {} as Record<string, unknown> };
+    const next = jest.fn();
+    await authenticateSocket(socket as never, next);
+    return { socket, next };
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('lets anonymous sockets connect without claims', async () => {
+    const { socket, next } = await connect({});
+
+    expect(next).toHaveBeenCalledWith();
+    expect(socket.data.auth).toBeUndefined();
+    expect(pool.query).not.toHaveBeenCalled();
+  });
+
+  it('puts valid claims on socket.data', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [{ token_version: 0 }] });
+
+    const { socket, next } = await connect({ token: signPlayerToken({ ...PLAYER, version: 0 }) });
+
+    expect(next).toHaveBeenCalledWith();
+    expect(socket.data.auth).toMatchObject(PLAYER);
+  });
+
+  it('fails the handshake with the reason code', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [{ token_version: 1 }] });
+
+    const { socket, next } = await connect({ token: signPlayerToken({ ...PLAYER, version: 0 }) });
+
+    const err = next.mock.calls[0][0];
+    expect(err).toBeInstanceOf(Error);
+    expect(err.data).toEqual({ code: 'REVOKED_TOKEN' });
+    expect(socket.data.auth).toBeUndefined();
+  });
+
+  it('rejects non-string tokens', async () => {
+    const { next } = await connect({ token: 42 });
+
+    expect(next.mock.calls[0][0].data).toEqual({ code: 'INVALID_TOKEN' });
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Tests for the LISTEN/NOTIFY socket.io adapter
+ */
+
+import type { Pool } from 'pg';
+import { MessageType } from 'socket.io-adapter';
+import { createPostgresAdapter, PostgresAdapter } from '../../src/cluster/postgresAdapter';
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('PostgresAdapter', () => {
+  let pool: { query: jest.Mock; connect: jest.Mock };
+  let client: { query: jest.Mock; on: jest.Mock; release: jest.Mock };
+  let adapters: PostgresAdapter[];
+
+  const fakeNamespace = (name = '/') =>
+    ({
+      name,
+      server: { encoder: {}, opts: {} },
+      _onServerSideEmit: jest.fn(),
+    }) as any;
+
+  const notify = async (payload: unknown, channel = 'socket_io') => {
+    const handler = client.on.mock.calls.find(([event]) => event === 'notification')[1];
+    handler({ channel, payload: JSON.stringify(payload), processId: 1 });
+    await flush();
+    await flush();
+  };
+
+  const notifyCalls = () =>
+    pool.query.mock.calls.filter(([sql]) => sql.includes('pg_notify'));
+
+  beforeEach(() => {
+    client = {
+      query: jest.fn().mockResolvedValue({ rows: [] }),
+      on: jest.fn(),
+      release: jest.fn(),
+    };
+    pool = {
+      query: jest.fn().mockResolvedValue({ rows: [] }),
+      connect: jest.fn().mockResolvedValue(client),
+    };
+    adapters = [];
+  });
+
+  afterEach(() => {
+    adapters.forEach((adapter) => adapter.close());
+  });
+
+  const createAdapter = (factory = createPostgresAdapter(pool as unknown as Pool), name = '/') => {
+    const adapter = factory(fakeNamespace(name));
+    adapters.push(adapter);
+    return adapter;
+  };
+
+  it('shares one LISTEN connection between namespaces', async () => {
+    const factory = createPostgresAdapter(pool as unknown as Pool);
+    createAdapter(factory, '/');
+    createAdapter(factory, '/admin');
+    await flush();
+
+    expect(pool.connect).toHaveBeenCalledTimes(1);
+    expect(client.query).toHaveBeenCalledWith('LISTEN socket_io');
+  });
+
+  it('rejects channel names that are not plain identifiers', () => {
+    expect(() => createPostgresAdapter(pool as unknown as Pool, { channel: 'io; DROP TABLE x' })).toThrow(
+      'Invalid NOTIFY channel name'
+    );
+  });
+
+  it('publishes small messages directly with pg_notify', async () => {
+    const adapter = createAdapter();
+    await flush();
+
+    await adapter.serverSideEmit(['game:command', { sessionId: 'session-123' }]);
+    await flush();
+
+    const [, params] = notifyCalls()[0];
+    expect(params[0]).toBe('socket_io');
+    const envelope = JSON.parse(params[1]);
+    expect(envelope).toMatchObject({
+      kind: 'message',
+      body: {
+        type: MessageType.SERVER_SIDE_EMIT,
+        nsp: '/',
+        uid: adapter.serverId,
+        data: { packet: ['game:command', { sessionId: 'session-123' }] },
+      },
+    });
+  });
+
+  it('stores messages over the NOTIFY limit as attachments', async () => {
+    pool.query.mockImplementation(async (sql: string) =>
+      sql.includes('INSERT INTO socket_io_attachments') ? { rows: [{ id: 42 }] } : { rows: [] }
+    );
+    const adapter = createAdapter();
+    await flush();
+
+    await adapter.serverSideEmit(['game:state', { blob: 'x'.repeat(10_000) }]);
+    await flush();
+
+    const insert = pool.query.mock.calls.find(([sql]) => sql.includes('INSERT INTO socket_io_attachments'));
+    expect(JSON.parse(insert[1][0]).body.data.packet[1].blob).toHaveLength(10_000);
+    expect(notifyCalls()[0][1]).toEqual(['socket_io', JSON.stringify({ kind: 'attachment', id: '42' })]);
+  });
+
+  it('hands messages from other instances to the namespace', async () => {
+    const adapter = createAdapter();
+    await flush();
+
+    await notify({
+      kind: 'message',
+      body: { uid: 'other-server', nsp: '/', type: MessageType.SERVER_SIDE_EMIT, data: { packet: ['ping', 1] } },
+    });
+
+    expect(adapter.nsp._onServerSideEmit).toHaveBeenCalledWith(['ping', 1]);
+  });
+
+  it('ignores its own messages and messages for other channels', async () => {
+    const adapter = createAdapter();
+    await flush();
+
+    const own = {
+      kind: 'message',
+      body: { uid: adapter.serverId, nsp: '/', type: MessageType.SERVER_SIDE_EMIT, data: { packet: ['ping'] } },
+    };
+    await notify(own);
+    await notify({ ...own, body: { ...own.body, uid: 'other-server' } }, 'another_channel');
+
+    expect(adapter.nsp._onServerSideEmit).not.toHaveBeenCalled();
+  });
+
+  it('reads attachments before dispatching them', async () => {
+    const adapter = createAdapter();
+    await flush();
+
+    const envelope = {
+      kind: 'message',
+      body: { uid: 'other-server', nsp: '/', type: MessageType.SERVER_SIDE_EMIT, data: { packet: ['big'] } },
+    };
+    pool.query.mockResolvedValueOnce({ rows: [{ payload: JSON.stringify(envelope) }] });
+
+    await notify({ kind: 'attachment', id: '42' });
+
+    expect(pool.query).toHaveBeenCalledWith(expect.stringContaining('FROM socket_io_attachments'), ['42']);
+    expect(adapter.nsp._onServerSideEmit).toHaveBeenCalledWith(['big']);
+  });
+
+  it('stops listening once every namespace has closed', async () => {
+    const adapter = createAdapter();
+    await flush();
+
+    adapters = [];
+    adapter.close();
+    await flush();
+
+    expect(client.query).toHaveBeenCalledWith('UNLISTEN socket_io');
+    expect(client.release).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Tests for per-session leadership through postgres advisory locks
+ */
+
+import type { Pool } from 'pg';
+import { createPostgresLeadership } from '../../src/cluster/sessionLeadership';
+import { resolveClusterMode } from '../../src/cluster/clusterMode';
+
+describe('PostgresLeadership', () => {
+  let client: { query: jest.Mock; on: jest.Mock; release: jest.Mock };
+  let pool: { connect: jest.Mock };
+
+  const lockResult = (acquired: boolean) => ({ rows: [{ acquired }] });
+
+  beforeEach(() => {
+    client = {
+      query: jest.fn().mockResolvedValue(lockResult(true)),
+      on: jest.fn(),
+      release: jest.fn(),
+    };
+    pool = { connect: jest.fn().mockResolvedValue(client) };
+  });
+
+  it('takes an advisory lock per session on one dedicated connection', async () => {
+    const leadership = createPostgresLeadership(pool as unknown as Pool);
+
+    await expect(leadership.tryAcquire('session-1')).resolves.toBe(true);
+    await expect(leadership.tryAcquire('session-2')).resolves.toBe(true);
+
+    expect(pool.connect).toHaveBeenCalledTimes(1);
+    expect(client.query).toHaveBeenCalledWith(
+      expect.stringContaining('pg_try_advisory_lock'),
+      [expect.any(Number), 'session-1']
+    );
+    expect(leadership.isLeader('session-1')).toBe(true);
+  });
+
+  it('does not lead a session another instance has locked', async () => {
+    client.query.mockResolvedValueOnce(lockResult(false));
+    const leadership = createPostgresLeadership(pool as unknown as Pool);
+
+    await expect(leadership.tryAcquire('session-1')).resolves.toBe(false);
+    expect(leadership.isLeader('session-1')).toBe(false);
+  });
+
+  it('locks only once for concurrent and repeated acquisitions', async () => {
+    const leadership = createPostgresLeadership(pool as unknown as Pool);
+
+    const results = await Promise.all([
+      leadership.tryAcquire('session-1'),
+      leadership.tryAcquire('session-1'),
+    ]);
+    await leadership.tryAcquire('session-1');
+
+    expect(results).toEqual([true, true]);
+    // the lock is re-entrant, so a second lock would need a second unlock
+    expect(client.query).toHaveBeenCalledTimes(1);
+  });
+
+  it('unlocks on release', async () => {
+    const leadership = createPostgresLeadership(pool as unknown as Pool);
+    await leadership.tryAcquire('session-1');
+
+    await leadership.release('session-1');
+    await leadership.release('session-1');
+
+    const unlocks = client.query.mock.calls.filter(([sql]) => sql.includes('pg_advisory_unlock'));
+    expect(unlocks).toHaveLength(1);
+    expect(leadership.isLeader('session-1')).toBe(false);
+  });
+
+  it('reports every held session as lost when the lock connection drops', async () => {
+    const leadership = createPostgresLeadership(pool as unknown as Pool);
+    const lost = jest.fn();
+    leadership.onLost(lost);
+    await leadership.tryAcquire('session-1');
+    await leadership.tryAcquire('session-2');
+
+    const onError = client.on.mock.calls.find(([event]) => event === 'error')[1];
+    onError(new Error('Connection terminated unexpectedly'));
+
+    expect(lost).toHaveBeenCalledWith(['session-1', 'session-2']);
+    expect(client.release).toHaveBeenCalled();
+    expect(leadership.isLeader('session-1')).toBe(false);
+
+    // the next acquisition opens a fresh connection
+    await leadership.tryAcquire('session-1');
+    expect(pool.connect).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('resolveClusterMode', () => {
+  it('defaults to a single instance', () => {
+    expect(resolveClusterMode({})).toBe('single');
+    expect(resolveClusterMode({ CLUSTER_MODE: '' })).toBe('single');
+  });
+
+  it('accepts postgres in any case', () => {
+    expect(resolveClusterMode({ CLUSTER_MODE: ' Postgres ' })).toBe('postgres');
+  });
+
+  it('rejects unknown modes', () => {
+    expect(() => resolveClusterMode({ CLUSTER_MODE: 'redis' })).toThrow('Unknown CLUSTER_MODE "redis"');
+  });
+});
@@ -0,0 +1,423 @@
+import { Server } from 'socket.io';
+import { contentModeration } from '../../src/game/contentModeration';
+import { ModeratedSession } from '../../src/game/playerModeration';
+import { setModerationProvider, resetModerationProvider } from '../../src/moderation/moderationProvider';
+import { createLocalModerationProvider } from '../../src/moderation/localModerationProvider';
+import { correctHeadlineScore, ScoringError } from '../../src/game/scoringService';
+import pool from '../../src/db/pool';
+
+jest.mock('../../src/db/pool', () => ({
+  __esModule: true,
+  default: {
+    query: jest.fn(),
+    connect: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/game/scoringService', () => ({
+  ...jest.requireActual('../../src/game/scoringService'),
+  correctHeadlineScore: jest.fn(),
+  getPlayerScoreBreakdowns: jest.fn().mockResolvedValue(new Map()),
+}));
+
+const LEADERBOARD = [{ playerId: 'player-2', nickname: 'Bob', totalScore: 11, rank: 1 }];
+
+const BREAKDOWN = {
+  baseline: 1,
+  plausibility: 3,
+  connectionScore: 4,
+  selfStory: 0,
+  othersStory: 0,
+  planetBonus: 2,
+  total: 10,
+};
+
+const SESSION: ModeratedSession = {
+  id: 'session-1',
+  joinCode: 'ABC123',
+  phase: 'PLAYING',
+  currentRound: 2,
+  hostPlayerId: 'host-1',
+};
+
+const SUBMISSION = {
+  sessionId: 'session-1',
+  hostPlayerId: 'host-1',
+  playerId: 'player-2',
+  playerNickname: 'Bob',
+  roundNo: 2,
+};
+
+const HEADLINE_ROW = {
+  id: 'headline-1',
+  session_id: 'session-1',
+  player_id: 'player-2',
+  player_nickname: 'Bob',
+  round_no: 2,
+  story_direction: 'robots unionise',
+  text: 'Robots unionise',
+  moderation_status: 'approved',
+  created_at: new Date('2026-01-01T10:00:00Z'),
+};
+
+describe('contentModeration', () => {
+  let emit: jest.Mock;
+  let io: { to: jest.Mock };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    emit = jest.fn();
+    io = { to: jest.fn().mockReturnValue({ emit }) };
+    contentModeration.setSocketIO(io as unknown as Server);
+    setModerationProvider(createLocalModerationProvider());
+  });
+
+  afterAll(() => {
+    resetModerationProvider();
+  });
+
+  describe('checkStoryDirection', () => {
+    it('approves clean text without touching the database', async () => {
+      const result = await contentModeration.checkStoryDirection({
+        ...SUBMISSION,
+        storyDirection: 'Robots form a union',
+        strictness: 'standard',
+      });
+
+      expect(result).toEqual({ decision: 'approved', reason: null });
+      expect(pool.query).not.toHaveBeenCalled();
+    });
+
+    it('flags mild text at standard strictness', async () => {
+      const result = await contentModeration.checkStoryDirection({
+        ...SUBMISSION,
+        storyDirection: 'AI writes shit poetry',
+        strictness: 'standard',
+      });
+
+      expect(result).toEqual({ decision: 'flagged', reason: 'contains profanity' });
+      expect(pool.query).not.toHaveBeenCalled();
+    });
+
+    it('stores a rejection and tells the host', async () => {
+      (pool.query as jest.Mock).mockResolvedValueOnce({
+        rows: [{ id: 'rejection-1', created_at: new Date('2026-01-01T10:00:00Z') }],
+      });
+
+      const result = await contentModeration.checkStoryDirection({
+        ...SUBMISSION,
+        storyDirection: 'AI writes shit poetry',
+        strictness: 'strict',
+      });
+
+      expect(result.decision).toBe('rejected');
+      const [sql, params] = (pool.query as jest.Mock).mock.calls[0];
+      expect(sql).toContain('INSERT INTO headline_rejections');
+      expect(params).toEqual([
+        'session-1', 'player-2', 2, 'AI writes shit poetry', 'contains profanity', '["profanity"]', 'local',
+      ]);
+      expect(io.to).toHaveBeenCalledWith('player:host-1');
+      expect(emit).toHaveBeenCalledWith('moderation:rejected', {
+        rejection: expect.objectContaining({ id: 'rejection-1', playerNickname: 'Bob', reason: 'contains profanity' }),
+      });
+    });
+
+    it('skips the check when moderation is off', async () => {
+      const check = jest.fn();
+      setModerationProvider({ kind: 'local', check });
+
+      const result = await contentModeration.checkStoryDirection({
+        ...SUBMISSION,
+        storyDirection: 'anything',
+        strictness: 'off',
+      });
+
+      expect(result.decision).toBe('approved');
+      expect(check).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('checkGeneratedHeadlines', () => {
+    it('reads back the status when the bands pass', async () => {
+      (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [{ moderation_status: 'flagged' }] });
+
+      const status = await contentModeration.checkGeneratedHeadlines('headline-1', ['B1', 'B2'], 'standard');
+
+      expect(status).toBe('flagged');
+      expect((pool.query as jest.Mock).mock.calls[0][0]).toContain('SELECT moderation_status');
+    });
+
+    it('flags the headline when a band fails, keeping a host hide', async () => {
+      (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [{ moderation_status: 'flagged' }] });
+
+      const status = await contentModeration.checkGeneratedHeadlines(
+        'headline-1',
+        ['Fine', 'Robots say kys'],
+        'standard'
+      );
+
+      expect(status).toBe('flagged');
+      const [sql, params] = (pool.query as jest.Mock).mock.calls[0];
+      expect(sql).toContain("WHEN moderation_status = 'hidden' THEN 'hidden' ELSE 'flagged'");
+      expect(params).toEqual(['headline-1', 'generated headline encourages self-harm']);
+    });
+  });
+
+  describe('headlineAudience', () => {
+    it('sends approved headlines to the session room', async () => {
+      await expect(contentModeration.headlineAudience(SESSION, 'player-2', 'approved')).resolves.toBe(
+        'session:ABC123'
+      );
+      expect(pool.query).not.toHaveBeenCalled();
+    });
+
+    it('sends flagged headlines to the author and the current host', async () => {
+      (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [{ host_player_id: 'host-2' }] });
+
+      await expect(contentModeration.headlineAudience(SESSION, 'player-2', 'flagged')).resolves.toEqual([
+        'player:player-2',
+        'player:host-2',
+      ]);
+    });
+  });
+
+  describe('review', () => {
+    let client: { query: jest.Mock; release: jest.Mock };
+
+    beforeEach(() => {
+      client = { query: jest.fn().mockResolvedValue({ rows: [] }), release: jest.fn() };
+      (pool.connect as jest.Mock).mockResolvedValue(client);
+    });
+
+    it('approves a headline, logs it and shows it to everyone', async () => {
+      client.query
+        .mockResolvedValueOnce({ rows: [] }) // BEGIN
+        .mockResolvedValueOnce({ rows: [{ player_id: 'player-2' }] });
+      (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [HEADLINE_ROW] });
+
+      const headline = await contentModeration.review(SESSION, 'headline-1', 'approve');
+
+      expect(client.query.mock.calls[1][1]).toEqual(['approved', 'headline-1', 'session-1']);
+      const [, logParams] = client.query.mock.calls[2];
+      expect(logParams.slice(0, 4)).toEqual(['session-1', 'PLAYING', 2, 'APPROVE']);
+      expect(JSON.parse(logParams[4])).toEqual({
+        playerId: 'host-1',
+        headlineId: 'headline-1',
+        targetPlayerId: 'player-2',
+      });
+      expect(headline).toMatchObject({ id: 'headline-1', playerNickname: 'Bob' });
+      expect(io.to).toHaveBeenCalledWith('session:ABC123');
+      expect(emit).toHaveBeenCalledWith('headline:approved', { headline });
+    });
+
+    it('leaves scores alone when approving a flagged headline', async () => {
+      client.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ player_id: 'player-2', previous_status: 'flagged' }] });
+      (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [HEADLINE_ROW] });
+
+      await contentModeration.review(SESSION, 'headline-1', 'approve');
+
+      expect(correctHeadlineScore).not.toHaveBeenCalled();
+      expect(emit).not.toHaveBeenCalledWith('leaderboard:update', expect.anything());
+    });
+
+    it('hides a headline from the room and takes its points back', async () => {
+      client.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ player_id: 'player-2', previous_status: 'approved' }] });
+      (correctHeadlineScore as jest.Mock).mockResolvedValueOnce({
+        playerId: 'player-2',
+        previous: { plausibilityLevel: 3, primaryPlanet: 'MARS', total: 10 },
+        breakdown: BREAKDOWN,
+        scoreDelta: -10,
+        newTotalScore: 11,
+        leaderboard: LEADERBOARD,
+      });
+      (pool.query as jest.Mock).mockResolvedValueOnce({
+        rows: [{ ...HEADLINE_ROW, moderation_status: 'hidden' }],
+      });
+
+      const headline = await contentModeration.review(SESSION, 'headline-1', 'hide');
+
+      expect(client.query.mock.calls[1][1][0]).toBe('hidden');
+      expect(correctHeadlineScore).toHaveBeenCalledWith(client, {
+        sessionId: 'session-1',
+        headlineId: 'headline-1',
+        wasCounted: true,
+        counted: false,
+      });
+      const [, logParams] = client.query.mock.calls[2];
+      expect(logParams[3]).toBe('HIDE');
+      expect(JSON.parse(logParams[4])).toMatchObject({ targetPlayerId: 'player-2', scoreDelta: -10 });
+      expect(headline.moderationStatus).toBe('hidden');
+      expect(emit).toHaveBeenCalledWith('headline:hidden', { headlineId: 'headline-1', playerId: 'player-2' });
+      expect(emit).toHaveBeenCalledWith('leaderboard:update', {
+        leaderboard: [expect.objectContaining({ playerId: 'player-2', totalScore: 11 })],
+      });
+    });
+
+    it('takes back the votes on a headline the juror has not scored yet', async () => {
+      client.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ player_id: 'player-2', previous_status: 'approved' }] });
+      (correctHeadlineScore as jest.Mock).mockResolvedValueOnce({
+        playerId: 'player-2',
+        previous: { plausibilityLevel: null, primaryPlanet: null, total: null },
+        breakdown: null,
+        scoreDelta: -3,
+        newTotalScore: 18,
+        leaderboard: LEADERBOARD,
+      });
+      (pool.query as jest.Mock).mockResolvedValueOnce({
+        rows: [{ ...HEADLINE_ROW, moderation_status: 'hidden' }],
+      });
+
+      await contentModeration.review(SESSION, 'headline-1', 'hide');
+
+      const [, logParams] = client.query.mock.calls[2];
+      expect(JSON.parse(logParams[4])).toMatchObject({ scoreDelta: -3 });
+      expect(emit).toHaveBeenCalledWith('leaderboard:update', expect.anything());
+    });
+
+    it('restores the points when a hidden headline is approved', async () => {
+      client.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ player_id: 'player-2', previous_status: 'hidden' }] });
+      (correctHeadlineScore as jest.Mock).mockResolvedValueOnce({
+        playerId: 'player-2',
+        previous: { plausibilityLevel: 3, primaryPlanet: 'MARS', total: 10 },
+        breakdown: BREAKDOWN,
+        scoreDelta: 10,
+        newTotalScore: 21,
+        leaderboard: LEADERBOARD,
+      });
+      (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [HEADLINE_ROW] });
+
+      await contentModeration.review(SESSION, 'headline-1', 'approve');
+
+      expect(correctHeadlineScore).toHaveBeenCalledWith(client, expect.objectContaining({
+        wasCounted: false,
+        counted: true,
+      }));
+    });
+
+    it('rolls back for a headline from another session', async () => {
+      await expect(contentModeration.review(SESSION, 'headline-9', 'hide')).rejects.toMatchObject({
+        code: 'UNKNOWN_HEADLINE',
+      });
+      expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+      expect(client.release).toHaveBeenCalled();
+      expect(emit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('override', () => {
+    let client: { query: jest.Mock; release: jest.Mock };
+
+    beforeEach(() => {
+      client = { query: jest.fn().mockResolvedValue({ rows: [] }), release: jest.fn() };
+      (pool.connect as jest.Mock).mockResolvedValue(client);
+    });
+
+    it('rescores the headline, logs the change and broadcasts the correction', async () => {
+      client.query
+        .mockResolvedValueOnce({ rows: [] }) // BEGIN
+        .mockResolvedValueOnce({ rows: [{ moderation_status: 'approved' }] });
+      (correctHeadlineScore as jest.Mock).mockResolvedValueOnce({
+        playerId: 'player-2',
+        previous: { plausibilityLevel: 5, primaryPlanet: 'MARS', total: 4 },
+        breakdown: BREAKDOWN,
+        scoreDelta: 6,
+        newTotalScore: 27,
+        leaderboard: LEADERBOARD,
+      });
+      (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [HEADLINE_ROW] });
+
+      const headline = await contentModeration.override(SESSION, 'headline-1', {
+        plausibilityLevel: 3,
+        primaryPlanet: 'VENUS',
+      });
+
+      expect(correctHeadlineScore).toHaveBeenCalledWith(client, {
+        sessionId: 'session-1',
+        headlineId: 'headline-1',
+        wasCounted: true,
+        counted: true,
+        plausibilityLevel: 3,
+        primaryPlanet: 'VENUS',
+      });
+      const [, logParams] = client.query.mock.calls[2];
+      expect(logParams[3]).toBe('OVERRIDE');
+      expect(JSON.parse(logParams[4])).toEqual({
+        playerId: 'host-1',
+        headlineId: 'headline-1',
+        targetPlayerId: 'player-2',
+        changes: {
+          plausibilityLevel: { from: 5, to: 3 },
+          primaryPlanet: { from: 'MARS', to: 'VENUS' },
+        },
+        scoreDelta: 6,
+      });
+      expect(io.to).toHaveBeenCalledWith('session:ABC123');
+      expect(emit).toHaveBeenCalledWith('headline:corrected', { headline });
+      expect(emit).toHaveBeenCalledWith('leaderboard:update', {
+        leaderboard: expect.any(Array),
+        lastScoredHeadline: {
+          headlineId: 'headline-1',
+          playerId: 'player-2',
+          breakdown: BREAKDOWN,
+          newTotalScore: 27,
+        },
+      });
+    });
+
+    it('refuses a headline the juror has not scored', async () => {
+      client.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ moderation_status: 'approved' }] });
+      (correctHeadlineScore as jest.Mock).mockRejectedValueOnce(
+        new ScoringError('Headline headline-1 has not been scored yet', 'HEADLINE_NOT_SCORED')
+      );
+
+      await expect(
+        contentModeration.override(SESSION, 'headline-1', { plausibilityLevel: 3 })
+      ).rejects.toMatchObject({ name: 'ModerationError', code: 'HEADLINE_NOT_SCORED' });
+      expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+      expect(emit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getReviewQueue', () => {
+    it('lists flagged headlines and recent rejections', async () => {
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({
+          rows: [{ ...HEADLINE_ROW, moderation_status: 'flagged', moderation_reason: 'contains profanity' }],
+        })
+        .mockResolvedValueOnce({
+          rows: [{
+            id: 'rejection-1',
+            player_id: 'player-2',
+            player_nickname: 'Bob',
+            round_no: 2,
+            story_direction: 'kys',
+            reason: 'encourages self-harm',
+            categories: ['self_harm'],
+            created_at: new Date('2026-01-01T10:00:00Z'),
+          }],
+        });
+
+      const queue = await contentModeration.getReviewQueue('session-1');
+
+      const [feedSql, feedParams] = (pool.query as jest.Mock).mock.calls[0];
+      expect(feedSql).toContain('h.moderation_status = $2');
+      expect(feedParams).toEqual(['session-1', 'flagged']);
+      expect(queue.flagged).toEqual([
+        expect.objectContaining({ id: 'headline-1', moderationStatus: 'flagged', moderationReason: 'contains profanity' }),
+      ]);
+      expect(queue.rejections).toEqual([
+        expect.objectContaining({ id: 'rejection-1', reason: 'encourages self-harm', categories: ['self_harm'] }),
+      ]);
+    });
+  });
+});
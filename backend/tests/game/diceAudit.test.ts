@@ -0,0 +1,281 @@
+/**
+ * Tests for seeded dice rolls, their verification and the band frequency report.
+ */
+
+import pool from '../../src/db/pool';
+import {
+  auditSessionDice,
+  averageBandShares,
+  bandFrequencyReport,
+  countBands,
+  diceCommitmentFromRow,
+  getDiceReport,
+  sessionDiceRoll,
+} from '../../src/game/diceAudit';
+import { biasTowards } from '../../src/game/diceDistribution';
+import { DICE_ALGORITHM, STANDARD_BAND_WEIGHTS, hashDiceSeed, mapRollToBand, rollFromSeed } from '../../src/game/diceRoll';
+
+jest.mock('../../src/db/pool', () => ({
+  __esModule: true,
+  default: {
+    query: jest.fn(),
+  },
+}));
+
+const SEED = 'a'.repeat(64);
+const SEED_HASH = hashDiceSeed(SEED);
+
+describe('bandFrequencyReport', () => {
+  it('finds nothing to report on rolls that match the targets', () => {
+    const report = bandFrequencyReport({ 1: 10, 2: 35, 3: 40, 4: 12, 5: 3 });
+
+    expect(report.rolls).toBe(100);
+    expect(report.chiSquare).toBe(0);
+    expect(report.pValue).toBe(1);
+    expect(report.degreesOfFreedom).toBe(4);
+    // band 5 expects only 3 of 100 rolls
+    expect(report.reliable).toBe(false);
+    expect(report.bands[1]).toEqual(
+      expect.objectContaining({ band: 2, observed: 35, targetShare: 0.35, expected: 35 })
+    );
+    expect(report.bands[1].share.rate).toBe(0.35);
+  });
+
+  it('tests the deviation with chi-square on four degrees of freedom', () => {
+    const report = bandFrequencyReport({ 1: 40, 2: 70, 3: 60, 4: 24, 5: 6 });
+
+    // (40-20)^2/20 + (70-70)^2/70 + (60-80)^2/80 + 0 + 0
+    expect(report.chiSquare).toBeCloseTo(25);
+    expect(report.pValue).toBeCloseTo(Math.exp(-12.5) * 13.5, 10);
+    expect(report.reliable).toBe(true);
+  });
+
+  it("tests against other weights' shares, failing a roll on a band they rule out", () => {
+    const even = { 1: 0.2, 2: 0.2, 3: 0.2, 4: 0.2, 5: 0.2 };
+    expect(bandFrequencyReport({ 1: 20, 2: 20, 3: 20, 4: 20, 5: 20 }, even).chiSquare).toBe(0);
+
+    const noBand5 = { 1: 0.25, 2: 0.25, 3: 0.25, 4: 0.25, 5: 0 };
+    expect(bandFrequencyReport({ 1: 25, 2: 25, 3: 25, 4: 25, 5: 0 }, noBand5)).toEqual(
+      expect.objectContaining({ chiSquare: 0, reliable: true })
+    );
+    expect(bandFrequencyReport({ 1: 25, 2: 25, 3: 25, 4: 24, 5: 1 }, noBand5).pValue).toBe(0);
+  });
+
+  it('has no test without rolls', () => {
+    const report = bandFrequencyReport(countBands([]));
+
+    expect(report).toEqual(expect.objectContaining({ rolls: 0, chiSquare: null, pValue: null, reliable: false }));
+  });
+});
+
+describe('averageBandShares', () => {
+  it('averages the shares of the weights each roll was made with', () => {
+    const shares = averageBandShares([
+      { weights: [20, 20, 20, 20, 20], rolls: 3 },
+      { weights: [60, 20, 20, 0, 0], rolls: 1 },
+    ]);
+
+    expect(shares[1]).toBeCloseTo(0.3);
+    expect(shares[4]).toBeCloseTo(0.15);
+  });
+
+  it('falls back to the standard shares without rolls', () => {
+    expect(averageBandShares([])).toEqual({ 1: 0.1, 2: 0.35, 3: 0.4, 4: 0.12, 5: 0.03 });
+  });
+});
+
+describe('diceCommitmentFromRow', () => {
+  it('publishes the hash during the game and the seed once it is over', () => {
+    const row = { dice_seed: SEED, dice_seed_hash: SEED_HASH };
+
+    expect(diceCommitmentFromRow({ ...row, status: 'PLAYING' })).toEqual({
+      algorithm: DICE_ALGORITHM,
+      seedHash: SEED_HASH,
+      seed: null,
+    });
+    expect(diceCommitmentFromRow({ ...row, status: 'FINISHED' })?.seed).toBe(SEED);
+  });
+
+  it('is null for unseeded sessions', () => {
+    expect(diceCommitmentFromRow({ status: 'FINISHED', dice_seed: null, dice_seed_hash: null })).toBeNull();
+  });
+});
+
+describe('sessionDiceRoll', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("derives the roll from the session's seed and the headline's sequence number", async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({
+      rows: [{ dice_seed: SEED, dice_sequence: 3, dice_algorithm: DICE_ALGORITHM }],
+    });
+
+    await expect(sessionDiceRoll('session-1', 'headline-1')).resolves.toEqual(rollFromSeed(SEED, 3));
+    expect((pool.query as jest.Mock).mock.calls[0][1]).toEqual(['headline-1', 'session-1']);
+  });
+
+  it("maps the roll through the session's weights, biased towards a risk-mode bet", async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({
+      rows: [
+        {
+          dice_seed: SEED,
+          dice_settings: { preset: 'standard', tuned: false, weights: STANDARD_BAND_WEIGHTS, riskMode: true },
+          dice_sequence: 3,
+          dice_algorithm: DICE_ALGORITHM,
+          dice_target_band: 4,
+        },
+      ],
+    });
+
+    await expect(sessionDiceRoll('session-1', 'headline-1')).resolves.toEqual(
+      rollFromSeed(SEED, 3, biasTowards(STANDARD_BAND_WEIGHTS, 4))
+    );
+  });
+
+  it('rolls at random without a seed or sequence number', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({
+      rows: [{ dice_seed: null, dice_sequence: 3, dice_algorithm: null }],
+    });
+
+    const { roll } = await sessionDiceRoll('session-1', 'headline-1');
+    expect(roll).toBeGreaterThanOrEqual(1);
+    expect(roll).toBeLessThanOrEqual(100);
+  });
+});
+
+describe('auditSessionDice', () => {
+  const rollRow = (sequence: number, roll = rollFromSeed(SEED, sequence).roll) => ({
+    id: `h${sequence}`,
+    round_no: 1,
+    dice_roll: roll,
+    selected_band: rollFromSeed(SEED, sequence).band,
+    dice_sequence: sequence,
+    dice_algorithm: DICE_ALGORITHM,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('checks every roll against the revealed seed', async () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({
+        rows: [{ id: 'session-1', join_code: 'ABC123', status: 'FINISHED', dice_seed: SEED, dice_seed_hash: SEED_HASH }],
+      })
+      .mockResolvedValueOnce({ rows: [rollRow(1), rollRow(2), rollRow(3, 99)] });
+
+    const audit = await auditSessionDice('ABC123');
+
+    expect(audit.seedMatchesCommitment).toBe(true);
+    expect(audit.rolls.map((check) => check.verified)).toEqual([true, true, false]);
+    expect(audit.rolls[2]).toEqual(expect.objectContaining({ roll: 99, expectedRoll: 66 }));
+    expect(audit.mismatches).toBe(1);
+    expect(audit.report.rolls).toBe(3);
+  });
+
+  it("checks the band against the session's weights and each bet", async () => {
+    const riskMode = { preset: 'even', tuned: false, weights: [20, 20, 20, 20, 20], riskMode: true };
+    const betWeights = biasTowards([20, 20, 20, 20, 20], 5);
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({
+        rows: [
+          {
+            id: 'session-1',
+            join_code: 'ABC123',
+            status: 'FINISHED',
+            dice_seed: SEED,
+            dice_seed_hash: SEED_HASH,
+            dice_settings: riskMode,
+          },
+        ],
+      })
+      .mockResolvedValueOnce({
+        rows: [
+          { ...rollRow(1), selected_band: mapRollToBand(54, betWeights), dice_target_band: 5 },
+          // stored with the standard band instead of the session's
+          { ...rollRow(3), selected_band: 3, dice_target_band: null },
+        ],
+      });
+
+    const audit = await auditSessionDice('ABC123');
+
+    expect(audit.rolls[0]).toEqual(expect.objectContaining({ targetBand: 5, expectedBand: 4, verified: true }));
+    expect(audit.rolls[1]).toEqual(expect.objectContaining({ expectedBand: 4, verified: false }));
+    // one roll at the even weights, one biased towards band 5
+    expect(audit.report.bands[4].targetShare).toBeCloseTo((0.2 + betWeights[4] / 100) / 2);
+  });
+
+  it('only shows the commitment before the game is over', async () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({
+        rows: [{ id: 'session-1', join_code: 'ABC123', status: 'PLAYING', dice_seed: SEED, dice_seed_hash: SEED_HASH }],
+      })
+      .mockResolvedValueOnce({ rows: [rollRow(1)] });
+
+    const audit = await auditSessionDice('ABC123');
+
+    expect(audit.commitment).toEqual({ algorithm: DICE_ALGORITHM, seedHash: SEED_HASH, seed: null });
+    expect(JSON.stringify(audit)).not.toContain(SEED);
+    expect(audit.rolls[0]).toEqual(expect.objectContaining({ expectedRoll: null, verified: null }));
+    expect(audit.seedMatchesCommitment).toBeNull();
+    expect(audit.mismatches).toBeNull();
+  });
+
+  it('flags a revealed seed that does not match the commitment', async () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({
+        rows: [{ id: 'session-1', join_code: 'ABC123', status: 'FINISHED', dice_seed: SEED, dice_seed_hash: 'f'.repeat(64) }],
+      })
+      .mockResolvedValueOnce({ rows: [] });
+
+    await expect(auditSessionDice('ABC123')).resolves.toEqual(expect.objectContaining({ seedMatchesCommitment: false }));
+  });
+
+  it('reports unknown sessions', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+    await expect(auditSessionDice('NOPE00')).rejects.toThrow(expect.objectContaining({ code: 'SESSION_NOT_FOUND' }));
+  });
+});
+
+describe('getDiceReport', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('counts the rolls of every game by band', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({
+      rows: [
+        { selected_band: 2, rolls: 30, seeded: 20 },
+        { selected_band: 3, rolls: 45, seeded: 40 },
+      ],
+    });
+
+    const result = await getDiceReport(30);
+
+    expect(result.days).toBe(30);
+    expect(result.seededRolls).toBe(60);
+    expect(result.report.rolls).toBe(75);
+    expect(result.report.bands.map((band) => band.observed)).toEqual([0, 30, 45, 0, 0]);
+    expect(result.report.bands[2].targetShare).toBe(0.4);
+    expect((pool.query as jest.Mock).mock.calls[0][1]).toEqual([30]);
+  });
+
+  it('expects the shares of the weights the rolls were made with', async () => {
+    const even = { preset: 'even', tuned: false, weights: [20, 20, 20, 20, 20], riskMode: false };
+    (pool.query as jest.Mock).mockResolvedValueOnce({
+      rows: [
+        { dice_settings: null, dice_target_band: null, selected_band: 3, rolls: 50, seeded: 0 },
+        { dice_settings: even, dice_target_band: null, selected_band: 3, rolls: 10, seeded: 0 },
+        { dice_settings: even, dice_target_band: null, selected_band: 1, rolls: 40, seeded: 0 },
+      ],
+    });
+
+    const { report } = await getDiceReport();
+
+    expect(report.bands[2].observed).toBe(60);
+    expect(report.bands[2].targetShare).toBeCloseTo(0.5 * 0.4 + 0.5 * 0.2);
+    expect(report.bands[0].targetShare).toBeCloseTo(0.5 * 0.1 + 0.5 * 0.2);
+  });
+});
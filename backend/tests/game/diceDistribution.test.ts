@@ -0,0 +1,98 @@
+/**
+ * Unit tests for per-session dice distributions: presets, the host's weights
+ * and the bias towards a risk-mode bet
+ */
+
+import {
+  DICE_PRESETS,
+  biasTowards,
+  diceSettingsFromRow,
+  headlineBandWeights,
+  resolveDiceSettings,
+} from '../../src/game/diceDistribution';
+import { STANDARD_BAND_WEIGHTS } from '../../src/game/diceRoll';
+import { diceSettingsSchema } from '../../src/utils/validation';
+
+describe('resolveDiceSettings', () => {
+  it('defaults to the standard weights without risk mode', () => {
+    expect(resolveDiceSettings()).toEqual({
+      preset: 'standard',
+      tuned: false,
+      weights: STANDARD_BAND_WEIGHTS,
+      riskMode: false,
+    });
+  });
+
+  it("takes the preset's weights unless the host gave their own", () => {
+    expect(resolveDiceSettings({ preset: 'chaos', riskMode: true })).toEqual({
+      preset: 'chaos',
+      tuned: false,
+      weights: DICE_PRESETS.chaos.weights,
+      riskMode: true,
+    });
+    expect(resolveDiceSettings({ preset: 'chaos', weights: [0, 10, 30, 30, 30] }).tuned).toBe(true);
+    expect(resolveDiceSettings({ preset: 'even', weights: [20, 20, 20, 20, 20] }).tuned).toBe(false);
+  });
+
+  it('gives every preset weights that add up to 100', () => {
+    for (const preset of Object.values(DICE_PRESETS)) {
+      expect(preset.weights.reduce((sum, weight) => sum + weight, 0)).toBe(100);
+    }
+  });
+});
+
+describe('diceSettingsFromRow', () => {
+  it('treats NULL (older sessions) as standard', () => {
+    expect(diceSettingsFromRow(null)).toEqual(resolveDiceSettings());
+  });
+
+  it('reads stored settings back', () => {
+    const stored = resolveDiceSettings({ preset: 'grounded', weights: [30, 40, 25, 4, 1], riskMode: true });
+
+    expect(diceSettingsFromRow(JSON.parse(JSON.stringify(stored)))).toEqual(stored);
+  });
+
+  it("falls back to the preset's weights when they are missing", () => {
+    expect(diceSettingsFromRow({ preset: 'even' }).weights).toEqual([20, 20, 20, 20, 20]);
+  });
+});
+
+describe('biasTowards', () => {
+  it("doubles the target band's chance and takes it from the others in proportion", () => {
+    expect(biasTowards(STANDARD_BAND_WEIGHTS, 5)).toEqual([10, 34, 39, 11, 6]);
+    expect(biasTowards([5, 15, 30, 25, 25], 4)).toEqual([3, 10, 20, 50, 17]);
+  });
+
+  it('caps the target at 100%', () => {
+    expect(biasTowards([0, 0, 0, 60, 40], 4)).toEqual([0, 0, 0, 100, 0]);
+  });
+
+  it('leaves a band weighted 0 impossible', () => {
+    expect(biasTowards([20, 20, 20, 40, 0], 5)).toEqual([20, 20, 20, 40, 0]);
+  });
+});
+
+describe('headlineBandWeights', () => {
+  it('only biases a declared band in risk mode', () => {
+    const risky = resolveDiceSettings({ riskMode: true });
+
+    expect(headlineBandWeights(risky, 5)).toEqual(biasTowards(STANDARD_BAND_WEIGHTS, 5));
+    expect(headlineBandWeights(risky, null)).toEqual(STANDARD_BAND_WEIGHTS);
+    expect(headlineBandWeights(resolveDiceSettings(), 5)).toEqual(STANDARD_BAND_WEIGHTS);
+  });
+});
+
+describe('diceSettingsSchema', () => {
+  it('accepts a preset with weights that add up to 100', () => {
+    expect(diceSettingsSchema.safeParse({ preset: 'chaos', weights: [0, 0, 50, 25, 25], riskMode: true }).success).toBe(
+      true
+    );
+  });
+
+  it('rejects unknown presets and weights that are negative or off 100', () => {
+    expect(diceSettingsSchema.safeParse({ preset: 'bold' }).success).toBe(false);
+    expect(diceSettingsSchema.safeParse({ weights: [10, 35, 40, 12, 4] }).success).toBe(false);
+    expect(diceSettingsSchema.safeParse({ weights: [-10, 55, 40, 12, 3] }).success).toBe(false);
+    expect(diceSettingsSchema.safeParse({ weights: [50, 50] }).success).toBe(false);
+  });
+});
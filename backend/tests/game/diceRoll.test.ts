@@ -7,6 +7,11 @@ import {
   rollDice,
   selectHeadline,
   rollAndSelectHeadline,
+  createDiceSeed,
+  hashDiceSeed,
+  rollFromSeed,
+  TARGET_BAND_SHARES,
+  bandShares,
 } from '../../src/game/diceRoll';
 import { HeadlineBands } from '../../src/llm/jurorPrompt';
 
@@ -248,6 +253,68 @@ describe('Dice Roll Functions', () => {
     });
   });
 
+  describe('Seeded rolls', () => {
+    const seed = 'a'.repeat(64);
+
+    it('should derive the documented roll from the seed and sequence number', () => {
+      // HMAC-SHA256(seed, "1"), first six bytes, mod 100, plus 1
+      expect([1, 2, 3].map((sequence) => rollFromSeed(seed, sequence).roll)).toEqual([54, 8, 66]);
+      expect(rollFromSeed(seed, 2).band).toBe(1);
+    });
+
+    it('should give the same roll for the same inputs and differ between seeds', () => {
+      const other = createDiceSeed();
+      const rolls = Array.from({ length: 50 }, (_, i) => rollFromSeed(other, i + 1).roll);
+      expect(Array.from({ length: 50 }, (_, i) => rollFromSeed(other, i + 1).roll)).toEqual(rolls);
+      expect(rolls).not.toEqual(Array.from({ length: 50 }, (_, i) => rollFromSeed(seed, i + 1).roll));
+    });
+
+    it('should create 64-character hex seeds and commit to them with sha-256', () => {
+      expect(createDiceSeed()).toMatch(/^[0-9a-f]{64}$/);
+      expect(createDiceSeed()).not.toBe(createDiceSeed());
+      expect(hashDiceSeed(seed)).toBe('ffe054fe7ae0cb6dc65c3af9b61d5209f439851db43d0ba5997337df154668eb');
+    });
+
+    it('should follow the target distribution over many sequence numbers', () => {
+      const counts = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+      for (let sequence = 1; sequence <= 10000; sequence++) {
+        counts[rollFromSeed(seed, sequence).band]++;
+      }
+      for (const band of [1, 2, 3, 4, 5] as const) {
+        expect(Math.abs(counts[band] / 10000 - TARGET_BAND_SHARES[band])).toBeLessThan(0.02);
+      }
+    });
+
+    it('should read the target shares off the band boundaries', () => {
+      expect(TARGET_BAND_SHARES).toEqual({ 1: 0.1, 2: 0.35, 3: 0.4, 4: 0.12, 5: 0.03 });
+    });
+  });
+
+  describe('Custom weights', () => {
+    it('should map rolls through the given weights', () => {
+      const chaos = [5, 15, 30, 25, 25] as const;
+      expect([1, 5, 6, 20, 21, 50, 51, 75, 76, 100].map((roll) => mapRollToBand(roll, [...chaos]))).toEqual([
+        1, 1, 2, 2, 3, 3, 4, 4, 5, 5,
+      ]);
+    });
+
+    it('should never land on a band weighted 0', () => {
+      expect([1, 50, 51, 100].map((roll) => mapRollToBand(roll, [50, 0, 0, 50, 0]))).toEqual([1, 1, 4, 4]);
+    });
+
+    it('should keep the seeded roll and only change its band', () => {
+      const seed = 'a'.repeat(64);
+      const standard = rollFromSeed(seed, 1);
+      const even = rollFromSeed(seed, 1, [20, 20, 20, 20, 20]);
+      expect(even.roll).toBe(standard.roll);
+      expect(even.band).toBe(mapRollToBand(standard.roll, [20, 20, 20, 20, 20]));
+    });
+
+    it('should read the shares off the weights', () => {
+      expect(bandShares([20, 20, 20, 20, 20])).toEqual({ 1: 0.2, 2: 0.2, 3: 0.2, 4: 0.2, 5: 0.2 });
+    });
+  });
+
   describe('Statistical distribution (sanity check)', () => {
     it('should produce all bands over many rolls', () => {
       const bandCounts = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
@@ -192,3 +192,74 @@ describe('getBreakConfig', () => {
   });
 });
 
+
+describe('computeRoundSpeedRatio with session settings', () => {
+  const MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000;
+  const PLAY_MINUTES = 5;
+  const playMs = PLAY_MINUTES * 60_000;
+
+  it('defaults match the classic 4-round, 20-year format', () => {
+    expect(computeRoundSpeedRatio(3, PLAY_MINUTES, 4, 20)).toBeCloseTo(
+      computeRoundSpeedRatio(3, PLAY_MINUTES),
+      10
+    );
+  });
+
+  it('ratios across all rounds cover exactly the configured span', () => {
+    const rounds = 6;
+    const years = 50;
+    let total = 0;
+    for (let r = 1; r <= rounds; r++) {
+      total += computeRoundSpeedRatio(r, PLAY_MINUTES, rounds, years);
+    }
+    expect(total).toBeCloseTo((years * MS_PER_YEAR) / playMs, 6);
+  });
+
+  it('a single-round game covers the whole span in that round', () => {
+    expect(computeRoundSpeedRatio(1, PLAY_MINUTES, 1, 10)).toBeCloseTo(
+      (10 * MS_PER_YEAR) / playMs,
+      6
+    );
+  });
+
+  it('rounds past maxRounds clamp to the last weight', () => {
+    expect(computeRoundSpeedRatio(4, PLAY_MINUTES, 2, 20)).toBeCloseTo(
+      computeRoundSpeedRatio(2, PLAY_MINUTES, 2, 20),
+      10
+    );
+  });
+});
+
+describe('getBreakConfig with session settings', () => {
+  const settings = {
+    breakSchedule: [2, 4, 6, 8, 10],
+    summaryRounds: [2, 5],
+  };
+
+  it('uses the configured duration for each break', () => {
+    expect(getBreakConfig(1, settings).durationMin).toBe(2);
+    expect(getBreakConfig(4, settings).durationMin).toBe(8);
+  });
+
+  it('first summary break covers every round from round 1', () => {
+    const cfg = getBreakConfig(2, settings);
+    expect(cfg.generateSummary).toBe(true);
+    expect(cfg.summaryFromRound).toBe(1);
+  });
+
+  it('later summary breaks start after the previous summary break', () => {
+    const cfg = getBreakConfig(5, settings);
+    expect(cfg.generateSummary).toBe(true);
+    expect(cfg.summaryFromRound).toBe(3);
+  });
+
+  it('breaks not listed in summaryRounds have no summary', () => {
+    const cfg = getBreakConfig(3, settings);
+    expect(cfg.generateSummary).toBe(false);
+    expect(cfg.summaryFromRound).toBeNull();
+  });
+
+  it('rounds beyond the schedule fall back to no summary', () => {
+    expect(getBreakConfig(6, settings).generateSummary).toBe(false);
+  });
+});
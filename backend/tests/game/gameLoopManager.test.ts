@@ -1,5 +1,6 @@
 import { gameLoopManager } from '../../src/game/gameLoop';
 import pool from '../../src/db/pool';
+import { SessionLeadership, localLeadership } from '../../src/cluster/sessionLeadership';
 
 // Mock the database pool
 jest.mock('../../src/db/pool', () => ({
@@ -195,6 +196,11 @@ describe('GameLoopManager', () => {
       expect(mockEmit).toHaveBeenCalledWith('game:state', expect.objectContaining({
         phase: 'PLAYING',
         currentRound: 1,
+        // the same session settings as lobby:get_state, so clients can replace their state
+        teams: [],
+        joinLocked: false,
+        scoring: expect.objectContaining({ preset: 'classic' }),
+        voting: expect.objectContaining({ enabled: true }),
       }));
     });
   });
@@ -301,5 +307,457 @@ describe('GameLoopManager', () => {
       expect(pool.query).toHaveBeenCalledTimes(4);
     });
   });
-});
 
+  describe('host controls', () => {
+    const sessionRow = {
+      id: 'session-123',
+      join_code: 'ABC123',
+      play_minutes: 8,
+      break_minutes: 3,
+      max_rounds: 4,
+      timeline_speed_ratio: 60.0,
+    };
+
+    const mockClient = () => ({
+      query: jest.fn().mockResolvedValue({ rows: [] }),
+      release: jest.fn(),
+    });
+
+    const loadPlayingLoop = async (overrides: Record<string, any> = {}) => {
+      const now = Date.now();
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [sessionRow] })
+        .mockResolvedValueOnce({
+          rows: [{
+            phase: 'PLAYING',
+            current_round: 1,
+            phase_started_at: new Date(now - 60_000),
+            phase_ends_at: new Date(now + 7 * 60_000),
+            in_game_start_at: new Date(now - 60_000),
+            paused_at: null,
+            play_minutes: 8,
+            break_minutes: 3,
+            max_rounds: 4,
+            timeline_speed_ratio: 1000,
+            ...overrides,
+          }],
+        })
+        .mockResolvedValue({ rows: [] }); // broadcasts find no session and return early
+      return gameLoopManager.ensureLoopForSession('session-123', 'ABC123');
+    };
+
+    it('pause freezes the loop and records a PAUSE action', async () => {
+      const client = mockClient();
+      (pool.connect as jest.Mock).mockResolvedValue(client);
+      const loop = await loadPlayingLoop();
+
+      await gameLoopManager.pauseGame('session-123', 'ABC123', 'player-1');
+
+      expect(loop.getState().pausedAt).toBeInstanceOf(Date);
+      expect(client.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO game_session_state_transitions'),
+        expect.arrayContaining(['session-123', 'PLAYING', 'PLAYING', 1, 'PAUSE'])
+      );
+    });
+
+    it('rejects pausing twice', async () => {
+      (pool.connect as jest.Mock).mockResolvedValue(mockClient());
+      await loadPlayingLoop({ paused_at: new Date() });
+
+      await expect(
+        gameLoopManager.pauseGame('session-123', 'ABC123')
+      ).rejects.toMatchObject({ code: 'ALREADY_PAUSED' });
+    });
+
+    it('resume shifts the phase window forward by the paused duration', async () => {
+      (pool.connect as jest.Mock).mockResolvedValue(mockClient());
+      const pausedAt = new Date(Date.now() - 30_000);
+      const loop = await loadPlayingLoop({ paused_at: pausedAt });
+      const before = loop.getState();
+
+      await gameLoopManager.resumeGame('session-123', 'ABC123');
+
+      const after = loop.getState();
+      expect(after.pausedAt).toBeNull();
+      const shift = after.phaseEndsAt!.getTime() - before.phaseEndsAt!.getTime();
+      expect(shift).toBeGreaterThanOrEqual(30_000);
+      expect(shift).toBeLessThan(31_000);
+      expect(after.phaseStartedAt!.getTime() - before.phaseStartedAt!.getTime()).toBe(shift);
+    });
+
+    it('extend pushes the phase end back', async () => {
+      const client = mockClient();
+      (pool.connect as jest.Mock).mockResolvedValue(client);
+      const loop = await loadPlayingLoop();
+      const before = loop.getState().phaseEndsAt!.getTime();
+
+      await gameLoopManager.extendPhase('session-123', 'ABC123', 120_000);
+
+      expect(loop.getState().phaseEndsAt!.getTime()).toBe(before + 120_000);
+      expect(client.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO game_session_state_transitions'),
+        expect.arrayContaining(['EXTEND'])
+      );
+    });
+
+    it('skip moves straight to the next phase', async () => {
+      (pool.connect as jest.Mock).mockResolvedValue(mockClient());
+      const loop = await loadPlayingLoop();
+
+      await gameLoopManager.skipPhase('session-123', 'ABC123');
+
+      expect(loop.getState().phase).toBe('BREAK');
+      expect(loop.getState().currentRound).toBe(1);
+    });
+
+    it('controls are rejected before the game starts', async () => {
+      (pool.connect as jest.Mock).mockResolvedValue(mockClient());
+      await loadPlayingLoop({ phase: 'WAITING', current_round: 0 });
+
+      await expect(
+        gameLoopManager.skipPhase('session-123', 'ABC123')
+      ).rejects.toMatchObject({ code: 'NOT_RUNNING' });
+    });
+  });
+
+  describe('recovery after restart', () => {
+    const sessionRow = {
+      id: 'session-123',
+      join_code: 'ABC123',
+      play_minutes: 8,
+      break_minutes: 3,
+      max_rounds: 4,
+      timeline_speed_ratio: 60.0,
+    };
+
+    const stateRow = (overrides: Record<string, any>) => ({
+      phase: 'PLAYING',
+      current_round: 1,
+      phase_started_at: null,
+      phase_ends_at: null,
+      in_game_start_at: null,
+      paused_at: null,
+      play_minutes: 8,
+      break_minutes: 3,
+      max_rounds: 4,
+      timeline_speed_ratio: 1000,
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      (pool.connect as jest.Mock).mockResolvedValue({
+        query: jest.fn().mockResolvedValue({ rows: [] }),
+        release: jest.fn(),
+      });
+    });
+
+    it('fast-forwards an expired phase from its scheduled end', async () => {
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+      const endedAt = new Date(Date.now() - 60_000);
+
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ id: 'session-123', join_code: 'ABC123' }] }) // active session scan
+        .mockResolvedValueOnce({ rows: [sessionRow] }) // config
+        .mockResolvedValueOnce({
+          rows: [stateRow({
+            phase_started_at: new Date(endedAt.getTime() - 8 * 60_000),
+            phase_ends_at: endedAt,
+            in_game_start_at: new Date(endedAt.getTime() - 8 * 60_000),
+          })],
+        }) // loadFromDatabase
+        .mockResolvedValueOnce({ rows: [{ id: 'archive-1' }] }) // archive player
+        .mockResolvedValueOnce({ rows: [{ count: 36 }] }) // seeds already posted
+        .mockResolvedValue({ rows: [] }); // broadcasts
+
+      await gameLoopManager.resumeActiveSessions();
+
+      const loop = await gameLoopManager.ensureLoopForSession('session-123', 'ABC123');
+      const state = loop.getState();
+      expect(state.phase).toBe('BREAK');
+      expect(state.currentRound).toBe(1);
+      expect(state.phaseStartedAt!.getTime()).toBe(endedAt.getTime());
+      // 3-minute break after round 1, measured from the missed transition
+      expect(state.phaseEndsAt!.getTime()).toBe(endedAt.getTime() + 3 * 60_000);
+    });
+
+    it('leaves a still-running phase in place and re-arms its timer', async () => {
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+      const endsAt = new Date(Date.now() + 5 * 60_000);
+
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ id: 'session-123', join_code: 'ABC123' }] })
+        .mockResolvedValueOnce({ rows: [sessionRow] })
+        .mockResolvedValueOnce({
+          rows: [stateRow({
+            phase_started_at: new Date(Date.now() - 3 * 60_000),
+            phase_ends_at: endsAt,
+            in_game_start_at: new Date(),
+          })],
+        })
+        .mockResolvedValueOnce({ rows: [{ id: 'archive-1' }] })
+        .mockResolvedValueOnce({ rows: [{ count: 36 }] })
+        .mockResolvedValue({ rows: [] });
+
+      await gameLoopManager.resumeActiveSessions();
+
+      const loop = await gameLoopManager.ensureLoopForSession('session-123', 'ABC123');
+      expect(loop.getState().phase).toBe('PLAYING');
+      expect(pool.connect).not.toHaveBeenCalled();
+      expect(jest.getTimerCount()).toBe(1);
+    });
+
+    it('keeps a paused session paused', async () => {
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ id: 'session-123', join_code: 'ABC123' }] })
+        .mockResolvedValueOnce({ rows: [sessionRow] })
+        .mockResolvedValueOnce({
+          rows: [stateRow({
+            phase_started_at: new Date(Date.now() - 20 * 60_000),
+            phase_ends_at: new Date(Date.now() - 12 * 60_000),
+            paused_at: new Date(Date.now() - 15 * 60_000),
+          })],
+        })
+        .mockResolvedValueOnce({ rows: [{ id: 'archive-1' }] })
+        .mockResolvedValueOnce({ rows: [{ count: 36 }] });
+
+      await gameLoopManager.resumeActiveSessions();
+
+      const loop = await gameLoopManager.ensureLoopForSession('session-123', 'ABC123');
+      expect(loop.getState().phase).toBe('PLAYING');
+      expect(loop.getState().pausedAt).toBeInstanceOf(Date);
+      expect(jest.getTimerCount()).toBe(0);
+    });
+
+    it('one failing session does not stop the others resuming', async () => {
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [
+          { id: 'missing', join_code: 'ZZZ999' },
+          { id: 'session-123', join_code: 'ABC123' },
+        ] })
+        .mockResolvedValueOnce({ rows: [] }) // config for missing session
+        .mockResolvedValueOnce({ rows: [sessionRow] })
+        .mockResolvedValueOnce({ rows: [stateRow({ phase: 'WAITING', current_round: 0 })] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ count: 0 }] });
+
+      await expect(gameLoopManager.resumeActiveSessions()).resolves.toBeUndefined();
+      expect(pool.query).toHaveBeenCalledWith(expect.stringContaining('SELECT id, join_code'), ['session-123']);
+    });
+
+    it('stays quiet when there is nothing to resume', async () => {
+      const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+      (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+      await gameLoopManager.resumeActiveSessions();
+
+      expect(log).not.toHaveBeenCalled();
+      log.mockRestore();
+    });
+
+    it("posts the rest of the session scenario's seeds when the tutorial ran out", async () => {
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+      const endedAt = new Date(Date.now() - 60_000);
+      const scenario = {
+        id: 'mars-colony',
+        name: 'Mars colony',
+        description: '',
+        topic: { subject: 'Mars settlement', framing: 'the first decades of a colony on Mars' },
+        seedHeadlines: [
+          { text: 'First seed', inGameYear: 2024, inGameMonth: 1 },
+          { text: 'Second seed', inGameYear: 2024, inGameMonth: 6 },
+          { text: 'Third seed', inGameYear: 2025, inGameMonth: 2 },
+        ],
+        planetSet: { pack: 'classic' },
+        startYear: 2030,
+      };
+
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ id: 'session-123', join_code: 'ABC123' }] })
+        .mockResolvedValueOnce({ rows: [sessionRow] })
+        .mockResolvedValueOnce({
+          rows: [stateRow({
+            phase: 'TUTORIAL',
+            current_round: 0,
+            phase_started_at: new Date(endedAt.getTime() - 3 * 60_000),
+            phase_ends_at: endedAt,
+            scenario,
+          })],
+        })
+        .mockResolvedValueOnce({ rows: [{ id: 'archive-1' }] })
+        .mockResolvedValueOnce({ rows: [{ count: 1 }] }) // first seed already posted
+        .mockImplementation(async (sql: string) =>
+          sql.includes('INSERT INTO game_session_headlines')
+            ? { rows: [{ id: 'seed', created_at: new Date() }] }
+            : { rows: [] }
+        );
+
+      await gameLoopManager.resumeActiveSessions();
+
+      const seedTexts = (pool.query as jest.Mock).mock.calls
+        .filter(([sql]) => sql.includes('INSERT INTO game_session_headlines'))
+        .map(([, params]) => params[2]);
+      expect(seedTexts).toEqual(['Second seed', 'Third seed']);
+    });
+  });
+
+  describe('clustering', () => {
+    const sessionRow = {
+      id: 'session-123',
+      join_code: 'ABC123',
+      play_minutes: 8,
+      break_minutes: 3,
+      max_rounds: 4,
+      timeline_speed_ratio: 60.0,
+    };
+
+    let leads: boolean;
+    let lostListeners: Array<(sessionIds: string[]) => void>;
+    let clusterIO: any;
+
+    const leadership: SessionLeadership = {
+      tryAcquire: jest.fn(async () => leads),
+      release: jest.fn(async () => {}),
+      isLeader: () => leads,
+      onLost: (listener) => {
+        lostListeners.push(listener);
+      },
+    };
+
+    const forwardedCommandHandler = () =>
+      clusterIO.on.mock.calls.find(([event]: [string]) => event === 'game:command')[1];
+
+    const loadPlayingLoop = async () => {
+      const now = Date.now();
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [sessionRow] })
+        .mockResolvedValueOnce({
+          rows: [{
+            phase: 'PLAYING',
+            current_round: 1,
+            phase_started_at: new Date(now - 60_000),
+            phase_ends_at: new Date(now + 7 * 60_000),
+            in_game_start_at: new Date(now - 60_000),
+            paused_at: null,
+            play_minutes: 8,
+            break_minutes: 3,
+            max_rounds: 4,
+            timeline_speed_ratio: 1000,
+          }],
+        })
+        .mockResolvedValue({ rows: [] });
+      return gameLoopManager.ensureLoopForSession('session-123', 'ABC123');
+    };
+
+    beforeEach(() => {
+      leads = true;
+      lostListeners = [];
+      clusterIO = {
+        to: mockTo,
+        on: jest.fn(),
+        serverSideEmit: jest.fn(),
+      };
+      gameLoopManager.setSocketIO(clusterIO);
+      gameLoopManager.enableClustering(leadership);
+    });
+
+    afterEach(() => {
+      gameLoopManager.stopAll();
+      gameLoopManager.enableClustering(localLeadership);
+      gameLoopManager.stopAll();
+    });
+
+    it('forwards host controls to the instance that leads the session', async () => {
+      leads = false;
+      clusterIO.serverSideEmit.mockImplementation((_event: string, _payload: unknown, ack: any) =>
+        ack(null, [{ handled: false }, { handled: true }])
+      );
+
+      await gameLoopManager.pauseGame('session-123', 'ABC123', 'player-1');
+
+      expect(clusterIO.serverSideEmit).toHaveBeenCalledWith(
+        'game:command',
+        { sessionId: 'session-123', command: { type: 'pause', playerId: 'player-1' } },
+        expect.any(Function)
+      );
+      // nothing was loaded locally
+      expect(pool.query).not.toHaveBeenCalled();
+    });
+
+    it('rethrows a rejection from the leading instance', async () => {
+      leads = false;
+      clusterIO.serverSideEmit.mockImplementation((_event: string, _payload: unknown, ack: any) =>
+        ack(null, [{ handled: true, error: { message: 'Game is already paused', code: 'ALREADY_PAUSED' } }])
+      );
+
+      await expect(
+        gameLoopManager.pauseGame('session-123', 'ABC123')
+      ).rejects.toMatchObject({ code: 'ALREADY_PAUSED', message: 'Game is already paused' });
+    });
+
+    it('reports LEADER_UNAVAILABLE when no instance handles the command', async () => {
+      leads = false;
+      clusterIO.serverSideEmit.mockImplementation((_event: string, _payload: unknown, ack: any) =>
+        ack(new Error('timeout reached: missing 1 responses'), [])
+      );
+
+      await expect(
+        gameLoopManager.skipPhase('session-123', 'ABC123')
+      ).rejects.toMatchObject({ code: 'LEADER_UNAVAILABLE' });
+    });
+
+    it('answers commands forwarded for a session it leads', async () => {
+      (pool.connect as jest.Mock).mockResolvedValue({
+        query: jest.fn().mockResolvedValue({ rows: [] }),
+        release: jest.fn(),
+      });
+      const loop = await loadPlayingLoop();
+
+      const ack = jest.fn();
+      await forwardedCommandHandler()({ sessionId: 'session-123', command: { type: 'pause' } }, ack);
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(ack).toHaveBeenCalledWith({ handled: true });
+      expect(loop.getState().pausedAt).toBeInstanceOf(Date);
+
+      const otherAck = jest.fn();
+      forwardedCommandHandler()({ sessionId: 'other-session', command: { type: 'pause' } }, otherAck);
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(otherAck).toHaveBeenCalledWith({ handled: false });
+    });
+
+    it('lists the sessions whose loops it leads', async () => {
+      expect(gameLoopManager.ledSessionIds()).toEqual([]);
+
+      await loadPlayingLoop();
+      expect(gameLoopManager.ledSessionIds()).toEqual(['session-123']);
+
+      leads = false;
+      expect(gameLoopManager.ledSessionIds()).toEqual([]);
+    });
+
+    it('leaves sessions another instance leads when resuming', async () => {
+      leads = false;
+      (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [{ id: 'session-123', join_code: 'ABC123' }] });
+
+      await gameLoopManager.resumeActiveSessions();
+
+      expect(leadership.tryAcquire).toHaveBeenCalledWith('session-123');
+      expect(pool.query).toHaveBeenCalledTimes(1);
+      expect(gameLoopManager.leadsSession('session-123')).toBe(false);
+    });
+
+    it('stops the loop when leadership is lost', async () => {
+      const loop = await loadPlayingLoop();
+      const stop = jest.spyOn(loop, 'stop');
+      expect(gameLoopManager.leadsSession('session-123')).toBe(true);
+
+      leads = false;
+      lostListeners.forEach((listener) => listener(['session-123']));
+
+      expect(stop).toHaveBeenCalled();
+      expect(gameLoopManager.leadsSession('session-123')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { resolveGameSettings, settingsFromRow, DEFAULT_GAME_SETTINGS } from '../../src/game/gameSettings';
+import { createSessionSchema } from '../../src/utils/validation';
+
+describe('resolveGameSettings', () => {
+  it('returns the classic format when nothing is configured', () => {
+    expect(resolveGameSettings()).toEqual(DEFAULT_GAME_SETTINGS);
+  });
+
+  it('pads the default break schedule for longer games', () => {
+    const settings = resolveGameSettings({ maxRounds: 6 });
+    expect(settings.breakSchedule).toEqual([3, 5, 3, 3, 3]);
+    expect(settings.summaryRounds).toEqual([2]);
+  });
+
+  it('trims the default break schedule and drops unreachable summaries for shorter games', () => {
+    const settings = resolveGameSettings({ maxRounds: 2 });
+    expect(settings.breakSchedule).toEqual([3]);
+    expect(settings.summaryRounds).toEqual([]);
+  });
+
+  it('sorts and de-duplicates summary rounds', () => {
+    const settings = resolveGameSettings({ summaryRounds: [3, 1, 3] });
+    expect(settings.summaryRounds).toEqual([1, 3]);
+  });
+
+  it('keeps explicit values', () => {
+    const settings = resolveGameSettings({
+      maxRounds: 3,
+      playMinutes: 12,
+      breakSchedule: [4, 7],
+      summaryRounds: [1, 2],
+      startYear: 2030,
+      totalYears: 50,
+    });
+    expect(settings).toEqual({
+      maxRounds: 3,
+      playMinutes: 12,
+      breakSchedule: [4, 7],
+      summaryRounds: [1, 2],
+      startYear: 2030,
+      totalYears: 50,
+    });
+  });
+});
+
+describe('settingsFromRow', () => {
+  it('falls back to defaults for rows without settings columns', () => {
+    expect(settingsFromRow({ max_rounds: 4, play_minutes: 8 })).toEqual(DEFAULT_GAME_SETTINGS);
+  });
+
+  it('reads stored settings', () => {
+    const settings = settingsFromRow({
+      max_rounds: 3,
+      play_minutes: 10,
+      break_schedule: [5, 5],
+      summary_rounds: [1],
+      start_year: 2040,
+      total_years: 30,
+    });
+    expect(settings.breakSchedule).toEqual([5, 5]);
+    expect(settings.startYear).toBe(2040);
+    expect(settings.totalYears).toBe(30);
+  });
+});
+
+describe('createSessionSchema settings', () => {
+  it('accepts a body without settings', () => {
+    expect(createSessionSchema.safeParse({ hostNickname: 'Alice' }).success).toBe(true);
+  });
+
+  it('rejects a break schedule that does not match the round count', () => {
+    const result = createSessionSchema.safeParse({
+      hostNickname: 'Alice',
+      settings: { maxRounds: 3, breakSchedule: [3, 3, 3] },
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects a summary after the final round', () => {
+    const result = createSessionSchema.safeParse({
+      hostNickname: 'Alice',
+      settings: { maxRounds: 3, summaryRounds: [3] },
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects out-of-range values', () => {
+    expect(
+      createSessionSchema.safeParse({ hostNickname: 'Alice', settings: { maxRounds: 0 } }).success
+    ).toBe(false);
+    expect(
+      createSessionSchema.safeParse({ hostNickname: 'Alice', settings: { playMinutes: 0 } }).success
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,349 @@
+/**
+ * Tests for the per-session background evaluation of submitted headlines.
+ */
+
+import { Server } from 'socket.io';
+import pool from '../../src/db/pool';
+import { headlineEvaluationQueue, QueuedHeadline } from '../../src/game/headlineEvaluationQueue';
+import { transformHeadline } from '../../src/game/headlineTransformationService';
+import { sessionPromptVariant } from '../../src/game/promptExperiments';
+import { sessionDiceRoll } from '../../src/game/diceAudit';
+import { applyHeadlineEvaluation } from '../../src/game/scoringService';
+import { SEED_HEADLINES } from '../../src/game/seedHeadlines';
+import { DEFAULT_SCENARIO_TOPIC } from '../../src/llm/scenarioTopic';
+
+jest.mock('../../src/db/pool', () => ({
+  __esModule: true,
+  default: {
+    query: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/game/headlineTransformationService', () => ({
+  transformHeadline: jest.fn(),
+}));
+
+jest.mock('../../src/game/promptExperiments', () => ({
+  sessionPromptVariant: jest.fn().mockResolvedValue('juror.v2'),
+}));
+
+jest.mock('../../src/game/diceAudit', () => ({
+  sessionDiceRoll: jest.fn().mockResolvedValue({ roll: 42, band: 2 }),
+}));
+
+jest.mock('../../src/game/scoringService', () => ({
+  applyHeadlineEvaluation: jest.fn().mockResolvedValue({
+    breakdown: { baseline: 1, plausibility: 2, connectionScore: 0, planetBonus: 0, total: 3 },
+    newTotalScore: 3,
+    leaderboard: [{ playerId: 'player-1', nickname: 'Alice', totalScore: 3, rank: 1 }],
+  }),
+  getPlayerScoreBreakdowns: jest.fn().mockResolvedValue(new Map()),
+}));
+
+const transformResult = {
+  plausibility: { band: 3, label: 'plausible', rationale: 'Test' },
+  planets: {
+    top3: [
+      { id: 'MARS', rank: 1, rationale: 'Test' },
+      { id: 'VENUS', rank: 2, rationale: 'Test' },
+      { id: 'EARTH', rank: 3, rationale: 'Test' },
+    ],
+  },
+  linked: [
+    { headline: 'H1', strength: 'WEAK', rationale: 'Test' },
+    { headline: 'H2', strength: 'WEAK', rationale: 'Test' },
+    { headline: 'H3', strength: 'WEAK', rationale: 'Test' },
+  ],
+  allBands: { band1: 'B1', band2: 'B2', band3: 'B3', band4: 'B4', band5: 'B5' },
+  diceRoll: 50,
+  selectedBand: 3,
+  selectedHeadline: 'B3',
+  model: 'gpt-5.2',
+  promptVersion: 'juror.v2',
+  llmRequest: {},
+  llmResponse: '{}',
+};
+
+/** a promise plus the function that resolves it */
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+}
+
+describe('Headline evaluation queue', () => {
+  const emit = jest.fn();
+  const mockIO = { to: jest.fn().mockReturnValue({ emit }) } as unknown as Server;
+
+  const makeHeadline = (overrides: Partial<QueuedHeadline> = {}): QueuedHeadline => ({
+    id: 'headline-1',
+    sessionId: 'session-123',
+    joinCode: 'ABC123',
+    playerId: 'player-1',
+    playerNickname: 'Alice',
+    roundNo: 2,
+    storyDirection: 'AI runs the post office',
+    planetList: [
+      { id: 'MERCURY', description: 'Communication' },
+      { id: 'VENUS', description: 'Art' },
+      { id: 'EARTH', description: 'Nature' },
+    ],
+    topic: DEFAULT_SCENARIO_TOPIC,
+    moderationStrictness: 'standard',
+    moderationStatus: 'approved',
+    llmAttempts: 0,
+    createdAt: new Date('2026-01-01T10:00:00Z'),
+    inGameSubmittedAt: new Date('2031-05-01T00:00:00Z'),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (pool.query as jest.Mock).mockResolvedValue({ rows: [], rowCount: 1 });
+    headlineEvaluationQueue.setSocketIO(mockIO);
+  });
+
+  it('should evaluate, store, broadcast and score a pending headline', async () => {
+    (transformHeadline as jest.Mock).mockResolvedValueOnce(transformResult);
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ seed_count: SEED_HEADLINES.length }] }) // juror window
+      .mockResolvedValueOnce({ rows: [{ id: 'h0', text: 'Earlier headline' }] }) // juror context
+      .mockResolvedValueOnce({ rows: [], rowCount: 1 }); // store evaluation
+
+    const evaluated = await headlineEvaluationQueue.enqueue(makeHeadline());
+
+    expect(evaluated).toBe(true);
+
+    // the context is windowed to the most recent N headlines submitted before this one
+    expect((pool.query as jest.Mock).mock.calls[0][1]).toEqual(['session-123']);
+    const contextCall = (pool.query as jest.Mock).mock.calls[1];
+    expect(contextCall[0]).toContain('created_at < $3');
+    expect(contextCall[1]).toEqual([
+      'session-123',
+      SEED_HEADLINES.length,
+      new Date('2026-01-01T10:00:00Z'),
+    ]);
+    expect(transformHeadline).toHaveBeenCalledWith(
+      expect.objectContaining({
+        storyDirection: 'AI runs the post office',
+        headlinesList: [{ id: 'h0', text: 'Earlier headline' }],
+        planetList: [
+          { id: 'MERCURY', description: 'Communication' },
+          { id: 'VENUS', description: 'Art' },
+          { id: 'EARTH', description: 'Nature' },
+        ],
+        topic: DEFAULT_SCENARIO_TOPIC,
+        promptVariant: 'juror.v2',
+        diceRoll: { roll: 42, band: 2 },
+      })
+    );
+    expect(sessionPromptVariant).toHaveBeenCalledWith('session-123', 'juror', 'headline-1');
+    expect(sessionDiceRoll).toHaveBeenCalledWith('session-123', 'headline-1');
+
+    const updateCall = (pool.query as jest.Mock).mock.calls[2];
+    expect(updateCall[0]).toContain("llm_status = 'evaluated'");
+    expect(updateCall[1][20]).toBe('juror.v2');
+    expect(updateCall[1][21]).toBe('headline-1');
+
+    expect(mockIO.to).toHaveBeenCalledWith('session:ABC123');
+    expect(emit).toHaveBeenCalledWith(
+      'headline:evaluated',
+      expect.objectContaining({
+        id: 'headline-1',
+        text: 'B3',
+        selectedBand: 3,
+        llmStatus: 'evaluated',
+        inGameSubmittedAt: '2031-05-01T00:00:00.000Z',
+      })
+    );
+    expect(applyHeadlineEvaluation).toHaveBeenCalledWith(
+      expect.objectContaining({ headlineId: 'headline-1', playerId: 'player-1', roundNo: 2 })
+    );
+    expect(emit).toHaveBeenCalledWith('leaderboard:update', expect.anything());
+  });
+
+  it("should size the juror's context window to the session's scenario pack", async () => {
+    (transformHeadline as jest.Mock).mockResolvedValueOnce(transformResult);
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [{ seed_count: 3 }] }); // a three-seed pack
+
+    await headlineEvaluationQueue.enqueue(makeHeadline());
+
+    const [windowCall, contextCall] = (pool.query as jest.Mock).mock.calls;
+    expect(windowCall[0]).toContain("scenario->'seedHeadlines'");
+    expect(contextCall[1]).toEqual(['session-123', 3, new Date('2026-01-01T10:00:00Z')]);
+  });
+
+  it('should fall back to the default window for sessions without a scenario pack', async () => {
+    (transformHeadline as jest.Mock).mockResolvedValueOnce(transformResult);
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [{ seed_count: null }] });
+
+    await headlineEvaluationQueue.enqueue(makeHeadline());
+
+    expect((pool.query as jest.Mock).mock.calls[1][1][1]).toBe(SEED_HEADLINES.length);
+  });
+
+  it('should evaluate headlines from one session in submission order, one at a time', async () => {
+    const first = deferred<typeof transformResult>();
+    (transformHeadline as jest.Mock)
+      .mockReturnValueOnce(first.promise)
+      .mockResolvedValueOnce(transformResult);
+
+    const firstDone = headlineEvaluationQueue.enqueue(makeHeadline({ id: 'headline-1' }));
+    const secondDone = headlineEvaluationQueue.enqueue(
+      makeHeadline({ id: 'headline-2', storyDirection: 'Second' })
+    );
+
+    // give the queue a chance to start the second evaluation early
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(transformHeadline).toHaveBeenCalledTimes(1);
+    expect(headlineEvaluationQueue.isQueued('headline-2')).toBe(true);
+
+    first.resolve(transformResult);
+    await expect(firstDone).resolves.toBe(true);
+    await expect(secondDone).resolves.toBe(true);
+
+    expect(transformHeadline).toHaveBeenCalledTimes(2);
+    expect((transformHeadline as jest.Mock).mock.calls[1][0].storyDirection).toBe('Second');
+    expect(headlineEvaluationQueue.isQueued('headline-2')).toBe(false);
+  });
+
+  it('should not hold up other sessions', async () => {
+    const blocked = deferred<typeof transformResult>();
+    (transformHeadline as jest.Mock)
+      .mockReturnValueOnce(blocked.promise)
+      .mockResolvedValueOnce(transformResult);
+
+    const blockedDone = headlineEvaluationQueue.enqueue(makeHeadline({ id: 'headline-1' }));
+    const otherDone = await headlineEvaluationQueue.enqueue(
+      makeHeadline({ id: 'headline-2', sessionId: 'session-456', joinCode: 'XYZ789' })
+    );
+
+    expect(otherDone).toBe(true);
+
+    blocked.resolve(transformResult);
+    await headlineEvaluationQueue.drain('session-123');
+    await expect(blockedDone).resolves.toBe(true);
+  });
+
+  it('should mark the headline failed and queue a retry when the juror is down', async () => {
+    (transformHeadline as jest.Mock).mockRejectedValueOnce(new Error('OpenAI API returned 503'));
+
+    const evaluated = await headlineEvaluationQueue.enqueue(makeHeadline());
+
+    expect(evaluated).toBe(false);
+    const updateCall = (pool.query as jest.Mock).mock.calls[2];
+    expect(updateCall[0]).toContain("llm_status = 'failed'");
+    expect(updateCall[1]).toEqual([1, 'OpenAI API returned 503', 30, 'headline-1']);
+
+    // clients swap "deliberating" for "awaiting juror"
+    expect(emit).toHaveBeenCalledWith(
+      'headline:evaluated',
+      expect.objectContaining({
+        id: 'headline-1',
+        text: 'AI runs the post office',
+        llmStatus: 'failed',
+        selectedBand: null,
+        planets: [],
+      })
+    );
+    expect(applyHeadlineEvaluation).not.toHaveBeenCalled();
+  });
+
+  it('should keep the session queue moving after an unexpected error', async () => {
+    (transformHeadline as jest.Mock)
+      .mockResolvedValueOnce(transformResult)
+      .mockResolvedValueOnce(transformResult);
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [] }) // juror window
+      .mockResolvedValueOnce({ rows: [] }) // juror context
+      .mockRejectedValueOnce(new Error('connection reset')); // store evaluation
+
+    const firstDone = headlineEvaluationQueue.enqueue(makeHeadline({ id: 'headline-1' }));
+    const secondDone = headlineEvaluationQueue.enqueue(makeHeadline({ id: 'headline-2' }));
+
+    await expect(firstDone).resolves.toBe(false);
+    await expect(secondDone).resolves.toBe(true);
+  });
+
+  it('should not queue the same headline twice', async () => {
+    (transformHeadline as jest.Mock).mockResolvedValueOnce(transformResult);
+
+    const results = await Promise.all([
+      headlineEvaluationQueue.enqueue(makeHeadline()),
+      headlineEvaluationQueue.enqueue(makeHeadline()),
+    ]);
+
+    expect(results).toEqual([true, false]);
+    expect(transformHeadline).toHaveBeenCalledTimes(1);
+  });
+
+  // keep last: clustering stays enabled on the shared queue
+  describe('with several instances', () => {
+    let leads: boolean;
+    let forwardedHandler: (headline: QueuedHeadline, ack: (accepted: boolean) => void) => void;
+    const clusterIO = {
+      to: jest.fn().mockReturnValue({ emit }),
+      on: jest.fn(),
+      serverSideEmit: jest.fn(),
+    };
+
+    beforeAll(() => {
+      headlineEvaluationQueue.setSocketIO(clusterIO as unknown as Server);
+      headlineEvaluationQueue.enableClustering(
+        () => leads,
+        () => (leads ? ['session-123'] : [])
+      );
+      forwardedHandler = clusterIO.on.mock.calls.find(([event]) => event === 'headline:evaluate')[1];
+    });
+
+    beforeEach(() => {
+      leads = true;
+      headlineEvaluationQueue.setSocketIO(clusterIO as unknown as Server);
+    });
+
+    it('should forward a submission to the instance leading its session', async () => {
+      leads = false;
+      clusterIO.serverSideEmit.mockImplementationOnce((_event, _payload, ack) => ack(null, [true]));
+
+      await headlineEvaluationQueue.submit(makeHeadline());
+
+      expect(clusterIO.serverSideEmit).toHaveBeenCalledWith(
+        'headline:evaluate',
+        expect.objectContaining({ id: 'headline-1', sessionId: 'session-123' }),
+        expect.any(Function)
+      );
+      expect(headlineEvaluationQueue.isQueued('headline-1')).toBe(false);
+      expect(transformHeadline).not.toHaveBeenCalled();
+    });
+
+    it('should evaluate locally when no instance leads the session', async () => {
+      leads = false;
+      (transformHeadline as jest.Mock).mockResolvedValueOnce(transformResult);
+      clusterIO.serverSideEmit.mockImplementationOnce((_event, _payload, ack) => ack(null, [false]));
+
+      await headlineEvaluationQueue.submit(makeHeadline());
+      await headlineEvaluationQueue.drain('session-123');
+
+      expect(transformHeadline).toHaveBeenCalledTimes(1);
+    });
+
+    it('should accept forwarded submissions for sessions it leads', async () => {
+      (transformHeadline as jest.Mock).mockResolvedValueOnce(transformResult);
+      const ack = jest.fn();
+      forwardedHandler(JSON.parse(JSON.stringify(makeHeadline())), ack);
+      await headlineEvaluationQueue.drain('session-123');
+
+      expect(ack).toHaveBeenCalledWith(true);
+      // dates are revived after the trip between instances
+      const contextCall = (pool.query as jest.Mock).mock.calls[1];
+      expect(contextCall[1][2]).toEqual(new Date('2026-01-01T10:00:00Z'));
+
+      leads = false;
+      const refused = jest.fn();
+      forwardedHandler(JSON.parse(JSON.stringify(makeHeadline({ id: 'headline-2' }))), refused);
+      expect(refused).toHaveBeenCalledWith(false);
+    });
+  });
+});
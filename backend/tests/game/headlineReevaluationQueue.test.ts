@@ -0,0 +1,259 @@
+/**
+ * Tests for the background re-evaluation of headlines the juror failed on.
+ */
+
+import { Server } from 'socket.io';
+import pool from '../../src/db/pool';
+import { headlineReevaluationQueue } from '../../src/game/headlineReevaluationQueue';
+import { headlineEvaluationQueue } from '../../src/game/headlineEvaluationQueue';
+import { reevaluationDelayMs } from '../../src/game/headlineEvaluationService';
+import { transformHeadline } from '../../src/game/headlineTransformationService';
+import { applyHeadlineEvaluation } from '../../src/game/scoringService';
+
+jest.mock('../../src/db/pool', () => ({
+  __esModule: true,
+  default: {
+    query: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/game/headlineTransformationService', () => ({
+  transformHeadline: jest.fn(),
+}));
+
+jest.mock('../../src/game/promptExperiments', () => ({
+  sessionPromptVariant: jest.fn().mockResolvedValue('juror.v2'),
+}));
+
+jest.mock('../../src/game/diceAudit', () => ({
+  sessionDiceRoll: jest.fn().mockResolvedValue({ roll: 42, band: 2 }),
+}));
+
+jest.mock('../../src/game/scoringService', () => ({
+  applyHeadlineEvaluation: jest.fn().mockResolvedValue({
+    breakdown: { baseline: 1, plausibility: 2, connectionScore: 0, planetBonus: 0, total: 3 },
+    newTotalScore: 3,
+    leaderboard: [{ playerId: 'player-2', nickname: 'Bob', totalScore: 3, rank: 1 }],
+  }),
+  getPlayerScoreBreakdowns: jest.fn().mockResolvedValue(new Map()),
+}));
+
+const transformResult = {
+  plausibility: { band: 2, label: 'probable', rationale: 'Test' },
+  planets: {
+    top3: [
+      { id: 'MERCURY', rank: 1, rationale: 'Test' },
+      { id: 'EARTH', rank: 2, rationale: 'Test' },
+      { id: 'MARS', rank: 3, rationale: 'Test' },
+    ],
+  },
+  linked: [
+    { headline: 'H1', strength: 'WEAK', rationale: 'Test' },
+    { headline: 'H2', strength: 'WEAK', rationale: 'Test' },
+    { headline: 'H3', strength: 'WEAK', rationale: 'Test' },
+  ],
+  allBands: { band1: 'B1', band2: 'B2', band3: 'B3', band4: 'B4', band5: 'B5' },
+  diceRoll: 30,
+  selectedBand: 2,
+  selectedHeadline: 'B2',
+  model: 'gpt-5.2',
+  promptVersion: 'juror.v2',
+  llmRequest: {},
+  llmResponse: '{}',
+};
+
+describe('Headline re-evaluation queue', () => {
+  const emit = jest.fn();
+  const mockIO = { to: jest.fn().mockReturnValue({ emit }) } as unknown as Server;
+
+  const failedRow = {
+    id: 'headline-9',
+    session_id: 'session-123',
+    join_code: 'ABC123',
+    player_id: 'player-2',
+    nickname: 'Bob',
+    round_no: 2,
+    headline_text: 'AI runs the post office',
+    llm_attempts: 1,
+    created_at: new Date('2026-01-01T10:00:00Z'),
+    in_game_submitted_at: new Date('2031-05-01T00:00:00Z'),
+    moderation_status: 'approved',
+    moderation_strictness: 'standard',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    headlineEvaluationQueue.setSocketIO(mockIO);
+  });
+
+  it('should back off exponentially up to five minutes', () => {
+    expect(reevaluationDelayMs(1)).toBe(30_000);
+    expect(reevaluationDelayMs(2)).toBe(60_000);
+    expect(reevaluationDelayMs(3)).toBe(120_000);
+    expect(reevaluationDelayMs(10)).toBe(300_000);
+  });
+
+  it('should evaluate, broadcast and score a due headline', async () => {
+    (transformHeadline as jest.Mock).mockResolvedValueOnce(transformResult);
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [failedRow] }) // due headlines
+      .mockResolvedValueOnce({ rows: [{ seed_count: 36 }] }) // juror window
+      .mockResolvedValueOnce({ rows: [{ id: 'h1', text: 'Earlier headline' }] }) // juror context
+      .mockResolvedValueOnce({ rows: [], rowCount: 1 }) // store evaluation
+      .mockResolvedValueOnce({ rows: [{ moderation_status: 'approved' }] }); // generated bands pass moderation
+
+    const evaluated = await headlineReevaluationQueue.processDue();
+
+    expect(evaluated).toBe(1);
+
+    // context is the timeline as it stood at submission time
+    const contextCall = (pool.query as jest.Mock).mock.calls[2];
+    expect(contextCall[0]).toContain('created_at < $3');
+    expect(contextCall[1][2]).toBe(failedRow.created_at);
+    expect(transformHeadline).toHaveBeenCalledWith(
+      expect.objectContaining({
+        storyDirection: 'AI runs the post office',
+        headlinesList: [{ id: 'h1', text: 'Earlier headline' }],
+      })
+    );
+
+    const updateCall = (pool.query as jest.Mock).mock.calls[3];
+    expect(updateCall[0]).toContain("llm_status = 'evaluated'");
+    expect(updateCall[1][2]).toBe('B2');
+    expect(updateCall[1][20]).toBe('juror.v2');
+    expect(updateCall[1][21]).toBe('headline-9');
+
+    expect(mockIO.to).toHaveBeenCalledWith('session:ABC123');
+    expect(emit).toHaveBeenCalledWith(
+      'headline:evaluated',
+      expect.objectContaining({
+        id: 'headline-9',
+        text: 'B2',
+        selectedBand: 2,
+        llmStatus: 'evaluated',
+        inGameSubmittedAt: '2031-05-01T00:00:00.000Z',
+      })
+    );
+    expect(applyHeadlineEvaluation).toHaveBeenCalledWith(
+      expect.objectContaining({ headlineId: 'headline-9', playerId: 'player-2', roundNo: 2 })
+    );
+    expect(emit).toHaveBeenCalledWith('leaderboard:update', expect.anything());
+  });
+
+  it('should push the next attempt back when the juror is still down', async () => {
+    (transformHeadline as jest.Mock).mockRejectedValueOnce(new Error('still down'));
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [failedRow] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    const evaluated = await headlineReevaluationQueue.processDue();
+
+    expect(evaluated).toBe(0);
+    const updateCall = (pool.query as jest.Mock).mock.calls[3];
+    expect(updateCall[0]).toContain('next_evaluation_at = NOW() + make_interval');
+    expect(updateCall[0]).toContain("llm_status = 'failed'");
+    expect(updateCall[1]).toEqual([2, 'still down', 60, 'headline-9']);
+    expect(emit).not.toHaveBeenCalled();
+    expect(applyHeadlineEvaluation).not.toHaveBeenCalled();
+  });
+
+  it('should recover a pending headline whose lease has run out', async () => {
+    (transformHeadline as jest.Mock).mockResolvedValueOnce(transformResult);
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ ...failedRow, llm_attempts: 0 }] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [], rowCount: 1 })
+      .mockResolvedValueOnce({ rows: [{ moderation_status: 'approved' }] });
+
+    const evaluated = await headlineReevaluationQueue.processDue();
+
+    expect(evaluated).toBe(1);
+    expect(emit).toHaveBeenCalledWith(
+      'headline:evaluated',
+      expect.objectContaining({ id: 'headline-9', llmStatus: 'evaluated' })
+    );
+  });
+
+  it('should leave a headline alone when its first evaluation finished in the meantime', async () => {
+    // the lease ran out while the first evaluation was in flight; it finished
+    // between the due query and the queue check, so the row is picked up again
+    (transformHeadline as jest.Mock).mockResolvedValueOnce(transformResult);
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ ...failedRow, llm_attempts: 0 }] })
+      .mockResolvedValueOnce({ rows: [] }) // juror window
+      .mockResolvedValueOnce({ rows: [] }) // juror context
+      .mockResolvedValueOnce({ rows: [], rowCount: 0 }); // already evaluated
+
+    const evaluated = await headlineReevaluationQueue.processDue();
+
+    expect(evaluated).toBe(0);
+    const updateCall = (pool.query as jest.Mock).mock.calls[3];
+    expect(updateCall[0]).toContain("AND llm_status <> 'evaluated'");
+    expect(pool.query).toHaveBeenCalledTimes(4);
+    expect(emit).not.toHaveBeenCalled();
+    expect(applyHeadlineEvaluation).not.toHaveBeenCalled();
+  });
+
+  it('should not mark an evaluated headline failed when a late retry fails', async () => {
+    (transformHeadline as jest.Mock).mockRejectedValueOnce(new Error('still down'));
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ ...failedRow, llm_attempts: 0 }] })
+      .mockResolvedValueOnce({ rows: [] }) // juror window
+      .mockResolvedValueOnce({ rows: [] }) // juror context
+      .mockResolvedValueOnce({ rows: [], rowCount: 0 }); // already evaluated
+
+    const evaluated = await headlineReevaluationQueue.processDue();
+
+    expect(evaluated).toBe(0);
+    expect((pool.query as jest.Mock).mock.calls[3][0]).toContain("AND llm_status <> 'evaluated'");
+    expect(emit).not.toHaveBeenCalled();
+  });
+
+  it('should skip finished sessions', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+    await headlineReevaluationQueue.processDue();
+
+    expect((pool.query as jest.Mock).mock.calls[0][0]).toContain("s.phase <> 'FINISHED'");
+    expect((pool.query as jest.Mock).mock.calls[0][0]).toContain("llm_status IN ('pending', 'failed')");
+    expect(transformHeadline).not.toHaveBeenCalled();
+  });
+
+  // keep last: clustering stays enabled on the shared queue
+  describe('with several instances', () => {
+    let ledSessions: string[];
+
+    beforeAll(() => {
+      headlineEvaluationQueue.setSocketIO({ ...mockIO, on: jest.fn() } as unknown as Server);
+      headlineEvaluationQueue.enableClustering(
+        (sessionId) => ledSessions.includes(sessionId),
+        () => ledSessions
+      );
+    });
+
+    it('should only take due headlines of the sessions this instance leads', async () => {
+      ledSessions = ['session-123', 'session-456'];
+      (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+      await headlineReevaluationQueue.processDue();
+
+      // filtered before the batch limit, so other instances' rows cannot fill it
+      const [sql, params] = (pool.query as jest.Mock).mock.calls[0];
+      expect(sql).toContain('h.session_id = ANY($2)');
+      expect(sql.indexOf('ANY($2)')).toBeLessThan(sql.indexOf('LIMIT $1'));
+      expect(params).toEqual([5, ['session-123', 'session-456']]);
+    });
+
+    it('should not poll when this instance leads no sessions', async () => {
+      ledSessions = [];
+
+      const evaluated = await headlineReevaluationQueue.processDue();
+
+      expect(evaluated).toBe(0);
+      expect(pool.query).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Unit tests for player voting on headlines during breaks
+ */
+
+import { Server } from 'socket.io';
+import {
+  headlineVoting,
+  votingPolicyFromRow,
+  DEFAULT_VOTING_POLICY,
+  VotingError,
+  VotingSession,
+} from '../../src/game/headlineVoting';
+import { getLeaderboard } from '../../src/game/scoringService';
+import { votingSchema } from '../../src/utils/validation';
+import pool from '../../src/db/pool';
+
+jest.mock('../../src/db/pool', () => ({
+  __esModule: true,
+  default: {
+    query: jest.fn(),
+    connect: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/game/scoringService', () => ({
+  ...jest.requireActual('../../src/game/scoringService'),
+  getLeaderboard: jest.fn().mockResolvedValue([]),
+  getPlayerScoreBreakdowns: jest.fn().mockResolvedValue(new Map()),
+}));
+
+const SESSION: VotingSession = {
+  id: 'session-1',
+  joinCode: 'ABC123',
+  phase: 'BREAK',
+  currentRound: 2,
+  pausedAt: null,
+  voting: DEFAULT_VOTING_POLICY,
+};
+
+const HEADLINE = {
+  player_id: 'author-1',
+  round_no: 2,
+  moderation_status: 'approved',
+  is_system: false,
+  team: null,
+};
+
+describe('votingPolicyFromRow', () => {
+  it('fills in the defaults', () => {
+    expect(votingPolicyFromRow(null)).toEqual(DEFAULT_VOTING_POLICY);
+    expect(votingPolicyFromRow({ starPoints: 5 })).toEqual({ ...DEFAULT_VOTING_POLICY, starPoints: 5 });
+  });
+});
+
+describe('votingSchema', () => {
+  it('caps the points and votes', () => {
+    expect(votingSchema.safeParse({ upvotePoints: 2, starsPerBreak: 0 }).success).toBe(true);
+    expect(votingSchema.safeParse({ starPoints: 11 }).success).toBe(false);
+    expect(votingSchema.safeParse({ upvotesPerBreak: -1 }).success).toBe(false);
+  });
+});
+
+describe('headlineVoting.vote', () => {
+  let emit: jest.Mock;
+  let client: { query: jest.Mock; release: jest.Mock };
+  let voter: Record<string, unknown> | null;
+  let headline: Record<string, unknown> | null;
+  let cast: Array<{ headline_id: string; kind: string; points: number }>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    emit = jest.fn();
+    headlineVoting.setSocketIO({ to: jest.fn().mockReturnValue({ emit }) } as unknown as Server);
+    voter = { id: 'voter-1', team: null };
+    headline = { ...HEADLINE };
+    cast = [];
+    client = {
+      query: jest.fn().mockImplementation(async (sql: string) => {
+        if (sql.includes('FROM session_players')) return { rows: voter ? [voter] : [] };
+        if (sql.includes('FROM game_session_headlines')) return { rows: headline ? [headline] : [] };
+        if (sql.includes('SELECT headline_id, kind, points')) return { rows: cast };
+        if (sql.includes('COUNT(*)')) return { rows: [{ upvotes: 1, stars: 0, vote_points: 1 }] };
+        return { rows: [] };
+      }),
+      release: jest.fn(),
+    };
+    (pool.connect as jest.Mock).mockResolvedValue(client);
+  });
+
+  function queries(fragment: string): unknown[][] {
+    return client.query.mock.calls.filter(([sql]) => String(sql).includes(fragment));
+  }
+
+  it('records an upvote and adds its points to the author', async () => {
+    const result = await headlineVoting.vote(SESSION, 'voter-1', 'headline-1', 'up');
+
+    expect(result).toEqual({
+      headlineId: 'headline-1',
+      authorId: 'author-1',
+      vote: 'up',
+      tally: { upvotes: 1, stars: 0, points: 1 },
+      remaining: { upvotes: 2, stars: 1 },
+    });
+    expect(queries('INSERT INTO headline_votes')[0][1]).toEqual([
+      'session-1', 'headline-1', 'voter-1', 'author-1', 2, 'up', 1,
+    ]);
+    expect(queries('UPDATE session_players')[0][1]).toEqual([1, 'author-1']);
+    expect(client.query).toHaveBeenCalledWith('COMMIT');
+    expect(emit).toHaveBeenCalledWith('headline:votes', {
+      headlineId: 'headline-1',
+      votes: { upvotes: 1, stars: 0, points: 1 },
+    });
+    expect(getLeaderboard).toHaveBeenCalledWith('session-1');
+    expect(emit).toHaveBeenCalledWith('leaderboard:update', expect.any(Object));
+  });
+
+  it('moves the score by the difference when an upvote becomes a star', async () => {
+    cast = [{ headline_id: 'headline-1', kind: 'up', points: 1 }];
+
+    const result = await headlineVoting.vote(SESSION, 'voter-1', 'headline-1', 'star');
+
+    expect(queries('UPDATE session_players')[0][1]).toEqual([2, 'author-1']);
+    expect(result.remaining).toEqual({ upvotes: 3, stars: 0 });
+  });
+
+  it('takes a vote back', async () => {
+    cast = [{ headline_id: 'headline-1', kind: 'star', points: 3 }];
+
+    const result = await headlineVoting.vote(SESSION, 'voter-1', 'headline-1', null);
+
+    expect(result.vote).toBeNull();
+    expect(queries('DELETE FROM headline_votes')).toHaveLength(1);
+    expect(queries('UPDATE session_players')[0][1]).toEqual([-3, 'author-1']);
+  });
+
+  it('keeps the points a vote was cast with', async () => {
+    cast = [{ headline_id: 'headline-1', kind: 'up', points: 1 }];
+
+    await headlineVoting.vote(
+      { ...SESSION, voting: { ...DEFAULT_VOTING_POLICY, upvotePoints: 1 } },
+      'voter-1',
+      'headline-1',
+      'up'
+    );
+
+    expect(queries('UPDATE session_players')).toHaveLength(0);
+    expect(emit).not.toHaveBeenCalledWith('leaderboard:update', expect.anything());
+  });
+
+  it('refuses a vote for your own headline', async () => {
+    headline = { ...HEADLINE, player_id: 'voter-1' };
+
+    await expect(headlineVoting.vote(SESSION, 'voter-1', 'headline-1', 'up')).rejects.toMatchObject({
+      code: 'SELF_VOTE',
+    });
+    expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+    expect(client.release).toHaveBeenCalled();
+  });
+
+  it("refuses a vote for your own team's headline", async () => {
+    voter = { id: 'voter-1', team: 'Red' };
+    headline = { ...HEADLINE, team: 'Red' };
+
+    await expect(headlineVoting.vote(SESSION, 'voter-1', 'headline-1', 'up')).rejects.toMatchObject({
+      code: 'SELF_VOTE',
+    });
+  });
+
+  it('refuses headlines from another round, unapproved ones and the Archive\'s', async () => {
+    for (const row of [
+      { ...HEADLINE, round_no: 1 },
+      { ...HEADLINE, moderation_status: 'flagged' },
+      { ...HEADLINE, is_system: true },
+    ]) {
+      headline = row;
+      await expect(headlineVoting.vote(SESSION, 'voter-1', 'headline-1', 'up')).rejects.toMatchObject({
+        code: 'NOT_VOTABLE',
+      });
+    }
+  });
+
+  it('enforces the votes per break', async () => {
+    cast = [{ headline_id: 'headline-2', kind: 'star', points: 3 }];
+
+    await expect(headlineVoting.vote(SESSION, 'voter-1', 'headline-1', 'star')).rejects.toMatchObject({
+      code: 'NO_VOTES_LEFT',
+    });
+    expect(queries('INSERT INTO headline_votes')).toHaveLength(0);
+  });
+
+  it('only takes votes in an unpaused break of a game with voting on', async () => {
+    await expect(
+      headlineVoting.vote({ ...SESSION, phase: 'PLAYING' }, 'voter-1', 'headline-1', 'up')
+    ).rejects.toMatchObject({ code: 'NOT_BREAK' });
+    await expect(
+      headlineVoting.vote({ ...SESSION, pausedAt: '2026-01-01T10:00:00Z' }, 'voter-1', 'headline-1', 'up')
+    ).rejects.toMatchObject({ code: 'GAME_PAUSED' });
+    await expect(
+      headlineVoting.vote(
+        { ...SESSION, voting: { ...DEFAULT_VOTING_POLICY, enabled: false } },
+        'voter-1',
+        'headline-1',
+        'up'
+      )
+    ).rejects.toBeInstanceOf(VotingError);
+    expect(pool.connect).not.toHaveBeenCalled();
+  });
+
+  it('refuses unknown headlines and players', async () => {
+    headline = null;
+    await expect(headlineVoting.vote(SESSION, 'voter-1', 'headline-1', 'up')).rejects.toMatchObject({
+      code: 'UNKNOWN_HEADLINE',
+    });
+
+    voter = null;
+    await expect(headlineVoting.vote(SESSION, 'voter-1', 'headline-1', 'up')).rejects.toMatchObject({
+      code: 'UNKNOWN_PLAYER',
+    });
+  });
+});
@@ -4,12 +4,28 @@
 
 import {
   evaluateJuror,
-  setJurorClient,
-  resetJurorClient,
   JurorValidationError,
 } from '../../src/game/jurorService';
-import { JurorEvaluationOutput } from '../../src/llm/jurorPrompt';
-import { OpenAIClient } from '../../src/llm/openaiResponsesClient';
+import {
+  JurorEvaluationOutput,
+  JUROR_HEADLINE_TASK_V1,
+  JUROR_HEADLINE_TASK_V2,
+} from '../../src/llm/jurorPrompt';
+import { PromptRegistryError } from '../../src/llm/promptRegistry';
+import {
+  LLMProvider,
+  setLLMProvider,
+  resetLLMProvider,
+} from '../../src/llm/llmProvider';
+import pool from '../../src/db/pool';
+
+// the usage ledger records each call
+jest.mock('../../src/db/pool', () => ({
+  __esModule: true,
+  default: {
+    query: jest.fn().mockResolvedValue({ rows: [] }),
+  },
+}));
 
 describe('Juror Service', () => {
   // Valid mock evaluation output
@@ -57,7 +73,7 @@ describe('Juror Service', () => {
   };
 
   beforeEach(() => {
-    resetJurorClient();
+    resetLLMProvider();
     // Set OPENAI_API_KEY for tests
     process.env.OPENAI_API_KEY = 'test-key';
   });
@@ -69,15 +85,16 @@ describe('Juror Service', () => {
   describe('evaluateJuror', () => {
     it('should return valid evaluation result', async () => {
       const validOutput = createValidOutput();
-      const mockClient: OpenAIClient = {
-        callResponsesApi: jest.fn().mockResolvedValue({
+      const mockProvider: LLMProvider = {
+        kind: 'openai',
+        generateStructured: jest.fn().mockResolvedValue({
           output: validOutput,
           rawText: JSON.stringify(validOutput),
           model: 'gpt-5.2',
           usage: { inputTokens: 100, outputTokens: 200 },
         }),
       };
-      setJurorClient(mockClient);
+      setLLMProvider(mockProvider);
 
       const result = await evaluateJuror(mockRequest);
 
@@ -89,20 +106,47 @@ describe('Juror Service', () => {
       expect(result.rawResponse).toBe(JSON.stringify(validOutput));
     });
 
+    it('should build the prompt from the requested variant and report its version', async () => {
+      const validOutput = createValidOutput();
+      const generateStructured = jest.fn().mockResolvedValue({
+        output: validOutput,
+        rawText: JSON.stringify(validOutput),
+        model: 'gpt-5.2',
+      });
+      setLLMProvider({ kind: 'openai', generateStructured });
+
+      const defaultResult = await evaluateJuror(mockRequest);
+      const v2Result = await evaluateJuror({ ...mockRequest, promptVariant: 'juror.v2' });
+
+      expect(defaultResult.promptVersion).toBe('juror.v1');
+      expect(generateStructured.mock.calls[0][2]).toContain(JUROR_HEADLINE_TASK_V1);
+      expect(v2Result.promptVersion).toBe('juror.v2');
+      expect(generateStructured.mock.calls[1][2]).toContain(JUROR_HEADLINE_TASK_V2);
+    });
+
+    it('should reject a prompt variant of another kind', async () => {
+      setLLMProvider({ kind: 'openai', generateStructured: jest.fn() });
+
+      await expect(evaluateJuror({ ...mockRequest, promptVariant: 'summary.v1' })).rejects.toThrow(
+        PromptRegistryError
+      );
+    });
+
     it('should throw JurorValidationError if LINKED has wrong count', async () => {
       const invalidOutput = createValidOutput({
         LINKED: [
           { headline: 'Only one', strength: 'STRONG', rationale: 'Test' },
         ],
       });
-      const mockClient: OpenAIClient = {
-        callResponsesApi: jest.fn().mockResolvedValue({
+      const mockProvider: LLMProvider = {
+        kind: 'openai',
+        generateStructured: jest.fn().mockResolvedValue({
           output: invalidOutput,
           rawText: JSON.stringify(invalidOutput),
           model: 'gpt-5.2',
         }),
       };
-      setJurorClient(mockClient);
+      setLLMProvider(mockProvider);
 
       await expect(evaluateJuror(mockRequest)).rejects.toThrow(JurorValidationError);
       await expect(evaluateJuror(mockRequest)).rejects.toMatchObject({
@@ -110,6 +154,80 @@ describe('Juror Service', () => {
       });
     });
 
+    it('should repair output that breaks invariants by re-asking with the error', async () => {
+      const invalidOutput = createValidOutput({
+        LINKED: [{ headline: 'Only one', strength: 'STRONG', rationale: 'Test' }],
+      });
+      const validOutput = createValidOutput();
+      const generateStructured = jest
+        .fn()
+        .mockResolvedValueOnce({
+          output: invalidOutput,
+          rawText: JSON.stringify(invalidOutput),
+          model: 'gpt-5.2',
+          usage: { inputTokens: 100, outputTokens: 200 },
+        })
+        .mockResolvedValueOnce({
+          output: validOutput,
+          rawText: JSON.stringify(validOutput),
+          model: 'gpt-5.2',
+          usage: { inputTokens: 150, outputTokens: 210 },
+        });
+      setLLMProvider({ kind: 'openai', generateStructured });
+
+      const result = await evaluateJuror(mockRequest);
+
+      expect(result.evaluation).toEqual(validOutput);
+      expect(result.usage).toEqual({ inputTokens: 250, outputTokens: 410 });
+      expect(generateStructured).toHaveBeenCalledTimes(2);
+      const repairPrompt = generateStructured.mock.calls[1][2] as string;
+      expect(repairPrompt).toContain('=== YOUR PREVIOUS ANSWER ===');
+      expect(repairPrompt).toContain(JSON.stringify(invalidOutput));
+      expect(repairPrompt).toContain('LINKED must have exactly 3 entries, got 1');
+    });
+
+    it('should charge both the call and its repair to the session and headline', async () => {
+      const invalidOutput = createValidOutput({ LINKED: [] });
+      const validOutput = createValidOutput();
+      setLLMProvider({
+        kind: 'openai',
+        generateStructured: jest
+          .fn()
+          .mockResolvedValueOnce({ output: invalidOutput, rawText: '{}', model: 'gpt-5.2', retries: 2 })
+          .mockResolvedValueOnce({
+            output: validOutput,
+            rawText: '{}',
+            model: 'gpt-5.2',
+            usage: { inputTokens: 150, outputTokens: 210 },
+          }),
+      });
+      (pool.query as jest.Mock).mockClear();
+
+      await evaluateJuror({ ...mockRequest, sessionId: 'session-1', headlineId: 'headline-1' });
+
+      const inserts = (pool.query as jest.Mock).mock.calls;
+      expect(inserts).toHaveLength(2);
+      expect(inserts[0][0]).toContain('INSERT INTO llm_calls');
+      expect(inserts[0][1]).toEqual(['session-1', 'headline-1', 'juror', 'openai', 'gpt-5.2', 0, 0, expect.any(Number), 'ok', 2, null]);
+      expect(inserts[1][1].slice(5, 7)).toEqual([150, 210]);
+    });
+
+    it('should report missing headline bands as a validation error', async () => {
+      const invalidOutput = { ...createValidOutput(), HEADLINES: undefined };
+      setLLMProvider({
+        kind: 'openai',
+        generateStructured: jest.fn().mockResolvedValue({
+          output: invalidOutput,
+          rawText: JSON.stringify(invalidOutput),
+          model: 'gpt-5.2',
+        }),
+      });
+
+      await expect(evaluateJuror(mockRequest)).rejects.toMatchObject({
+        code: 'MISSING_HEADLINE_BANDS',
+      });
+    });
+
     it('should throw JurorValidationError if PLANETS.top3 has wrong count', async () => {
       const invalidOutput = createValidOutput({
         PLANETS: {
@@ -118,14 +236,15 @@ describe('Juror Service', () => {
           ],
         },
       });
-      const mockClient: OpenAIClient = {
-        callResponsesApi: jest.fn().mockResolvedValue({
+      const mockProvider: LLMProvider = {
+        kind: 'openai',
+        generateStructured: jest.fn().mockResolvedValue({
           output: invalidOutput,
           rawText: JSON.stringify(invalidOutput),
           model: 'gpt-5.2',
         }),
       };
-      setJurorClient(mockClient);
+      setLLMProvider(mockProvider);
 
       await expect(evaluateJuror(mockRequest)).rejects.toThrow(JurorValidationError);
       await expect(evaluateJuror(mockRequest)).rejects.toMatchObject({
@@ -145,14 +264,15 @@ describe('Juror Service', () => {
         },
       });
 
-      const mockClient: OpenAIClient = {
-        callResponsesApi: jest.fn().mockResolvedValue({
+      const mockProvider: LLMProvider = {
+        kind: 'openai',
+        generateStructured: jest.fn().mockResolvedValue({
           output: invalidOutput,
           rawText: JSON.stringify(invalidOutput),
           model: 'gpt-5.2',
         }),
       };
-      setJurorClient(mockClient);
+      setLLMProvider(mockProvider);
 
       await expect(evaluateJuror(mockRequest)).rejects.toThrow(JurorValidationError);
       await expect(evaluateJuror(mockRequest)).rejects.toMatchObject({
@@ -171,14 +291,15 @@ describe('Juror Service', () => {
         },
       });
 
-      const mockClient: OpenAIClient = {
-        callResponsesApi: jest.fn().mockResolvedValue({
+      const mockProvider: LLMProvider = {
+        kind: 'openai',
+        generateStructured: jest.fn().mockResolvedValue({
           output: invalidOutput,
           rawText: JSON.stringify(invalidOutput),
           model: 'gpt-5.2',
         }),
       };
-      setJurorClient(mockClient);
+      setLLMProvider(mockProvider);
 
       await expect(evaluateJuror(mockRequest)).rejects.toThrow(JurorValidationError);
       await expect(evaluateJuror(mockRequest)).rejects.toMatchObject({
@@ -186,18 +307,46 @@ describe('Juror Service', () => {
       });
     });
 
+    it('should throw JurorValidationError if a planet is not in the planet list', async () => {
+      const invalidOutput = createValidOutput({
+        PLANETS: {
+          top3: [
+            { id: 'MARS', rank: 1, rationale: 'Test' },
+            { id: 'VENUS', rank: 2, rationale: 'Test' },
+            { id: 'PLUTO', rank: 3, rationale: 'Not in this session' },
+          ],
+        },
+      });
+
+      const mockProvider: LLMProvider = {
+        kind: 'openai',
+        generateStructured: jest.fn().mockResolvedValue({
+          output: invalidOutput,
+          rawText: JSON.stringify(invalidOutput),
+          model: 'gpt-5.2',
+        }),
+      };
+      setLLMProvider(mockProvider);
+
+      await expect(evaluateJuror(mockRequest)).rejects.toMatchObject({
+        code: 'UNKNOWN_PLANET',
+        details: { unknownPlanets: ['PLUTO'] },
+      });
+    });
+
     it('should throw JurorValidationError if a headline band is empty', async () => {
       const invalidOutput = createValidOutput();
       invalidOutput.HEADLINES.bands.band4 = '';
 
-      const mockClient: OpenAIClient = {
-        callResponsesApi: jest.fn().mockResolvedValue({
+      const mockProvider: LLMProvider = {
+        kind: 'openai',
+        generateStructured: jest.fn().mockResolvedValue({
           output: invalidOutput,
           rawText: JSON.stringify(invalidOutput),
           model: 'gpt-5.2',
         }),
       };
-      setJurorClient(mockClient);
+      setLLMProvider(mockProvider);
 
       await expect(evaluateJuror(mockRequest)).rejects.toThrow(JurorValidationError);
       await expect(evaluateJuror(mockRequest)).rejects.toMatchObject({
@@ -228,14 +377,15 @@ describe('Juror Service', () => {
           },
         });
 
-        const mockClient: OpenAIClient = {
-          callResponsesApi: jest.fn().mockResolvedValue({
+        const mockProvider: LLMProvider = {
+          kind: 'openai',
+          generateStructured: jest.fn().mockResolvedValue({
             output: validOutput,
             rawText: JSON.stringify(validOutput),
             model: 'gpt-5.2',
           }),
         };
-        setJurorClient(mockClient);
+        setLLMProvider(mockProvider);
 
         const result = await evaluateJuror(mockRequest);
         expect(result.evaluation.PLAUSIBILITY.band).toBe(band);
@@ -244,12 +394,13 @@ describe('Juror Service', () => {
     });
 
     it('should pass through OpenAI errors', async () => {
-      const mockClient: OpenAIClient = {
-        callResponsesApi: jest.fn().mockRejectedValue(
+      const mockProvider: LLMProvider = {
+        kind: 'openai',
+        generateStructured: jest.fn().mockRejectedValue(
           Object.assign(new Error('API Error'), { code: 'API_ERROR', statusCode: 500 })
         ),
       };
-      setJurorClient(mockClient);
+      setLLMProvider(mockProvider);
 
       await expect(evaluateJuror(mockRequest)).rejects.toThrow('API Error');
     });
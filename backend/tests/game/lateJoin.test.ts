@@ -0,0 +1,63 @@
+/**
+ * Unit tests for the late-join rules and catch-up scores.
+ */
+
+import {
+  computeCatchUpScore,
+  lateJoinPolicyFromRow,
+  lateJoinRefusal,
+  DEFAULT_LATE_JOIN_POLICY,
+} from '../../src/game/lateJoin';
+
+describe('lateJoinRefusal', () => {
+  const open = { allowed: true, catchUp: 'none' as const };
+
+  it('lets anyone into a waiting session', () => {
+    expect(lateJoinRefusal('WAITING', DEFAULT_LATE_JOIN_POLICY, false)).toBeNull();
+  });
+
+  it('refuses a started session unless late joins are allowed', () => {
+    expect(lateJoinRefusal('PLAYING', DEFAULT_LATE_JOIN_POLICY, false)?.code).toBe('ALREADY_STARTED');
+    expect(lateJoinRefusal('PLAYING', open, false)).toBeNull();
+    expect(lateJoinRefusal('TUTORIAL', open, false)).toBeNull();
+    expect(lateJoinRefusal('BREAK', open, false)).toBeNull();
+  });
+
+  it('never lets anyone into a finished session', () => {
+    expect(lateJoinRefusal('FINISHED', open, false)?.code).toBe('ALREADY_STARTED');
+  });
+
+  it('refuses everyone once the host locks the session', () => {
+    expect(lateJoinRefusal('WAITING', open, true)?.code).toBe('JOIN_LOCKED');
+    expect(lateJoinRefusal('PLAYING', open, true)?.code).toBe('JOIN_LOCKED');
+  });
+});
+
+describe('computeCatchUpScore', () => {
+  it('starts at 0 without a catch-up mode', () => {
+    expect(computeCatchUpScore('none', [10, 20])).toBe(0);
+  });
+
+  it('uses the lowest current score', () => {
+    expect(computeCatchUpScore('lowest', [12, 4, 30])).toBe(4);
+  });
+
+  it('rounds the average down', () => {
+    expect(computeCatchUpScore('average', [10, 11])).toBe(10);
+  });
+
+  it('is 0 with no other players and never negative', () => {
+    expect(computeCatchUpScore('average', [])).toBe(0);
+    expect(computeCatchUpScore('lowest', [-5, 8])).toBe(0);
+  });
+});
+
+describe('lateJoinPolicyFromRow', () => {
+  it('falls back to the defaults for older rows and unknown modes', () => {
+    expect(lateJoinPolicyFromRow({})).toEqual(DEFAULT_LATE_JOIN_POLICY);
+    expect(lateJoinPolicyFromRow({ late_join_allowed: true, late_join_catch_up: 'median' })).toEqual({
+      allowed: true,
+      catchUp: 'none',
+    });
+  });
+});
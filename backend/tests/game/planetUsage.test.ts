@@ -9,6 +9,7 @@ import {
   migratePlayerOrdinals,
   computeBandMembership,
   bandForIndex,
+  bandSizes,
   computePlanetPanel,
   applyGlobalPlanetScoring,
   PlayerOrdinals,
@@ -75,9 +76,17 @@ describe('planetUsage', () => {
 
   describe('bandForIndex', () => {
     it('maps the 9 positions to bands 2/2/2/1/1/1/0/0/0', () => {
-      const bands = [0, 1, 2, 3, 4, 5, 6, 7, 8].map(bandForIndex);
+      const bands = [0, 1, 2, 3, 4, 5, 6, 7, 8].map((i) => bandForIndex(i));
       expect(bands).toEqual([2, 2, 2, 1, 1, 1, 0, 0, 0]);
     });
+
+    it('splits smaller and larger planet sets as evenly as possible', () => {
+      expect([0, 1, 2].map((i) => bandForIndex(i, 3))).toEqual([2, 1, 0]);
+      expect([0, 1, 2, 3].map((i) => bandForIndex(i, 4))).toEqual([2, 2, 1, 0]);
+      expect(bandSizes(5)).toEqual([2, 2, 1]);
+      expect(bandSizes(11)).toEqual([4, 4, 3]);
+      expect(bandSizes(12)).toEqual([4, 4, 4]);
+    });
   });
 
   describe('computeBandMembership', () => {
@@ -100,6 +109,17 @@ describe('planetUsage', () => {
       expect(bands.MARS).toBe(0);
       expect(bands.PLUTO).toBe(2);
     });
+
+    it('bands a custom planet set by its own size', () => {
+      const planets = ['ENERGY', 'OCEANS', 'LAND', 'CITIES'];
+      const usage = { ENERGY: 3, OCEANS: 0, LAND: 1, CITIES: 0 };
+      expect(computeBandMembership(usage, planets)).toEqual({
+        OCEANS: 2,
+        CITIES: 2,
+        LAND: 1,
+        ENERGY: 0,
+      });
+    });
   });
 
   describe('computePlanetPanel', () => {
@@ -0,0 +1,104 @@
+import {
+  resolvePlanetSet,
+  planetSetFromRow,
+  toJurorPlanets,
+  DEFAULT_PLANETS,
+  PLANET_PACKS,
+} from '../../src/game/planets';
+import { createSessionSchema } from '../../src/utils/validation';
+
+const customPlanets = [
+  { id: 'ENERGY', description: 'Power and grids', color: 'yellow' as const },
+  { id: 'OCEANS', description: 'Seas and coasts' },
+  { id: 'LAND', description: 'Forests and soil', tags: ['Forests'] },
+];
+
+describe('resolvePlanetSet', () => {
+  it('plays the classic planets when nothing is chosen', () => {
+    expect(resolvePlanetSet()).toEqual({ pack: 'classic', planets: DEFAULT_PLANETS });
+  });
+
+  it('resolves a built-in pack', () => {
+    const set = resolvePlanetSet({ pack: 'climate' });
+    expect(set.pack).toBe('climate');
+    expect(set.planets.map((p) => p.id)).toContain('OCEANS');
+  });
+
+  it('throws on an unknown pack', () => {
+    expect(() => resolvePlanetSet({ pack: 'nope' })).toThrow('Unknown planet pack "nope"');
+  });
+
+  it('stores a custom set and fills in missing tags and unused colours', () => {
+    const set = resolvePlanetSet({ planets: customPlanets });
+    expect(set.pack).toBe('custom');
+    expect(set.planets[0]).toEqual({
+      id: 'ENERGY',
+      description: 'Power and grids',
+      tags: [],
+      color: 'yellow',
+    });
+    expect(set.planets[2].tags).toEqual(['Forests']);
+
+    const colors = set.planets.map((p) => p.color);
+    expect(new Set(colors).size).toBe(3);
+  });
+});
+
+describe('planet packs', () => {
+  it.each(PLANET_PACKS.map((pack) => [pack.id, pack]))(
+    '%s has a playable number of distinct planets',
+    (_id, pack) => {
+      const ids = pack.planets.map((p) => p.id);
+      expect(ids.length).toBeGreaterThanOrEqual(3);
+      expect(ids.length).toBeLessThanOrEqual(12);
+      expect(new Set(ids).size).toBe(ids.length);
+    }
+  );
+});
+
+describe('planetSetFromRow', () => {
+  it('treats sessions without a planet set as classic', () => {
+    expect(planetSetFromRow(null)).toEqual({ pack: 'classic', planets: DEFAULT_PLANETS });
+  });
+
+  it('reads a stored set back', () => {
+    const stored = resolvePlanetSet({ planets: customPlanets });
+    expect(planetSetFromRow(JSON.parse(JSON.stringify(stored)))).toEqual(stored);
+  });
+});
+
+describe('toJurorPlanets', () => {
+  it('keeps only what the juror needs', () => {
+    expect(toJurorPlanets(resolvePlanetSet({ planets: customPlanets }).planets)).toEqual([
+      { id: 'ENERGY', description: 'Power and grids' },
+      { id: 'OCEANS', description: 'Seas and coasts' },
+      { id: 'LAND', description: 'Forests and soil' },
+    ]);
+  });
+});
+
+describe('createSessionSchema planetSet', () => {
+  it('accepts a pack or a custom set, upper-casing ids', () => {
+    expect(createSessionSchema.safeParse({ hostNickname: 'Host', planetSet: { pack: 'health' } }).success).toBe(true);
+
+    const parsed = createSessionSchema.parse({
+      hostNickname: 'Host',
+      planetSet: { planets: customPlanets.map((p) => ({ ...p, id: p.id.toLowerCase() })) },
+    });
+    expect(parsed.planetSet?.planets?.map((p) => p.id)).toEqual(['ENERGY', 'OCEANS', 'LAND']);
+  });
+
+  it('rejects unknown packs, odd sizes, duplicates and mixing a pack with planets', () => {
+    const invalid = [
+      { pack: 'nope' },
+      { planets: customPlanets.slice(0, 2) },
+      { planets: Array.from({ length: 13 }, (_, i) => ({ id: `P${i}`, description: 'x' })) },
+      { planets: [...customPlanets.slice(0, 2), { id: 'energy', description: 'Again' }] },
+      { pack: 'classic', planets: customPlanets },
+      { planets: [{ id: 'NOT OK', description: 'x' }, ...customPlanets.slice(1)] },
+    ];
+    for (const planetSet of invalid) {
+      expect(createSessionSchema.safeParse({ hostNickname: 'Host', planetSet }).success).toBe(false);
+    }
+  });
+});
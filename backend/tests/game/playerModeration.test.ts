@@ -0,0 +1,250 @@
+import { Server } from 'socket.io';
+import { playerModeration, ModeratedSession } from '../../src/game/playerModeration';
+import pool from '../../src/db/pool';
+
+jest.mock('../../src/db/pool', () => ({
+  __esModule: true,
+  default: {
+    query: jest.fn(),
+    connect: jest.fn(),
+  },
+}));
+
+const SESSION: ModeratedSession = {
+  id: 'session-1',
+  joinCode: 'ABC123',
+  phase: 'PLAYING',
+  currentRound: 2,
+  hostPlayerId: 'host-1',
+};
+
+const BOB_ROW = { id: 'player-2', nickname: 'Bob', is_host: false, muted_until: null, team: null };
+
+describe('playerModeration', () => {
+  let client: { query: jest.Mock; release: jest.Mock };
+  let emit: jest.Mock;
+  let disconnectSockets: jest.Mock;
+  let io: { to: jest.Mock; in: jest.Mock };
+
+  /** sql of every query run in the transaction, BEGIN/COMMIT included */
+  const statements = () => client.query.mock.calls.map(([sql]) => sql as string);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    client = { query: jest.fn().mockResolvedValue({ rows: [] }), release: jest.fn() };
+    (pool.connect as jest.Mock).mockResolvedValue(client);
+
+    emit = jest.fn();
+    disconnectSockets = jest.fn();
+    io = {
+      to: jest.fn().mockReturnValue({ emit }),
+      in: jest.fn().mockReturnValue({ disconnectSockets }),
+    };
+    playerModeration.setSocketIO(io as unknown as Server);
+  });
+
+  describe('kick', () => {
+    it('removes the player, revokes their tokens and logs the action', async () => {
+      client.query
+        .mockResolvedValueOnce({ rows: [] }) // BEGIN
+        .mockResolvedValueOnce({ rows: [{ id: 'player-2' }] });
+
+      await playerModeration.kick(SESSION, 'player-2', false);
+
+      const [sql, params] = client.query.mock.calls[1];
+      expect(sql).toContain('removed_at = NOW()');
+      expect(sql).toContain('token_version = token_version + 1');
+      expect(params).toEqual([false, 'player-2', 'session-1']);
+
+      const [, logParams] = client.query.mock.calls[2];
+      expect(logParams.slice(0, 4)).toEqual(['session-1', 'PLAYING', 2, 'KICK']);
+      expect(JSON.parse(logParams[4])).toEqual({ playerId: 'host-1', targetPlayerId: 'player-2' });
+      expect(statements()[3]).toBe('COMMIT');
+
+      expect(io.to).toHaveBeenCalledWith('session:ABC123');
+      expect(emit).toHaveBeenCalledWith('lobby:player_removed', { playerId: 'player-2', banned: false });
+      expect(io.in).toHaveBeenCalledWith('player:player-2');
+      expect(disconnectSockets).toHaveBeenCalledWith(true);
+    });
+
+    it('records a ban', async () => {
+      client.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ id: 'player-2' }] });
+
+      await playerModeration.kick(SESSION, 'player-2', true);
+
+      expect(client.query.mock.calls[1][1][0]).toBe(true);
+      expect(client.query.mock.calls[2][1][3]).toBe('BAN');
+      expect(emit).toHaveBeenCalledWith('lobby:player_removed', { playerId: 'player-2', banned: true });
+    });
+
+    it('will not kick the host', async () => {
+      await expect(playerModeration.kick(SESSION, 'host-1', false)).rejects.toMatchObject({
+        code: 'INVALID_TARGET',
+      });
+      expect(pool.connect).not.toHaveBeenCalled();
+    });
+
+    it('rolls back when the player is not in the session', async () => {
+      await expect(playerModeration.kick(SESSION, 'player-9', false)).rejects.toMatchObject({
+        code: 'UNKNOWN_PLAYER',
+      });
+      expect(statements()).toContain('ROLLBACK');
+      expect(client.release).toHaveBeenCalled();
+      expect(emit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rename', () => {
+    it('renames and broadcasts the updated player', async () => {
+      client.query
+        .mockResolvedValueOnce({ rows: [] }) // BEGIN
+        .mockResolvedValueOnce({ rows: [] }) // nickname free
+        .mockResolvedValueOnce({ rows: [{ ...BOB_ROW, nickname: 'Robert' }] });
+
+      const player = await playerModeration.rename(SESSION, 'player-2', 'Robert');
+
+      expect(player).toEqual({ id: 'player-2', nickname: 'Robert', isHost: false, mutedUntil: null, team: null });
+      expect(emit).toHaveBeenCalledWith('lobby:player_updated', { playerId: 'player-2', player });
+    });
+
+    it('refuses a nickname someone else has', async () => {
+      client.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ '?column?': 1 }] });
+
+      await expect(playerModeration.rename(SESSION, 'player-2', 'alice')).rejects.toMatchObject({
+        code: 'NICKNAME_TAKEN',
+      });
+      expect(emit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('mute', () => {
+    it('mutes for the given minutes', async () => {
+      const mutedUntil = new Date('2025-03-01T10:05:00Z');
+      client.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ ...BOB_ROW, muted_until: mutedUntil }] });
+
+      const player = await playerModeration.mute(SESSION, 'player-2', 5);
+
+      expect(client.query.mock.calls[1][1]).toEqual([5, 'player-2', 'session-1']);
+      expect(player.mutedUntil).toBe('2025-03-01T10:05:00.000Z');
+      expect(JSON.parse(client.query.mock.calls[2][1][4])).toMatchObject({ minutes: 5 });
+    });
+
+    it('unmutes', async () => {
+      client.query.mockResolvedValueOnce({ rows: [] }).mockResolvedValueOnce({ rows: [BOB_ROW] });
+
+      const player = await playerModeration.unmute(SESSION, 'player-2');
+
+      expect(client.query.mock.calls[1][1]).toEqual([null, 'player-2', 'session-1']);
+      expect(client.query.mock.calls[2][1][3]).toBe('UNMUTE');
+      expect(player.mutedUntil).toBeNull();
+    });
+  });
+
+  describe('transferHost', () => {
+    it('moves the host flag and the session host, then tells the room', async () => {
+      client.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ ...BOB_ROW, is_host: true }] })
+        .mockResolvedValueOnce({ rows: [{ id: 'host-1', nickname: 'Alice', is_host: false, muted_until: null }] });
+
+      await playerModeration.transferHost(SESSION, 'player-2');
+
+      const hostUpdate = client.query.mock.calls.find(([sql]) => sql.includes('UPDATE game_sessions'));
+      expect(hostUpdate[1]).toEqual(['player-2', 'session-1']);
+      expect(emit).toHaveBeenCalledWith('lobby:player_updated', {
+        playerId: 'host-1',
+        player: expect.objectContaining({ isHost: false }),
+      });
+      expect(emit).toHaveBeenCalledWith('lobby:player_updated', {
+        playerId: 'player-2',
+        player: expect.objectContaining({ isHost: true }),
+      });
+      expect(emit).toHaveBeenCalledWith('lobby:host_changed', {
+        hostPlayerId: 'player-2',
+        previousHostId: 'host-1',
+      });
+    });
+  });
+
+  describe('setJoinLocked', () => {
+    it('locks the session, logs it and tells the room', async () => {
+      await playerModeration.setJoinLocked(SESSION, true);
+
+      expect(client.query.mock.calls[1]).toEqual([expect.stringContaining('join_locked = $1'), [true, 'session-1']]);
+      expect(client.query.mock.calls[2][1].slice(0, 4)).toEqual(['session-1', 'PLAYING', 2, 'LOCK']);
+      expect(emit).toHaveBeenCalledWith('lobby:join_locked', { locked: true });
+    });
+
+    it('logs an unlock as UNLOCK', async () => {
+      await playerModeration.setJoinLocked(SESSION, false);
+
+      expect(client.query.mock.calls[2][1][3]).toBe('UNLOCK');
+      expect(emit).toHaveBeenCalledWith('lobby:join_locked', { locked: false });
+    });
+  });
+
+  describe('teams', () => {
+    const LOBBY: ModeratedSession = { ...SESSION, phase: 'WAITING', currentRound: 0 };
+    const TEAMS_ROW = { teams: ['Red', 'Blue'] };
+
+    it('moves a player to another team and broadcasts them', async () => {
+      client.query
+        .mockResolvedValueOnce({ rows: [] }) // BEGIN
+        .mockResolvedValueOnce({ rows: [TEAMS_ROW] })
+        .mockResolvedValueOnce({ rows: [{ ...BOB_ROW, team: 'Blue' }] });
+
+      const player = await playerModeration.setTeam(LOBBY, 'player-2', 'Blue');
+
+      expect(player.team).toBe('Blue');
+      expect(client.query.mock.calls[2][1]).toEqual(['Blue', 'player-2', 'session-1']);
+      expect(client.query.mock.calls[3][1].slice(0, 4)).toEqual(['session-1', 'WAITING', 0, 'SET_TEAM']);
+      expect(emit).toHaveBeenCalledWith('lobby:player_updated', { playerId: 'player-2', player });
+    });
+
+    it('refuses a team the session does not have', async () => {
+      client.query.mockResolvedValueOnce({ rows: [] }).mockResolvedValueOnce({ rows: [TEAMS_ROW] });
+
+      await expect(playerModeration.setTeam(LOBBY, 'player-2', 'Green')).rejects.toMatchObject({
+        code: 'UNKNOWN_TEAM',
+      });
+      expect(statements()).toContain('ROLLBACK');
+    });
+
+    it('refuses a game without teams', async () => {
+      client.query.mockResolvedValueOnce({ rows: [] }).mockResolvedValueOnce({ rows: [{ teams: null }] });
+
+      await expect(playerModeration.balanceTeams(LOBBY)).rejects.toMatchObject({ code: 'NO_TEAMS' });
+    });
+
+    it('keeps teams fixed once the game has started', async () => {
+      await expect(playerModeration.setTeam(SESSION, 'player-2', 'Blue')).rejects.toMatchObject({
+        code: 'TEAMS_LOCKED',
+      });
+      expect(pool.connect).not.toHaveBeenCalled();
+    });
+
+    it('balances the lobby into even teams and logs the assignments', async () => {
+      client.query
+        .mockResolvedValueOnce({ rows: [] }) // BEGIN
+        .mockResolvedValueOnce({ rows: [TEAMS_ROW] })
+        .mockResolvedValueOnce({ rows: [{ id: 'host-1' }, { id: 'player-2' }, { id: 'player-3' }] })
+        .mockResolvedValueOnce({ rows: [{ ...BOB_ROW, id: 'host-1', team: 'Red' }] })
+        .mockResolvedValueOnce({ rows: [{ ...BOB_ROW, team: 'Blue' }] })
+        .mockResolvedValueOnce({ rows: [{ ...BOB_ROW, id: 'player-3', team: 'Red' }] });
+
+      const players = await playerModeration.balanceTeams(LOBBY);
+
+      expect(players.map((p) => p.team)).toEqual(['Red', 'Blue', 'Red']);
+      const [, logParams] = client.query.mock.calls[6];
+      expect(logParams[3]).toBe('BALANCE_TEAMS');
+      expect(JSON.parse(logParams[4]).assignments).toEqual({ 'host-1': 'Red', 'player-2': 'Blue', 'player-3': 'Red' });
+      expect(emit).toHaveBeenCalledTimes(3);
+    });
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Tests for replaying stored story directions through two juror prompt variants.
+ */
+
+import pool from '../../src/db/pool';
+import { evaluateJuror } from '../../src/game/jurorService';
+import {
+  ComparisonItem,
+  comparePromptVariants,
+  comparisonToMarkdown,
+  summarizeComparison,
+} from '../../src/game/promptComparison';
+import { JurorEvaluationOutput } from '../../src/llm/jurorPrompt';
+
+jest.mock('../../src/db/pool', () => ({
+  __esModule: true,
+  default: {
+    query: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/game/jurorService', () => ({
+  evaluateJuror: jest.fn(),
+}));
+
+function jurorOutput(band: 1 | 2 | 3 | 4 | 5): JurorEvaluationOutput {
+  return {
+    PLAUSIBILITY: { band, label: 'plausible', rationale: `Band ${band}` },
+    PLANETS: {
+      top3: [
+        { id: 'MARS', rank: 1, rationale: 'Test' },
+        { id: 'VENUS', rank: 2, rationale: 'Test' },
+        { id: 'EARTH', rank: 3, rationale: 'Test' },
+      ],
+    },
+    LINKED: [],
+    HEADLINES: {
+      bands: { band1: `B1-${band}`, band2: `B2-${band}`, band3: `B3-${band}`, band4: `B4-${band}`, band5: `B5-${band}` },
+    },
+  };
+}
+
+const verdict = (variant: string, level: 1 | 2 | 3 | 4 | 5 | null) => ({
+  variant,
+  level,
+  rationale: null,
+  headline: null,
+  planets: [],
+  error: level === null ? 'failed' : null,
+});
+
+describe('summarizeComparison', () => {
+  it('summarizes each variant and compares them on the headlines both evaluated', () => {
+    const items: ComparisonItem[] = [
+      { a: 2, b: 2 },
+      { a: 3, b: 4 },
+      { a: 3, b: null },
+    ].map(({ a, b }, i) => ({
+      headlineId: `h${i}`,
+      roundNo: 1,
+      storyDirection: `Story ${i}`,
+      storedLevel: 3,
+      storedPromptVersion: 'juror.v1',
+      verdicts: [verdict('juror.v1', a as 2 | 3), verdict('juror.v2', b as 2 | 4 | null)],
+    }));
+
+    const { summaries, agreement } = summarizeComparison(['juror.v1', 'juror.v2'], items);
+
+    expect(summaries[0]).toEqual(
+      expect.objectContaining({ variant: 'juror.v1', evaluated: 3, failed: 0, meanLevel: 8 / 3 })
+    );
+    expect(summaries[1]).toEqual(expect.objectContaining({ variant: 'juror.v2', evaluated: 2, failed: 1, meanLevel: 3 }));
+    expect(summaries[1].distribution).toEqual({ 1: 0, 2: 1, 3: 0, 4: 1, 5: 0 });
+    expect(agreement.n).toBe(2);
+    expect(agreement.exact.rate).toBe(0.5);
+    expect(agreement.meanDifference).toBe(0.5);
+  });
+});
+
+describe('comparePromptVariants', () => {
+  const session = { id: 'session-1', join_code: 'ABC123', planet_set: null, scenario: null };
+  const headlines = [
+    {
+      id: 'h1',
+      round_no: 1,
+      headline_text: 'AI runs the post office',
+      created_at: new Date('2026-01-01T10:00:00Z'),
+      plausibility_level: 3,
+      selected_band: 2,
+      prompt_version: 'juror.v1',
+    },
+    {
+      id: 'h2',
+      round_no: 2,
+      headline_text: 'Robots unionize',
+      created_at: new Date('2026-01-01T10:05:00Z'),
+      plausibility_level: 4,
+      selected_band: 4,
+      prompt_version: null,
+    },
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('replays each headline through both variants with its submission-time context', async () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [session] })
+      .mockResolvedValueOnce({ rows: headlines })
+      .mockResolvedValueOnce({ rows: [{ seed_count: 36 }] }) // juror window for h1
+      .mockResolvedValueOnce({ rows: [{ id: 'h0', text: 'Earlier headline' }] }) // context for h1
+      .mockResolvedValueOnce({ rows: [{ seed_count: 36 }] }) // juror window for h2
+      .mockResolvedValueOnce({ rows: [] }); // context for h2
+    (evaluateJuror as jest.Mock)
+      .mockResolvedValueOnce({ evaluation: jurorOutput(3) })
+      .mockResolvedValueOnce({ evaluation: jurorOutput(2) })
+      .mockResolvedValueOnce({ evaluation: jurorOutput(4) })
+      .mockRejectedValueOnce(new Error('OpenAI API returned 503'));
+
+    const comparison = await comparePromptVariants({
+      joinCode: 'ABC123',
+      variants: ['juror.v1', 'juror.v2'],
+      sampleSize: 500,
+    });
+
+    const [, sampleCall, , contextCall] = (pool.query as jest.Mock).mock.calls;
+    expect(sampleCall[0]).toContain("llm_status = 'evaluated'");
+    expect(sampleCall[0]).toContain('p.is_system = FALSE');
+    expect(sampleCall[1]).toEqual(['session-1', 100]);
+    expect(contextCall[1][2]).toEqual(headlines[0].created_at);
+
+    expect(evaluateJuror).toHaveBeenCalledTimes(4);
+    expect(evaluateJuror).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({
+        storyDirection: 'AI runs the post office',
+        headlinesList: [{ id: 'h0', text: 'Earlier headline' }],
+        promptVariant: 'juror.v2',
+      })
+    );
+
+    const [first, second] = comparison.items;
+    // the headline each variant would have shown at the band the dice picked
+    expect(first.verdicts.map((v) => [v.variant, v.level, v.headline])).toEqual([
+      ['juror.v1', 3, 'B2-3'],
+      ['juror.v2', 2, 'B2-2'],
+    ]);
+    expect(second.verdicts[1]).toEqual(
+      expect.objectContaining({ variant: 'juror.v2', level: null, error: 'OpenAI API returned 503' })
+    );
+    expect(comparison.summaries[1]).toEqual(expect.objectContaining({ evaluated: 1, failed: 1 }));
+    expect(comparison.agreement.n).toBe(1);
+    expect(pool.query).toHaveBeenCalledTimes(6); // nothing is written back
+  });
+
+  it('rejects variants that are not juror prompts before touching the database', async () => {
+    await expect(
+      comparePromptVariants({ joinCode: 'ABC123', variants: ['juror.v1', 'summary.v1'] })
+    ).rejects.toThrow(expect.objectContaining({ code: 'WRONG_PROMPT_KIND' }));
+    expect(pool.query).not.toHaveBeenCalled();
+  });
+
+  it('reports unknown sessions and sessions without evaluated headlines', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+    await expect(
+      comparePromptVariants({ joinCode: 'NOPE00', variants: ['juror.v1', 'juror.v2'] })
+    ).rejects.toThrow(expect.objectContaining({ code: 'SESSION_NOT_FOUND' }));
+
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [session] }).mockResolvedValueOnce({ rows: [] });
+    await expect(
+      comparePromptVariants({ joinCode: 'ABC123', variants: ['juror.v1', 'juror.v2'] })
+    ).rejects.toThrow(expect.objectContaining({ code: 'NO_HEADLINES' }));
+  });
+});
+
+describe('comparisonToMarkdown', () => {
+  it('writes the summary and one escaped row per headline', () => {
+    const items: ComparisonItem[] = [
+      {
+        headlineId: 'h1',
+        roundNo: 2,
+        storyDirection: 'Pipes | and\nnewlines',
+        storedLevel: 3,
+        storedPromptVersion: null,
+        verdicts: [
+          { ...verdict('juror.v1', 3), headline: 'Headline A' },
+          verdict('juror.v2', null),
+        ],
+      },
+    ];
+    const markdown = comparisonToMarkdown({
+      joinCode: 'ABC123',
+      variants: ['juror.v1', 'juror.v2'],
+      comparedAt: '2026-01-01T00:00:00.000Z',
+      items,
+      ...summarizeComparison(['juror.v1', 'juror.v2'], items),
+    });
+
+    expect(markdown).toContain('# Prompt comparison: juror.v1 vs juror.v2');
+    expect(markdown).toContain('| juror.v2 | 0 | 1 | - | 0 | 0 | 0 | 0 | 0 |');
+    expect(markdown).toContain('| 2 | Pipes \\| and newlines | 3 (unversioned) | 3 | error | Headline A | - |');
+  });
+});
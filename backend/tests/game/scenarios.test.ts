@@ -0,0 +1,161 @@
+import {
+  parseScenarioPack,
+  validateScenarioPack,
+  scenarioFromRow,
+  getScenarioPack,
+  saveScenarioPack,
+  BUILT_IN_SCENARIOS,
+  ScenarioPackError,
+} from '../../src/game/scenarios';
+import { PLANET_PACKS } from '../../src/game/planets';
+import { buildJurorInstructions, buildJurorPrompt } from '../../src/llm/jurorPrompt';
+import { buildSummaryInstructions } from '../../src/llm/summaryPrompt';
+import { buildNarrativeInstructions } from '../../src/llm/narrativePrompt';
+import pool from '../../src/db/pool';
+
+jest.mock('../../src/db/pool', () => ({
+  __esModule: true,
+  default: {
+    query: jest.fn(),
+  },
+}));
+
+const YAML_PACK = `
+id: mars-colony
+name: Mars colony
+topic:
+  subject: Mars settlement
+  framing: the first decades of a human colony on Mars
+startYear: 2040
+planetSet:
+  planets:
+    - { id: habitat, description: Domes, air and water }
+    - { id: politics, description: Who governs the colony }
+    - { id: earth_link, description: Trade and news from Earth }
+seedHeadlines:
+  - { date: 2025-02, text: Second seed }
+  - { date: 2024-11, text: First seed }
+`;
+
+describe('parseScenarioPack', () => {
+  it('reads a yaml pack, sorting seeds oldest first', () => {
+    const pack = parseScenarioPack(YAML_PACK);
+
+    expect(pack.id).toBe('mars-colony');
+    expect(pack.description).toBe('');
+    expect(pack.startYear).toBe(2040);
+    expect(pack.topic.subject).toBe('Mars settlement');
+    expect(pack.planetSet.planets?.map((p) => p.id)).toEqual(['HABITAT', 'POLITICS', 'EARTH_LINK']);
+    expect(pack.seedHeadlines).toEqual([
+      { text: 'First seed', inGameYear: 2024, inGameMonth: 11 },
+      { text: 'Second seed', inGameYear: 2025, inGameMonth: 2 },
+    ]);
+  });
+
+  it('reads a json pack and defaults to the classic planets', () => {
+    const pack = parseScenarioPack(
+      JSON.stringify({
+        id: 'tiny',
+        name: 'Tiny',
+        topic: { subject: 'robots', framing: 'robots in the home' },
+        seedHeadlines: [{ date: '2024-01', text: 'Robot vacuums sell out' }],
+      })
+    );
+
+    expect(pack.planetSet).toEqual({});
+    expect(pack.startYear).toBeNull();
+  });
+
+  it('rejects text that is not json or yaml', () => {
+    expect(() => parseScenarioPack('id: [unclosed')).toThrow(
+      expect.objectContaining({ code: 'INVALID_FORMAT' })
+    );
+  });
+
+  it('rejects invalid packs with the validation issues', () => {
+    expect.assertions(2);
+    try {
+      validateScenarioPack({
+        id: 'Bad Id',
+        name: 'x',
+        topic: { subject: 'x', framing: 'x' },
+        seedHeadlines: [{ date: '2024-13', text: 'x' }],
+        planetSet: { pack: 'nope' },
+      });
+    } catch (err) {
+      expect(err).toBeInstanceOf(ScenarioPackError);
+      const paths = ((err as ScenarioPackError).details!.issues as Array<{ path: unknown[] }>).map(
+        (issue) => issue.path.join('.')
+      );
+      expect(paths).toEqual(
+        expect.arrayContaining(['id', 'seedHeadlines.0.date', 'planetSet.pack'])
+      );
+    }
+  });
+});
+
+describe('built-in scenarios', () => {
+  it.each(BUILT_IN_SCENARIOS.map((pack) => [pack.id, pack]))('%s is a valid pack', (_id, pack) => {
+    const { seedHeadlines, ...rest } = pack;
+    const asFile = {
+      ...rest,
+      seedHeadlines: seedHeadlines.map((s) => ({
+        text: s.text,
+        date: `${s.inGameYear}-${String(s.inGameMonth).padStart(2, '0')}`,
+      })),
+    };
+    expect(validateScenarioPack(asFile).seedHeadlines).toEqual(seedHeadlines);
+    expect(PLANET_PACKS.some((p) => p.id === pack.planetSet.pack)).toBe(true);
+  });
+});
+
+describe('scenario registry', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('finds built-in packs without the database', async () => {
+    expect((await getScenarioPack('climate'))?.name).toBe('Climate futures');
+    expect(pool.query).not.toHaveBeenCalled();
+  });
+
+  it('looks uploaded packs up by id', async () => {
+    const pack = parseScenarioPack(YAML_PACK);
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [{ definition: pack }] });
+
+    expect(await getScenarioPack('mars-colony')).toEqual(pack);
+    expect((pool.query as jest.Mock).mock.calls[0][1]).toEqual(['mars-colony']);
+  });
+
+  it('never reuses an id', async () => {
+    const pack = parseScenarioPack(YAML_PACK);
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [] }); // ON CONFLICT DO NOTHING
+
+    await expect(saveScenarioPack(pack)).rejects.toMatchObject({ code: 'DUPLICATE_ID' });
+    await expect(saveScenarioPack({ ...pack, id: 'ai' })).rejects.toMatchObject({
+      code: 'DUPLICATE_ID',
+    });
+  });
+
+  it('treats sessions without a scenario as the AI scenario', () => {
+    expect(scenarioFromRow(null).id).toBe('ai');
+  });
+});
+
+describe('prompts', () => {
+  const topic = { subject: 'Mars settlement', framing: 'the first decades of a human colony on Mars' };
+
+  it('describe the scenario topic instead of AI', () => {
+    expect(buildJurorInstructions(topic)).toContain('collaborative Mars settlement futures game');
+    expect(
+      buildJurorPrompt({ storyDirection: 'x', headlinesList: [], planetList: [], topic })
+    ).toContain('a collaborative story-telling game about the first decades of a human colony on Mars');
+    expect(buildSummaryInstructions(topic)).toContain('where Mars settlement has transformed society');
+    expect(buildNarrativeInstructions(topic)).toContain('real and imagined Mars settlement history');
+  });
+
+  it('default to the AI game', () => {
+    expect(buildJurorInstructions()).toContain('collaborative AI futures game');
+    expect(buildSummaryInstructions()).toContain('where AI has transformed society');
+  });
+});
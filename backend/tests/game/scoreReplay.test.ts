@@ -0,0 +1,177 @@
+/**
+ * Unit tests for score replay: recomputing stored headlines under a scoring config
+ */
+
+import {
+  connectionCountFromRow,
+  replayScores,
+  replaySessionScores,
+  ReplayHeadline,
+  ScoreReplayError,
+} from '../../src/game/scoreReplay';
+import { DEFAULT_SCORING_CONFIG, DEFAULT_PLANETS } from '../../src/game/scoringTypes';
+import { SCORING_PRESETS, toScoringConfig } from '../../src/game/scoringRules';
+import pool from '../../src/db/pool';
+
+jest.mock('../../src/db/pool', () => ({
+  __esModule: true,
+  default: {
+    query: jest.fn(),
+    connect: jest.fn(),
+  },
+}));
+
+function headline(overrides: Partial<ReplayHeadline>): ReplayHeadline {
+  return {
+    id: 'h1',
+    playerId: 'p1',
+    nickname: 'Alice',
+    roundNo: 1,
+    createdAt: '2025-03-01T10:00:00.000Z',
+    plausibilityLevel: 3,
+    uniqueOtherAuthors: 0,
+    legacyConnection: false,
+    planets: ['EARTH'],
+    counted: true,
+    storedTotal: 5,
+    ...overrides,
+  };
+}
+
+describe('connectionCountFromRow', () => {
+  it('reads the stored count', () => {
+    expect(connectionCountFromRow('2')).toEqual({ count: 2, legacy: false });
+    expect(connectionCountFromRow('7')).toEqual({ count: 3, legacy: false });
+    expect(connectionCountFromRow(null)).toEqual({ count: 0, legacy: false });
+  });
+
+  it('maps the old connection levels to one other author or none', () => {
+    expect(connectionCountFromRow('OTHERS')).toEqual({ count: 1, legacy: true });
+    expect(connectionCountFromRow('HIGH')).toEqual({ count: 1, legacy: true });
+    expect(connectionCountFromRow('SELF')).toEqual({ count: 0, legacy: true });
+  });
+});
+
+describe('replayScores', () => {
+  it('reproduces the classic scores and reports no change', () => {
+    // first use of EARTH sits in the top band: 1 + 2 + 0 + 2
+    const replay = replayScores([headline({ storedTotal: 5 })], DEFAULT_PLANETS, DEFAULT_SCORING_CONFIG);
+
+    expect(replay.headlines[0].replayed?.total).toBe(5);
+    expect(replay.headlines[0].delta).toBe(0);
+    expect(replay.changed).toBe(0);
+    expect(replay.usage.EARTH).toBe(1);
+  });
+
+  it('replays in created_at order, carrying planet usage forward', () => {
+    const planets = ['A', 'B', 'C'];
+    const replay = replayScores(
+      [
+        headline({ id: 'late', createdAt: '2025-03-01T10:05:00.000Z', planets: ['A'], storedTotal: 3 }),
+        headline({ id: 'early', createdAt: '2025-03-01T10:00:00.000Z', planets: ['A'], storedTotal: 5 }),
+      ],
+      planets,
+      DEFAULT_SCORING_CONFIG
+    );
+
+    expect(replay.headlines.map((h) => h.id)).toEqual(['early', 'late']);
+    // A drops to the bottom band after its first use
+    expect(replay.headlines[1].replayed?.planetBonus).toBe(0);
+    expect(replay.headlines[1].delta).toBe(0);
+  });
+
+  it('diffs against another preset', () => {
+    const replay = replayScores(
+      [headline({ uniqueOtherAuthors: 2, storedTotal: 9 })],
+      DEFAULT_PLANETS,
+      toScoringConfig(SCORING_PRESETS.weavers.rules)
+    );
+
+    // connection 8 instead of 4
+    expect(replay.headlines[0].delta).toBe(4);
+    expect(replay.players).toEqual([{ playerId: 'p1', nickname: 'Alice', stored: 9, replayed: 13, delta: 4 }]);
+    expect(replay.changed).toBe(1);
+  });
+
+  it('leaves hidden headlines out of totals and planet usage', () => {
+    const replay = replayScores(
+      [headline({ id: 'hidden', counted: false }), headline({ id: 'shown', createdAt: '2025-03-01T10:01:00.000Z' })],
+      DEFAULT_PLANETS,
+      DEFAULT_SCORING_CONFIG
+    );
+
+    expect(replay.headlines[0].replayed?.total).toBe(5);
+    expect(replay.headlines[1].replayed?.planetBonus).toBe(2);
+    expect(replay.players[0]).toMatchObject({ stored: 5, replayed: 5 });
+    expect(replay.usage.EARTH).toBe(1);
+  });
+
+  it('skips headlines that were never scored', () => {
+    const replay = replayScores(
+      [headline({ plausibilityLevel: null, storedTotal: null })],
+      DEFAULT_PLANETS,
+      DEFAULT_SCORING_CONFIG
+    );
+
+    expect(replay.headlines[0]).toMatchObject({ replayed: null, delta: null });
+    expect(replay.usage.EARTH).toBe(0);
+  });
+});
+
+describe('replaySessionScores', () => {
+  const SESSION_ROW = {
+    id: 'session-1',
+    join_code: 'ABC123',
+    planet_set: null,
+    scoring_rules: null,
+    planet_usage_global: { EARTH: 1 },
+  };
+  const HEADLINE_ROW = {
+    id: 'h1',
+    player_id: 'p1',
+    nickname: 'Alice',
+    round_no: 1,
+    created_at: new Date('2025-03-01T10:00:00Z'),
+    plausibility_level: 3,
+    others_story_connection_level: '1',
+    planet_1: 'EARTH',
+    planet_2: null,
+    planet_3: null,
+    total_headline_score: 6,
+    moderation_status: 'visible',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("replays under the session's own rules by default", async () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [SESSION_ROW] })
+      .mockResolvedValueOnce({ rows: [HEADLINE_ROW] });
+
+    const replay = await replaySessionScores('ABC123');
+
+    expect(replay.scoring.preset).toBe('classic');
+    expect(replay.headlines[0]).toMatchObject({ storedTotal: 6, delta: 0 });
+    expect(replay.storedUsage.EARTH).toBe(1);
+    expect((pool.query as jest.Mock).mock.calls[1][0]).toContain('is_system = FALSE');
+  });
+
+  it('replays under the requested preset', async () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [SESSION_ROW] })
+      .mockResolvedValueOnce({ rows: [HEADLINE_ROW] });
+
+    const replay = await replaySessionScores('ABC123', { preset: 'weavers' });
+
+    // one other author is worth 3 instead of 1
+    expect(replay.headlines[0].delta).toBe(2);
+  });
+
+  it('throws for an unknown session', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+    await expect(replaySessionScores('NOPE99')).rejects.toBeInstanceOf(ScoreReplayError);
+  });
+});
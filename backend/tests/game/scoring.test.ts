@@ -8,6 +8,7 @@ import {
   computeStoryConnectionScore,
   computeConnectionScore,
   computeHeadlineScore,
+  computeRiskBonus,
   getPlausibilityLabel,
   getStoryConnectionLabel,
 } from '../../src/game/scoring';
@@ -303,6 +304,30 @@ describe('Scoring Functions', () => {
       );
       expect(scores).toEqual([0, 1, 4, 9]);
     });
+
+    it('should add the risk bonus when a bet lands', () => {
+      const breakdown = computeHeadlineScore(
+        { ...baseInput, selectedBand: 5, targetBand: 5 },
+        0,
+        DEFAULT_SCORING_CONFIG
+      );
+
+      expect(breakdown.riskBonus).toBe(8);
+      expect(breakdown.total).toBe(1 + 2 + 9 + 0 + 8);
+    });
+  });
+
+  describe('computeRiskBonus', () => {
+    it('should pay the target band\'s points when the dice land on it', () => {
+      expect(computeRiskBonus(4, 4, DEFAULT_SCORING_CONFIG)).toBe(3);
+      expect(computeRiskBonus(5, 5, DEFAULT_SCORING_CONFIG)).toBe(8);
+    });
+
+    it('should pay nothing for a miss, a safe bet or no bet', () => {
+      expect(computeRiskBonus(5, 4, DEFAULT_SCORING_CONFIG)).toBe(0);
+      expect(computeRiskBonus(2, 2, DEFAULT_SCORING_CONFIG)).toBe(0);
+      expect(computeRiskBonus(null, 3, DEFAULT_SCORING_CONFIG)).toBe(0);
+    });
   });
 
   describe('getPlausibilityLabel', () => {
@@ -0,0 +1,124 @@
+/**
+ * Unit tests for per-session scoring rules: presets, the host's changes and the
+ * ScoringConfig they produce
+ */
+
+import {
+  SCORING_PRESETS,
+  resolveSessionScoring,
+  sessionScoringFromRow,
+  toScoringConfig,
+} from '../../src/game/scoringRules';
+import { DEFAULT_SCORING_CONFIG } from '../../src/game/scoringTypes';
+import { computeHeadlineScore, computePlanetBandScore } from '../../src/game/scoring';
+import { scoringRulesSchema } from '../../src/utils/validation';
+
+describe('resolveSessionScoring', () => {
+  it('defaults to the classic preset, untuned', () => {
+    expect(resolveSessionScoring()).toEqual({
+      preset: 'classic',
+      tuned: false,
+      rules: SCORING_PRESETS.classic.rules,
+    });
+  });
+
+  it("puts the host's changes on top of the preset", () => {
+    const scoring = resolveSessionScoring({
+      preset: 'weavers',
+      baseline: 2,
+      plausibility: { exactTarget: 4 },
+    });
+
+    expect(scoring.tuned).toBe(true);
+    expect(scoring.rules.baseline).toBe(2);
+    expect(scoring.rules.plausibility).toMatchObject({ targetLevel: 3, exactTarget: 4, nearTarget: 1 });
+    expect(scoring.rules.connectionScale).toEqual([0, 3, 8, 15]);
+  });
+
+  it("is not tuned when the request repeats the preset's points", () => {
+    const { rules } = SCORING_PRESETS.explorers;
+    const scoring = resolveSessionScoring({ preset: 'explorers', ...rules });
+
+    expect(scoring.tuned).toBe(false);
+    expect(scoring.rules).toEqual(rules);
+  });
+
+  it('drops a near level that is also the target', () => {
+    const scoring = resolveSessionScoring({ plausibility: { targetLevel: 4 } });
+
+    expect(scoring.rules.plausibility.nearLevels).toEqual([2]);
+  });
+});
+
+describe('sessionScoringFromRow', () => {
+  it('treats sessions without stored rules as classic', () => {
+    expect(sessionScoringFromRow(null)).toEqual(resolveSessionScoring());
+  });
+
+  it('reads stored rules back', () => {
+    const stored = resolveSessionScoring({ preset: 'bold', planetBandPoints: [1, 2, 3] });
+
+    expect(sessionScoringFromRow(JSON.parse(JSON.stringify(stored)))).toEqual(stored);
+  });
+
+  it('fills in fields missing from older rows', () => {
+    const scoring = sessionScoringFromRow({ preset: 'explorers', rules: { baseline: 5 } });
+
+    expect(scoring.rules.baseline).toBe(5);
+    expect(scoring.rules.planetBandPoints).toEqual([0, 2, 4]);
+    expect(scoring.tuned).toBe(false);
+  });
+});
+
+describe('toScoringConfig', () => {
+  it('reproduces the default config for the classic rules', () => {
+    expect(toScoringConfig(SCORING_PRESETS.classic.rules)).toEqual(DEFAULT_SCORING_CONFIG);
+  });
+
+  it('scores a headline with the tuned points', () => {
+    const config = toScoringConfig(
+      resolveSessionScoring({ preset: 'bold', connectionScale: [0, 2, 5, 10], planetBandPoints: [0, 3, 6] }).rules
+    );
+
+    const breakdown = computeHeadlineScore(
+      { plausibilityLevel: 4, selectedBand: 4, uniqueOtherAuthors: 2, aiPlanetRankings: ['MARS'], roundNo: 1 },
+      computePlanetBandScore(2, config),
+      config
+    );
+
+    expect(breakdown).toMatchObject({ baseline: 1, plausibility: 3, connectionScore: 5, planetBonus: 6, total: 15 });
+  });
+});
+
+describe('risk bet points', () => {
+  it('pays more for a bold bet under the bold preset', () => {
+    expect(SCORING_PRESETS.classic.rules.riskBetPoints).toEqual(DEFAULT_SCORING_CONFIG.riskBetPoints.points);
+    expect(toScoringConfig(SCORING_PRESETS.bold.rules).riskBetPoints.points[4]).toBeGreaterThan(
+      DEFAULT_SCORING_CONFIG.riskBetPoints.points[4]
+    );
+  });
+
+  it('takes tuned points and reads rows from before risk mode with the preset\'s', () => {
+    expect(resolveSessionScoring({ riskBetPoints: [1, 1, 1, 1, 1] })).toEqual(
+      expect.objectContaining({ tuned: true, rules: expect.objectContaining({ riskBetPoints: [1, 1, 1, 1, 1] }) })
+    );
+    expect(sessionScoringFromRow({ preset: 'bold', rules: { baseline: 1 } }).rules.riskBetPoints).toEqual([0, 0, 1, 5, 12]);
+  });
+});
+
+describe('scoringRulesSchema', () => {
+  it('accepts a preset with tuned points', () => {
+    expect(
+      scoringRulesSchema.safeParse({ preset: 'explorers', connectionScale: [0, 1, 2, 3], plausibility: { targetLevel: 2 } })
+        .success
+    ).toBe(true);
+  });
+
+  it('rejects unknown presets, negative points and short scales', () => {
+    expect(scoringRulesSchema.safeParse({ preset: 'chaos' }).success).toBe(false);
+    expect(scoringRulesSchema.safeParse({ baseline: -1 }).success).toBe(false);
+    expect(scoringRulesSchema.safeParse({ connectionScale: [0, 1, 4] }).success).toBe(false);
+    expect(scoringRulesSchema.safeParse({ plausibility: { targetLevel: 6 } }).success).toBe(false);
+    expect(scoringRulesSchema.safeParse({ riskBetPoints: [0, 0, 1, 5] }).success).toBe(false);
+  });
+});
@@ -3,10 +3,13 @@
  */
 
 import pool from '../../src/db/pool';
+import type { PoolClient } from 'pg';
 import {
   applyHeadlineEvaluation,
+  correctHeadlineScore,
   getLeaderboard,
   getHeadlineScoreBreakdown,
+  getPlayerScoreBreakdowns,
 } from '../../src/game/scoringService';
 import { HeadlineEvaluationPayload } from '../../src/game/scoringTypes';
 
@@ -112,6 +115,39 @@ describe('Scoring Service', () => {
       expect(result.leaderboard[0].planetPanel).toHaveLength(9);
     });
 
+    it("should score with the session's stored scoring rules", async () => {
+      const globalUsage = {
+        MARS: 0, VENUS: 10, EARTH: 10, MERCURY: 10, JUPITER: 10,
+        SATURN: 10, URANUS: 10, NEPTUNE: 10, PLUTO: 10,
+      };
+      const scoringRules = {
+        preset: 'explorers',
+        tuned: true,
+        rules: {
+          baseline: 3,
+          plausibility: { targetLevel: 3, nearLevels: [2, 4], exactTarget: 5, nearTarget: 1, other: 0 },
+          connectionScale: [0, 1, 3, 6],
+          planetBandPoints: [0, 2, 4],
+        },
+      };
+
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rows: [mockPlayer] })
+        .mockResolvedValueOnce({ rows: [mockHeadline] })
+        .mockResolvedValueOnce({ rows: [{ planet_usage_global: globalUsage, scoring_rules: scoringRules }] })
+        .mockResolvedValueOnce({})
+        .mockResolvedValueOnce({})
+        .mockResolvedValueOnce({})
+        .mockResolvedValueOnce({ rows: [{ id: 'player-456', nickname: 'Test', total_score: 68, planet_usage_state: null }] })
+        .mockResolvedValueOnce({}); // COMMIT
+
+      const result = await applyHeadlineEvaluation(basePayload);
+
+      expect(result.breakdown).toMatchObject({ baseline: 3, plausibility: 5, connectionScore: 6, planetBonus: 4, total: 18 });
+      expect(result.newTotalScore).toBe(68);
+    });
+
     it('should award the +2 band bonus when the primary planet is least used', async () => {
       // player has an explicit ordinal permutation (so ordering is deterministic)
       const playerWithOrdinals = {
@@ -280,6 +316,214 @@ describe('Scoring Service', () => {
     });
   });
 
+  it('should keep a headline hidden during evaluation out of the totals', async () => {
+    mockClient.query
+      .mockResolvedValueOnce({}) // BEGIN
+      .mockResolvedValueOnce({
+        rows: [{ id: 'player-456', session_id: 'session-123', nickname: 'TestPlayer', total_score: 50, planet_usage_state: null }],
+      })
+      .mockResolvedValueOnce({
+        rows: [{
+          id: 'headline-789', session_id: 'session-123', player_id: 'player-456', round_no: 1,
+          total_headline_score: null, moderation_status: 'hidden',
+        }],
+      })
+      .mockResolvedValueOnce({ rows: [{ planet_usage_global: {} }] }) // SELECT usage FOR UPDATE
+      .mockResolvedValueOnce({}) // Update headline
+      .mockResolvedValueOnce({ rows: [] }) // leaderboard
+      .mockResolvedValueOnce({}); // COMMIT
+
+    const result = await applyHeadlineEvaluation({
+      sessionId: 'session-123',
+      playerId: 'player-456',
+      headlineId: 'headline-789',
+      plausibilityLevel: 3,
+      selectedBand: 3,
+      uniqueOtherAuthors: 0,
+      aiPlanetRankings: ['MARS'],
+      roundNo: 1,
+    });
+
+    expect(result.newTotalScore).toBe(50);
+    const sql = mockClient.query.mock.calls.map((call) => String(call[0]));
+    expect(sql.some((q) => q.includes('UPDATE session_players'))).toBe(false);
+    expect(sql.some((q) => q.includes('UPDATE game_sessions'))).toBe(false);
+  });
+
+  describe('correctHeadlineScore', () => {
+    const usage = {
+      MERCURY: 10, VENUS: 0, EARTH: 10, MARS: 3, JUPITER: 10,
+      SATURN: 10, URANUS: 10, NEPTUNE: 10, PLUTO: 10,
+    };
+
+    const scoredHeadline = {
+      player_id: 'player-456',
+      plausibility_level: 5,
+      plausibility_score: 0,
+      planet_1: 'MARS',
+      planet_2: 'VENUS',
+      planet_3: 'EARTH',
+      baseline_score: 1,
+      others_story_score: 4,
+      planet_bonus_score: 1,
+      total_headline_score: 6,
+    };
+
+    // query sequence: SELECT usage FOR UPDATE, load headline, vote points (when
+    // hiding or restoring), update headline, update player total, update usage, leaderboard
+    const setupCorrection = (headline: Record<string, unknown> = scoredHeadline, votePoints?: number) => {
+      mockClient.query
+        .mockResolvedValueOnce({ rows: [{ planet_usage_global: usage, planet_set: null }] })
+        .mockResolvedValueOnce({ rows: [headline] });
+      if (votePoints !== undefined) {
+        mockClient.query.mockResolvedValueOnce({ rows: [{ points: votePoints }] });
+      }
+      mockClient.query
+        .mockResolvedValueOnce({}) // Update headline
+        .mockResolvedValueOnce({ rows: [{ total_score: 40 }] }) // Update player total
+        .mockResolvedValueOnce({}) // Update usage
+        .mockResolvedValueOnce({
+          rows: [{ id: 'player-456', nickname: 'TestPlayer', total_score: 40, planet_usage_state: null }],
+        });
+    };
+
+    const client = () => mockClient as unknown as PoolClient;
+    const callWith = (text: string) =>
+      mockClient.query.mock.calls.find((call) => String(call[0]).includes(text))!;
+
+    it('should take a hidden headline out of the total and the planet usage', async () => {
+      setupCorrection(scoredHeadline, 0);
+
+      const result = await correctHeadlineScore(client(), {
+        sessionId: 'session-123',
+        headlineId: 'headline-789',
+        wasCounted: true,
+        counted: false,
+      });
+
+      expect(result.scoreDelta).toBe(-6);
+      expect(result.breakdown?.total).toBe(6);
+      expect(callWith('UPDATE session_players')[1]).toEqual([-6, 'player-456']);
+      expect(JSON.parse(callWith('UPDATE game_sessions')[1][0])).toMatchObject({ MARS: 2, VENUS: 0 });
+      expect(result.leaderboard[0]).toMatchObject({ playerId: 'player-456', totalScore: 40 });
+    });
+
+    it("should take a hidden headline's votes out of the total with it", async () => {
+      setupCorrection(scoredHeadline, 3);
+
+      const result = await correctHeadlineScore(client(), {
+        sessionId: 'session-123',
+        headlineId: 'headline-789',
+        wasCounted: true,
+        counted: false,
+      });
+
+      expect(callWith('FROM headline_votes')[1]).toEqual(['headline-789']);
+      expect(result.scoreDelta).toBe(-9);
+      expect(callWith('UPDATE session_players')[1]).toEqual([-9, 'player-456']);
+    });
+
+    it("should restore a headline's votes with it, even before the juror scored it", async () => {
+      mockClient.query
+        .mockResolvedValueOnce({ rows: [{ planet_usage_global: usage, planet_set: null }] })
+        .mockResolvedValueOnce({ rows: [{ ...scoredHeadline, total_headline_score: null }] })
+        .mockResolvedValueOnce({ rows: [{ points: 3 }] })
+        .mockResolvedValueOnce({ rows: [{ total_score: 43 }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const result = await correctHeadlineScore(client(), {
+        sessionId: 'session-123',
+        headlineId: 'headline-789',
+        wasCounted: false,
+        counted: true,
+      });
+
+      expect(result.breakdown).toBeNull();
+      expect(result.scoreDelta).toBe(3);
+      expect(result.newTotalScore).toBe(43);
+      expect(callWith('UPDATE session_players')[1]).toEqual([3, 'player-456']);
+    });
+
+    it('should rescore an override of the plausibility level and primary planet', async () => {
+      setupCorrection();
+
+      const result = await correctHeadlineScore(client(), {
+        sessionId: 'session-123',
+        headlineId: 'headline-789',
+        wasCounted: true,
+        counted: true,
+        plausibilityLevel: 3,
+        primaryPlanet: 'VENUS',
+      });
+
+      // 1 baseline + 2 plausibility (level 3) + 4 connection (kept) + 2 (VENUS is least used)
+      expect(result.breakdown).toMatchObject({ plausibility: 2, connectionScore: 4, planetBonus: 2, total: 9 });
+      expect(result.scoreDelta).toBe(3);
+      expect(result.previous).toEqual({ plausibilityLevel: 5, primaryPlanet: 'MARS', total: 6 });
+      expect(callWith('UPDATE game_session_headlines')[1]).toEqual([
+        3, 2, 'VENUS', 'MARS', 'EARTH', 2, 9, 'headline-789',
+      ]);
+      expect(JSON.parse(callWith('UPDATE game_sessions')[1][0])).toMatchObject({ MARS: 2, VENUS: 1 });
+    });
+
+    it('should throw HEADLINE_NOT_SCORED when overriding an unscored headline', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({ rows: [{ planet_usage_global: usage, planet_set: null }] })
+        .mockResolvedValueOnce({ rows: [{ ...scoredHeadline, total_headline_score: null }] });
+
+      await expect(
+        correctHeadlineScore(client(), {
+          sessionId: 'session-123',
+          headlineId: 'headline-789',
+          wasCounted: true,
+          counted: true,
+          plausibilityLevel: 3,
+        })
+      ).rejects.toMatchObject({ code: 'HEADLINE_NOT_SCORED' });
+    });
+
+    it('should throw INVALID_PLANET for a planet outside the session set', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({ rows: [{ planet_usage_global: usage, planet_set: null }] })
+        .mockResolvedValueOnce({ rows: [scoredHeadline] });
+
+      await expect(
+        correctHeadlineScore(client(), {
+          sessionId: 'session-123',
+          headlineId: 'headline-789',
+          wasCounted: true,
+          counted: true,
+          primaryPlanet: 'VULCAN',
+        })
+      ).rejects.toMatchObject({ code: 'INVALID_PLANET' });
+    });
+  });
+
+  describe('getPlayerScoreBreakdowns', () => {
+    it("should leave hidden headlines' votes out of peoplesChoice", async () => {
+      (pool.query as jest.Mock).mockResolvedValueOnce({
+        rows: [
+          {
+            player_id: 'player-456',
+            baseline: 1,
+            plausibility: 2,
+            connection: 4,
+            planet_bonus: 1,
+            risk_bonus: 0,
+            peoples_choice: 2,
+          },
+        ],
+      });
+
+      const breakdowns = await getPlayerScoreBreakdowns('session-123');
+
+      const [sql] = (pool.query as jest.Mock).mock.calls[0];
+      expect(sql).toMatch(/JOIN game_session_headlines vh ON vh\.id = v\.headline_id/);
+      expect(sql).toContain("vh.moderation_status <> 'hidden'");
+      expect(breakdowns.get('player-456')).toMatchObject({ peoplesChoice: 2 });
+    });
+  });
+
   describe('getLeaderboard', () => {
     it('should return players ordered by score with ranks', async () => {
       (pool.query as jest.Mock).mockResolvedValueOnce({
@@ -321,6 +565,7 @@ describe('Scoring Service', () => {
             self_story_score: 0,
             others_story_score: 3, // Now stores connectionScore
             planet_bonus_score: 5,
+            risk_bonus_score: null,
             total_headline_score: 20,
           },
         ],
@@ -335,6 +580,7 @@ describe('Scoring Service', () => {
         selfStory: 0, // Deprecated, always 0
         othersStory: 0, // Deprecated, always 0
         planetBonus: 5,
+        riskBonus: 0,
         total: 20,
       });
     });
@@ -0,0 +1,456 @@
+import {
+  buildSessionArchive,
+  headlinesToCsv,
+  validateSessionArchive,
+  importSessionArchive,
+  SessionArchive,
+  SessionArchiveError,
+  ARCHIVE_FORMAT,
+  ARCHIVE_VERSION,
+} from '../../src/game/sessionArchive';
+import pool from '../../src/db/pool';
+import { resolveSessionScoring } from '../../src/game/scoringRules';
+
+jest.mock('../../src/db/pool', () => ({
+  __esModule: true,
+  default: {
+    query: jest.fn(),
+    connect: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/utils/joinCode', () => ({
+  generateUniqueJoinCode: jest.fn().mockResolvedValue('NEW123'),
+}));
+
+const HOST_ID = '11111111-1111-4111-8111-111111111111';
+const ARCHIVE_ID = '22222222-2222-4222-8222-222222222222';
+const HEADLINE_ID = '33333333-3333-4333-8333-333333333333';
+const VOTER_ID = '44444444-4444-4444-8444-444444444444';
+const CREATED = new Date('2025-03-01T10:00:00Z');
+
+// a tuned preset, as the host left it
+const SCORING = resolveSessionScoring({ preset: 'bold', baseline: 2 });
+
+const SESSION_ROW = {
+  id: 'session-1',
+  join_code: 'ABC123',
+  status: 'FINISHED',
+  phase: 'FINISHED',
+  current_round: 4,
+  created_at: CREATED,
+  max_rounds: 4,
+  play_minutes: 8,
+  break_schedule: [3, 5, 3],
+  summary_rounds: [2],
+  start_year: null,
+  total_years: 20,
+  timeline_speed_ratio: 60,
+  in_game_start_at: CREATED,
+  planet_set: null,
+  scenario: null,
+  planet_usage_global: { EARTH: 1 },
+  dice_seed: 'a'.repeat(64),
+  dice_seed_hash: 'f'.repeat(64),
+  teams: ['Red', 'Blue'],
+  scoring_rules: SCORING,
+  voting: { enabled: true, upvotePoints: 2, starPoints: 5, upvotesPerBreak: 3, starsPerBreak: 1 },
+};
+
+const HEADLINE_ROW = {
+  id: HEADLINE_ID,
+  player_id: HOST_ID,
+  round_no: 1,
+  headline_text: 'robots unionise',
+  created_at: CREATED,
+  in_game_submitted_at: CREATED,
+  llm_status: 'evaluated',
+  dice_roll: 42,
+  selected_band: 3,
+  dice_sequence: 1,
+  dice_algorithm: 'hmac-sha256.v1',
+  selected_headline: 'Robots form "first" union, demand oil',
+  band1_headline: 'b1',
+  band2_headline: 'b2',
+  band3_headline: 'Robots form "first" union, demand oil',
+  band4_headline: 'b4',
+  band5_headline: 'b5',
+  plausibility_level: 3,
+  plausibility_rationale: 'labour trends',
+  planet_1: 'EARTH',
+  planet_2: 'MARS',
+  planet_3: null,
+  planet_rationales: [{ id: 'EARTH', rank: 1, rationale: 'work' }],
+  linked_headlines: [{ headline: 'AI writes code', strength: 'STRONG', rationale: 'automation' }],
+  baseline_score: 10,
+  plausibility_score: 5,
+  self_story_connection_level: null,
+  self_story_score: 0,
+  others_story_connection_level: 'HIGH',
+  others_story_score: 3,
+  planet_bonus_score: 2,
+  total_headline_score: 20,
+  llm_model: 'offline',
+  llm_input_tokens: 100,
+  llm_output_tokens: 50,
+  llm_attempts: 1,
+  llm_error: null,
+  llm_request: { input: 'x' },
+  llm_response: { output: 'y' },
+};
+
+function mockArchiveQueries() {
+  (pool.query as jest.Mock)
+    .mockResolvedValueOnce({ rows: [SESSION_ROW] })
+    .mockResolvedValueOnce({
+      rows: [
+        { id: HOST_ID, nickname: 'Host', is_host: true, is_system: false, joined_at: CREATED, total_score: 20, planet_usage_state: {}, joined_round: 2, catch_up_score: 5, team: 'Blue' },
+        { id: VOTER_ID, nickname: 'Vera', is_host: false, is_system: false, joined_at: CREATED, total_score: 0, planet_usage_state: {}, joined_round: null, catch_up_score: 0, team: 'Red' },
+        { id: ARCHIVE_ID, nickname: 'Archive', is_host: false, is_system: true, joined_at: CREATED, total_score: 0, planet_usage_state: {}, joined_round: null, catch_up_score: 0, team: null },
+      ],
+    })
+    .mockResolvedValueOnce({ rows: [HEADLINE_ROW] })
+    .mockResolvedValueOnce({
+      rows: [
+        { headline_id: HEADLINE_ID, voter_id: VOTER_ID, author_id: HOST_ID, round_no: 1, kind: 'star', points: 5, created_at: CREATED },
+        // on a headline left out of the archive
+        { headline_id: 'hidden-headline', voter_id: VOTER_ID, author_id: HOST_ID, round_no: 1, kind: 'up', points: 2, created_at: CREATED },
+      ],
+    })
+    .mockResolvedValueOnce({
+      rows: [
+        { from_phase: 'BREAK', to_phase: 'BREAK', round_no: 1, occurred_at: CREATED, action: 'PAUSE', details: { playerId: HOST_ID } },
+      ],
+    })
+    .mockResolvedValueOnce({
+      rows: [
+        {
+          round_no: 2,
+          summary_type: 'historical',
+          status: 'completed',
+          summary_data: { title: 'Recap' },
+          error_message: null,
+          llm_model: 'offline',
+          llm_input_tokens: 10,
+          llm_output_tokens: 20,
+          llm_request: null,
+          llm_response: '{"title":"Recap"}',
+          created_at: CREATED,
+          completed_at: CREATED,
+        },
+      ],
+    });
+}
+
+/** an INSERT's values by column name; literals in the VALUES list are kept as sql */
+function insertedValues([sql, params]: [string, unknown[]?]): Record<string, unknown> {
+  const [, columnList, valueList] = sql.match(/\(([^)]*)\)\s*VALUES\s*\(([\s\S]*)\)/)!;
+  const values = valueList.split(',').map((value) => value.trim());
+  return Object.fromEntries(
+    columnList.split(',').map((column, i) => {
+      const placeholder = /^\$(\d+)$/.exec(values[i]);
+      return [column.trim(), placeholder ? params![Number(placeholder[1]) - 1] : values[i]];
+    })
+  );
+}
+
+async function buildArchive(): Promise<SessionArchive> {
+  mockArchiveQueries();
+  return (await buildSessionArchive('ABC123'))!;
+}
+
+describe('buildSessionArchive', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('returns null for an unknown session', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+    expect(await buildSessionArchive('NOPE00')).toBeNull();
+  });
+
+  it('records the config, players, headlines, transitions and summaries', async () => {
+    const archive = await buildArchive();
+
+    expect(archive.format).toBe(ARCHIVE_FORMAT);
+    expect(archive.version).toBe(ARCHIVE_VERSION);
+    expect(archive.session.settings).toEqual({
+      maxRounds: 4,
+      playMinutes: 8,
+      breakSchedule: [3, 5, 3],
+      summaryRounds: [2],
+      startYear: null,
+      totalYears: 20,
+    });
+    expect(archive.session.planetSet.pack).toBe('classic');
+    expect((archive.session.scenario as { id: string }).id).toBe('ai');
+    expect(archive.players).toHaveLength(3);
+    expect(archive.headlines[0]).toMatchObject({
+      storyDirection: 'robots unionise',
+      createdAt: '2025-03-01T10:00:00.000Z',
+      bandHeadlines: ['b1', 'b2', 'Robots form "first" union, demand oil', 'b4', 'b5'],
+      planets: ['EARTH', 'MARS'],
+      scores: { baseline: 10, othersStoryConnection: 'HIGH', total: 20 },
+      llm: { model: 'offline', attempts: 1 },
+      dice: { sequence: 1, algorithm: 'hmac-sha256.v1' },
+    });
+    expect(archive.session.dice).toEqual({
+      algorithm: 'hmac-sha256.v1',
+      seedHash: 'f'.repeat(64),
+      seed: 'a'.repeat(64),
+    });
+    // the vote on a headline left out of the archive goes with it
+    expect(archive.votes).toEqual([
+      { headlineId: HEADLINE_ID, voterId: VOTER_ID, authorId: HOST_ID, roundNo: 1, kind: 'star', points: 5, createdAt: '2025-03-01T10:00:00.000Z' },
+    ]);
+    expect(archive.transitions[0].action).toBe('PAUSE');
+    expect(archive.summaries[0].summary).toEqual({ title: 'Recap' });
+  });
+
+  it('leaves the dice seed out of games that are not over', async () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ ...SESSION_ROW, status: 'PLAYING', phase: 'PLAYING' }] })
+      .mockResolvedValue({ rows: [] });
+
+    const archive = (await buildSessionArchive('ABC123', { admin: true }))!;
+
+    expect(archive.session.dice).toEqual(expect.objectContaining({ seed: null }));
+  });
+
+  it('only archives running games for admins', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [{ ...SESSION_ROW, phase: 'BREAK' }] });
+
+    await expect(buildSessionArchive('ABC123')).rejects.toMatchObject({ code: 'NOT_FINISHED' });
+    expect(pool.query).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves out moderated headlines unless the caller is an admin', async () => {
+    await buildArchive();
+    const [publicSql, publicParams] = (pool.query as jest.Mock).mock.calls[2];
+    expect(publicSql).toContain("($2 OR moderation_status = 'approved')");
+    expect(publicSql).not.toContain('SELECT *');
+    expect(publicParams).toEqual(['session-1', false]);
+
+    jest.clearAllMocks();
+    mockArchiveQueries();
+    await buildSessionArchive('ABC123', { admin: true });
+    expect((pool.query as jest.Mock).mock.calls[2][1]).toEqual(['session-1', true]);
+  });
+
+  it('produces an archive that validates for import', async () => {
+    const archive = JSON.parse(JSON.stringify(await buildArchive()));
+
+    expect(validateSessionArchive(archive).headlines).toHaveLength(1);
+  });
+});
+
+describe('headlinesToCsv', () => {
+  it('writes a header and one quoted row per headline', async () => {
+    const csv = headlinesToCsv(await buildArchive());
+    const lines = csv.trimEnd().split('\r\n');
+
+    expect(lines).toHaveLength(2);
+    expect(lines[0].split(',')).toContain('selected_headline');
+    expect(lines[1]).toContain('Host');
+    expect(lines[1]).toContain('"Robots form ""first"" union, demand oil"');
+    expect(lines[1]).toContain('STRONG: AI writes code');
+    expect(lines[0].split(',').slice(-2)).toEqual(['dice_sequence', 'target_band']);
+    expect(lines[1].split(',').slice(-2)).toEqual(['1', '']);
+  });
+});
+
+describe('validateSessionArchive', () => {
+  it('rejects other json', () => {
+    expect(() => validateSessionArchive({ hello: 'world' })).toThrow(
+      expect.objectContaining({ code: 'INVALID_FORMAT' })
+    );
+  });
+
+  it('rejects newer archive versions', async () => {
+    const archive = await buildArchive();
+
+    expect(() => validateSessionArchive({ ...archive, version: ARCHIVE_VERSION + 1 })).toThrow(
+      expect.objectContaining({ code: 'UNSUPPORTED_VERSION' })
+    );
+  });
+
+  it('reports schema problems with their paths', async () => {
+    const archive = await buildArchive();
+    const broken = { ...archive, headlines: [{ ...archive.headlines[0], diceRoll: 500 }] };
+
+    expect.assertions(2);
+    try {
+      validateSessionArchive(broken);
+    } catch (err) {
+      expect((err as SessionArchiveError).code).toBe('INVALID_ARCHIVE');
+      const issues = (err as SessionArchiveError).details!.issues as Array<{ path: unknown[] }>;
+      expect(issues[0].path).toEqual(['headlines', 0, 'diceRoll']);
+    }
+  });
+
+  it('only imports finished games', async () => {
+    const archive = await buildArchive();
+
+    expect(() =>
+      validateSessionArchive({ ...archive, session: { ...archive.session, phase: 'PLAYING' } })
+    ).toThrow(expect.objectContaining({ code: 'NOT_FINISHED' }));
+  });
+
+  it('reads version 1 archives with defaults for the fields added since', async () => {
+    const archive = JSON.parse(JSON.stringify(await buildArchive()));
+    archive.version = 1;
+    delete archive.session.teams;
+    delete archive.session.scoring;
+    delete archive.session.voting;
+    delete archive.votes;
+    for (const player of archive.players) {
+      delete player.joinedRound;
+      delete player.catchUpScore;
+      delete player.team;
+    }
+
+    const validated = validateSessionArchive(archive);
+    expect(validated.session.teams).toEqual([]);
+    expect(validated.session.scoring).toBeNull();
+    expect(validated.session.voting).toBeNull();
+    expect(validated.votes).toEqual([]);
+    expect(validated.players[0]).toMatchObject({ joinedRound: null, catchUpScore: 0, team: null });
+  });
+
+  it('reads archives from before prompt versioning as unversioned', async () => {
+    const archive = JSON.parse(JSON.stringify(await buildArchive()));
+    delete archive.headlines[0].llm.promptVersion;
+    delete archive.summaries[0].llm.promptVersion;
+
+    const validated = validateSessionArchive(archive);
+    expect(validated.headlines[0].llm.promptVersion).toBeNull();
+    expect(validated.summaries[0].llm.promptVersion).toBeNull();
+  });
+
+  it('rejects players on teams missing from the archive', async () => {
+    const archive = await buildArchive();
+
+    expect(() =>
+      validateSessionArchive({ ...archive, session: { ...archive.session, teams: ['Red', 'Green'] } })
+    ).toThrow(expect.objectContaining({ code: 'UNKNOWN_TEAM' }));
+  });
+
+  it('rejects votes on headlines missing from the archive', async () => {
+    const archive = await buildArchive();
+
+    expect(() => validateSessionArchive({ ...archive, headlines: [] })).toThrow(
+      expect.objectContaining({ code: 'UNKNOWN_HEADLINE' })
+    );
+  });
+
+  it('rejects headlines from players missing from the archive', async () => {
+    const archive = await buildArchive();
+
+    expect(() => validateSessionArchive({ ...archive, players: [archive.players[1]] })).toThrow(
+      expect.objectContaining({ code: 'UNKNOWN_PLAYER' })
+    );
+  });
+});
+
+describe('importSessionArchive', () => {
+  let client: { query: jest.Mock; release: jest.Mock };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    client = { query: jest.fn(), release: jest.fn() };
+    (pool.connect as jest.Mock).mockResolvedValue(client);
+  });
+
+  it('recreates the game as a finished session with fresh ids', async () => {
+    const archive = await buildArchive();
+    let nextId = 0;
+    client.query.mockImplementation(async (sql: string) =>
+      sql.includes('RETURNING id') ? { rows: [{ id: `new-${++nextId}` }] } : { rows: [] }
+    );
+
+    const result = await importSessionArchive(archive);
+
+    expect(result).toEqual({
+      sessionId: 'new-1',
+      joinCode: 'NEW123',
+      // the Archive is a system player and can't be rejoined
+      recoveryCodes: {
+        Host: expect.stringMatching(/^[A-Z2-9]{4}-[A-Z2-9]{4}$/),
+        Vera: expect.stringMatching(/^[A-Z2-9]{4}-[A-Z2-9]{4}$/),
+      },
+    });
+    const calls = client.query.mock.calls as Array<[string, unknown[]?]>;
+    expect(calls[0][0]).toBe('BEGIN');
+    expect(calls[1][0]).toContain("'FINISHED', 'FINISHED'");
+    expect(calls[1][1]).toEqual(expect.arrayContaining(['NEW123', 'ABC123']));
+
+    const headlineInsert = calls.find(([sql]) => sql.includes('INSERT INTO game_session_headlines'))!;
+    expect(headlineInsert[1]!.slice(0, 4)).toEqual(['new-1', 'new-2', 1, 'robots unionise']);
+    expect(headlineInsert[1]!.slice(-4)).toEqual([1, 'hmac-sha256.v1', null, null]);
+    expect(insertedValues(calls[1])).toMatchObject({
+      dice_seed: 'a'.repeat(64),
+      dice_seed_hash: 'f'.repeat(64),
+      dice_settings: null,
+    });
+
+    const transitionInsert = calls.find(([sql]) => sql.includes('INSERT INTO game_session_state_transitions'))!;
+    expect(JSON.parse(transitionInsert[1]![6] as string)).toEqual({ playerId: 'new-2' });
+
+    expect(calls.find(([sql]) => sql.includes('SET host_player_id'))![1]).toEqual(['new-2', 'new-1']);
+    expect(calls[calls.length - 1][0]).toBe('COMMIT');
+    expect(client.release).toHaveBeenCalled();
+  });
+
+  it('round-trips what a game stored through export and import', async () => {
+    const archive = validateSessionArchive(JSON.parse(JSON.stringify(await buildArchive())));
+    let nextId = 0;
+    client.query.mockImplementation(async (sql: string) =>
+      sql.includes('RETURNING id') ? { rows: [{ id: `new-${++nextId}` }] } : { rows: [] }
+    );
+
+    await importSessionArchive(archive);
+
+    const calls = client.query.mock.calls as Array<[string, unknown[]?]>;
+    const sessionInsert = insertedValues(calls[1]);
+    expect(sessionInsert).toMatchObject({ teams: JSON.stringify(['Red', 'Blue']) });
+    expect(JSON.parse(sessionInsert.scoring_rules as string)).toEqual(SCORING);
+    expect(JSON.parse(sessionInsert.voting as string)).toEqual(SESSION_ROW.voting);
+    const hostInsert = calls.find(
+      ([sql, params]) => sql.includes('INSERT INTO session_players') && params?.[1] === 'Host'
+    )!;
+    expect(insertedValues(hostInsert)).toMatchObject({
+      joined_round: 2,
+      catch_up_score: 5,
+      total_score: 20,
+      team: 'Blue',
+    });
+
+    // players are new-2 (Host), new-3 (Vera) and new-4 (Archive); the headline is new-5
+    const voteInserts = calls.filter(([sql]) => sql.includes('INSERT INTO headline_votes'));
+    expect(voteInserts.map(insertedValues)).toEqual([
+      {
+        session_id: 'new-1',
+        headline_id: 'new-5',
+        voter_id: 'new-3',
+        author_id: 'new-2',
+        round_no: 1,
+        kind: 'star',
+        points: 5,
+        created_at: '2025-03-01T10:00:00.000Z',
+      },
+    ]);
+  });
+
+  it('rolls back when an insert fails', async () => {
+    const archive = await buildArchive();
+    client.query
+      .mockResolvedValueOnce({ rows: [] }) // BEGIN
+      .mockRejectedValueOnce(new Error('insert failed'))
+      .mockResolvedValue({ rows: [] });
+
+    await expect(importSessionArchive(archive)).rejects.toThrow('insert failed');
+    expect(client.query).toHaveBeenLastCalledWith('ROLLBACK');
+    expect(client.release).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Tests for the session state shared by lobby replies and the game loop's game:state.
+ */
+
+import pool from '../../src/db/pool';
+import { fetchSessionState } from '../../src/game/sessionState';
+
+jest.mock('../../src/db/pool', () => ({
+  __esModule: true,
+  default: {
+    query: jest.fn(),
+  },
+}));
+
+const SESSION_ROW = {
+  id: 'session-123',
+  join_code: 'ABC123',
+  status: 'PLAYING',
+  host_player_id: 'player-1',
+  phase: 'PLAYING',
+  current_round: 1,
+  play_minutes: 8,
+  break_minutes: 3,
+  max_rounds: 2,
+  phase_started_at: new Date('2026-01-01T10:00:00Z'),
+  phase_ends_at: new Date('2026-01-01T10:08:00Z'),
+  in_game_start_at: new Date('2026-01-01T10:00:00Z'),
+  timeline_speed_ratio: 60,
+  server_now: new Date('2026-01-01T10:01:00Z'),
+  players: [
+    { id: 'player-1', nickname: 'Alice', isHost: true, joinedAt: '2026-01-01T09:55:00Z', totalScore: 4 },
+    { id: null },
+  ],
+};
+
+describe('fetchSessionState', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('looks a session up by join code or by id and builds the same state', async () => {
+    (pool.query as jest.Mock).mockImplementation(async (sql: string) =>
+      sql.includes('FROM game_sessions s') ? { rows: [SESSION_ROW] } : { rows: [] }
+    );
+
+    const byJoinCode = await fetchSessionState({ joinCode: 'ABC123' });
+    const byId = await fetchSessionState({ sessionId: 'session-123' });
+
+    const [joinCodeSql, joinCodeParams] = (pool.query as jest.Mock).mock.calls[0];
+    expect(joinCodeSql).toContain('WHERE s.join_code = $1');
+    expect(joinCodeParams).toEqual(['ABC123']);
+    const [idSql, idParams] = (pool.query as jest.Mock).mock.calls[2];
+    expect(idSql).toContain('WHERE s.id = $1');
+    expect(idParams).toEqual(['session-123']);
+
+    // players without stored ordinals get random planet panels, so compare the rest
+    expect({ ...byId, players: [] }).toEqual({ ...byJoinCode, players: [] });
+    expect(byId).toMatchObject({
+      joinCode: 'ABC123',
+      teams: [],
+      joinLocked: false,
+      scoring: expect.objectContaining({ preset: 'classic' }),
+      players: [expect.objectContaining({ id: 'player-1', totalScore: 4, team: null })],
+    });
+  });
+
+  it('returns null for an unknown session', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+    await expect(fetchSessionState({ joinCode: 'ZZZ999' })).resolves.toBeNull();
+  });
+});
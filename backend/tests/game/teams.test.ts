@@ -0,0 +1,103 @@
+/**
+ * Unit tests for team mode: joining the smallest team, balancing and team totals
+ */
+
+import {
+  teamsFromRow,
+  smallestTeam,
+  balanceTeams,
+  computeTeamLeaderboard,
+  TeamScoreBreakdown,
+} from '../../src/game/teams';
+import { PlayerScoreEntry } from '../../src/game/scoringTypes';
+
+function entry(playerId: string, totalScore: number, team: string | null): PlayerScoreEntry {
+  return { playerId, nickname: playerId, totalScore, rank: 0, team };
+}
+
+function breakdown(connection: number, peoplesChoice = 0, riskBonus = 0): TeamScoreBreakdown {
+  return { baseline: 10, plausibility: 2, connection, planetBonus: 0, peoplesChoice, riskBonus };
+}
+
+describe('teamsFromRow', () => {
+  it('reads the team names', () => {
+    expect(teamsFromRow(['Red', 'Blue'])).toEqual(['Red', 'Blue']);
+  });
+
+  it('treats a missing column as a game without teams', () => {
+    expect(teamsFromRow(null)).toEqual([]);
+    expect(teamsFromRow(undefined)).toEqual([]);
+  });
+});
+
+describe('smallestTeam', () => {
+  it('picks the team with the fewest members', () => {
+    expect(smallestTeam(['Red', 'Blue'], ['Red', 'Red', 'Blue'])).toBe('Blue');
+  });
+
+  it('breaks ties in favour of the team listed first', () => {
+    expect(smallestTeam(['Red', 'Blue'], ['Red', 'Blue'])).toBe('Red');
+    expect(smallestTeam(['Red', 'Blue'], [])).toBe('Red');
+  });
+
+  it('ignores players without a team', () => {
+    expect(smallestTeam(['Red', 'Blue'], [null, null, 'Red'])).toBe('Blue');
+  });
+
+  it('returns null in a game without teams', () => {
+    expect(smallestTeam([], ['Red'])).toBeNull();
+  });
+});
+
+describe('balanceTeams', () => {
+  it('deals players out so team sizes differ by at most one', () => {
+    const assignments = balanceTeams(['a', 'b', 'c', 'd', 'e'], ['Red', 'Blue']);
+
+    expect(Array.from(assignments.entries())).toEqual([
+      ['a', 'Red'],
+      ['b', 'Blue'],
+      ['c', 'Red'],
+      ['d', 'Blue'],
+      ['e', 'Red'],
+    ]);
+  });
+
+  it('assigns no one in a game without teams', () => {
+    expect(balanceTeams(['a', 'b'], []).size).toBe(0);
+  });
+});
+
+describe('computeTeamLeaderboard', () => {
+  it('sums members\' scores and breakdowns and ranks the teams', () => {
+    const leaderboard = [entry('a', 30, 'Red'), entry('b', 25, 'Blue'), entry('c', 20, 'Blue'), entry('d', 5, 'Red')];
+    const breakdowns = new Map([
+      ['a', breakdown(4, 3)],
+      ['b', breakdown(1)],
+      ['c', breakdown(0)],
+      ['d', breakdown(9, 0, 8)],
+    ]);
+
+    const teams = computeTeamLeaderboard(leaderboard, breakdowns);
+
+    expect(teams).toEqual([
+      {
+        team: 'Blue',
+        totalScore: 45,
+        rank: 1,
+        playerIds: ['b', 'c'],
+        scoreBreakdown: { baseline: 20, plausibility: 4, connection: 1, planetBonus: 0, peoplesChoice: 0, riskBonus: 0 },
+      },
+      {
+        team: 'Red',
+        totalScore: 35,
+        rank: 2,
+        playerIds: ['a', 'd'],
+        scoreBreakdown: { baseline: 20, plausibility: 4, connection: 13, planetBonus: 0, peoplesChoice: 3, riskBonus: 8 },
+      },
+    ]);
+  });
+
+  it('is empty when nobody is on a team', () => {
+    expect(computeTeamLeaderboard([entry('a', 10, null)], new Map())).toEqual([]);
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Unit tests for provider selection and the chat completions provider.
+ */
+
+import {
+  createLLMProvider,
+  describeLLMProvider,
+  resolveLLMProviderConfig,
+} from '../../src/llm/llmProvider';
+import {
+  createChatCompletionsProvider,
+  extractJsonText,
+} from '../../src/llm/chatCompletionsProvider';
+import { OpenAIError } from '../../src/llm/openaiResponsesClient';
+
+describe('LLM provider selection', () => {
+  it('should default to the OpenAI Responses provider', () => {
+    const config = resolveLLMProviderConfig({ OPENAI_API_KEY: 'key' });
+    expect(config).toEqual({
+      kind: 'openai',
+      model: 'gpt-5.2',
+      baseUrl: 'https://api.openai.com',
+      apiKey: 'key',
+      timeoutMs: undefined,
+      maxRetries: undefined,
+    });
+    expect(createLLMProvider({ OPENAI_API_KEY: 'key' }).kind).toBe('openai');
+  });
+
+  it('should require OPENAI_API_KEY for the openai provider', () => {
+    expect(() => createLLMProvider({})).toThrow('OPENAI_API_KEY environment variable is not set');
+  });
+
+  it('should configure an openai-compatible provider from LLM_* variables', () => {
+    const env = {
+      LLM_PROVIDER: 'openai-compatible',
+      LLM_BASE_URL: 'http://localhost:11434',
+      LLM_MODEL: 'llama3.1',
+    };
+    expect(resolveLLMProviderConfig(env)).toEqual({
+      kind: 'openai-compatible',
+      model: 'llama3.1',
+      baseUrl: 'http://localhost:11434',
+      apiKey: undefined,
+      timeoutMs: undefined,
+      maxRetries: undefined,
+    });
+    expect(createLLMProvider(env).kind).toBe('openai-compatible');
+  });
+
+  it('should require LLM_BASE_URL for the openai-compatible provider', () => {
+    expect(() => createLLMProvider({ LLM_PROVIDER: 'openai-compatible' })).toThrow(
+      expect.objectContaining({ code: 'MISSING_BASE_URL' })
+    );
+  });
+
+  it('should create the offline provider without any credentials', () => {
+    expect(createLLMProvider({ LLM_PROVIDER: 'offline' }).kind).toBe('offline');
+  });
+
+  it('should read timeout and retry limits from the environment', () => {
+    const config = resolveLLMProviderConfig({
+      OPENAI_API_KEY: 'key',
+      LLM_TIMEOUT_MS: '15000',
+      LLM_MAX_RETRIES: '0',
+    });
+    expect(config.timeoutMs).toBe(15000);
+    expect(config.maxRetries).toBe(0);
+    expect(resolveLLMProviderConfig({ LLM_TIMEOUT_MS: 'soon' }).timeoutMs).toBeUndefined();
+  });
+
+  it('should reject unknown providers', () => {
+    expect(() => createLLMProvider({ LLM_PROVIDER: 'carrier-pigeon' })).toThrow(OpenAIError);
+  });
+
+  it('should describe provider health', () => {
+    expect(describeLLMProvider({})).toEqual({
+      provider: 'openai',
+      model: 'gpt-5.2',
+      status: 'missing_api_key',
+    });
+    expect(describeLLMProvider({ LLM_PROVIDER: 'offline' }).status).toBe('ok');
+    expect(describeLLMProvider({ LLM_PROVIDER: 'openai-compatible' }).status).toBe(
+      'missing_base_url'
+    );
+    expect(describeLLMProvider({ LLM_PROVIDER: 'nope' }).status).toBe('unknown_provider');
+  });
+});
+
+describe('Chat completions provider', () => {
+  const jsonSchema = {
+    name: 'test_schema',
+    strict: true,
+    schema: { type: 'object', properties: { result: { type: 'boolean' } } },
+  };
+
+  function createMockFetch(content: string, statusCode = 200) {
+    return jest.fn().mockResolvedValue({
+      ok: statusCode >= 200 && statusCode < 300,
+      status: statusCode,
+      json: () =>
+        Promise.resolve(
+          statusCode >= 200 && statusCode < 300
+            ? {
+                model: 'llama3.1',
+                choices: [{ message: { role: 'assistant', content } }],
+                usage: { prompt_tokens: 12, completion_tokens: 5 },
+              }
+            : { error: 'model not loaded' }
+        ),
+    } as unknown as Response);
+  }
+
+  it('should post messages and the json schema to /v1/chat/completions', async () => {
+    const mockFetch = createMockFetch('{"result": true}');
+    const provider = createChatCompletionsProvider({
+      baseUrl: 'http://localhost:8080/',
+      model: 'local-model',
+      fetchFn: mockFetch,
+    });
+
+    const result = await provider.generateStructured<{ result: boolean }>(
+      jsonSchema,
+      'Be helpful',
+      'Test prompt'
+    );
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      'http://localhost:8080/v1/chat/completions',
+      expect.objectContaining({
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+      })
+    );
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+    expect(body.messages).toEqual([
+      { role: 'system', content: 'Be helpful' },
+      { role: 'user', content: 'Test prompt' },
+    ]);
+    expect(body.response_format).toEqual({
+      type: 'json_schema',
+      json_schema: { name: 'test_schema', strict: true, schema: jsonSchema.schema },
+    });
+
+    expect(result.output).toEqual({ result: true });
+    expect(result.model).toBe('llama3.1');
+    expect(result.usage).toEqual({ inputTokens: 12, outputTokens: 5 });
+  });
+
+  it('should send the api key as a bearer token when configured', async () => {
+    const mockFetch = createMockFetch('{"result": true}');
+    const provider = createChatCompletionsProvider({
+      baseUrl: 'http://vllm:8000',
+      model: 'qwen',
+      apiKey: 'secret',
+      fetchFn: mockFetch,
+    });
+
+    await provider.generateStructured(jsonSchema, 'i', 'p');
+
+    expect(mockFetch.mock.calls[0][1].headers.Authorization).toBe('Bearer secret');
+  });
+
+  it('should surface endpoint errors as API_ERROR', async () => {
+    const provider = createChatCompletionsProvider({
+      baseUrl: 'http://localhost:8080',
+      model: 'local-model',
+      fetchFn: createMockFetch('', 503),
+      maxRetries: 0,
+    });
+
+    await expect(provider.generateStructured(jsonSchema, 'i', 'p')).rejects.toMatchObject({
+      code: 'API_ERROR',
+      statusCode: 503,
+      message: 'model not loaded',
+    });
+  });
+
+  it('should reject output that is not JSON', async () => {
+    const provider = createChatCompletionsProvider({
+      baseUrl: 'http://localhost:8080',
+      model: 'local-model',
+      fetchFn: createMockFetch('I cannot answer that'),
+    });
+
+    await expect(provider.generateStructured(jsonSchema, 'i', 'p')).rejects.toMatchObject({
+      code: 'INVALID_JSON_OUTPUT',
+    });
+  });
+
+  it('should extract JSON wrapped in prose or a code fence', () => {
+    expect(extractJsonText('{"a": 1}')).toBe('{"a": 1}');
+    expect(extractJsonText('Reasoning first.\n```json\n{"a": {"b": 2}}\n```')).toBe(
+      '{"a": {"b": 2}}'
+    );
+  });
+});
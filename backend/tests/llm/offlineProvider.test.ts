@@ -0,0 +1,169 @@
+/**
+ * Unit tests for the deterministic offline provider.
+ */
+
+import { createOfflineProvider, ruleBasedBand } from '../../src/llm/offlineProvider';
+import { setLLMProvider, resetLLMProvider } from '../../src/llm/llmProvider';
+import { buildJurorPrompt, jurorJsonSchema, JurorEvaluationOutput } from '../../src/llm/jurorPrompt';
+import { buildSummaryPrompt, summaryJsonSchema } from '../../src/llm/summaryPrompt';
+import { buildNarrativePrompt, narrativeJsonSchema } from '../../src/llm/narrativePrompt';
+import { NarrativeSummaryOutput, RoundSummaryOutput } from '../../src/llm/summaryTypes';
+import { evaluateJuror } from '../../src/game/jurorService';
+import { getDefaultPlanets } from '../../src/game/planets';
+
+// the usage ledger records each call
+jest.mock('../../src/db/pool', () => ({
+  __esModule: true,
+  default: {
+    query: jest.fn().mockResolvedValue({ rows: [] }),
+  },
+}));
+
+describe('Offline provider', () => {
+  const provider = createOfflineProvider();
+
+  const jurorInput = {
+    storyDirection: '2029: Military drones use AI targeting in border conflict',
+    headlinesList: [
+      { id: 'h1', text: 'Parliament debates AI copyright for music' },
+      { id: 'h2', text: 'AI drones deployed for military border patrol' },
+      { id: 'h3', text: 'Hospitals pilot AI triage' },
+      { id: 'h4', text: 'Defense ministry funds AI targeting research' },
+    ],
+    planetList: getDefaultPlanets(),
+  };
+
+  afterEach(() => {
+    resetLLMProvider();
+  });
+
+  describe('juror_evaluation', () => {
+    it('should produce output that passes juror validation', async () => {
+      setLLMProvider(provider);
+
+      const result = await evaluateJuror(jurorInput);
+
+      expect(result.model).toBe('offline-rules');
+      expect(result.evaluation.PLANETS.top3[0].id).toBe('MARS');
+      expect(result.evaluation.LINKED.map((l) => l.headline)).toEqual([
+        'AI drones deployed for military border patrol',
+        'Defense ministry funds AI targeting research',
+        'Hospitals pilot AI triage',
+      ]);
+      expect(result.evaluation.LINKED[0].strength).toBe('STRONG');
+      expect(result.evaluation.LINKED[2].strength).toBe('WEAK');
+    });
+
+    it('should be deterministic', async () => {
+      const prompt = buildJurorPrompt(jurorInput);
+      const a = await provider.generateStructured(jurorJsonSchema, '', prompt);
+      const b = await provider.generateStructured(jurorJsonSchema, '', prompt);
+      expect(a.rawText).toBe(b.rawText);
+    });
+
+    it('should pad LINKED to three entries on a short timeline', async () => {
+      const { output } = await provider.generateStructured<JurorEvaluationOutput>(
+        jurorJsonSchema,
+        '',
+        buildJurorPrompt({ ...jurorInput, headlinesList: [] })
+      );
+      expect(output.LINKED).toHaveLength(3);
+      expect(output.LINKED.every((l) => l.strength === 'WEAK')).toBe(true);
+    });
+
+    it('should rate sweeping claims less plausible than tentative ones', () => {
+      expect(ruleBasedBand('Regulators begin a small pilot of AI tax guidance')).toBe(1);
+      expect(ruleBasedBand('Chip maker ships faster accelerators')).toBe(3);
+      expect(ruleBasedBand('Sentient AI declares every human obsolete worldwide')).toBe(5);
+    });
+  });
+
+  describe('round_summary', () => {
+    it('should summarise the headlines in the prompt', async () => {
+      const prompt = buildSummaryPrompt({
+        fromRound: 1,
+        toRound: 2,
+        totalRounds: 4,
+        headlines: [
+          {
+            headline: 'Robot nurses staff rural clinics',
+            player: 'alice',
+            plausibilityLevel: 2,
+            plausibilityLabel: 'probable',
+            planets: ['EARTH'],
+            storyDirection: 'robot nurses',
+          },
+          {
+            headline: 'Robot judges hear first appeals',
+            player: 'bob',
+            plausibilityLevel: 5,
+            plausibilityLabel: 'preposterous',
+            planets: ['JUPITER'],
+            storyDirection: 'robot judges',
+          },
+          {
+            headline: 'Clinics report fewer missed diagnoses',
+            player: 'alice',
+            plausibilityLevel: 3,
+            plausibilityLabel: 'plausible',
+            planets: ['EARTH'],
+            storyDirection: 'diagnoses',
+          },
+        ],
+      });
+
+      const { output } = await provider.generateStructured<RoundSummaryOutput>(
+        summaryJsonSchema,
+        '',
+        prompt
+      );
+
+      expect(output.roundStats).toEqual({ headlineCount: 3, playerCount: 2 });
+      expect(output.themes).toEqual(['Clinic', 'Robot', 'Appeal']);
+      expect(output.highlightedHeadlines.map((h) => h.headline)).toEqual([
+        'Robot judges hear first appeals',
+        'Clinics report fewer missed diagnoses',
+      ]);
+      expect(output.narrative).toContain('Robot nurses staff rural clinics');
+    });
+
+    it('should still return a schema-valid summary with no headlines', async () => {
+      const { output } = await provider.generateStructured<RoundSummaryOutput>(
+        summaryJsonSchema,
+        '',
+        buildSummaryPrompt({ fromRound: 1, toRound: 1, totalRounds: 4, headlines: [] })
+      );
+      expect(output.highlightedHeadlines).toHaveLength(1);
+      expect(output.themes.length).toBeGreaterThan(0);
+      expect(output.roundStats.headlineCount).toBe(0);
+    });
+  });
+
+  describe('narrative_summary', () => {
+    it('should write one report per narrator covering the timeline', async () => {
+      const prompt = buildNarrativePrompt({
+        headlines: [
+          { date: '2026-01', headline: 'Schools adopt AI tutors' },
+          { date: '2031-06', headline: 'AI tutors outperform exams' },
+          { date: '2040-03', headline: 'Universities close lecture halls' },
+        ],
+      });
+
+      const { output } = await provider.generateStructured<NarrativeSummaryOutput>(
+        narrativeJsonSchema,
+        '',
+        prompt
+      );
+
+      expect(output.reports).toHaveLength(3);
+      expect(output.reports[0].story).toContain('schools adopt ai tutors');
+      expect(output.reports[2].story).toContain('2040-03');
+    });
+  });
+
+  it('should reject schemas it has no rules for', async () => {
+    await expect(
+      provider.generateStructured({ name: 'unknown', schema: {} }, '', '')
+    ).rejects.toMatchObject({ code: 'UNSUPPORTED_SCHEMA' });
+  });
+});
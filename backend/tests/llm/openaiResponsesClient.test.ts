@@ -178,6 +178,83 @@ describe('OpenAI Responses API Client', () => {
       });
     });
 
+    it('should retry transient failures with exponential backoff', async () => {
+      const success = createMockFetch('{"ok": true}');
+      const mockFetch = jest
+        .fn()
+        .mockRejectedValueOnce(new Error('socket hang up'))
+        .mockImplementationOnce(createMockFetch('', 503))
+        .mockImplementationOnce(success);
+      const sleepFn = jest.fn().mockResolvedValue(undefined);
+
+      const client = createOpenAIClient({
+        apiKey: mockApiKey,
+        fetchFn: mockFetch,
+        sleepFn,
+        retryBaseDelayMs: 100,
+      });
+
+      const result = await client.callResponsesApi<{ ok: boolean }>({ input: 'Test' });
+
+      expect(result.output).toEqual({ ok: true });
+      expect(result.retries).toBe(2);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(sleepFn.mock.calls).toEqual([[100], [200]]);
+    });
+
+    it('should give up after maxRetries', async () => {
+      const mockFetch = createMockFetch('', 500);
+      const sleepFn = jest.fn().mockResolvedValue(undefined);
+
+      const client = createOpenAIClient({
+        apiKey: mockApiKey,
+        fetchFn: mockFetch,
+        sleepFn,
+        maxRetries: 1,
+      });
+
+      await expect(client.callResponsesApi({ input: 'Test' })).rejects.toMatchObject({
+        code: 'API_ERROR',
+        statusCode: 500,
+        retries: 1,
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry client errors', async () => {
+      const mockFetch = createMockFetch('', 400);
+      const sleepFn = jest.fn();
+
+      const client = createOpenAIClient({ apiKey: mockApiKey, fetchFn: mockFetch, sleepFn });
+
+      await expect(client.callResponsesApi({ input: 'Test' })).rejects.toMatchObject({
+        statusCode: 400,
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(sleepFn).not.toHaveBeenCalled();
+    });
+
+    it('should abort slow calls with TIMEOUT', async () => {
+      // never resolves on its own; rejects once the abort signal fires
+      const mockFetch = jest.fn(
+        (_url: string, init: RequestInit) =>
+          new Promise<Response>((_resolve, reject) => {
+            init.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+          })
+      );
+
+      const client = createOpenAIClient({
+        apiKey: mockApiKey,
+        fetchFn: mockFetch as unknown as typeof fetch,
+        timeoutMs: 10,
+        maxRetries: 0,
+      });
+
+      await expect(client.callResponsesApi({ input: 'Test' })).rejects.toMatchObject({
+        code: 'TIMEOUT',
+      });
+    });
+
     it('should throw INVALID_RESPONSE_STRUCTURE for unexpected response format', async () => {
       const mockFetch = jest.fn().mockResolvedValue({
         ok: true,
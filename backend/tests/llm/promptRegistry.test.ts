@@ -0,0 +1,117 @@
+/**
+ * Unit tests for the prompt registry and the a/b split.
+ */
+
+import {
+  DEFAULT_PROMPT_VARIANTS,
+  PROMPT_KINDS,
+  PROMPT_VARIANTS,
+  PromptRegistryError,
+  describePromptVariants,
+  getPromptVariant,
+  pickPromptVariant,
+  promptExperimentFromRow,
+} from '../../src/llm/promptRegistry';
+import { buildJurorPrompt, buildJurorInstructions } from '../../src/llm/jurorPrompt';
+import { buildSummaryPrompt } from '../../src/llm/summaryPrompt';
+import { promptExperimentSchema } from '../../src/utils/validation';
+import { getDefaultPlanets } from '../../src/game/planets';
+
+describe('Prompt registry', () => {
+  const jurorInput = {
+    storyDirection: 'AI runs the post office',
+    headlinesList: [{ id: 'h1', text: 'Parliament debates AI copyright' }],
+    planetList: getDefaultPlanets(),
+  };
+
+  it('has unique ids of the form <kind>.v<version>', () => {
+    const ids = PROMPT_VARIANTS.map((variant) => variant.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    for (const variant of PROMPT_VARIANTS) {
+      expect(variant.id).toBe(`${variant.kind}.v${variant.version}`);
+    }
+  });
+
+  it('has a registered default for every kind', () => {
+    for (const kind of PROMPT_KINDS) {
+      expect(getPromptVariant(kind).id).toBe(DEFAULT_PROMPT_VARIANTS[kind]);
+    }
+    expect(describePromptVariants().filter((variant) => variant.isDefault)).toHaveLength(PROMPT_KINDS.length);
+  });
+
+  it('keeps the default prompts identical to the unversioned builders', () => {
+    expect(getPromptVariant('juror').buildPrompt(jurorInput)).toBe(buildJurorPrompt(jurorInput));
+    expect(getPromptVariant('juror').buildInstructions()).toBe(buildJurorInstructions());
+
+    const summaryInput = { fromRound: 1, toRound: 2, totalRounds: 4, headlines: [] };
+    expect(getPromptVariant('summary').buildPrompt(summaryInput)).toBe(buildSummaryPrompt(summaryInput));
+  });
+
+  it('gives juror.v2 a different headline task', () => {
+    expect(getPromptVariant('juror', 'juror.v2').buildPrompt(jurorInput)).not.toBe(
+      getPromptVariant('juror', 'juror.v1').buildPrompt(jurorInput)
+    );
+  });
+
+  it('rejects unknown variants and variants of another kind', () => {
+    expect(() => getPromptVariant('juror', 'juror.v99')).toThrow(
+      expect.objectContaining({ code: 'UNKNOWN_PROMPT_VARIANT' })
+    );
+    expect(() => getPromptVariant('juror', 'summary.v1')).toThrow(PromptRegistryError);
+    expect(() => getPromptVariant('juror', 'summary.v1')).toThrow(
+      expect.objectContaining({ code: 'WRONG_PROMPT_KIND' })
+    );
+  });
+
+  it('reads missing session assignments as the defaults', () => {
+    expect(promptExperimentFromRow(null)).toEqual({});
+    expect(pickPromptVariant('juror', promptExperimentFromRow(null), 'headline-1')).toBe('juror.v1');
+  });
+});
+
+describe('pickPromptVariant', () => {
+  const unitIds = Array.from({ length: 2000 }, (_, i) => `headline-${i}`);
+
+  it('uses the assigned variant for every call without a fraction', () => {
+    const experiment = { juror: { variant: 'juror.v2' } };
+    expect(unitIds.every((id) => pickPromptVariant('juror', experiment, id) === 'juror.v2')).toBe(true);
+  });
+
+  it('splits calls by the fraction, the same way every time', () => {
+    const experiment = { juror: { variant: 'juror.v2', fraction: 0.3 } };
+    const picks = unitIds.map((id) => pickPromptVariant('juror', experiment, id));
+    const share = picks.filter((id) => id === 'juror.v2').length / picks.length;
+
+    expect(share).toBeGreaterThan(0.25);
+    expect(share).toBeLessThan(0.35);
+    expect(unitIds.map((id) => pickPromptVariant('juror', experiment, id))).toEqual(picks);
+  });
+
+  it('never picks the variant with a fraction of 0', () => {
+    const experiment = { juror: { variant: 'juror.v2', fraction: 0 } };
+    expect(unitIds.some((id) => pickPromptVariant('juror', experiment, id) === 'juror.v2')).toBe(false);
+  });
+
+  it('falls back to the default for variants no longer registered or of another kind', () => {
+    expect(pickPromptVariant('juror', { juror: { variant: 'juror.v99' } }, 'headline-1')).toBe('juror.v1');
+    expect(pickPromptVariant('summary', { summary: { variant: 'juror.v2' } }, 's:2')).toBe('summary.v1');
+  });
+
+  it('leaves kinds without an assignment on their default', () => {
+    expect(pickPromptVariant('summary', { juror: { variant: 'juror.v2' } }, 's:2')).toBe('summary.v1');
+  });
+});
+
+describe('promptExperimentSchema', () => {
+  it('accepts registered variants of the right kind', () => {
+    expect(promptExperimentSchema.parse({ juror: { variant: 'juror.v2', fraction: 0.5 } })).toEqual({
+      juror: { variant: 'juror.v2', fraction: 0.5 },
+    });
+  });
+
+  it('rejects unknown variants, the wrong kind and fractions outside 0-1', () => {
+    expect(promptExperimentSchema.safeParse({ juror: { variant: 'juror.v99' } }).success).toBe(false);
+    expect(promptExperimentSchema.safeParse({ summary: { variant: 'juror.v2' } }).success).toBe(false);
+    expect(promptExperimentSchema.safeParse({ juror: { variant: 'juror.v2', fraction: 1.5 } }).success).toBe(false);
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * Tests for the llm call ledger, token budgets and usage reports.
+ */
+
+import pool from '../../src/db/pool';
+import { setLLMProvider, resetLLMProvider } from '../../src/llm/llmProvider';
+import { OpenAIError, JsonSchemaDefinition } from '../../src/llm/openaiResponsesClient';
+import {
+  assertWithinTokenBudget,
+  generateRecorded,
+  getDailyLLMUsage,
+  getSessionLLMUsage,
+  getTokenBudgetStatus,
+  setModelPrice,
+  setSessionTokenBudget,
+} from '../../src/llm/usageLedger';
+
+jest.mock('../../src/db/pool', () => ({
+  __esModule: true,
+  default: {
+    query: jest.fn(),
+  },
+}));
+
+const schema: JsonSchemaDefinition = { name: 'test', strict: true, schema: { type: 'object' } };
+
+describe('generateRecorded', () => {
+  const env = process.env;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (pool.query as jest.Mock).mockResolvedValue({ rows: [] });
+    process.env = { ...env, LLM_PROVIDER: 'openai', OPENAI_MODEL: 'gpt-test' };
+  });
+
+  afterEach(() => {
+    process.env = env;
+    resetLLMProvider();
+  });
+
+  it('records a successful call with its tokens and retries', async () => {
+    setLLMProvider({
+      kind: 'openai',
+      generateStructured: jest.fn().mockResolvedValue({
+        output: { ok: true },
+        rawText: '{"ok":true}',
+        model: 'gpt-test-2026',
+        usage: { inputTokens: 1200, outputTokens: 300 },
+        retries: 1,
+      }),
+    });
+
+    const result = await generateRecorded({ purpose: 'summary', sessionId: 'session-1' }, schema, 'be brief', 'input');
+
+    expect(result.output).toEqual({ ok: true });
+    const [sql, params] = (pool.query as jest.Mock).mock.calls[0];
+    expect(sql).toContain('INSERT INTO llm_calls');
+    expect(params).toEqual([
+      'session-1',
+      null,
+      'summary',
+      'openai',
+      'gpt-test-2026',
+      1200,
+      300,
+      expect.any(Number),
+      'ok',
+      1,
+      null,
+    ]);
+  });
+
+  it('records a failed call under the configured model and rethrows', async () => {
+    const error = new OpenAIError('OpenAI API returned 503', 'API_ERROR', 503);
+    error.retries = 2;
+    setLLMProvider({ kind: 'openai', generateStructured: jest.fn().mockRejectedValue(error) });
+
+    await expect(generateRecorded({ purpose: 'moderation' }, schema, 'check', 'text')).rejects.toBe(error);
+
+    const [, params] = (pool.query as jest.Mock).mock.calls[0];
+    expect(params).toEqual([
+      null,
+      null,
+      'moderation',
+      'openai',
+      'gpt-test',
+      0,
+      0,
+      expect.any(Number),
+      'error',
+      2,
+      'OpenAI API returned 503',
+    ]);
+  });
+
+  it('returns the result when the ledger write fails', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    (pool.query as jest.Mock).mockRejectedValueOnce(new Error('connection lost'));
+    setLLMProvider({
+      kind: 'offline',
+      generateStructured: jest.fn().mockResolvedValue({ output: {}, rawText: '{}', model: 'offline-rules' }),
+    });
+
+    await expect(generateRecorded({ purpose: 'juror' }, schema, '', '')).resolves.toEqual(
+      expect.objectContaining({ model: 'offline-rules' })
+    );
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('connection lost'));
+    warn.mockRestore();
+  });
+});
+
+describe('token budgets', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('reports what is left of a budget', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [{ llm_token_budget: 10000, used: '2500' }] });
+
+    await expect(getTokenBudgetStatus('session-1')).resolves.toEqual({
+      budget: 10000,
+      used: 2500,
+      remaining: 7500,
+      exceeded: false,
+    });
+  });
+
+  it('has no limit without a budget', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [{ llm_token_budget: null, used: '900000' }] });
+
+    await expect(assertWithinTokenBudget('session-1')).resolves.toBeUndefined();
+  });
+
+  it('refuses once the budget is used up', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [{ llm_token_budget: 10000, used: '10000' }] });
+
+    await expect(assertWithinTokenBudget('session-1')).rejects.toThrow(
+      expect.objectContaining({ code: 'TOKEN_BUDGET_EXCEEDED' })
+    );
+  });
+
+  it('sets a budget by join code and reports unknown sessions', async () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ id: 'session-1', join_code: 'ABC123', llm_token_budget: null }] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [{ llm_token_budget: 50000, used: '0' }] });
+
+    await expect(setSessionTokenBudget('ABC123', 50000)).resolves.toEqual(
+      expect.objectContaining({ budget: 50000, remaining: 50000 })
+    );
+    expect((pool.query as jest.Mock).mock.calls[1][1]).toEqual([50000, 'session-1']);
+
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+    await expect(setSessionTokenBudget('NOPE00', null)).rejects.toThrow(
+      expect.objectContaining({ code: 'SESSION_NOT_FOUND' })
+    );
+  });
+});
+
+describe('usage reports', () => {
+  const totalsRow = {
+    calls: 4,
+    failed: 1,
+    retries: 2,
+    input_tokens: '3000',
+    output_tokens: '1000',
+    mean_latency_ms: 850,
+    cost_usd: '0.0125',
+    unpriced_calls: 1,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('breaks a session down by purpose and model, with its budget', async () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ id: 'session-1', join_code: 'ABC123', llm_token_budget: 5000 }] })
+      .mockResolvedValueOnce({ rows: [totalsRow] })
+      .mockResolvedValueOnce({ rows: [{ key: 'juror', ...totalsRow }] })
+      .mockResolvedValueOnce({ rows: [{ key: 'gpt-5.2', ...totalsRow, cost_usd: null }] });
+
+    const usage = await getSessionLLMUsage('ABC123');
+
+    expect(usage.totals).toEqual({
+      calls: 4,
+      failed: 1,
+      retries: 2,
+      inputTokens: 3000,
+      outputTokens: 1000,
+      meanLatencyMs: 850,
+      costUsd: 0.0125,
+      unpricedCalls: 1,
+    });
+    expect(usage.byPurpose[0]).toEqual(expect.objectContaining({ purpose: 'juror', calls: 4 }));
+    expect(usage.byModel[0]).toEqual(expect.objectContaining({ model: 'gpt-5.2', costUsd: null }));
+    expect(usage.budget).toEqual({ budget: 5000, used: 4000, remaining: 1000, exceeded: false });
+    expect((pool.query as jest.Mock).mock.calls[3][0]).toContain('GROUP BY 1');
+  });
+
+  it('reports unknown sessions', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+    await expect(getSessionLLMUsage('NOPE00')).rejects.toThrow(expect.objectContaining({ code: 'SESSION_NOT_FOUND' }));
+  });
+
+  it('groups every call of the window by utc day', async () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [totalsRow] })
+      .mockResolvedValueOnce({ rows: [{ key: '2026-10-19', ...totalsRow }] });
+
+    const usage = await getDailyLLMUsage(7);
+
+    expect(usage.days).toBe(7);
+    expect(usage.byDay).toEqual([expect.objectContaining({ day: '2026-10-19', inputTokens: 3000 })]);
+    expect((pool.query as jest.Mock).mock.calls[0][1]).toEqual([7]);
+  });
+
+  it('reads empty windows as zero', async () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({
+        rows: [{ calls: 0, failed: 0, retries: 0, input_tokens: '0', output_tokens: '0', mean_latency_ms: null, cost_usd: null, unpriced_calls: 0 }],
+      })
+      .mockResolvedValueOnce({ rows: [] });
+
+    const usage = await getDailyLLMUsage();
+
+    expect(usage.totals).toEqual(expect.objectContaining({ calls: 0, meanLatencyMs: null, costUsd: null }));
+    expect(usage.byDay).toEqual([]);
+  });
+
+  it('upserts model prices', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({
+      rows: [
+        {
+          model: 'gpt-5.2',
+          input_per_million: '1.2500',
+          output_per_million: '10.0000',
+          updated_at: new Date('2026-10-19T00:00:00Z'),
+        },
+      ],
+    });
+
+    await expect(setModelPrice('gpt-5.2', 1.25, 10)).resolves.toEqual({
+      model: 'gpt-5.2',
+      inputPerMillion: 1.25,
+      outputPerMillion: 10,
+      updatedAt: '2026-10-19T00:00:00.000Z',
+    });
+    expect((pool.query as jest.Mock).mock.calls[0][0]).toContain('ON CONFLICT (model) DO UPDATE');
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Unit tests for the content moderation providers and strictness decisions.
+ */
+
+import {
+  createModerationProvider,
+  decideModeration,
+  strictnessFromRow,
+} from '../../src/moderation/moderationProvider';
+import { createLocalModerationProvider } from '../../src/moderation/localModerationProvider';
+import { createLLMModerationProvider } from '../../src/moderation/llmModerationProvider';
+import { setLLMProvider, resetLLMProvider, LLMProvider } from '../../src/llm/llmProvider';
+import { createOfflineProvider } from '../../src/llm/offlineProvider';
+
+// the usage ledger records each call
+jest.mock('../../src/db/pool', () => ({
+  __esModule: true,
+  default: {
+    query: jest.fn().mockResolvedValue({ rows: [] }),
+  },
+}));
+
+describe('local moderation provider', () => {
+  const local = createLocalModerationProvider();
+
+  it('passes ordinary headlines, including dark ones', async () => {
+    for (const text of [
+      'Parliament bans AI in classrooms after exam scandal',
+      'Pandemic kills thousands as hospitals run out of beds',
+      'Shiitake farms boom in Scunthorpe',
+    ]) {
+      await expect(local.check(text)).resolves.toEqual({
+        severity: 'none',
+        categories: [],
+        reason: null,
+        provider: 'local',
+      });
+    }
+  });
+
+  it('treats profanity as mild, even with lookalike characters', async () => {
+    const verdict = await local.check('AI writes sh1t poetry');
+
+    expect(verdict).toMatchObject({ severity: 'mild', categories: ['profanity'], reason: 'contains profanity' });
+  });
+
+  it('treats threats and self-harm as severe', async () => {
+    await expect(local.check("I'm going to kill you Bob")).resolves.toMatchObject({
+      severity: 'severe',
+      categories: ['threat'],
+    });
+    await expect(local.check('robots tell everyone to kill yourself')).resolves.toMatchObject({
+      severity: 'severe',
+      categories: ['self_harm'],
+    });
+  });
+
+  it('catches contact details and links in the raw text', async () => {
+    await expect(local.check('Call me on +44 7700 900123')).resolves.toMatchObject({
+      categories: ['personal_info'],
+    });
+    await expect(local.check('Read more at https://example.com')).resolves.toMatchObject({
+      categories: ['link'],
+    });
+  });
+
+  it('keeps the worst severity and lists its categories', async () => {
+    const verdict = await local.check('f*** it, email bob@example.com and shit happens, kys');
+
+    expect(verdict.severity).toBe('severe');
+    expect(verdict.categories).toEqual(['self_harm']);
+  });
+
+  it('treats blocklisted terms as severe', async () => {
+    const provider = createLocalModerationProvider({ blocklist: ['acme corp'] });
+
+    await expect(provider.check('ACME Corp buys the moon')).resolves.toMatchObject({
+      severity: 'severe',
+      categories: ['blocklist'],
+    });
+  });
+});
+
+describe('decideModeration', () => {
+  it('maps severity to a decision per strictness', () => {
+    expect(decideModeration('severe', 'off')).toBe('approved');
+    expect(decideModeration('mild', 'relaxed')).toBe('approved');
+    expect(decideModeration('severe', 'relaxed')).toBe('flagged');
+    expect(decideModeration('mild', 'standard')).toBe('flagged');
+    expect(decideModeration('severe', 'standard')).toBe('rejected');
+    expect(decideModeration('mild', 'strict')).toBe('rejected');
+    expect(decideModeration('none', 'strict')).toBe('approved');
+  });
+
+  it('falls back to standard for unknown stored values', () => {
+    expect(strictnessFromRow('strict')).toBe('strict');
+    expect(strictnessFromRow(undefined)).toBe('standard');
+  });
+});
+
+describe('moderation provider selection', () => {
+  it('defaults to the local rules', () => {
+    expect(createModerationProvider({}).kind).toBe('local');
+    expect(createModerationProvider({ MODERATION_PROVIDER: 'LLM' }).kind).toBe('llm');
+  });
+
+  it('rejects unknown providers', () => {
+    expect(() => createModerationProvider({ MODERATION_PROVIDER: 'magic' })).toThrow(
+      'Unknown MODERATION_PROVIDER'
+    );
+  });
+
+  it('passes MODERATION_BLOCKLIST to the local rules', async () => {
+    const provider = createModerationProvider({ MODERATION_BLOCKLIST: 'foo, bar baz' });
+
+    await expect(provider.check('Bar baz wins election')).resolves.toMatchObject({ severity: 'severe' });
+  });
+});
+
+describe('llm moderation provider', () => {
+  const generateStructured = jest.fn();
+  const provider = createLLMModerationProvider(createLocalModerationProvider());
+
+  beforeEach(() => {
+    generateStructured.mockReset();
+    setLLMProvider({ kind: 'openai', generateStructured } as unknown as LLMProvider);
+  });
+
+  afterAll(() => {
+    resetLLMProvider();
+  });
+
+  it('settles severe text locally without calling the llm', async () => {
+    const verdict = await provider.check('kys');
+
+    expect(verdict).toMatchObject({ severity: 'severe', provider: 'llm' });
+    expect(generateStructured).not.toHaveBeenCalled();
+  });
+
+  it('combines the llm verdict with the local one', async () => {
+    generateStructured.mockResolvedValueOnce({
+      output: { severity: 'mild', categories: ['harassment'], reason: 'mocks a classmate' },
+      rawText: '{}',
+      model: 'test',
+    });
+
+    const verdict = await provider.check('Bob is the worst driver in class');
+
+    expect(generateStructured).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'content_moderation' }),
+      expect.any(String),
+      'Bob is the worst driver in class'
+    );
+    expect(verdict).toEqual({
+      severity: 'mild',
+      categories: ['harassment'],
+      reason: 'mocks a classmate',
+      provider: 'llm',
+    });
+  });
+
+  it('falls back to the local verdict when the llm fails', async () => {
+    generateStructured.mockRejectedValueOnce(new Error('timeout'));
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const verdict = await provider.check('AI writes shit poetry');
+
+    expect(verdict).toMatchObject({ severity: 'mild', categories: ['profanity'], provider: 'llm' });
+    warn.mockRestore();
+  });
+
+  it('has nothing to add offline', async () => {
+    setLLMProvider(createOfflineProvider());
+
+    await expect(provider.check('Robots form a union')).resolves.toMatchObject({ severity: 'none' });
+  });
+});
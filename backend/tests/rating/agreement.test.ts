@@ -0,0 +1,83 @@
+/**
+ * Unit tests for the rater agreement statistics
+ */
+
+import {
+  cohenKappa,
+  exactAgreement,
+  pairwiseAgreement,
+  ratingDistribution,
+  wilsonInterval,
+  RaterRatings,
+} from '../../src/rating/agreement';
+import { PlausibilityLevel } from '../../src/game/scoringTypes';
+
+// the 38 playtest ratings from experiments/inter-rater-analysis/joined-ratings.csv
+const levels = (digits: string) => digits.split('').map(Number) as PlausibilityLevel[];
+const LEWIS = levels('24534433353443334123223432353444434542');
+const AYMAN = levels('32314455334333535133342344344335335533');
+const JUROR = levels('11315354453425355142222523141324424533');
+
+function rater(name: string, ratings: PlausibilityLevel[]): RaterRatings {
+  return { rater: name, ratings: new Map(ratings.map((level, i) => [`item-${i}`, level])) };
+}
+
+describe('agreement statistics', () => {
+  // reference values from experiments/inter-rater-analysis/stats.json
+  it('matches the offline analysis', () => {
+    expect(exactAgreement(LEWIS, AYMAN).rate).toBeCloseTo(0.263157895, 8);
+    expect(cohenKappa(LEWIS, AYMAN)).toBeCloseTo(-0.0310077519, 8);
+    expect(cohenKappa(LEWIS, AYMAN, true)).toBeCloseTo(0.087012987, 8);
+
+    expect(cohenKappa(AYMAN, JUROR)).toBeCloseTo(0.1031468531, 8);
+    expect(cohenKappa(AYMAN, JUROR, true)).toBeCloseTo(0.280876494, 8);
+
+    const lewisJuror = exactAgreement(LEWIS, JUROR);
+    expect(lewisJuror.rate).toBeCloseTo(0.289473684, 8);
+    expect(lewisJuror.low).toBeCloseTo(0.170031063, 8);
+    expect(lewisJuror.high).toBeCloseTo(0.447574382, 8);
+    expect(cohenKappa(LEWIS, JUROR)).toBeCloseTo(0.1015761821, 8);
+    expect(cohenKappa(LEWIS, JUROR, true)).toBeCloseTo(0.2431052094, 8);
+  });
+
+  it('gives 1 for perfect agreement and null when chance agreement is total', () => {
+    expect(cohenKappa([1, 2, 3, 4, 5], [1, 2, 3, 4, 5])).toBeCloseTo(1);
+    expect(cohenKappa([1, 2, 3, 4, 5], [1, 2, 3, 4, 5], true)).toBeCloseTo(1);
+    expect(cohenKappa([3, 3, 3], [3, 3, 3])).toBeNull();
+    expect(cohenKappa([], [])).toBeNull();
+  });
+
+  it('handles an empty wilson interval', () => {
+    expect(wilsonInterval(0, 0)).toEqual({ rate: 0, low: 0, high: 0 });
+  });
+
+  it('counts levels', () => {
+    expect(ratingDistribution(JUROR)).toEqual({ 1: 6, 2: 8, 3: 8, 4: 8, 5: 8 });
+  });
+});
+
+describe('pairwiseAgreement', () => {
+  it('compares every pair on the items both rated', () => {
+    const partial = rater('Partial', [4, 4]);
+    const pairs = pairwiseAgreement([rater('Lewis', LEWIS), partial, rater('Juror', JUROR)]);
+
+    expect(pairs.map((p) => p.raters)).toEqual([
+      ['Lewis', 'Partial'],
+      ['Lewis', 'Juror'],
+      ['Partial', 'Juror'],
+    ]);
+    expect(pairs[0].n).toBe(2);
+    expect(pairs[1].n).toBe(38);
+    expect(pairs[1].weightedKappa).toBeCloseTo(0.2431052094, 8);
+    // juror 1, 1 against 4, 4
+    expect(pairs[2].meanDifference).toBe(-3);
+  });
+
+  it('reports no kappa for raters with nothing in common', () => {
+    const [pair] = pairwiseAgreement([
+      { rater: 'A', ratings: new Map([['x', 2 as PlausibilityLevel]]) },
+      { rater: 'B', ratings: new Map([['y', 2 as PlausibilityLevel]]) },
+    ]);
+    expect(pair).toMatchObject({ n: 0, kappa: null, weightedKappa: null, meanDifference: null });
+  });
+});
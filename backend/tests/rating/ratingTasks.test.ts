@@ -0,0 +1,217 @@
+/**
+ * Unit tests for rating tasks (human calibration of the juror)
+ */
+
+import {
+  createRatingTask,
+  getRaterAssignment,
+  getRatingReport,
+  saveRating,
+  generateRaterCode,
+  RatingTaskError,
+  JUROR_RATER,
+} from '../../src/rating/ratingTasks';
+import { createRatingTaskSchema } from '../../src/utils/validation';
+import pool from '../../src/db/pool';
+
+jest.mock('../../src/db/pool', () => ({
+  __esModule: true,
+  default: {
+    query: jest.fn(),
+    connect: jest.fn(),
+  },
+}));
+
+const CREATED = new Date('2026-03-01T10:00:00Z');
+
+describe('createRatingTaskSchema', () => {
+  const valid = { name: 'After prompt v3', raters: ['Lewis', 'Ayman'], sample: { perLevel: 8 } };
+
+  it('needs a sample size or a per-level count', () => {
+    expect(createRatingTaskSchema.safeParse(valid).success).toBe(true);
+    expect(createRatingTaskSchema.safeParse({ ...valid, sample: { joinCodes: ['ABC123'] } }).success).toBe(false);
+  });
+
+  it('keeps rater names unique and the juror name reserved', () => {
+    expect(createRatingTaskSchema.safeParse({ ...valid, raters: ['Lewis', 'lewis'] }).success).toBe(false);
+    expect(createRatingTaskSchema.safeParse({ ...valid, raters: ['juror'] }).success).toBe(false);
+  });
+});
+
+describe('generateRaterCode', () => {
+  it('makes 10-character codes without look-alike characters', () => {
+    expect(generateRaterCode()).toMatch(/^[A-HJ-NP-Z2-9]{10}$/);
+  });
+});
+
+describe('createRatingTask', () => {
+  let client: { query: jest.Mock; release: jest.Mock };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    client = {
+      query: jest.fn().mockImplementation(async (sql: string, params?: unknown[]) => {
+        if (sql.includes('INSERT INTO rating_tasks')) return { rows: [{ id: 'task-1', created_at: CREATED }] };
+        if (sql.includes('INSERT INTO rating_task_raters')) {
+          return { rows: [{ id: `rater-${params?.[1]}`, name: params?.[1], code: params?.[2] }] };
+        }
+        return { rows: [] };
+      }),
+      release: jest.fn(),
+    };
+    (pool.connect as jest.Mock).mockResolvedValue(client);
+  });
+
+  it('samples per juror level from the chosen sessions and snapshots the items', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({
+      rows: [
+        { id: 'h-1', story_direction: 'robots unionise', selected_headline: 'Robots Unionise', plausibility_level: 2 },
+        { id: 'h-2', story_direction: 'moon base opens', selected_headline: null, plausibility_level: 5 },
+      ],
+    });
+
+    const task = await createRatingTask({
+      name: 'After prompt v3',
+      raters: ['Lewis', 'Ayman'],
+      sample: { perLevel: 4, joinCodes: ['ABC123'], since: '2026-02-01T00:00:00Z' },
+    });
+
+    const [sql, params] = (pool.query as jest.Mock).mock.calls[0];
+    expect(sql).toContain(`s.phase = 'FINISHED'`);
+    expect(sql).toContain('PARTITION BY h.plausibility_level');
+    expect(sql).toContain('s.join_code = ANY($1)');
+    expect(sql).toContain('s.created_at >= $2');
+    expect(params).toEqual([['ABC123'], '2026-02-01T00:00:00Z', 4, 200]);
+
+    const items = client.query.mock.calls.filter(([q]) => String(q).includes('INSERT INTO rating_task_items'));
+    expect(items.map(([, p]) => p)).toEqual([
+      ['task-1', 'h-1', 1, 'robots unionise', 'Robots Unionise', 2],
+      ['task-1', 'h-2', 2, 'moon base opens', null, 5],
+    ]);
+    expect(client.query).toHaveBeenCalledWith('COMMIT');
+    expect(task).toMatchObject({ id: 'task-1', itemCount: 2, createdAt: CREATED.toISOString() });
+    expect(task.raters.map((r) => r.name)).toEqual(['Lewis', 'Ayman']);
+    expect(task.raters[0].code).toMatch(/^[A-Z0-9]{10}$/);
+  });
+
+  it('refuses an empty sample', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+    await expect(
+      createRatingTask({ name: 'Empty', raters: ['Lewis'], sample: { sampleSize: 20 } })
+    ).rejects.toMatchObject({ code: 'NO_HEADLINES' });
+    expect((pool.query as jest.Mock).mock.calls[0][1]).toEqual([null, 20]);
+    expect(pool.connect).not.toHaveBeenCalled();
+  });
+});
+
+describe('rating as a rater', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('shows the items blind, with the rater\'s own levels', async () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ id: 'rater-1', name: 'Lewis', task_id: 'task-1', task_name: 'v3' }] })
+      .mockResolvedValueOnce({
+        rows: [
+          { id: 'item-1', position: 1, story_direction: 'robots unionise', selected_headline: 'Robots Unionise', level: 3 },
+          { id: 'item-2', position: 2, story_direction: 'moon base opens', selected_headline: null, level: null },
+        ],
+      });
+
+    const assignment = await getRaterAssignment('ABCDEFGHJK');
+
+    expect(assignment).toEqual({
+      taskName: 'v3',
+      raterName: 'Lewis',
+      items: [
+        { id: 'item-1', position: 1, storyDirection: 'robots unionise', headline: 'Robots Unionise', level: 3 },
+        { id: 'item-2', position: 2, storyDirection: 'moon base opens', headline: null, level: null },
+      ],
+    });
+    expect((pool.query as jest.Mock).mock.calls[1][0]).not.toContain('juror_level');
+  });
+
+  it('rejects an unknown code', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+    await expect(getRaterAssignment('ABCDEFGHJK')).rejects.toBeInstanceOf(RatingTaskError);
+  });
+
+  it('saves a rating on an item of the rater\'s task', async () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ id: 'rater-1', name: 'Lewis', task_id: 'task-1', task_name: 'v3' }] })
+      .mockResolvedValueOnce({ rows: [{ id: 'item-1' }] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [{ rated: 5 }] });
+
+    const result = await saveRating('ABCDEFGHJK', 'item-1', 4);
+
+    expect(result).toEqual({ itemId: 'item-1', level: 4, rated: 5 });
+    const [sql, params] = (pool.query as jest.Mock).mock.calls[2];
+    expect(sql).toContain('ON CONFLICT (item_id, rater_id)');
+    expect(params).toEqual(['item-1', 'rater-1', 4]);
+  });
+
+  it('refuses items from another task', async () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ id: 'rater-1', name: 'Lewis', task_id: 'task-1', task_name: 'v3' }] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    await expect(saveRating('ABCDEFGHJK', 'item-9', 4)).rejects.toMatchObject({ code: 'ITEM_NOT_FOUND' });
+    expect(pool.query).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('getRatingReport', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('compares the raters with each other and the juror', async () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({
+        rows: [{ id: 'task-1', name: 'v3', sample: { perLevel: 2 }, created_at: CREATED, item_count: 3 }],
+      })
+      .mockResolvedValueOnce({
+        rows: [
+          { task_id: 'task-1', id: 'rater-1', name: 'Lewis', code: 'AAAAAAAAAA', rated: 3 },
+          { task_id: 'task-1', id: 'rater-2', name: 'Ayman', code: 'BBBBBBBBBB', rated: 0 },
+        ],
+      })
+      .mockResolvedValueOnce({
+        rows: [
+          { id: 'item-1', juror_level: 1 },
+          { id: 'item-2', juror_level: 3 },
+          { id: 'item-3', juror_level: 5 },
+        ],
+      })
+      .mockResolvedValueOnce({
+        rows: [
+          { item_id: 'item-1', rater_id: 'rater-1', level: 1 },
+          { item_id: 'item-2', rater_id: 'rater-1', level: 3 },
+          { item_id: 'item-3', rater_id: 'rater-1', level: 4 },
+        ],
+      });
+
+    const report = await getRatingReport('task-1');
+
+    // Ayman has rated nothing yet, so only Lewis and the juror are compared
+    expect(report.distributions).toEqual([
+      { rater: 'Lewis', rated: 3, distribution: { 1: 1, 2: 0, 3: 1, 4: 1, 5: 0 } },
+      { rater: JUROR_RATER, rated: 3, distribution: { 1: 1, 2: 0, 3: 1, 4: 0, 5: 1 } },
+    ]);
+    expect(report.pairs).toHaveLength(1);
+    expect(report.pairs[0]).toMatchObject({ raters: ['Lewis', JUROR_RATER], n: 3 });
+    expect(report.pairs[0].exact.rate).toBeCloseTo(2 / 3);
+    expect(report.pairs[0].meanDifference).toBeCloseTo(1 / 3);
+    expect(report.task.raters.map((r) => r.rated)).toEqual([3, 0]);
+  });
+
+  it('rejects an unknown task', async () => {
+    (pool.query as jest.Mock).mockResolvedValue({ rows: [] });
+
+    await expect(getRatingReport('task-9')).rejects.toMatchObject({ code: 'TASK_NOT_FOUND' });
+  });
+});
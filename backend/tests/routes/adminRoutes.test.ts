@@ -0,0 +1,279 @@
+/**
+ * Integration tests for the admin routes (score replay, rating tasks, llm usage, dice report).
+ */
+
+import express from 'express';
+import request from 'supertest';
+import adminRouter from '../../src/routes/admin';
+import { replaySessionScores, ScoreReplayError } from '../../src/game/scoreReplay';
+
+import { createRatingTask, getRatingReport, RatingTaskError } from '../../src/rating/ratingTasks';
+import {
+  getDailyLLMUsage,
+  getSessionLLMUsage,
+  setModelPrice,
+  setSessionTokenBudget,
+  LLMUsageError,
+} from '../../src/llm/usageLedger';
+import { getDiceReport } from '../../src/game/diceAudit';
+
+jest.mock('../../src/game/scoreReplay', () => {
+  const actual = jest.requireActual('../../src/game/scoreReplay');
+  return { ...actual, replaySessionScores: jest.fn() };
+});
+
+jest.mock('../../src/rating/ratingTasks', () => {
+  const actual = jest.requireActual('../../src/rating/ratingTasks');
+  return { ...actual, createRatingTask: jest.fn(), getRatingReport: jest.fn() };
+});
+
+jest.mock('../../src/llm/usageLedger', () => {
+  const actual = jest.requireActual('../../src/llm/usageLedger');
+  return {
+    ...actual,
+    getDailyLLMUsage: jest.fn(),
+    getSessionLLMUsage: jest.fn(),
+    setModelPrice: jest.fn(),
+    setSessionTokenBudget: jest.fn(),
+  };
+});
+
+jest.mock('../../src/game/diceAudit', () => {
+  const actual = jest.requireActual('../../src/game/diceAudit');
+  return { ...actual, getDiceReport: jest.fn() };
+});
+
+const TASK_ID = '44444444-4444-4444-8444-444444444444';
+
+describe('Admin routes', () => {
+  let app: express.Express;
+  const previousToken = process.env.ADMIN_TOKEN;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/admin', adminRouter);
+    process.env.ADMIN_TOKEN = 'secret-admin';
+    jest.clearAllMocks();
+  });
+
+  afterAll(() => {
+    process.env.ADMIN_TOKEN = previousToken;
+  });
+
+  describe('POST /api/admin/sessions/:joinCode/replay', () => {
+    it('replays the session with the requested rules', async () => {
+      (replaySessionScores as jest.Mock).mockResolvedValue({ joinCode: 'ABC123', changed: 2 });
+
+      const response = await request(app)
+        .post('/api/admin/sessions/abc123/replay')
+        .set('Authorization', 'Bearer secret-admin')
+        .send({ scoring: { preset: 'weavers' } });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ joinCode: 'ABC123', changed: 2 });
+      expect(replaySessionScores).toHaveBeenCalledWith('ABC123', { preset: 'weavers' });
+    });
+
+    it('rejects a wrong token', async () => {
+      const response = await request(app)
+        .post('/api/admin/sessions/ABC123/replay')
+        .set('Authorization', 'Bearer guess');
+
+      expect(response.status).toBe(401);
+      expect(response.body.code).toBe('INVALID_ADMIN_TOKEN');
+      expect(replaySessionScores).not.toHaveBeenCalled();
+    });
+
+    it('is off without ADMIN_TOKEN', async () => {
+      delete process.env.ADMIN_TOKEN;
+
+      const response = await request(app)
+        .post('/api/admin/sessions/ABC123/replay')
+        .set('Authorization', 'Bearer secret-admin');
+
+      expect(response.status).toBe(404);
+      expect(response.body.code).toBe('ADMIN_DISABLED');
+    });
+
+    it('validates the scoring rules', async () => {
+      const response = await request(app)
+        .post('/api/admin/sessions/ABC123/replay')
+        .set('Authorization', 'Bearer secret-admin')
+        .send({ scoring: { preset: 'nope' } });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('returns 404 for an unknown session', async () => {
+      (replaySessionScores as jest.Mock).mockRejectedValue(
+        new ScoreReplayError('Session not found', 'SESSION_NOT_FOUND')
+      );
+
+      const response = await request(app)
+        .post('/api/admin/sessions/ABC123/replay')
+        .set('Authorization', 'Bearer secret-admin');
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('rating tasks', () => {
+    it('creates a task', async () => {
+      (createRatingTask as jest.Mock).mockResolvedValue({ id: TASK_ID, itemCount: 40 });
+
+      const response = await request(app)
+        .post('/api/admin/rating-tasks')
+        .set('Authorization', 'Bearer secret-admin')
+        .send({ name: 'After prompt v3', raters: ['Lewis', 'Ayman'], sample: { perLevel: 8 } });
+
+      expect(response.status).toBe(201);
+      expect(response.body.task).toEqual({ id: TASK_ID, itemCount: 40 });
+      expect(createRatingTask).toHaveBeenCalledWith({
+        name: 'After prompt v3',
+        raters: ['Lewis', 'Ayman'],
+        sample: { perLevel: 8 },
+      });
+    });
+
+    it('validates the sample', async () => {
+      const response = await request(app)
+        .post('/api/admin/rating-tasks')
+        .set('Authorization', 'Bearer secret-admin')
+        .send({ name: 'No sample', raters: ['Lewis'], sample: {} });
+
+      expect(response.status).toBe(400);
+      expect(createRatingTask).not.toHaveBeenCalled();
+    });
+
+    it('reports an empty sample', async () => {
+      (createRatingTask as jest.Mock).mockRejectedValue(new RatingTaskError('Nothing to rate', 'NO_HEADLINES'));
+
+      const response = await request(app)
+        .post('/api/admin/rating-tasks')
+        .set('Authorization', 'Bearer secret-admin')
+        .send({ name: 'Too narrow', raters: ['Lewis'], sample: { sampleSize: 10 } });
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('NO_HEADLINES');
+    });
+
+    it('returns the agreement report', async () => {
+      (getRatingReport as jest.Mock).mockResolvedValue({ pairs: [] });
+
+      const response = await request(app)
+        .get(`/api/admin/rating-tasks/${TASK_ID}/report`)
+        .set('Authorization', 'Bearer secret-admin');
+
+      expect(response.status).toBe(200);
+      expect(getRatingReport).toHaveBeenCalledWith(TASK_ID);
+    });
+
+    it('returns 404 for a malformed or unknown task id', async () => {
+      const malformed = await request(app)
+        .get('/api/admin/rating-tasks/not-a-task/report')
+        .set('Authorization', 'Bearer secret-admin');
+      expect(malformed.status).toBe(404);
+      expect(getRatingReport).not.toHaveBeenCalled();
+
+      (getRatingReport as jest.Mock).mockRejectedValue(new RatingTaskError('Rating task not found', 'TASK_NOT_FOUND'));
+      const unknown = await request(app)
+        .get(`/api/admin/rating-tasks/${TASK_ID}/report`)
+        .set('Authorization', 'Bearer secret-admin');
+      expect(unknown.status).toBe(404);
+    });
+
+    it('needs the admin token', async () => {
+      const response = await request(app).get(`/api/admin/rating-tasks/${TASK_ID}/report`);
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('llm usage', () => {
+    const auth = ['Authorization', 'Bearer secret-admin'] as const;
+
+    it('reports daily usage for the requested window', async () => {
+      (getDailyLLMUsage as jest.Mock).mockResolvedValue({ days: 7, totals: {}, byDay: [] });
+
+      const response = await request(app).get('/api/admin/llm-usage?days=7').set(...auth);
+
+      expect(response.status).toBe(200);
+      expect(getDailyLLMUsage).toHaveBeenCalledWith(7);
+    });
+
+    it('defaults to 30 days and validates the window', async () => {
+      (getDailyLLMUsage as jest.Mock).mockResolvedValue({ days: 30, totals: {}, byDay: [] });
+
+      await request(app).get('/api/admin/llm-usage').set(...auth);
+      expect(getDailyLLMUsage).toHaveBeenCalledWith(30);
+
+      const response = await request(app).get('/api/admin/llm-usage?days=0').set(...auth);
+      expect(response.status).toBe(400);
+    });
+
+    it("reports a session's usage and 404s unknown sessions", async () => {
+      (getSessionLLMUsage as jest.Mock).mockResolvedValueOnce({ joinCode: 'ABC123' });
+      const found = await request(app).get('/api/admin/sessions/abc123/llm-usage').set(...auth);
+      expect(found.status).toBe(200);
+      expect(getSessionLLMUsage).toHaveBeenCalledWith('ABC123');
+
+      (getSessionLLMUsage as jest.Mock).mockRejectedValueOnce(new LLMUsageError('Session not found', 'SESSION_NOT_FOUND'));
+      const unknown = await request(app).get('/api/admin/sessions/NOPE00/llm-usage').set(...auth);
+      expect(unknown.status).toBe(404);
+      expect(unknown.body.code).toBe('SESSION_NOT_FOUND');
+    });
+
+    it('sets and lifts a token budget', async () => {
+      (setSessionTokenBudget as jest.Mock).mockResolvedValue({ budget: null, used: 0, remaining: null, exceeded: false });
+
+      const lifted = await request(app).put('/api/admin/sessions/ABC123/token-budget').set(...auth).send({ budget: null });
+      expect(lifted.status).toBe(200);
+      expect(setSessionTokenBudget).toHaveBeenCalledWith('ABC123', null);
+
+      const tooSmall = await request(app).put('/api/admin/sessions/ABC123/token-budget').set(...auth).send({ budget: 10 });
+      expect(tooSmall.status).toBe(400);
+    });
+
+    it('sets a model price', async () => {
+      (setModelPrice as jest.Mock).mockResolvedValue({ model: 'gpt-5.2', inputPerMillion: 1.25, outputPerMillion: 10 });
+
+      const response = await request(app)
+        .put('/api/admin/llm-prices/gpt-5.2')
+        .set(...auth)
+        .send({ inputPerMillion: 1.25, outputPerMillion: 10 });
+
+      expect(response.status).toBe(200);
+      expect(setModelPrice).toHaveBeenCalledWith('gpt-5.2', 1.25, 10);
+
+      const negative = await request(app)
+        .put('/api/admin/llm-prices/gpt-5.2')
+        .set(...auth)
+        .send({ inputPerMillion: -1, outputPerMillion: 10 });
+      expect(negative.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/admin/dice-report', () => {
+    const auth = ['Authorization', 'Bearer secret-admin'] as const;
+
+    it('covers all time without a window', async () => {
+      (getDiceReport as jest.Mock).mockResolvedValue({ days: null, seededRolls: 0, report: {} });
+
+      const response = await request(app).get('/api/admin/dice-report').set(...auth);
+
+      expect(response.status).toBe(200);
+      expect(getDiceReport).toHaveBeenCalledWith(null);
+    });
+
+    it('validates the window', async () => {
+      (getDiceReport as jest.Mock).mockResolvedValue({ days: 7, seededRolls: 0, report: {} });
+
+      await request(app).get('/api/admin/dice-report?days=7').set(...auth);
+      expect(getDiceReport).toHaveBeenCalledWith(7);
+
+      const response = await request(app).get('/api/admin/dice-report?days=abc').set(...auth);
+      expect(response.status).toBe(400);
+    });
+  });
+});
@@ -13,7 +13,6 @@ import { OpenAIError } from '../../src/llm/openaiResponsesClient';
 jest.mock('../../src/game/jurorService', () => ({
   ...jest.requireActual('../../src/game/jurorService'),
   evaluateJuror: jest.fn(),
-  resetJurorClient: jest.fn(),
 }));
 
 describe('Juror Routes', () => {
@@ -114,6 +113,34 @@ describe('Juror Routes', () => {
       );
     });
 
+    it('should pass a juror prompt variant through and report its version', async () => {
+      (jurorService.evaluateJuror as jest.Mock).mockResolvedValue({
+        evaluation: validEvaluation,
+        model: 'gpt-5.2',
+        promptVersion: 'juror.v2',
+      });
+
+      const response = await request(app)
+        .post('/api/juror/evaluate')
+        .send({ ...validRequest, promptVariant: 'juror.v2' })
+        .expect(200);
+
+      expect(response.body.promptVersion).toBe('juror.v2');
+      expect(jurorService.evaluateJuror).toHaveBeenCalledWith(
+        expect.objectContaining({ promptVariant: 'juror.v2' })
+      );
+    });
+
+    it('should return 400 for a prompt variant that is not a juror prompt', async () => {
+      const response = await request(app)
+        .post('/api/juror/evaluate')
+        .send({ ...validRequest, promptVariant: 'summary.v1' })
+        .expect(400);
+
+      expect(response.body.details[0].path).toBe('promptVariant');
+      expect(jurorService.evaluateJuror).not.toHaveBeenCalled();
+    });
+
     it('should return 400 if storyDirection is missing', async () => {
       const response = await request(app)
         .post('/api/juror/evaluate')
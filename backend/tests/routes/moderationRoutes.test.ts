@@ -0,0 +1,274 @@
+/**
+ * Integration tests for the host moderation REST routes.
+ */
+
+import express from 'express';
+import request from 'supertest';
+import moderationRouter from '../../src/routes/moderation';
+import pool from '../../src/db/pool';
+import { playerModeration, ModerationError } from '../../src/game/playerModeration';
+import { contentModeration } from '../../src/game/contentModeration';
+import { signPlayerToken } from '../../src/auth/sessionTokens';
+
+jest.mock('../../src/db/pool', () => ({
+  __esModule: true,
+  default: {
+    query: jest.fn(),
+    connect: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/game/playerModeration', () => ({
+  ModerationError: jest.requireActual('../../src/game/playerModeration').ModerationError,
+  playerModeration: {
+    kick: jest.fn().mockResolvedValue(undefined),
+    rename: jest.fn(),
+    mute: jest.fn(),
+    unmute: jest.fn(),
+    transferHost: jest.fn().mockResolvedValue(undefined),
+    setJoinLocked: jest.fn().mockResolvedValue(undefined),
+    setTeam: jest.fn(),
+    balanceTeams: jest.fn().mockResolvedValue([]),
+  },
+}));
+
+jest.mock('../../src/game/contentModeration', () => ({
+  contentModeration: {
+    getReviewQueue: jest.fn().mockResolvedValue({ flagged: [], rejections: [] }),
+    review: jest.fn(),
+    override: jest.fn(),
+  },
+}));
+
+const SESSION_ROW = {
+  id: 'session-1',
+  join_code: 'ABC123',
+  phase: 'WAITING',
+  current_round: 0,
+  host_player_id: 'host-1',
+};
+
+const tokenFor = (playerId: string, joinCode = 'ABC123') =>
+  signPlayerToken({ sessionId: 'session-1', joinCode, playerId, version: 0 });
+
+/** authenticatePlayerToken's version lookup, then authorizeHost's session lookup */
+function mockSignedIn() {
+  (pool.query as jest.Mock)
+    .mockResolvedValueOnce({ rows: [{ token_version: 0 }] })
+    .mockResolvedValueOnce({ rows: [SESSION_ROW] });
+}
+
+describe('Moderation routes', () => {
+  let app: express.Express;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/sessions', moderationRouter);
+    jest.clearAllMocks();
+  });
+
+  it('kicks and bans with the host token', async () => {
+    mockSignedIn();
+
+    const res = await request(app)
+      .post('/api/sessions/abc123/players/player-2/kick')
+      .set('Authorization', `Bearer ${tokenFor('host-1')}`)
+      .send({ ban: true });
+
+    expect(res.status).toBe(200);
+    expect(playerModeration.kick).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'session-1', hostPlayerId: 'host-1' }),
+      'player-2',
+      true
+    );
+  });
+
+  it('takes the target from the url, not the body', async () => {
+    mockSignedIn();
+    (playerModeration.rename as jest.Mock).mockResolvedValueOnce({ id: 'player-2', nickname: 'Robert' });
+
+    const res = await request(app)
+      .patch('/api/sessions/ABC123/players/player-2')
+      .set('Authorization', `Bearer ${tokenFor('host-1')}`)
+      .send({ playerId: 'player-3', nickname: 'Robert' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.player.nickname).toBe('Robert');
+    expect(playerModeration.rename).toHaveBeenCalledWith(expect.anything(), 'player-2', 'Robert');
+  });
+
+  it('transfers host to the player named in the body', async () => {
+    mockSignedIn();
+
+    const res = await request(app)
+      .post('/api/sessions/ABC123/host')
+      .set('Authorization', `Bearer ${tokenFor('host-1')}`)
+      .send({ playerId: 'player-2' });
+
+    expect(res.status).toBe(200);
+    expect(playerModeration.transferHost).toHaveBeenCalledWith(expect.anything(), 'player-2');
+  });
+
+  it('locks and unlocks the session against new players', async () => {
+    mockSignedIn();
+    const locked = await request(app)
+      .post('/api/sessions/ABC123/lock')
+      .set('Authorization', `Bearer ${tokenFor('host-1')}`);
+    mockSignedIn();
+    const unlocked = await request(app)
+      .delete('/api/sessions/ABC123/lock')
+      .set('Authorization', `Bearer ${tokenFor('host-1')}`);
+
+    expect(locked.status).toBe(200);
+    expect(unlocked.status).toBe(200);
+    expect(playerModeration.setJoinLocked).toHaveBeenNthCalledWith(1, expect.anything(), true);
+    expect(playerModeration.setJoinLocked).toHaveBeenNthCalledWith(2, expect.anything(), false);
+  });
+
+  it('moves a player to another team', async () => {
+    mockSignedIn();
+    (playerModeration.setTeam as jest.Mock).mockResolvedValue({ id: 'player-2', team: 'Blue' });
+
+    const res = await request(app)
+      .put('/api/sessions/ABC123/players/player-2/team')
+      .set('Authorization', `Bearer ${tokenFor('host-1')}`)
+      .send({ team: 'Blue' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.player.team).toBe('Blue');
+    expect(playerModeration.setTeam).toHaveBeenCalledWith(expect.anything(), 'player-2', 'Blue');
+  });
+
+  it('answers 409 when teams are changed after the game started', async () => {
+    mockSignedIn();
+    (playerModeration.balanceTeams as jest.Mock).mockRejectedValueOnce(
+      new ModerationError('Teams can only be changed in the lobby', 'TEAMS_LOCKED')
+    );
+
+    const res = await request(app)
+      .post('/api/sessions/ABC123/teams/balance')
+      .set('Authorization', `Bearer ${tokenFor('host-1')}`);
+
+    expect(res.status).toBe(409);
+    expect(res.body.code).toBe('TEAMS_LOCKED');
+  });
+
+  it('validates the mute length', async () => {
+    const res = await request(app)
+      .post('/api/sessions/ABC123/players/player-2/mute')
+      .set('Authorization', `Bearer ${tokenFor('host-1')}`)
+      .send({ minutes: 0 });
+
+    expect(res.status).toBe(400);
+    expect(playerModeration.mute).not.toHaveBeenCalled();
+  });
+
+  it('requires a token', async () => {
+    const res = await request(app).delete('/api/sessions/ABC123/players/player-2/mute');
+
+    expect(res.status).toBe(401);
+    expect(res.body.code).toBe('INVALID_TOKEN');
+  });
+
+  it('rejects a token for another session', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [{ token_version: 0 }] });
+
+    const res = await request(app)
+      .post('/api/sessions/ABC123/players/player-2/kick')
+      .set('Authorization', `Bearer ${tokenFor('host-1', 'XYZ789')}`);
+
+    expect(res.status).toBe(401);
+    expect(playerModeration.kick).not.toHaveBeenCalled();
+  });
+
+  it('only lets the host moderate', async () => {
+    mockSignedIn();
+
+    const res = await request(app)
+      .post('/api/sessions/ABC123/players/player-3/kick')
+      .set('Authorization', `Bearer ${tokenFor('player-2')}`);
+
+    expect(res.status).toBe(403);
+    expect(res.body.code).toBe('NOT_HOST');
+    expect(playerModeration.kick).not.toHaveBeenCalled();
+  });
+
+  it('lists the review queue', async () => {
+    mockSignedIn();
+
+    const res = await request(app)
+      .get('/api/sessions/ABC123/moderation/queue')
+      .set('Authorization', `Bearer ${tokenFor('host-1')}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.queue).toEqual({ flagged: [], rejections: [] });
+    expect(contentModeration.getReviewQueue).toHaveBeenCalledWith('session-1');
+  });
+
+  it('reviews the headline named in the url', async () => {
+    mockSignedIn();
+    (contentModeration.review as jest.Mock).mockResolvedValueOnce({ id: 'headline-1', moderationStatus: 'hidden' });
+
+    const res = await request(app)
+      .post('/api/sessions/ABC123/headlines/headline-1/review')
+      .set('Authorization', `Bearer ${tokenFor('host-1')}`)
+      .send({ decision: 'hide' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.headline.moderationStatus).toBe('hidden');
+    expect(contentModeration.review).toHaveBeenCalledWith(expect.anything(), 'headline-1', 'hide');
+  });
+
+  it('rejects an unknown review decision', async () => {
+    const res = await request(app)
+      .post('/api/sessions/ABC123/headlines/headline-1/review')
+      .set('Authorization', `Bearer ${tokenFor('host-1')}`)
+      .send({ decision: 'delete' });
+
+    expect(res.status).toBe(400);
+    expect(contentModeration.review).not.toHaveBeenCalled();
+  });
+
+  it('overrides the juror on the headline named in the url', async () => {
+    mockSignedIn();
+    (contentModeration.override as jest.Mock).mockResolvedValueOnce({ id: 'headline-1', totalScore: 9 });
+
+    const res = await request(app)
+      .patch('/api/sessions/ABC123/headlines/headline-1')
+      .set('Authorization', `Bearer ${tokenFor('host-1')}`)
+      .send({ plausibilityLevel: 3, primaryPlanet: 'VENUS' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.headline.totalScore).toBe(9);
+    expect(contentModeration.override).toHaveBeenCalledWith(expect.anything(), 'headline-1', {
+      plausibilityLevel: 3,
+      primaryPlanet: 'VENUS',
+    });
+  });
+
+  it('needs something to override', async () => {
+    const res = await request(app)
+      .patch('/api/sessions/ABC123/headlines/headline-1')
+      .set('Authorization', `Bearer ${tokenFor('host-1')}`)
+      .send({ plausibilityLevel: 7 });
+
+    expect(res.status).toBe(400);
+    expect(contentModeration.override).not.toHaveBeenCalled();
+  });
+
+  it('refuses to override a headline that is not scored yet', async () => {
+    mockSignedIn();
+    (contentModeration.override as jest.Mock).mockRejectedValueOnce(
+      new ModerationError('The juror has not scored this headline yet', 'HEADLINE_NOT_SCORED')
+    );
+
+    const res = await request(app)
+      .patch('/api/sessions/ABC123/headlines/headline-1')
+      .set('Authorization', `Bearer ${tokenFor('host-1')}`)
+      .send({ plausibilityLevel: 3 });
+
+    expect(res.status).toBe(409);
+    expect(res.body.code).toBe('HEADLINE_NOT_SCORED');
+  });
+});
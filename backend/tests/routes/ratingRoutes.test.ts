@@ -0,0 +1,78 @@
+/**
+ * Integration tests for the rater routes (blind rating of headlines).
+ */
+
+import express from 'express';
+import request from 'supertest';
+import ratingRouter from '../../src/routes/rating';
+import { getRaterAssignment, saveRating, RatingTaskError } from '../../src/rating/ratingTasks';
+
+jest.mock('../../src/rating/ratingTasks', () => {
+  const actual = jest.requireActual('../../src/rating/ratingTasks');
+  return { ...actual, getRaterAssignment: jest.fn(), saveRating: jest.fn() };
+});
+
+const ITEM_ID = '55555555-5555-4555-8555-555555555555';
+
+describe('Rating routes', () => {
+  let app: express.Express;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/rating', ratingRouter);
+    jest.clearAllMocks();
+  });
+
+  describe('GET /api/rating/:raterCode', () => {
+    it("returns the rater's items", async () => {
+      (getRaterAssignment as jest.Mock).mockResolvedValue({ taskName: 'v3', raterName: 'Lewis', items: [] });
+
+      const response = await request(app).get('/api/rating/abcdefghjk');
+
+      expect(response.status).toBe(200);
+      expect(response.body.raterName).toBe('Lewis');
+      expect(getRaterAssignment).toHaveBeenCalledWith('ABCDEFGHJK');
+    });
+
+    it('returns 404 for a malformed or unknown code', async () => {
+      const malformed = await request(app).get('/api/rating/short');
+      expect(malformed.status).toBe(404);
+      expect(getRaterAssignment).not.toHaveBeenCalled();
+
+      (getRaterAssignment as jest.Mock).mockRejectedValue(new RatingTaskError('Rating link not found', 'RATER_NOT_FOUND'));
+      const unknown = await request(app).get('/api/rating/ABCDEFGHJK');
+      expect(unknown.status).toBe(404);
+      expect(unknown.body.code).toBe('RATER_NOT_FOUND');
+    });
+  });
+
+  describe('PUT /api/rating/:raterCode/items/:itemId', () => {
+    it('saves the level', async () => {
+      (saveRating as jest.Mock).mockResolvedValue({ itemId: ITEM_ID, level: 4, rated: 1 });
+
+      const response = await request(app).put(`/api/rating/ABCDEFGHJK/items/${ITEM_ID}`).send({ level: 4 });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ itemId: ITEM_ID, level: 4, rated: 1 });
+      expect(saveRating).toHaveBeenCalledWith('ABCDEFGHJK', ITEM_ID, 4);
+    });
+
+    it('only takes levels 1 to 5', async () => {
+      for (const level of [0, 6, 2.5, 'high']) {
+        const response = await request(app).put(`/api/rating/ABCDEFGHJK/items/${ITEM_ID}`).send({ level });
+        expect(response.status).toBe(400);
+      }
+      expect(saveRating).not.toHaveBeenCalled();
+    });
+
+    it('returns 404 for an item outside the task', async () => {
+      (saveRating as jest.Mock).mockRejectedValue(new RatingTaskError('Item not in this rating task', 'ITEM_NOT_FOUND'));
+
+      const response = await request(app).put(`/api/rating/ABCDEFGHJK/items/${ITEM_ID}`).send({ level: 2 });
+
+      expect(response.status).toBe(404);
+      expect(response.body.code).toBe('ITEM_NOT_FOUND');
+    });
+  });
+});
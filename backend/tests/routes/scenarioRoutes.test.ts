@@ -0,0 +1,139 @@
+/**
+ * Integration tests for the scenario pack routes.
+ */
+
+import express from 'express';
+import request from 'supertest';
+import scenariosRouter from '../../src/routes/scenarios';
+import pool from '../../src/db/pool';
+
+jest.mock('../../src/db/pool', () => ({
+  __esModule: true,
+  default: {
+    query: jest.fn(),
+  },
+}));
+
+const YAML_PACK = `id: mars-colony
+name: Mars colony
+topic:
+  subject: Mars settlement
+  framing: the first decades of a human colony on Mars
+seedHeadlines:
+  - { date: 2024-11, text: First seed }
+`;
+
+describe('Scenario Routes', () => {
+  let app: express.Express;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/scenarios', scenariosRouter);
+    jest.clearAllMocks();
+  });
+
+  describe('GET /api/scenarios', () => {
+    it('lists built-in packs before uploaded ones', async () => {
+      (pool.query as jest.Mock).mockResolvedValueOnce({
+        rows: [{
+          definition: {
+            id: 'mars-colony',
+            name: 'Mars colony',
+            description: '',
+            topic: { subject: 'Mars settlement', framing: 'a colony on Mars' },
+            seedHeadlines: [{ text: 'First seed', inGameYear: 2024, inGameMonth: 11 }],
+            planetSet: {},
+            startYear: 2040,
+          },
+        }],
+      });
+
+      const response = await request(app).get('/api/scenarios');
+
+      expect(response.status).toBe(200);
+      expect(response.body.scenarios.map((s: { id: string }) => s.id)).toEqual([
+        'ai',
+        'climate',
+        'mars-colony',
+      ]);
+      expect(response.body.scenarios[0]).toMatchObject({ seedCount: 36, planetPack: 'classic', builtIn: true });
+      expect(response.body.scenarios[2]).toMatchObject({ seedCount: 1, startYear: 2040, builtIn: false });
+    });
+  });
+
+  describe('GET /api/scenarios/:id', () => {
+    it('returns a full pack', async () => {
+      const response = await request(app).get('/api/scenarios/climate');
+
+      expect(response.status).toBe(200);
+      expect(response.body.scenario.seedHeadlines.length).toBeGreaterThan(0);
+    });
+
+    it('returns 404 for an unknown pack', async () => {
+      (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+      const response = await request(app).get('/api/scenarios/nope');
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST /api/scenarios', () => {
+    it('stores a yaml pack', async () => {
+      (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [{ id: 'mars-colony' }] });
+
+      const response = await request(app)
+        .post('/api/scenarios')
+        .set('Content-Type', 'application/yaml')
+        .send(YAML_PACK);
+
+      expect(response.status).toBe(201);
+      expect(response.body.scenario).toMatchObject({ id: 'mars-colony', seedCount: 1 });
+
+      const [sql, params] = (pool.query as jest.Mock).mock.calls[0];
+      expect(sql).toContain('INSERT INTO scenario_packs');
+      expect(JSON.parse(params[1]).seedHeadlines).toEqual([
+        { text: 'First seed', inGameYear: 2024, inGameMonth: 11 },
+      ]);
+    });
+
+    it('stores a json pack', async () => {
+      (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [{ id: 'robots' }] });
+
+      const response = await request(app)
+        .post('/api/scenarios')
+        .send({
+          id: 'robots',
+          name: 'Robots',
+          topic: { subject: 'robotics', framing: 'robots in everyday life' },
+          seedHeadlines: [{ date: '2024-01', text: 'Robot vacuums sell out' }],
+        });
+
+      expect(response.status).toBe(201);
+    });
+
+    it('returns 400 with the problems for an invalid pack', async () => {
+      const response = await request(app)
+        .post('/api/scenarios')
+        .send({ id: 'robots', name: 'Robots' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('INVALID_PACK');
+      expect(response.body.details).toEqual(
+        expect.arrayContaining([expect.objectContaining({ path: ['topic'] })])
+      );
+      expect(pool.query).not.toHaveBeenCalled();
+    });
+
+    it('returns 409 when the id is taken', async () => {
+      const response = await request(app)
+        .post('/api/scenarios')
+        .set('Content-Type', 'text/yaml')
+        .send(YAML_PACK.replace('mars-colony', 'climate'));
+
+      expect(response.status).toBe(409);
+      expect(response.body.code).toBe('DUPLICATE_ID');
+    });
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Integration tests for session export and import.
+ */
+
+import express from 'express';
+import request from 'supertest';
+import sessionsRouter from '../../src/routes/sessions';
+import pool from '../../src/db/pool';
+import { ARCHIVE_VERSION } from '../../src/game/sessionArchive';
+
+jest.mock('../../src/db/pool', () => ({
+  __esModule: true,
+  default: {
+    query: jest.fn(),
+    connect: jest.fn(),
+  },
+}));
+
+const SESSION_ROW = {
+  id: 'session-1',
+  join_code: 'ABC123',
+  phase: 'FINISHED',
+  current_round: 4,
+  created_at: new Date('2025-03-01T10:00:00Z'),
+  max_rounds: 4,
+  play_minutes: 8,
+  break_schedule: [3, 5, 3],
+  summary_rounds: [2],
+  start_year: null,
+  total_years: 20,
+  timeline_speed_ratio: 60,
+  in_game_start_at: null,
+  planet_set: null,
+  scenario: null,
+  planet_usage_global: {},
+};
+
+describe('Session archive routes', () => {
+  let app: express.Express;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api', sessionsRouter);
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    delete process.env.ADMIN_TOKEN;
+  });
+
+  describe('GET /api/sessions/:joinCode/export', () => {
+    it('downloads the archive as json', async () => {
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [SESSION_ROW] })
+        .mockResolvedValue({ rows: [] });
+
+      const response = await request(app).get('/api/sessions/abc123/export');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-disposition']).toContain('future-headlines-ABC123.json');
+      expect(response.body).toMatchObject({ format: 'future-headlines-session', version: ARCHIVE_VERSION });
+    });
+
+    it('downloads the headlines as csv', async () => {
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [SESSION_ROW] })
+        .mockResolvedValue({ rows: [] });
+
+      const response = await request(app).get('/api/sessions/ABC123/export?format=csv');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toContain('text/csv');
+      expect(response.text.startsWith('headline_id,round,player')).toBe(true);
+    });
+
+    it('refuses to export a game that is still running', async () => {
+      (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [{ ...SESSION_ROW, phase: 'PLAYING' }] });
+
+      const response = await request(app).get('/api/sessions/ABC123/export');
+
+      expect(response.status).toBe(409);
+      expect(response.body.code).toBe('NOT_FINISHED');
+      expect(pool.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('leaves hidden and flagged headlines out without the admin token', async () => {
+      process.env.ADMIN_TOKEN = 'admin-secret';
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [SESSION_ROW] })
+        .mockResolvedValue({ rows: [] });
+
+      const response = await request(app)
+        .get('/api/sessions/ABC123/export')
+        .set('Authorization', 'Bearer wrong-token');
+
+      expect(response.status).toBe(200);
+      expect((pool.query as jest.Mock).mock.calls[2][1]).toEqual(['session-1', false]);
+    });
+
+    it('exports running games with every headline for admins', async () => {
+      process.env.ADMIN_TOKEN = 'admin-secret';
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ ...SESSION_ROW, phase: 'PLAYING' }] })
+        .mockResolvedValue({ rows: [] });
+
+      const response = await request(app)
+        .get('/api/sessions/ABC123/export')
+        .set('Authorization', 'Bearer admin-secret');
+
+      expect(response.status).toBe(200);
+      expect(response.body.session.phase).toBe('PLAYING');
+      expect((pool.query as jest.Mock).mock.calls[2][1]).toEqual(['session-1', true]);
+    });
+
+    it('returns 404 for an unknown session', async () => {
+      (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+      const response = await request(app).get('/api/sessions/ABC123/export');
+
+      expect(response.status).toBe(404);
+    });
+
+    it('rejects unknown formats', async () => {
+      const response = await request(app).get('/api/sessions/ABC123/export?format=xml');
+
+      expect(response.status).toBe(400);
+      expect(pool.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/sessions/import', () => {
+    it('returns 400 with a code for something that is not an archive', async () => {
+      const response = await request(app).post('/api/sessions/import').send({ hello: 'world' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('INVALID_FORMAT');
+      expect(pool.connect).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Integration tests for joining a session, before and after it has started
+ * (late joins, catch-up scores, the host's join lock and team assignment).
+ */
+
+import express from 'express';
+import request from 'supertest';
+import sessionsRouter from '../../src/routes/sessions';
+import pool from '../../src/db/pool';
+import { DEFAULT_PLANETS, getPlanetIds } from '../../src/game/planets';
+
+jest.mock('../../src/db/pool', () => ({
+  __esModule: true,
+  default: {
+    query: jest.fn(),
+    connect: jest.fn(),
+  },
+}));
+
+const SESSION_ROW = {
+  id: 'session-1',
+  join_code: 'ABC123',
+  status: 'WAITING',
+  current_round: 0,
+  planet_set: null,
+  late_join_allowed: false,
+  late_join_catch_up: 'none',
+  join_locked: false,
+  teams: null,
+};
+
+const PLAYER_ROW = { id: 'player-3', nickname: 'Cleo', is_host: false, joined_at: new Date() };
+
+/** a client that answers each query by matching its sql */
+function mockClient(
+  session: Record<string, unknown>,
+  scores: number[] = [],
+  teams: (string | null)[] = scores.map(() => null)
+) {
+  const client = {
+    query: jest.fn(async (sql: string) => {
+      if (sql.includes('FROM game_sessions')) return { rows: [session] };
+      if (sql.includes('SELECT 1 FROM session_players')) return { rows: [] };
+      if (sql.includes('SELECT total_score')) {
+        return { rows: scores.map((total_score, i) => ({ total_score, team: teams[i] })) };
+      }
+      if (sql.includes('INSERT INTO session_players')) return { rows: [PLAYER_ROW] };
+      if (sql.includes('recovery_code_hash')) return { rows: [{ token_version: 1 }] };
+      return { rows: [] };
+    }),
+    release: jest.fn(),
+  };
+  (pool.connect as jest.Mock).mockResolvedValue(client);
+  return client;
+}
+
+function insertParams(client: ReturnType<typeof mockClient>): unknown[] {
+  const call = client.query.mock.calls.find(([sql]) => String(sql).includes('INSERT INTO session_players'));
+  return (call as unknown as [string, unknown[]])[1];
+}
+
+describe('POST /api/sessions/:joinCode/join', () => {
+  let app: express.Express;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api', sessionsRouter);
+    jest.clearAllMocks();
+  });
+
+  it('joins a waiting session without ordinals or a catch-up score', async () => {
+    const client = mockClient(SESSION_ROW);
+
+    const res = await request(app).post('/api/sessions/ABC123/join').send({ nickname: 'Cleo' });
+
+    expect(res.status).toBe(201);
+    expect(res.body.player.joinedRound).toBeUndefined();
+    expect(insertParams(client)).toEqual(['session-1', 'Cleo', 0, null, '{}', null]);
+  });
+
+  it('refuses a started session that does not allow late joins', async () => {
+    const client = mockClient({ ...SESSION_ROW, status: 'PLAYING', current_round: 2 });
+
+    const res = await request(app).post('/api/sessions/ABC123/join').send({ nickname: 'Cleo' });
+
+    expect(res.status).toBe(400);
+    expect(res.body.code).toBe('ALREADY_STARTED');
+    expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+  });
+
+  it('lets a late joiner in with ordinals and the average score', async () => {
+    const client = mockClient(
+      { ...SESSION_ROW, status: 'PLAYING', current_round: 2, late_join_allowed: true, late_join_catch_up: 'average' },
+      [10, 21]
+    );
+
+    const res = await request(app).post('/api/sessions/ABC123/join').send({ nickname: 'Cleo' });
+
+    expect(res.status).toBe(201);
+    expect(res.body.player).toMatchObject({ joinedRound: 2, catchUpScore: 15 });
+    const [, , score, joinedRound, ordinals] = insertParams(client);
+    expect(score).toBe(15);
+    expect(joinedRound).toBe(2);
+    expect(Object.keys(JSON.parse(ordinals as string).ordinals).sort()).toEqual(getPlanetIds(DEFAULT_PLANETS).sort());
+  });
+
+  it('puts a new player on the smallest team', async () => {
+    const client = mockClient({ ...SESSION_ROW, teams: ['Red', 'Blue', 'Green'] }, [0, 0, 0], ['Red', 'Green', 'Red']);
+
+    const res = await request(app).post('/api/sessions/ABC123/join').send({ nickname: 'Cleo' });
+
+    expect(res.status).toBe(201);
+    const params = insertParams(client);
+    expect(params[2]).toBe(0);
+    expect(params[5]).toBe('Blue');
+  });
+
+  it('refuses everyone with 403 once the host locks the session', async () => {
+    mockClient({ ...SESSION_ROW, join_locked: true });
+
+    const res = await request(app).post('/api/sessions/ABC123/join').send({ nickname: 'Cleo' });
+
+    expect(res.status).toBe(403);
+    expect(res.body.code).toBe('JOIN_LOCKED');
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Integration tests for rejoining a session with a recovery code (and the
+ * host's kick/ban on it).
+ */
+
+import express from 'express';
+import request from 'supertest';
+import sessionsRouter from '../../src/routes/sessions';
+import pool from '../../src/db/pool';
+import { hashRecoveryCode, verifyPlayerToken } from '../../src/auth/sessionTokens';
+
+jest.mock('../../src/db/pool', () => ({
+  __esModule: true,
+  default: {
+    query: jest.fn(),
+    connect: jest.fn(),
+  },
+}));
+
+const PLAYER_ROW = {
+  id: 'player-2',
+  session_id: 'session-1',
+  nickname: 'Bob',
+  is_host: false,
+  token_version: 1,
+  recovery_code_hash: hashRecoveryCode('ABCD-EFGH'),
+};
+
+describe('POST /api/sessions/:joinCode/rejoin', () => {
+  let app: express.Express;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api', sessionsRouter);
+    jest.clearAllMocks();
+  });
+
+  it('returns a fresh token for the right recovery code', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [PLAYER_ROW] });
+
+    const res = await request(app)
+      .post('/api/sessions/abc123/rejoin')
+      .send({ nickname: 'bob', recoveryCode: 'abcd-efgh' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.player).toEqual({ id: 'player-2', nickname: 'Bob', isHost: false });
+    expect(verifyPlayerToken(res.body.token)).toMatchObject({
+      sessionId: 'session-1',
+      joinCode: 'ABC123',
+      playerId: 'player-2',
+      version: 1,
+    });
+  });
+
+  it('refuses a wrong recovery code', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [PLAYER_ROW] });
+
+    const res = await request(app)
+      .post('/api/sessions/ABC123/rejoin')
+      .send({ nickname: 'Bob', recoveryCode: 'WXYZ-2345' });
+
+    expect(res.status).toBe(401);
+    expect(res.body.code).toBe('INVALID_RECOVERY_CODE');
+    expect(res.body.token).toBeUndefined();
+  });
+
+  it('puts a kicked player back in the session', async () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ ...PLAYER_ROW, removed_at: new Date(), banned: false }] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    const res = await request(app)
+      .post('/api/sessions/ABC123/rejoin')
+      .send({ nickname: 'Bob', recoveryCode: 'ABCD-EFGH' });
+
+    expect(res.status).toBe(200);
+    const [sql, params] = (pool.query as jest.Mock).mock.calls[1];
+    expect(sql).toContain('removed_at = NULL');
+    expect(params).toEqual(['player-2']);
+  });
+
+  it('keeps a banned player out', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({
+      rows: [{ ...PLAYER_ROW, removed_at: new Date(), banned: true }],
+    });
+
+    const res = await request(app)
+      .post('/api/sessions/ABC123/rejoin')
+      .send({ nickname: 'Bob', recoveryCode: 'ABCD-EFGH' });
+
+    expect(res.status).toBe(403);
+    expect(res.body.code).toBe('BANNED');
+    expect(res.body.token).toBeUndefined();
+  });
+
+  it('tells apart players whose nicknames differ only in case by their recovery code', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({
+      rows: [
+        { ...PLAYER_ROW, id: 'player-3', nickname: 'bob', recovery_code_hash: hashRecoveryCode('WXYZ-2345') },
+        PLAYER_ROW,
+      ],
+    });
+
+    const res = await request(app)
+      .post('/api/sessions/ABC123/rejoin')
+      .send({ nickname: 'bob', recoveryCode: 'ABCD-EFGH' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.player).toEqual({ id: 'player-2', nickname: 'Bob', isHost: false });
+  });
+
+  it('refuses a join with a nickname that differs from a player\'s only in case', async () => {
+    const client = {
+      query: jest.fn(async (sql: string) => {
+        if (sql.includes('FROM game_sessions')) {
+          return { rows: [{ id: 'session-1', join_code: 'ABC123', status: 'WAITING' }] };
+        }
+        if (sql.includes('SELECT 1 FROM session_players')) return { rows: [{ '?column?': 1 }] };
+        return { rows: [] };
+      }),
+      release: jest.fn(),
+    };
+    (pool.connect as jest.Mock).mockResolvedValue(client);
+
+    const res = await request(app).post('/api/sessions/ABC123/join').send({ nickname: 'bob' });
+
+    expect(res.status).toBe(409);
+    const call = client.query.mock.calls.find(([text]) => text.includes('SELECT 1 FROM session_players'));
+    const [sql, params] = call as unknown as [string, unknown[]];
+    expect(sql).toContain('LOWER(nickname) = LOWER($2)');
+    expect(params).toEqual(['session-1', 'bob']);
+  });
+
+  it('no longer accepts a nickname on its own', async () => {
+    const res = await request(app).post('/api/sessions/ABC123/rejoin').send({ nickname: 'Bob' });
+
+    expect(res.status).toBe(400);
+    expect(pool.query).not.toHaveBeenCalled();
+  });
+});
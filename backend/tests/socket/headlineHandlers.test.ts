@@ -4,8 +4,9 @@
 
 import { Server, Socket } from 'socket.io';
 import pool from '../../src/db/pool';
-import { setupLobbyHandlers, clearSessionRateLimits } from '../../src/socket/lobbyHandlers';
-import { SEED_HEADLINES } from '../../src/game/seedHeadlines';
+import { setupLobbyHandlers } from '../../src/socket/lobbyHandlers';
+import { headlineEvaluationQueue } from '../../src/game/headlineEvaluationQueue';
+import { DICE_ALGORITHM } from '../../src/game/diceRoll';
 
 // Mock dependencies
 jest.mock('../../src/db/pool', () => ({
@@ -17,11 +18,18 @@ jest.mock('../../src/db/pool', () => ({
 }));
 
 jest.mock('../../src/game/gameLoop', () => ({
+  GameControlError: class GameControlError extends Error {},
   gameLoopManager: {
     handleHostStartGame: jest.fn(),
   },
 }));
 
+jest.mock('../../src/game/headlineEvaluationQueue', () => ({
+  headlineEvaluationQueue: {
+    submit: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
 jest.mock('../../src/game/headlineTransformationService', () => ({
   transformHeadline: jest.fn().mockResolvedValue({
     plausibility: { band: 3, label: 'plausible', rationale: 'Test' },
@@ -48,20 +56,13 @@ jest.mock('../../src/game/headlineTransformationService', () => ({
     selectedBand: 3,
     selectedHeadline: 'Plausible headline',
     model: 'gpt-5.2',
+    promptVersion: 'juror.v1',
     usage: { inputTokens: 100, outputTokens: 200 },
     llmRequest: { storyDirection: 'Test', headlinesList: [], planetList: [], instructions: 'Test' },
     llmResponse: '{"test": "response"}',
   }),
 }));
 
-jest.mock('../../src/game/planets', () => ({
-  getDefaultPlanets: jest.fn().mockReturnValue([
-    { id: 'MARS', description: 'Technology' },
-    { id: 'VENUS', description: 'Society' },
-    { id: 'EARTH', description: 'Environment' },
-  ]),
-}));
-
 jest.mock('../../src/game/scoringService', () => ({
   applyHeadlineEvaluation: jest.fn().mockResolvedValue({
     breakdown: {
@@ -91,6 +92,7 @@ describe('Headline Handlers', () => {
   let mockSocket: Partial<Socket>;
   let submitHandler: any;
   let getFeedHandler: any;
+  let voteHandler: any;
 
   const createMockSessionData = (overrides: Record<string, any> = {}) => {
     const now = new Date();
@@ -119,7 +121,6 @@ describe('Headline Handlers', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
-    clearSessionRateLimits('session-123');
 
     // Create mock Socket.IO instances
     const handlers: Record<string, any> = {};
@@ -156,6 +157,7 @@ describe('Headline Handlers', () => {
     const socketOnCalls = (mockSocket.on as jest.Mock).mock.calls;
     submitHandler = socketOnCalls.find(([event]) => event === 'headline:submit')?.[1];
     getFeedHandler = socketOnCalls.find(([event]) => event === 'headline:get_feed')?.[1];
+    voteHandler = socketOnCalls.find(([event]) => event === 'headline:vote')?.[1];
   });
 
   describe('headline:submit', () => {
@@ -168,12 +170,13 @@ describe('Headline Handlers', () => {
 
       (pool.query as jest.Mock)
         .mockResolvedValueOnce({ rows: [mockSession] }) // getSessionState
-        .mockResolvedValueOnce({ rows: [] }) // fetch existing headlines for LLM context
-        .mockResolvedValueOnce({ rows: [insertedRow] }); // INSERT headline
+        .mockResolvedValueOnce({ rows: [{ last_headline_at: new Date() }] }) // claim cooldown
+        .mockResolvedValueOnce({ rows: [insertedRow] }); // INSERT pending headline
 
       const callback = jest.fn();
       await submitHandler({ joinCode: 'ABC123', headline: 'Breaking: AI achieves consciousness!' }, callback);
 
+      // answered before the juror runs: the story direction stands in for the headline
       expect(callback).toHaveBeenCalledWith({
         success: true,
         headline: expect.objectContaining({
@@ -182,9 +185,10 @@ describe('Headline Handlers', () => {
           playerNickname: 'Alice',
           roundNo: 2,
           storyDirection: 'Breaking: AI achieves consciousness!',
-          text: 'Plausible headline', // From the mocked transformHeadline
-          diceRoll: 50,
-          selectedBand: 3,
+          text: 'Breaking: AI achieves consciousness!',
+          diceRoll: null,
+          selectedBand: null,
+          llmStatus: 'pending',
         }),
         cooldownMs: 90000,
       });
@@ -192,12 +196,63 @@ describe('Headline Handlers', () => {
       // Verify broadcast was called
       expect(mockIO.to).toHaveBeenCalledWith('session:ABC123');
 
-      // the juror context fetch is windowed to the most recent N headlines (= seed count)
-      const fetchCall = (pool.query as jest.Mock).mock.calls.find(
-        (c) => typeof c[0] === 'string' && c[0].includes('ORDER BY created_at DESC')
+      // the cooldown is claimed in the database, so it holds across instances
+      const claimCall = (pool.query as jest.Mock).mock.calls[1];
+      expect(claimCall[0]).toContain('SET last_headline_at = NOW()');
+      expect(claimCall[1]).toEqual(['player-1', 'session-123', 90]);
+
+      const insertCall = (pool.query as jest.Mock).mock.calls[2];
+      expect(insertCall[0]).toContain("'pending'");
+      // the submission takes the session's next dice sequence number
+      expect(insertCall[0]).toContain('SET dice_rolls = dice_rolls + 1');
+
+      // evaluation is handed to the per-session queue
+      expect(headlineEvaluationQueue.submit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: 'headline-1',
+          sessionId: 'session-123',
+          joinCode: 'ABC123',
+          playerNickname: 'Alice',
+          storyDirection: 'Breaking: AI achieves consciousness!',
+          llmAttempts: 0,
+          createdAt: insertedRow.created_at,
+        })
+      );
+
+      const { transformHeadline } = jest.requireMock('../../src/game/headlineTransformationService');
+      expect(transformHeadline).not.toHaveBeenCalled();
+    });
+
+    it("should hand the session's planet set to the juror queue", async () => {
+      const mockSession = createMockSessionData({
+        planet_set: {
+          pack: 'custom',
+          planets: [
+            { id: 'ENERGY', description: 'Power and grids', tags: ['Grids'], color: 'yellow' },
+            { id: 'OCEANS', description: 'Seas and coasts', tags: [], color: 'blue' },
+            { id: 'LAND', description: 'Forests and soil', tags: [], color: 'green' },
+          ],
+        },
+      });
+
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [mockSession] }) // getSessionState
+        .mockResolvedValueOnce({ rows: [{ last_headline_at: new Date() }] }) // claim cooldown
+        .mockResolvedValueOnce({ rows: [{ id: 'headline-1', created_at: new Date() }] }); // INSERT pending headline
+
+      const callback = jest.fn();
+      await submitHandler({ joinCode: 'ABC123', headline: 'Grid runs itself' }, callback);
+
+      // the juror only needs ids and descriptions
+      expect(headlineEvaluationQueue.submit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          planetList: [
+            { id: 'ENERGY', description: 'Power and grids' },
+            { id: 'OCEANS', description: 'Seas and coasts' },
+            { id: 'LAND', description: 'Forests and soil' },
+          ],
+        })
       );
-      expect(fetchCall).toBeDefined();
-      expect(fetchCall![1][1]).toBe(SEED_HEADLINES.length);
     });
 
     it('should reject when headline is empty', async () => {
@@ -259,6 +314,121 @@ describe('Headline Handlers', () => {
       });
     });
 
+    it('should reject while the host has the game paused', async () => {
+      const pausedSession = createMockSessionData({ paused_at: new Date() });
+      (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [pausedSession] });
+
+      const callback = jest.fn();
+      await submitHandler({ joinCode: 'ABC123', headline: 'Test headline' }, callback);
+
+      expect(callback).toHaveBeenCalledWith({
+        success: false,
+        error: 'The game is paused',
+      });
+    });
+
+    it('should reject while the host has muted the player', async () => {
+      const now = new Date();
+      const mutedUntil = new Date(now.getTime() + 5 * 60 * 1000).toISOString();
+      const mutedSession = createMockSessionData({
+        server_now: now,
+        players: [
+          { id: 'player-1', nickname: 'Alice', isHost: true, joinedAt: now.toISOString(), mutedUntil, totalScore: 0, planetUsageState: null },
+        ],
+      });
+      (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [mutedSession] });
+
+      const callback = jest.fn();
+      await submitHandler({ joinCode: 'ABC123', headline: 'Test headline' }, callback);
+
+      expect(callback).toHaveBeenCalledWith({
+        success: false,
+        error: 'The host has muted you for now',
+        mutedUntil,
+      });
+      // the cooldown is not spent
+      expect(pool.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject a target band outside risk mode', async () => {
+      (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [createMockSessionData()] });
+
+      const callback = jest.fn();
+      await submitHandler({ joinCode: 'ABC123', headline: 'Test headline', targetBand: 5 }, callback);
+
+      expect(callback).toHaveBeenCalledWith({
+        success: false,
+        error: 'This game is not in risk mode',
+      });
+      expect(pool.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should store the target band of a risk-mode bet', async () => {
+      const riskSession = createMockSessionData({
+        dice_settings: { preset: 'chaos', tuned: false, weights: [5, 15, 30, 25, 25], riskMode: true },
+      });
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [riskSession] }) // getSessionState
+        .mockResolvedValueOnce({ rows: [{ last_headline_at: new Date() }] }) // claim cooldown
+        .mockResolvedValueOnce({ rows: [{ id: 'headline-1', created_at: new Date() }] }); // INSERT pending headline
+
+      const callback = jest.fn();
+      await submitHandler({ joinCode: 'ABC123', headline: 'Moon declares independence', targetBand: 5 }, callback);
+
+      expect(callback).toHaveBeenCalledWith(
+        expect.objectContaining({ success: true, headline: expect.objectContaining({ targetBand: 5 }) })
+      );
+      const insertCall = (pool.query as jest.Mock).mock.calls[2];
+      expect(insertCall[0]).toContain('dice_target_band');
+      expect(insertCall[1][9]).toBe(5);
+      expect(headlineEvaluationQueue.submit).toHaveBeenCalledWith(expect.objectContaining({ targetBand: 5 }));
+    });
+
+    it('should refuse a story direction that fails moderation, without spending the cooldown', async () => {
+      mockSocket.data = { playerId: 'player-2', joinCode: 'ABC123' };
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [createMockSessionData({ moderation_strictness: 'strict' })] })
+        .mockResolvedValueOnce({ rows: [{ id: 'rejection-1', created_at: new Date() }] }); // rejection
+
+      const callback = jest.fn();
+      await submitHandler({ joinCode: 'ABC123', headline: 'AI writes shit poetry' }, callback);
+
+      expect(callback).toHaveBeenCalledWith({
+        success: false,
+        error: 'Your story direction was not accepted: it contains profanity',
+        moderation: { status: 'rejected', reason: 'contains profanity' },
+      });
+      const sqls = (pool.query as jest.Mock).mock.calls.map(([sql]) => sql as string);
+      expect(sqls[1]).toContain('INSERT INTO headline_rejections');
+      expect(sqls.some((sql) => sql.includes('last_headline_at'))).toBe(false);
+      expect(headlineEvaluationQueue.submit).not.toHaveBeenCalled();
+    });
+
+    it('should show a flagged story direction only to its author and the host', async () => {
+      mockSocket.data = { playerId: 'player-2', joinCode: 'ABC123' };
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [createMockSessionData()] })
+        .mockResolvedValueOnce({ rows: [{ last_headline_at: new Date() }] }) // claim cooldown
+        .mockResolvedValueOnce({ rows: [{ id: 'headline-1', created_at: new Date() }] }) // INSERT
+        .mockResolvedValueOnce({ rows: [{ host_player_id: 'player-1' }] }); // host lookup
+
+      const callback = jest.fn();
+      await submitHandler({ joinCode: 'ABC123', headline: 'AI writes shit poetry' }, callback);
+
+      expect(callback).toHaveBeenCalledWith(expect.objectContaining({
+        success: true,
+        headline: expect.objectContaining({ moderationStatus: 'flagged' }),
+        moderation: { status: 'flagged', reason: 'contains profanity' },
+      }));
+      const insertCall = (pool.query as jest.Mock).mock.calls[2];
+      expect(insertCall[1].slice(-4)).toEqual(['flagged', 'contains profanity', DICE_ALGORITHM, null]);
+      expect(mockIO.to).toHaveBeenCalledWith(['player:player-2', 'player:player-1']);
+      expect(mockIO.to).not.toHaveBeenCalledWith('session:ABC123');
+      expect(headlineEvaluationQueue.submit).toHaveBeenCalledWith(
+        expect.objectContaining({ moderationStatus: 'flagged', moderationStrictness: 'standard' })
+      );
+    });
+
     it('should reject when player is not in session', async () => {
       mockSocket.data = { playerId: 'unknown-player', joinCode: 'ABC123' };
       const mockSession = createMockSessionData();
@@ -296,8 +466,8 @@ describe('Headline Handlers', () => {
 
       (pool.query as jest.Mock)
         .mockResolvedValueOnce({ rows: [mockSession] }) // getSessionState
-        .mockResolvedValueOnce({ rows: [] }) // fetch existing headlines
-        .mockResolvedValueOnce({ rows: [insertedRow] }); // INSERT headline
+        .mockResolvedValueOnce({ rows: [{ last_headline_at: new Date() }] }) // claim cooldown
+        .mockResolvedValueOnce({ rows: [insertedRow] }); // INSERT pending headline
 
       const callback = jest.fn();
       await submitHandler({ joinCode: 'ABC123', headline: 'Test headline' }, callback);
@@ -306,13 +476,13 @@ describe('Headline Handlers', () => {
         (call) => call[0].includes('INSERT INTO game_session_headlines')
       );
       expect(insertCall).toBeDefined();
-      // $25 is in_game_submitted_at — should be a non-null string (sessionState.inGameNow)
+      // $6 is in_game_submitted_at — should be a non-null string (sessionState.inGameNow)
       const params = insertCall[1];
-      expect(params[24]).not.toBeNull();
-      expect(typeof params[24]).toBe('string');
+      expect(params[5]).not.toBeNull();
+      expect(typeof params[5]).toBe('string');
     });
 
-    it('headline:new broadcast includes inGameSubmittedAt', async () => {
+    it('headline:pending broadcast includes inGameSubmittedAt', async () => {
       const mockSession = createMockSessionData();
       const inGameTime = new Date();
       const insertedRow = {
@@ -326,14 +496,14 @@ describe('Headline Handlers', () => {
 
       (pool.query as jest.Mock)
         .mockResolvedValueOnce({ rows: [mockSession] }) // getSessionState
-        .mockResolvedValueOnce({ rows: [] }) // fetch existing headlines
-        .mockResolvedValueOnce({ rows: [insertedRow] }); // INSERT headline
+        .mockResolvedValueOnce({ rows: [{ last_headline_at: new Date() }] }) // claim cooldown
+        .mockResolvedValueOnce({ rows: [insertedRow] }); // INSERT pending headline
 
       const callback = jest.fn();
       await submitHandler({ joinCode: 'ABC123', headline: 'Test headline' }, callback);
 
       expect(mockToEmit).toHaveBeenCalledWith(
-        'headline:new',
+        'headline:pending',
         expect.objectContaining({
           inGameSubmittedAt: inGameTime.toISOString(),
         })
@@ -353,21 +523,21 @@ describe('Headline Handlers', () => {
 
       (pool.query as jest.Mock)
         .mockResolvedValueOnce({ rows: [mockSession] }) // getSessionState
-        .mockResolvedValueOnce({ rows: [] }) // fetch existing headlines
-        .mockResolvedValueOnce({ rows: [insertedRow] }); // INSERT headline
+        .mockResolvedValueOnce({ rows: [{ last_headline_at: new Date() }] }) // claim cooldown
+        .mockResolvedValueOnce({ rows: [insertedRow] }); // INSERT pending headline
 
       const callback = jest.fn();
       await submitHandler({ joinCode: 'ABC123', headline: 'Test headline' }, callback);
 
       expect(mockToEmit).toHaveBeenCalledWith(
-        'headline:new',
+        'headline:pending',
         expect.objectContaining({
           inGameSubmittedAt: null,
         })
       );
     });
 
-    it('should enforce rate limiting - reject second submission within 60 seconds', async () => {
+    it('should enforce rate limiting - reject second submission within the cooldown', async () => {
       const mockSession = createMockSessionData();
       const insertedRow = {
         id: 'headline-1',
@@ -377,8 +547,8 @@ describe('Headline Handlers', () => {
       // First submission succeeds
       (pool.query as jest.Mock)
         .mockResolvedValueOnce({ rows: [mockSession] }) // getSessionState
-        .mockResolvedValueOnce({ rows: [] }) // fetch existing headlines
-        .mockResolvedValueOnce({ rows: [insertedRow] }); // INSERT headline
+        .mockResolvedValueOnce({ rows: [{ last_headline_at: new Date() }] }) // claim cooldown
+        .mockResolvedValueOnce({ rows: [insertedRow] }); // INSERT pending headline
 
       const callback1 = jest.fn();
       await submitHandler({ joinCode: 'ABC123', headline: 'First headline' }, callback1);
@@ -387,7 +557,10 @@ describe('Headline Handlers', () => {
       // Reset mocks for second call
       (pool.query as jest.Mock).mockClear();
       const mockSession2 = createMockSessionData();
-      (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [mockSession2] });
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [mockSession2] }) // getSessionState
+        .mockResolvedValueOnce({ rows: [] }) // cooldown still running
+        .mockResolvedValueOnce({ rows: [{ remaining_ms: 85_000 }] }); // remaining cooldown
 
       // Second submission should be rate limited
       const callback2 = jest.fn();
@@ -396,7 +569,7 @@ describe('Headline Handlers', () => {
       expect(callback2).toHaveBeenCalledWith({
         success: false,
         error: expect.stringContaining('wait'),
-        cooldownMs: expect.any(Number),
+        cooldownMs: 85000,
       });
 
       // Verify DB was NOT called for insert on second attempt
@@ -483,6 +656,30 @@ describe('Headline Handlers', () => {
       });
     });
 
+    it('should show other players only approved headlines and their own', async () => {
+      mockSocket.data = { playerId: 'player-2', joinCode: 'ABC123' };
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [createMockSessionData()] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await getFeedHandler({ joinCode: 'ABC123' }, jest.fn());
+
+      const [sql, params] = (pool.query as jest.Mock).mock.calls[1];
+      expect(sql).toContain("h.moderation_status = 'approved' OR h.player_id = $2");
+      expect(sql).toContain('mv.voter_id = $2');
+      expect(params).toEqual(['session-123', 'player-2']);
+    });
+
+    it('should show the host every headline', async () => {
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [createMockSessionData()] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await getFeedHandler({ joinCode: 'ABC123' }, jest.fn());
+
+      expect((pool.query as jest.Mock).mock.calls[1][0]).not.toContain('moderation_status =');
+    });
+
     it('should return error when session not found', async () => {
       (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
 
@@ -521,5 +718,40 @@ describe('Headline Handlers', () => {
       });
     });
   });
-});
 
+  describe('headline:vote', () => {
+    it('should reject a vote before joining', async () => {
+      mockSocket.data = {};
+
+      const callback = jest.fn();
+      await voteHandler({ joinCode: 'ABC123', headlineId: 'headline-1', vote: 'up' }, callback);
+
+      expect(callback).toHaveBeenCalledWith({
+        success: false,
+        error: 'Not authenticated - please join a lobby first',
+      });
+      expect(pool.query).not.toHaveBeenCalled();
+    });
+
+    it('should validate the vote', async () => {
+      const callback = jest.fn();
+      await voteHandler({ joinCode: 'ABC123', headlineId: 'headline-1', vote: 'down' }, callback);
+
+      expect(callback).toHaveBeenCalledWith(expect.objectContaining({ success: false }));
+      expect(pool.query).not.toHaveBeenCalled();
+    });
+
+    it('should only take votes during a break', async () => {
+      (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [createMockSessionData()] });
+
+      const callback = jest.fn();
+      await voteHandler({ joinCode: 'ABC123', headlineId: 'headline-1', vote: 'star' }, callback);
+
+      expect(callback).toHaveBeenCalledWith({
+        success: false,
+        error: 'Votes can only be cast during a break',
+        code: 'NOT_BREAK',
+      });
+    });
+  });
+});
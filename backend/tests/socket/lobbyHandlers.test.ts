@@ -17,11 +17,23 @@ jest.mock('../../src/db/pool', () => ({
   },
 }));
 
-jest.mock('../../src/game/gameLoop', () => ({
-  gameLoopManager: {
-    handleHostStartGame: jest.fn(),
-  },
-}));
+jest.mock('../../src/game/gameLoop', () => {
+  class GameControlError extends Error {
+    constructor(message: string, public code: string) {
+      super(message);
+    }
+  }
+  return {
+    GameControlError,
+    gameLoopManager: {
+      handleHostStartGame: jest.fn(),
+      pauseGame: jest.fn(),
+      resumeGame: jest.fn(),
+      extendPhase: jest.fn(),
+      skipPhase: jest.fn(),
+    },
+  };
+});
 
 // Default mock for score breakdowns query (empty results)
 const mockBreakdownRows = (playerIds: string[]) =>
@@ -456,5 +468,498 @@ describe('Lobby Handlers - getSessionState', () => {
       });
     });
   });
-});
 
+  describe('host game controls', () => {
+    const getHandler = (event: string) =>
+      (mockSocket.on as jest.Mock).mock.calls.find(([e]) => e === event)?.[1];
+
+    const playingSession = {
+      id: 'session-123',
+      join_code: 'ABC123',
+      status: 'PLAYING',
+      host_player_id: 'player-1',
+      phase: 'PLAYING',
+      current_round: 1,
+      play_minutes: 8,
+      break_minutes: 3,
+      max_rounds: 4,
+      phase_started_at: new Date(),
+      phase_ends_at: new Date(Date.now() + 8 * 60 * 1000),
+      paused_at: null,
+      in_game_start_at: new Date(),
+      timeline_speed_ratio: 60.0,
+      server_now: new Date(),
+      players: [
+        { id: 'player-1', nickname: 'Alice', isHost: true, joinedAt: new Date().toISOString(), totalScore: 0, planetUsageState: null },
+        { id: 'player-2', nickname: 'Bob', isHost: false, joinedAt: new Date().toISOString(), totalScore: 0, planetUsageState: null },
+      ],
+    };
+
+    const mockSessionLookup = () => {
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [playingSession] })
+        .mockResolvedValueOnce({ rows: mockBreakdownRows(['player-1', 'player-2']) });
+    };
+
+    beforeEach(() => {
+      mockSocket.data = { playerId: 'player-1' };
+    });
+
+    it('registers all four control events', () => {
+      expect(getHandler('game:pause')).toBeDefined();
+      expect(getHandler('game:resume')).toBeDefined();
+      expect(getHandler('game:extend_phase')).toBeDefined();
+      expect(getHandler('game:skip_phase')).toBeDefined();
+    });
+
+    it('pauses the loop when the host asks', async () => {
+      mockSessionLookup();
+      const callback = jest.fn();
+      await getHandler('game:pause')({ joinCode: 'ABC123' }, callback);
+
+      expect(gameLoopManager.pauseGame).toHaveBeenCalledWith('session-123', 'ABC123', 'player-1');
+      expect(callback).toHaveBeenCalledWith({ success: true });
+    });
+
+    it('rejects controls from non-host players', async () => {
+      mockSocket.data = { playerId: 'player-2' };
+      mockSessionLookup();
+      const callback = jest.fn();
+      await getHandler('game:skip_phase')({ joinCode: 'ABC123' }, callback);
+
+      expect(callback).toHaveBeenCalledWith({
+        success: false,
+        error: 'Only the host can control the game',
+      });
+      expect(gameLoopManager.skipPhase).not.toHaveBeenCalled();
+    });
+
+    it('converts extension minutes to milliseconds', async () => {
+      mockSessionLookup();
+      const callback = jest.fn();
+      await getHandler('game:extend_phase')({ joinCode: 'ABC123', minutes: 2 }, callback);
+
+      expect(gameLoopManager.extendPhase).toHaveBeenCalledWith('session-123', 'ABC123', 120_000, 'player-1');
+      expect(callback).toHaveBeenCalledWith({ success: true });
+    });
+
+    it('rejects a non-positive extension before touching the loop', async () => {
+      const callback = jest.fn();
+      await getHandler('game:extend_phase')({ joinCode: 'ABC123', minutes: 0 }, callback);
+
+      expect(callback).toHaveBeenCalledWith({
+        success: false,
+        error: expect.stringContaining('positive'),
+      });
+      expect(gameLoopManager.extendPhase).not.toHaveBeenCalled();
+    });
+
+    it('surfaces loop state errors to the host', async () => {
+      const { GameControlError } = jest.requireMock('../../src/game/gameLoop');
+      (gameLoopManager.resumeGame as jest.Mock).mockRejectedValueOnce(
+        new GameControlError('Game is not paused', 'NOT_PAUSED')
+      );
+      mockSessionLookup();
+      const callback = jest.fn();
+      await getHandler('game:resume')({ joinCode: 'ABC123' }, callback);
+
+      expect(callback).toHaveBeenCalledWith({
+        success: false,
+        error: 'Game is not paused',
+      });
+    });
+  });
+
+  describe('lobby:join', () => {
+    const getHandler = (event: string) =>
+      (mockSocket.on as jest.Mock).mock.calls.find(([e]) => e === event)?.[1];
+
+    const waitingSession = {
+      id: 'session-123',
+      join_code: 'ABC123',
+      status: 'WAITING',
+      host_player_id: 'player-1',
+      phase: 'WAITING',
+      current_round: 0,
+      play_minutes: 8,
+      max_rounds: 4,
+      timeline_speed_ratio: 60.0,
+      server_now: new Date(),
+      players: [
+        { id: 'player-1', nickname: 'Alice', isHost: true, joinedAt: new Date().toISOString(), totalScore: 0, planetUsageState: null },
+        { id: 'player-2', nickname: 'Bob', isHost: false, joinedAt: new Date().toISOString(), totalScore: 0, planetUsageState: null },
+      ],
+    };
+
+    const signedInAs = (playerId: string, joinCode = 'ABC123') => ({
+      auth: { sessionId: 'session-123', joinCode, playerId, version: 0, issuedAt: 0 },
+    });
+
+    it('takes the player from the handshake token, not the payload', async () => {
+      mockSocket.data = signedInAs('player-2');
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [waitingSession] })
+        .mockResolvedValueOnce({ rows: mockBreakdownRows(['player-1', 'player-2']) });
+
+      const callback = jest.fn();
+      await getHandler('lobby:join')({ joinCode: 'abc123', playerId: 'player-1' }, callback);
+
+      expect(callback).toHaveBeenCalledWith(expect.objectContaining({ success: true }));
+      expect(mockSocket.data.playerId).toBe('player-2');
+      expect(mockSocket.join).toHaveBeenCalledWith(['session:ABC123', 'player:player-2']);
+    });
+
+    it('leaves the rooms of the session it was in before', async () => {
+      mockSocket.data = { ...signedInAs('player-2'), joinCode: 'OLD999', playerId: 'player-9' };
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [waitingSession] })
+        .mockResolvedValueOnce({ rows: mockBreakdownRows(['player-1', 'player-2']) });
+
+      await getHandler('lobby:join')({ joinCode: 'ABC123' }, jest.fn());
+
+      expect(mockSocket.leave).toHaveBeenCalledWith('session:OLD999');
+      expect(mockSocket.leave).toHaveBeenCalledWith('player:player-9');
+      expect(mockSocket.join).toHaveBeenCalledWith(['session:ABC123', 'player:player-2']);
+      expect(mockSocket.data).toMatchObject({ joinCode: 'ABC123', playerId: 'player-2' });
+    });
+
+    it('leaves the spectator rooms when a spectator signs in as a player', async () => {
+      mockSocket.data = { ...signedInAs('player-2'), joinCode: 'OLD999', spectator: true };
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [waitingSession] })
+        .mockResolvedValueOnce({ rows: mockBreakdownRows(['player-1', 'player-2']) });
+
+      await getHandler('lobby:join')({ joinCode: 'ABC123' }, jest.fn());
+
+      expect(mockSocket.leave).toHaveBeenCalledWith('session:OLD999');
+      expect(mockSocket.leave).toHaveBeenCalledWith('spectators:OLD999');
+      expect(mockSocket.data.spectator).toBeUndefined();
+    });
+
+    it('rejects sockets without a token', async () => {
+      mockSocket.data = {};
+      const callback = jest.fn();
+      await getHandler('lobby:join')({ joinCode: 'ABC123', playerId: 'player-1' }, callback);
+
+      expect(callback).toHaveBeenCalledWith({ success: false, error: 'Not signed in to this session' });
+      expect(pool.query).not.toHaveBeenCalled();
+      expect(mockSocket.data.playerId).toBeUndefined();
+    });
+
+    it('rejects a token for another session', async () => {
+      mockSocket.data = signedInAs('player-2', 'XYZ789');
+      const callback = jest.fn();
+      await getHandler('lobby:join')({ joinCode: 'ABC123' }, callback);
+
+      expect(callback).toHaveBeenCalledWith({ success: false, error: 'Not signed in to this session' });
+    });
+
+    it('sends a late joiner the feed so far and the last round recap', async () => {
+      mockSocket.data = signedInAs('player-2');
+      const playing = {
+        ...waitingSession,
+        status: 'PLAYING',
+        phase: 'PLAYING',
+        current_round: 2,
+        players: [
+          waitingSession.players[0],
+          { ...waitingSession.players[1], joinedRound: 2, catchUpScore: 7, totalScore: 7 },
+        ],
+      };
+      const recap = { narrative: 'Round one', themes: [] };
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [playing] })
+        .mockResolvedValueOnce({ rows: mockBreakdownRows(['player-1', 'player-2']) })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ round_no: 1, summary_data: recap }] });
+
+      const callback = jest.fn();
+      await getHandler('lobby:join')({ joinCode: 'ABC123' }, callback);
+
+      const response = callback.mock.calls[0][0];
+      expect(response.state.players[1]).toMatchObject({ joinedRound: 2, catchUpScore: 7 });
+      expect(response.catchUp).toEqual({ headlines: [], roundSummary: { roundNo: 1, summary: recap } });
+    });
+
+    it('sends no catch-up to players who were there from the start', async () => {
+      mockSocket.data = signedInAs('player-2');
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ ...waitingSession, status: 'PLAYING', phase: 'PLAYING' }] })
+        .mockResolvedValueOnce({ rows: mockBreakdownRows(['player-1', 'player-2']) });
+
+      const callback = jest.fn();
+      await getHandler('lobby:join')({ joinCode: 'ABC123' }, callback);
+
+      expect(callback.mock.calls[0][0].catchUp).toBeUndefined();
+      expect(pool.query).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('spectators', () => {
+    const getHandler = (event: string) =>
+      (mockSocket.on as jest.Mock).mock.calls.find(([e]) => e === event)?.[1];
+
+    const session = {
+      id: 'session-123',
+      join_code: 'ABC123',
+      status: 'PLAYING',
+      host_player_id: 'player-1',
+      phase: 'PLAYING',
+      current_round: 1,
+      play_minutes: 8,
+      max_rounds: 4,
+      timeline_speed_ratio: 60.0,
+      server_now: new Date(),
+      players: [
+        { id: 'player-1', nickname: 'Alice', isHost: true, joinedAt: new Date().toISOString(), totalScore: 0, planetUsageState: null },
+      ],
+    };
+    let disconnectSockets: jest.Mock;
+
+    beforeEach(() => {
+      disconnectSockets = jest.fn();
+      (mockIO as any).in = jest.fn().mockReturnValue({ disconnectSockets });
+    });
+
+    it('joins the session room read-only, without a player id', async () => {
+      mockSocket.data = {};
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ join_code: 'ABC123' }] })
+        .mockResolvedValueOnce({ rows: [session] })
+        .mockResolvedValueOnce({ rows: mockBreakdownRows(['player-1']) });
+
+      const callback = jest.fn();
+      await getHandler('spectator:join')({ spectatorCode: 'watch123' }, callback);
+
+      expect((pool.query as jest.Mock).mock.calls[0][1]).toEqual(['WATCH123']);
+      expect(mockSocket.join).toHaveBeenCalledWith(['session:ABC123', 'spectators:ABC123']);
+      expect(mockSocket.data).toEqual({ joinCode: 'ABC123', playerId: undefined, spectator: true });
+      expect(callback).toHaveBeenCalledWith({
+        success: true,
+        state: expect.objectContaining({ joinCode: 'ABC123', players: [expect.objectContaining({ id: 'player-1' })] }),
+      });
+    });
+
+    it('rejects an unknown spectator code', async () => {
+      mockSocket.data = {};
+      (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+      const callback = jest.fn();
+      await getHandler('spectator:join')({ spectatorCode: 'NOPE1234' }, callback);
+
+      expect(callback).toHaveBeenCalledWith({ success: false, error: 'Session not found' });
+      expect(mockSocket.join).not.toHaveBeenCalled();
+    });
+
+    it('does not take a join code as a spectator code', async () => {
+      mockSocket.data = {};
+      const callback = jest.fn();
+      await getHandler('spectator:join')({ spectatorCode: 'ABC123' }, callback);
+
+      expect(callback).toHaveBeenCalledWith({ success: false, error: expect.stringContaining('8 characters') });
+      expect(pool.query).not.toHaveBeenCalled();
+    });
+
+    it('leaves a signed-in player unable to use host controls once spectating', async () => {
+      mockSocket.data = { joinCode: 'ABC123', playerId: 'player-1' };
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ join_code: 'ABC123' }] })
+        .mockResolvedValueOnce({ rows: [session] })
+        .mockResolvedValueOnce({ rows: mockBreakdownRows(['player-1']) });
+
+      await getHandler('spectator:join')({ spectatorCode: 'WATCH123' }, jest.fn());
+      expect(mockSocket.leave).toHaveBeenCalledWith('player:player-1');
+
+      const callback = jest.fn();
+      await getHandler('game:pause')({ joinCode: 'ABC123' }, callback);
+      expect(callback).toHaveBeenCalledWith({ success: false, error: 'Missing required data' });
+    });
+
+    it("stops a player getting another session's broadcasts once spectating", async () => {
+      mockSocket.data = { joinCode: 'OLD999', playerId: 'player-9' };
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ join_code: 'ABC123' }] })
+        .mockResolvedValueOnce({ rows: [session] })
+        .mockResolvedValueOnce({ rows: mockBreakdownRows(['player-1']) });
+
+      await getHandler('spectator:join')({ spectatorCode: 'WATCH123' }, jest.fn());
+
+      expect(mockSocket.leave).toHaveBeenCalledWith('session:OLD999');
+      expect(mockSocket.leave).toHaveBeenCalledWith('player:player-9');
+      expect(mockSocket.join).toHaveBeenCalledWith(['session:ABC123', 'spectators:ABC123']);
+    });
+
+    it('gives the host the spectator code', async () => {
+      mockSocket.data = { playerId: 'player-1' };
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [session] })
+        .mockResolvedValueOnce({ rows: mockBreakdownRows(['player-1']) })
+        .mockResolvedValueOnce({ rows: [{ spectator_code: 'WATCH123' }] });
+
+      const callback = jest.fn();
+      await getHandler('spectator:get_code')({ joinCode: 'ABC123' }, callback);
+
+      expect(callback).toHaveBeenCalledWith({ success: true, spectatorCode: 'WATCH123' });
+    });
+
+    it('creates a code for sessions that have none yet', async () => {
+      mockSocket.data = { playerId: 'player-1' };
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [session] })
+        .mockResolvedValueOnce({ rows: mockBreakdownRows(['player-1']) })
+        .mockResolvedValueOnce({ rows: [{ spectator_code: null }] })
+        .mockResolvedValueOnce({ rows: [] }) // uniqueness check
+        .mockImplementationOnce(async (_sql: string, params: string[]) => ({ rows: [{ spectator_code: params[0] }] }));
+
+      const callback = jest.fn();
+      await getHandler('spectator:get_code')({ joinCode: 'ABC123' }, callback);
+
+      const [sql] = (pool.query as jest.Mock).mock.calls[4];
+      expect(sql).toContain('COALESCE(spectator_code, $1)');
+      expect(callback).toHaveBeenCalledWith({ success: true, spectatorCode: expect.stringMatching(/^[A-Z0-9]{8}$/) });
+    });
+
+    it('only lets the host see the spectator code', async () => {
+      mockSocket.data = { playerId: 'player-2' };
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [session] })
+        .mockResolvedValueOnce({ rows: mockBreakdownRows(['player-1']) });
+
+      const callback = jest.fn();
+      await getHandler('spectator:get_code')({ joinCode: 'ABC123' }, callback);
+
+      expect(callback).toHaveBeenCalledWith({ success: false, error: 'Only the host can control the game' });
+      expect(pool.query).toHaveBeenCalledTimes(2);
+    });
+
+    it('resets the code and disconnects the old spectators', async () => {
+      mockSocket.data = { playerId: 'player-1' };
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [session] })
+        .mockResolvedValueOnce({ rows: mockBreakdownRows(['player-1']) })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ spectator_code: 'FRESH456' }] });
+
+      const callback = jest.fn();
+      await getHandler('spectator:reset_code')({ joinCode: 'ABC123' }, callback);
+
+      expect(mockIO.to).toHaveBeenCalledWith('spectators:ABC123');
+      expect(mockIO.emit).toHaveBeenCalledWith('spectator:revoked', { joinCode: 'ABC123' });
+      expect((mockIO as any).in).toHaveBeenCalledWith('spectators:ABC123');
+      expect(disconnectSockets).toHaveBeenCalledWith(true);
+      expect(callback).toHaveBeenCalledWith({ success: true, spectatorCode: 'FRESH456' });
+    });
+  });
+
+  describe('player:revoke_token', () => {
+    const getHandler = (event: string) =>
+      (mockSocket.on as jest.Mock).mock.calls.find(([e]) => e === event)?.[1];
+
+    const session = {
+      id: 'session-123',
+      join_code: 'ABC123',
+      status: 'PLAYING',
+      host_player_id: 'player-1',
+      phase: 'PLAYING',
+      current_round: 1,
+      play_minutes: 8,
+      max_rounds: 4,
+      timeline_speed_ratio: 60.0,
+      server_now: new Date(),
+      players: [
+        { id: 'player-1', nickname: 'Alice', isHost: true, joinedAt: new Date().toISOString(), totalScore: 0, planetUsageState: null },
+        { id: 'player-2', nickname: 'Bob', isHost: false, joinedAt: new Date().toISOString(), totalScore: 0, planetUsageState: null },
+      ],
+    };
+    let disconnectSockets: jest.Mock;
+
+    beforeEach(() => {
+      disconnectSockets = jest.fn();
+      (mockIO as any).in = jest.fn().mockReturnValue({ disconnectSockets });
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [session] })
+        .mockResolvedValueOnce({ rows: mockBreakdownRows(['player-1', 'player-2']) });
+    });
+
+    it('bumps the token version, disconnects the player and returns a new recovery code', async () => {
+      mockSocket.data = { playerId: 'player-1' };
+      (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [{ id: 'player-2' }] });
+
+      const callback = jest.fn();
+      await getHandler('player:revoke_token')({ joinCode: 'ABC123', playerId: 'player-2' }, callback);
+
+      const [sql, params] = (pool.query as jest.Mock).mock.calls[2];
+      expect(sql).toContain('token_version = token_version + 1');
+      expect(params.slice(1)).toEqual(['player-2', 'session-123']);
+      expect(mockIO.to).toHaveBeenCalledWith('player:player-2');
+      expect(mockIO.emit).toHaveBeenCalledWith('session:revoked', { joinCode: 'ABC123' });
+      expect(disconnectSockets).toHaveBeenCalledWith(true);
+      expect(callback).toHaveBeenCalledWith({
+        success: true,
+        recoveryCode: expect.stringMatching(/^[A-Z2-9]{4}-[A-Z2-9]{4}$/),
+      });
+    });
+
+    it('only lets the host revoke tokens', async () => {
+      mockSocket.data = { playerId: 'player-2' };
+      const callback = jest.fn();
+      await getHandler('player:revoke_token')({ joinCode: 'ABC123', playerId: 'player-1' }, callback);
+
+      expect(callback).toHaveBeenCalledWith({ success: false, error: 'Only the host can control the game' });
+      expect(disconnectSockets).not.toHaveBeenCalled();
+    });
+
+    it('does not let the host sign themselves out', async () => {
+      mockSocket.data = { playerId: 'player-1' };
+      const callback = jest.fn();
+      await getHandler('player:revoke_token')({ joinCode: 'ABC123', playerId: 'player-1' }, callback);
+
+      expect(callback).toHaveBeenCalledWith({ success: false, error: 'Pick another player to sign out' });
+      expect(pool.query).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('moderation events', () => {
+    const getHandler = (event: string) =>
+      (mockSocket.on as jest.Mock).mock.calls.find(([e]) => e === event)?.[1];
+
+    it('registers the moderation events', () => {
+      for (const event of ['player:kick', 'player:rename', 'player:mute', 'player:unmute', 'host:transfer']) {
+        expect(getHandler(event)).toBeDefined();
+      }
+    });
+
+    it('validates the payload before looking up the session', async () => {
+      mockSocket.data = { playerId: 'player-1' };
+      const callback = jest.fn();
+      await getHandler('player:rename')({ joinCode: 'ABC123', playerId: 'player-2', nickname: '!!' }, callback);
+
+      expect(callback).toHaveBeenCalledWith({ success: false, error: expect.stringContaining('at least 3') });
+      expect(pool.query).not.toHaveBeenCalled();
+    });
+
+    it('only lets the host kick', async () => {
+      mockSocket.data = { playerId: 'player-2' };
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({
+          rows: [{
+            id: 'session-123',
+            join_code: 'ABC123',
+            status: 'WAITING',
+            host_player_id: 'player-1',
+            phase: 'WAITING',
+            current_round: 0,
+            server_now: new Date(),
+            players: [],
+          }],
+        })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const callback = jest.fn();
+      await getHandler('player:kick')({ joinCode: 'ABC123', playerId: 'player-3', ban: true }, callback);
+
+      expect(callback).toHaveBeenCalledWith({ success: false, error: 'Only the host can control the game' });
+      expect(pool.connect).not.toHaveBeenCalled();
+    });
+  });
+});
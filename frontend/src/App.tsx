@@ -3,25 +3,63 @@ import { Routes, Route, useNavigate, Navigate } from 'react-router-dom';
 import { HostLobby } from './components/HostLobby';
 import { JoinLobby } from './components/JoinLobby';
 import { JoinByLinkPage } from './pages/JoinByLinkPage';
+import { ProjectorPage } from './pages/ProjectorPage';
+import { RatingPage } from './pages/RatingPage';
 import { useSocket } from './hooks/useSocket';
 import { Card, Button } from './components/ui';
+import { GameSettingsForm, GameSettings, DEFAULT_GAME_SETTINGS } from './components/GameSettingsForm';
+import { PlanetSetForm } from './components/PlanetSetForm';
+import { ScenarioForm } from './components/ScenarioForm';
+import { PlanetSetChoice } from './lib/planets';
+import { DEFAULT_SCORING_PRESET, PlausibilityLevel, ScoringChoice, toScoringRequest } from './lib/scoring';
+import { DEFAULT_DICE_PRESET, DiceChoice, toDiceRequest } from './lib/dice';
+import { ScenarioListing, DEFAULT_SCENARIO } from './lib/scenarios';
+import { PlayerModerationActions } from './components/PlayerList';
+import { HeadlineReviewActions } from './components/ReviewQueue';
+import { ModerationForm, ModerationStrictness, DEFAULT_MODERATION_STRICTNESS } from './components/ModerationForm';
+import { LateJoinForm, LateJoinPolicy, DEFAULT_LATE_JOIN_POLICY } from './components/LateJoinForm';
+import { TeamsForm, parseTeamNames } from './components/TeamsForm';
+import { ScoringForm } from './components/ScoringForm';
+import { DiceForm } from './components/DiceForm';
+import { VotingForm } from './components/VotingForm';
+import { PromptExperimentForm } from './components/PromptExperimentForm';
+import { PromptExperiment } from './lib/prompts';
+import { DEFAULT_VOTING_POLICY, HeadlineVoteActions, VotingPolicy, canVoteOn, votesLeft } from './lib/voting';
 
 const API_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001';
 
 function App() {
   const navigate = useNavigate();
   const [nickname, setNickname] = useState('');
+  const [gameSettings, setGameSettings] = useState<GameSettings>(DEFAULT_GAME_SETTINGS);
+  const [scenario, setScenario] = useState(DEFAULT_SCENARIO);
+  const [scenarioListing, setScenarioListing] = useState<ScenarioListing | undefined>();
+  // null keeps the scenario's own planets
+  const [planetSet, setPlanetSet] = useState<PlanetSetChoice | null>(null);
+  const [moderationStrictness, setModerationStrictness] = useState<ModerationStrictness>(DEFAULT_MODERATION_STRICTNESS);
+  const [lateJoin, setLateJoin] = useState<LateJoinPolicy>(DEFAULT_LATE_JOIN_POLICY);
+  const [teamNames, setTeamNames] = useState<string | null>(null);
+  const [scoring, setScoring] = useState<ScoringChoice>({ preset: DEFAULT_SCORING_PRESET, rules: null });
+  const [dice, setDice] = useState<DiceChoice>({ preset: DEFAULT_DICE_PRESET, weights: null, riskMode: false });
+  const [voting, setVoting] = useState<VotingPolicy>(DEFAULT_VOTING_POLICY);
+  const [prompts, setPrompts] = useState<PromptExperiment>({});
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [initialized, setInitialized] = useState(false);
+  // host-only: the read-only code behind the projector link
+  const [spectatorCode, setSpectatorCode] = useState<string | null>(null);
 
   const [sessionData, setSessionData] = useState<{
     joinCode: string;
     playerId: string;
     isHost: boolean;
+    /** signed player token presented in the socket handshake */
+    token: string;
+    /** shown in the lobby so the player can rejoin from another device */
+    recoveryCode?: string;
   } | null>(null);
 
-  const { connected, sessionState, headlines, roundSummary, finalSummary, joinLobby, leaveLobby, startGame, submitHeadline, loadHeadlines, requestSummary, requestFinalSummary } = useSocket();
+  const { connected, sessionState, headlines, roundSummary, finalSummary, catchUpSummary, dismissCatchUp, rejections, signedOut, spectatorRevoked, joinLobby, spectate, leaveLobby, revokePlayer, kickPlayer, renamePlayer, mutePlayer, unmutePlayer, transferHost, lockSession, setPlayerTeam, balanceTeams, loadSpectatorCode, resetSpectatorCode, startGame, pauseGame, resumeGame, extendPhase, skipPhase, reviewHeadline, overrideHeadline, loadReviewQueue, voteHeadline, submitHeadline, loadHeadlines, requestSummary, requestFinalSummary } = useSocket();
 
   // load session from localstorage on mount
   useEffect(() => {
@@ -29,11 +67,16 @@ function App() {
     if (stored) {
       try {
         const parsed = JSON.parse(stored);
-        // skip auto-rejoin on /join/:joinCode so a new invite link isn't blocked by an old session
-        const isJoinPage = window.location.pathname.startsWith('/join/');
-        if (!isJoinPage && parsed.joinCode && parsed.playerId) {
+        // skip auto-rejoin on /join/:joinCode so a new invite link isn't blocked by an old session,
+        // on /watch/:spectatorCode so the host's laptop can also drive the projector,
+        // and on /rate/:raterCode, which has nothing to do with any game
+        const isJoinPage = window.location.pathname.startsWith('/join/')
+          || window.location.pathname.startsWith('/watch/')
+          || window.location.pathname.startsWith('/rate/');
+        // sessions stored before tokens existed can't rejoin; drop them
+        if (!isJoinPage && parsed.joinCode && parsed.playerId && parsed.token) {
           setSessionData(parsed);
-          joinLobby(parsed.joinCode, parsed.playerId);
+          joinLobby(parsed.joinCode, parsed.playerId, parsed.token);
           navigate(`/lobby/${parsed.joinCode}`, { replace: true });
         }
       } catch (err) {
@@ -44,6 +87,16 @@ function App() {
     setInitialized(true);
   }, []);
 
+  // the host revoked our token, or it no longer verifies
+  useEffect(() => {
+    if (signedOut) {
+      setSessionData(null);
+      localStorage.removeItem('futureHeadlines_session');
+      setError(signedOut);
+      navigate('/', { replace: true });
+    }
+  }, [signedOut]);
+
   // persist sessiondata to localstorage
   useEffect(() => {
     if (sessionData) {
@@ -64,12 +117,26 @@ function App() {
       const response = await fetch(`${API_URL}/api/sessions`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ hostNickname: nickname.trim() }),
+        body: JSON.stringify({
+          hostNickname: nickname.trim(),
+          scenario,
+          // an unset start year lets the scenario pick one
+          settings: gameSettings.startYear === null ? { ...gameSettings, startYear: undefined } : gameSettings,
+          ...(planetSet && { planetSet }),
+          moderationStrictness,
+          lateJoin,
+          ...(teamNames !== null && { teams: parseTeamNames(teamNames) }),
+          scoring: toScoringRequest(scoring),
+          dice: toDiceRequest(dice),
+          voting,
+          ...(Object.keys(prompts).length > 0 && { prompts }),
+        }),
       });
 
       if (!response.ok) {
         const data = await response.json();
-        throw new Error(data.error || 'Failed to create session');
+        // surface which setting or planet failed validation
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to create session');
       }
 
       const data = await response.json();
@@ -77,11 +144,13 @@ function App() {
         joinCode: data.session.joinCode,
         playerId: data.player.id,
         isHost: true,
+        token: data.token,
+        recoveryCode: data.recoveryCode,
       };
 
       setSessionData(newSessionData);
 
-      const joined = await joinLobby(data.session.joinCode, data.player.id);
+      const joined = await joinLobby(data.session.joinCode, data.player.id, data.token);
       if (joined) {
         navigate(`/lobby/${data.session.joinCode}`);
       } else {
@@ -94,12 +163,42 @@ function App() {
     }
   };
 
-  const handleJoinSession = async (joinCode: string, playerNickname: string) => {
+  const handleJoinSession = async (joinCode: string, playerNickname: string, recoveryCode?: string) => {
     setLoading(true);
     setError('');
 
     try {
       const code = joinCode.trim().toUpperCase();
+
+      // a recovery code brings back an existing player, in any phase
+      if (recoveryCode) {
+        const rejoinResponse = await fetch(`${API_URL}/api/sessions/${code}/rejoin`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ nickname: playerNickname.trim(), recoveryCode: recoveryCode.trim() }),
+        });
+        if (!rejoinResponse.ok) {
+          const rejoinData = await rejoinResponse.json();
+          throw new Error(rejoinData.message || 'Nickname or recovery code is incorrect');
+        }
+        const rejoinData = await rejoinResponse.json();
+        const newSessionData = {
+          joinCode: code,
+          playerId: rejoinData.player.id,
+          isHost: rejoinData.player.isHost,
+          token: rejoinData.token,
+          recoveryCode: recoveryCode.trim().toUpperCase(),
+        };
+        setSessionData(newSessionData);
+        const joined = await joinLobby(code, rejoinData.player.id, rejoinData.token);
+        if (joined) {
+          navigate(`/lobby/${code}`);
+        } else {
+          setError('Failed to connect to lobby');
+        }
+        return;
+      }
+
       const response = await fetch(`${API_URL}/api/sessions/${code}/join`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -108,31 +207,11 @@ function App() {
 
       if (!response.ok) {
         const errData = await response.json();
-        // if game already started, try to recover existing player by nickname
-        if (response.status === 400 && errData.error === 'Cannot join session') {
-          const rejoinResponse = await fetch(`${API_URL}/api/sessions/${code}/rejoin`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ nickname: playerNickname.trim() }),
-          });
-          if (!rejoinResponse.ok) {
-            const rejoinData = await rejoinResponse.json();
-            throw new Error(rejoinData.message || 'Game in progress — nickname not found in this session');
-          }
-          const rejoinData = await rejoinResponse.json();
-          const newSessionData = {
-            joinCode: code,
-            playerId: rejoinData.player.id,
-            isHost: rejoinData.player.isHost,
-          };
-          setSessionData(newSessionData);
-          const joined = await joinLobby(code, rejoinData.player.id);
-          if (joined) {
-            navigate(`/lobby/${code}`);
-          } else {
-            setError('Failed to connect to lobby');
-          }
-          return;
+        if (errData.code === 'JOIN_LOCKED') {
+          throw new Error('The host has locked this game. Already playing? Rejoin with your recovery code.');
+        }
+        if (errData.code === 'ALREADY_STARTED') {
+          throw new Error('This game has started. Already playing? Rejoin with your recovery code.');
         }
         throw new Error(errData.error || errData.message || 'Failed to join session');
       }
@@ -142,11 +221,13 @@ function App() {
         joinCode: data.session.joinCode,
         playerId: data.player.id,
         isHost: false,
+        token: data.token,
+        recoveryCode: data.recoveryCode,
       };
 
       setSessionData(newSessionData);
 
-      const joined = await joinLobby(data.session.joinCode, data.player.id);
+      const joined = await joinLobby(data.session.joinCode, data.player.id, data.token);
       if (joined) {
         navigate(`/lobby/${data.session.joinCode}`);
       } else {
@@ -174,9 +255,96 @@ function App() {
     if (success) console.log('Game started!');
   };
 
-  const handleSubmitHeadline = async (headline: string) => {
+  const nicknameOf = (playerId: string) =>
+    sessionState?.players.find((p) => p.id === playerId)?.nickname ?? 'this player';
+
+  // host moderation; the server broadcasts the roster change
+  const moderation: PlayerModerationActions = {
+    onRename: (playerId) => {
+      if (!sessionData) return;
+      const nickname = window.prompt(`New nickname for ${nicknameOf(playerId)}`);
+      if (nickname?.trim()) renamePlayer(sessionData.joinCode, playerId, nickname.trim());
+    },
+    onMute: (playerId) => {
+      if (sessionData) mutePlayer(sessionData.joinCode, playerId, 5);
+    },
+    onUnmute: (playerId) => {
+      if (sessionData) unmutePlayer(sessionData.joinCode, playerId);
+    },
+    onMakeHost: (playerId) => {
+      if (sessionData && window.confirm(`Make ${nicknameOf(playerId)} the host? You will lose the host controls.`)) {
+        transferHost(sessionData.joinCode, playerId);
+      }
+    },
+    onSignOut: async (playerId) => {
+      if (!sessionData) return;
+      const recoveryCode = await revokePlayer(sessionData.joinCode, playerId);
+      if (recoveryCode) {
+        alert(`${nicknameOf(playerId)} has been signed out. Their new recovery code is ${recoveryCode}`);
+      }
+    },
+    onKick: (playerId, ban) => {
+      const prompt = ban
+        ? `Ban ${nicknameOf(playerId)}? They won't be able to rejoin.`
+        : `Kick ${nicknameOf(playerId)}? They can rejoin with their recovery code.`;
+      if (sessionData && window.confirm(prompt)) {
+        kickPlayer(sessionData.joinCode, playerId, ban);
+      }
+    },
+    // teams are fixed once the game starts
+    ...(sessionState?.phase === 'WAITING' &&
+      sessionState.teams.length > 0 && {
+        teams: sessionState.teams,
+        onSetTeam: (playerId: string, team: string) => {
+          if (sessionData) setPlayerTeam(sessionData.joinCode, playerId, team);
+        },
+      }),
+  };
+
+  // content moderation and score corrections; the server broadcasts the headline and the new scores
+  const review: HeadlineReviewActions = {
+    rejections,
+    onReview: (headlineId, decision) => {
+      if (sessionData) reviewHeadline(sessionData.joinCode, headlineId, decision);
+    },
+    onOverride: (headline) => {
+      if (!sessionData) return;
+      const level = window.prompt(
+        `Plausibility level for "${headline.text}" (1-5, blank to keep ${headline.plausibilityBand ?? 'it'})`
+      );
+      if (level === null) return;
+      const planet = window.prompt(
+        `Primary planet (blank to keep ${headline.planets?.[0] ?? 'it'}): ${sessionState?.planets.map((p) => p.id).join(', ')}`
+      );
+      if (planet === null) return;
+      const plausibilityLevel = level.trim() ? parseInt(level, 10) : undefined;
+      const primaryPlanet = planet.trim() ? planet.trim().toUpperCase() : undefined;
+      if (plausibilityLevel === undefined && primaryPlanet === undefined) return;
+      overrideHeadline(sessionData.joinCode, headline.id, { plausibilityLevel, primaryPlanet });
+    },
+  };
+
+  // people's choice: votes on the round just played, while the break lasts
+  const me = sessionState?.players.find((p) => p.id === sessionData?.playerId);
+  const headlineVoting: HeadlineVoteActions | undefined =
+    sessionState && sessionData && me && sessionState.phase === 'BREAK' && sessionState.voting.enabled
+      ? {
+          policy: sessionState.voting,
+          remaining: votesLeft(headlines, sessionState.currentRound, sessionState.voting),
+          canVote: (headline) =>
+            canVoteOn(
+              headline,
+              sessionState.currentRound,
+              me,
+              sessionState.players.find((p) => p.id === headline.playerId)?.team
+            ),
+          onVote: (headlineId, vote) => voteHeadline(sessionData.joinCode, headlineId, vote),
+        }
+      : undefined;
+
+  const handleSubmitHeadline = async (headline: string, targetBand: PlausibilityLevel | null) => {
     if (!sessionData) return { success: false, error: 'Not connected to a session' };
-    return submitHeadline(sessionData.joinCode, headline);
+    return submitHeadline(sessionData.joinCode, headline, targetBand);
   };
 
   // load headlines when phase changes to playing
@@ -186,6 +354,31 @@ function App() {
     }
   }, [sessionState?.phase, sessionData?.joinCode, loadHeadlines]);
 
+  // the host role follows the server, so a host transfer swaps lobbies
+  const isHost = !!sessionData && sessionState?.hostPlayerId === sessionData.playerId;
+
+  // the host's list of refused submissions, after a reload or a host transfer
+  useEffect(() => {
+    if (isHost && sessionData?.joinCode) {
+      loadReviewQueue(sessionData.joinCode);
+    }
+  }, [isHost, sessionData?.joinCode, loadReviewQueue]);
+
+  // the projector link, after a reload or a host transfer
+  useEffect(() => {
+    if (isHost && sessionData?.joinCode) {
+      loadSpectatorCode(sessionData.joinCode).then(setSpectatorCode);
+    } else {
+      setSpectatorCode(null);
+    }
+  }, [isHost, sessionData?.joinCode, loadSpectatorCode]);
+
+  const handleResetSpectatorCode = async () => {
+    if (!sessionData || !window.confirm('Reset the projector link? Screens using the old link will disconnect.')) return;
+    const code = await resetSpectatorCode(sessionData.joinCode);
+    if (code) setSpectatorCode(code);
+  };
+
   // request round summary on reconnect during break
   useEffect(() => {
     if (sessionState?.phase === 'BREAK' && sessionData?.joinCode && !roundSummary) {
@@ -217,7 +410,7 @@ function App() {
   ) : !sessionData ? (
     <Navigate to="/" replace />
   ) : sessionState ? (
-    sessionData.isHost ? (
+    isHost ? (
       <HostLobby
         joinCode={sessionState.joinCode}
         players={sessionState.players}
@@ -228,13 +421,35 @@ function App() {
         playMinutes={sessionState.playMinutes}
         phaseStartedAt={sessionState.phaseStartedAt}
         phaseEndsAt={sessionState.phaseEndsAt}
+        pausedAt={sessionState.pausedAt}
         serverNow={sessionState.serverNow}
         inGameNow={sessionState.inGameNow}
         timelineSpeedRatio={sessionState.timelineSpeedRatio}
+        totalYears={sessionState.totalYears}
+        planets={sessionState.planets}
+        scoring={sessionState.scoring}
+        diceSettings={sessionState.diceSettings}
+        scenarioName={sessionState.scenario.name}
+        recoveryCode={sessionData.recoveryCode}
+        spectatorCode={spectatorCode}
+        onResetSpectatorCode={handleResetSpectatorCode}
+        joinLocked={sessionState.joinLocked}
+        onSetJoinLocked={(locked) => lockSession(sessionState.joinCode, locked)}
+        teams={sessionState.teams}
+        onBalanceTeams={() => balanceTeams(sessionState.joinCode)}
         headlines={headlines}
         roundSummary={roundSummary}
         finalSummary={finalSummary}
+        catchUpSummary={catchUpSummary}
+        onDismissCatchUp={dismissCatchUp}
         onStartGame={handleStartGame}
+        moderation={moderation}
+        review={review}
+        voting={headlineVoting}
+        onPauseGame={() => pauseGame(sessionState.joinCode)}
+        onResumeGame={() => resumeGame(sessionState.joinCode)}
+        onExtendPhase={(minutes) => extendPhase(sessionState.joinCode, minutes)}
+        onSkipPhase={() => skipPhase(sessionState.joinCode)}
         onBack={handleBack}
         onSubmitHeadline={handleSubmitHeadline}
       />
@@ -243,19 +458,29 @@ function App() {
         joinCode={sessionState.joinCode}
         players={sessionState.players}
         currentPlayerId={sessionData.playerId}
-        isHost={sessionData.isHost}
+        isHost={isHost}
         phase={sessionState.phase}
         currentRound={sessionState.currentRound}
         maxRounds={sessionState.maxRounds}
         playMinutes={sessionState.playMinutes}
         phaseStartedAt={sessionState.phaseStartedAt}
         phaseEndsAt={sessionState.phaseEndsAt}
+        pausedAt={sessionState.pausedAt}
         serverNow={sessionState.serverNow}
         inGameNow={sessionState.inGameNow}
         timelineSpeedRatio={sessionState.timelineSpeedRatio}
+        totalYears={sessionState.totalYears}
+        planets={sessionState.planets}
+        scoring={sessionState.scoring}
+        diceSettings={sessionState.diceSettings}
+        scenarioName={sessionState.scenario.name}
+        recoveryCode={sessionData.recoveryCode}
         headlines={headlines}
         roundSummary={roundSummary}
         finalSummary={finalSummary}
+        catchUpSummary={catchUpSummary}
+        onDismissCatchUp={dismissCatchUp}
+        voting={headlineVoting}
         onBack={handleBack}
         onSubmitHeadline={handleSubmitHeadline}
       />
@@ -295,6 +520,23 @@ function App() {
                 />
               </div>
 
+              <GameSettingsForm settings={gameSettings} onChange={setGameSettings} />
+              <ScenarioForm
+                value={scenario}
+                onChange={(id, listing) => {
+                  setScenario(id);
+                  setScenarioListing(listing);
+                }}
+              />
+              <PlanetSetForm value={planetSet} onChange={setPlanetSet} scenarioPack={scenarioListing?.planetPack} />
+              <ModerationForm value={moderationStrictness} onChange={setModerationStrictness} />
+              <LateJoinForm value={lateJoin} onChange={setLateJoin} />
+              <TeamsForm value={teamNames} onChange={setTeamNames} />
+              <ScoringForm value={scoring} onChange={setScoring} />
+              <DiceForm value={dice} onChange={setDice} />
+              <VotingForm value={voting} onChange={setVoting} />
+              <PromptExperimentForm value={prompts} onChange={setPrompts} />
+
               {error && (
                 <div className="text-sm text-red-600 bg-red-50 px-3 py-2 rounded-lg">
                   {error}
@@ -329,6 +571,23 @@ function App() {
 
       <Route path="/lobby/:joinCode" element={lobbyElement} />
 
+      <Route path="/watch/:spectatorCode" element={
+        <ProjectorPage
+          connected={connected}
+          sessionState={sessionState}
+          headlines={headlines}
+          roundSummary={roundSummary}
+          finalSummary={finalSummary}
+          spectatorRevoked={spectatorRevoked}
+          onSpectate={spectate}
+          onLoadHeadlines={loadHeadlines}
+          onRequestSummary={requestSummary}
+          onRequestFinalSummary={requestFinalSummary}
+        />
+      } />
+
+      <Route path="/rate/:raterCode" element={<RatingPage />} />
+
       <Route path="*" element={<Navigate to="/" replace />} />
     </Routes>
   );
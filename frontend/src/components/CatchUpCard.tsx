@@ -0,0 +1,32 @@
+import { RoundSummary as RoundSummaryType } from '../hooks/useSocket';
+import { Card, SectionTitle } from './ui';
+
+interface CatchUpCardProps {
+  /** the last round recap, shown in the break before this player joined */
+  summary: RoundSummaryType;
+  /** the score the player started with, if the session hands one out */
+  catchUpScore: number;
+  onDismiss: () => void;
+}
+
+/** what a late joiner missed: the last period's narrative and their starting score */
+export function CatchUpCard({ summary, catchUpScore, onDismiss }: CatchUpCardProps) {
+  if (!summary.summary) return null;
+
+  return (
+    <Card padding="sm" className="space-y-2">
+      <div className="flex items-start justify-between gap-2">
+        <SectionTitle>So far, up to Period {summary.roundNo}</SectionTitle>
+        <button onClick={onDismiss} className="text-xs text-gray-400 hover:text-gray-600 transition-colors">
+          Got it
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 leading-relaxed line-clamp-6 whitespace-pre-line">
+        {summary.summary.narrative}
+      </p>
+      {catchUpScore > 0 && (
+        <p className="text-xs text-gray-400">You start with {catchUpScore} points to catch up.</p>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,99 @@
+import { useEffect, useState } from 'react';
+import { BAND_LABELS, BandWeights, DiceChoice, DicePreset } from '../lib/dice';
+import { PlausibilityLevel } from '../lib/scoring';
+
+const API_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001';
+
+const INPUT_CLASS =
+  'w-full px-2 py-1.5 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-400 focus:border-transparent bg-gray-50';
+const LABEL_CLASS = 'block text-xs font-medium text-gray-500 mb-1';
+
+const BANDS: PlausibilityLevel[] = [1, 2, 3, 4, 5];
+
+interface DiceFormProps {
+  value: DiceChoice;
+  onChange: (value: DiceChoice) => void;
+}
+
+/**
+ * dice distribution picker for session creation; "adjust odds" starts from a
+ * copy of the preset's weights, which must add up to 100 like the server checks.
+ */
+export function DiceForm({ value, onChange }: DiceFormProps) {
+  const [presets, setPresets] = useState<DicePreset[]>([]);
+
+  useEffect(() => {
+    fetch(`${API_URL}/api/dice-presets`)
+      .then((res) => res.json())
+      .then((data) => setPresets(data.presets ?? []))
+      .catch((err) => console.error('Failed to load dice presets:', err));
+  }, []);
+
+  const selected = presets.find((p) => p.id === value.preset);
+  const weights = value.weights;
+  const total = weights?.reduce((sum, weight) => sum + weight, 0) ?? 100;
+
+  return (
+    <div className="border-t border-gray-100 pt-4 space-y-2">
+      <label className="block text-xs font-medium text-gray-500 uppercase tracking-wider mb-1.5">Dice</label>
+      <select
+        value={value.preset}
+        onChange={(e) => onChange({ ...value, preset: e.target.value, weights: null })}
+        className={INPUT_CLASS}
+      >
+        {presets.map((preset) => (
+          <option key={preset.id} value={preset.id}>
+            {preset.name} ({preset.weights.join('/')})
+          </option>
+        ))}
+      </select>
+      {selected && <p className="text-xs text-gray-400">{selected.description}</p>}
+
+      <label className="flex items-center gap-2 text-sm text-gray-600">
+        <input
+          type="checkbox"
+          checked={weights !== null}
+          disabled={!selected}
+          onChange={(e) => onChange({ ...value, weights: e.target.checked && selected ? selected.weights : null })}
+          className="accent-indigo-500"
+        />
+        Adjust odds
+      </label>
+
+      {weights && (
+        <>
+          <div className="grid grid-cols-5 gap-2">
+            {BANDS.map((band) => (
+              <div key={band}>
+                <label className={LABEL_CLASS}>{BAND_LABELS[band]} %</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={weights[band - 1]}
+                  onChange={(e) => {
+                    const next = [...weights] as BandWeights;
+                    next[band - 1] = Math.min(100, Math.max(0, Math.round(Number(e.target.value) || 0)));
+                    onChange({ ...value, weights: next });
+                  }}
+                  className={INPUT_CLASS}
+                />
+              </div>
+            ))}
+          </div>
+          {total !== 100 && <p className="text-xs text-red-500">The odds add up to {total}%, not 100%</p>}
+        </>
+      )}
+
+      <label className="flex items-center gap-2 text-sm text-gray-600">
+        <input
+          type="checkbox"
+          checked={value.riskMode}
+          onChange={(e) => onChange({ ...value, riskMode: e.target.checked })}
+          className="accent-indigo-500"
+        />
+        Risk mode: players may bet on a band, doubling its odds, and score when it lands
+      </label>
+    </div>
+  );
+}
@@ -3,13 +3,19 @@ import { Headline, Player, FinalSummary } from '../hooks/useSocket';
 import { Card, SectionTitle, Button } from './ui';
 import { ScoreBarChart } from './ScoreBarChart';
 import { HeadlineFeed } from './HeadlineFeed';
+import { PlanetDefinition } from '../lib/planets';
+import { teamStandings } from '../lib/teams';
+
+const API_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001';
 
 interface GameEndProps {
   joinCode: string;
   players: Player[];
   headlines: Headline[];
+  planets: PlanetDefinition[];
   currentPlayerId: string;
   maxRounds: number;
+  totalYears: number;
   totalGameMins: number;
   currentGameMins: number;
   finalSummary: FinalSummary | null;
@@ -20,15 +26,20 @@ export function GameEnd({
   joinCode,
   players,
   headlines,
+  planets,
   currentPlayerId,
   maxRounds,
+  totalYears,
   totalGameMins,
   currentGameMins,
   finalSummary,
   onBack,
 }: GameEndProps) {
   const realPlayers = players.filter((p) => p.nickname !== 'Archive');
-  const realHeadlines = headlines;
+  const teams = teamStandings(realPlayers);
+  const ownTeam = realPlayers.find((p) => p.id === currentPlayerId)?.team;
+  // the host's and authors' copies of hidden headlines stay out of the final timeline
+  const realHeadlines = headlines.filter((h) => h.moderationStatus !== 'hidden');
 
   const isGenerating = !finalSummary || finalSummary.status === 'generating';
   const hasSummary =
@@ -98,7 +109,7 @@ export function GameEnd({
       // header
       writeText('Future Headlines', 22, { bold: true, gapAfter: 1 });
       writeText(
-        `Session ${joinCode} · ${maxRounds} rounds · 20 years of history`,
+        `Session ${joinCode} · ${maxRounds} rounds · ${totalYears} years of history`,
         10,
         { color: [120, 120, 120], gapAfter: 6 }
       );
@@ -128,6 +139,22 @@ export function GameEnd({
       );
       y += imgHeight + 8;
 
+      if (teams.length > 0) {
+        writeText('Team Standings', 14, {
+          bold: true,
+          color: [60, 60, 60],
+          gapAfter: 2,
+        });
+        teams.forEach((team, i) => {
+          writeText(`${i + 1}. ${team.team} · ${team.totalScore} pts`, 10, { bold: true });
+          writeText(team.members.map((m) => m.nickname).join(', '), 8, {
+            color: [120, 120, 120],
+            gapAfter: 2,
+          });
+        });
+        y += 6;
+      }
+
       // timeline — iterate all headlines from props, not the scroll viewport
       writeText('Timeline', 14, {
         bold: true,
@@ -210,10 +237,45 @@ export function GameEnd({
           <div className="text-center">
             <h1 className="text-2xl font-bold text-gray-800">Game Complete</h1>
             <p className="text-sm text-gray-400 mt-1">
-              Session {joinCode} &middot; {maxRounds} rounds &middot; 20 years of history
+              Session {joinCode} &middot; {maxRounds} rounds &middot; {totalYears} years of history
             </p>
           </div>
 
+          {teams.length > 0 && (
+            <Card padding="md">
+              <SectionTitle>Team Standings</SectionTitle>
+              <ol className="space-y-2">
+                {teams.map((team, i) => (
+                  <li
+                    key={team.team}
+                    className={`flex items-center justify-between gap-3 rounded-lg px-3 py-2 ${
+                      team.team === ownTeam ? 'bg-indigo-50' : 'bg-gray-50'
+                    }`}
+                  >
+                    <div className="min-w-0">
+                      <div className="text-sm font-semibold text-gray-800">
+                        {i + 1}. {team.team}
+                        {i === 0 && <span className="ml-2 text-xs font-medium text-amber-600">Winners</span>}
+                      </div>
+                      <div className="text-xs text-gray-400 truncate">
+                        {team.members.map((m) => m.nickname).join(', ')}
+                      </div>
+                    </div>
+                    <div className="text-right shrink-0">
+                      <div className="text-sm font-semibold text-indigo-600 tabular-nums">{team.totalScore} pts</div>
+                      <div className="text-[10px] text-gray-400 tabular-nums">
+                        {team.scoreBreakdown.connection} from cross-team links
+                        {team.scoreBreakdown.peoplesChoice > 0 &&
+                          `, ${team.scoreBreakdown.peoplesChoice} people\u2019s choice`}
+                        {team.scoreBreakdown.riskBonus > 0 && `, ${team.scoreBreakdown.riskBonus} from risk bets`}
+                      </div>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            </Card>
+          )}
+
           <Card padding="md">
             <SectionTitle>Final Leaderboard</SectionTitle>
             <div ref={leaderboardRef}>
@@ -232,6 +294,7 @@ export function GameEnd({
             <HeadlineFeed
               headlines={realHeadlines}
               currentPlayerId={currentPlayerId}
+              planets={planets}
             />
           </div>
 
@@ -317,6 +380,22 @@ export function GameEnd({
           </Button>
         </div>
 
+        {/* the full record for analysis: every band variant, roll, rationale and score */}
+        <p className="text-center text-xs text-gray-400 pt-3">
+          Research data:{' '}
+          <a href={`${API_URL}/api/sessions/${joinCode}/export`} className="text-indigo-500 hover:text-indigo-600">
+            game archive (JSON)
+          </a>{' '}
+          &middot;{' '}
+          <a href={`${API_URL}/api/sessions/${joinCode}/export?format=csv`} className="text-indigo-500 hover:text-indigo-600">
+            headlines (CSV)
+          </a>{' '}
+          &middot;{' '}
+          <a href={`${API_URL}/api/sessions/${joinCode}/dice`} className="text-indigo-500 hover:text-indigo-600">
+            dice rolls, checked against the revealed seed
+          </a>
+        </p>
+
         <p className="text-center text-xs text-gray-400 pt-8 pb-8">
           Whom the Gods 2.0 &middot; created by Lewis Griffin &amp; Ayman Arif Khan
         </p>
@@ -9,10 +9,16 @@ import { InGameDate } from './InGameDate';
 import { RoundSummary } from './RoundSummary';
 import { ScoreCard } from './ScoreCard';
 import { GameEnd } from './GameEnd';
-import { PlayerList } from './PlayerList';
-import { Badge } from './ui';
+import { PlayerList, PlayerModerationActions } from './PlayerList';
+import { ReviewQueue, HeadlineReviewActions } from './ReviewQueue';
+import { CatchUpCard } from './CatchUpCard';
+import { Badge, Card } from './ui';
 import { Headline, RoundSummary as RoundSummaryType, FinalSummary, PlanetPanelEntry } from '../hooks/useSocket';
 import { useInGameNow } from '../hooks/useInGameNow';
+import { PlanetDefinition } from '../lib/planets';
+import { PlausibilityLevel, SessionScoring } from '../lib/scoring';
+import { DiceSettings } from '../lib/dice';
+import { HeadlineVoteActions } from '../lib/voting';
 
 interface GameLayoutProps {
   joinCode: string;
@@ -22,20 +28,38 @@ interface GameLayoutProps {
   currentRound: number;
   maxRounds: number;
   phaseEndsAt: string | null;
+  pausedAt: string | null;
   serverNow: string;
   inGameNow: string | null;
   timelineSpeedRatio: number;
+  totalYears: number;
   headlines: Headline[];
   roundSummary: RoundSummaryType | null;
   finalSummary: FinalSummary | null;
+  /** a late joiner's recap of what they missed, until dismissed */
+  catchUpSummary?: RoundSummaryType | null;
+  onDismissCatchUp?: () => void;
   planetPanel: PlanetPanelEntry[] | null;
+  planets: PlanetDefinition[];
+  scoring: SessionScoring;
+  diceSettings: DiceSettings;
   myScore: number;
   totalGameMins: number;
   currentGameMins: number;
-  onSubmitHeadline: (headline: string) => Promise<{ success: boolean; error?: string; cooldownMs?: number }>;
+  onSubmitHeadline: (headline: string, targetBand: PlausibilityLevel | null) => Promise<{ success: boolean; error?: string; cooldownMs?: number; moderation?: { status: string } }>;
   onBack: () => void;
+  /** this player's recovery code, if we still have it */
+  recoveryCode?: string;
+  /** host-only: kick, rename, mute, sign out or promote other players */
+  moderation?: PlayerModerationActions;
+  /** host-only: approve or hide headlines the content filter flagged */
+  review?: HeadlineReviewActions;
+  /** during a break of a game with voting on: upvote or star other players' headlines */
+  voting?: HeadlineVoteActions;
   /* lobby-specific slot */
   lobbyContent?: React.ReactNode;
+  /* host-only in-game controls (pause/extend/skip) */
+  hostControls?: React.ReactNode;
 }
 
 export function GameLayout({
@@ -46,29 +70,46 @@ export function GameLayout({
   currentRound,
   maxRounds,
   phaseEndsAt,
+  pausedAt,
   serverNow,
   inGameNow,
   timelineSpeedRatio,
+  totalYears,
   headlines,
   roundSummary,
   finalSummary,
+  catchUpSummary,
+  onDismissCatchUp,
   planetPanel,
+  planets,
+  scoring,
+  diceSettings,
   myScore,
   totalGameMins,
   currentGameMins,
   onSubmitHeadline,
   onBack,
+  recoveryCode,
+  moderation,
+  review,
+  voting,
   lobbyContent,
+  hostControls,
 }: GameLayoutProps) {
   const isWaiting = phase === 'WAITING';
   const isFinished = phase === 'FINISHED';
   const inGame = !isWaiting && !isFinished;
 
+  const catchUpScore = players.find((p) => p.id === currentPlayerId)?.catchUpScore ?? 0;
+  const catchUpCard = catchUpSummary && phase !== 'BREAK' && onDismissCatchUp && (
+    <CatchUpCard summary={catchUpSummary} catchUpScore={catchUpScore} onDismiss={onDismissCatchUp} />
+  );
+
   const derivedInGameNow = useInGameNow({
     inGameNow,
     serverNow,
     timelineSpeedRatio,
-    enabled: phase === 'PLAYING',
+    enabled: phase === 'PLAYING' && !pausedAt,
   });
 
   return (
@@ -97,13 +138,15 @@ export function GameLayout({
                 currentRound={currentRound}
                 maxRounds={maxRounds}
                 phaseEndsAt={phaseEndsAt}
+                pausedAt={pausedAt}
                 serverNow={serverNow}
                 inGameNow={inGameNow}
               />
             </div>
           )}
 
-          {/* right: personal score */}
+          {/* right: host controls + personal score */}
+          {inGame && hostControls}
           {inGame && <PersonalScore score={myScore} />}
         </div>
       </header>
@@ -112,7 +155,16 @@ export function GameLayout({
         <main className="flex-1 min-h-0 overflow-y-auto">
           <div className="max-w-2xl mx-auto px-4 py-8 space-y-6">
             {lobbyContent}
-            <PlayerList players={players} currentPlayerId={currentPlayerId} />
+            {recoveryCode && (
+              <Card padding="md" className="text-center space-y-1">
+                <p className="text-xs text-gray-400 uppercase tracking-wider">Your Recovery Code</p>
+                <span className="text-lg font-mono font-semibold text-gray-700 tracking-widest block">
+                  {recoveryCode}
+                </span>
+                <p className="text-xs text-gray-400">Keep it to rejoin from another device</p>
+              </Card>
+            )}
+            <PlayerList players={players} currentPlayerId={currentPlayerId} moderation={moderation} />
             <div className="flex justify-center">
               <button
                 onClick={onBack}
@@ -130,8 +182,10 @@ export function GameLayout({
           joinCode={joinCode}
           players={players}
           headlines={headlines}
+          planets={planets}
           currentPlayerId={currentPlayerId}
           maxRounds={maxRounds}
+          totalYears={totalYears}
           totalGameMins={totalGameMins}
           currentGameMins={currentGameMins}
           finalSummary={finalSummary}
@@ -152,18 +206,32 @@ export function GameLayout({
                   currentGameMins={currentGameMins}
                   phase={phase}
                 />
+                {moderation && (
+                  <div className="pt-3">
+                    <PlayerList players={players} currentPlayerId={currentPlayerId} compact moderation={moderation} />
+                  </div>
+                )}
+                {review && (
+                  <div className="pt-3">
+                    <ReviewQueue headlines={headlines} compact {...review} />
+                  </div>
+                )}
               </div>
               <div className="shrink-0 pt-3 pb-[env(safe-area-inset-bottom)] space-y-2">
                 <InGameDate inGameNow={derivedInGameNow} />
-                <ScoreCard phase={phase} />
+                <ScoreCard phase={phase} scoring={scoring} riskMode={diceSettings.riskMode} />
               </div>
             </aside>
 
             <section className="flex flex-col min-h-0">
+              {catchUpCard && <div className="shrink-0 pb-3">{catchUpCard}</div>}
               <div className="flex-1 min-h-0 overflow-hidden">
                 <HeadlineFeed
                   headlines={headlines}
                   currentPlayerId={currentPlayerId}
+                  planets={planets}
+                  review={review}
+                  voting={voting}
                 />
               </div>
               {phase === 'TUTORIAL' && (
@@ -173,7 +241,7 @@ export function GameLayout({
               )}
               {phase === 'PLAYING' && (
                 <div className="shrink-0 pt-3 pb-[env(safe-area-inset-bottom)]">
-                  <HeadlineInput onSubmit={onSubmitHeadline} phase={phase} />
+                  <HeadlineInput onSubmit={onSubmitHeadline} phase={phase} dice={diceSettings} />
                 </div>
               )}
             </section>
@@ -182,7 +250,7 @@ export function GameLayout({
               {phase === 'BREAK' && roundSummary ? (
                 <RoundSummary summary={roundSummary} roundNo={currentRound} />
               ) : (
-                <PlanetUsagePanel panel={planetPanel} />
+                <PlanetUsagePanel panel={planetPanel} planets={planets} />
               )}
             </aside>
           </div>
@@ -191,10 +259,14 @@ export function GameLayout({
           <div className="lg:hidden flex flex-col h-full">
             <div className="flex-1 min-h-0 overflow-y-auto px-4 py-4 space-y-4">
               <InGameDate inGameNow={derivedInGameNow} />
-              {phase !== 'BREAK' && <PlanetUsagePanel panel={planetPanel} />}
+              {catchUpCard}
+              {phase !== 'BREAK' && <PlanetUsagePanel panel={planetPanel} planets={planets} />}
               <HeadlineFeed
                 headlines={headlines}
                 currentPlayerId={currentPlayerId}
+                planets={planets}
+                review={review}
+                voting={voting}
               />
               <ScoreBarChart
                 players={players}
@@ -203,6 +275,10 @@ export function GameLayout({
                 currentGameMins={currentGameMins}
                 phase={phase}
               />
+              {moderation && (
+                <PlayerList players={players} currentPlayerId={currentPlayerId} compact moderation={moderation} />
+              )}
+              {review && <ReviewQueue headlines={headlines} compact {...review} />}
               {phase === 'BREAK' && roundSummary && (
                 <RoundSummary summary={roundSummary} roundNo={currentRound} />
               )}
@@ -217,6 +293,7 @@ export function GameLayout({
                 <HeadlineInput
                   onSubmit={onSubmitHeadline}
                   phase={phase}
+                  dice={diceSettings}
                 />
               </div>
             )}
@@ -0,0 +1,171 @@
+import { useState } from 'react';
+
+/**
+ * host-configurable game settings sent with session creation.
+ * mirrors the backend's GameSettings; defaults reproduce the classic format.
+ */
+export interface GameSettings {
+  maxRounds: number;
+  playMinutes: number;
+  breakSchedule: number[];
+  summaryRounds: number[];
+  startYear: number | null;
+  totalYears: number;
+}
+
+export const DEFAULT_GAME_SETTINGS: GameSettings = {
+  maxRounds: 4,
+  playMinutes: 8,
+  breakSchedule: [3, 5, 3],
+  summaryRounds: [2],
+  startYear: null,
+  totalYears: 20,
+};
+
+interface GameSettingsFormProps {
+  settings: GameSettings;
+  onChange: (settings: GameSettings) => void;
+}
+
+const INPUT_CLASS =
+  'w-full px-2 py-1.5 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-400 focus:border-transparent bg-gray-50';
+const LABEL_CLASS = 'block text-xs font-medium text-gray-500 mb-1';
+
+/** resize the break schedule when the round count changes, keeping existing entries */
+function withRoundCount(settings: GameSettings, maxRounds: number): GameSettings {
+  const breakCount = Math.max(0, maxRounds - 1);
+  const breakSchedule = Array.from(
+    { length: breakCount },
+    (_, i) => settings.breakSchedule[i] ?? DEFAULT_GAME_SETTINGS.breakSchedule[i] ?? 3
+  );
+  return {
+    ...settings,
+    maxRounds,
+    breakSchedule,
+    summaryRounds: settings.summaryRounds.filter((r) => r <= breakCount),
+  };
+}
+
+export function GameSettingsForm({ settings, onChange }: GameSettingsFormProps) {
+  const [open, setOpen] = useState(false);
+
+  const toNumber = (value: string, fallback: number) => {
+    const n = parseInt(value, 10);
+    return Number.isNaN(n) ? fallback : n;
+  };
+
+  const toggleSummary = (roundNo: number) => {
+    const summaryRounds = settings.summaryRounds.includes(roundNo)
+      ? settings.summaryRounds.filter((r) => r !== roundNo)
+      : [...settings.summaryRounds, roundNo].sort((a, b) => a - b);
+    onChange({ ...settings, summaryRounds });
+  };
+
+  return (
+    <div className="border-t border-gray-100 pt-4">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between text-xs font-medium text-gray-500 uppercase tracking-wider"
+      >
+        <span>Game settings</span>
+        <span className="normal-case tracking-normal text-gray-400">
+          {settings.maxRounds} rounds · {settings.playMinutes} min · {settings.totalYears} yrs {open ? '▲' : '▼'}
+        </span>
+      </button>
+
+      {open && (
+        <div className="mt-3 space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={LABEL_CLASS}>Rounds</label>
+              <input
+                type="number"
+                min={1}
+                max={10}
+                value={settings.maxRounds}
+                onChange={(e) =>
+                  onChange(withRoundCount(settings, Math.min(10, Math.max(1, toNumber(e.target.value, settings.maxRounds)))))
+                }
+                className={INPUT_CLASS}
+              />
+            </div>
+            <div>
+              <label className={LABEL_CLASS}>Minutes per round</label>
+              <input
+                type="number"
+                min={1}
+                max={60}
+                value={settings.playMinutes}
+                onChange={(e) => onChange({ ...settings, playMinutes: toNumber(e.target.value, settings.playMinutes) })}
+                className={INPUT_CLASS}
+              />
+            </div>
+            <div>
+              <label className={LABEL_CLASS}>Start year</label>
+              <input
+                type="number"
+                min={1900}
+                max={2500}
+                value={settings.startYear ?? ''}
+                placeholder="Today"
+                onChange={(e) =>
+                  onChange({ ...settings, startYear: e.target.value === '' ? null : toNumber(e.target.value, 2025) })
+                }
+                className={INPUT_CLASS}
+              />
+            </div>
+            <div>
+              <label className={LABEL_CLASS}>Years spanned</label>
+              <input
+                type="number"
+                min={1}
+                max={200}
+                value={settings.totalYears}
+                onChange={(e) => onChange({ ...settings, totalYears: toNumber(e.target.value, settings.totalYears) })}
+                className={INPUT_CLASS}
+              />
+            </div>
+          </div>
+
+          {settings.breakSchedule.length > 0 && (
+            <div>
+              <p className={LABEL_CLASS}>Breaks (minutes · summary)</p>
+              <div className="space-y-1.5">
+                {settings.breakSchedule.map((minutes, i) => {
+                  const roundNo = i + 1;
+                  return (
+                    <div key={roundNo} className="flex items-center gap-2 text-xs text-gray-500">
+                      <span className="w-20 shrink-0">After round {roundNo}</span>
+                      <input
+                        type="number"
+                        min={1}
+                        max={30}
+                        value={minutes}
+                        onChange={(e) => {
+                          const breakSchedule = [...settings.breakSchedule];
+                          breakSchedule[i] = toNumber(e.target.value, minutes);
+                          onChange({ ...settings, breakSchedule });
+                        }}
+                        className={`${INPUT_CLASS} w-16`}
+                      />
+                      <label className="flex items-center gap-1">
+                        <input
+                          type="checkbox"
+                          checked={settings.summaryRounds.includes(roundNo)}
+                          onChange={() => toggleSummary(roundNo)}
+                          className="accent-indigo-500"
+                        />
+                        Summary
+                      </label>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ interface GameStatusProps {
   currentRound: number;
   maxRounds: number;
   phaseEndsAt: string | null;
+  pausedAt: string | null;
   serverNow: string;
   inGameNow: string | null;
 }
@@ -15,9 +16,10 @@ export function GameStatus({
   currentRound,
   maxRounds,
   phaseEndsAt,
+  pausedAt,
   serverNow,
 }: GameStatusProps) {
-  const { remainingFormatted } = usePhaseTimer({ phaseEndsAt, serverNow });
+  const { remainingFormatted } = usePhaseTimer({ phaseEndsAt, serverNow, pausedAt });
 
   const getPhaseLabel = () => {
     switch (phase) {
@@ -41,6 +43,7 @@ export function GameStatus({
   return (
     <div className="flex items-center gap-3 flex-wrap">
       <Badge variant={phaseLabel.variant}>{phaseLabel.text}</Badge>
+      {pausedAt && <Badge variant="red">Paused</Badge>}
 
       {(phase === 'PLAYING' || phase === 'BREAK') && currentRound > 0 && (
         <>
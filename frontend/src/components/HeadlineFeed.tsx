@@ -1,11 +1,18 @@
 import { useEffect, useRef, useState } from 'react';
 import { Headline } from '../hooks/useSocket';
 import { Card, SectionTitle } from './ui';
-import { PLANET_COLORS } from '../lib/planets';
+import { PlanetDefinition, planetColor as colorOf } from '../lib/planets';
+import { HeadlineReviewActions } from './ReviewQueue';
+import { HeadlineVoteActions, VoteKind } from '../lib/voting';
 
 interface HeadlineFeedProps {
   headlines: Headline[];
   currentPlayerId: string;
+  planets: PlanetDefinition[];
+  /** host-only: hide or correct any headline; the host also sees the hidden ones */
+  review?: HeadlineReviewActions;
+  /** during a break: upvote or star other players' headlines from the round */
+  voting?: HeadlineVoteActions;
 }
 
 // typography by plausibility band of the displayed variant: mundane/inevitable
@@ -18,7 +25,54 @@ const BAND_TEXT: Record<number, string> = {
   5: 'text-lg font-bold text-gray-900',
 };
 
-export function HeadlineFeed({ headlines, currentPlayerId }: HeadlineFeedProps) {
+const VOTE_KINDS: { kind: VoteKind; icon: string; label: string }[] = [
+  { kind: 'up', icon: '\u25B2', label: 'Upvote' },
+  { kind: 'star', icon: '\u2605', label: 'Front page star' },
+];
+
+/** the headline's vote tally; buttons while the player can vote on it */
+function VoteBar({ headline, voting }: { headline: Headline; voting?: HeadlineVoteActions }) {
+  const votes = headline.votes ?? { upvotes: 0, stars: 0, points: 0 };
+  const canVote = !!voting && voting.canVote(headline);
+  if (!canVote && votes.upvotes === 0 && votes.stars === 0) return null;
+
+  return (
+    <div className="flex items-center gap-1.5 mt-1.5 text-[11px]">
+      {VOTE_KINDS.map(({ kind, icon, label }) => {
+        const count = kind === 'up' ? votes.upvotes : votes.stars;
+        if (!canVote || !voting) {
+          return count > 0 ? (
+            <span key={kind} className={kind === 'star' ? 'text-amber-500' : 'text-gray-400'}>
+              {icon} {count}
+            </span>
+          ) : null;
+        }
+        const mine = headline.myVote === kind;
+        const points = kind === 'up' ? voting.policy.upvotePoints : voting.policy.starPoints;
+        const left = kind === 'up' ? voting.remaining.upvotes : voting.remaining.stars;
+        return (
+          <button
+            key={kind}
+            onClick={() => voting.onVote(headline.id, mine ? null : kind)}
+            disabled={!mine && left <= 0}
+            title={mine ? `Take back your ${label.toLowerCase()}` : `${label}: +${points} to the author (${left} left)`}
+            className={`px-1.5 py-0.5 rounded-full border transition-colors disabled:opacity-30 ${
+              mine
+                ? kind === 'star'
+                  ? 'bg-amber-100 border-amber-300 text-amber-700'
+                  : 'bg-indigo-100 border-indigo-300 text-indigo-700'
+                : 'bg-white border-gray-200 text-gray-500 hover:border-indigo-300'
+            }`}
+          >
+            {icon} {count}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+export function HeadlineFeed({ headlines, currentPlayerId, planets, review, voting }: HeadlineFeedProps) {
   const feedRef = useRef<HTMLDivElement>(null);
   // sticks to the bottom until the user manually scrolls up
   const followBottomRef = useRef(true);
@@ -60,7 +114,8 @@ export function HeadlineFeed({ headlines, currentPlayerId }: HeadlineFeedProps)
   };
 
   const handleCopy = async () => {
-    const formatted = headlines
+    const formatted = displayedHeadlines
+      .filter((h) => h.moderationStatus !== 'hidden')
       .map((h) => {
         const date = h.inGameSubmittedAt
           ? new Date(h.inGameSubmittedAt).toLocaleDateString('en-US', {
@@ -80,7 +135,10 @@ export function HeadlineFeed({ headlines, currentPlayerId }: HeadlineFeedProps)
     }
   };
 
-  const displayedHeadlines = headlines;
+  // hidden headlines stay visible, marked, to the host and their author only
+  const displayedHeadlines = headlines.filter(
+    (h) => h.moderationStatus !== 'hidden' || !!review || h.playerId === currentPlayerId
+  );
 
   if (displayedHeadlines.length === 0) {
     return (
@@ -146,10 +204,17 @@ export function HeadlineFeed({ headlines, currentPlayerId }: HeadlineFeedProps)
 
           const hasScore = headline.totalScore != null;
           const primaryPlanet = headline.planets?.[0];
-          const planetColor = !isArchive && primaryPlanet ? PLANET_COLORS[primaryPlanet] : null;
+          const planetColor = !isArchive ? colorOf(planets, primaryPlanet) : null;
 
           const planetBorder = planetColor ? `border-l-4 ${planetColor.borderL}` : '';
-          const bandText = headline.selectedBand
+          // not yet evaluated: show the raw story direction until the juror rules
+          const isPending = headline.llmStatus === 'pending';
+          const isQueued = headline.llmStatus === 'failed';
+          const isFlagged = headline.moderationStatus === 'flagged';
+          const isHidden = headline.moderationStatus === 'hidden';
+          const bandText = isPending || isQueued
+            ? 'text-sm italic text-gray-400'
+            : headline.selectedBand
             ? BAND_TEXT[headline.selectedBand] ?? 'text-sm font-medium text-gray-800'
             : 'text-sm text-gray-800';
 
@@ -169,6 +234,14 @@ export function HeadlineFeed({ headlines, currentPlayerId }: HeadlineFeedProps)
                   {headline.playerNickname}
                   {isArchive && <span className="text-amber-400">(history)</span>}
                   {!isArchive && isOwn && <span className="text-gray-400">(you)</span>}
+                  {isPending && <span className="text-gray-300 font-normal animate-pulse">juror deliberating&hellip;</span>}
+                  {isQueued && <span className="text-gray-300 font-normal">awaiting juror</span>}
+                  {isFlagged && (
+                    <span className="text-amber-500 font-normal" title={headline.moderationReason ?? undefined}>
+                      awaiting host review
+                    </span>
+                  )}
+                  {isHidden && <span className="text-red-400 font-normal">hidden by host</span>}
                   {planetColor && (
                     <span className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded-full text-[10px] font-semibold ${planetColor.bg} ${planetColor.text}`}>
                       <span className={`w-1.5 h-1.5 rounded-full ${planetColor.dot}`} />
@@ -176,22 +249,48 @@ export function HeadlineFeed({ headlines, currentPlayerId }: HeadlineFeedProps)
                     </span>
                   )}
                 </span>
-                <span className="text-[11px] font-semibold text-gray-600">
-                  R{headline.roundNo} &middot; {headline.inGameSubmittedAt
+                <span className="flex items-center gap-2 text-[11px] font-semibold text-gray-600">
+                  {review && !isArchive && (
+                    <span className="hidden group-hover:flex items-center gap-1.5 font-normal">
+                      {hasScore && (
+                        <button
+                          onClick={() => review.onOverride(headline)}
+                          className="text-gray-400 hover:text-indigo-500 transition-colors"
+                          title="Correct the juror's plausibility or planet"
+                        >
+                          correct
+                        </button>
+                      )}
+                      <button
+                        onClick={() => review.onReview(headline.id, isHidden ? 'approve' : 'hide')}
+                        className="text-gray-400 hover:text-red-500 transition-colors"
+                      >
+                        {isHidden ? 'restore' : 'hide'}
+                      </button>
+                    </span>
+                  )}
+                  <span>R{headline.roundNo} &middot; {headline.inGameSubmittedAt
                     ? new Date(headline.inGameSubmittedAt).toLocaleDateString('en-US', { month: 'long', year: 'numeric' })
-                    : ''}
+                    : ''}</span>
                 </span>
               </div>
-              <p className={`${bandText} leading-relaxed`}>
+              <p className={`${bandText} leading-relaxed ${isHidden ? 'line-through opacity-50' : ''}`}>
                 &ldquo;{headline.text}&rdquo;
               </p>
+              <VoteBar headline={headline} voting={voting} />
               {hasScore && (
                 <div className="absolute right-2 bottom-2 hidden group-hover:flex items-center gap-2 px-2 py-1 rounded-md bg-white/95 shadow-sm border border-gray-200 text-[10px] z-10 pointer-events-none">
                   <span className="text-gray-400">+{headline.baselineScore}</span>
                   <span className="text-indigo-500">+{headline.plausibilityScore} plaus</span>
                   <span className="text-emerald-500">+{headline.connectionScore} conn</span>
                   <span className="text-violet-500">+{headline.planetBonusScore} planet</span>
+                  {!!headline.riskBonusScore && (
+                    <span className="text-fuchsia-500">+{headline.riskBonusScore} risk</span>
+                  )}
                   <span className="font-semibold text-gray-600 ml-1">= {headline.totalScore}</span>
+                  {!!headline.votes?.points && (
+                    <span className="text-amber-500">&middot; +{headline.votes.points} people&rsquo;s choice</span>
+                  )}
                 </div>
               )}
             </div>
@@ -1,17 +1,34 @@
 import { useState, useEffect, useRef } from 'react';
 import { Button } from './ui';
+import { BAND_LABELS, DICE_PRESET_NAMES, DiceSettings, RISK_BIAS } from '../lib/dice';
+import { PlausibilityLevel } from '../lib/scoring';
+
+const BANDS: PlausibilityLevel[] = [1, 2, 3, 4, 5];
 
 interface HeadlineInputProps {
-  onSubmit: (headline: string) => Promise<{ success: boolean; error?: string; cooldownMs?: number }>;
+  onSubmit: (
+    headline: string,
+    targetBand: PlausibilityLevel | null
+  ) => Promise<{ success: boolean; error?: string; cooldownMs?: number; moderation?: { status: string } }>;
   disabled?: boolean;
   phase: string;
+  /** the session's dice odds; in risk mode the player can bet on a band */
+  dice: DiceSettings;
+}
+
+/** the active odds, e.g. "Chaos: 5/15/30/25/25%" */
+function oddsLabel(dice: DiceSettings): string {
+  const name = DICE_PRESET_NAMES[dice.preset] ?? dice.preset;
+  return `${name}${dice.tuned ? ' (adjusted)' : ''}: ${dice.weights.join('/')}%`;
 }
 
-export function HeadlineInput({ onSubmit, disabled = false, phase }: HeadlineInputProps) {
+export function HeadlineInput({ onSubmit, disabled = false, phase, dice }: HeadlineInputProps) {
   const [headline, setHeadline] = useState('');
+  const [targetBand, setTargetBand] = useState<PlausibilityLevel | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [cooldownMs, setCooldownMs] = useState(0);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
   const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
   useEffect(() => {
@@ -50,12 +67,14 @@ export function HeadlineInput({ onSubmit, disabled = false, phase }: HeadlineInp
 
     setIsSubmitting(true);
     setError(null);
+    setNotice(null);
 
     try {
-      const result = await onSubmit(headline.trim());
+      const result = await onSubmit(headline.trim(), dice.riskMode ? targetBand : null);
       if (result.success) {
         setHeadline('');
         if (result.cooldownMs) setCooldownMs(result.cooldownMs);
+        if (result.moderation?.status === 'flagged') setNotice('Only you and the host see this until the host reviews it');
       } else {
         setError(result.error || 'Failed to submit headline');
         if (result.cooldownMs) setCooldownMs(result.cooldownMs);
@@ -103,6 +122,28 @@ export function HeadlineInput({ onSubmit, disabled = false, phase }: HeadlineInp
         </Button>
       </form>
 
+      <div className="flex items-center gap-2 mt-1.5 px-1 text-[11px] text-gray-400">
+        <span title="Chance of each band, inevitable to preposterous">Dice {oddsLabel(dice)}</span>
+        {dice.riskMode && (
+          <label className="flex items-center gap-1 ml-auto">
+            Bet on
+            <select
+              value={targetBand ?? ''}
+              onChange={(e) => setTargetBand(e.target.value ? (Number(e.target.value) as PlausibilityLevel) : null)}
+              disabled={!isPlaying || disabled || isSubmitting}
+              className="px-1 py-0.5 border border-gray-200 rounded bg-gray-50 text-[11px] text-gray-600"
+            >
+              <option value="">no band</option>
+              {BANDS.map((band) => (
+                <option key={band} value={band}>
+                  {band} {BAND_LABELS[band]} ({Math.min(100, dice.weights[band - 1] * RISK_BIAS)}%)
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+
       <div className="flex items-center justify-between mt-1.5 px-1">
         <span className="text-[11px] text-gray-300">{headline.length}/280</span>
         {cooldownMs > 0 && (
@@ -113,6 +154,9 @@ export function HeadlineInput({ onSubmit, disabled = false, phase }: HeadlineInp
         {error && (
           <span className="text-[11px] text-red-500">{error}</span>
         )}
+        {notice && !error && (
+          <span className="text-[11px] text-amber-500">{notice}</span>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { Button } from './ui';
+
+interface HostControlsProps {
+  phase: string;
+  pausedAt: string | null;
+  onPause: () => Promise<boolean>;
+  onResume: () => Promise<boolean>;
+  onExtend: (minutes: number) => Promise<boolean>;
+  onSkip: () => Promise<boolean>;
+  /** set while new players are refused */
+  joinLocked: boolean;
+  onSetJoinLocked: (locked: boolean) => Promise<boolean>;
+}
+
+const PHASE_NAMES: Record<string, string> = {
+  TUTORIAL: 'prologue',
+  PLAYING: 'round',
+  BREAK: 'break',
+};
+
+/**
+ * host-only header controls for the running game loop:
+ * pause/resume, add a minute to the current phase, skip to the next one, or
+ * lock the game against late joiners.
+ */
+export function HostControls({
+  phase,
+  pausedAt,
+  onPause,
+  onResume,
+  onExtend,
+  onSkip,
+  joinLocked,
+  onSetJoinLocked,
+}: HostControlsProps) {
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: () => Promise<boolean>) => {
+    setBusy(true);
+    try {
+      await action();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSkip = () => {
+    const phaseName = PHASE_NAMES[phase] ?? 'phase';
+    if (window.confirm(`End the current ${phaseName} now?`)) {
+      run(onSkip);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1.5">
+      {pausedAt ? (
+        <Button size="sm" onClick={() => run(onResume)} disabled={busy}>
+          Resume
+        </Button>
+      ) : (
+        <Button size="sm" variant="secondary" onClick={() => run(onPause)} disabled={busy}>
+          Pause
+        </Button>
+      )}
+      <Button size="sm" variant="ghost" onClick={() => run(() => onExtend(1))} disabled={busy} title="Add one minute">
+        +1 min
+      </Button>
+      <Button size="sm" variant="ghost" onClick={handleSkip} disabled={busy}>
+        Skip
+      </Button>
+      <Button
+        size="sm"
+        variant="ghost"
+        onClick={() => run(() => onSetJoinLocked(!joinLocked))}
+        disabled={busy}
+        title={joinLocked ? 'New players are refused' : 'Refuse new players'}
+      >
+        {joinLocked ? 'Unlock' : 'Lock'}
+      </Button>
+    </div>
+  );
+}
@@ -3,6 +3,13 @@ import { GameLayout } from './GameLayout';
 import { Card, Button } from './ui';
 import { Headline, RoundSummary as RoundSummaryType, FinalSummary } from '../hooks/useSocket';
 import { useGameTimeProgress } from '../hooks/useGameTimeProgress';
+import { HostControls } from './HostControls';
+import { PlanetDefinition } from '../lib/planets';
+import { PlausibilityLevel, SessionScoring } from '../lib/scoring';
+import { DiceSettings } from '../lib/dice';
+import { HeadlineVoteActions } from '../lib/voting';
+import { PlayerModerationActions } from './PlayerList';
+import { HeadlineReviewActions } from './ReviewQueue';
 
 interface HostLobbyProps {
   joinCode: string;
@@ -14,15 +21,41 @@ interface HostLobbyProps {
   playMinutes: number;
   phaseStartedAt: string | null;
   phaseEndsAt: string | null;
+  pausedAt: string | null;
   serverNow: string;
   inGameNow: string | null;
   timelineSpeedRatio: number;
+  totalYears: number;
+  planets: PlanetDefinition[];
+  scoring: SessionScoring;
+  diceSettings: DiceSettings;
+  scenarioName: string;
+  recoveryCode?: string;
+  /** opens the read-only projector view; null until loaded */
+  spectatorCode: string | null;
+  onResetSpectatorCode: () => void;
+  /** set while new players are refused */
+  joinLocked: boolean;
+  onSetJoinLocked: (locked: boolean) => Promise<boolean>;
+  /** team names in a team game, empty otherwise */
+  teams: string[];
+  onBalanceTeams: () => Promise<boolean>;
   headlines: Headline[];
   roundSummary: RoundSummaryType | null;
   finalSummary: FinalSummary | null;
+  catchUpSummary: RoundSummaryType | null;
+  onDismissCatchUp: () => void;
   onStartGame: () => void;
+  moderation: PlayerModerationActions;
+  review: HeadlineReviewActions;
+  /** set during a break of a game with voting on */
+  voting?: HeadlineVoteActions;
+  onPauseGame: () => Promise<boolean>;
+  onResumeGame: () => Promise<boolean>;
+  onExtendPhase: (minutes: number) => Promise<boolean>;
+  onSkipPhase: () => Promise<boolean>;
   onBack: () => void;
-  onSubmitHeadline: (headline: string) => Promise<{ success: boolean; error?: string; cooldownMs?: number }>;
+  onSubmitHeadline: (headline: string, targetBand: PlausibilityLevel | null) => Promise<{ success: boolean; error?: string; cooldownMs?: number; moderation?: { status: string } }>;
 }
 
 export function HostLobby({
@@ -35,17 +68,40 @@ export function HostLobby({
   playMinutes,
   phaseStartedAt,
   phaseEndsAt,
+  pausedAt,
   serverNow,
   inGameNow,
   timelineSpeedRatio,
+  totalYears,
+  planets,
+  scoring,
+  diceSettings,
+  scenarioName,
+  recoveryCode,
+  spectatorCode,
+  onResetSpectatorCode,
+  joinLocked,
+  onSetJoinLocked,
+  teams,
+  onBalanceTeams,
   headlines,
   roundSummary,
   finalSummary,
+  catchUpSummary,
+  onDismissCatchUp,
   onStartGame,
+  moderation,
+  review,
+  voting,
+  onPauseGame,
+  onResumeGame,
+  onExtendPhase,
+  onSkipPhase,
   onBack,
   onSubmitHeadline,
 }: HostLobbyProps) {
   const [copied, setCopied] = useState(false);
+  const [projectorCopied, setProjectorCopied] = useState(false);
 
   const { totalGameMins, currentGameMins } = useGameTimeProgress({
     phase,
@@ -54,6 +110,7 @@ export function HostLobby({
     playMinutes,
     phaseStartedAt,
     serverNow,
+    pausedAt,
   });
 
   const currentPlayer = players.find((p) => p.id === currentPlayerId);
@@ -68,11 +125,21 @@ export function HostLobby({
     setTimeout(() => setCopied(false), 2000);
   };
 
+  const projectorLink = spectatorCode ? `${window.location.origin}/watch/${spectatorCode}` : null;
+
+  const copyProjectorLink = () => {
+    if (!projectorLink) return;
+    navigator.clipboard.writeText(projectorLink);
+    setProjectorCopied(true);
+    setTimeout(() => setProjectorCopied(false), 2000);
+  };
+
   const lobbyContent = (
     <>
       <div className="text-center space-y-1">
         <h1 className="text-3xl font-bold text-gray-900">Game Lobby</h1>
         <p className="text-sm text-gray-500">Share the invite link with players</p>
+        <p className="text-xs text-gray-400">Scenario: {scenarioName}</p>
       </div>
 
       <Card padding="lg" className="text-center space-y-3">
@@ -80,13 +147,49 @@ export function HostLobby({
         <span className="text-4xl font-mono font-bold text-indigo-600 tracking-widest block">
           {joinCode}
         </span>
-        <div className="pt-2 border-t border-gray-100">
-          <Button variant="secondary" size="sm" onClick={copyInviteLink}>
+        <div className="pt-2 border-t border-gray-100 flex justify-center gap-2">
+          <Button variant="secondary" size="sm" onClick={copyInviteLink} disabled={joinLocked}>
             {copied ? 'Link Copied!' : 'Copy Invite Link'}
           </Button>
+          <Button variant="ghost" size="sm" onClick={() => onSetJoinLocked(!joinLocked)}>
+            {joinLocked ? 'Unlock' : 'Lock'}
+          </Button>
         </div>
+        {joinLocked && <p className="text-xs text-gray-400">Locked: new players can't join.</p>}
       </Card>
 
+      {teams.length > 0 && (
+        <Card padding="md" className="text-center space-y-2">
+          <p className="text-xs text-gray-400 uppercase tracking-wider">Teams</p>
+          <p className="text-xs text-gray-500">
+            {teams.join(' · ')}. New players join the smallest team; move players from their menu in the list.
+          </p>
+          <Button variant="secondary" size="sm" onClick={onBalanceTeams} disabled={players.length < 2}>
+            Shuffle into even teams
+          </Button>
+        </Card>
+      )}
+
+      {projectorLink && (
+        <Card padding="md" className="text-center space-y-2">
+          <p className="text-xs text-gray-400 uppercase tracking-wider">Projector</p>
+          <p className="text-xs text-gray-500">
+            A read-only big-screen view. It doesn't join as a player, so don't share it as an invite.
+          </p>
+          <div className="flex justify-center gap-2">
+            <Button variant="secondary" size="sm" onClick={copyProjectorLink}>
+              {projectorCopied ? 'Link Copied!' : 'Copy Projector Link'}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => window.open(projectorLink, '_blank')}>
+              Open
+            </Button>
+            <Button variant="ghost" size="sm" onClick={onResetSpectatorCode}>
+              Reset
+            </Button>
+          </div>
+        </Card>
+      )}
+
       <Button
         fullWidth
         size="lg"
@@ -111,19 +214,42 @@ export function HostLobby({
       currentRound={currentRound}
       maxRounds={maxRounds}
       phaseEndsAt={phaseEndsAt}
+      pausedAt={pausedAt}
       serverNow={serverNow}
       inGameNow={inGameNow}
       timelineSpeedRatio={timelineSpeedRatio}
+      totalYears={totalYears}
       headlines={headlines}
       roundSummary={roundSummary}
       finalSummary={finalSummary}
+      catchUpSummary={catchUpSummary}
+      onDismissCatchUp={onDismissCatchUp}
       planetPanel={planetPanel}
+      planets={planets}
+      scoring={scoring}
+      diceSettings={diceSettings}
       myScore={myScore}
       totalGameMins={totalGameMins}
       currentGameMins={currentGameMins}
       onSubmitHeadline={onSubmitHeadline}
       onBack={onBack}
+      recoveryCode={recoveryCode}
+      moderation={moderation}
+      review={review}
+      voting={voting}
       lobbyContent={lobbyContent}
+      hostControls={
+        <HostControls
+          phase={phase}
+          pausedAt={pausedAt}
+          onPause={onPauseGame}
+          onResume={onResumeGame}
+          onExtend={onExtendPhase}
+          onSkip={onSkipPhase}
+          joinLocked={joinLocked}
+          onSetJoinLocked={onSetJoinLocked}
+        />
+      }
     />
   );
 }
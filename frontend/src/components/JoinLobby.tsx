@@ -2,6 +2,10 @@ import { GameLayout } from './GameLayout';
 import { Card } from './ui';
 import { Headline, RoundSummary as RoundSummaryType, FinalSummary } from '../hooks/useSocket';
 import { useGameTimeProgress } from '../hooks/useGameTimeProgress';
+import { PlanetDefinition } from '../lib/planets';
+import { PlausibilityLevel, SessionScoring } from '../lib/scoring';
+import { DiceSettings } from '../lib/dice';
+import { HeadlineVoteActions } from '../lib/voting';
 
 interface JoinLobbyProps {
   joinCode: string;
@@ -14,14 +18,25 @@ interface JoinLobbyProps {
   playMinutes: number;
   phaseStartedAt: string | null;
   phaseEndsAt: string | null;
+  pausedAt: string | null;
   serverNow: string;
   inGameNow: string | null;
   timelineSpeedRatio: number;
+  totalYears: number;
+  planets: PlanetDefinition[];
+  scoring: SessionScoring;
+  diceSettings: DiceSettings;
+  scenarioName: string;
+  recoveryCode?: string;
   headlines: Headline[];
   roundSummary: RoundSummaryType | null;
   finalSummary: FinalSummary | null;
+  catchUpSummary: RoundSummaryType | null;
+  onDismissCatchUp: () => void;
+  /** set during a break of a game with voting on */
+  voting?: HeadlineVoteActions;
   onBack: () => void;
-  onSubmitHeadline: (headline: string) => Promise<{ success: boolean; error?: string; cooldownMs?: number }>;
+  onSubmitHeadline: (headline: string, targetBand: PlausibilityLevel | null) => Promise<{ success: boolean; error?: string; cooldownMs?: number; moderation?: { status: string } }>;
 }
 
 export function JoinLobby({
@@ -35,12 +50,22 @@ export function JoinLobby({
   playMinutes,
   phaseStartedAt,
   phaseEndsAt,
+  pausedAt,
   serverNow,
   inGameNow,
   timelineSpeedRatio,
+  totalYears,
+  planets,
+  scoring,
+  diceSettings,
+  scenarioName,
+  recoveryCode,
   headlines,
   roundSummary,
   finalSummary,
+  catchUpSummary,
+  onDismissCatchUp,
+  voting,
   onBack,
   onSubmitHeadline,
 }: JoinLobbyProps) {
@@ -55,6 +80,7 @@ export function JoinLobby({
     playMinutes,
     phaseStartedAt,
     serverNow,
+    pausedAt,
   });
 
   const lobbyContent = (
@@ -64,6 +90,7 @@ export function JoinLobby({
         <p className="text-sm text-gray-500">
           Session <span className="font-mono font-semibold">{joinCode}</span>
         </p>
+        <p className="text-xs text-gray-400">Scenario: {scenarioName}</p>
       </div>
 
       <Card padding="lg" className="text-center space-y-2">
@@ -93,18 +120,27 @@ export function JoinLobby({
       currentRound={currentRound}
       maxRounds={maxRounds}
       phaseEndsAt={phaseEndsAt}
+      pausedAt={pausedAt}
       serverNow={serverNow}
       inGameNow={inGameNow}
       timelineSpeedRatio={timelineSpeedRatio}
+      totalYears={totalYears}
       headlines={headlines}
       roundSummary={roundSummary}
       finalSummary={finalSummary}
+      catchUpSummary={catchUpSummary}
+      onDismissCatchUp={onDismissCatchUp}
       planetPanel={planetPanel}
+      planets={planets}
+      scoring={scoring}
+      diceSettings={diceSettings}
       myScore={myScore}
       totalGameMins={totalGameMins}
       currentGameMins={currentGameMins}
       onSubmitHeadline={onSubmitHeadline}
+      voting={voting}
       onBack={onBack}
+      recoveryCode={recoveryCode}
       lobbyContent={lobbyContent}
     />
   );
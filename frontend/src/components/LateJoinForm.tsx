@@ -0,0 +1,50 @@
+/** mirrors the backend's LateJoinPolicy */
+export type CatchUpMode = 'none' | 'lowest' | 'average';
+
+export interface LateJoinPolicy {
+  allowed: boolean;
+  catchUp: CatchUpMode;
+}
+
+export const DEFAULT_LATE_JOIN_POLICY: LateJoinPolicy = { allowed: false, catchUp: 'none' };
+
+const CATCH_UP_MODES: { value: CatchUpMode; label: string }[] = [
+  { value: 'none', label: 'Start at 0' },
+  { value: 'lowest', label: 'Start level with the lowest score' },
+  { value: 'average', label: 'Start at the average score' },
+];
+
+interface LateJoinFormProps {
+  value: LateJoinPolicy;
+  onChange: (value: LateJoinPolicy) => void;
+}
+
+/** whether players can join a game in progress, and what score they start with */
+export function LateJoinForm({ value, onChange }: LateJoinFormProps) {
+  return (
+    <div className="border-t border-gray-100 pt-4 space-y-2">
+      <label className="flex items-center gap-2 text-sm text-gray-600">
+        <input
+          type="checkbox"
+          checked={value.allowed}
+          onChange={(e) => onChange({ ...value, allowed: e.target.checked })}
+          className="accent-indigo-500"
+        />
+        Let players join after the game has started
+      </label>
+      {value.allowed && (
+        <select
+          value={value.catchUp}
+          onChange={(e) => onChange({ ...value, catchUp: e.target.value as CatchUpMode })}
+          className="w-full px-2 py-1.5 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-400 focus:border-transparent bg-gray-50"
+        >
+          {CATCH_UP_MODES.map((mode) => (
+            <option key={mode.value} value={mode.value}>
+              {mode.label}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+/** mirrors the backend's ModerationStrictness */
+export type ModerationStrictness = 'off' | 'relaxed' | 'standard' | 'strict';
+
+export const DEFAULT_MODERATION_STRICTNESS: ModerationStrictness = 'standard';
+
+const LEVELS: { value: ModerationStrictness; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'relaxed', label: 'Relaxed: hold only the worst for review' },
+  { value: 'standard', label: 'Standard: refuse the worst, review crude ones' },
+  { value: 'strict', label: 'Strict: refuse anything crude' },
+];
+
+interface ModerationFormProps {
+  value: ModerationStrictness;
+  onChange: (value: ModerationStrictness) => void;
+}
+
+/** content filter strictness for session creation */
+export function ModerationForm({ value, onChange }: ModerationFormProps) {
+  return (
+    <div className="border-t border-gray-100 pt-4">
+      <label className="block text-xs font-medium text-gray-500 uppercase tracking-wider mb-1.5">
+        Content filter
+      </label>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value as ModerationStrictness)}
+        className="w-full px-2 py-1.5 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-400 focus:border-transparent bg-gray-50"
+      >
+        {LEVELS.map((level) => (
+          <option key={level.value} value={level.value}>
+            {level.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
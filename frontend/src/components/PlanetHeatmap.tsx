@@ -0,0 +1,75 @@
+import { Card, SectionTitle } from './ui';
+import { Headline } from '../hooks/useSocket';
+import { PlanetDefinition, planetColor } from '../lib/planets';
+
+interface PlanetHeatmapProps {
+  headlines: Headline[];
+  planets: PlanetDefinition[];
+  maxRounds: number;
+}
+
+/**
+ * planets by round: how often each planet was a scored headline's primary
+ * planet, darker for more. seed (Archive) headlines have no planets.
+ */
+export function PlanetHeatmap({ headlines, planets, maxRounds }: PlanetHeatmapProps) {
+  const rounds = Array.from({ length: maxRounds }, (_, i) => i + 1);
+
+  const counts = new Map<string, number[]>(planets.map((p) => [p.id, rounds.map(() => 0)]));
+  for (const headline of headlines) {
+    const primary = headline.planets?.[0];
+    const row = primary ? counts.get(primary) : undefined;
+    if (!row || headline.moderationStatus === 'hidden' || headline.totalScore == null) continue;
+    const round = Math.min(Math.max(headline.roundNo, 1), maxRounds);
+    row[round - 1] += 1;
+  }
+  const highest = Math.max(1, ...Array.from(counts.values()).flat());
+
+  return (
+    <Card padding="sm">
+      <SectionTitle>Planet Usage</SectionTitle>
+      <table className="w-full border-separate border-spacing-1 text-xs">
+        <thead>
+          <tr>
+            <th />
+            {rounds.map((round) => (
+              <th key={round} className="font-medium text-gray-400">
+                R{round}
+              </th>
+            ))}
+            <th className="font-medium text-gray-400">&Sigma;</th>
+          </tr>
+        </thead>
+        <tbody>
+          {planets.map((planet) => {
+            const row = counts.get(planet.id) ?? [];
+            const color = planetColor(planets, planet.id);
+            return (
+              <tr key={planet.id}>
+                <td className={`pr-1 font-semibold whitespace-nowrap ${color?.text ?? 'text-gray-700'}`}>
+                  {planet.id}
+                </td>
+                {row.map((count, i) => (
+                  <td key={i} className="relative h-7 rounded bg-gray-50">
+                    {count > 0 && (
+                      <div
+                        className={`absolute inset-0 rounded ${color?.dot ?? 'bg-gray-400'}`}
+                        style={{ opacity: 0.2 + 0.8 * (count / highest) }}
+                      />
+                    )}
+                    <span className="relative block text-center font-semibold text-gray-800 tabular-nums">
+                      {count > 0 ? count : ''}
+                    </span>
+                  </td>
+                ))}
+                <td className="text-center font-semibold text-gray-500 tabular-nums">
+                  {row.reduce((sum, count) => sum + count, 0)}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </Card>
+  );
+}
@@ -0,0 +1,212 @@
+import { useEffect, useState } from 'react';
+import {
+  PlanetPack,
+  PlanetSetChoice,
+  PLANET_PALETTE,
+  PLANET_COLOR_NAMES,
+  MIN_PLANETS,
+  MAX_PLANETS,
+} from '../lib/planets';
+
+const API_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001';
+
+const CUSTOM = 'custom';
+const SCENARIO = '';
+
+interface PlanetSetFormProps {
+  /** null plays the scenario's own planets */
+  value: PlanetSetChoice | null;
+  onChange: (value: PlanetSetChoice | null) => void;
+  /** planet pack of the selected scenario, for the summary line */
+  scenarioPack?: string;
+}
+
+/** a custom planet being edited; tags stay as typed until sent */
+interface DraftPlanet {
+  id: string;
+  description: string;
+  tagsText: string;
+  color: string;
+}
+
+const INPUT_CLASS =
+  'w-full px-2 py-1.5 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-400 focus:border-transparent bg-gray-50';
+const LABEL_CLASS = 'block text-xs font-medium text-gray-500 mb-1';
+
+function toChoice(drafts: DraftPlanet[]): PlanetSetChoice {
+  return {
+    planets: drafts.map((d) => ({
+      id: d.id.trim().toUpperCase(),
+      description: d.description.trim(),
+      tags: d.tagsText.split(',').map((t) => t.trim()).filter(Boolean),
+      color: d.color,
+    })),
+  };
+}
+
+/**
+ * planet set picker for session creation: the scenario's planets, a built-in
+ * pack, or the host's own planets (starting from a copy of the selected pack).
+ */
+export function PlanetSetForm({ value, onChange, scenarioPack }: PlanetSetFormProps) {
+  const [open, setOpen] = useState(false);
+  const [packs, setPacks] = useState<PlanetPack[]>([]);
+  const [drafts, setDrafts] = useState<DraftPlanet[]>([]);
+
+  useEffect(() => {
+    fetch(`${API_URL}/api/planet-packs`)
+      .then((res) => res.json())
+      .then((data) => setPacks(data.packs ?? []))
+      .catch((err) => console.error('Failed to load planet packs:', err));
+  }, []);
+
+  const selected = value === null ? SCENARIO : 'pack' in value ? value.pack : CUSTOM;
+  const shownPackId = selected === SCENARIO ? scenarioPack : selected;
+  const selectedPack = packs.find((p) => p.id === shownPackId);
+  const summary =
+    selected === CUSTOM
+      ? `custom · ${drafts.length} planets`
+      : selected === SCENARIO
+        ? selectedPack
+          ? `scenario's · ${selectedPack.name}`
+          : "scenario's planets"
+        : selectedPack?.name ?? selected;
+
+  const updateDrafts = (next: DraftPlanet[]) => {
+    setDrafts(next);
+    onChange(toChoice(next));
+  };
+
+  const selectPack = (id: string) => {
+    if (id === SCENARIO) {
+      onChange(null);
+      return;
+    }
+    if (id !== CUSTOM) {
+      onChange({ pack: id });
+      return;
+    }
+    // start the custom set from whatever pack was showing
+    const base = selectedPack?.planets ?? [];
+    updateDrafts(
+      base.map((p) => ({ id: p.id, description: p.description, tagsText: p.tags.join(', '), color: p.color }))
+    );
+  };
+
+  const updateDraft = (index: number, patch: Partial<DraftPlanet>) => {
+    updateDrafts(drafts.map((d, i) => (i === index ? { ...d, ...patch } : d)));
+  };
+
+  const addDraft = () => {
+    const used = new Set(drafts.map((d) => d.color));
+    const color = PLANET_COLOR_NAMES.find((c) => !used.has(c)) ?? PLANET_COLOR_NAMES[0];
+    updateDrafts([...drafts, { id: '', description: '', tagsText: '', color }]);
+  };
+
+  return (
+    <div className="border-t border-gray-100 pt-4">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between text-xs font-medium text-gray-500 uppercase tracking-wider"
+      >
+        <span>Planets</span>
+        <span className="normal-case tracking-normal text-gray-400">
+          {summary} {open ? '▲' : '▼'}
+        </span>
+      </button>
+
+      {open && (
+        <div className="mt-3 space-y-3">
+          <div>
+            <label className={LABEL_CLASS}>Planet pack</label>
+            <select value={selected} onChange={(e) => selectPack(e.target.value)} className={INPUT_CLASS}>
+              <option value={SCENARIO}>Scenario's planets</option>
+              {packs.map((pack) => (
+                <option key={pack.id} value={pack.id}>
+                  {pack.name} ({pack.planets.length})
+                </option>
+              ))}
+              <option value={CUSTOM}>Custom…</option>
+            </select>
+          </div>
+
+          {selected !== CUSTOM && selectedPack && (
+            <div className="flex flex-wrap gap-1">
+              {selectedPack.planets.map((planet) => (
+                <span
+                  key={planet.id}
+                  title={planet.description}
+                  className={`text-[10px] font-semibold px-1.5 py-0.5 rounded ${PLANET_PALETTE[planet.color]?.bg ?? ''} ${PLANET_PALETTE[planet.color]?.text ?? 'text-gray-700'}`}
+                >
+                  {planet.id}
+                </span>
+              ))}
+            </div>
+          )}
+
+          {selected === CUSTOM && (
+            <div className="space-y-2 max-h-72 overflow-y-auto pr-1">
+              {drafts.map((draft, i) => (
+                <div key={i} className="space-y-1 rounded-lg border border-gray-100 p-2">
+                  <div className="flex items-center gap-1.5">
+                    <span className={`w-2 h-2 rounded-full shrink-0 ${PLANET_PALETTE[draft.color]?.dot ?? 'bg-gray-300'}`} />
+                    <input
+                      type="text"
+                      value={draft.id}
+                      placeholder="ID"
+                      maxLength={24}
+                      onChange={(e) => updateDraft(i, { id: e.target.value })}
+                      className={`${INPUT_CLASS} uppercase`}
+                    />
+                    <select
+                      value={draft.color}
+                      onChange={(e) => updateDraft(i, { color: e.target.value })}
+                      className={`${INPUT_CLASS} w-24`}
+                    >
+                      {PLANET_COLOR_NAMES.map((c) => (
+                        <option key={c} value={c}>{c}</option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => updateDrafts(drafts.filter((_, j) => j !== i))}
+                      disabled={drafts.length <= MIN_PLANETS}
+                      className="text-xs text-gray-400 hover:text-red-500 disabled:opacity-30 px-1"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                  <input
+                    type="text"
+                    value={draft.description}
+                    placeholder="What headlines belong here?"
+                    maxLength={400}
+                    onChange={(e) => updateDraft(i, { description: e.target.value })}
+                    className={INPUT_CLASS}
+                  />
+                  <input
+                    type="text"
+                    value={draft.tagsText}
+                    placeholder="Tags, comma separated"
+                    onChange={(e) => updateDraft(i, { tagsText: e.target.value })}
+                    className={INPUT_CLASS}
+                  />
+                </div>
+              ))}
+              {drafts.length < MAX_PLANETS && (
+                <button
+                  type="button"
+                  onClick={addDraft}
+                  className="text-xs font-medium text-indigo-500 hover:text-indigo-600"
+                >
+                  + Add planet
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,10 @@
 import { Card, SectionTitle } from './ui';
 import { PlanetPanelEntry } from '../hooks/useSocket';
-import { PLANET_TAGS, PLANET_COLORS } from '../lib/planets';
+import { PlanetDefinition, findPlanet, planetColor } from '../lib/planets';
 
 interface PlanetUsagePanelProps {
   panel: PlanetPanelEntry[] | null;
+  planets: PlanetDefinition[];
 }
 
 const BAND_META: Record<number, { points: string; label: string; pill: string }> = {
@@ -17,7 +18,7 @@ const BAND_META: Record<number, { points: string; label: string; pill: string }>
  * split into three scoring bands (+2 / +1 / +0). each row shows the planet name,
  * its keywords, and its global usage count.
  */
-export function PlanetUsagePanel({ panel }: PlanetUsagePanelProps) {
+export function PlanetUsagePanel({ panel, planets }: PlanetUsagePanelProps) {
   if (!panel || panel.length === 0) {
     return null;
   }
@@ -27,8 +28,8 @@ export function PlanetUsagePanel({ panel }: PlanetUsagePanelProps) {
       <SectionTitle>Planet Usage</SectionTitle>
       <div className="space-y-1 overflow-y-auto min-h-0">
         {panel.map((entry, i) => {
-          const color = PLANET_COLORS[entry.id];
-          const tags = PLANET_TAGS[entry.id] ?? [];
+          const color = planetColor(planets, entry.id);
+          const tags = findPlanet(planets, entry.id)?.tags ?? [];
           const band = BAND_META[entry.band] ?? BAND_META[0];
           // band-group header before the first planet of each band
           const showHeader = i === 0 || panel[i - 1].band !== entry.band;
@@ -1,3 +1,4 @@
+import { useState } from 'react';
 import { Card, SectionTitle, Badge } from './ui';
 
 interface Player {
@@ -5,16 +6,42 @@ interface Player {
   nickname: string;
   isHost: boolean;
   joinedAt: string;
+  mutedUntil?: string | null;
+  team?: string | null;
   totalScore?: number;
 }
 
+/** host-only actions on another player */
+export interface PlayerModerationActions {
+  onRename: (playerId: string) => void;
+  onMute: (playerId: string) => void;
+  onUnmute: (playerId: string) => void;
+  onMakeHost: (playerId: string) => void;
+  /** revoke their sign-in so a lost or hijacked device drops out */
+  onSignOut: (playerId: string) => void;
+  onKick: (playerId: string, ban: boolean) => void;
+  /** in the lobby of a team game: the teams a player can be moved to */
+  teams?: string[];
+  onSetTeam?: (playerId: string, team: string) => void;
+}
+
 interface PlayerListProps {
   players: Player[];
   currentPlayerId?: string;
   compact?: boolean;
+  moderation?: PlayerModerationActions;
 }
 
-export function PlayerList({ players, currentPlayerId, compact = false }: PlayerListProps) {
+const isMuted = (player: Player) => !!player.mutedUntil && new Date(player.mutedUntil) > new Date();
+
+export function PlayerList({ players, currentPlayerId, compact = false, moderation }: PlayerListProps) {
+  const [openPlayerId, setOpenPlayerId] = useState<string | null>(null);
+
+  const act = (action: () => void) => {
+    setOpenPlayerId(null);
+    action();
+  };
+
   return (
     <Card padding={compact ? 'sm' : 'md'}>
       <SectionTitle count={players.length}>Players</SectionTitle>
@@ -25,28 +52,85 @@ export function PlayerList({ players, currentPlayerId, compact = false }: Player
         <ul className={`space-y-1 overflow-y-auto pr-0.5 ${compact ? 'max-h-[30dvh]' : 'max-h-[40dvh]'}`}>
           {players.map((player) => {
             const isYou = player.id === currentPlayerId;
+            const muted = isMuted(player);
+            const menuOpen = openPlayerId === player.id;
             return (
-              <li
-                key={player.id}
-                className={`flex items-center justify-between px-2.5 py-1.5 rounded-lg text-sm ${
-                  isYou ? 'bg-indigo-50' : 'hover:bg-gray-50'
-                }`}
-              >
-                <div className="flex items-center gap-2 min-w-0">
-                  <div
-                    className={`w-2 h-2 rounded-full shrink-0 ${
-                      player.isHost ? 'bg-amber-400' : 'bg-emerald-400'
-                    }`}
-                  />
-                  <span className={`truncate ${isYou ? 'font-semibold text-indigo-700' : 'text-gray-700'}`}>
-                    {player.nickname}
-                    {isYou && <span className="text-gray-400 font-normal ml-1">(You)</span>}
-                  </span>
-                  {player.isHost && <Badge variant="yellow">Host</Badge>}
+              <li key={player.id}>
+                <div
+                  className={`flex items-center justify-between px-2.5 py-1.5 rounded-lg text-sm ${
+                    isYou ? 'bg-indigo-50' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="flex items-center gap-2 min-w-0">
+                    <div
+                      className={`w-2 h-2 rounded-full shrink-0 ${
+                        player.isHost ? 'bg-amber-400' : 'bg-emerald-400'
+                      }`}
+                    />
+                    <span className={`truncate ${isYou ? 'font-semibold text-indigo-700' : 'text-gray-700'}`}>
+                      {player.nickname}
+                      {isYou && <span className="text-gray-400 font-normal ml-1">(You)</span>}
+                    </span>
+                    {player.isHost && <Badge variant="yellow">Host</Badge>}
+                    {muted && <Badge variant="red">Muted</Badge>}
+                    {player.team && <Badge variant="blue">{player.team}</Badge>}
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0 ml-2">
+                    <span className="text-xs font-medium text-gray-500 tabular-nums">
+                      {player.totalScore ?? 0} pts
+                    </span>
+                    {moderation && !isYou && (
+                      <button
+                        onClick={() => setOpenPlayerId(menuOpen ? null : player.id)}
+                        className="text-gray-400 hover:text-gray-600 transition-colors px-1"
+                        title="Moderate this player"
+                      >
+                        &middot;&middot;&middot;
+                      </button>
+                    )}
+                  </div>
                 </div>
-                <span className="text-xs font-medium text-gray-500 tabular-nums shrink-0 ml-2">
-                  {player.totalScore ?? 0} pts
-                </span>
+
+                {moderation && menuOpen && (
+                  <div className="flex flex-wrap gap-x-3 gap-y-1 px-2.5 py-1.5 text-xs">
+                    <button onClick={() => act(() => moderation.onRename(player.id))} className="text-gray-500 hover:text-gray-800">
+                      Rename
+                    </button>
+                    {muted ? (
+                      <button onClick={() => act(() => moderation.onUnmute(player.id))} className="text-gray-500 hover:text-gray-800">
+                        Unmute
+                      </button>
+                    ) : (
+                      <button onClick={() => act(() => moderation.onMute(player.id))} className="text-gray-500 hover:text-gray-800">
+                        Mute 5 min
+                      </button>
+                    )}
+                    {moderation.onSetTeam &&
+                      moderation.teams
+                        ?.filter((team) => team !== player.team)
+                        .map((team) => (
+                          <button
+                            key={team}
+                            onClick={() => act(() => moderation.onSetTeam?.(player.id, team))}
+                            className="text-gray-500 hover:text-gray-800"
+                          >
+                            Move to {team}
+                          </button>
+                        ))}
+                    <button onClick={() => act(() => moderation.onMakeHost(player.id))} className="text-gray-500 hover:text-gray-800">
+                      Make host
+                    </button>
+                    <button onClick={() => act(() => moderation.onSignOut(player.id))} className="text-gray-500 hover:text-gray-800">
+                      Sign out
+                    </button>
+                    <button onClick={() => act(() => moderation.onKick(player.id, false))} className="text-red-500 hover:text-red-700">
+                      Kick
+                    </button>
+                    <button onClick={() => act(() => moderation.onKick(player.id, true))} className="text-red-500 hover:text-red-700">
+                      Ban
+                    </button>
+                  </div>
+                )}
               </li>
             );
           })}
@@ -0,0 +1,118 @@
+import { useEffect, useState, ReactNode } from 'react';
+import { RoundSummary, FinalSummary } from '../hooks/useSocket';
+import { Badge } from './ui';
+
+interface ProjectorSummaryProps {
+  /** the round recap during a break, or the closing narrative at game end */
+  roundSummary?: RoundSummary | null;
+  finalSummary?: FinalSummary | null;
+  roundNo: number;
+}
+
+/** how long each slide stays up on the projector */
+const SLIDE_MS = 15_000;
+
+interface Slide {
+  key: string;
+  eyebrow: string;
+  content: ReactNode;
+}
+
+function roundSlides(summary: RoundSummary, roundNo: number): Slide[] {
+  if (!summary.summary) return [];
+  const { narrative, themes, highlightedHeadlines, roundStats } = summary.summary;
+
+  return [
+    {
+      key: 'narrative',
+      eyebrow: `Period ${roundNo} · ${roundStats.headlineCount} developments from ${roundStats.playerCount} sources`,
+      content: (
+        <>
+          <p className="text-2xl text-gray-700 leading-relaxed whitespace-pre-line">{narrative}</p>
+          {themes.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-6">
+              {themes.map((theme) => (
+                <Badge key={theme} variant="blue" className="text-base">{theme}</Badge>
+              ))}
+            </div>
+          )}
+        </>
+      ),
+    },
+    ...highlightedHeadlines.map((h, i) => ({
+      key: `highlight-${i}`,
+      eyebrow: `Period ${roundNo} · Key development ${i + 1} of ${highlightedHeadlines.length}`,
+      content: (
+        <div className="pl-6 border-l-4 border-indigo-300">
+          <p className="text-4xl font-bold text-gray-900 leading-tight">&ldquo;{h.headline}&rdquo;</p>
+          <p className="text-xl text-gray-500 mt-4">{h.source} &middot; {h.significance}</p>
+        </div>
+      ),
+    })),
+  ];
+}
+
+function finalSlides(summary: FinalSummary): Slide[] {
+  if (!summary.summary) return [];
+  return summary.summary.reports.map((report, i) => ({
+    key: `report-${i}`,
+    eyebrow: `${report.character.name}, ${report.character.role} · ${report.character.era}`,
+    content: (
+      <p className="text-2xl text-gray-700 leading-relaxed whitespace-pre-line">{report.story}</p>
+    ),
+  }));
+}
+
+/**
+ * the projector's summary view: one large slide at a time (the narrative, then
+ * each key development; or each closing report), advancing on its own.
+ */
+export function ProjectorSummary({ roundSummary, finalSummary, roundNo }: ProjectorSummaryProps) {
+  const status = (finalSummary ?? roundSummary)?.status ?? 'pending';
+  const slides = finalSummary
+    ? finalSlides(finalSummary)
+    : roundSummary
+      ? roundSlides(roundSummary, roundNo)
+      : [];
+  const [index, setIndex] = useState(0);
+
+  // start over whenever a new summary arrives
+  useEffect(() => {
+    setIndex(0);
+  }, [roundSummary, finalSummary]);
+
+  useEffect(() => {
+    if (slides.length < 2) return;
+    const timer = setInterval(() => setIndex((i) => (i + 1) % slides.length), SLIDE_MS);
+    return () => clearInterval(timer);
+  }, [slides.length]);
+
+  if (slides.length === 0) {
+    return (
+      <div className="h-full flex items-center justify-center text-2xl text-gray-400">
+        {status === 'error' ? 'Summary unavailable' : 'The chroniclers are writing...'}
+      </div>
+    );
+  }
+
+  const slide = slides[index % slides.length];
+
+  return (
+    <div className="h-full flex flex-col">
+      <p className="shrink-0 text-sm font-semibold text-gray-400 uppercase tracking-wider">{slide.eyebrow}</p>
+      <div key={slide.key} className="flex-1 min-h-0 overflow-hidden flex flex-col justify-center">
+        {slide.content}
+      </div>
+      {slides.length > 1 && (
+        <div className="shrink-0 flex justify-center gap-2 pt-4">
+          {slides.map((s, i) => (
+            <span
+              key={s.key}
+              className={`h-2 rounded-full transition-all ${i === index % slides.length ? 'w-6 bg-indigo-500' : 'w-2 bg-gray-200'}`}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
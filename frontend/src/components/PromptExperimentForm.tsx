@@ -0,0 +1,104 @@
+import { useEffect, useState } from 'react';
+import { PROMPT_KINDS, PromptExperiment, PromptKind, PromptVariantInfo } from '../lib/prompts';
+
+const API_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001';
+
+const INPUT_CLASS =
+  'w-full px-2 py-1.5 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-400 focus:border-transparent bg-gray-50';
+const LABEL_CLASS = 'block text-xs font-medium text-gray-500 mb-1';
+
+interface PromptExperimentFormProps {
+  value: PromptExperiment;
+  onChange: (value: PromptExperiment) => void;
+}
+
+/**
+ * prompt variants for session creation, for trying a new prompt on real games.
+ * only kinds with more than one variant are shown; picking the default clears
+ * the kind. the share splits calls between the variant and the default.
+ */
+export function PromptExperimentForm({ value, onChange }: PromptExperimentFormProps) {
+  const [variants, setVariants] = useState<PromptVariantInfo[]>([]);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    fetch(`${API_URL}/api/prompt-variants`)
+      .then((res) => res.json())
+      .then((data) => setVariants(data.variants ?? []))
+      .catch((err) => console.error('Failed to load prompt variants:', err));
+  }, []);
+
+  const kinds = PROMPT_KINDS.filter(({ kind }) => variants.filter((v) => v.kind === kind).length > 1);
+  if (kinds.length === 0) return null;
+
+  const setVariant = (kind: PromptKind, id: string) => {
+    const next = { ...value };
+    if (variants.find((v) => v.id === id)?.isDefault) {
+      delete next[kind];
+    } else {
+      next[kind] = { variant: id, fraction: value[kind]?.fraction };
+    }
+    onChange(next);
+  };
+
+  const setShare = (kind: PromptKind, percent: number) => {
+    const assignment = value[kind];
+    if (!assignment) return;
+    const fraction = Math.min(100, Math.max(0, Math.round(percent || 0))) / 100;
+    onChange({ ...value, [kind]: { ...assignment, fraction: fraction === 1 ? undefined : fraction } });
+  };
+
+  return (
+    <div className="border-t border-gray-100 pt-4 space-y-2">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="text-xs font-medium text-gray-500 uppercase tracking-wider hover:text-gray-700"
+      >
+        Prompt experiment {open ? '▾' : '▸'}
+      </button>
+      {open &&
+        kinds.map(({ kind, label }) => {
+          const options = variants.filter((v) => v.kind === kind);
+          const defaultId = options.find((v) => v.isDefault)?.id ?? '';
+          const assignment = value[kind];
+          const selected = options.find((v) => v.id === (assignment?.variant ?? defaultId));
+          return (
+            <div key={kind} className="space-y-1">
+              <div className="grid grid-cols-3 gap-2">
+                <div className="col-span-2">
+                  <label className={LABEL_CLASS}>{label} prompt</label>
+                  <select
+                    value={selected?.id ?? defaultId}
+                    onChange={(e) => setVariant(kind, e.target.value)}
+                    className={INPUT_CLASS}
+                  >
+                    {options.map((v) => (
+                      <option key={v.id} value={v.id}>
+                        {v.id}
+                        {v.isDefault ? ' (default)' : ''}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                {assignment && (
+                  <div>
+                    <label className={LABEL_CLASS}>Share of calls %</label>
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={Math.round((assignment.fraction ?? 1) * 100)}
+                      onChange={(e) => setShare(kind, Number(e.target.value))}
+                      className={INPUT_CLASS}
+                    />
+                  </div>
+                )}
+              </div>
+              {selected && <p className="text-xs text-gray-400">{selected.description}</p>}
+            </div>
+          );
+        })}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { Card, SectionTitle, Badge, Button } from './ui';
+import { Headline, HeadlineRejection } from '../hooks/useSocket';
+
+/** host-only: the content filter's review queue and corrections to scored headlines */
+export interface HeadlineReviewActions {
+  rejections: HeadlineRejection[];
+  onReview: (headlineId: string, decision: 'approve' | 'hide') => void;
+  /** correct the juror's plausibility level or primary planet */
+  onOverride: (headline: Headline) => void;
+}
+
+interface ReviewQueueProps extends HeadlineReviewActions {
+  headlines: Headline[];
+  compact?: boolean;
+}
+
+/** how many recent rejections are listed under the flagged headlines */
+const SHOWN_REJECTIONS = 5;
+
+export function ReviewQueue({ headlines, rejections, onReview, compact = false }: ReviewQueueProps) {
+  const flagged = headlines.filter((h) => h.moderationStatus === 'flagged');
+  if (flagged.length === 0 && rejections.length === 0) return null;
+
+  return (
+    <Card padding={compact ? 'sm' : 'md'}>
+      <SectionTitle count={flagged.length}>Review queue</SectionTitle>
+
+      {flagged.length === 0 ? (
+        <p className="text-xs text-gray-400 text-center py-2">Nothing waiting for review</p>
+      ) : (
+        <ul className="space-y-2 max-h-[30dvh] overflow-y-auto pr-0.5">
+          {flagged.map((headline) => (
+            <li key={headline.id} className="px-2.5 py-2 rounded-lg bg-amber-50/60 border border-amber-100">
+              <div className="flex items-center justify-between gap-2 text-xs">
+                <span className="font-medium text-gray-600 truncate">{headline.playerNickname}</span>
+                <span className="text-gray-400 shrink-0">R{headline.roundNo}</span>
+              </div>
+              <p className="text-sm text-gray-800 mt-0.5">&ldquo;{headline.text}&rdquo;</p>
+              {headline.moderationReason && (
+                <p className="text-[11px] text-amber-600 mt-0.5">{headline.moderationReason}</p>
+              )}
+              <div className="flex gap-2 mt-1.5">
+                <Button size="sm" variant="secondary" onClick={() => onReview(headline.id, 'approve')}>
+                  Approve
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => onReview(headline.id, 'hide')}>
+                  Hide
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {rejections.length > 0 && (
+        <div className="mt-3 pt-3 border-t border-gray-100">
+          <p className="text-[11px] font-medium text-gray-400 uppercase tracking-wider mb-1.5">
+            Refused submissions
+          </p>
+          <ul className="space-y-1.5">
+            {rejections.slice(0, SHOWN_REJECTIONS).map((rejection) => (
+              <li key={rejection.id} className="text-xs text-gray-500">
+                <span className="font-medium text-gray-600">{rejection.playerNickname}</span>{' '}
+                <Badge variant="red">{rejection.reason}</Badge>
+                <p className="text-gray-400 truncate" title={rejection.storyDirection}>
+                  {rejection.storyDirection}
+                </p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,113 @@
+import { useEffect, useRef, useState } from 'react';
+import { ScenarioListing } from '../lib/scenarios';
+
+const API_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001';
+
+interface ScenarioFormProps {
+  value: string;
+  onChange: (id: string, scenario: ScenarioListing | undefined) => void;
+}
+
+const INPUT_CLASS =
+  'w-full px-2 py-1.5 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-400 focus:border-transparent bg-gray-50';
+const LABEL_CLASS = 'block text-xs font-medium text-gray-500 mb-1';
+
+/**
+ * scenario picker for session creation: a built-in or uploaded pack, plus an
+ * upload for a new pack file (json or yaml).
+ */
+export function ScenarioForm({ value, onChange }: ScenarioFormProps) {
+  const [open, setOpen] = useState(false);
+  const [scenarios, setScenarios] = useState<ScenarioListing[]>([]);
+  const [uploadError, setUploadError] = useState('');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    fetch(`${API_URL}/api/scenarios`)
+      .then((res) => res.json())
+      .then((data) => setScenarios(data.scenarios ?? []))
+      .catch((err) => console.error('Failed to load scenarios:', err));
+  }, []);
+
+  const selected = scenarios.find((s) => s.id === value);
+
+  const upload = async (file: File) => {
+    setUploadError('');
+    try {
+      const response = await fetch(`${API_URL}/api/scenarios`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'text/plain' },
+        body: await file.text(),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        const issue = data.details?.[0];
+        throw new Error(issue ? `${issue.path.join('.')}: ${issue.message}` : data.error);
+      }
+      setScenarios([...scenarios, data.scenario]);
+      onChange(data.scenario.id, data.scenario);
+    } catch (err) {
+      setUploadError(err instanceof Error ? err.message : 'Failed to upload scenario');
+    } finally {
+      if (fileInput.current) {
+        fileInput.current.value = '';
+      }
+    }
+  };
+
+  return (
+    <div className="border-t border-gray-100 pt-4">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between text-xs font-medium text-gray-500 uppercase tracking-wider"
+      >
+        <span>Scenario</span>
+        <span className="normal-case tracking-normal text-gray-400">
+          {selected?.name ?? value} {open ? '▲' : '▼'}
+        </span>
+      </button>
+
+      {open && (
+        <div className="mt-3 space-y-3">
+          <div>
+            <label className={LABEL_CLASS}>Scenario pack</label>
+            <select
+              value={value}
+              onChange={(e) => onChange(e.target.value, scenarios.find((s) => s.id === e.target.value))}
+              className={INPUT_CLASS}
+            >
+              {scenarios.map((scenario) => (
+                <option key={scenario.id} value={scenario.id}>
+                  {scenario.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {selected && (
+            <p className="text-xs text-gray-500">
+              {selected.description || selected.topic.framing}
+              <span className="block text-gray-400 mt-0.5">
+                {selected.seedCount} seed headlines · {selected.planetPack} planets
+                {selected.startYear !== null && ` · starts ${selected.startYear}`}
+              </span>
+            </p>
+          )}
+
+          <div>
+            <label className={LABEL_CLASS}>Upload a pack (JSON or YAML)</label>
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".json,.yaml,.yml,application/json,application/yaml"
+              onChange={(e) => e.target.files?.[0] && upload(e.target.files[0])}
+              className="w-full text-xs text-gray-500"
+            />
+            {uploadError && <p className="mt-1 text-xs text-red-600">{uploadError}</p>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
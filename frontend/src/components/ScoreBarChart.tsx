@@ -1,9 +1,12 @@
+import { useState } from 'react';
 import { ScoreBreakdown } from '../hooks/useSocket';
 import { Card, SectionTitle } from './ui';
+import { teamStandings } from '../lib/teams';
 
 interface Player {
   id: string;
   nickname: string;
+  team?: string | null;
   totalScore?: number;
   scoreBreakdown?: ScoreBreakdown;
 }
@@ -21,8 +24,83 @@ const SEGMENTS = [
   { key: 'plausibility' as const, label: 'Plausibility', color: 'bg-indigo-500' },
   { key: 'connection' as const, label: 'Connection', color: 'bg-emerald-500' },
   { key: 'planetBonus' as const, label: 'Planet', color: 'bg-amber-400' },
+  { key: 'peoplesChoice' as const, label: 'People\u2019s choice', color: 'bg-rose-400' },
+  { key: 'riskBonus' as const, label: 'Risk bets', color: 'bg-fuchsia-500' },
 ];
 
+const EMPTY_BREAKDOWN: ScoreBreakdown = {
+  baseline: 0,
+  plausibility: 0,
+  connection: 0,
+  planetBonus: 0,
+  peoplesChoice: 0,
+  riskBonus: 0,
+};
+
+interface ScoreBarProps {
+  rank: number;
+  label: string;
+  /** "(You)" or "(Your team)" */
+  own: string | null;
+  detail?: string;
+  total: number;
+  breakdown: ScoreBreakdown;
+  barPercent: number;
+}
+
+/** one leaderboard row: rank, name, points and the stacked score bar */
+function ScoreBar({ rank, label, own, detail, total, breakdown, barPercent }: ScoreBarProps) {
+  return (
+    <div className={`rounded-lg px-2 py-1.5 ${own ? 'bg-indigo-50' : ''}`}>
+      <div className="flex items-center justify-between mb-1">
+        <div className="flex items-center gap-1.5">
+          <span className="text-xs font-bold text-gray-400 w-4">{rank}</span>
+          <span
+            className={`text-xs font-medium truncate max-w-[120px] ${
+              own ? 'text-indigo-700' : 'text-gray-700'
+            }`}
+          >
+            {label}
+            {own && (
+              <span className="text-gray-400 ml-1">{own}</span>
+            )}
+          </span>
+          {detail && <span className="text-[10px] text-gray-400 truncate">{detail}</span>}
+        </div>
+        <span className="text-xs font-semibold text-gray-600 ml-2 shrink-0 tabular-nums">
+          {total} pts
+        </span>
+      </div>
+
+      <div className="h-2.5 w-full rounded-full bg-gray-100 overflow-hidden">
+        <div
+          className="h-full flex transition-all duration-500 ease-out rounded-full"
+          style={{ width: `${barPercent}%` }}
+        >
+          {SEGMENTS.map((seg) => {
+            // breakdowns from before voting or risk mode lack those parts
+            const segValue = breakdown[seg.key] ?? 0;
+            if (segValue <= 0 || total <= 0) return null;
+            const segPercent = (segValue / total) * 100;
+            return (
+              <div
+                key={seg.key}
+                className={`h-full ${seg.color} first:rounded-l-full last:rounded-r-full transition-all duration-500 ease-out`}
+                style={{ width: `${segPercent}%` }}
+                title={`${seg.label}: ${segValue}`}
+              />
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * the leaderboard as stacked score bars, growing with the game clock. in a team
+ * game it can switch to team totals.
+ */
 export function ScoreBarChart({
   players,
   currentPlayerId,
@@ -30,80 +108,77 @@ export function ScoreBarChart({
   currentGameMins,
   phase,
 }: ScoreBarChartProps) {
+  const [view, setView] = useState<'players' | 'teams'>('players');
+
   if (phase !== 'PLAYING' && phase !== 'BREAK') {
     return null;
   }
 
-  const highestScore = Math.max(1, ...players.map((p) => p.totalScore ?? 0));
   const safeTotal = Math.max(1, totalGameMins);
+  const barPercent = (total: number, highest: number) =>
+    Math.min(100, (total / highest) * (currentGameMins / safeTotal) * 100);
 
   const sorted = [...players]
     .filter((p) => p.id)
     .sort((a, b) => (b.totalScore ?? 0) - (a.totalScore ?? 0));
+  const teams = teamStandings(sorted);
+  const showTeams = view === 'teams' && teams.length > 0;
+
+  const highestScore = Math.max(1, ...players.map((p) => p.totalScore ?? 0));
+  const highestTeamScore = Math.max(1, ...teams.map((t) => t.totalScore));
+  const ownTeam = players.find((p) => p.id === currentPlayerId)?.team;
 
   return (
     <Card padding="sm" className="max-h-[60dvh] overflow-hidden flex flex-col">
-      <div className="shrink-0">
+      <div className="shrink-0 flex items-center justify-between">
         <SectionTitle>Leaderboard</SectionTitle>
+        {teams.length > 0 && (
+          <div className="flex gap-1 mb-3">
+            {(['players', 'teams'] as const).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setView(option)}
+                className={`text-[10px] font-medium px-2 py-0.5 rounded-full ${
+                  view === option ? 'bg-indigo-100 text-indigo-700' : 'text-gray-400 hover:text-gray-600'
+                }`}
+              >
+                {option === 'players' ? 'Players' : 'Teams'}
+              </button>
+            ))}
+          </div>
+        )}
       </div>
 
       <div className="space-y-2 flex-1 min-h-0 overflow-y-auto">
-        {sorted.map((player, index) => {
-          const total = player.totalScore ?? 0;
-          const bd = player.scoreBreakdown ?? { baseline: 0, plausibility: 0, connection: 0, planetBonus: 0 };
-          const barPercent = Math.min(
-            100,
-            (total / highestScore) * (currentGameMins / safeTotal) * 100
-          );
-          const isCurrentPlayer = player.id === currentPlayerId;
-
-          return (
-            <div
-              key={player.id}
-              className={`rounded-lg px-2 py-1.5 ${isCurrentPlayer ? 'bg-indigo-50' : ''}`}
-            >
-              <div className="flex items-center justify-between mb-1">
-                <div className="flex items-center gap-1.5">
-                  <span className="text-xs font-bold text-gray-400 w-4">{index + 1}</span>
-                  <span
-                    className={`text-xs font-medium truncate max-w-[120px] ${
-                      isCurrentPlayer ? 'text-indigo-700' : 'text-gray-700'
-                    }`}
-                  >
-                    {player.nickname}
-                    {isCurrentPlayer && (
-                      <span className="text-gray-400 ml-1">(You)</span>
-                    )}
-                  </span>
-                </div>
-                <span className="text-xs font-semibold text-gray-600 ml-2 shrink-0 tabular-nums">
-                  {total} pts
-                </span>
-              </div>
-
-              <div className="h-2.5 w-full rounded-full bg-gray-100 overflow-hidden">
-                <div
-                  className="h-full flex transition-all duration-500 ease-out rounded-full"
-                  style={{ width: `${barPercent}%` }}
-                >
-                  {SEGMENTS.map((seg) => {
-                    const segValue = bd[seg.key];
-                    if (segValue <= 0 || total <= 0) return null;
-                    const segPercent = (segValue / total) * 100;
-                    return (
-                      <div
-                        key={seg.key}
-                        className={`h-full ${seg.color} first:rounded-l-full last:rounded-r-full transition-all duration-500 ease-out`}
-                        style={{ width: `${segPercent}%` }}
-                        title={`${seg.label}: ${segValue}`}
-                      />
-                    );
-                  })}
-                </div>
-              </div>
-            </div>
-          );
-        })}
+        {showTeams
+          ? teams.map((team, index) => (
+              <ScoreBar
+                key={team.team}
+                rank={index + 1}
+                label={team.team}
+                own={team.team === ownTeam ? '(Your team)' : null}
+                detail={team.members.map((m) => m.nickname).join(', ')}
+                total={team.totalScore}
+                breakdown={team.scoreBreakdown}
+                barPercent={barPercent(team.totalScore, highestTeamScore)}
+              />
+            ))
+          : sorted.map((player, index) => {
+              const total = player.totalScore ?? 0;
+              return (
+                <ScoreBar
+                  key={player.id}
+                  rank={index + 1}
+                  label={player.nickname}
+                  own={player.id === currentPlayerId ? '(You)' : null}
+                  detail={player.team ?? undefined}
+                  total={total}
+                  breakdown={player.scoreBreakdown ?? EMPTY_BREAKDOWN}
+                  barPercent={barPercent(total, highestScore)}
+                />
+              );
+            })}
       </div>
 
       <div className="shrink-0 border-t border-gray-100 mt-2 pt-2 flex flex-wrap gap-x-3 gap-y-1">
@@ -1,52 +1,107 @@
 import { Card, SectionTitle } from './ui';
+import { SCORING_PRESET_NAMES, SessionScoring } from '../lib/scoring';
 
 interface ScoreCardProps {
   phase: string;
+  /** the session's scoring rules; the points shown come from here */
+  scoring: SessionScoring;
+  /** whether players can bet on a band, which the risk bet points are for */
+  riskMode?: boolean;
 }
 
-export function ScoreCard({ phase }: ScoreCardProps) {
+interface Row {
+  label: string;
+  points: number;
+  labelClass: string;
+  pointsClass: string;
+}
+
+const PLANET_BANDS = ['most used', 'middle', 'least used'];
+
+/** the rows for the active rules, leaving out anything worth nothing */
+function scoringRows(scoring: SessionScoring, riskMode: boolean): Row[][] {
+  const { baseline, plausibility, connectionScale, planetBandPoints, riskBetPoints } = scoring.rules;
+  const near = plausibility.nearLevels.join(', ');
+
+  const general: Row[] = [
+    { label: 'Baseline', points: baseline, labelClass: 'text-gray-500', pointsClass: 'text-gray-600' },
+    {
+      label: `Plausibility ${plausibility.targetLevel} (sweet spot)`,
+      points: plausibility.exactTarget,
+      labelClass: 'text-indigo-500',
+      pointsClass: 'text-indigo-600',
+    },
+    ...(near
+      ? [{
+          label: `Plausibility ${near} (near)`,
+          points: plausibility.nearTarget,
+          labelClass: 'text-indigo-400',
+          pointsClass: 'text-indigo-500',
+        }]
+      : []),
+    {
+      label: 'Plausibility (other)',
+      points: plausibility.other,
+      labelClass: 'text-indigo-400',
+      pointsClass: 'text-indigo-500',
+    },
+  ];
+
+  const connection: Row[] = [3, 2, 1].map((count) => ({
+    label: `${count} unique author${count > 1 ? 's' : ''}`,
+    points: connectionScale[count],
+    labelClass: count === 3 ? 'text-emerald-500' : 'text-emerald-400',
+    pointsClass: count === 3 ? 'text-emerald-600' : 'text-emerald-500',
+  }));
+
+  const planet: Row[] = [2, 1, 0].map((band) => ({
+    label: `Planet — ${PLANET_BANDS[band]}`,
+    points: planetBandPoints[band],
+    labelClass: band === 2 ? 'text-violet-500' : 'text-violet-400',
+    pointsClass: band === 2 ? 'text-violet-600' : 'text-violet-500',
+  }));
+
+  // rules from before risk mode have no risk bet points
+  const risk: Row[] = riskMode
+    ? [5, 4, 3, 2, 1].map((band) => ({
+        label: `Bet on ${band} lands`,
+        points: riskBetPoints?.[band - 1] ?? 0,
+        labelClass: 'text-fuchsia-500',
+        pointsClass: 'text-fuchsia-600',
+      }))
+    : [];
+
+  return [general, connection, planet, risk]
+    .map((group) => group.filter((row) => row.points > 0))
+    .filter((group) => group.length > 0);
+}
+
+export function ScoreCard({ phase, scoring, riskMode = false }: ScoreCardProps) {
   if (phase !== 'PLAYING' && phase !== 'BREAK') {
     return null;
   }
 
+  const presetName = SCORING_PRESET_NAMES[scoring.preset] ?? scoring.preset;
+
   return (
     <Card padding="sm">
       <SectionTitle>Scoring</SectionTitle>
+      <p className="text-[10px] text-gray-400 mb-1">
+        {presetName}
+        {scoring.tuned && ' (adjusted)'}
+      </p>
       <div className="space-y-1 text-[10px]">
-        <div className="flex justify-between">
-          <span className="text-gray-500">Baseline</span>
-          <span className="text-gray-600 font-semibold">+1</span>
-        </div>
-        <div className="flex justify-between">
-          <span className="text-indigo-500">Plausibility (sweet spot)</span>
-          <span className="text-indigo-600 font-semibold">+2</span>
-        </div>
-        <div className="flex justify-between">
-          <span className="text-indigo-400">Plausibility (near)</span>
-          <span className="text-indigo-500 font-semibold">+1</span>
-        </div>
-        <div className="border-t border-gray-100 my-1" />
-        <div className="flex justify-between">
-          <span className="text-emerald-500">3 unique authors</span>
-          <span className="text-emerald-600 font-semibold">+9</span>
-        </div>
-        <div className="flex justify-between">
-          <span className="text-emerald-400">2 unique authors</span>
-          <span className="text-emerald-500 font-semibold">+4</span>
-        </div>
-        <div className="flex justify-between">
-          <span className="text-emerald-400">1 unique author</span>
-          <span className="text-emerald-500 font-semibold">+1</span>
-        </div>
-        <div className="border-t border-gray-100 my-1" />
-        <div className="flex justify-between">
-          <span className="text-violet-500">Planet — least used (top 3)</span>
-          <span className="text-violet-600 font-semibold">+2</span>
-        </div>
-        <div className="flex justify-between">
-          <span className="text-violet-400">Planet — middle 3</span>
-          <span className="text-violet-500 font-semibold">+1</span>
-        </div>
+        {scoringRows(scoring, riskMode).map((group, i) => (
+          <div key={i} className="space-y-1">
+            {i > 0 && <div className="border-t border-gray-100 my-1" />}
+            {group.map((row) => (
+              <div key={row.label} className="flex justify-between">
+                <span className={row.labelClass}>{row.label}</span>
+                <span className={`${row.pointsClass} font-semibold`}>+{row.points}</span>
+              </div>
+            ))}
+          </div>
+        ))}
       </div>
     </Card>
   );
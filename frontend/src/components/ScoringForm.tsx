@@ -0,0 +1,165 @@
+import { useEffect, useState } from 'react';
+import { ScoringChoice, ScoringPreset, ScoringRules, PlausibilityLevel } from '../lib/scoring';
+
+const API_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001';
+
+const INPUT_CLASS =
+  'w-full px-2 py-1.5 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-400 focus:border-transparent bg-gray-50';
+const LABEL_CLASS = 'block text-xs font-medium text-gray-500 mb-1';
+
+const LEVELS: PlausibilityLevel[] = [1, 2, 3, 4, 5];
+
+interface ScoringFormProps {
+  value: ScoringChoice;
+  onChange: (value: ScoringChoice) => void;
+}
+
+/** a whole number of points, 0-50 like the server allows */
+function points(text: string): number {
+  return Math.min(50, Math.max(0, Math.round(Number(text) || 0)));
+}
+
+function PointsInput({ label, value, onChange }: { label: string; value: number; onChange: (value: number) => void }) {
+  return (
+    <div>
+      <label className={LABEL_CLASS}>{label}</label>
+      <input
+        type="number"
+        min={0}
+        max={50}
+        value={value}
+        onChange={(e) => onChange(points(e.target.value))}
+        className={INPUT_CLASS}
+      />
+    </div>
+  );
+}
+
+/**
+ * scoring preset picker for session creation; "adjust points" starts from a
+ * copy of the preset's rules.
+ */
+export function ScoringForm({ value, onChange }: ScoringFormProps) {
+  const [presets, setPresets] = useState<ScoringPreset[]>([]);
+
+  useEffect(() => {
+    fetch(`${API_URL}/api/scoring-presets`)
+      .then((res) => res.json())
+      .then((data) => setPresets(data.presets ?? []))
+      .catch((err) => console.error('Failed to load scoring presets:', err));
+  }, []);
+
+  const selected = presets.find((p) => p.id === value.preset);
+  const rules = value.rules;
+
+  const update = (next: Partial<ScoringRules>) => {
+    if (rules) onChange({ ...value, rules: { ...rules, ...next } });
+  };
+
+  const setTarget = (targetLevel: PlausibilityLevel) => {
+    if (!rules) return;
+    const nearLevels = LEVELS.filter((level) => Math.abs(level - targetLevel) === 1);
+    update({ plausibility: { ...rules.plausibility, targetLevel, nearLevels } });
+  };
+
+  return (
+    <div className="border-t border-gray-100 pt-4 space-y-2">
+      <label className="block text-xs font-medium text-gray-500 uppercase tracking-wider mb-1.5">Scoring</label>
+      <select
+        value={value.preset}
+        onChange={(e) => onChange({ preset: e.target.value, rules: null })}
+        className={INPUT_CLASS}
+      >
+        {presets.map((preset) => (
+          <option key={preset.id} value={preset.id}>
+            {preset.name}
+          </option>
+        ))}
+      </select>
+      {selected && <p className="text-xs text-gray-400">{selected.description}</p>}
+
+      <label className="flex items-center gap-2 text-sm text-gray-600">
+        <input
+          type="checkbox"
+          checked={rules !== null}
+          disabled={!selected}
+          onChange={(e) => onChange({ ...value, rules: e.target.checked && selected ? selected.rules : null })}
+          className="accent-indigo-500"
+        />
+        Adjust points
+      </label>
+
+      {rules && (
+        <div className="grid grid-cols-3 gap-2">
+          <PointsInput label="Baseline" value={rules.baseline} onChange={(baseline) => update({ baseline })} />
+          <div>
+            <label className={LABEL_CLASS}>Sweet spot level</label>
+            <select
+              value={rules.plausibility.targetLevel}
+              onChange={(e) => setTarget(Number(e.target.value) as PlausibilityLevel)}
+              className={INPUT_CLASS}
+            >
+              {LEVELS.map((level) => (
+                <option key={level} value={level}>
+                  {level}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div />
+          <PointsInput
+            label="Sweet spot"
+            value={rules.plausibility.exactTarget}
+            onChange={(exactTarget) => update({ plausibility: { ...rules.plausibility, exactTarget } })}
+          />
+          <PointsInput
+            label="Near it"
+            value={rules.plausibility.nearTarget}
+            onChange={(nearTarget) => update({ plausibility: { ...rules.plausibility, nearTarget } })}
+          />
+          <PointsInput
+            label="Other levels"
+            value={rules.plausibility.other}
+            onChange={(other) => update({ plausibility: { ...rules.plausibility, other } })}
+          />
+          {([1, 2, 3] as const).map((count) => (
+            <PointsInput
+              key={count}
+              label={`${count} other author${count > 1 ? 's' : ''}`}
+              value={rules.connectionScale[count]}
+              onChange={(pts) => {
+                const connectionScale = [...rules.connectionScale] as ScoringRules['connectionScale'];
+                connectionScale[count] = pts;
+                update({ connectionScale });
+              }}
+            />
+          ))}
+          {([2, 1, 0] as const).map((band) => (
+            <PointsInput
+              key={band}
+              label={`Planet: ${['most used', 'middle', 'least used'][band]}`}
+              value={rules.planetBandPoints[band]}
+              onChange={(pts) => {
+                const planetBandPoints = [...rules.planetBandPoints] as ScoringRules['planetBandPoints'];
+                planetBandPoints[band] = pts;
+                update({ planetBandPoints });
+              }}
+            />
+          ))}
+          {LEVELS.map((level) => (
+            <PointsInput
+              key={`risk-${level}`}
+              label={`Risk bet on ${level} lands`}
+              value={rules.riskBetPoints[level - 1]}
+              onChange={(pts) => {
+                const riskBetPoints = [...rules.riskBetPoints] as ScoringRules['riskBetPoints'];
+                riskBetPoints[level - 1] = pts;
+                update({ riskBetPoints });
+              }}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
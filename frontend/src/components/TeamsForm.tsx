@@ -0,0 +1,47 @@
+const DEFAULT_TEAM_NAMES = 'Red, Blue';
+
+/** the team names typed in the form; mirrors the backend's 2-8 unique names */
+export function parseTeamNames(text: string): string[] {
+  return text
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+}
+
+interface TeamsFormProps {
+  /** comma-separated team names, or null for a game without teams */
+  value: string | null;
+  onChange: (value: string | null) => void;
+}
+
+/** whether players score as teams (e.g. table groups), and the team names */
+export function TeamsForm({ value, onChange }: TeamsFormProps) {
+  return (
+    <div className="border-t border-gray-100 pt-4 space-y-2">
+      <label className="flex items-center gap-2 text-sm text-gray-600">
+        <input
+          type="checkbox"
+          checked={value !== null}
+          onChange={(e) => onChange(e.target.checked ? DEFAULT_TEAM_NAMES : null)}
+          className="accent-indigo-500"
+        />
+        Play in teams
+      </label>
+      {value !== null && (
+        <>
+          <input
+            type="text"
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder="Red, Blue, Green"
+            className="w-full px-2 py-1.5 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-400 focus:border-transparent bg-gray-50"
+          />
+          <p className="text-xs text-gray-400">
+            2-8 team names, separated by commas. Players are shared out as they join; connections only score
+            across teams.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
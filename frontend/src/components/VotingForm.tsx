@@ -0,0 +1,53 @@
+import { VotingPolicy, MAX_VOTE_POINTS, MAX_VOTES_PER_BREAK } from '../lib/voting';
+
+const INPUT_CLASS =
+  'w-full px-2 py-1.5 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-400 focus:border-transparent bg-gray-50';
+const LABEL_CLASS = 'block text-xs font-medium text-gray-500 mb-1';
+
+interface VotingFormProps {
+  value: VotingPolicy;
+  onChange: (value: VotingPolicy) => void;
+}
+
+const FIELDS: { key: Exclude<keyof VotingPolicy, 'enabled'>; label: string; max: number }[] = [
+  { key: 'upvotePoints', label: 'Points per upvote', max: MAX_VOTE_POINTS },
+  { key: 'upvotesPerBreak', label: 'Upvotes per break', max: MAX_VOTES_PER_BREAK },
+  { key: 'starPoints', label: 'Points per star', max: MAX_VOTE_POINTS },
+  { key: 'starsPerBreak', label: 'Stars per break', max: MAX_VOTES_PER_BREAK },
+];
+
+/** whether players vote on each other's headlines in the breaks, and what votes are worth */
+export function VotingForm({ value, onChange }: VotingFormProps) {
+  return (
+    <div className="border-t border-gray-100 pt-4 space-y-2">
+      <label className="flex items-center gap-2 text-sm text-gray-600">
+        <input
+          type="checkbox"
+          checked={value.enabled}
+          onChange={(e) => onChange({ ...value, enabled: e.target.checked })}
+          className="accent-indigo-500"
+        />
+        Players vote on each other&rsquo;s headlines in the breaks
+      </label>
+      {value.enabled && (
+        <div className="grid grid-cols-2 gap-2">
+          {FIELDS.map(({ key, label, max }) => (
+            <div key={key}>
+              <label className={LABEL_CLASS}>{label}</label>
+              <input
+                type="number"
+                min={0}
+                max={max}
+                value={value[key]}
+                onChange={(e) =>
+                  onChange({ ...value, [key]: Math.min(max, Math.max(0, Math.round(Number(e.target.value) || 0))) })
+                }
+                className={INPUT_CLASS}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ interface UseGameTimeProgressOptions {
   playMinutes: number;
   phaseStartedAt: string | null;
   serverNow: string;
+  pausedAt?: string | null;
 }
 
 interface UseGameTimeProgressReturn {
@@ -25,6 +26,7 @@ export function useGameTimeProgress({
   playMinutes,
   phaseStartedAt,
   serverNow,
+  pausedAt = null,
 }: UseGameTimeProgressOptions): UseGameTimeProgressReturn {
   const [currentGameMins, setCurrentGameMins] = useState(0);
   const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
@@ -66,7 +68,7 @@ export function useGameTimeProgress({
       let currentPhasePlayMins = 0;
       if (phase === 'PLAYING' && phaseStartedAt) {
         const phaseStart = new Date(phaseStartedAt).getTime();
-        const now = Date.now() + offsetRef.current;
+        const now = pausedAt ? new Date(pausedAt).getTime() : Date.now() + offsetRef.current;
         const elapsedMs = Math.max(0, now - phaseStart);
         const elapsedMins = elapsedMs / (60 * 1000);
         currentPhasePlayMins = Math.min(elapsedMins, playMinutes);
@@ -77,7 +79,7 @@ export function useGameTimeProgress({
 
     compute();
 
-    if (phase === 'PLAYING') {
+    if (phase === 'PLAYING' && !pausedAt) {
       intervalRef.current = setInterval(compute, 1000);
     }
 
@@ -86,7 +88,7 @@ export function useGameTimeProgress({
         clearInterval(intervalRef.current);
       }
     };
-  }, [phase, currentRound, maxRounds, playMinutes, phaseStartedAt, serverNow]);
+  }, [phase, currentRound, maxRounds, playMinutes, phaseStartedAt, serverNow, pausedAt]);
 
   return {
     totalGameMins,
@@ -3,6 +3,8 @@ import { useState, useEffect, useRef } from 'react';
 interface UsePhaseTimerOptions {
   phaseEndsAt: string | null;
   serverNow: string;
+  /** set while the host has paused the game; the countdown holds at the paused value */
+  pausedAt?: string | null;
 }
 
 interface UsePhaseTimerReturn {
@@ -17,6 +19,7 @@ interface UsePhaseTimerReturn {
 export function usePhaseTimer({
   phaseEndsAt,
   serverNow,
+  pausedAt = null,
 }: UsePhaseTimerOptions): UsePhaseTimerReturn {
   const [remainingMs, setRemainingMs] = useState(0);
   const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
@@ -34,11 +37,15 @@ export function usePhaseTimer({
 
     // initial remaining time from server timestamps
     const endsAt = new Date(phaseEndsAt).getTime();
-    const now = new Date(serverNow).getTime();
+    const now = new Date(pausedAt ?? serverNow).getTime();
     const initialRemaining = Math.max(0, endsAt - now);
 
     setRemainingMs(initialRemaining);
 
+    if (pausedAt) {
+      return;
+    }
+
     const startTime = Date.now();
     const startRemaining = initialRemaining;
 
@@ -59,7 +66,7 @@ export function usePhaseTimer({
         clearInterval(intervalRef.current);
       }
     };
-  }, [phaseEndsAt, serverNow]);
+  }, [phaseEndsAt, serverNow, pausedAt]);
 
   const remainingFormatted = formatTime(remainingMs);
 
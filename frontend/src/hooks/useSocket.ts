@@ -1,5 +1,10 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { io, Socket } from 'socket.io-client';
+import { PlanetDefinition } from '../lib/planets';
+import { ScenarioSummary } from '../lib/scenarios';
+import { PlausibilityLevel, SessionScoring } from '../lib/scoring';
+import { DiceSettings } from '../lib/dice';
+import { VoteKind, VoteTally, VotingPolicy } from '../lib/voting';
 
 const SOCKET_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001';
 
@@ -8,6 +13,10 @@ export interface ScoreBreakdown {
   plausibility: number;
   connection: number;
   planetBonus: number;
+  /** points from other players' votes in the breaks */
+  peoplesChoice: number;
+  /** points from risk-mode bets that landed */
+  riskBonus: number;
 }
 
 /** one row of a player's usage-ranked planet panel */
@@ -22,12 +31,26 @@ export interface Player {
   nickname: string;
   isHost: boolean;
   joinedAt: string;
+  /** set while the host has muted the player */
+  mutedUntil?: string | null;
   totalScore?: number;
+  /** the round a late joiner came in during; null for players there from the start */
+  joinedRound?: number | null;
+  /** a late joiner's starting score, already included in totalScore */
+  catchUpScore?: number;
+  /** the player's team in a team game */
+  team?: string | null;
   planetPanel?: PlanetPanelEntry[];
   scoreBreakdown?: ScoreBreakdown;
 }
 
-interface SessionState {
+export interface DiceCommitment {
+  algorithm: string;
+  seedHash: string;
+  seed: string | null;
+}
+
+export interface SessionState {
   id: string;
   joinCode: string;
   status: string;
@@ -39,9 +62,32 @@ interface SessionState {
   maxRounds: number;
   phaseStartedAt: string | null;
   phaseEndsAt: string | null;
+  pausedAt: string | null;
   serverNow: string;
   inGameNow: string | null;
   timelineSpeedRatio: number;
+  breakSchedule: number[];
+  summaryRounds: number[];
+  startYear: number | null;
+  totalYears: number;
+  /** planet pack id, or 'custom' for a host-supplied set */
+  planetPack: string;
+  planets: PlanetDefinition[];
+  scenario: ScenarioSummary;
+  /** whether new players may join once the game has started, and their starting score */
+  lateJoin: { allowed: boolean; catchUp: 'none' | 'lowest' | 'average' };
+  /** set while the host has locked the session against new players */
+  joinLocked: boolean;
+  /** team names in a team game; empty when everyone plays for themselves */
+  teams: string[];
+  /** the session's scoring preset and points */
+  scoring: SessionScoring;
+  /** whether players vote on headlines in the breaks, and what votes are worth */
+  voting: VotingPolicy;
+  /** the hash of the session's dice seed; the seed itself once the game is over */
+  dice: DiceCommitment | null;
+  /** the band weights rolls map through, and whether risk mode is on */
+  diceSettings: DiceSettings;
   players: Player[];
 }
 
@@ -54,6 +100,8 @@ export interface Headline {
   text: string;
   /** dice-rolled band of the displayed headline variant (1-5); drives typography */
   selectedBand?: number | null;
+  /** the band the author bet on in risk mode */
+  targetBand?: number | null;
   /** ai-assessed plausibility band (1-5) */
   plausibilityBand?: number | null;
   createdAt: string;
@@ -62,8 +110,44 @@ export interface Headline {
   plausibilityScore?: number | null;
   connectionScore?: number | null;
   planetBonusScore?: number | null;
+  riskBonusScore?: number | null;
   totalScore?: number | null;
   planets?: string[];
+  /**
+   * 'pending' while the juror deliberates, 'failed' while it is down; in both cases
+   * text is the raw story direction until the headline is evaluated
+   */
+  llmStatus?: string | null;
+  /**
+   * 'flagged' headlines are shown only to their author and the host until the
+   * host approves or hides them
+   */
+  moderationStatus?: HeadlineModerationStatus;
+  moderationReason?: string | null;
+  /** other players' votes from the break after its round */
+  votes?: VoteTally;
+  /** this player's vote on it */
+  myVote?: VoteKind | null;
+}
+
+export type HeadlineModerationStatus = 'approved' | 'flagged' | 'hidden';
+
+/** a host correction of the juror's verdict; the server rescores the headline */
+export interface HeadlineOverride {
+  plausibilityLevel?: number;
+  primaryPlanet?: string;
+}
+
+/** a story direction the content filter refused, as listed for the host */
+export interface HeadlineRejection {
+  id: string;
+  playerId: string;
+  playerNickname: string;
+  roundNo: number;
+  storyDirection: string;
+  reason: string;
+  categories: string[];
+  createdAt: string;
 }
 
 export interface HighlightedHeadline {
@@ -90,6 +174,31 @@ export interface RoundSummary {
   error: string | null;
 }
 
+/** what a late joiner missed, sent with their lobby:join */
+interface CatchUp {
+  headlines: Headline[];
+  roundSummary: { roundNo: number; summary: RoundSummaryOutput } | null;
+}
+
+/** the socket callback of lobby:join */
+interface JoinLobbyResponse {
+  success: boolean;
+  state?: SessionState;
+  catchUp?: CatchUp;
+  error?: string;
+}
+
+/** the recap a late joiner missed, in the shape RoundSummary renders */
+function catchUpRecap(catchUp: CatchUp): RoundSummary | null {
+  if (!catchUp.roundSummary) return null;
+  return {
+    roundNo: catchUp.roundSummary.roundNo,
+    status: 'completed',
+    summary: catchUp.roundSummary.summary,
+    error: null,
+  };
+}
+
 export interface NarrativeReport {
   character: {
     name: string;
@@ -115,6 +224,8 @@ interface SubmitHeadlineResult {
   headline?: Headline;
   error?: string;
   cooldownMs?: number;
+  /** set when the content filter flagged or rejected the submission */
+  moderation?: { status: 'flagged' | 'rejected'; reason: string | null };
 }
 
 interface UseSocketReturn {
@@ -124,10 +235,45 @@ interface UseSocketReturn {
   headlines: Headline[];
   roundSummary: RoundSummary | null;
   finalSummary: FinalSummary | null;
-  joinLobby: (joinCode: string, playerId: string) => Promise<boolean>;
+  /** the last round recap, for a player who joined after it was shown */
+  catchUpSummary: RoundSummary | null;
+  dismissCatchUp: () => void;
+  /** host-only: story directions the content filter refused, newest first */
+  rejections: HeadlineRejection[];
+  /** set when the server signs this player out; the stored session is no longer usable */
+  signedOut: string | null;
+  /** set when the host reset the spectator code this socket was watching with */
+  spectatorRevoked: boolean;
+  joinLobby: (joinCode: string, playerId: string, token: string) => Promise<boolean>;
+  /** watch a session read-only with its spectator code (projector view) */
+  spectate: (spectatorCode: string) => Promise<boolean>;
   leaveLobby: () => void;
+  /** host-only: revoke a player's tokens; resolves to their new recovery code */
+  revokePlayer: (joinCode: string, playerId: string) => Promise<string | null>;
+  kickPlayer: (joinCode: string, playerId: string, ban: boolean) => Promise<boolean>;
+  renamePlayer: (joinCode: string, playerId: string, nickname: string) => Promise<boolean>;
+  mutePlayer: (joinCode: string, playerId: string, minutes: number) => Promise<boolean>;
+  unmutePlayer: (joinCode: string, playerId: string) => Promise<boolean>;
+  transferHost: (joinCode: string, playerId: string) => Promise<boolean>;
+  /** host-only: refuse (or again accept) new players */
+  lockSession: (joinCode: string, locked: boolean) => Promise<boolean>;
+  /** host-only, in the lobby of a team game */
+  setPlayerTeam: (joinCode: string, playerId: string, team: string) => Promise<boolean>;
+  balanceTeams: (joinCode: string) => Promise<boolean>;
+  /** host-only: the code for the projector link; resetting it disconnects old spectators */
+  loadSpectatorCode: (joinCode: string) => Promise<string | null>;
+  resetSpectatorCode: (joinCode: string) => Promise<string | null>;
   startGame: (joinCode: string) => Promise<boolean>;
-  submitHeadline: (joinCode: string, headline: string) => Promise<SubmitHeadlineResult>;
+  pauseGame: (joinCode: string) => Promise<boolean>;
+  resumeGame: (joinCode: string) => Promise<boolean>;
+  extendPhase: (joinCode: string, minutes: number) => Promise<boolean>;
+  skipPhase: (joinCode: string) => Promise<boolean>;
+  reviewHeadline: (joinCode: string, headlineId: string, decision: 'approve' | 'hide') => Promise<boolean>;
+  overrideHeadline: (joinCode: string, headlineId: string, changes: HeadlineOverride) => Promise<boolean>;
+  loadReviewQueue: (joinCode: string) => Promise<boolean>;
+  /** during a break: vote on another player's headline, null takes the vote back */
+  voteHeadline: (joinCode: string, headlineId: string, vote: VoteKind | null) => Promise<boolean>;
+  submitHeadline: (joinCode: string, headline: string, targetBand?: PlausibilityLevel | null) => Promise<SubmitHeadlineResult>;
   loadHeadlines: (joinCode: string, roundNo?: number) => Promise<boolean>;
   requestSummary: (joinCode: string, roundNo: number) => Promise<boolean>;
   requestFinalSummary: (joinCode: string, roundNo: number) => Promise<boolean>;
@@ -140,7 +286,12 @@ export function useSocket(): UseSocketReturn {
   const [headlines, setHeadlines] = useState<Headline[]>([]);
   const [roundSummary, setRoundSummary] = useState<RoundSummary | null>(null);
   const [finalSummary, setFinalSummary] = useState<FinalSummary | null>(null);
-  const rejoinRef = useRef<{ joinCode: string; playerId: string } | null>(null);
+  const [catchUpSummary, setCatchUpSummary] = useState<RoundSummary | null>(null);
+  const [signedOut, setSignedOut] = useState<string | null>(null);
+  const [rejections, setRejections] = useState<HeadlineRejection[]>([]);
+  const [spectatorRevoked, setSpectatorRevoked] = useState(false);
+  const rejoinRef = useRef<{ joinCode: string; playerId: string; token: string } | null>(null);
+  const spectateRef = useRef<string | null>(null);
 
   useEffect(() => {
     // initialize socket connection
@@ -157,13 +308,33 @@ export function useSocket(): UseSocketReturn {
       console.log('Socket connected:', socket.id);
       setConnected(true);
       if (rejoinRef.current) {
-        const { joinCode, playerId } = rejoinRef.current;
+        const { joinCode } = rejoinRef.current;
         socket.emit(
           'lobby:join',
-          { joinCode, playerId },
+          { joinCode },
+          (response: JoinLobbyResponse) => {
+            if (response.success && response.state) {
+              setSessionState(response.state);
+              // a late joiner's catch-up already carries the feed
+              if (response.catchUp) {
+                setHeadlines(response.catchUp.headlines);
+                setCatchUpSummary(catchUpRecap(response.catchUp));
+                return;
+              }
+              socket.emit('headline:get_feed', { joinCode }, (feedRes: { headlines?: Headline[] }) => {
+                if (feedRes.headlines) setHeadlines(feedRes.headlines);
+              });
+            }
+          }
+        );
+      } else if (spectateRef.current) {
+        socket.emit(
+          'spectator:join',
+          { spectatorCode: spectateRef.current },
           (response: { success: boolean; state?: SessionState; error?: string }) => {
             if (response.success && response.state) {
               setSessionState(response.state);
+              const { joinCode } = response.state;
               socket.emit('headline:get_feed', { joinCode }, (feedRes: { headlines?: Headline[] }) => {
                 if (feedRes.headlines) setHeadlines(feedRes.headlines);
               });
@@ -178,9 +349,73 @@ export function useSocket(): UseSocketReturn {
       setConnected(false);
     });
 
-    socket.on('connect_error', (error) => {
+    // drop the player's token and reconnect anonymously so the landing pages still work
+    const signOut = (reason: string) => {
+      rejoinRef.current = null;
+      socket.auth = {};
+      setSessionState(null);
+      setHeadlines([]);
+      setRoundSummary(null);
+      setFinalSummary(null);
+      setCatchUpSummary(null);
+      setRejections([]);
+      setSignedOut(reason);
+      socket.disconnect().connect();
+    };
+
+    socket.on('connect_error', (error: Error & { data?: { code?: string } }) => {
       console.error('Socket connection error:', error);
       setConnected(false);
+      const code = error.data?.code;
+      if (code === 'REVOKED_TOKEN' || code === 'INVALID_TOKEN' || code === 'UNKNOWN_PLAYER') {
+        signOut('Your sign-in for this game is no longer valid. Rejoin with your recovery code.');
+      }
+    });
+
+    socket.on('session:revoked', () => {
+      signOut('The host signed you out of this game.');
+    });
+
+    // the host reset the spectator code; the server disconnects us right after
+    socket.on('spectator:revoked', () => {
+      spectateRef.current = null;
+      setSessionState(null);
+      setHeadlines([]);
+      setRoundSummary(null);
+      setFinalSummary(null);
+      setSpectatorRevoked(true);
+      socket.disconnect().connect();
+    });
+
+    // host moderation
+    socket.on('lobby:player_removed', (data: { playerId: string; banned: boolean }) => {
+      if (data.playerId === rejoinRef.current?.playerId) {
+        signOut(
+          data.banned
+            ? 'The host removed you from this game.'
+            : 'The host removed you from this game. You can rejoin with your recovery code.'
+        );
+        return;
+      }
+      setSessionState((prev) =>
+        prev ? { ...prev, players: prev.players.filter((p) => p.id !== data.playerId) } : prev
+      );
+    });
+
+    socket.on('lobby:player_updated', (data: { playerId: string; player: Partial<Player> }) => {
+      setSessionState((prev) =>
+        prev
+          ? { ...prev, players: prev.players.map((p) => (p.id === data.playerId ? { ...p, ...data.player } : p)) }
+          : prev
+      );
+    });
+
+    socket.on('lobby:host_changed', (data: { hostPlayerId: string }) => {
+      setSessionState((prev) => (prev ? { ...prev, hostPlayerId: data.hostPlayerId } : prev));
+    });
+
+    socket.on('lobby:join_locked', (data: { locked: boolean }) => {
+      setSessionState((prev) => (prev ? { ...prev, joinLocked: data.locked } : prev));
     });
 
     // listen for lobby events
@@ -235,8 +470,8 @@ export function useSocket(): UseSocketReturn {
       });
     });
 
-    // new headlines
-    socket.on('headline:new', (headline: Headline) => {
+    // new headlines (seeds arrive evaluated; player submissions arrive pending)
+    const addHeadline = (headline: Headline) => {
       console.log('New headline:', headline);
       setHeadlines((prev) => {
         if (prev.some((h) => h.id === headline.id)) {
@@ -244,6 +479,37 @@ export function useSocket(): UseSocketReturn {
         }
         return [...prev, headline];
       });
+    };
+    socket.on('headline:new', addHeadline);
+    socket.on('headline:pending', addHeadline);
+
+    // insert or patch in place; a flagged headline reaches the room only once approved.
+    // room broadcasts don't know this player's vote, so it is kept
+    const upsertHeadline = (headline: Headline) => {
+      setHeadlines((prev) =>
+        prev.some((h) => h.id === headline.id)
+          ? prev.map((h) => (h.id === headline.id ? { ...h, ...headline, myVote: h.myVote } : h))
+          : [...prev, headline].sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      );
+    };
+
+    // the juror has ruled on a pending headline (or failed and queued a retry)
+    socket.on('headline:evaluated', upsertHeadline);
+
+    // content moderation: the host approved, hid or corrected a headline
+    socket.on('headline:approved', (data: { headline: Headline }) => upsertHeadline(data.headline));
+    socket.on('headline:corrected', (data: { headline: Headline }) => upsertHeadline(data.headline));
+    socket.on('headline:hidden', (data: { headlineId: string }) => {
+      setHeadlines((prev) =>
+        prev.map((h) => (h.id === data.headlineId ? { ...h, moderationStatus: 'hidden' } : h))
+      );
+    });
+    // someone voted on a headline in the break
+    socket.on('headline:votes', (data: { headlineId: string; votes: VoteTally }) => {
+      setHeadlines((prev) => prev.map((h) => (h.id === data.headlineId ? { ...h, votes: data.votes } : h)));
+    });
+    socket.on('moderation:rejected', (data: { rejection: HeadlineRejection }) => {
+      setRejections((prev) => [data.rejection, ...prev.filter((r) => r.id !== data.rejection.id)]);
     });
 
     // leaderboard updates (real-time score changes)
@@ -252,7 +518,7 @@ export function useSocket(): UseSocketReturn {
       lastScoredHeadline?: {
         headlineId?: string;
         playerId: string;
-        breakdown?: { baseline: number; plausibility: number; connectionScore: number; planetBonus: number; total: number };
+        breakdown?: { baseline: number; plausibility: number; connectionScore: number; planetBonus: number; riskBonus?: number; total: number };
       };
     }) => {
       console.log('Leaderboard updated:', data);
@@ -284,6 +550,7 @@ export function useSocket(): UseSocketReturn {
                   plausibilityScore: breakdown.plausibility,
                   connectionScore: breakdown.connectionScore,
                   planetBonusScore: breakdown.planetBonus,
+                  riskBonusScore: breakdown.riskBonus ?? 0,
                   totalScore: breakdown.total,
                 }
               : h
@@ -297,41 +564,119 @@ export function useSocket(): UseSocketReturn {
     };
   }, []);
 
-  const joinLobby = async (joinCode: string, playerId: string): Promise<boolean> => {
+  const joinLobby = async (joinCode: string, playerId: string, token: string): Promise<boolean> => {
     return new Promise((resolve) => {
-      if (!socketRef.current) {
+      const socket = socketRef.current;
+      if (!socket) {
         resolve(false);
         return;
       }
 
-      socketRef.current.emit(
-        'lobby:join',
-        { joinCode, playerId },
+      const emitJoin = () => {
+        socket.off('connect_error', onConnectError);
+        socket.emit(
+          'lobby:join',
+          { joinCode },
+          (response: JoinLobbyResponse) => {
+            if (response.success && response.state) {
+              setSessionState(response.state);
+              if (response.catchUp) {
+                setHeadlines(response.catchUp.headlines);
+                setCatchUpSummary(catchUpRecap(response.catchUp));
+              }
+              rejoinRef.current = { joinCode, playerId, token };
+              resolve(true);
+            } else {
+              console.error('Failed to join lobby:', response.error);
+              resolve(false);
+            }
+          }
+        );
+      };
+      const onConnectError = () => {
+        socket.off('connect', emitJoin);
+        resolve(false);
+      };
+
+      setSignedOut(null);
+      // the token is read during the handshake, so a new one needs a fresh connection
+      if (socket.connected && (socket.auth as { token?: string }).token === token) {
+        emitJoin();
+        return;
+      }
+      rejoinRef.current = null;
+      socket.auth = { token };
+      socket.once('connect', emitJoin);
+      socket.once('connect_error', onConnectError);
+      socket.disconnect().connect();
+    });
+  };
+
+  const spectate = useCallback(async (spectatorCode: string): Promise<boolean> => {
+    return new Promise((resolve) => {
+      const socket = socketRef.current;
+      if (!socket) {
+        resolve(false);
+        return;
+      }
+
+      setSpectatorRevoked(false);
+      socket.emit(
+        'spectator:join',
+        { spectatorCode },
         (response: { success: boolean; state?: SessionState; error?: string }) => {
           if (response.success && response.state) {
             setSessionState(response.state);
-            rejoinRef.current = { joinCode, playerId };
+            spectateRef.current = spectatorCode;
             resolve(true);
           } else {
-            console.error('Failed to join lobby:', response.error);
+            console.error('Failed to join as spectator:', response.error);
             resolve(false);
           }
         }
       );
     });
-  };
+  }, []);
 
   const leaveLobby = useCallback(() => {
     rejoinRef.current = null;
+    spectateRef.current = null;
     if (socketRef.current) {
       socketRef.current.emit('lobby:leave');
       setSessionState(null);
       setHeadlines([]);
       setRoundSummary(null);
       setFinalSummary(null);
+      setCatchUpSummary(null);
+      setRejections([]);
     }
   }, []);
 
+  const dismissCatchUp = useCallback(() => setCatchUpSummary(null), []);
+
+  const revokePlayer = useCallback(async (joinCode: string, playerId: string): Promise<string | null> => {
+    return new Promise((resolve) => {
+      if (!socketRef.current) {
+        resolve(null);
+        return;
+      }
+
+      socketRef.current.emit(
+        'player:revoke_token',
+        { joinCode, playerId },
+        (response: { success: boolean; recoveryCode?: string; error?: string }) => {
+          if (response.success && response.recoveryCode) {
+            resolve(response.recoveryCode);
+          } else {
+            console.error('Failed to sign out player:', response.error);
+            alert(response.error || 'Failed to sign out player');
+            resolve(null);
+          }
+        }
+      );
+    });
+  }, []);
+
   const startGame = useCallback(async (joinCode: string): Promise<boolean> => {
     return new Promise((resolve) => {
       if (!socketRef.current) {
@@ -356,7 +701,189 @@ export function useSocket(): UseSocketReturn {
     });
   }, []);
 
-  const submitHeadline = useCallback(async (joinCode: string, headline: string): Promise<SubmitHeadlineResult> => {
+  // host-only game loop controls; the server broadcasts the new game:state on success
+  const emitHostControl = useCallback(async (event: string, payload: Record<string, unknown>): Promise<boolean> => {
+    return new Promise((resolve) => {
+      if (!socketRef.current) {
+        resolve(false);
+        return;
+      }
+
+      socketRef.current.emit(event, payload, (response: { success: boolean; error?: string }) => {
+        if (response.success) {
+          resolve(true);
+        } else {
+          console.error(`Failed ${event}:`, response.error);
+          alert(response.error || 'Failed to update game');
+          resolve(false);
+        }
+      });
+    });
+  }, []);
+
+  const pauseGame = useCallback(
+    (joinCode: string) => emitHostControl('game:pause', { joinCode }),
+    [emitHostControl]
+  );
+
+  const resumeGame = useCallback(
+    (joinCode: string) => emitHostControl('game:resume', { joinCode }),
+    [emitHostControl]
+  );
+
+  const extendPhase = useCallback(
+    (joinCode: string, minutes: number) => emitHostControl('game:extend_phase', { joinCode, minutes }),
+    [emitHostControl]
+  );
+
+  const kickPlayer = useCallback(
+    (joinCode: string, playerId: string, ban: boolean) => emitHostControl('player:kick', { joinCode, playerId, ban }),
+    [emitHostControl]
+  );
+
+  const renamePlayer = useCallback(
+    (joinCode: string, playerId: string, nickname: string) =>
+      emitHostControl('player:rename', { joinCode, playerId, nickname }),
+    [emitHostControl]
+  );
+
+  const mutePlayer = useCallback(
+    (joinCode: string, playerId: string, minutes: number) =>
+      emitHostControl('player:mute', { joinCode, playerId, minutes }),
+    [emitHostControl]
+  );
+
+  const unmutePlayer = useCallback(
+    (joinCode: string, playerId: string) => emitHostControl('player:unmute', { joinCode, playerId }),
+    [emitHostControl]
+  );
+
+  const transferHost = useCallback(
+    (joinCode: string, playerId: string) => emitHostControl('host:transfer', { joinCode, playerId }),
+    [emitHostControl]
+  );
+
+  const lockSession = useCallback(
+    (joinCode: string, locked: boolean) => emitHostControl('lobby:lock', { joinCode, locked }),
+    [emitHostControl]
+  );
+
+  const setPlayerTeam = useCallback(
+    (joinCode: string, playerId: string, team: string) =>
+      emitHostControl('player:set_team', { joinCode, playerId, team }),
+    [emitHostControl]
+  );
+
+  const balanceTeams = useCallback(
+    (joinCode: string) => emitHostControl('lobby:balance_teams', { joinCode }),
+    [emitHostControl]
+  );
+
+  const requestSpectatorCode = useCallback(async (event: string, joinCode: string): Promise<string | null> => {
+    return new Promise((resolve) => {
+      if (!socketRef.current) {
+        resolve(null);
+        return;
+      }
+
+      socketRef.current.emit(
+        event,
+        { joinCode },
+        (response: { success: boolean; spectatorCode?: string; error?: string }) => {
+          if (response.success && response.spectatorCode) {
+            resolve(response.spectatorCode);
+          } else {
+            console.error(`Failed ${event}:`, response.error);
+            resolve(null);
+          }
+        }
+      );
+    });
+  }, []);
+
+  const loadSpectatorCode = useCallback(
+    (joinCode: string) => requestSpectatorCode('spectator:get_code', joinCode),
+    [requestSpectatorCode]
+  );
+
+  const resetSpectatorCode = useCallback(
+    (joinCode: string) => requestSpectatorCode('spectator:reset_code', joinCode),
+    [requestSpectatorCode]
+  );
+
+  const skipPhase = useCallback(
+    (joinCode: string) => emitHostControl('game:skip_phase', { joinCode }),
+    [emitHostControl]
+  );
+
+  const reviewHeadline = useCallback(
+    (joinCode: string, headlineId: string, decision: 'approve' | 'hide') =>
+      emitHostControl('moderation:review', { joinCode, headlineId, decision }),
+    [emitHostControl]
+  );
+
+  const overrideHeadline = useCallback(
+    (joinCode: string, headlineId: string, changes: HeadlineOverride) =>
+      emitHostControl('moderation:override', { joinCode, headlineId, ...changes }),
+    [emitHostControl]
+  );
+
+  // host-only: flagged headlines already arrive with the feed, so only the rejections are kept
+  const loadReviewQueue = useCallback(async (joinCode: string): Promise<boolean> => {
+    return new Promise((resolve) => {
+      if (!socketRef.current) {
+        resolve(false);
+        return;
+      }
+
+      socketRef.current.emit(
+        'moderation:get_queue',
+        { joinCode },
+        (response: { success: boolean; queue?: { rejections: HeadlineRejection[] }; error?: string }) => {
+          if (response.success && response.queue) {
+            setRejections(response.queue.rejections);
+            resolve(true);
+          } else {
+            console.error('Failed to load review queue:', response.error);
+            resolve(false);
+          }
+        }
+      );
+    });
+  }, []);
+
+  const voteHeadline = useCallback(
+    async (joinCode: string, headlineId: string, vote: VoteKind | null): Promise<boolean> => {
+      return new Promise((resolve) => {
+        if (!socketRef.current) {
+          resolve(false);
+          return;
+        }
+
+        socketRef.current.emit(
+          'headline:vote',
+          { joinCode, headlineId, vote },
+          (response: { success: boolean; vote?: VoteKind | null; tally?: VoteTally; error?: string }) => {
+            if (response.success) {
+              setHeadlines((prev) =>
+                prev.map((h) =>
+                  h.id === headlineId ? { ...h, myVote: response.vote ?? null, votes: response.tally ?? h.votes } : h
+                )
+              );
+              resolve(true);
+            } else {
+              console.error('Failed to vote:', response.error);
+              alert(response.error || 'Failed to vote');
+              resolve(false);
+            }
+          }
+        );
+      });
+    },
+    []
+  );
+
+  const submitHeadline = useCallback(async (joinCode: string, headline: string, targetBand: PlausibilityLevel | null = null): Promise<SubmitHeadlineResult> => {
     return new Promise((resolve) => {
       if (!socketRef.current) {
         resolve({ success: false, error: 'Not connected' });
@@ -365,7 +892,7 @@ export function useSocket(): UseSocketReturn {
 
       socketRef.current.emit(
         'headline:submit',
-        { joinCode, headline },
+        { joinCode, headline, ...(targetBand !== null && { targetBand }) },
         (response: SubmitHeadlineResult) => {
           if (response.success) {
             console.log('Headline submitted:', response.headline);
@@ -466,9 +993,34 @@ export function useSocket(): UseSocketReturn {
     headlines,
     roundSummary,
     finalSummary,
+    catchUpSummary,
+    dismissCatchUp,
+    rejections,
+    signedOut,
+    spectatorRevoked,
     joinLobby,
+    spectate,
     leaveLobby,
+    revokePlayer,
+    kickPlayer,
+    renamePlayer,
+    mutePlayer,
+    unmutePlayer,
+    transferHost,
+    lockSession,
+    setPlayerTeam,
+    balanceTeams,
+    loadSpectatorCode,
+    resetSpectatorCode,
     startGame,
+    pauseGame,
+    resumeGame,
+    extendPhase,
+    skipPhase,
+    reviewHeadline,
+    overrideHeadline,
+    loadReviewQueue,
+    voteHeadline,
     submitHeadline,
     loadHeadlines,
     requestSummary,
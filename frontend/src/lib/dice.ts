@@ -0,0 +1,61 @@
+/**
+ * the session's dice distribution for the frontend: the band weights rolls
+ * map through and whether risk mode is on, as the server sends them with the
+ * game state, and what the host sends at creation.
+ */
+
+import { PlausibilityLevel } from './scoring';
+
+/** each band's chance in whole percent, band 1 first; they add up to 100 */
+export type BandWeights = [number, number, number, number, number];
+
+/** mirrors the backend's DiceSettings */
+export interface DiceSettings {
+  preset: string;
+  /** set when the host changed the preset's weights */
+  tuned: boolean;
+  weights: BandWeights;
+  /** whether players may bet on a band with a submission */
+  riskMode: boolean;
+}
+
+/** a preset as listed by GET /api/dice-presets */
+export interface DicePreset {
+  id: string;
+  name: string;
+  description: string;
+  weights: BandWeights;
+}
+
+export const DEFAULT_DICE_PRESET = 'standard';
+
+/** preset names, for sessions whose state arrives before the preset list */
+export const DICE_PRESET_NAMES: Record<string, string> = {
+  standard: 'Standard',
+  chaos: 'Chaos',
+  grounded: 'Grounded',
+  even: 'Even odds',
+};
+
+export const BAND_LABELS: Record<PlausibilityLevel, string> = {
+  1: 'Inevitable',
+  2: 'Probable',
+  3: 'Plausible',
+  4: 'Possible',
+  5: 'Preposterous',
+};
+
+/** what the host picks at session creation: a preset, its weights if they changed them, and risk mode */
+export interface DiceChoice {
+  preset: string;
+  weights: BandWeights | null;
+  riskMode: boolean;
+}
+
+/** the create-session body's `dice` */
+export function toDiceRequest(choice: DiceChoice): Record<string, unknown> {
+  return { preset: choice.preset, riskMode: choice.riskMode, ...(choice.weights && { weights: choice.weights }) };
+}
+
+/** mirrors the backend's RISK_BIAS: a bet doubles its band's chance */
+export const RISK_BIAS = 2;
@@ -1,20 +1,27 @@
 /**
- * shared planet metadata for the frontend: keyword tags and colour classes.
- * the colour class strings are written out in full so Tailwind's content
- * scanner keeps them in the build.
+ * planet metadata for the frontend. a session's planets (ids, tags and a
+ * palette colour) come from the server with the game state; this file maps
+ * palette colours to classes. the class strings are written out in full so
+ * Tailwind's content scanner keeps them in the build.
  */
 
-export const PLANET_TAGS: Record<string, string[]> = {
-  EARTH:   ['Nature', 'Environment', 'Climate', 'Humanity', 'Justice'],
-  MARS:    ['War', 'Conflict', 'Military', 'Defense', 'Security'],
-  MERCURY: ['Communication', 'Media', 'Journalism', 'Networks', 'Information'],
-  VENUS:   ['Art', 'Beauty', 'Culture', 'Entertainment', 'Creativity'],
-  JUPITER: ['Power', 'Governance', 'Politics', 'Leadership', 'Institutions'],
-  SATURN:  ['Time', 'Aging', 'Legacy', 'Tradition', 'History'],
-  NEPTUNE: ['Dreams', 'Spirituality', 'Consciousness', 'Illusion', 'Religion'],
-  URANUS:  ['Innovation', 'Revolution', 'Disruption', 'Technology', 'Breakthroughs'],
-  PLUTO:   ['Transformation', 'Hidden forces', 'Secrets', 'Rebirth', 'Upheaval'],
-};
+/** a planet as the session plays it; mirrors the backend's PlanetDefinition */
+export interface PlanetDefinition {
+  id: string;
+  description: string;
+  tags: string[];
+  color: string;
+}
+
+/** a built-in planet pack from GET /api/planet-packs */
+export interface PlanetPack {
+  id: string;
+  name: string;
+  planets: PlanetDefinition[];
+}
+
+/** what the host picks at session creation: a pack, or a custom set */
+export type PlanetSetChoice = { pack: string } | { planets: PlanetDefinition[] };
 
 export interface PlanetColor {
   /** left-border colour (for the headline feed) */
@@ -27,19 +34,39 @@ export interface PlanetColor {
   dot: string;
 }
 
-export const PLANET_COLORS: Record<string, PlanetColor> = {
-  EARTH:   { borderL: 'border-l-green-400',  bg: 'bg-green-50',  text: 'text-green-700',  dot: 'bg-green-400' },
-  MARS:    { borderL: 'border-l-red-400',    bg: 'bg-red-50',    text: 'text-red-700',    dot: 'bg-red-400' },
-  MERCURY: { borderL: 'border-l-cyan-400',   bg: 'bg-cyan-50',   text: 'text-cyan-700',   dot: 'bg-cyan-400' },
-  VENUS:   { borderL: 'border-l-pink-400',   bg: 'bg-pink-50',   text: 'text-pink-700',   dot: 'bg-pink-400' },
-  JUPITER: { borderL: 'border-l-orange-400', bg: 'bg-orange-50', text: 'text-orange-700', dot: 'bg-orange-400' },
-  SATURN:  { borderL: 'border-l-yellow-400', bg: 'bg-yellow-50', text: 'text-yellow-700', dot: 'bg-yellow-400' },
-  NEPTUNE: { borderL: 'border-l-blue-400',   bg: 'bg-blue-50',   text: 'text-blue-700',   dot: 'bg-blue-400' },
-  URANUS:  { borderL: 'border-l-teal-400',   bg: 'bg-teal-50',   text: 'text-teal-700',   dot: 'bg-teal-400' },
-  PLUTO:   { borderL: 'border-l-purple-400', bg: 'bg-purple-50', text: 'text-purple-700', dot: 'bg-purple-400' },
+/** palette colours a planet may use, keyed as the backend names them */
+export const PLANET_PALETTE: Record<string, PlanetColor> = {
+  green:   { borderL: 'border-l-green-400',   bg: 'bg-green-50',   text: 'text-green-700',   dot: 'bg-green-400' },
+  red:     { borderL: 'border-l-red-400',     bg: 'bg-red-50',     text: 'text-red-700',     dot: 'bg-red-400' },
+  cyan:    { borderL: 'border-l-cyan-400',    bg: 'bg-cyan-50',    text: 'text-cyan-700',    dot: 'bg-cyan-400' },
+  pink:    { borderL: 'border-l-pink-400',    bg: 'bg-pink-50',    text: 'text-pink-700',    dot: 'bg-pink-400' },
+  orange:  { borderL: 'border-l-orange-400',  bg: 'bg-orange-50',  text: 'text-orange-700',  dot: 'bg-orange-400' },
+  yellow:  { borderL: 'border-l-yellow-400',  bg: 'bg-yellow-50',  text: 'text-yellow-700',  dot: 'bg-yellow-400' },
+  blue:    { borderL: 'border-l-blue-400',    bg: 'bg-blue-50',    text: 'text-blue-700',    dot: 'bg-blue-400' },
+  teal:    { borderL: 'border-l-teal-400',    bg: 'bg-teal-50',    text: 'text-teal-700',    dot: 'bg-teal-400' },
+  purple:  { borderL: 'border-l-purple-400',  bg: 'bg-purple-50',  text: 'text-purple-700',  dot: 'bg-purple-400' },
+  lime:    { borderL: 'border-l-lime-400',    bg: 'bg-lime-50',    text: 'text-lime-700',    dot: 'bg-lime-400' },
+  indigo:  { borderL: 'border-l-indigo-400',  bg: 'bg-indigo-50',  text: 'text-indigo-700',  dot: 'bg-indigo-400' },
+  rose:    { borderL: 'border-l-rose-400',    bg: 'bg-rose-50',    text: 'text-rose-700',    dot: 'bg-rose-400' },
+  amber:   { borderL: 'border-l-amber-400',   bg: 'bg-amber-50',   text: 'text-amber-700',   dot: 'bg-amber-400' },
+  emerald: { borderL: 'border-l-emerald-400', bg: 'bg-emerald-50', text: 'text-emerald-700', dot: 'bg-emerald-400' },
+  sky:     { borderL: 'border-l-sky-400',     bg: 'bg-sky-50',     text: 'text-sky-700',     dot: 'bg-sky-400' },
+  violet:  { borderL: 'border-l-violet-400',  bg: 'bg-violet-50',  text: 'text-violet-700',  dot: 'bg-violet-400' },
+  fuchsia: { borderL: 'border-l-fuchsia-400', bg: 'bg-fuchsia-50', text: 'text-fuchsia-700', dot: 'bg-fuchsia-400' },
+  slate:   { borderL: 'border-l-slate-400',   bg: 'bg-slate-50',   text: 'text-slate-700',   dot: 'bg-slate-400' },
 };
 
-export function planetColor(id: string | undefined | null): PlanetColor | null {
+export const PLANET_COLOR_NAMES = Object.keys(PLANET_PALETTE);
+
+export const MIN_PLANETS = 3;
+export const MAX_PLANETS = 12;
+
+export function findPlanet(planets: PlanetDefinition[], id: string | undefined | null): PlanetDefinition | null {
   if (!id) return null;
-  return PLANET_COLORS[id] ?? null;
+  return planets.find((p) => p.id === id) ?? null;
+}
+
+export function planetColor(planets: PlanetDefinition[], id: string | undefined | null): PlanetColor | null {
+  const planet = findPlanet(planets, id);
+  return planet ? PLANET_PALETTE[planet.color] ?? null : null;
 }
@@ -0,0 +1,32 @@
+/**
+ * prompt variants for the frontend: what GET /api/prompt-variants lists and
+ * the assignments a host can send at session creation, for an a/b comparison
+ * of the juror, summary or narrative prompt.
+ */
+
+export type PromptKind = 'juror' | 'summary' | 'narrative';
+
+export const PROMPT_KINDS: { kind: PromptKind; label: string }[] = [
+  { kind: 'juror', label: 'Juror' },
+  { kind: 'summary', label: 'Round recap' },
+  { kind: 'narrative', label: 'Final narrative' },
+];
+
+/** a variant as listed by GET /api/prompt-variants */
+export interface PromptVariantInfo {
+  id: string;
+  kind: PromptKind;
+  version: number;
+  description: string;
+  isDefault: boolean;
+}
+
+/** mirrors the backend's PromptAssignment */
+export interface PromptAssignment {
+  variant: string;
+  /** share of the calls (0-1) that use the variant; all when unset */
+  fraction?: number;
+}
+
+/** mirrors the backend's PromptExperiment; kinds left out use their defaults */
+export type PromptExperiment = Partial<Record<PromptKind, PromptAssignment>>;
@@ -0,0 +1,31 @@
+/**
+ * scenario packs for the frontend: what a game is about. the server owns the
+ * packs; these mirror the shapes it sends.
+ */
+
+export interface ScenarioTopic {
+  subject: string;
+  framing: string;
+}
+
+/** a pack as listed by GET /api/scenarios */
+export interface ScenarioListing {
+  id: string;
+  name: string;
+  description: string;
+  topic: ScenarioTopic;
+  seedCount: number;
+  /** planet pack id, or 'custom' for the pack's own planets */
+  planetPack: string;
+  startYear: number | null;
+  builtIn: boolean;
+}
+
+/** the session's scenario, sent with the game state */
+export interface ScenarioSummary {
+  id: string;
+  name: string;
+  topic: ScenarioTopic;
+}
+
+export const DEFAULT_SCENARIO = 'ai';
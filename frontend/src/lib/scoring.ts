@@ -0,0 +1,61 @@
+/**
+ * scoring rules for the frontend: the session's preset and points, as the
+ * server sends them with the game state, and what the host sends at creation.
+ */
+
+export type PlausibilityLevel = 1 | 2 | 3 | 4 | 5;
+
+/** mirrors the backend's ScoringRules */
+export interface ScoringRules {
+  baseline: number;
+  plausibility: {
+    targetLevel: PlausibilityLevel;
+    nearLevels: PlausibilityLevel[];
+    exactTarget: number;
+    nearTarget: number;
+    other: number;
+  };
+  /** points by unique other authors: index = count (0-3) */
+  connectionScale: [number, number, number, number];
+  /** points by planet band: index = band (0 most used, 1 middle, 2 least used) */
+  planetBandPoints: [number, number, number];
+  /** points for a risk-mode bet that lands, by declared band: index = band - 1 */
+  riskBetPoints: [number, number, number, number, number];
+}
+
+/** a preset as listed by GET /api/scoring-presets */
+export interface ScoringPreset {
+  id: string;
+  name: string;
+  description: string;
+  rules: ScoringRules;
+}
+
+/** the session's scoring, sent with the game state */
+export interface SessionScoring {
+  preset: string;
+  /** set when the host changed any of the preset's points */
+  tuned: boolean;
+  rules: ScoringRules;
+}
+
+export const DEFAULT_SCORING_PRESET = 'classic';
+
+/** preset names, for sessions whose state arrives before the preset list */
+export const SCORING_PRESET_NAMES: Record<string, string> = {
+  classic: 'Classic',
+  weavers: 'Story weavers',
+  explorers: 'Explorers',
+  bold: 'Bold forecasts',
+};
+
+/** what the host picks at session creation: a preset, and its points if they changed any */
+export interface ScoringChoice {
+  preset: string;
+  rules: ScoringRules | null;
+}
+
+/** the create-session body's `scoring` */
+export function toScoringRequest(choice: ScoringChoice): Record<string, unknown> {
+  return { preset: choice.preset, ...choice.rules };
+}
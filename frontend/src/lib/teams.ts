@@ -0,0 +1,56 @@
+/**
+ * team standings for the frontend. the server sends each player's team with
+ * the game state; a team's score is the sum of its current members' scores,
+ * the same way the server's leaderboard:update totals them.
+ */
+
+interface Breakdown {
+  baseline: number;
+  plausibility: number;
+  connection: number;
+  planetBonus: number;
+  peoplesChoice: number;
+  riskBonus: number;
+}
+
+/** the player fields a standing is built from */
+export interface TeamMember {
+  id: string;
+  nickname: string;
+  team?: string | null;
+  totalScore?: number;
+  scoreBreakdown?: Breakdown;
+}
+
+export interface TeamStanding<M extends TeamMember = TeamMember> {
+  team: string;
+  totalScore: number;
+  members: M[];
+  scoreBreakdown: Breakdown;
+}
+
+/** team totals, highest first; players without a team are left out */
+export function teamStandings<M extends TeamMember>(players: M[]): TeamStanding<M>[] {
+  const byTeam = new Map<string, TeamStanding<M>>();
+  for (const player of players) {
+    if (!player.team) continue;
+    const standing = byTeam.get(player.team) ?? {
+      team: player.team,
+      totalScore: 0,
+      members: [],
+      scoreBreakdown: { baseline: 0, plausibility: 0, connection: 0, planetBonus: 0, peoplesChoice: 0, riskBonus: 0 },
+    };
+    standing.totalScore += player.totalScore ?? 0;
+    standing.members.push(player);
+    if (player.scoreBreakdown) {
+      standing.scoreBreakdown.baseline += player.scoreBreakdown.baseline;
+      standing.scoreBreakdown.plausibility += player.scoreBreakdown.plausibility;
+      standing.scoreBreakdown.connection += player.scoreBreakdown.connection;
+      standing.scoreBreakdown.planetBonus += player.scoreBreakdown.planetBonus;
+      standing.scoreBreakdown.peoplesChoice += player.scoreBreakdown.peoplesChoice ?? 0;
+      standing.scoreBreakdown.riskBonus += player.scoreBreakdown.riskBonus ?? 0;
+    }
+    byTeam.set(player.team, standing);
+  }
+  return Array.from(byTeam.values()).sort((a, b) => b.totalScore - a.totalScore);
+}
@@ -0,0 +1,86 @@
+/**
+ * player voting in the breaks ("people's choice"): upvotes and front-page
+ * stars on other players' headlines from the round just played. the server
+ * checks every vote; the helpers here only decide which buttons to show.
+ */
+
+export type VoteKind = 'up' | 'star';
+
+/** votes on one headline */
+export interface VoteTally {
+  upvotes: number;
+  stars: number;
+  points: number;
+}
+
+/** mirrors the backend's VotingPolicy */
+export interface VotingPolicy {
+  enabled: boolean;
+  upvotePoints: number;
+  starPoints: number;
+  /** votes of each kind a player can hand out per break */
+  upvotesPerBreak: number;
+  starsPerBreak: number;
+}
+
+export const DEFAULT_VOTING_POLICY: VotingPolicy = {
+  enabled: true,
+  upvotePoints: 1,
+  starPoints: 3,
+  upvotesPerBreak: 3,
+  starsPerBreak: 1,
+};
+
+export const MAX_VOTE_POINTS = 10;
+export const MAX_VOTES_PER_BREAK = 10;
+
+/** the headline fields a vote depends on */
+interface VotableHeadline {
+  playerId: string;
+  playerNickname: string;
+  roundNo: number;
+  moderationStatus?: string;
+  myVote?: VoteKind | null;
+}
+
+/** what a player can do in the feed during a break */
+export interface HeadlineVoteActions {
+  policy: VotingPolicy;
+  /** votes of each kind the player can still give this break */
+  remaining: { upvotes: number; stars: number };
+  canVote: (headline: VotableHeadline) => boolean;
+  /** null takes the player's vote back */
+  onVote: (headlineId: string, vote: VoteKind | null) => void;
+}
+
+/** votes of each kind the player has left, from their votes on the round's headlines */
+export function votesLeft(
+  headlines: VotableHeadline[],
+  roundNo: number,
+  policy: VotingPolicy
+): { upvotes: number; stars: number } {
+  const cast = headlines.filter((h) => h.roundNo === roundNo);
+  return {
+    upvotes: policy.upvotesPerBreak - cast.filter((h) => h.myVote === 'up').length,
+    stars: policy.starsPerBreak - cast.filter((h) => h.myVote === 'star').length,
+  };
+}
+
+/**
+ * whether the player may vote on the headline: another player's (another
+ * team's, in a team game) approved headline from this round, not the Archive's
+ */
+export function canVoteOn(
+  headline: VotableHeadline,
+  roundNo: number,
+  voter: { id: string; team?: string | null },
+  authorTeam: string | null | undefined
+): boolean {
+  return (
+    headline.roundNo === roundNo &&
+    headline.playerNickname !== 'Archive' &&
+    (headline.moderationStatus ?? 'approved') === 'approved' &&
+    headline.playerId !== voter.id &&
+    !(voter.team && authorTeam === voter.team)
+  );
+}
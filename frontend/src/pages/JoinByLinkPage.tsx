@@ -6,12 +6,14 @@ interface JoinByLinkPageProps {
   connected: boolean;
   loading: boolean;
   error: string;
-  onJoinSession: (joinCode: string, nickname: string) => Promise<void>;
+  onJoinSession: (joinCode: string, nickname: string, recoveryCode?: string) => Promise<void>;
 }
 
 export function JoinByLinkPage({ connected, loading, error, onJoinSession }: JoinByLinkPageProps) {
   const { joinCode } = useParams<{ joinCode: string }>();
   const [nickname, setNickname] = useState('');
+  const [rejoining, setRejoining] = useState(false);
+  const [recoveryCode, setRecoveryCode] = useState('');
   const [localError, setLocalError] = useState('');
 
   const handleJoin = async () => {
@@ -23,8 +25,12 @@ export function JoinByLinkPage({ connected, loading, error, onJoinSession }: Joi
       setLocalError('Invalid join link');
       return;
     }
+    if (rejoining && !recoveryCode.trim()) {
+      setLocalError('Please enter your recovery code');
+      return;
+    }
     setLocalError('');
-    await onJoinSession(joinCode, nickname.trim());
+    await onJoinSession(joinCode, nickname.trim(), rejoining ? recoveryCode.trim() : undefined);
   };
 
   const displayError = localError || error;
@@ -65,6 +71,30 @@ export function JoinByLinkPage({ connected, loading, error, onJoinSession }: Joi
             />
           </div>
 
+          {rejoining ? (
+            <div>
+              <label className="block text-xs font-medium text-gray-500 uppercase tracking-wider mb-1.5">
+                Recovery Code
+              </label>
+              <input
+                type="text"
+                value={recoveryCode}
+                onChange={(e) => setRecoveryCode(e.target.value)}
+                placeholder="XXXX-XXXX"
+                className="w-full px-3 py-2 text-sm font-mono uppercase border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-400 focus:border-transparent bg-gray-50"
+                maxLength={20}
+                onKeyDown={(e) => e.key === 'Enter' && !loading && handleJoin()}
+              />
+            </div>
+          ) : (
+            <button
+              onClick={() => setRejoining(true)}
+              className="text-xs text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              Already in this game? Rejoin with your recovery code
+            </button>
+          )}
+
           {displayError && (
             <div className="text-sm text-red-600 bg-red-50 px-3 py-2 rounded-lg">
               {displayError}
@@ -77,7 +107,7 @@ export function JoinByLinkPage({ connected, loading, error, onJoinSession }: Joi
             onClick={handleJoin}
             disabled={loading || !connected}
           >
-            {loading ? 'Joining...' : 'Join Game'}
+            {loading ? 'Joining...' : rejoining ? 'Rejoin Game' : 'Join Game'}
           </Button>
         </Card>
       </div>
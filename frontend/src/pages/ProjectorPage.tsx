@@ -0,0 +1,271 @@
+import { useEffect, useRef, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { Card, SectionTitle, Badge } from '../components/ui';
+import { PlanetHeatmap } from '../components/PlanetHeatmap';
+import { ProjectorSummary } from '../components/ProjectorSummary';
+import {
+  Headline,
+  SessionState,
+  RoundSummary as RoundSummaryType,
+  FinalSummary,
+} from '../hooks/useSocket';
+import { usePhaseTimer } from '../hooks/usePhaseTimer';
+import { useInGameNow } from '../hooks/useInGameNow';
+import { planetColor } from '../lib/planets';
+
+interface ProjectorPageProps {
+  connected: boolean;
+  sessionState: SessionState | null;
+  headlines: Headline[];
+  roundSummary: RoundSummaryType | null;
+  finalSummary: FinalSummary | null;
+  spectatorRevoked: boolean;
+  onSpectate: (spectatorCode: string) => Promise<boolean>;
+  onLoadHeadlines: (joinCode: string) => Promise<boolean>;
+  onRequestSummary: (joinCode: string, roundNo: number) => Promise<boolean>;
+  onRequestFinalSummary: (joinCode: string, roundNo: number) => Promise<boolean>;
+}
+
+/** how many of the latest headlines fit on the big screen */
+const SHOWN_HEADLINES = 7;
+
+const PHASE_LABELS: Record<string, { text: string; variant: 'default' | 'green' | 'yellow' | 'blue' | 'purple' }> = {
+  WAITING: { text: 'Waiting for players', variant: 'default' },
+  TUTORIAL: { text: 'Prologue', variant: 'yellow' },
+  PLAYING: { text: 'Playing', variant: 'green' },
+  BREAK: { text: 'Break', variant: 'blue' },
+  FINISHED: { text: 'Finished', variant: 'purple' },
+};
+
+// same scale as the feed's typography, a few sizes up for the room
+const BAND_TEXT: Record<number, string> = {
+  1: 'text-lg font-normal text-gray-600',
+  2: 'text-xl font-normal text-gray-700',
+  3: 'text-xl font-medium text-gray-800',
+  4: 'text-2xl font-semibold text-gray-900',
+  5: 'text-3xl font-bold text-gray-900',
+};
+
+/**
+ * read-only big-screen view, opened with the session's spectator code: the
+ * latest headlines, the in-game date, the phase countdown, the leaderboard and
+ * planet usage by round. breaks and the game end show the summaries as slides.
+ */
+export function ProjectorPage({
+  connected,
+  sessionState,
+  headlines,
+  roundSummary,
+  finalSummary,
+  spectatorRevoked,
+  onSpectate,
+  onLoadHeadlines,
+  onRequestSummary,
+  onRequestFinalSummary,
+}: ProjectorPageProps) {
+  const { spectatorCode } = useParams<{ spectatorCode: string }>();
+  const [notFound, setNotFound] = useState(false);
+  // the socket hook rejoins by itself after a reconnect
+  const joinedRef = useRef(false);
+
+  useEffect(() => {
+    if (!connected || !spectatorCode || joinedRef.current) return;
+    joinedRef.current = true;
+    onSpectate(spectatorCode.toUpperCase()).then((joined) => {
+      setNotFound(!joined);
+      joinedRef.current = joined;
+    });
+  }, [connected, spectatorCode, onSpectate]);
+
+  const joinCode = sessionState?.joinCode;
+  const phase = sessionState?.phase;
+  const currentRound = sessionState?.currentRound ?? 0;
+
+  useEffect(() => {
+    if (joinCode && phase !== 'WAITING') {
+      onLoadHeadlines(joinCode);
+    }
+  }, [joinCode, phase, onLoadHeadlines]);
+
+  useEffect(() => {
+    if (joinCode && phase === 'BREAK' && !roundSummary) {
+      onRequestSummary(joinCode, currentRound);
+    }
+  }, [joinCode, phase, currentRound, roundSummary, onRequestSummary]);
+
+  useEffect(() => {
+    if (joinCode && phase === 'FINISHED' && !finalSummary) {
+      onRequestFinalSummary(joinCode, currentRound);
+    }
+  }, [joinCode, phase, currentRound, finalSummary, onRequestFinalSummary]);
+
+  const { remainingFormatted } = usePhaseTimer({
+    phaseEndsAt: sessionState?.phaseEndsAt ?? null,
+    serverNow: sessionState?.serverNow ?? new Date().toISOString(),
+    pausedAt: sessionState?.pausedAt ?? null,
+  });
+  const inGameNow = useInGameNow({
+    inGameNow: sessionState?.inGameNow ?? null,
+    serverNow: sessionState?.serverNow ?? new Date().toISOString(),
+    timelineSpeedRatio: sessionState?.timelineSpeedRatio ?? 1,
+    enabled: phase === 'PLAYING' && !sessionState?.pausedAt,
+  });
+
+  if (spectatorRevoked || notFound) {
+    return (
+      <div className="h-[100dvh] bg-gradient-to-b from-gray-50 to-gray-100/80 flex items-center justify-center p-4">
+        <Card padding="lg" className="max-w-md text-center space-y-2">
+          <h1 className="text-2xl font-bold text-gray-900">
+            {spectatorRevoked ? 'This projector link was reset' : 'Unknown projector link'}
+          </h1>
+          <p className="text-gray-500">Ask the host for the current projector link.</p>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!sessionState) {
+    return (
+      <div className="h-[100dvh] bg-gradient-to-b from-gray-50 to-gray-100/80 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-2 border-gray-200 border-t-indigo-500" />
+      </div>
+    );
+  }
+
+  const phaseLabel = PHASE_LABELS[sessionState.phase] ?? { text: sessionState.phase, variant: 'default' as const };
+  const inGame = phase !== 'WAITING' && phase !== 'FINISHED';
+  const ranked = [...sessionState.players].sort((a, b) => (b.totalScore ?? 0) - (a.totalScore ?? 0));
+  const latest = headlines
+    .filter((h) => h.moderationStatus !== 'hidden')
+    .slice(-SHOWN_HEADLINES)
+    .reverse();
+  const inviteLink = `${window.location.origin}/join/${sessionState.joinCode}`;
+
+  return (
+    <div className="h-[100dvh] overflow-hidden flex flex-col bg-gradient-to-b from-gray-50 to-gray-100/80">
+      <header className="shrink-0 bg-white/80 border-b border-gray-100">
+        <div className="px-8 py-4 flex items-center justify-between gap-8">
+          <div className="min-w-0">
+            <h1 className="text-2xl font-bold text-gray-900 truncate">{sessionState.scenario.name}</h1>
+            <div className="flex items-center gap-3 mt-1">
+              <Badge variant={phaseLabel.variant} className="text-sm">{phaseLabel.text}</Badge>
+              {sessionState.pausedAt && <Badge variant="red" className="text-sm">Paused</Badge>}
+              {(phase === 'PLAYING' || phase === 'BREAK') && currentRound > 0 && (
+                <span className="text-lg text-gray-500">
+                  Round {currentRound}/{sessionState.maxRounds}
+                </span>
+              )}
+            </div>
+          </div>
+
+          {inGameNow && (
+            <div className="text-center">
+              <p className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Current Date</p>
+              <p className="text-5xl font-bold text-gray-800 tracking-tight">
+                {new Date(inGameNow).toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+              </p>
+            </div>
+          )}
+
+          {inGame && (
+            <span className="text-6xl font-mono font-semibold text-gray-800 tabular-nums">{remainingFormatted}</span>
+          )}
+        </div>
+      </header>
+
+      {phase === 'WAITING' ? (
+        <main className="flex-1 min-h-0 flex items-center justify-center p-8">
+          <div className="text-center space-y-6">
+            <p className="text-xl text-gray-500">Join the game at</p>
+            <p className="text-4xl font-semibold text-gray-800">{inviteLink}</p>
+            <p className="text-8xl font-mono font-bold text-indigo-600 tracking-widest">{sessionState.joinCode}</p>
+            <div className="flex flex-wrap justify-center gap-3 max-w-4xl">
+              {sessionState.players.map((player) => (
+                <Badge key={player.id} className="text-lg">{player.nickname}</Badge>
+              ))}
+            </div>
+          </div>
+        </main>
+      ) : (
+        <main className="flex-1 min-h-0 grid grid-cols-[1fr_420px] gap-6 px-8 py-6">
+          <section className="min-h-0">
+            <Card padding="lg" className="h-full flex flex-col">
+              {phase === 'BREAK' || phase === 'FINISHED' ? (
+                <ProjectorSummary
+                  roundSummary={phase === 'BREAK' ? roundSummary : null}
+                  finalSummary={phase === 'FINISHED' ? finalSummary : null}
+                  roundNo={currentRound}
+                />
+              ) : (
+                <>
+                  <SectionTitle>Latest Headlines</SectionTitle>
+                  {latest.length === 0 ? (
+                    <p className="flex-1 flex items-center justify-center text-2xl text-gray-300">
+                      The timeline is still empty
+                    </p>
+                  ) : (
+                    <ul className="flex-1 min-h-0 overflow-hidden space-y-4">
+                      {latest.map((headline) => {
+                        const color = planetColor(sessionState.planets, headline.planets?.[0]);
+                        const evaluated = headline.llmStatus !== 'pending' && headline.llmStatus !== 'failed';
+                        return (
+                          <li
+                            key={headline.id}
+                            className={`pl-4 border-l-4 ${color?.borderL ?? 'border-l-gray-200'}`}
+                          >
+                            <p
+                              className={
+                                evaluated
+                                  ? BAND_TEXT[headline.selectedBand ?? 3] ?? BAND_TEXT[3]
+                                  : 'text-xl italic text-gray-400'
+                              }
+                            >
+                              {headline.text}
+                            </p>
+                            <p className="text-sm text-gray-400 mt-1">
+                              {headline.playerNickname}
+                              {headline.inGameSubmittedAt &&
+                                ` · ${new Date(headline.inGameSubmittedAt).toLocaleDateString('en-US', {
+                                  month: 'long',
+                                  year: 'numeric',
+                                })}`}
+                              {headline.totalScore != null && ` · +${headline.totalScore}`}
+                            </p>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
+                </>
+              )}
+            </Card>
+          </section>
+
+          <aside className="min-h-0 flex flex-col gap-6 overflow-hidden">
+            <Card padding="md">
+              <SectionTitle>Leaderboard</SectionTitle>
+              <ol className="space-y-2">
+                {ranked.map((player, i) => (
+                  <li key={player.id} className="flex items-center justify-between gap-3 text-xl">
+                    <span className="flex items-center gap-3 min-w-0">
+                      <span className="w-6 text-gray-400 tabular-nums">{i + 1}</span>
+                      <span className="font-semibold text-gray-800 truncate">{player.nickname}</span>
+                    </span>
+                    <span className="font-mono font-semibold text-indigo-600 tabular-nums">
+                      {player.totalScore ?? 0}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            </Card>
+            <PlanetHeatmap
+              headlines={headlines}
+              planets={sessionState.planets}
+              maxRounds={sessionState.maxRounds}
+            />
+          </aside>
+        </main>
+      )}
+    </div>
+  );
+}
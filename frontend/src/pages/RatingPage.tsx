@@ -0,0 +1,178 @@
+import { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { Card, Badge } from '../components/ui';
+
+const API_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001';
+
+/** the juror's plausibility bands, most plausible first */
+const LEVELS: { level: number; label: string }[] = [
+  { level: 1, label: 'Inevitable' },
+  { level: 2, label: 'Probable' },
+  { level: 3, label: 'Plausible' },
+  { level: 4, label: 'Possible' },
+  { level: 5, label: 'Preposterous' },
+];
+
+interface RatingItem {
+  id: string;
+  position: number;
+  storyDirection: string;
+  headline: string | null;
+  level: number | null;
+}
+
+interface RaterAssignment {
+  taskName: string;
+  raterName: string;
+  items: RatingItem[];
+}
+
+/**
+ * blind plausibility rating for human raters, opened with the rater's code
+ * from an admin rating task. shows each story direction and its headline, never
+ * the juror's level or other raters' answers; every click is saved straight away.
+ */
+export function RatingPage() {
+  const { raterCode } = useParams<{ raterCode: string }>();
+  const [assignment, setAssignment] = useState<RaterAssignment | null>(null);
+  const [error, setError] = useState('');
+  const [current, setCurrent] = useState(0);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!raterCode) return;
+    fetch(`${API_URL}/api/rating/${raterCode.toUpperCase()}`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error ?? 'Rating link not found');
+        setAssignment(data);
+        // pick up where the rater left off
+        const next = data.items.findIndex((item: RatingItem) => item.level === null);
+        setCurrent(next === -1 ? 0 : next);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Rating link not found'));
+  }, [raterCode]);
+
+  const rate = async (item: RatingItem, level: number) => {
+    if (!assignment || !raterCode) return;
+    setSaving(true);
+    setError('');
+    try {
+      const response = await fetch(`${API_URL}/api/rating/${raterCode.toUpperCase()}/items/${item.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ level }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error ?? 'Failed to save rating');
+      const items = assignment.items.map((i) => (i.id === item.id ? { ...i, level } : i));
+      setAssignment({ ...assignment, items });
+      if (current < items.length - 1) {
+        setCurrent(current + 1);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save rating');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!assignment) {
+    return (
+      <div className="h-[100dvh] bg-gradient-to-b from-gray-50 to-gray-100/80 flex items-center justify-center p-4">
+        <p className="text-sm text-gray-500">{error || 'Loading…'}</p>
+      </div>
+    );
+  }
+
+  const { items } = assignment;
+  const item = items[current];
+  const rated = items.filter((i) => i.level !== null).length;
+
+  return (
+    <div className="min-h-[100dvh] bg-gradient-to-b from-gray-50 to-gray-100/80 flex items-center justify-center p-4">
+      <div className="max-w-xl w-full space-y-5">
+        <div className="text-center space-y-1">
+          <h1 className="text-2xl font-bold text-gray-900">{assignment.taskName}</h1>
+          <p className="text-sm text-gray-500">
+            Rating as {assignment.raterName} · {rated} of {items.length} rated
+          </p>
+          <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-indigo-500 transition-all"
+              style={{ width: `${items.length ? (rated / items.length) * 100 : 0}%` }}
+            />
+          </div>
+        </div>
+
+        {item && (
+          <Card padding="lg" className="space-y-5">
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-gray-400 uppercase tracking-wider">
+                Item {item.position} of {items.length}
+              </span>
+              {item.level !== null && <Badge variant="green">Rated</Badge>}
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-xs font-medium text-gray-500 uppercase tracking-wider">Story direction</p>
+              <p className="text-lg font-medium text-gray-900">{item.storyDirection}</p>
+              {item.headline && (
+                <p className="text-sm text-gray-500 italic">&ldquo;{item.headline}&rdquo;</p>
+              )}
+            </div>
+
+            <div>
+              <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">
+                How plausible is this story direction?
+              </p>
+              <div className="grid grid-cols-5 gap-2">
+                {LEVELS.map(({ level, label }) => (
+                  <button
+                    key={level}
+                    type="button"
+                    disabled={saving}
+                    onClick={() => rate(item, level)}
+                    className={`flex flex-col items-center py-2 rounded-lg border text-sm transition-colors ${
+                      item.level === level
+                        ? 'bg-indigo-600 border-indigo-600 text-white'
+                        : 'bg-white border-gray-200 text-gray-700 hover:border-indigo-300'
+                    }`}
+                  >
+                    <span className="text-lg font-bold">{level}</span>
+                    <span className="text-[10px]">{label}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {error && <p className="text-sm text-red-500">{error}</p>}
+
+            <div className="flex justify-between text-sm">
+              <button
+                type="button"
+                disabled={current === 0}
+                onClick={() => setCurrent(current - 1)}
+                className="text-indigo-500 hover:text-indigo-600 disabled:text-gray-300"
+              >
+                ← Previous
+              </button>
+              <button
+                type="button"
+                disabled={current === items.length - 1}
+                onClick={() => setCurrent(current + 1)}
+                className="text-indigo-500 hover:text-indigo-600 disabled:text-gray-300"
+              >
+                Next →
+              </button>
+            </div>
+          </Card>
+        )}
+
+        {rated === items.length && (
+          <p className="text-center text-sm text-emerald-600">All done, thank you. You can still change any rating.</p>
+        )}
+      </div>
+    </div>
+  );
+}